@@ -0,0 +1,67 @@
+/**
+ * HabitArcade service worker - shows reminder and timer notifications.
+ *
+ * The page posts the notifications it wants at given times:
+ *   { type: 'schedule', group, notifications: [{ id, at, title, body, url }] }
+ *     replaces everything previously scheduled for the group
+ *   { type: 'fire', notification }
+ *     the page's own timer for a notification went off - show it unless already shown
+ *
+ * Timers live in both places so a notification still fires if either this worker was
+ * stopped by the browser or the page's timers were throttled in a background tab.
+ */
+
+const scheduled = new Map(); // group -> timeout ids
+const shown = new Set(); // notification ids already shown
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+function show(notification) {
+  if (shown.has(notification.id)) return Promise.resolve();
+  shown.add(notification.id);
+  return self.registration.showNotification(notification.title, {
+    body: notification.body,
+    tag: notification.id,
+    icon: '/vite.svg',
+    data: { url: notification.url || '/' },
+  });
+}
+
+self.addEventListener('message', (event) => {
+  const message = event.data || {};
+
+  if (message.type === 'schedule') {
+    for (const timeout of scheduled.get(message.group) || []) {
+      clearTimeout(timeout);
+    }
+    const timeouts = message.notifications
+      .filter((notification) => !shown.has(notification.id))
+      .map((notification) =>
+        setTimeout(() => show(notification), Math.max(0, notification.at - Date.now()))
+      );
+    scheduled.set(message.group, timeouts);
+  }
+
+  if (message.type === 'fire') {
+    event.waitUntil(show(message.notification));
+  }
+});
+
+// Focus an open tab (or open one) when a notification is clicked
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => 'focus' in client);
+      return existing ? existing.focus() : self.clients.openWindow(url);
+    })
+  );
+});
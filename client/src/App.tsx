@@ -3,7 +3,7 @@ import { QueryClientProvider } from '@tanstack/react-query';
 import { BrowserRouter, useLocation } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import { ClickToComponent } from 'click-to-react-component';
-import { queryClient } from './api';
+import { queryClient, useChangeStream, useOfflineQueue, useTimerSync } from './api';
 import { Layout } from './components/Layout';
 import { Dashboard } from './components/Dashboard';
 import { Today } from './pages/Today';
@@ -22,10 +22,15 @@ import {
 } from './pages/Manage';
 import { Targets } from './pages/Targets';
 import { TimeBlocks } from './pages/TimeBlocks';
-import { StatusView } from './pages/Kanban';
+import { StatusView, ProjectView, CategoryView } from './pages/Kanban';
+import { Analytics } from './pages/Analytics';
+import { Projects } from './pages/Projects';
+import { SmartLists } from './pages/SmartLists';
 import { ModalManager } from './components/ModalManager';
 import { useUIStore } from './stores';
 import { getPageFromPath } from './routes';
+import { useHabitReminders, useTimerNotifications } from './notifications';
+import { useTimeBlockAutoStart } from './widgets/TimeBlockPriorities/useTimeBlockSchedule';
 
 // Sync URL with store state - only syncs URL changes to store (for browser back/forward)
 // Store-to-URL navigation is handled directly by components using useNavigate
@@ -44,6 +49,28 @@ function RouteSync() {
   return null;
 }
 
+// Keep this tab in sync with changes made elsewhere (other tabs, the wall tablet),
+// replay writes queued while the server was unreachable, and follow the shared timer
+function ChangeSync() {
+  useChangeStream();
+  useOfflineQueue();
+  useTimerSync();
+  return null;
+}
+
+// Habit reminders and timer alerts (when enabled in Settings)
+function Notifications() {
+  useHabitReminders();
+  useTimerNotifications();
+  return null;
+}
+
+// Starts auto-start time blocks at their scheduled time, whichever page is open
+function TimeBlockSchedule() {
+  useTimeBlockAutoStart();
+  return null;
+}
+
 function PageRouter() {
   const { currentPage } = useUIStore();
 
@@ -82,12 +109,18 @@ function PageRouter() {
     // Kanban views
     case 'kanban-status':
       return <StatusView />;
-    // Future pages can be added here
-    case 'tasks':
     case 'kanban-project':
+      return <ProjectView />;
     case 'kanban-category':
-    case 'projects':
+      return <CategoryView />;
+    case 'smart-lists':
+      return <SmartLists />;
     case 'analytics':
+      return <Analytics />;
+    case 'projects':
+      return <Projects />;
+    // Future pages can be added here
+    case 'tasks':
       // Placeholder - these pages can be implemented later
       return (
         <div className="flex items-center justify-center h-64 text-slate-400">
@@ -103,6 +136,9 @@ function AppContent() {
   return (
     <>
       <RouteSync />
+      <ChangeSync />
+      <Notifications />
+      <TimeBlockSchedule />
       <ClickToComponent />
       <Layout>
         <PageRouter />
@@ -0,0 +1,134 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiFetch } from './queryClient';
+import type { ApiResponse } from '../types';
+
+// Analytics range grouping
+export type AnalyticsInterval = 'week' | 'month';
+
+export interface AnalyticsRange {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  interval: AnalyticsInterval;
+}
+
+// One line/bar series aligned to the response's periods (null = no data that period)
+export interface AnalyticsSeries {
+  id: string | null;
+  name: string;
+  color: string | null;
+  values: (number | null)[];
+}
+
+export interface AnalyticsTrendData extends AnalyticsRange {
+  periods: string[]; // Period start dates
+  series: AnalyticsSeries[];
+}
+
+export interface TaskThroughputData extends AnalyticsTrendData {
+  groupBy: 'project' | 'status';
+}
+
+// Averages over the tasks completed in a period/project (hours; null when nothing to average)
+export interface CycleTimeSummary {
+  completed: number;
+  leadTimeHours: number | null; // Creation -> completion
+  cycleTimeHours: number | null; // Work start -> completion, over tasks that were started
+  timeInStatus: { statusId: string; hours: number }[]; // Average hours per completed task
+}
+
+export interface TaskCycleTimeData extends AnalyticsRange {
+  periods: string[];
+  startStatusId: string | null; // Status that starts the cycle-time clock
+  statuses: { id: string; name: string; color: string; isBreakout: boolean }[]; // Statuses with logged time
+  overall: CycleTimeSummary;
+  byPeriod: (CycleTimeSummary & { period: string })[];
+  byProject: (CycleTimeSummary & { id: string | null; name: string; color: string | null })[];
+}
+
+export interface MeasurementTrendSeries extends AnalyticsSeries {
+  unit: string | null;
+  min: number | null;
+  max: number | null;
+}
+
+export interface MeasurementTrendData extends AnalyticsRange {
+  periods: string[];
+  series: MeasurementTrendSeries[];
+}
+
+// Completion overlap for a pair of habits (days where either was N/A or Exempt are excluded)
+export interface HabitCorrelationPair {
+  habitA: string;
+  habitB: string;
+  days: number;
+  both: number;
+  aOnly: number;
+  bOnly: number;
+  neither: number;
+  correlation: number | null; // Phi coefficient (-1 to 1), null when a habit never varies
+}
+
+export interface HabitCorrelationData {
+  startDate: string;
+  endDate: string;
+  habits: { id: string; name: string }[];
+  pairs: HabitCorrelationPair[];
+}
+
+// Query keys
+export const analyticsKeys = {
+  all: ['analytics'] as const,
+  categoryTrends: (range: AnalyticsRange) => ['analytics', 'category-trends', range] as const,
+  habitCorrelation: (startDate: string, endDate: string) => ['analytics', 'habit-correlation', startDate, endDate] as const,
+  taskThroughput: (range: AnalyticsRange, groupBy: string) => ['analytics', 'task-throughput', range, groupBy] as const,
+  taskCycleTime: (range: AnalyticsRange) => ['analytics', 'task-cycle-time', range] as const,
+  measurementTrends: (range: AnalyticsRange) => ['analytics', 'measurement-trends', range] as const,
+};
+
+function rangeParams(range: AnalyticsRange): string {
+  return `startDate=${range.startDate}&endDate=${range.endDate}&interval=${range.interval}`;
+}
+
+// Fetch habit completion rate per category per period
+export function useCategoryTrends(range: AnalyticsRange) {
+  return useQuery({
+    queryKey: analyticsKeys.categoryTrends(range),
+    queryFn: () => apiFetch<ApiResponse<AnalyticsTrendData>>(`/analytics/category-trends?${rangeParams(range)}`),
+  });
+}
+
+// Fetch pairwise habit completion correlation
+export function useHabitCorrelation(startDate: string, endDate: string) {
+  return useQuery({
+    queryKey: analyticsKeys.habitCorrelation(startDate, endDate),
+    queryFn: () => apiFetch<ApiResponse<HabitCorrelationData>>(
+      `/analytics/habit-correlation?startDate=${startDate}&endDate=${endDate}`
+    ),
+  });
+}
+
+// Fetch task throughput per project or status per period
+export function useTaskThroughput(range: AnalyticsRange, groupBy: 'project' | 'status') {
+  return useQuery({
+    queryKey: analyticsKeys.taskThroughput(range, groupBy),
+    queryFn: () => apiFetch<ApiResponse<TaskThroughputData>>(
+      `/analytics/task-throughput?${rangeParams(range)}&groupBy=${groupBy}`
+    ),
+  });
+}
+
+// Fetch lead time, cycle time and time in status of completed tasks per period and project
+export function useTaskCycleTime(range: AnalyticsRange) {
+  return useQuery({
+    queryKey: analyticsKeys.taskCycleTime(range),
+    queryFn: () => apiFetch<ApiResponse<TaskCycleTimeData>>(`/analytics/task-cycle-time?${rangeParams(range)}`),
+  });
+}
+
+// Fetch average measurement values per period
+export function useMeasurementTrends(range: AnalyticsRange) {
+  return useQuery({
+    queryKey: analyticsKeys.measurementTrends(range),
+    queryFn: () => apiFetch<ApiResponse<MeasurementTrendData>>(`/analytics/measurement-trends?${rangeParams(range)}`),
+  });
+}
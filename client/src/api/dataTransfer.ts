@@ -0,0 +1,26 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from './queryClient';
+import type { ApiResponse, DataArchive, DataImportMode, DataImportResult } from '../types';
+
+// Fetch a full export archive (every table plus uploaded images)
+export function useExportData() {
+  return useMutation({
+    mutationFn: () => apiFetch<DataArchive>('/export'),
+  });
+}
+
+// Import an archive produced by useExportData
+export function useImportData() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ archive, mode }: { archive: unknown; mode: DataImportMode }) =>
+      apiFetch<ApiResponse<DataImportResult>>(`/import?mode=${mode}`, {
+        method: 'POST',
+        body: JSON.stringify(archive),
+      }),
+    onSuccess: () => {
+      // Everything may have changed
+      queryClient.invalidateQueries();
+    },
+  });
+}
@@ -0,0 +1,47 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from './queryClient';
+import type { FocusSession, FocusTotals, ApiListResponse, ApiResponse } from '../types';
+
+export interface FocusSessionRange {
+  startDate: string;
+  endDate: string;
+}
+
+// Query keys
+export const focusSessionKeys = {
+  all: ['focusSessions'] as const,
+  list: (range: FocusSessionRange) => ['focusSessions', 'list', range.startDate, range.endDate] as const,
+  totals: (range: FocusSessionRange) => ['focusSessions', 'totals', range.startDate, range.endDate] as const,
+};
+
+// Fetch sessions in a date range (newest first)
+export function useFocusSessions(range: FocusSessionRange) {
+  return useQuery({
+    queryKey: focusSessionKeys.list(range),
+    queryFn: () => apiFetch<ApiListResponse<FocusSession>>(
+      `/focus-sessions?startDate=${range.startDate}&endDate=${range.endDate}`
+    ),
+  });
+}
+
+// Fetch focused time per day and per block
+export function useFocusTotals(range: FocusSessionRange) {
+  return useQuery({
+    queryKey: focusSessionKeys.totals(range),
+    queryFn: () => apiFetch<ApiResponse<FocusTotals>>(
+      `/focus-sessions/totals?startDate=${range.startDate}&endDate=${range.endDate}`
+    ),
+  });
+}
+
+// Delete a logged session
+export function useDeleteFocusSession() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) =>
+      apiFetch(`/focus-sessions/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: focusSessionKeys.all });
+    },
+  });
+}
@@ -1,12 +1,15 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiFetch } from './queryClient';
-import type { Habit, HabitEntry, ApiListResponse, ApiResponse } from '../types';
+import { apiFetch, API_BASE } from './queryClient';
+import { sendOrQueue } from './offlineQueue';
+import type { Habit, HabitEntry, HabitImportResult, HabitStats, HabitStatus, ApiListResponse, ApiResponse } from '../types';
 
 // Query keys
 export const habitKeys = {
   all: ['habits'] as const,
   detail: (id: string) => ['habits', id] as const,
   entries: (id: string, month?: string) => ['habits', id, 'entries', month] as const,
+  stats: (id: string, today: string) => ['habits', id, 'stats', today] as const,
+  bulkStats: (ids: string[] | undefined, today: string) => ['habits', 'stats', ids ?? 'all', today] as const,
 };
 
 // Fetch all habits
@@ -37,6 +40,27 @@ export function useHabitEntries(habitId: string, startDate: string, endDate: str
   });
 }
 
+// Fetch streak/completion statistics for a habit
+// today = effective date (day boundary aware) so stats line up with the matrix
+export function useHabitStats(id: string | undefined, today: string) {
+  return useQuery({
+    queryKey: habitKeys.stats(id ?? '', today),
+    queryFn: () => apiFetch<ApiResponse<HabitStats>>(`/habits/${id}/stats?today=${today}`),
+    enabled: !!id,
+  });
+}
+
+// Fetch statistics for several habits in one request (all habits when ids is omitted)
+export function useBulkHabitStats(ids: string[] | undefined, today: string) {
+  return useQuery({
+    queryKey: habitKeys.bulkStats(ids, today),
+    queryFn: () => apiFetch<ApiListResponse<HabitStats>>(
+      ids ? `/habits/stats?ids=${ids.join(',')}&today=${today}` : `/habits/stats?today=${today}`
+    ),
+    enabled: !ids || ids.length > 0,
+  });
+}
+
 // Create habit
 export function useCreateHabit() {
   const queryClient = useQueryClient();
@@ -80,7 +104,38 @@ export function useDeleteHabit() {
   });
 }
 
+// Find a habit's entry for a date in the cached habit list (children included)
+function findCachedEntry(habitsResponse: ApiListResponse<Habit> | undefined, habitId: string, date: string) {
+  for (const habit of habitsResponse?.data ?? []) {
+    for (const candidate of [habit, ...(habit.children ?? [])]) {
+      if (candidate.id === habitId) {
+        return candidate.entries?.find(entry => entry.date === date);
+      }
+    }
+  }
+  return undefined;
+}
+
+// Apply an entry change to one habit in the cached list
+function applyEntryToHabit(habit: Habit, entry: Pick<HabitEntry, 'habitId' | 'date' | 'status' | 'count' | 'notes'>): Habit {
+  if (habit.id !== entry.habitId) {
+    return habit.children
+      ? { ...habit, children: habit.children.map(child => applyEntryToHabit(child, entry)) }
+      : habit;
+  }
+  const entries = habit.entries ?? [];
+  const existing = entries.find(e => e.date === entry.date);
+  return {
+    ...habit,
+    entries: existing
+      ? entries.map(e => (e.date === entry.date ? { ...e, ...entry, count: entry.count ?? e.count } : e))
+      // Temporary entry until the server responds; empty updatedAt marks it as never saved
+      : [...entries, { id: `pending-${entry.habitId}-${entry.date}`, createdAt: '', updatedAt: '', ...entry }],
+  };
+}
+
 // Update habit entry (status or count)
+// Applied optimistically; queued in IndexedDB and replayed later when the server is unreachable
 export function useUpdateHabitEntry() {
   const queryClient = useQueryClient();
   return useMutation({
@@ -90,15 +145,31 @@ export function useUpdateHabitEntry() {
       status: string;
       notes?: string;
       count?: number;
-    }) =>
-      apiFetch<ApiResponse<HabitEntry>>(`/habits/${habitId}/entries`, {
+    }) => {
+      // Runs after onMutate, which keeps updatedAt of existing entries untouched
+      const cached = findCachedEntry(queryClient.getQueryData(habitKeys.all), habitId, date);
+      return sendOrQueue<ApiResponse<HabitEntry>>({
+        endpoint: `/habits/${habitId}/entries`,
         method: 'POST',
-        body: JSON.stringify({ date, status, notes, count }),
-      }),
-    onMutate: async () => {
+        body: { date, status, notes, count },
+        conflictCheck: { baseUpdatedAt: cached?.updatedAt || null },
+        dedupeKey: `habit-entry:${habitId}:${date}`,
+        invalidates: [...habitKeys.all],
+        description: `habit entry for ${date}`,
+      });
+    },
+    onMutate: async ({ habitId, date, status, notes, count }) => {
       // Cancel outgoing queries
       await queryClient.cancelQueries({ queryKey: habitKeys.all });
-      const previousHabits = queryClient.getQueryData(habitKeys.all);
+      const previousHabits = queryClient.getQueryData<ApiListResponse<Habit>>(habitKeys.all);
+
+      if (previousHabits) {
+        const entry = { habitId, date, status: status as HabitStatus, notes, count };
+        queryClient.setQueryData<ApiListResponse<Habit>>(habitKeys.all, {
+          ...previousHabits,
+          data: previousHabits.data.map(habit => applyEntryToHabit(habit, entry)),
+        });
+      }
       return { previousHabits };
     },
     onError: (_err, _variables, context) => {
@@ -107,7 +178,9 @@ export function useUpdateHabitEntry() {
         queryClient.setQueryData(habitKeys.all, context.previousHabits);
       }
     },
-    onSettled: () => {
+    onSettled: (result) => {
+      // Queued (null) - keep the optimistic state until the replay refreshes it
+      if (result === null) return;
       queryClient.invalidateQueries({ queryKey: habitKeys.all });
     },
   });
@@ -142,24 +215,17 @@ export function useRestoreHabit() {
   });
 }
 
-// Import result type
-interface ImportResult {
-  habitsCreated: number;
-  categoriesCreated: number;
-  habits: string[];
-  categories: string[];
-}
-
-// Import habits from markdown
+// Import habits from markdown (dryRun previews the diff without writing)
 export function useImportHabits() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (markdown: string) =>
-      apiFetch<{ data: ImportResult; message: string }>('/habits/import', {
+    mutationFn: ({ markdown, dryRun = false }: { markdown: string; dryRun?: boolean }) =>
+      apiFetch<{ data: HabitImportResult; message: string }>('/habits/import', {
         method: 'POST',
-        body: JSON.stringify({ markdown }),
+        body: JSON.stringify({ markdown, dryRun }),
       }),
-    onSuccess: () => {
+    onSuccess: (result) => {
+      if (result.data.dryRun) return;
       queryClient.invalidateQueries({ queryKey: habitKeys.all });
       // Also invalidate categories since import may create new ones
       queryClient.invalidateQueries({ queryKey: ['categories'] });
@@ -167,6 +233,14 @@ export function useImportHabits() {
   });
 }
 
+// Download URL for GET /habits/export - markdown habit list, or CSV entries over an optional date range
+export function getHabitExportUrl(format: 'markdown' | 'csv', range?: { startDate?: string; endDate?: string }) {
+  const params = new URLSearchParams({ format });
+  if (range?.startDate) params.set('startDate', range.startDate);
+  if (range?.endDate) params.set('endDate', range.endDate);
+  return `${API_BASE}/habits/export?${params}`;
+}
+
 // Upload habit image
 export function useUploadHabitImage() {
   const queryClient = useQueryClient();
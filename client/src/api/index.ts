@@ -5,9 +5,11 @@ export * from './queryClient';
 export * from './habits';
 export * from './categories';
 export * from './tasks';
+export * from './taskFilters';
 export * from './projects';
 export * from './tags';
 export * from './timeBlocks';
+export * from './focusSessions';
 export * from './measurements';
 export * from './parkingLot';
 export * from './settings';
@@ -16,3 +18,7 @@ export * from './quotes';
 export * from './quoteCollections';
 export * from './videos';
 export * from './statuses';
+export * from './analytics';
+export * from './dataTransfer';
+export * from './sync';
+export * from './offlineQueue';
@@ -4,6 +4,9 @@ import type {
   Measurement,
   MeasurementEntry,
   MeasurementTarget,
+  MeasurementGraphData,
+  MeasurementImportOptions,
+  MeasurementImportReport,
   ApiListResponse,
   ApiResponse
 } from '../types';
@@ -34,6 +37,8 @@ export const measurementKeys = {
   entries: (id: string, dateRange?: { start: string; end: string }) =>
     ['measurements', id, 'entries', dateRange] as const,
   targets: (id: string) => ['measurements', id, 'targets'] as const,
+  graph: (id: string, dateRange?: { start: string; end: string }) =>
+    ['measurements', id, 'graph', dateRange] as const,
 };
 
 // Fetch all measurements
@@ -123,6 +128,29 @@ export function useMeasurementTargets(measurementId: string) {
   });
 }
 
+// Fetch target line graph data - target/reach-goal lines, trend and pace forecast
+export function useMeasurementGraphData(
+  measurementId: string,
+  startDate?: string,
+  endDate?: string
+) {
+  const queryParams = new URLSearchParams();
+  if (startDate) queryParams.append('startDate', startDate);
+  if (endDate) queryParams.append('endDate', endDate);
+  const queryString = queryParams.toString();
+
+  return useQuery({
+    queryKey: measurementKeys.graph(
+      measurementId,
+      startDate && endDate ? { start: startDate, end: endDate } : undefined
+    ),
+    queryFn: () => apiFetch<ApiResponse<MeasurementGraphData>>(
+      `/measurements/${measurementId}/graph-data${queryString ? `?${queryString}` : ''}`
+    ),
+    enabled: !!measurementId,
+  });
+}
+
 // Create measurement
 export function useCreateMeasurement() {
   const queryClient = useQueryClient();
@@ -192,6 +220,44 @@ export function useAddMeasurementEntry() {
   });
 }
 
+// Import entries from a device export (CSV text or JSON rows); dryRun only reports what would happen
+export function useImportMeasurementEntries() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      measurementId,
+      csv,
+      rows,
+      options,
+    }: {
+      measurementId: string;
+      csv?: string;
+      rows?: unknown[];
+      options: MeasurementImportOptions;
+    }) => {
+      const queryParams = new URLSearchParams({
+        dedupe: options.dedupe,
+        existing: options.existing,
+        dateOrder: options.dateOrder,
+      });
+      if (options.unit) queryParams.append('unit', options.unit);
+      if (options.dryRun) queryParams.append('dryRun', 'true');
+      return apiFetch<ApiResponse<MeasurementImportReport>>(
+        `/measurements/${measurementId}/entries/import?${queryParams.toString()}`,
+        {
+          method: 'POST',
+          body: JSON.stringify(csv !== undefined ? { csv } : { rows }),
+        }
+      );
+    },
+    onSuccess: (response, { measurementId }) => {
+      if (response.data.dryRun) return;
+      queryClient.invalidateQueries({ queryKey: measurementKeys.entries(measurementId) });
+      queryClient.invalidateQueries({ queryKey: measurementKeys.all });
+    },
+  });
+}
+
 // Update entry
 export function useUpdateMeasurementEntry() {
   const queryClient = useQueryClient();
@@ -255,6 +321,7 @@ export function useCreateMeasurementTarget() {
       startValue: number;
       goalValue: number;
       reachGoalValue?: number;
+      name?: string | null;
       startDate: string;
       goalDate: string;
     }) =>
@@ -283,8 +350,10 @@ export function useUpdateMeasurementTarget() {
       startValue?: number;
       goalValue?: number;
       reachGoalValue?: number;
+      name?: string | null;
       startDate?: string;
       goalDate?: string;
+      closedDate?: string | null; // null reopens a closed phase
     }) =>
       apiFetch<ApiResponse<MeasurementTarget>>(
         `/measurements/${measurementId}/targets/${targetId}`,
@@ -300,6 +369,33 @@ export function useUpdateMeasurementTarget() {
   });
 }
 
+// Close a target phase on a date
+export function useCloseMeasurementTarget() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      measurementId,
+      targetId,
+      date,
+    }: {
+      measurementId: string;
+      targetId: string;
+      date: string;
+    }) =>
+      apiFetch<ApiResponse<MeasurementTarget>>(
+        `/measurements/${measurementId}/targets/${targetId}/close`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify({ date }),
+        }
+      ),
+    onSuccess: (_, { measurementId }) => {
+      queryClient.invalidateQueries({ queryKey: measurementKeys.targets(measurementId) });
+      queryClient.invalidateQueries({ queryKey: measurementKeys.all });
+    },
+  });
+}
+
 // Delete target
 export function useDeleteMeasurementTarget() {
   const queryClient = useQueryClient();
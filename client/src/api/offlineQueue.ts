@@ -0,0 +1,202 @@
+import { useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { apiFetch, ApiRequestError, queryClient } from './queryClient';
+import { useSyncStore } from '../stores/syncStore';
+
+// A write that could not reach the server, stored in IndexedDB until it can be replayed
+export interface QueuedMutation {
+  seq?: number; // Auto-increment key - replay order
+  endpoint: string;
+  method: string;
+  body: Record<string, unknown>;
+  // Sent only on replay so the server can reject updates to records changed in the meantime
+  conflictCheck?: { baseUpdatedAt: string | null };
+  // Later mutations with the same key replace the queued body instead of queueing again
+  dedupeKey?: string;
+  invalidates: string[]; // Query key to refresh once replayed
+  description: string; // Shown if the replay is rejected
+  queuedAt: string;
+}
+
+const DB_NAME = 'habitarcade-offline';
+const STORE_NAME = 'mutations';
+const RETRY_INTERVAL = 1000 * 15;
+// Gateway errors mean the dev proxy / reverse proxy is up but the API server is not
+const UNREACHABLE_STATUSES = [0, 502, 503, 504];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let replayPromise: Promise<void> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+// Run one request against the mutations store
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Queued mutations, oldest first
+export function getQueuedMutations(): Promise<QueuedMutation[]> {
+  return withStore('readonly', store => store.getAll() as IDBRequest<QueuedMutation[]>);
+}
+
+async function refreshPendingCount() {
+  const count = await withStore('readonly', store => store.count());
+  useSyncStore.getState().setPendingCount(count);
+}
+
+export async function enqueueMutation(mutation: Omit<QueuedMutation, 'seq' | 'queuedAt'>) {
+  const queued = await getQueuedMutations();
+  const duplicate = mutation.dedupeKey
+    ? queued.find(m => m.dedupeKey === mutation.dedupeKey)
+    : undefined;
+
+  if (duplicate) {
+    // Keep the original position and conflict baseline, send the latest body
+    await withStore('readwrite', store => store.put({ ...duplicate, body: mutation.body }));
+  } else {
+    await withStore('readwrite', store => store.add({ ...mutation, queuedAt: new Date().toISOString() }));
+  }
+  await refreshPendingCount();
+}
+
+export function isOfflineError(error: unknown): boolean {
+  return error instanceof ApiRequestError && UNREACHABLE_STATUSES.includes(error.status);
+}
+
+// RFC 4122 v4 id (crypto.randomUUID is unavailable over plain http on a LAN tablet)
+export function generateId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Send a mutation, or queue it when the server is unreachable.
+ * Returns the response, or null if the mutation was queued. While anything is
+ * already queued, new mutations queue behind it so replay order is preserved.
+ */
+export async function sendOrQueue<T>(mutation: Omit<QueuedMutation, 'seq' | 'queuedAt'>): Promise<T | null> {
+  if (useSyncStore.getState().pendingCount > 0) {
+    await enqueueMutation(mutation);
+    void replayQueuedMutations();
+    return null;
+  }
+
+  try {
+    const result = await apiFetch<T>(mutation.endpoint, {
+      method: mutation.method,
+      body: JSON.stringify(mutation.body),
+    });
+    useSyncStore.getState().setOffline(false);
+    return result;
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+    useSyncStore.getState().setOffline(true);
+    await enqueueMutation(mutation);
+    return null;
+  }
+}
+
+// Replay a batch in order. Returns false if the server is still unreachable.
+async function replayBatch(queued: QueuedMutation[], replayedKeys: Set<string>): Promise<boolean> {
+  for (const mutation of queued) {
+    try {
+      await apiFetch(mutation.endpoint, {
+        method: mutation.method,
+        body: JSON.stringify({ ...mutation.body, ...mutation.conflictCheck }),
+      });
+    } catch (error) {
+      // Still offline - stop here and keep the rest in order for the next attempt
+      if (isOfflineError(error)) return false;
+      // Rejected (conflict or validation) - drop it so it doesn't block the queue
+      const reason = error instanceof ApiRequestError && error.code === 'CONFLICT'
+        ? 'it was changed on another device'
+        : (error as Error).message;
+      toast.error(`Couldn't sync ${mutation.description}: ${reason}`);
+    }
+    await withStore('readwrite', store => store.delete(mutation.seq!));
+    replayedKeys.add(JSON.stringify(mutation.invalidates));
+  }
+  return true;
+}
+
+async function replay() {
+  const { setSyncing, setOffline } = useSyncStore.getState();
+  let queued = await getQueuedMutations();
+  if (queued.length === 0) return;
+
+  setSyncing(true);
+  const replayedKeys = new Set<string>();
+  try {
+    // Keep going until mutations queued during the replay are flushed too
+    while (queued.length > 0) {
+      if (!(await replayBatch(queued, replayedKeys))) {
+        setOffline(true);
+        return;
+      }
+      queued = await getQueuedMutations();
+    }
+    setOffline(false);
+  } finally {
+    setSyncing(false);
+    await refreshPendingCount();
+    for (const key of replayedKeys) {
+      queryClient.invalidateQueries({ queryKey: JSON.parse(key) });
+    }
+  }
+}
+
+// Replay queued mutations in order; concurrent calls share one run
+export function replayQueuedMutations(): Promise<void> {
+  if (!replayPromise) {
+    replayPromise = replay().finally(() => {
+      replayPromise = null;
+    });
+  }
+  return replayPromise;
+}
+
+// Load the queue on startup and replay it when the connection comes back
+// (browser online event, or periodically while anything is pending)
+export function useOfflineQueue() {
+  const pendingCount = useSyncStore((state) => state.pendingCount);
+
+  useEffect(() => {
+    refreshPendingCount().then(() => replayQueuedMutations()).catch((error) => {
+      console.error('Failed to load offline queue:', error);
+    });
+
+    const handleOnline = () => {
+      void replayQueuedMutations();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  useEffect(() => {
+    if (pendingCount === 0) return;
+    const timer = setInterval(() => {
+      void replayQueuedMutations();
+    }, RETRY_INTERVAL);
+    return () => clearInterval(timer);
+  }, [pendingCount]);
+}
@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiFetch } from './queryClient';
+import { generateId, sendOrQueue } from './offlineQueue';
 import type { ParkingLotItem, ApiListResponse, ApiResponse } from '../types';
 
 // Query keys
@@ -26,15 +27,36 @@ export function useParkingLotItem(id: string) {
 }
 
 // Create parking lot item
+// Queued in IndexedDB when the server is unreachable and shown optimistically until replayed
 export function useCreateParkingLotItem() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (data: { content: string }) =>
-      apiFetch<ApiResponse<ParkingLotItem>>('/parking-lot', {
+    mutationFn: async (data: { content: string }) => {
+      // Client-side id so a replayed create can't produce a duplicate
+      const body = { ...data, id: generateId() };
+      const result = await sendOrQueue<ApiResponse<ParkingLotItem>>({
+        endpoint: '/parking-lot',
         method: 'POST',
-        body: JSON.stringify(data),
-      }),
-    onSuccess: () => {
+        body,
+        invalidates: [...parkingLotKeys.all],
+        description: `parking lot item "${data.content}"`,
+      });
+      if (result === null) {
+        const pendingItem: ParkingLotItem = {
+          id: body.id,
+          content: data.content.trim(),
+          isDeleted: false,
+          createdAt: new Date().toISOString(),
+        };
+        queryClient.setQueryData<ApiListResponse<ParkingLotItem>>(parkingLotKeys.all, (previous) =>
+          previous ? { ...previous, data: [pendingItem, ...previous.data], count: previous.count + 1 } : previous
+        );
+      }
+      return result;
+    },
+    onSuccess: (result) => {
+      // Queued - the optimistic item stays until the replay refreshes the list
+      if (result === null) return;
       queryClient.invalidateQueries({ queryKey: parkingLotKeys.all });
     },
   });
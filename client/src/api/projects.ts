@@ -67,6 +67,45 @@ export function useUpdateProject() {
   });
 }
 
+// Reschedule project (timeline drag) - optimistically moves the bar so it doesn't snap back while saving
+export function useRescheduleProject() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, startDate, targetDate }: { id: string; startDate: string | null; targetDate: string | null }) =>
+      apiFetch<ApiResponse<Project>>(`/projects/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ startDate, targetDate }),
+      }),
+    onMutate: async ({ id, startDate, targetDate }) => {
+      await queryClient.cancelQueries({ queryKey: projectKeys.all });
+      const previousProjects = queryClient.getQueryData<ApiListResponse<Project>>(projectKeys.all);
+
+      // Optimistic update
+      if (previousProjects) {
+        queryClient.setQueryData<ApiListResponse<Project>>(projectKeys.all, {
+          ...previousProjects,
+          data: previousProjects.data.map(project =>
+            project.id === id
+              ? { ...project, startDate: startDate ?? undefined, targetDate: targetDate ?? undefined }
+              : project
+          ),
+        });
+      }
+
+      return { previousProjects };
+    },
+    onError: (_err, _variables, context) => {
+      if (context?.previousProjects) {
+        queryClient.setQueryData(projectKeys.all, context.previousProjects);
+      }
+    },
+    onSettled: (_data, _err, variables) => {
+      queryClient.invalidateQueries({ queryKey: projectKeys.all });
+      queryClient.invalidateQueries({ queryKey: projectKeys.detail(variables.id) });
+    },
+  });
+}
+
 // Delete project (soft delete)
 export function useDeleteProject() {
   const queryClient = useQueryClient();
@@ -1,33 +1,63 @@
 import { QueryClient } from '@tanstack/react-query';
 
+// Fallback polling interval; false while the /api/events change stream is connected
+let pollingInterval: number | false = 1000 * 30;
+
+export function setPollingInterval(interval: number | false) {
+  pollingInterval = interval;
+}
+
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       staleTime: 1000 * 30, // 30 seconds
-      refetchInterval: 1000 * 30, // 30 second polling
+      refetchInterval: () => pollingInterval,
       retry: 1,
     },
   },
 });
 
 // Use relative URL for production (works with same-origin), absolute for dev
-const API_BASE = import.meta.env.VITE_API_URL || '/api';
+export const API_BASE = import.meta.env.VITE_API_URL || '/api';
+
+// Identifies this tab so it can ignore change events caused by its own requests
+// (crypto.randomUUID is unavailable over plain http on a LAN tablet)
+export const CLIENT_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// Error thrown by apiFetch; status is 0 when the server could not be reached at all
+export class ApiRequestError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+    this.code = code;
+  }
+}
 
 export async function apiFetch<T>(
   endpoint: string,
   options?: RequestInit
 ): Promise<T> {
-  const response = await fetch(`${API_BASE}${endpoint}`, {
-    headers: {
-      'Content-Type': 'application/json',
-      ...options?.headers,
-    },
-    ...options,
-  });
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}${endpoint}`, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Client-Id': CLIENT_ID,
+        ...options?.headers,
+      },
+      ...options,
+    });
+  } catch {
+    throw new ApiRequestError('Server unreachable', 0);
+  }
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-    throw new Error(error.error || 'API request failed');
+    throw new ApiRequestError(error.error || 'API request failed', response.status, error.code);
   }
 
   if (response.status === 204) {
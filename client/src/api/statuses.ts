@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiFetch } from './queryClient';
+import { taskKeys } from './tasks';
 import type { ApiListResponse, ApiResponse } from '../types';
 
 // Extended TaskStatus interface for the new statuses table
@@ -15,6 +16,9 @@ export interface TaskStatusEntity {
   breakoutChildren?: TaskStatusEntity[];
   isDefault: boolean;
   isInitialStatus: boolean;
+  isTerminal: boolean;
+  allowedTransitions?: string[] | null;
+  wipLimit?: number | null;
   sortOrder: number;
   isDeleted: boolean;
   deletedAt?: string;
@@ -28,6 +32,26 @@ export interface WorkflowResponse {
   all: TaskStatusEntity[];
 }
 
+// Whether a task may move between two statuses (mirrors the server): allowedTransitions when set,
+// otherwise breakouts only return to their parent and main statuses reach any main status or
+// their own breakouts
+export function canTransitionStatus(from: TaskStatusEntity, to: TaskStatusEntity): boolean {
+  if (from.id === to.id) return true;
+  if (Array.isArray(from.allowedTransitions)) return from.allowedTransitions.includes(to.id);
+  if (from.isBreakout) return to.id === from.breakoutParentId;
+  return !to.isBreakout || to.breakoutParentId === from.id;
+}
+
+// "Blocked" breakout to suggest for a task with open blockers (mirrors the server): one reachable
+// from its current status, preferring that status's own. Null while it's already in a breakout.
+export function suggestBlockedStatus(current: TaskStatusEntity, statuses: TaskStatusEntity[]): TaskStatusEntity | null {
+  if (current.isBreakout) return null;
+  const reachable = statuses
+    .filter((s) => s.isBreakout && !s.isDeleted && /^blocked$/i.test(s.name.trim()) && canTransitionStatus(current, s))
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+  return reachable.find((s) => s.breakoutParentId === current.id) ?? reachable[0] ?? null;
+}
+
 // Query keys
 export const statusKeys = {
   all: ['statuses'] as const,
@@ -89,6 +113,10 @@ export function useUpdateStatus() {
       queryClient.invalidateQueries({ queryKey: statusKeys.all });
       queryClient.invalidateQueries({ queryKey: statusKeys.workflow });
       queryClient.invalidateQueries({ queryKey: statusKeys.detail(variables.id) });
+      // Tasks in the status complete or reopen when isTerminal changes
+      if (variables.isTerminal !== undefined) {
+        queryClient.invalidateQueries({ queryKey: taskKeys.all });
+      }
     },
   });
 }
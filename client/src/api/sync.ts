@@ -0,0 +1,165 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { API_BASE, CLIENT_ID, setPollingInterval } from './queryClient';
+import { replayQueuedMutations } from './offlineQueue';
+import { useSyncStore } from '../stores/syncStore';
+import { habitKeys } from './habits';
+import { taskKeys } from './tasks';
+import { parkingLotKeys } from './parkingLot';
+import { settingsKeys, useSettings } from './settings';
+import { dashboardKeys } from './dashboard';
+import { projectKeys } from './projects';
+import { timeBlockKeys } from './timeBlocks';
+import { focusSessionKeys } from './focusSessions';
+import { categoryKeys } from './categories';
+import { statusKeys } from './statuses';
+import { tagKeys } from './tags';
+import { measurementKeys } from './measurements';
+import { quoteKeys } from './quotes';
+import { quoteCollectionKeys } from './quoteCollections';
+import { videoKeys } from './videos';
+
+// Change event published by the server on /api/events
+export interface ChangeEvent {
+  entity:
+    | 'habits' | 'habitEntries' | 'categories'
+    | 'tasks' | 'projects' | 'statuses' | 'tags'
+    | 'parkingLot' | 'settings' | 'measurements' | 'quotes' | 'videos'
+    | 'timeBlocks' | 'timer' | 'focusSessions'
+    | 'all'; // e.g. after an import
+  id?: string; // Habit id for habitEntries
+  clientId?: string;
+}
+
+const DEFAULT_SYNC_INTERVAL = 1000 * 30;
+
+// Invalidate only the queries a change event can affect
+function invalidateForChange(queryClient: QueryClient, event: ChangeEvent) {
+  switch (event.entity) {
+    case 'habits':
+      queryClient.invalidateQueries({ queryKey: habitKeys.all });
+      queryClient.invalidateQueries({ queryKey: dashboardKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['widgets', 'habitMatrix'] });
+      break;
+    case 'habitEntries':
+      if (event.id) {
+        // The habit list embeds entries; detail, entries and stats live under the habit id
+        queryClient.invalidateQueries({ queryKey: habitKeys.all, exact: true });
+        queryClient.invalidateQueries({ queryKey: habitKeys.detail(event.id) });
+        queryClient.invalidateQueries({ queryKey: ['habits', 'stats'] });
+      } else {
+        queryClient.invalidateQueries({ queryKey: habitKeys.all });
+      }
+      queryClient.invalidateQueries({ queryKey: dashboardKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['widgets', 'habitMatrix'] });
+      break;
+    case 'categories':
+      queryClient.invalidateQueries({ queryKey: categoryKeys.all });
+      queryClient.invalidateQueries({ queryKey: habitKeys.all }); // Habits embed their category
+      queryClient.invalidateQueries({ queryKey: dashboardKeys.all });
+      break;
+    case 'tasks':
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+      queryClient.invalidateQueries({ queryKey: projectKeys.all });
+      queryClient.invalidateQueries({ queryKey: dashboardKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['widgets', 'weeklyKanban'] });
+      queryClient.invalidateQueries({ queryKey: timeBlockKeys.all }); // Blocks list their assigned tasks
+      break;
+    // Tasks embed their project, status and tags
+    case 'projects':
+      queryClient.invalidateQueries({ queryKey: projectKeys.all });
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+      break;
+    case 'statuses':
+      queryClient.invalidateQueries({ queryKey: statusKeys.all });
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+      break;
+    case 'tags':
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+      break;
+    case 'parkingLot':
+      queryClient.invalidateQueries({ queryKey: parkingLotKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['widgets', 'parkingLot'] });
+      break;
+    case 'settings':
+      queryClient.invalidateQueries({ queryKey: settingsKeys.all });
+      break;
+    case 'measurements':
+      queryClient.invalidateQueries({ queryKey: measurementKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['widgets', 'targetGraph'] });
+      break;
+    case 'quotes':
+      queryClient.invalidateQueries({ queryKey: quoteKeys.all });
+      queryClient.invalidateQueries({ queryKey: quoteCollectionKeys.all });
+      break;
+    case 'videos':
+      queryClient.invalidateQueries({ queryKey: videoKeys.all });
+      break;
+    case 'timeBlocks':
+      queryClient.invalidateQueries({ queryKey: timeBlockKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['widgets', 'timeBlocks'] });
+      break;
+    case 'timer':
+      queryClient.invalidateQueries({ queryKey: timeBlockKeys.timer });
+      queryClient.invalidateQueries({ queryKey: focusSessionKeys.all }); // Runs that end are logged as sessions
+      break;
+    case 'focusSessions':
+      queryClient.invalidateQueries({ queryKey: focusSessionKeys.all });
+      break;
+    case 'all':
+      queryClient.invalidateQueries();
+      break;
+  }
+}
+
+// Subscribe to server change events so other tabs and devices stay in sync.
+// While the stream is down, queries fall back to polling every autoSyncInterval ms.
+// Returns whether the stream is connected (null while the first connection is being made).
+export function useChangeStream() {
+  const queryClient = useQueryClient();
+  const { data: settingsResponse } = useSettings();
+  const autoSyncInterval = Number(settingsResponse?.data?.autoSyncInterval) || DEFAULT_SYNC_INTERVAL;
+  const [isConnected, setIsConnected] = useState<boolean | null>(null);
+  const wasDisconnected = useRef(false);
+
+  useEffect(() => {
+    const source = new EventSource(`${API_BASE}/events`);
+
+    source.onopen = () => {
+      setIsConnected(true);
+      useSyncStore.getState().setOffline(false);
+      // Catch up on anything missed while the stream was down, and flush offline writes
+      if (wasDisconnected.current) {
+        wasDisconnected.current = false;
+        queryClient.invalidateQueries();
+        void replayQueuedMutations();
+      }
+    };
+
+    source.addEventListener('change', (e) => {
+      const event = JSON.parse((e as MessageEvent).data) as ChangeEvent;
+      if (event.clientId === CLIENT_ID) return;
+      invalidateForChange(queryClient, event);
+    });
+
+    // EventSource reconnects on its own; poll until it does
+    source.onerror = () => {
+      wasDisconnected.current = true;
+      setIsConnected(false);
+    };
+
+    return () => source.close();
+  }, [queryClient]);
+
+  useEffect(() => {
+    setPollingInterval(isConnected ? false : autoSyncInterval);
+    // Refetch interval is only re-evaluated after a fetch, so kick active queries
+    // onto the polling schedule when the stream drops
+    if (isConnected === false) {
+      queryClient.refetchQueries({ type: 'active' });
+    }
+  }, [isConnected, autoSyncInterval, queryClient]);
+
+  return isConnected;
+}
@@ -0,0 +1,104 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { apiFetch } from './queryClient';
+import type { Task, TaskFilter, SavedTaskFilter, ApiListResponse, ApiResponse } from '../types';
+
+// Query keys - under ['tasks'] so task changes refresh results and counts
+export const taskFilterKeys = {
+  all: ['tasks', 'filters'] as const,
+  results: (query: string) => ['tasks', 'filters', 'results', query] as const,
+};
+
+// Criterion fields, in the order they're sent
+export const TASK_FILTER_FIELDS = [
+  'projectIds', 'tagIds', 'tagMatch', 'statusIds', 'status',
+  'priorityMin', 'priorityMax', 'search', 'overdue', 'hasSubtasks', 'unscheduled',
+] as const satisfies readonly (keyof TaskFilter)[];
+
+// Just the criteria of a filter (e.g. a saved filter), dropping unset ones
+export function pickTaskFilter(source: TaskFilter): TaskFilter {
+  const filter: Record<string, unknown> = {};
+  for (const key of TASK_FILTER_FIELDS) {
+    const value = source[key];
+    if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) continue;
+    filter[key] = value;
+  }
+  return filter as TaskFilter;
+}
+
+export function isEmptyTaskFilter(filter: TaskFilter): boolean {
+  return Object.keys(pickTaskFilter(filter)).length === 0;
+}
+
+// Query string for GET /api/tasks - id lists are comma-separated
+export function taskFilterQuery(filter: TaskFilter): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(pickTaskFilter(filter))) {
+    params.append(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  return params.toString();
+}
+
+// Fetch saved filters (with matching task counts)
+export function useSavedTaskFilters() {
+  return useQuery({
+    queryKey: taskFilterKeys.all,
+    queryFn: () => apiFetch<ApiListResponse<SavedTaskFilter>>('/task-filters'),
+  });
+}
+
+// Fetch the tasks matching ad-hoc criteria, or a saved filter by id
+export function useFilteredTasks(source: TaskFilter | { filterId: string } | null) {
+  const query = !source
+    ? ''
+    : 'filterId' in source
+      ? new URLSearchParams({ filterId: source.filterId }).toString()
+      : taskFilterQuery(source);
+  return useQuery({
+    queryKey: taskFilterKeys.results(query),
+    queryFn: () => apiFetch<ApiListResponse<Task>>(`/tasks${query ? `?${query}` : ''}`),
+    enabled: !!source,
+    placeholderData: keepPreviousData, // Keep showing the last results while criteria change
+  });
+}
+
+// Save a filter
+export function useCreateSavedTaskFilter() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (filter: TaskFilter & { name: string; isPinned?: boolean }) =>
+      apiFetch<ApiResponse<SavedTaskFilter>>('/task-filters', {
+        method: 'POST',
+        body: JSON.stringify(filter),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taskFilterKeys.all });
+    },
+  });
+}
+
+// Rename, pin/unpin or change criteria - sending any criterion replaces them all
+export function useUpdateSavedTaskFilter() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...updates }: Partial<SavedTaskFilter> & { id: string }) =>
+      apiFetch<ApiResponse<SavedTaskFilter>>(`/task-filters/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify(updates),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taskFilterKeys.all });
+    },
+  });
+}
+
+// Delete a saved filter
+export function useDeleteSavedTaskFilter() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) =>
+      apiFetch(`/task-filters/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taskFilterKeys.all });
+    },
+  });
+}
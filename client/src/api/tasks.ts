@@ -1,16 +1,59 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiFetch } from './queryClient';
-import type { Task, ApiListResponse, ApiResponse } from '../types';
+import { generateId, sendOrQueue } from './offlineQueue';
+import { timeBlockKeys } from './timeBlocks';
+import type {
+  Task,
+  TaskDependency,
+  TaskDependencyTask,
+  TaskEditScope,
+  TaskRecurrence,
+  TaskStatusEntity,
+  TaskStatusEvent,
+  ApiListResponse,
+  ApiResponse,
+} from '../types';
 
 // Query keys
 export const taskKeys = {
   all: ['tasks'] as const,
   detail: (id: string) => ['tasks', id] as const,
+  history: (id: string) => ['tasks', id, 'history'] as const,
+  dependencies: ['tasks', 'dependencies'] as const,
   byDate: (date: string) => ['tasks', 'date', date] as const,
   byProject: (projectId: string) => ['tasks', 'project', projectId] as const,
   byStatus: (status: string) => ['tasks', 'status', status] as const,
+  byWeek: (weekStart: string) => ['tasks', 'week', weekStart] as const,
 };
 
+// Writable task fields - status and completedAt follow statusId on the server
+type TaskInput = Partial<Omit<Task, 'status' | 'completedAt'>>;
+
+// Whether a task is complete, i.e. in a terminal workflow status
+export function isTaskComplete(task: Pick<Task, 'taskStatus' | 'completedAt'>): boolean {
+  return task.taskStatus ? task.taskStatus.isTerminal : !!task.completedAt;
+}
+
+// Per task: the blockers still open, and the open tasks waiting on it
+export interface TaskDependencySummary {
+  openBlockers: { dependencyId: string; task: TaskDependencyTask }[];
+  blocking: { dependencyId: string; task: TaskDependencyTask }[];
+}
+
+export function summarizeDependencies(dependencies: TaskDependency[]): Map<string, TaskDependencySummary> {
+  const summaries = new Map<string, TaskDependencySummary>();
+  const summaryOf = (taskId: string) => {
+    if (!summaries.has(taskId)) summaries.set(taskId, { openBlockers: [], blocking: [] });
+    return summaries.get(taskId)!;
+  };
+  for (const dependency of dependencies) {
+    if (dependency.dependsOn.completedAt || dependency.task.completedAt) continue;
+    summaryOf(dependency.taskId).openBlockers.push({ dependencyId: dependency.id, task: dependency.dependsOn });
+    summaryOf(dependency.dependsOnTaskId).blocking.push({ dependencyId: dependency.id, task: dependency.task });
+  }
+  return summaries;
+}
+
 // Fetch all tasks
 export function useTasks(params?: {
   projectId?: string;
@@ -46,6 +89,15 @@ export function useTask(id: string) {
   });
 }
 
+// Fetch a task's status changes, oldest first
+export function useTaskHistory(id: string) {
+  return useQuery({
+    queryKey: taskKeys.history(id),
+    queryFn: () => apiFetch<ApiListResponse<TaskStatusEvent>>(`/tasks/${id}/history`),
+    enabled: !!id,
+  });
+}
+
 // Fetch tasks for a specific date
 export function useTasksByDate(date: string) {
   return useQuery({
@@ -55,16 +107,49 @@ export function useTasksByDate(date: string) {
   });
 }
 
-// Create task
+// Fetch tasks for the week starting on weekStart (the server fills in upcoming recurring occurrences)
+export function useTasksByWeek(weekStart: string) {
+  return useQuery({
+    queryKey: taskKeys.byWeek(weekStart),
+    queryFn: () => apiFetch<ApiListResponse<Task>>(`/tasks/week/${weekStart}`),
+    enabled: !!weekStart,
+  });
+}
+
+// Create task (pass recurrence to create a recurring series starting at plannedDate)
+// Queued in IndexedDB when the server is unreachable and shown optimistically until replayed
 export function useCreateTask() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (data: Partial<Task>) =>
-      apiFetch<ApiResponse<Task>>('/tasks', {
+    mutationFn: async (data: TaskInput & { recurrence?: TaskRecurrence }) => {
+      // Client-side id so a replayed create can't produce a duplicate
+      const body = { ...data, id: data.id ?? generateId() };
+      const result = await sendOrQueue<ApiResponse<Task>>({
+        endpoint: '/tasks',
         method: 'POST',
-        body: JSON.stringify(data),
-      }),
+        body,
+        invalidates: [...taskKeys.all],
+        description: `task "${data.title}"`,
+      });
+      if (result === null) {
+        const now = new Date().toISOString();
+        const pendingTask = {
+          status: 'pending',
+          sortOrder: 0,
+          isDeleted: false,
+          createdAt: now,
+          updatedAt: now,
+          ...body,
+        } as Task;
+        queryClient.setQueryData<ApiListResponse<Task>>(taskKeys.all, (previous) =>
+          previous ? { ...previous, data: [...previous.data, pendingTask], count: previous.count + 1 } : previous
+        );
+      }
+      return result;
+    },
     onSuccess: (result) => {
+      // Queued - the optimistic task stays until the replay refreshes the list
+      if (result === null) return;
       queryClient.invalidateQueries({ queryKey: taskKeys.all });
       if (result.data.plannedDate) {
         queryClient.invalidateQueries({
@@ -80,11 +165,16 @@ export function useCreateTask() {
   });
 }
 
-// Update task
+// Update task - for recurring tasks, scope 'future' also updates upcoming occurrences
+// and is required to change the recurrence (null stops repeating)
 export function useUpdateTask() {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: ({ id, ...data }: Partial<Task> & { id: string }) =>
+    mutationFn: ({ id, ...data }: TaskInput & {
+      id: string;
+      scope?: TaskEditScope;
+      recurrence?: TaskRecurrence | null;
+    }) =>
       apiFetch<ApiResponse<Task>>(`/tasks/${id}`, {
         method: 'PUT',
         body: JSON.stringify(data),
@@ -92,6 +182,10 @@ export function useUpdateTask() {
     onSuccess: (result, variables) => {
       queryClient.invalidateQueries({ queryKey: taskKeys.all });
       queryClient.invalidateQueries({ queryKey: taskKeys.detail(variables.id) });
+      // Time blocks list their assigned tasks
+      if (variables.timeBlockId !== undefined) {
+        queryClient.invalidateQueries({ queryKey: timeBlockKeys.all });
+      }
       if (result.data.plannedDate) {
         queryClient.invalidateQueries({
           queryKey: taskKeys.byDate(result.data.plannedDate)
@@ -118,13 +212,14 @@ export function useDeleteTask() {
   });
 }
 
-// Complete task
+// Complete task - moves it to the terminal status (spawns the next occurrence of recurring tasks)
 export function useCompleteTask() {
   const queryClient = useQueryClient();
   return useMutation({
     mutationFn: (id: string) =>
-      apiFetch<ApiResponse<Task>>(`/tasks/${id}/complete`, {
-        method: 'POST',
+      apiFetch<ApiResponse<Task>>(`/tasks/${id}/status`, {
+        method: 'PATCH',
+        body: JSON.stringify({ complete: true }),
       }),
     onMutate: async () => {
       await queryClient.cancelQueries({ queryKey: taskKeys.all });
@@ -142,13 +237,14 @@ export function useCompleteTask() {
   });
 }
 
-// Uncomplete task
+// Uncomplete task - moves it back to the initial status
 export function useUncompleteTask() {
   const queryClient = useQueryClient();
   return useMutation({
     mutationFn: (id: string) =>
-      apiFetch<ApiResponse<Task>>(`/tasks/${id}/uncomplete`, {
-        method: 'POST',
+      apiFetch<ApiResponse<Task>>(`/tasks/${id}/status`, {
+        method: 'PATCH',
+        body: JSON.stringify({ complete: false }),
       }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: taskKeys.all });
@@ -200,6 +296,44 @@ export function useRestoreTask() {
   });
 }
 
+// Fetch dependencies between live tasks
+export function useTaskDependencies() {
+  return useQuery({
+    queryKey: taskKeys.dependencies,
+    queryFn: () => apiFetch<ApiListResponse<TaskDependency>>('/task-dependencies'),
+  });
+}
+
+// Make a task wait on another - fails with DEPENDENCY_CYCLE if the other already waits on it.
+// suggestedStatus is the Blocked status to offer while the blocker is open.
+export function useAddTaskDependency() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ taskId, dependsOnTaskId }: { taskId: string; dependsOnTaskId: string }) =>
+      apiFetch<ApiResponse<{ dependency: TaskDependency; suggestedStatus: TaskStatusEntity | null }>>('/task-dependencies', {
+        method: 'POST',
+        body: JSON.stringify({ taskId, dependsOnTaskId }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.dependencies });
+    },
+  });
+}
+
+// Remove a dependency
+export function useRemoveTaskDependency() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) =>
+      apiFetch(`/task-dependencies/${id}`, {
+        method: 'DELETE',
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.dependencies });
+    },
+  });
+}
+
 // Add tag to task
 export function useAddTaskTag() {
   const queryClient = useQueryClient();
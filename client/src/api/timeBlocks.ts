@@ -1,12 +1,16 @@
+import { useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiFetch } from './queryClient';
-import type { TimeBlock, TimeBlockPriority, ApiListResponse, ApiResponse } from '../types';
+import { apiFetch, ApiRequestError } from './queryClient';
+import { focusSessionKeys } from './focusSessions';
+import { useTimerStore } from '../stores/timerStore';
+import type { ActiveTimer, FocusSessionMode, FocusSessionPhase, TimeBlock, TimeBlockPriority, ApiListResponse, ApiResponse } from '../types';
 
 // Query keys
 export const timeBlockKeys = {
   all: ['timeBlocks'] as const,
   detail: (id: string) => ['timeBlocks', id] as const,
   priorities: (id: string) => ['timeBlocks', id, 'priorities'] as const,
+  timer: ['timeBlocks', 'timer'] as const,
 };
 
 // Fetch all time blocks
@@ -202,3 +206,96 @@ export function useReorderTimeBlockPriorities() {
     },
   });
 }
+
+// --- Active timer (server-side, so every device shows the same countdown) ---
+
+// Fetch the active timer (null when none)
+export function useActiveTimer() {
+  return useQuery({
+    queryKey: timeBlockKeys.timer,
+    queryFn: () => apiFetch<ApiResponse<ActiveTimer | null>>('/time-blocks/timer'),
+  });
+}
+
+// Keep useTimerStore in step with the server's timer: applied on load, after this
+// tab's timer requests, and whenever another device changes it
+export function useTimerSync() {
+  const { data } = useActiveTimer();
+
+  useEffect(() => {
+    if (data) {
+      useTimerStore.getState().hydrate(data.data);
+    }
+  }, [data]);
+}
+
+export interface TimerStartInput {
+  blockId: string;
+  mode: FocusSessionMode;
+  phase: FocusSessionPhase;
+  durationSeconds: number;
+  completedSessions: number;
+  date?: string; // Effective day of a run this start replaces
+}
+
+export interface TimerPhaseInput {
+  blockId: string;
+  phase?: FocusSessionPhase;
+  durationSeconds?: number;
+  completedSessions?: number;
+  date?: string; // Effective day of the run being ended
+}
+
+// Shared by the timer actions: the response is the new server state. On a rejected
+// request (e.g. another device already paused) refetch so the store snaps back.
+function useTimerAction<TInput extends { blockId: string }>(action: string, method = 'POST') {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ blockId, ...data }: TInput) =>
+      apiFetch<ApiResponse<ActiveTimer | null>>(`/time-blocks/${blockId}/timer${action}`, {
+        method,
+        body: JSON.stringify(data),
+      }),
+    onSuccess: (response) => {
+      queryClient.setQueryData(timeBlockKeys.timer, response);
+      // Ending a run may have logged a focus session
+      queryClient.invalidateQueries({ queryKey: focusSessionKeys.all });
+    },
+    onError: (error) => {
+      if (error instanceof ApiRequestError && error.status !== 0) {
+        queryClient.invalidateQueries({ queryKey: timeBlockKeys.timer });
+      }
+    },
+  });
+}
+
+export function useStartTimer() {
+  return useTimerAction<TimerStartInput>('/start');
+}
+
+export function usePauseTimer() {
+  return useTimerAction<{ blockId: string }>('/pause');
+}
+
+export function useResumeTimer() {
+  return useTimerAction<{ blockId: string }>('/resume');
+}
+
+export function useStopTimer() {
+  return useTimerAction<{ blockId: string; date?: string }>('/stop');
+}
+
+// Report a run that counted down; phase/completedSessions are the next phase
+export function useCompleteTimer() {
+  return useTimerAction<TimerPhaseInput>('/complete');
+}
+
+// Reset the current phase or skip to another one (idle until started)
+export function useResetTimer() {
+  return useTimerAction<TimerPhaseInput>('/reset');
+}
+
+// Change the task/priority the timer is being spent on
+export function useUpdateTimerTarget() {
+  return useTimerAction<{ blockId: string; taskId: string | null; priorityId: string | null }>('', 'PUT');
+}
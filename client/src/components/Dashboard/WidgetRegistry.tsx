@@ -10,6 +10,7 @@ const TargetLineGraph = lazy(() => import('../../widgets/TargetLineGraph'));
 const ParkingLot = lazy(() => import('../../widgets/ParkingLot'));
 const QuotesWidget = lazy(() => import('../../widgets/Quotes'));
 const VideoClipsWidget = lazy(() => import('../../widgets/VideoClips'));
+const SmartListWidget = lazy(() => import('../../widgets/SmartList'));
 
 // Days configuration for view toggle
 const DAYS_CONFIG = {
@@ -156,6 +157,7 @@ const WIDGET_REGISTRY: Record<string, ComponentType> = {
   'parking-lot': ParkingLot,
   'quotes': QuotesWidget,
   'videos': VideoClipsWidget,
+  'smart-list': SmartListWidget,
 };
 
 /**
@@ -294,6 +296,23 @@ export const WIDGET_META: Record<string, WidgetMeta> = {
       </svg>
     ),
   },
+  'smart-list': {
+    id: 'smart-list',
+    title: 'Smart List',
+    description: 'Tasks matching one of your saved filters',
+    defaultSize: { w: 8, h: 8 },
+    minSize: { w: 4, h: 4 },
+    icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z"
+        />
+      </svg>
+    ),
+  },
 };
 
 /**
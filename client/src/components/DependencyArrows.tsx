@@ -0,0 +1,126 @@
+import { useEffect, useId, useState, type RefObject } from 'react';
+
+// One arrow from a blocker to the item waiting on it
+export interface DependencyEdge {
+  from: string; // Anchor id of the blocker
+  to: string; // Anchor id of the dependent
+  isOpen: boolean; // Blocker still open - drawn in red, otherwise muted
+  label?: string; // Tooltip
+}
+
+interface DependencyArrowsProps {
+  containerRef: RefObject<HTMLElement | null>; // Positioned (relative) element holding the anchors
+  edges: DependencyEdge[]; // Memoize - a new array re-measures every anchor
+}
+
+interface ArrowPath {
+  key: string;
+  d: string;
+  isOpen: boolean;
+  label?: string;
+}
+
+// Elements are matched by this attribute, e.g. data-dependency-anchor={task.id}
+const ANCHOR_ATTRIBUTE = 'data-dependency-anchor';
+
+/**
+ * DependencyArrows - SVG overlay drawing curved arrows between anchored elements
+ *
+ * Arrows leave the right edge of the blocker and enter the left edge of the dependent.
+ * Positions are re-measured when the container resizes or anything inside it scrolls;
+ * anchors that aren't rendered or are scrolled out of the container are skipped.
+ */
+export function DependencyArrows({ containerRef, edges }: DependencyArrowsProps) {
+  // useId output contains characters that aren't safe inside url(#...)
+  const markerId = `arrow-${useId().replace(/[^\w-]/g, '')}`;
+  const [paths, setPaths] = useState<ArrowPath[]>([]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let frame = 0;
+    const measure = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const bounds = container.getBoundingClientRect();
+        const anchorRect = (id: string) => {
+          const element = container.querySelector(`[${ANCHOR_ATTRIBUTE}="${CSS.escape(id)}"]`);
+          const rect = element?.getBoundingClientRect();
+          if (!rect || rect.width === 0 || rect.bottom < bounds.top || rect.top > bounds.bottom) return null;
+          return rect;
+        };
+
+        const next: ArrowPath[] = [];
+        for (const edge of edges) {
+          const from = anchorRect(edge.from);
+          const to = anchorRect(edge.to);
+          if (!from || !to) continue;
+          const x1 = from.right - bounds.left;
+          const y1 = from.top + from.height / 2 - bounds.top;
+          const x2 = to.left - bounds.left;
+          const y2 = to.top + to.height / 2 - bounds.top;
+          const bend = Math.max(24, Math.abs(x2 - x1) / 2);
+          next.push({
+            key: `${edge.from}-${edge.to}`,
+            d: `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2 - 4} ${y2}`,
+            isOpen: edge.isOpen,
+            label: edge.label,
+          });
+        }
+        setPaths(next);
+      });
+    };
+
+    measure();
+    const resizeObserver = new ResizeObserver(measure);
+    resizeObserver.observe(container);
+    // Capture so scrolling any column inside the container re-measures
+    container.addEventListener('scroll', measure, true);
+    window.addEventListener('resize', measure);
+    return () => {
+      cancelAnimationFrame(frame);
+      resizeObserver.disconnect();
+      container.removeEventListener('scroll', measure, true);
+      window.removeEventListener('resize', measure);
+    };
+  }, [containerRef, edges]);
+
+  if (edges.length === 0) return null;
+
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none z-20 overflow-visible" data-testid="dependency-arrows">
+      <defs>
+        {['open', 'done'].map((state) => (
+          <marker
+            key={state}
+            id={`${markerId}-${state}`}
+            viewBox="0 0 8 8"
+            refX="4"
+            refY="4"
+            markerWidth="6"
+            markerHeight="6"
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 8 4 L 0 8 z" fill={state === 'open' ? '#f87171' : '#64748b'} />
+          </marker>
+        ))}
+      </defs>
+      {paths.map((path) => (
+        <path
+          key={path.key}
+          d={path.d}
+          fill="none"
+          stroke={path.isOpen ? '#f87171' : '#64748b'}
+          strokeOpacity={0.8}
+          strokeWidth={1.5}
+          strokeDasharray={path.isOpen ? undefined : '4 3'}
+          markerEnd={`url(#${markerId}-${path.isOpen ? 'open' : 'done'})`}
+          data-testid="dependency-arrow"
+        >
+          {path.label && <title>{path.label}</title>}
+        </path>
+      ))}
+    </svg>
+  );
+}
@@ -10,7 +10,18 @@ import {
   useCategories,
   useHabits,
 } from '../../api';
-import type { Category, Habit } from '../../types';
+import type { Category, Habit, HabitScheduleType } from '../../types';
+
+// Schedule options shown in the form, in display order
+const SCHEDULE_OPTIONS: { value: HabitScheduleType; label: string }[] = [
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekdays', label: 'Specific days' },
+  { value: 'weekly', label: 'Times per week' },
+  { value: 'monthly', label: 'Times per month' },
+  { value: 'interval', label: 'Every N days' },
+];
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
 
 interface HabitFormData {
   name: string;
@@ -22,6 +33,13 @@ interface HabitFormData {
   targetPercentage: string;
   warningPercentage: string;
   grayMissedWhenOnTrack: boolean;
+  dailyTarget: string;
+  unit: string;
+  maxCount: string;
+  scheduleType: HabitScheduleType;
+  scheduleDays: number[];
+  scheduleCount: string;
+  reminderTime: string;
 }
 
 export function HabitForm() {
@@ -66,12 +84,37 @@ export function HabitForm() {
       targetPercentage: selectedHabit?.targetPercentage?.toString() || '90',
       warningPercentage: selectedHabit?.warningPercentage?.toString() || '75',
       grayMissedWhenOnTrack: selectedHabit?.grayMissedWhenOnTrack ?? false,
+      dailyTarget: selectedHabit?.dailyTarget?.toString() || '',
+      unit: selectedHabit?.unit || '',
+      maxCount: selectedHabit?.maxCount?.toString() || '',
+      scheduleType: selectedHabit?.scheduleType || 'daily',
+      scheduleDays: selectedHabit?.scheduleDays || [],
+      scheduleCount: selectedHabit?.scheduleCount?.toString() || '',
+      reminderTime: selectedHabit?.reminderTime || '',
     },
   });
 
   const watchedIconColor = watch('iconColor');
   const watchedTargetPercentage = watch('targetPercentage');
   const watchedWarningPercentage = watch('warningPercentage');
+  const watchedDailyTarget = watch('dailyTarget');
+  const watchedScheduleType = watch('scheduleType');
+  const watchedScheduleDays = watch('scheduleDays');
+
+  // scheduleDays has no input of its own - register it manually so it's validated on submit
+  useEffect(() => {
+    register('scheduleDays', {
+      validate: (value, formValues) =>
+        formValues.scheduleType !== 'weekdays' || value.length > 0 || 'Pick at least one day',
+    });
+  }, [register]);
+
+  const toggleScheduleDay = (day: number) => {
+    const days = watchedScheduleDays.includes(day)
+      ? watchedScheduleDays.filter(d => d !== day)
+      : [...watchedScheduleDays, day].sort((a, b) => a - b);
+    setValue('scheduleDays', days, { shouldValidate: true });
+  };
 
   const percentageToDays = (pct: string): number => {
     const num = parseInt(pct, 10);
@@ -123,6 +166,16 @@ export function HabitForm() {
     try {
       const targetPercentage = data.targetPercentage ? parseInt(data.targetPercentage, 10) : 90;
       const warningPercentage = data.warningPercentage ? parseInt(data.warningPercentage, 10) : 75;
+      // Count target fields - blank clears them (null), so the habit reverts to status-based
+      const dailyTarget = data.dailyTarget ? parseInt(data.dailyTarget, 10) : null;
+      const maxCount = dailyTarget && data.maxCount ? parseInt(data.maxCount, 10) : null;
+      const unit = dailyTarget && data.unit.trim() ? data.unit.trim() : null;
+      // Schedule fields - only the ones that apply to the chosen type are sent
+      const scheduleType = data.scheduleType;
+      const scheduleDays = scheduleType === 'weekdays' ? data.scheduleDays : null;
+      const scheduleCount = scheduleType !== 'daily' && scheduleType !== 'weekdays'
+        ? parseInt(data.scheduleCount, 10)
+        : null;
 
       // Determine if we have an image URL to save
       const imageUrl = selectedIconOrImage && isImageValue(selectedIconOrImage)
@@ -141,6 +194,13 @@ export function HabitForm() {
           targetPercentage,
           warningPercentage,
           grayMissedWhenOnTrack: data.grayMissedWhenOnTrack,
+          dailyTarget,
+          unit,
+          maxCount,
+          scheduleType,
+          scheduleDays,
+          scheduleCount,
+          reminderTime: data.reminderTime || null,
           imageUrl: imageUrl,
         });
         toast.success('Habit updated successfully');
@@ -155,6 +215,13 @@ export function HabitForm() {
           targetPercentage,
           warningPercentage,
           grayMissedWhenOnTrack: data.grayMissedWhenOnTrack,
+          dailyTarget,
+          unit,
+          maxCount,
+          scheduleType,
+          scheduleDays,
+          scheduleCount,
+          reminderTime: data.reminderTime || null,
           imageUrl: imageUrl,
         });
         toast.success('Habit created successfully');
@@ -445,6 +512,147 @@ export function HabitForm() {
                 </div>
               </div>
 
+              {/* Daily Count Target - Compact */}
+              <div className="p-3 bg-slate-700/30 rounded-lg space-y-2" data-testid="habit-count-target">
+                <div>
+                  <div className="text-xs font-medium text-slate-300">Daily Count Target</div>
+                  <div className="text-xs text-slate-400">Leave blank for a simple done/missed habit</div>
+                </div>
+
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-slate-400 w-14">Target:</span>
+                  <input
+                    type="number"
+                    {...register('dailyTarget', {
+                      validate: (value) => !value || parseInt(value, 10) > 0 || 'Target must be at least 1',
+                    })}
+                    min={1}
+                    placeholder="-"
+                    data-testid="habit-daily-target"
+                    className="w-14 px-2 py-1 bg-slate-700/50 border border-slate-600 rounded text-white text-center text-xs"
+                  />
+                  <input
+                    type="text"
+                    {...register('unit', { maxLength: { value: 50, message: 'Unit is too long' } })}
+                    placeholder="e.g., glasses"
+                    disabled={!watchedDailyTarget}
+                    data-testid="habit-unit"
+                    className="flex-1 min-w-0 px-2 py-1 bg-slate-700/50 border border-slate-600 rounded text-white text-xs placeholder-slate-500 disabled:opacity-50"
+                  />
+                </div>
+
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-slate-400 w-14">Max:</span>
+                  <input
+                    type="number"
+                    {...register('maxCount', {
+                      validate: (value, formValues) =>
+                        !value || !formValues.dailyTarget ||
+                        parseInt(value, 10) >= parseInt(formValues.dailyTarget, 10) ||
+                        'Max cannot be less than target',
+                    })}
+                    min={1}
+                    placeholder="-"
+                    disabled={!watchedDailyTarget}
+                    data-testid="habit-max-count"
+                    className="w-14 px-2 py-1 bg-slate-700/50 border border-slate-600 rounded text-white text-center text-xs disabled:opacity-50"
+                  />
+                  <span className="text-slate-500 text-xs">optional, counts above target = Extra</span>
+                </div>
+
+                {(errors.dailyTarget || errors.unit || errors.maxCount) && (
+                  <p className="text-xs text-red-400">
+                    {errors.dailyTarget?.message || errors.unit?.message || errors.maxCount?.message}
+                  </p>
+                )}
+              </div>
+
+              {/* Schedule - Compact */}
+              <div className="p-3 bg-slate-700/30 rounded-lg space-y-2" data-testid="habit-schedule">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-xs font-medium text-slate-300 flex-1">Schedule</span>
+                  <select
+                    {...register('scheduleType')}
+                    data-testid="habit-schedule-type"
+                    className="px-2 py-1 bg-slate-700/50 border border-slate-600 rounded text-white text-xs"
+                  >
+                    {SCHEDULE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {watchedScheduleType === 'weekdays' && (
+                  <div className="flex gap-1" data-testid="habit-schedule-days">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <button
+                        key={day}
+                        type="button"
+                        onClick={() => toggleScheduleDay(day)}
+                        data-testid={`habit-schedule-day-${day}`}
+                        aria-pressed={watchedScheduleDays.includes(day)}
+                        className={`w-7 h-7 rounded text-xs font-medium transition-colors ${
+                          watchedScheduleDays.includes(day)
+                            ? 'bg-teal-500 text-white'
+                            : 'bg-slate-700/50 text-slate-400 hover:bg-slate-700'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {watchedScheduleType !== 'daily' && watchedScheduleType !== 'weekdays' && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-slate-400">{watchedScheduleType === 'interval' ? 'Every' : 'Times:'}</span>
+                    <input
+                      type="number"
+                      {...register('scheduleCount', {
+                        validate: (value, formValues) => {
+                          if (formValues.scheduleType === 'daily' || formValues.scheduleType === 'weekdays') return true;
+                          const max = formValues.scheduleType === 'weekly' ? 7 : formValues.scheduleType === 'monthly' ? 31 : 365;
+                          const num = parseInt(value, 10);
+                          return (num >= 1 && num <= max) || `Enter a number from 1 to ${max}`;
+                        },
+                      })}
+                      min={1}
+                      data-testid="habit-schedule-count"
+                      className="w-14 px-2 py-1 bg-slate-700/50 border border-slate-600 rounded text-white text-center text-xs"
+                    />
+                    <span className="text-slate-500 text-xs">
+                      {watchedScheduleType === 'weekly' && 'per week'}
+                      {watchedScheduleType === 'monthly' && 'per month'}
+                      {watchedScheduleType === 'interval' && 'days after last completion'}
+                    </span>
+                  </div>
+                )}
+
+                {watchedScheduleType !== 'daily' && (
+                  <div className="text-xs text-slate-400">Days the habit isn't due show as N/A</div>
+                )}
+
+                {(errors.scheduleDays || errors.scheduleCount) && (
+                  <p className="text-xs text-red-400">
+                    {errors.scheduleDays?.message || errors.scheduleCount?.message}
+                  </p>
+                )}
+              </div>
+
+              {/* Reminder - Compact */}
+              <div className="flex items-center gap-2 p-2 bg-slate-700/30 rounded-lg text-sm">
+                <div className="flex-1">
+                  <div className="text-white text-sm">Reminder</div>
+                  <div className="text-xs text-slate-400">Notify at this time if still unmarked (needs notifications on in Settings)</div>
+                </div>
+                <input
+                  type="time"
+                  {...register('reminderTime')}
+                  data-testid="habit-reminder-time"
+                  className="px-2 py-1 bg-slate-700/50 border border-slate-600 rounded text-white text-xs"
+                />
+              </div>
+
               {/* Active toggle - Compact */}
               <div className="flex items-center justify-between p-2 bg-slate-700/30 rounded-lg">
                 <div>
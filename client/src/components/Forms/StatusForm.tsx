@@ -18,6 +18,10 @@ interface StatusFormData {
   breakoutParentId: string;
   isDefault: boolean;
   isInitialStatus: boolean;
+  isTerminal: boolean;
+  wipLimit: string; // Empty for no limit
+  restrictTransitions: boolean;
+  allowedTransitions: string[];
 }
 
 // Preset colors for quick selection
@@ -46,6 +50,10 @@ export function StatusForm() {
     if (!statusesData?.data) return [];
     return statusesData.data.filter(s => !s.isDeleted && !s.isBreakout);
   }, [statusesData]);
+  const transitionTargets = useMemo(() => {
+    if (!statusesData?.data) return [];
+    return statusesData.data.filter(s => !s.isDeleted && s.id !== selectedStatus?.id);
+  }, [statusesData, selectedStatus?.id]);
 
   // API hooks
   const createStatus = useCreateStatus();
@@ -68,12 +76,17 @@ export function StatusForm() {
       breakoutParentId: selectedStatus?.breakoutParentId || '',
       isDefault: selectedStatus?.isDefault || false,
       isInitialStatus: selectedStatus?.isInitialStatus || false,
+      isTerminal: selectedStatus?.isTerminal || false,
+      wipLimit: selectedStatus?.wipLimit ? String(selectedStatus.wipLimit) : '',
+      restrictTransitions: Array.isArray(selectedStatus?.allowedTransitions),
+      allowedTransitions: selectedStatus?.allowedTransitions ?? [],
     },
   });
 
   const watchedColor = watch('color');
   const watchedIcon = watch('icon');
   const watchedIsBreakout = watch('isBreakout');
+  const watchedRestrictTransitions = watch('restrictTransitions');
 
   // Sync form values when selectedStatus changes (for edit mode)
   useEffect(() => {
@@ -99,6 +112,12 @@ export function StatusForm() {
     setValue('icon', '');
   };
 
+  // WIP limit and allowed transitions (null = no limit / workflow default)
+  const workflowRules = (data: StatusFormData) => ({
+    wipLimit: data.wipLimit ? Number(data.wipLimit) : null,
+    allowedTransitions: data.restrictTransitions ? data.allowedTransitions : null,
+  });
+
   // Handle form submission
   const onSubmit = async (data: StatusFormData) => {
     try {
@@ -112,6 +131,8 @@ export function StatusForm() {
           breakoutParentId: data.isBreakout ? data.breakoutParentId : undefined,
           isDefault: data.isDefault,
           isInitialStatus: data.isInitialStatus,
+          isTerminal: data.isTerminal,
+          ...workflowRules(data),
         });
         toast.success('Status updated successfully');
       } else {
@@ -123,6 +144,8 @@ export function StatusForm() {
           breakoutParentId: data.isBreakout ? data.breakoutParentId : undefined,
           isDefault: data.isDefault,
           isInitialStatus: data.isInitialStatus,
+          isTerminal: data.isTerminal,
+          ...workflowRules(data),
         });
         toast.success('Status created successfully');
       }
@@ -386,7 +409,59 @@ export function StatusForm() {
               </div>
             )}
 
-            {/* Default and Initial status toggles */}
+            {/* Workflow rules */}
+            <div className="space-y-3 pt-3 border-t border-slate-700">
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">
+                  WIP Limit
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  {...register('wipLimit')}
+                  placeholder="No limit"
+                  className="w-full px-4 py-3 bg-slate-700/50 border border-slate-600 rounded-xl text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  data-testid="status-wip-limit"
+                />
+                <p className="mt-1.5 text-sm text-slate-400">
+                  Most top-level tasks allowed in this status at once
+                </p>
+              </div>
+
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  {...register('restrictTransitions')}
+                  className="w-5 h-5 rounded bg-slate-700 border-slate-600 text-blue-500 focus:ring-blue-500 focus:ring-offset-slate-800"
+                />
+                <div>
+                  <span className="text-white font-medium">Restrict Transitions</span>
+                  <p className="text-sm text-slate-400">
+                    {watchedIsBreakout
+                      ? 'By default tasks can only return to the parent status'
+                      : 'By default tasks can move to any main status or its breakouts'}
+                  </p>
+                </div>
+              </label>
+
+              {watchedRestrictTransitions && (
+                <div className="grid grid-cols-2 gap-2 pl-8" data-testid="status-allowed-transitions">
+                  {transitionTargets.map((status) => (
+                    <label key={status.id} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        value={status.id}
+                        {...register('allowedTransitions')}
+                        className="w-4 h-4 rounded bg-slate-700 border-slate-600 text-blue-500 focus:ring-blue-500 focus:ring-offset-slate-800"
+                      />
+                      {status.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Default, Initial and Terminal status toggles */}
             <div className="space-y-3 pt-3 border-t border-slate-700">
               <label className="flex items-center gap-3 cursor-pointer">
                 <input
@@ -400,6 +475,19 @@ export function StatusForm() {
                 </div>
               </label>
 
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  {...register('isTerminal')}
+                  className="w-5 h-5 rounded bg-slate-700 border-slate-600 text-blue-500 focus:ring-blue-500 focus:ring-offset-slate-800"
+                  data-testid="status-terminal-toggle"
+                />
+                <div>
+                  <span className="text-white font-medium">Terminal Status</span>
+                  <p className="text-sm text-slate-400">Tasks in this status count as complete</p>
+                </div>
+              </label>
+
               <label className="flex items-center gap-3 cursor-pointer">
                 <input
                   type="checkbox"
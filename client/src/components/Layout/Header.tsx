@@ -1,10 +1,11 @@
-import { useUIStore, useDashboardStore } from '../../stores';
+import { useUIStore, useDashboardStore, useSyncStore } from '../../stores';
 import * as MuiIcons from '@mui/icons-material';
 
 export function Header() {
   const { toggleSidebar, sidebarOpen, toggleRightSidebar, rightSidebarOpen, currentPage, openModal } = useUIStore();
   const { isEditMode, toggleEditMode, undoLayoutChange, hasUnsavedChanges } = useDashboardStore();
   const canUndo = useDashboardStore((state) => state.canUndo());
+  const { pendingCount, isSyncing, isOffline } = useSyncStore();
 
   return (
     <header className="sticky top-0 z-50 h-16 bg-slate-900/95 backdrop-blur-md border-b border-slate-700/50" data-testid="main-header">
@@ -88,6 +89,28 @@ export function Header() {
             </div>
           )}
 
+          {/* Pending sync indicator - writes queued while the server was unreachable */}
+          {(pendingCount > 0 || isOffline) && (
+            <div
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-medium ${
+                isOffline ? 'bg-amber-500/15 text-amber-300' : 'bg-slate-800 text-slate-300'
+              }`}
+              title={isOffline ? 'Server unreachable - changes are saved locally and will sync when it is back' : 'Syncing local changes'}
+              data-testid="pending-sync-indicator"
+            >
+              {isSyncing ? (
+                <MuiIcons.Sync style={{ fontSize: 16 }} className="animate-spin" />
+              ) : isOffline ? (
+                <MuiIcons.CloudOff style={{ fontSize: 16 }} />
+              ) : (
+                <MuiIcons.CloudUpload style={{ fontSize: 16 }} />
+              )}
+              <span data-testid="pending-sync-count">
+                {pendingCount > 0 ? `${pendingCount} pending` : 'Offline'}
+              </span>
+            </div>
+          )}
+
           {/* Build info indicator */}
           <div className="hidden lg:flex items-center gap-2 px-3 py-1.5 bg-slate-800/50 rounded-xl">
             <div className="flex items-center gap-1.5">
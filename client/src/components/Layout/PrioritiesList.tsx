@@ -22,6 +22,7 @@ import {
   useCompleteTask,
   useUncompleteTask,
   useProjects,
+  isTaskComplete,
 } from '../../api';
 import type { Task, Project } from '../../types';
 
@@ -71,7 +72,7 @@ function SortablePriorityItem({
     transition,
   };
 
-  const isComplete = task.status === 'complete';
+  const isComplete = isTaskComplete(task);
   const priorityColors = PRIORITY_COLORS[task.priority || 3] || PRIORITY_COLORS[3];
   const priorityLabel = PRIORITY_LABELS[task.priority || 3] || 'P3';
   const projectColor = project?.color || project?.iconColor || '#6366f1';
@@ -194,7 +195,7 @@ function DragOverlayItem({ task, project }: { task: Task; project?: Project }) {
   const priorityColors = PRIORITY_COLORS[task.priority || 3] || PRIORITY_COLORS[3];
   const priorityLabel = PRIORITY_LABELS[task.priority || 3] || 'P3';
   const projectColor = project?.color || project?.iconColor || '#6366f1';
-  const isComplete = task.status === 'complete';
+  const isComplete = isTaskComplete(task);
 
   return (
     <div
@@ -283,11 +284,11 @@ export function PrioritiesList() {
 
   // Separate completed and pending tasks
   const pendingTasks = useMemo(
-    () => priorityTasks.filter((t) => t.status !== 'complete'),
+    () => priorityTasks.filter((t) => !isTaskComplete(t)),
     [priorityTasks]
   );
   const completedTasks = useMemo(
-    () => priorityTasks.filter((t) => t.status === 'complete'),
+    () => priorityTasks.filter((t) => isTaskComplete(t)),
     [priorityTasks]
   );
 
@@ -361,7 +362,7 @@ export function PrioritiesList() {
     (taskId: string) => {
       const task = sortedTasks.find((t) => t.id === taskId);
       if (task) {
-        if (task.status === 'complete') {
+        if (isTaskComplete(task)) {
           uncompleteTask.mutate(taskId);
         } else {
           completeTask.mutate(taskId);
@@ -2,7 +2,7 @@ import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { useDraggable } from '@dnd-kit/core';
 import { useUIStore, useDashboardStore } from '../../stores';
 import type { RightSidebarModuleType } from '../../stores';
-import { useTasks } from '../../api';
+import { useTasks, isTaskComplete } from '../../api';
 import * as MuiIcons from '@mui/icons-material';
 import { PrioritiesList } from './PrioritiesList';
 import { ComponentPicker } from './ComponentPicker';
@@ -414,7 +414,7 @@ function TaskBacklogContent() {
   const backlogTasks = useMemo(() => {
     if (!tasksData?.data) return [];
     return tasksData.data.filter(
-      (task: Task) => !task.plannedDate && !task.isDeleted && task.status !== 'complete'
+      (task: Task) => !task.plannedDate && !task.isDeleted && !isTaskComplete(task)
     ).sort((a: Task, b: Task) => {
       // Sort by priority (lower number = higher priority), then by creation date
       const aPriority = a.priority ?? 999;
@@ -2,7 +2,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useDraggable } from '@dnd-kit/core';
 import { useUIStore, useDashboardStore } from '../../stores';
 import type { RightSidebarModuleType } from '../../stores';
-import { useTasks } from '../../api';
+import { useTasks, isTaskComplete } from '../../api';
 import * as MuiIcons from '@mui/icons-material';
 import { PrioritiesList } from './PrioritiesList';
 import { ComponentPicker } from './ComponentPicker';
@@ -294,7 +294,7 @@ function TodaysTodosContent() {
     const today = format(new Date(), 'yyyy-MM-dd');
     return tasksData.data.filter(
       (task: Task) =>
-        task.plannedDate === today && !task.isDeleted && task.status !== 'complete'
+        task.plannedDate === today && !task.isDeleted && !isTaskComplete(task)
     );
   }, [tasksData?.data]);
 
@@ -303,7 +303,7 @@ function TodaysTodosContent() {
     const today = format(new Date(), 'yyyy-MM-dd');
     return tasksData.data.filter(
       (task: Task) =>
-        task.plannedDate === today && !task.isDeleted && task.status === 'complete'
+        task.plannedDate === today && !task.isDeleted && isTaskComplete(task)
     );
   }, [tasksData?.data]);
 
@@ -564,7 +564,7 @@ function TaskBacklogContent() {
     return tasksData.data
       .filter(
         (task: Task) =>
-          !task.plannedDate && !task.isDeleted && task.status !== 'complete'
+          !task.plannedDate && !task.isDeleted && !isTaskComplete(task)
       )
       .sort((a: Task, b: Task) => {
         const aPriority = a.priority ?? 999;
@@ -1,6 +1,7 @@
 import { useState, useMemo, useCallback } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useUIStore, useDashboardStore } from '../../stores';
+import { useSavedTaskFilters } from '../../api';
 import type { PageType } from '../../stores';
 import { PAGE_ROUTES } from '../../routes';
 import * as MuiIcons from '@mui/icons-material';
@@ -13,6 +14,8 @@ interface NavItem {
   children?: NavItem[];
   isDashboardPage?: boolean;
   iconColor?: string;
+  filterId?: string; // Pinned saved filter, opened in Smart Lists
+  badge?: number;
 }
 
 interface SidebarProps {
@@ -21,6 +24,8 @@ interface SidebarProps {
 
 export function Sidebar({ isOpen }: SidebarProps) {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { data: filtersData } = useSavedTaskFilters();
   const { openModal, currentPage, setCurrentPage } = useUIStore();
   const { pages, activePageId, setActivePage, createPage } = useDashboardStore();
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set(['dashboard', 'tasks']));
@@ -40,6 +45,19 @@ export function Sidebar({ isOpen }: SidebarProps) {
       }));
   }, [pages]);
 
+  // Pinned saved filters, listed under Tasks
+  const pinnedFilterChildren: NavItem[] = useMemo(() => {
+    return (filtersData?.data ?? [])
+      .filter(filter => filter.isPinned)
+      .map(filter => ({
+        id: `smart-list-${filter.id}`,
+        icon: 'PushPin',
+        label: filter.name,
+        filterId: filter.id,
+        badge: filter.taskCount,
+      }));
+  }, [filtersData?.data]);
+
   // Handle creating a new dashboard page
   const handleCreatePage = useCallback(() => {
     if (!newPageName.trim()) return;
@@ -68,6 +86,8 @@ export function Sidebar({ isOpen }: SidebarProps) {
         { id: 'kanban-status', icon: 'ViewKanban', label: 'Status View' },
         { id: 'kanban-project', icon: 'Folder', label: 'Project View' },
         { id: 'kanban-category', icon: 'Category', label: 'Category View' },
+        { id: 'smart-lists', icon: 'FilterList', label: 'Smart Lists' },
+        ...pinnedFilterChildren,
       ]
     },
     { id: 'projects', icon: 'Folder', label: 'Projects' },
@@ -109,6 +129,9 @@ export function Sidebar({ isOpen }: SidebarProps) {
   const handleNavClick = (item: NavItem) => {
     if (item.action) {
       item.action();
+    } else if (item.filterId) {
+      setCurrentPage('smart-lists');
+      navigate(`${PAGE_ROUTES['smart-lists']}?filter=${item.filterId}`);
     } else if (item.isDashboardPage) {
       // Handle dashboard page clicks - set active page and navigate to dashboard
       setActivePage(item.id);
@@ -141,12 +164,18 @@ export function Sidebar({ isOpen }: SidebarProps) {
     if (item.isDashboardPage) {
       return currentPage === 'dashboard' && activePageId === item.id;
     }
+    if (item.filterId) {
+      return currentPage === 'smart-lists' && searchParams.get('filter') === item.filterId;
+    }
     if (item.id === currentPage) return true;
     if (item.children) {
       return item.children.some(child => {
         if (child.isDashboardPage) {
           return currentPage === 'dashboard' && activePageId === child.id;
         }
+        if (child.filterId) {
+          return currentPage === 'smart-lists' && searchParams.get('filter') === child.filterId;
+        }
         return child.id === currentPage;
       });
     }
@@ -182,6 +211,11 @@ export function Sidebar({ isOpen }: SidebarProps) {
             <span className={`font-medium ${isChild ? 'text-xs' : 'text-sm'} whitespace-nowrap flex-1 text-left`}>
               {item.label}
             </span>
+            {item.badge !== undefined && item.badge > 0 && (
+              <span className="text-[10px] text-slate-500 tabular-nums" data-testid="nav-badge">
+                {item.badge}
+              </span>
+            )}
             {hasChildren && (
               <div
                 onClick={(e) => {
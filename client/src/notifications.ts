@@ -0,0 +1,248 @@
+import { useEffect, useRef, useState } from 'react';
+import { addDays, format, parseISO, setHours, setMinutes } from 'date-fns';
+import { useHabits, useSettings, useTimeBlocks } from './api';
+import { useTimerStore, POMODORO_PRESETS } from './stores';
+import type { TimerMode, TimerPhase } from './stores';
+import type { Habit, HabitEntry, WeekStartDay } from './types';
+import { getEffectiveDate, getScheduleState } from './widgets/HabitMatrix/useHabitMatrix';
+
+/**
+ * Browser notifications - habit reminders, the end-of-day nudge and timer phase changes.
+ *
+ * Notifications are handed to the service worker (public/sw.js) so they still show while
+ * the tab is in the background; the page keeps its own timers as a fallback.
+ */
+
+export interface ScheduledNotification {
+  id: string; // Stable per occurrence so the same notification is never shown twice
+  at: number; // Epoch ms
+  title: string;
+  body: string;
+  url?: string;
+}
+
+type NotificationGroup = 'reminders' | 'timer';
+
+const SERVICE_WORKER_URL = '/sw.js';
+const DAY_END_NUDGE_MINUTES = 60; // Nudge about unmarked habits this long before the day boundary
+const REMINDER_REFRESH_INTERVAL = 1000 * 60 * 5; // Re-plan reminders so the next day gets picked up
+
+export function isNotificationSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+function canNotify(enabled: boolean): boolean {
+  return enabled && isNotificationSupported() && Notification.permission === 'granted';
+}
+
+let registrationPromise: Promise<ServiceWorkerRegistration | null> | null = null;
+
+function getRegistration(): Promise<ServiceWorkerRegistration | null> {
+  if (!registrationPromise) {
+    registrationPromise = 'serviceWorker' in navigator
+      ? navigator.serviceWorker
+          .register(SERVICE_WORKER_URL)
+          .then(() => navigator.serviceWorker.ready)
+          .catch((error) => {
+            console.error('Failed to register service worker:', error);
+            return null;
+          })
+      : Promise.resolve(null);
+  }
+  return registrationPromise;
+}
+
+// Ask for notification permission - call from a click handler
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!isNotificationSupported() || Notification.permission === 'denied') return false;
+
+  const granted = Notification.permission === 'granted'
+    || (await Notification.requestPermission()) === 'granted';
+  if (granted) void getRegistration();
+  return granted;
+}
+
+const shownIds = new Set<string>();
+
+async function showNotification(notification: ScheduledNotification) {
+  if (shownIds.has(notification.id)) return;
+  shownIds.add(notification.id);
+
+  const registration = await getRegistration();
+  if (registration?.active) {
+    registration.active.postMessage({ type: 'fire', notification });
+  } else {
+    new Notification(notification.title, { body: notification.body, tag: notification.id });
+  }
+}
+
+const pageTimers = new Map<NotificationGroup, number[]>();
+
+// Replace everything scheduled for a group (pass [] to clear it)
+export function scheduleNotifications(group: NotificationGroup, notifications: ScheduledNotification[]) {
+  const now = Date.now();
+  const upcoming = notifications.filter((notification) => notification.at > now);
+
+  for (const timer of pageTimers.get(group) ?? []) {
+    clearTimeout(timer);
+  }
+  pageTimers.set(
+    group,
+    upcoming.map((notification) =>
+      window.setTimeout(() => void showNotification(notification), notification.at - now)
+    )
+  );
+
+  if (upcoming.length === 0 && !registrationPromise) return;
+  void getRegistration().then((registration) => {
+    registration?.active?.postMessage({ type: 'schedule', group, notifications: upcoming });
+  });
+}
+
+/**
+ * Plan today's habit notifications.
+ * Reminder times belong to the effective day, so a time before the day boundary hour
+ * falls on the next calendar morning. Habits already marked today (any status) are skipped;
+ * a parent counts as marked once any child is.
+ */
+function planHabitReminders(
+  habits: Habit[],
+  dayBoundaryHour: number,
+  weekStartDay: WeekStartDay,
+  now: Date
+): ScheduledNotification[] {
+  const today = format(getEffectiveDate(now, dayBoundaryHour), 'yyyy-MM-dd');
+  const dayEnd = setHours(addDays(parseISO(today), 1), dayBoundaryHour);
+
+  const timeOnEffectiveDay = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const at = setMinutes(setHours(parseISO(today), hours), minutes);
+    return (hours < dayBoundaryHour ? addDays(at, 1) : at).getTime();
+  };
+
+  const isUnmarked = (habit: Habit): boolean => {
+    const children = (habit.children ?? []).filter((child) => child.isActive && !child.isDeleted);
+    if (children.length > 0) return children.every(isUnmarked);
+    const entry = habit.entries?.find((e) => e.date === today);
+    return !entry || entry.status === 'empty';
+  };
+
+  const scheduleState = (habit: Habit) => getScheduleState(
+    { ...habit, entriesByDate: new Map((habit.entries ?? []).map((e): [string, HabitEntry] => [e.date, e])) },
+    today,
+    weekStartDay
+  );
+
+  const active = habits.filter((habit) => habit.isActive && !habit.isDeleted && isUnmarked(habit));
+  const notifications: ScheduledNotification[] = active
+    .filter((habit) => habit.reminderTime && scheduleState(habit) !== 'off')
+    .map((habit) => ({
+      id: `habit-${habit.id}-${today}`,
+      at: timeOnEffectiveDay(habit.reminderTime!),
+      title: habit.name,
+      body: 'Not marked yet today',
+      url: '/',
+    }));
+
+  // Parents are nudged through their children
+  const dueUnmarked = active.filter((habit) => !habit.children?.length && scheduleState(habit) === 'due');
+  if (dueUnmarked.length > 0) {
+    const names = dueUnmarked.slice(0, 3).map((habit) => habit.name).join(', ');
+    notifications.push({
+      id: `day-end-${today}`,
+      at: dayEnd.getTime() - DAY_END_NUDGE_MINUTES * 60 * 1000,
+      title: 'Day ends soon',
+      body: `${dueUnmarked.length} habit${dueUnmarked.length === 1 ? '' : 's'} still unmarked: ${names}${dueUnmarked.length > 3 ? '…' : ''}`,
+      url: '/',
+    });
+  }
+
+  return notifications;
+}
+
+// Keep habit reminders and the end-of-day nudge scheduled while notifications are enabled
+export function useHabitReminders() {
+  const { data: settingsResponse } = useSettings();
+  const { data: habitsResponse } = useHabits();
+  const [now, setNow] = useState(() => new Date());
+
+  const settings = settingsResponse?.data;
+  const enabled = settings?.notificationsEnabled === true;
+  const dayBoundaryHour = settings?.dayBoundaryHour ?? 6;
+  const weekStartDay = settings?.weekStartDay ?? 0;
+  const habits = habitsResponse?.data;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const interval = setInterval(() => setNow(new Date()), REMINDER_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [enabled]);
+
+  useEffect(() => {
+    scheduleNotifications(
+      'reminders',
+      canNotify(enabled) && habits ? planHabitReminders(habits, dayBoundaryHour, weekStartDay, now) : []
+    );
+  }, [enabled, habits, dayBoundaryHour, weekStartDay, now]);
+}
+
+// What to say when the current timer phase runs out
+function describeTimerEnd(
+  mode: TimerMode,
+  phase: TimerPhase,
+  completedSessions: number,
+  sessionsBeforeLongBreak: number,
+  blockName: string | undefined
+): Pick<ScheduledNotification, 'title' | 'body'> {
+  const prefix = blockName ? `${blockName}: ` : '';
+
+  if (mode === 'countdown') {
+    return { title: 'Time block complete', body: `${prefix}countdown finished` };
+  }
+  if (phase === 'work') {
+    const longBreak = (completedSessions + 1) % sessionsBeforeLongBreak === 0;
+    return { title: 'Work session complete', body: `${prefix}time for a ${longBreak ? 'long ' : ''}break` };
+  }
+  return { title: 'Break over', body: `${prefix}back to work` };
+}
+
+// Notify when a running pomodoro phase or countdown ends, even with the tab in the background
+export function useTimerNotifications() {
+  const { data: settingsResponse } = useSettings();
+  const { data: timeBlocksResponse } = useTimeBlocks();
+  const status = useTimerStore((state) => state.status);
+  const mode = useTimerStore((state) => state.mode);
+  const currentPhase = useTimerStore((state) => state.currentPhase);
+  const activeBlockId = useTimerStore((state) => state.activeBlockId);
+  const pending = useRef<ScheduledNotification | null>(null);
+
+  const enabled = settingsResponse?.data?.notificationsEnabled === true;
+  const blockName = timeBlocksResponse?.data.find((block) => block.id === activeBlockId)?.name;
+
+  useEffect(() => {
+    // The store's own tick can reach zero a moment before the scheduled time - show it now
+    if (status === 'complete' && pending.current) {
+      void showNotification(pending.current);
+    }
+    pending.current = null;
+
+    if (!canNotify(enabled) || status !== 'running' || mode === 'stopwatch') {
+      scheduleNotifications('timer', []);
+      return;
+    }
+
+    const state = useTimerStore.getState();
+    const preset = state.pomodoroPresetIndex === 2
+      ? state.customPomodoro
+      : POMODORO_PRESETS[state.pomodoroPresetIndex];
+    const at = Date.now() + state.remainingSeconds * 1000;
+
+    pending.current = {
+      id: `timer-${activeBlockId}-${currentPhase}-${Math.round(at / 1000)}`,
+      at,
+      ...describeTimerEnd(mode, currentPhase, state.completedSessions, preset.sessionsBeforeLongBreak, blockName),
+      url: '/time-blocks',
+    };
+    scheduleNotifications('timer', [pending.current]);
+  }, [enabled, status, mode, currentPhase, activeBlockId, blockName]);
+}
@@ -0,0 +1,58 @@
+import type { ReactNode } from 'react';
+
+interface AnalyticsSectionProps {
+  title: string;
+  icon: ReactNode;
+  testId: string;
+  isLoading?: boolean;
+  isEmpty?: boolean;
+  emptyMessage?: string;
+  actions?: ReactNode;
+  children: ReactNode;
+}
+
+/**
+ * AnalyticsSection - Card frame shared by the analytics charts
+ *
+ * Handles the loading and empty states so each chart only renders real data.
+ */
+export function AnalyticsSection({
+  title,
+  icon,
+  testId,
+  isLoading = false,
+  isEmpty = false,
+  emptyMessage = 'No data for this range',
+  actions,
+  children,
+}: AnalyticsSectionProps) {
+  return (
+    <section
+      className="bg-slate-800/50 rounded-xl p-4 border border-slate-700/50"
+      data-testid={testId}
+    >
+      <div className="flex items-center justify-between mb-3 gap-3">
+        <h2 className="text-sm font-semibold text-slate-200 flex items-center gap-2">
+          {icon}
+          {title}
+        </h2>
+        {actions}
+      </div>
+
+      {isLoading ? (
+        <div className="h-64 flex items-center justify-center text-slate-500 text-sm">
+          Loading...
+        </div>
+      ) : isEmpty ? (
+        <div
+          className="h-64 flex items-center justify-center text-slate-500 text-sm"
+          data-testid={`${testId}-empty`}
+        >
+          {emptyMessage}
+        </div>
+      ) : (
+        children
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,62 @@
+import { useMemo } from 'react';
+import ReactEChartsCore from 'echarts-for-react/lib/core';
+import * as echarts from 'echarts/core';
+import { LineChart } from 'echarts/charts';
+import { GridComponent, TooltipComponent, LegendComponent } from 'echarts/components';
+import { CanvasRenderer } from 'echarts/renderers';
+import type { EChartsOption } from 'echarts';
+import type { AnalyticsTrendData } from '../../api';
+import { LEGEND_STYLE, TOOLTIP_STYLE, VALUE_AXIS_STYLE, periodAxis, seriesColor } from './chartOptions';
+
+// Register ECharts components
+echarts.use([LineChart, GridComponent, TooltipComponent, LegendComponent, CanvasRenderer]);
+
+interface CategoryTrendsChartProps {
+  data: AnalyticsTrendData;
+}
+
+/**
+ * CategoryTrendsChart - Habit completion rate per category over time
+ *
+ * Periods where a category had no counted entries are left as gaps.
+ */
+export function CategoryTrendsChart({ data }: CategoryTrendsChartProps) {
+  const options = useMemo((): EChartsOption => ({
+    grid: { left: 40, right: 16, top: 16, bottom: 48 },
+    tooltip: {
+      trigger: 'axis',
+      ...TOOLTIP_STYLE,
+      valueFormatter: (value) => (value === null || value === undefined ? '-' : `${value}%`),
+    },
+    legend: LEGEND_STYLE,
+    xAxis: periodAxis(data.periods, data.interval),
+    yAxis: {
+      ...VALUE_AXIS_STYLE,
+      min: 0,
+      max: 100,
+      axisLabel: { ...VALUE_AXIS_STYLE.axisLabel, formatter: '{value}%' },
+    },
+    series: data.series.map((series, index) => ({
+      name: series.name,
+      type: 'line',
+      data: series.values,
+      connectNulls: false,
+      smooth: true,
+      symbolSize: 6,
+      itemStyle: { color: seriesColor(series.color, index) },
+      lineStyle: { width: 2 },
+    })),
+  }), [data]);
+
+  return (
+    <div data-testid="category-trends-chart" data-chart-engine="echarts">
+      <ReactEChartsCore
+        echarts={echarts}
+        option={options}
+        style={{ height: 280, width: '100%' }}
+        opts={{ renderer: 'canvas' }}
+        notMerge={true}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useMemo } from 'react';
+import ReactEChartsCore from 'echarts-for-react/lib/core';
+import * as echarts from 'echarts/core';
+import { HeatmapChart } from 'echarts/charts';
+import { GridComponent, TooltipComponent, VisualMapComponent } from 'echarts/components';
+import { CanvasRenderer } from 'echarts/renderers';
+import type { EChartsOption } from 'echarts';
+import type { HabitCorrelationData, HabitCorrelationPair } from '../../api';
+import { TOOLTIP_STYLE } from './chartOptions';
+
+// Register ECharts components
+echarts.use([HeatmapChart, GridComponent, TooltipComponent, VisualMapComponent, CanvasRenderer]);
+
+// Number of strongest pairs listed beside the matrix
+const TOP_PAIR_COUNT = 5;
+
+interface HabitCorrelationChartProps {
+  data: HabitCorrelationData;
+}
+
+/**
+ * HabitCorrelationChart - Matrix of how often habits are completed on the same days
+ *
+ * Positive values mean two habits tend to be done together, negative values mean
+ * doing one tends to coincide with skipping the other.
+ */
+export function HabitCorrelationChart({ data }: HabitCorrelationChartProps) {
+  const habitIndex = useMemo(
+    () => new Map(data.habits.map((habit, index) => [habit.id, index])),
+    [data.habits]
+  );
+
+  // Pairs keyed both ways so the tooltip can look up either half of the matrix
+  const pairByCell = useMemo(() => {
+    const map = new Map<string, HabitCorrelationPair>();
+    data.pairs.forEach(pair => {
+      const a = habitIndex.get(pair.habitA);
+      const b = habitIndex.get(pair.habitB);
+      if (a === undefined || b === undefined) return;
+      map.set(`${a}:${b}`, pair);
+      map.set(`${b}:${a}`, pair);
+    });
+    return map;
+  }, [data.pairs, habitIndex]);
+
+  const topPairs = useMemo(
+    () =>
+      data.pairs
+        .filter(pair => pair.correlation !== null)
+        .sort((a, b) => Math.abs(b.correlation!) - Math.abs(a.correlation!))
+        .slice(0, TOP_PAIR_COUNT),
+    [data.pairs]
+  );
+
+  const options = useMemo((): EChartsOption => {
+    const names = data.habits.map(habit => habit.name);
+    const cells: [number, number, number | '-'][] = [];
+    pairByCell.forEach((pair, key) => {
+      const [x, y] = key.split(':').map(Number);
+      cells.push([x, y, pair.correlation ?? '-']);
+    });
+
+    return {
+      grid: { left: 100, right: 16, top: 8, bottom: 80 },
+      tooltip: {
+        ...TOOLTIP_STYLE,
+        formatter: (params: unknown) => {
+          const p = params as { value: [number, number, number | '-'] };
+          const pair = pairByCell.get(`${p.value[0]}:${p.value[1]}`);
+          if (!pair) return '';
+          return `
+            <div style="padding: 4px 0;">
+              <div style="font-weight: 500; margin-bottom: 4px;">${names[p.value[0]]} × ${names[p.value[1]]}</div>
+              <div>Correlation: ${pair.correlation ?? 'n/a'}</div>
+              <div style="color: #94a3b8;">Both ${pair.both} · Only one ${pair.aOnly + pair.bOnly} · Neither ${pair.neither}</div>
+              <div style="color: #94a3b8;">${pair.days} days compared</div>
+            </div>
+          `;
+        },
+      },
+      xAxis: {
+        type: 'category',
+        data: names,
+        axisLabel: { color: '#64748b', fontSize: 10, rotate: 45, width: 80, overflow: 'truncate' },
+        axisLine: { lineStyle: { color: '#334155' } },
+        axisTick: { show: false },
+      },
+      yAxis: {
+        type: 'category',
+        data: names,
+        axisLabel: { color: '#64748b', fontSize: 10, width: 90, overflow: 'truncate' },
+        axisLine: { lineStyle: { color: '#334155' } },
+        axisTick: { show: false },
+      },
+      visualMap: {
+        show: false,
+        min: -1,
+        max: 1,
+        inRange: { color: ['#ef4444', '#1e293b', '#14b8a6'] },
+      },
+      series: [
+        {
+          type: 'heatmap',
+          data: cells,
+          itemStyle: { borderColor: '#0f172a', borderWidth: 1 },
+        },
+      ],
+    };
+  }, [data.habits, pairByCell]);
+
+  const nameById = (id: string) => data.habits.find(habit => habit.id === id)?.name ?? 'Unknown';
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-4" data-testid="habit-correlation-chart" data-chart-engine="echarts">
+      <div className="flex-1 min-w-0">
+        <ReactEChartsCore
+          echarts={echarts}
+          option={options}
+          style={{ height: 320, width: '100%' }}
+          opts={{ renderer: 'canvas' }}
+          notMerge={true}
+        />
+      </div>
+
+      {/* Strongest relationships */}
+      <div className="lg:w-64 space-y-2" data-testid="habit-correlation-top-pairs">
+        <h3 className="text-xs font-medium text-slate-400 uppercase tracking-wide">Strongest links</h3>
+        {topPairs.length === 0 && (
+          <p className="text-sm text-slate-500">Not enough overlapping days yet</p>
+        )}
+        {topPairs.map(pair => (
+          <div key={`${pair.habitA}:${pair.habitB}`} className="bg-slate-700/30 rounded-lg px-3 py-2">
+            <div className="text-sm text-slate-200 truncate">
+              {nameById(pair.habitA)} × {nameById(pair.habitB)}
+            </div>
+            <div className="flex items-center justify-between text-xs">
+              <span className={pair.correlation! >= 0 ? 'text-teal-400' : 'text-red-400'}>
+                {pair.correlation! >= 0 ? 'Done together' : 'Rarely together'}
+              </span>
+              <span className="text-slate-400">{pair.correlation}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useMemo, useState } from 'react';
+import ReactEChartsCore from 'echarts-for-react/lib/core';
+import * as echarts from 'echarts/core';
+import { LineChart } from 'echarts/charts';
+import { GridComponent, TooltipComponent } from 'echarts/components';
+import { CanvasRenderer } from 'echarts/renderers';
+import type { EChartsOption } from 'echarts';
+import type { MeasurementTrendData } from '../../api';
+import { TOOLTIP_STYLE, VALUE_AXIS_STYLE, periodAxis, seriesColor } from './chartOptions';
+
+// Register ECharts components
+echarts.use([LineChart, GridComponent, TooltipComponent, CanvasRenderer]);
+
+interface MeasurementTrendsChartProps {
+  data: MeasurementTrendData;
+}
+
+/**
+ * MeasurementTrendsChart - Average value per period for one measurement at a time
+ *
+ * Measurements use different units, so they're shown one at a time via a selector
+ * rather than sharing a single y-axis.
+ */
+export function MeasurementTrendsChart({ data }: MeasurementTrendsChartProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selectedIndex = Math.max(0, data.series.findIndex(series => series.id === selectedId));
+  const selected = data.series[selectedIndex];
+  const unit = selected?.unit ? ` ${selected.unit}` : '';
+
+  const options = useMemo((): EChartsOption => ({
+    grid: { left: 48, right: 16, top: 16, bottom: 28 },
+    tooltip: {
+      trigger: 'axis',
+      ...TOOLTIP_STYLE,
+      valueFormatter: (value) =>
+        value === null || value === undefined ? '-' : `${Number(value).toFixed(1)}${unit}`,
+    },
+    xAxis: periodAxis(data.periods, data.interval),
+    yAxis: { ...VALUE_AXIS_STYLE, scale: true },
+    series: selected
+      ? [
+          {
+            name: selected.name,
+            type: 'line',
+            data: selected.values,
+            connectNulls: true,
+            smooth: true,
+            symbolSize: 6,
+            itemStyle: { color: seriesColor(selected.color, selectedIndex) },
+            lineStyle: { width: 2 },
+            areaStyle: { opacity: 0.1 },
+          },
+        ]
+      : [],
+  }), [data, selected, selectedIndex, unit]);
+
+  return (
+    <div data-testid="measurement-trends-chart" data-chart-engine="echarts">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <select
+          value={selected?.id ?? ''}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="bg-slate-700 border border-slate-600 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+          data-testid="measurement-trends-select"
+        >
+          {data.series.map(series => (
+            <option key={series.id ?? series.name} value={series.id ?? ''}>
+              {series.name}
+            </option>
+          ))}
+        </select>
+        {selected && selected.min !== null && selected.max !== null && (
+          <span className="text-xs text-slate-400">
+            Range {selected.min}{unit} – {selected.max}{unit}
+          </span>
+        )}
+      </div>
+      <ReactEChartsCore
+        echarts={echarts}
+        option={options}
+        style={{ height: 248, width: '100%' }}
+        opts={{ renderer: 'canvas' }}
+        notMerge={true}
+      />
+    </div>
+  );
+}
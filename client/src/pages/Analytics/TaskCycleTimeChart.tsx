@@ -0,0 +1,130 @@
+import { useMemo } from 'react';
+import ReactEChartsCore from 'echarts-for-react/lib/core';
+import * as echarts from 'echarts/core';
+import { BarChart, LineChart } from 'echarts/charts';
+import { GridComponent, TooltipComponent, LegendComponent } from 'echarts/components';
+import { CanvasRenderer } from 'echarts/renderers';
+import type { EChartsOption } from 'echarts';
+import type { CycleTimeSummary, TaskCycleTimeData } from '../../api';
+import { LEGEND_STYLE, TOOLTIP_STYLE, VALUE_AXIS_STYLE, periodAxis } from './chartOptions';
+
+// Register ECharts components
+echarts.use([BarChart, LineChart, GridComponent, TooltipComponent, LegendComponent, CanvasRenderer]);
+
+interface TaskCycleTimeChartProps {
+  data: TaskCycleTimeData;
+}
+
+const toDays = (hours: number | null) => (hours === null ? null : Math.round((hours / 24) * 10) / 10);
+
+function formatDays(hours: number | null): string {
+  const days = toDays(hours);
+  return days === null ? '-' : `${days}d`;
+}
+
+// Time parked in breakout statuses (Blocked, Waiting, ...)
+function breakoutHours(summary: CycleTimeSummary, breakoutIds: Set<string>): number | null {
+  const parked = summary.timeInStatus.filter(entry => breakoutIds.has(entry.statusId));
+  return parked.length > 0 ? parked.reduce((sum, entry) => sum + entry.hours, 0) : null;
+}
+
+/**
+ * TaskCycleTimeChart - Average time in each status (stacked) with lead and cycle time lines
+ * per period, and a per-project breakdown underneath
+ */
+export function TaskCycleTimeChart({ data }: TaskCycleTimeChartProps) {
+  const breakoutIds = useMemo(
+    () => new Set(data.statuses.filter(status => status.isBreakout).map(status => status.id)),
+    [data]
+  );
+
+  const options = useMemo((): EChartsOption => ({
+    grid: { left: 40, right: 16, top: 16, bottom: 48 },
+    tooltip: {
+      trigger: 'axis',
+      ...TOOLTIP_STYLE,
+      valueFormatter: (value) => (value === null || value === undefined ? '-' : `${value}d`),
+    },
+    legend: LEGEND_STYLE,
+    xAxis: periodAxis(data.periods, data.interval),
+    yAxis: VALUE_AXIS_STYLE,
+    series: [
+      ...data.statuses.map(status => ({
+        name: status.name,
+        type: 'bar' as const,
+        stack: 'status',
+        barMaxWidth: 32,
+        itemStyle: { color: status.color },
+        data: data.byPeriod.map(period =>
+          toDays(period.timeInStatus.find(entry => entry.statusId === status.id)?.hours ?? null)
+        ),
+      })),
+      {
+        name: 'Lead time',
+        type: 'line' as const,
+        connectNulls: true,
+        symbolSize: 6,
+        itemStyle: { color: '#e2e8f0' },
+        data: data.byPeriod.map(period => toDays(period.leadTimeHours)),
+      },
+      {
+        name: 'Cycle time',
+        type: 'line' as const,
+        connectNulls: true,
+        symbolSize: 6,
+        itemStyle: { color: '#14b8a6' },
+        lineStyle: { type: 'dashed' },
+        data: data.byPeriod.map(period => toDays(period.cycleTimeHours)),
+      },
+    ],
+  }), [data]);
+
+  return (
+    <div data-testid="task-cycle-time-chart" data-chart-engine="echarts">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mb-2 text-xs text-slate-400">
+        <span>{data.overall.completed} completed</span>
+        <span>Lead <span className="text-white font-medium">{formatDays(data.overall.leadTimeHours)}</span></span>
+        <span>Cycle <span className="text-teal-400 font-medium">{formatDays(data.overall.cycleTimeHours)}</span></span>
+        <span>Blocked/waiting <span className="text-red-400 font-medium">{formatDays(breakoutHours(data.overall, breakoutIds))}</span></span>
+      </div>
+
+      <ReactEChartsCore
+        echarts={echarts}
+        option={options}
+        style={{ height: 280, width: '100%' }}
+        opts={{ renderer: 'canvas' }}
+        notMerge={true}
+      />
+
+      {data.byProject.length > 0 && (
+        <table className="w-full mt-3 text-xs" data-testid="task-cycle-time-projects">
+          <thead>
+            <tr className="text-slate-500 text-left">
+              <th className="font-normal py-1">Project</th>
+              <th className="font-normal py-1 text-right">Done</th>
+              <th className="font-normal py-1 text-right">Lead</th>
+              <th className="font-normal py-1 text-right">Cycle</th>
+              <th className="font-normal py-1 text-right">Blocked/waiting</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.byProject.map(project => (
+              <tr key={project.id ?? 'none'} className="border-t border-slate-700/50 text-slate-300">
+                <td className="py-1">
+                  <span className="inline-flex items-center gap-1.5">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: project.color ?? '#64748b' }} />
+                    {project.name}
+                  </span>
+                </td>
+                <td className="py-1 text-right">{project.completed}</td>
+                <td className="py-1 text-right">{formatDays(project.leadTimeHours)}</td>
+                <td className="py-1 text-right">{formatDays(project.cycleTimeHours)}</td>
+                <td className="py-1 text-right">{formatDays(breakoutHours(project, breakoutIds))}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { useMemo } from 'react';
+import ReactEChartsCore from 'echarts-for-react/lib/core';
+import * as echarts from 'echarts/core';
+import { BarChart } from 'echarts/charts';
+import { GridComponent, TooltipComponent, LegendComponent } from 'echarts/components';
+import { CanvasRenderer } from 'echarts/renderers';
+import type { EChartsOption } from 'echarts';
+import type { TaskThroughputData } from '../../api';
+import { LEGEND_STYLE, TOOLTIP_STYLE, VALUE_AXIS_STYLE, periodAxis, seriesColor } from './chartOptions';
+
+// Register ECharts components
+echarts.use([BarChart, GridComponent, TooltipComponent, LegendComponent, CanvasRenderer]);
+
+interface TaskThroughputChartProps {
+  data: TaskThroughputData;
+}
+
+/**
+ * TaskThroughputChart - Stacked task counts per period, grouped by project or status
+ */
+export function TaskThroughputChart({ data }: TaskThroughputChartProps) {
+  const options = useMemo((): EChartsOption => ({
+    grid: { left: 40, right: 16, top: 16, bottom: 48 },
+    tooltip: {
+      trigger: 'axis',
+      axisPointer: { type: 'shadow' },
+      ...TOOLTIP_STYLE,
+    },
+    legend: LEGEND_STYLE,
+    xAxis: periodAxis(data.periods, data.interval),
+    yAxis: { ...VALUE_AXIS_STYLE, minInterval: 1 },
+    series: data.series.map((series, index) => ({
+      name: series.name,
+      type: 'bar',
+      stack: 'tasks',
+      data: series.values,
+      barMaxWidth: 32,
+      itemStyle: { color: seriesColor(series.color, index) },
+    })),
+  }), [data]);
+
+  return (
+    <div data-testid="task-throughput-chart" data-chart-engine="echarts">
+      <ReactEChartsCore
+        echarts={echarts}
+        option={options}
+        style={{ height: 280, width: '100%' }}
+        opts={{ renderer: 'canvas' }}
+        notMerge={true}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { format, parseISO } from 'date-fns';
+import type { AnalyticsInterval } from '../../api';
+
+// Fallback palette for series without their own color (projects/categories with no icon color)
+export const SERIES_PALETTE = ['#14b8a6', '#8b5cf6', '#f59e0b', '#3b82f6', '#ec4899', '#22c55e', '#ef4444', '#06b6d4'];
+
+// Shared dark tooltip styling (matches TargetLineGraph/ContributionGraph)
+export const TOOLTIP_STYLE = {
+  backgroundColor: 'rgba(15, 23, 42, 0.95)',
+  borderColor: 'rgba(71, 85, 105, 0.5)',
+  borderWidth: 1,
+  textStyle: {
+    color: '#e2e8f0',
+    fontSize: 12,
+  },
+};
+
+export const LEGEND_STYLE = {
+  bottom: 0,
+  type: 'scroll' as const,
+  textStyle: { color: '#94a3b8', fontSize: 11 },
+  pageTextStyle: { color: '#94a3b8' },
+  pageIconColor: '#94a3b8',
+  pageIconInactiveColor: '#334155',
+};
+
+export const VALUE_AXIS_STYLE = {
+  type: 'value' as const,
+  axisLine: { show: false },
+  axisTick: { show: false },
+  axisLabel: { color: '#64748b', fontSize: 10 },
+  splitLine: {
+    lineStyle: {
+      color: '#1e293b',
+      type: 'dashed' as const,
+    },
+  },
+};
+
+/**
+ * Format a period start date for axis labels ("Mar 3" for weeks, "Mar 2026" for months)
+ */
+export function formatPeriod(period: string, interval: AnalyticsInterval): string {
+  return format(parseISO(period), interval === 'month' ? 'MMM yyyy' : 'MMM d');
+}
+
+/**
+ * Category x-axis over the response's periods
+ */
+export function periodAxis(periods: string[], interval: AnalyticsInterval) {
+  return {
+    type: 'category' as const,
+    data: periods.map(period => formatPeriod(period, interval)),
+    axisLine: { lineStyle: { color: '#334155' } },
+    axisTick: { show: false },
+    axisLabel: { color: '#64748b', fontSize: 10 },
+  };
+}
+
+/**
+ * Pick a series color, falling back to the palette by position
+ */
+export function seriesColor(color: string | null, index: number): string {
+  return color || SERIES_PALETTE[index % SERIES_PALETTE.length];
+}
@@ -0,0 +1,201 @@
+import { useMemo, useState } from 'react';
+import { format, subDays } from 'date-fns';
+import * as MuiIcons from '@mui/icons-material';
+import {
+  useCategoryTrends,
+  useHabitCorrelation,
+  useTaskThroughput,
+  useTaskCycleTime,
+  useMeasurementTrends,
+  useSettings,
+  type AnalyticsInterval,
+  type AnalyticsRange,
+} from '../../api';
+import { getEffectiveDate } from '../../widgets/HabitMatrix/useHabitMatrix';
+import { AnalyticsSection } from './AnalyticsSection';
+import { CategoryTrendsChart } from './CategoryTrendsChart';
+import { HabitCorrelationChart } from './HabitCorrelationChart';
+import { TaskThroughputChart } from './TaskThroughputChart';
+import { TaskCycleTimeChart } from './TaskCycleTimeChart';
+import { MeasurementTrendsChart } from './MeasurementTrendsChart';
+
+// Range presets (in weeks) offered in the header
+const RANGE_PRESETS = [
+  { weeks: 4, label: '4W' },
+  { weeks: 12, label: '12W' },
+  { weeks: 26, label: '6M' },
+  { weeks: 52, label: '1Y' },
+];
+
+const INTERVAL_OPTIONS: { value: AnalyticsInterval; label: string }[] = [
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+];
+
+/**
+ * Analytics Page - Trends across habits, tasks and measurements
+ *
+ * Features:
+ * - Habit completion rate per category over time
+ * - Habit correlation matrix (which habits get done on the same days)
+ * - Task throughput per project or status
+ * - Task lead/cycle time and time in each status
+ * - Measurement trends
+ *
+ * All aggregation happens server-side via /api/analytics.
+ */
+export function Analytics() {
+  const [rangeWeeks, setRangeWeeks] = useState(12);
+  const [interval, setRangeInterval] = useState<AnalyticsInterval>('week');
+  const [throughputGroupBy, setThroughputGroupBy] = useState<'project' | 'status'>('project');
+
+  // End the range on the effective date (considering day boundary)
+  const { data: settingsResponse } = useSettings();
+  const dayBoundaryHour = settingsResponse?.data?.dayBoundaryHour ?? 0;
+  const endDate = format(getEffectiveDate(new Date(), dayBoundaryHour), 'yyyy-MM-dd');
+
+  const range = useMemo((): AnalyticsRange => ({
+    startDate: format(subDays(new Date(`${endDate}T00:00:00`), rangeWeeks * 7 - 1), 'yyyy-MM-dd'),
+    endDate,
+    interval,
+  }), [endDate, rangeWeeks, interval]);
+
+  const { data: categoryTrends, isLoading: categoryTrendsLoading } = useCategoryTrends(range);
+  const { data: correlation, isLoading: correlationLoading } = useHabitCorrelation(range.startDate, range.endDate);
+  const { data: throughput, isLoading: throughputLoading } = useTaskThroughput(range, throughputGroupBy);
+  const { data: cycleTime, isLoading: cycleTimeLoading } = useTaskCycleTime(range);
+  const { data: measurementTrends, isLoading: measurementTrendsLoading } = useMeasurementTrends(range);
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto" data-testid="analytics-page">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+            <MuiIcons.Insights style={{ fontSize: 32 }} className="text-teal-400" />
+            Analytics
+          </h1>
+          <p className="text-slate-400 mt-1">
+            {format(new Date(`${range.startDate}T00:00:00`), 'MMM d, yyyy')} – {format(new Date(`${range.endDate}T00:00:00`), 'MMM d, yyyy')}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          {/* Range presets */}
+          <div className="flex bg-slate-800 rounded-lg p-1 border border-slate-700" data-testid="analytics-range">
+            {RANGE_PRESETS.map(preset => (
+              <button
+                key={preset.weeks}
+                onClick={() => setRangeWeeks(preset.weeks)}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                  rangeWeeks === preset.weeks
+                    ? 'bg-teal-600 text-white'
+                    : 'text-slate-400 hover:text-white'
+                }`}
+                aria-pressed={rangeWeeks === preset.weeks}
+                data-testid={`analytics-range-${preset.weeks}`}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Interval */}
+          <div className="flex bg-slate-800 rounded-lg p-1 border border-slate-700" data-testid="analytics-interval">
+            {INTERVAL_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setRangeInterval(option.value)}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                  interval === option.value
+                    ? 'bg-teal-600 text-white'
+                    : 'text-slate-400 hover:text-white'
+                }`}
+                aria-pressed={interval === option.value}
+                data-testid={`analytics-interval-${option.value}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <AnalyticsSection
+          title="Habit Completion by Category"
+          icon={<MuiIcons.Category style={{ fontSize: 18 }} className="text-teal-400" />}
+          testId="analytics-category-trends"
+          isLoading={categoryTrendsLoading}
+          isEmpty={!categoryTrends?.data.series.length}
+          emptyMessage="No habit entries in this range"
+        >
+          {categoryTrends && <CategoryTrendsChart data={categoryTrends.data} />}
+        </AnalyticsSection>
+
+        <AnalyticsSection
+          title="Task Throughput"
+          icon={<MuiIcons.Assignment style={{ fontSize: 18 }} className="text-teal-400" />}
+          testId="analytics-task-throughput"
+          isLoading={throughputLoading}
+          isEmpty={!throughput?.data.series.length}
+          emptyMessage="No tasks in this range"
+          actions={
+            <select
+              value={throughputGroupBy}
+              onChange={(e) => setThroughputGroupBy(e.target.value as 'project' | 'status')}
+              className="bg-slate-700 border border-slate-600 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+              data-testid="analytics-throughput-group-by"
+            >
+              <option value="project">Completed by project</option>
+              <option value="status">By status</option>
+            </select>
+          }
+        >
+          {throughput && <TaskThroughputChart data={throughput.data} />}
+        </AnalyticsSection>
+
+        <div className="lg:col-span-2">
+          <AnalyticsSection
+            title="Task Cycle Time"
+            icon={<MuiIcons.Timelapse style={{ fontSize: 18 }} className="text-teal-400" />}
+            testId="analytics-task-cycle-time"
+            isLoading={cycleTimeLoading}
+            isEmpty={!cycleTime?.data.overall.completed}
+            emptyMessage="No tasks completed in this range"
+          >
+            {cycleTime && <TaskCycleTimeChart data={cycleTime.data} />}
+          </AnalyticsSection>
+        </div>
+
+        <div className="lg:col-span-2">
+          <AnalyticsSection
+            title="Habit Correlation"
+            icon={<MuiIcons.Hub style={{ fontSize: 18 }} className="text-teal-400" />}
+            testId="analytics-habit-correlation"
+            isLoading={correlationLoading}
+            isEmpty={(correlation?.data.habits.length ?? 0) < 2}
+            emptyMessage="Track at least two habits to compare them"
+          >
+            {correlation && <HabitCorrelationChart data={correlation.data} />}
+          </AnalyticsSection>
+        </div>
+
+        <div className="lg:col-span-2">
+          <AnalyticsSection
+            title="Measurement Trends"
+            icon={<MuiIcons.ShowChart style={{ fontSize: 18 }} className="text-teal-400" />}
+            testId="analytics-measurement-trends"
+            isLoading={measurementTrendsLoading}
+            isEmpty={!measurementTrends?.data.series.length}
+            emptyMessage="No measurement entries in this range"
+          >
+            {measurementTrends && <MeasurementTrendsChart data={measurementTrends.data} />}
+          </AnalyticsSection>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default Analytics;
@@ -0,0 +1,933 @@
+import React, { useState, useMemo } from 'react';
+import { useDroppable } from '@dnd-kit/core';
+import {
+  SortableContext,
+  verticalListSortingStrategy,
+  useSortable,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { format, isPast, parseISO } from 'date-fns';
+import * as MuiIcons from '@mui/icons-material';
+import { isTaskComplete } from '../../api';
+import type { Task, TaskStatusEntity } from '../../types';
+
+// Three view modes: list (compact), card (enhanced), detailed (table)
+export type ViewMode = 'list' | 'card' | 'detailed';
+
+// Droppable sub-group inside a column (e.g. projects within a category column)
+export interface BoardColumnGroup {
+  id: string; // Droppable id
+  title: string;
+  color: string;
+  tasks: Task[];
+}
+
+// Dependency state of a task card
+export interface TaskDependencyBadge {
+  blockedBy: string[]; // Titles of the open tasks it waits on
+  blocking: number; // Open tasks waiting on it
+  suggestedStatus: TaskStatusEntity | null; // Blocked status to offer while blockers are open
+}
+
+// Optional dependency badges, passed down to each task row
+interface DependencyProps {
+  dependencyBadges?: Map<string, TaskDependencyBadge>;
+  onMoveToStatus?: (task: Task, statusId: string) => void;
+}
+
+interface BoardColumnProps extends DependencyProps {
+  columnId: string;
+  title: string;
+  tasks: Task[];
+  icon: React.ReactNode;
+  color: string;
+  isFirst: boolean;
+  isLast: boolean;
+  viewMode: ViewMode;
+  isCollapsed: boolean;
+  movingTaskIds: Set<string>;
+  onEditTask: (task: Task) => void;
+  onAddTask: (columnId: string) => void;
+  onToggleCollapse: (columnId: string) => void;
+  groups?: BoardColumnGroup[]; // When set, tasks render in these droppable groups instead of one list
+  wipLimit?: number | null; // Status WIP limit, shown against wipCount
+  wipCount?: number;
+  isDropDisabled?: boolean; // The dragged task can't move here (transition rules or WIP limit)
+}
+
+/**
+ * Blocked-by / blocks chips, plus a shortcut into the suggested Blocked status
+ */
+function DependencyChips({
+  badge,
+  onMove,
+}: {
+  badge?: TaskDependencyBadge;
+  onMove?: (statusId: string) => void;
+}) {
+  if (!badge) return null;
+  const { suggestedStatus } = badge;
+  return (
+    <>
+      {badge.blockedBy.length > 0 && (
+        <span
+          className="text-[10px] px-1 rounded flex-shrink-0 bg-red-500/20 text-red-400"
+          title={`Blocked by: ${badge.blockedBy.join(', ')}`}
+          data-testid="task-blocked-by-badge"
+        >
+          <MuiIcons.Block style={{ fontSize: 10, marginRight: 2 }} />
+          {badge.blockedBy.length}
+        </span>
+      )}
+      {suggestedStatus && onMove && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onMove(suggestedStatus.id);
+          }}
+          className="text-[10px] px-1 rounded flex-shrink-0 bg-amber-500/20 text-amber-400 hover:bg-amber-500/30"
+          title={`Blockers are still open - move to ${suggestedStatus.name}`}
+          data-testid="task-suggest-blocked"
+        >
+          → {suggestedStatus.name}
+        </button>
+      )}
+      {badge.blocking > 0 && (
+        <span
+          className="text-[10px] px-1 rounded flex-shrink-0 bg-slate-600/50 text-slate-400"
+          title={`Blocks ${badge.blocking} open task${badge.blocking > 1 ? 's' : ''}`}
+          data-testid="task-blocking-badge"
+        >
+          <MuiIcons.Link style={{ fontSize: 10, marginRight: 2 }} />
+          {badge.blocking}
+        </span>
+      )}
+    </>
+  );
+}
+
+/**
+ * List view - compact task row (minimal whiteboard style)
+ * Draggable with hover actions (drag handles on both sides + edit button)
+ */
+function ListTaskRow({
+  task,
+  onEdit,
+  isBeingMoved,
+  dependencyBadge,
+  onMoveToStatus,
+}: {
+  task: Task;
+  onEdit: () => void;
+  isBeingMoved?: boolean;
+  dependencyBadge?: TaskDependencyBadge;
+  onMoveToStatus?: (statusId: string) => void;
+}) {
+  const [isHovered, setIsHovered] = useState(false);
+  const isComplete = isTaskComplete(task);
+  const projectColor = task.project?.color || task.project?.iconColor || '#6366f1';
+
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: task.id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    // Disable transition when task is being moved to prevent spring-back animation
+    transition: isBeingMoved ? 'none' : transition,
+    // Hide completely when being moved optimistically (it will appear in the new column)
+    opacity: isDragging ? 0.5 : isBeingMoved ? 0 : 1,
+    // Prevent layout shift when hidden
+    visibility: isBeingMoved ? 'hidden' as const : 'visible' as const,
+  };
+
+  // Drag handle component - reused on both sides
+  const DragHandle = (
+    <div
+      {...attributes}
+      {...listeners}
+      className={`
+        flex-shrink-0 cursor-grab active:cursor-grabbing transition-opacity
+        ${isHovered ? 'opacity-100' : 'opacity-0'}
+      `}
+      title="Drag to move"
+    >
+      <MuiIcons.DragIndicator style={{ fontSize: 14 }} className="text-slate-500 hover:text-slate-300" />
+    </div>
+  );
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      data-dependency-anchor={task.id}
+      className={`
+        flex items-center gap-1 py-1 px-1 rounded transition-colors group
+        hover:bg-slate-700/30
+        ${isComplete ? 'opacity-60' : ''}
+        ${isDragging ? 'z-50' : ''}
+      `}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      {/* Left drag handle */}
+      {DragHandle}
+
+      {/* Checkbox indicator */}
+      <div
+        className={`
+          w-3 h-3 rounded-sm border flex-shrink-0
+          ${isComplete
+            ? 'bg-emerald-500 border-emerald-500'
+            : 'border-slate-500'
+          }
+        `}
+      />
+      {/* Project indicator */}
+      {task.project && (
+        <div
+          className="w-1.5 h-4 rounded-sm flex-shrink-0"
+          style={{ backgroundColor: projectColor }}
+        />
+      )}
+      {/* Title - clickable area */}
+      <span
+        onClick={onEdit}
+        className={`flex-1 text-sm truncate cursor-pointer ${isComplete ? 'line-through text-slate-500' : 'text-slate-200'}`}
+        title={task.title}
+      >
+        {task.title}
+      </span>
+      {/* Child count badge */}
+      {task.children && task.children.length > 0 && (
+        <span
+          className="text-[10px] px-1 rounded flex-shrink-0 bg-slate-600/50 text-slate-400"
+          title={`${task.children.length} subtask${task.children.length > 1 ? 's' : ''}`}
+        >
+          <MuiIcons.AccountTree style={{ fontSize: 10, marginRight: 2 }} />
+          {task.children.length}
+        </span>
+      )}
+      <DependencyChips badge={dependencyBadge} onMove={onMoveToStatus} />
+      {/* Priority badge */}
+      {task.priority && task.priority <= 2 && (
+        <span className={`text-[10px] px-1 rounded flex-shrink-0 ${
+          task.priority === 1 ? 'bg-red-500/20 text-red-400' : 'bg-orange-500/20 text-orange-400'
+        }`}>
+          P{task.priority}
+        </span>
+      )}
+      {/* Edit button - appears on hover */}
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onEdit();
+        }}
+        className={`
+          flex-shrink-0 p-0.5 rounded hover:bg-slate-600/50 transition-opacity
+          ${isHovered ? 'opacity-100' : 'opacity-0'}
+        `}
+        title="Edit task"
+      >
+        <MuiIcons.Edit style={{ fontSize: 12 }} className="text-slate-400 hover:text-teal-400" />
+      </button>
+
+      {/* Right drag handle */}
+      {DragHandle}
+    </div>
+  );
+}
+
+/**
+ * Card view - enhanced task card with more details
+ * Shows: title, planned date, project/notes/overdue icons, priority, tags
+ */
+function CardTaskRow({
+  task,
+  onEdit,
+  isBeingMoved,
+  dependencyBadge,
+  onMoveToStatus,
+}: {
+  task: Task;
+  onEdit: () => void;
+  isBeingMoved?: boolean;
+  dependencyBadge?: TaskDependencyBadge;
+  onMoveToStatus?: (statusId: string) => void;
+}) {
+  const [isHovered, setIsHovered] = useState(false);
+  const isComplete = isTaskComplete(task);
+  const projectColor = task.project?.color || task.project?.iconColor || '#6366f1';
+
+  // Check if task is overdue
+  const isOverdue = task.plannedDate && !isComplete && isPast(parseISO(task.plannedDate + 'T23:59:59'));
+  const hasDescription = !!task.description;
+
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: task.id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    // Disable transition when task is being moved to prevent spring-back animation
+    transition: isBeingMoved ? 'none' : transition,
+    // Hide completely when being moved optimistically
+    opacity: isDragging ? 0.5 : isBeingMoved ? 0 : 1,
+    visibility: isBeingMoved ? 'hidden' as const : 'visible' as const,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      data-dependency-anchor={task.id}
+      className={`
+        relative rounded-lg border transition-all cursor-pointer
+        ${isComplete
+          ? 'border-slate-700/50 bg-slate-800/30 opacity-60'
+          : 'border-slate-600/50 bg-slate-800/50 hover:border-slate-500/70 hover:bg-slate-700/50'
+        }
+        ${isDragging ? 'z-50 shadow-lg' : ''}
+        ${isOverdue ? 'border-l-2 border-l-red-500' : ''}
+      `}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+      onClick={onEdit}
+    >
+      {/* Main content - single row with checkbox and title inline */}
+      <div className="relative py-1.5 pl-2.5 pr-1.5">
+        {/* Drag handle - absolutely positioned, appears on hover */}
+        <div
+          {...attributes}
+          {...listeners}
+          onClick={(e) => e.stopPropagation()}
+          className={`absolute left-0 top-1/2 -translate-y-1/2 cursor-grab active:cursor-grabbing transition-opacity ${isHovered ? 'opacity-100' : 'opacity-0'}`}
+          title="Drag to move"
+        >
+          <MuiIcons.DragIndicator style={{ fontSize: 14 }} className="text-slate-500 hover:text-slate-300" />
+        </div>
+
+        {/* First row: checkbox, title, indicators, edit button - all inline */}
+        <div className="flex items-center gap-1.5 min-w-0">
+          {/* Checkbox - 3.5 = 14px */}
+          <div
+            className={`w-3.5 h-3.5 rounded-sm border flex-shrink-0 ${isComplete ? 'bg-emerald-500 border-emerald-500' : 'border-slate-500'}`}
+          />
+
+          {/* Title - directly after checkbox, truncates on overflow */}
+          <span
+            className={`text-sm leading-tight flex-1 min-w-0 overflow-hidden text-ellipsis whitespace-nowrap ${isComplete ? 'line-through text-slate-500' : 'text-slate-200'}`}
+            title={task.title}
+          >
+            {task.title}
+          </span>
+
+          {/* Inline indicators - project, notes, due date, overdue */}
+          {task.project && (
+            <div
+              className="w-2 h-2 rounded-full flex-shrink-0"
+              style={{ backgroundColor: projectColor }}
+              title={task.project.name}
+            />
+          )}
+          {hasDescription && (
+            <MuiIcons.Notes style={{ fontSize: 11 }} className="text-slate-500 flex-shrink-0" titleAccess="Has notes" />
+          )}
+          {task.plannedDate && !isOverdue && (
+            <MuiIcons.Alarm style={{ fontSize: 11 }} className="text-amber-400 flex-shrink-0" titleAccess="Has due date" />
+          )}
+          {isOverdue && (
+            <MuiIcons.Warning style={{ fontSize: 11 }} className="text-red-400 flex-shrink-0" titleAccess="Overdue" />
+          )}
+          {/* Child count badge */}
+          {task.children && task.children.length > 0 && (
+            <span
+              className="text-[10px] px-1 rounded flex-shrink-0 bg-slate-600/50 text-slate-400"
+              title={`${task.children.length} subtask${task.children.length > 1 ? 's' : ''}`}
+            >
+              <MuiIcons.AccountTree style={{ fontSize: 10, marginRight: 2 }} />
+              {task.children.length}
+            </span>
+          )}
+
+          <DependencyChips badge={dependencyBadge} onMove={onMoveToStatus} />
+
+          {/* Edit button - appears on hover */}
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onEdit();
+            }}
+            className={`flex-shrink-0 p-0.5 rounded hover:bg-slate-600/50 transition-opacity ${isHovered ? 'opacity-100' : 'opacity-0'}`}
+            title="Edit task"
+          >
+            <MuiIcons.Edit style={{ fontSize: 12 }} className="text-slate-400 hover:text-teal-400" />
+          </button>
+        </div>
+
+        {/* Second row: priority, date, tags - only if present */}
+        {(task.plannedDate || (task.priority && task.priority <= 3) || (task.tags && task.tags.length > 0)) && (
+          <div className="flex items-center gap-1.5 mt-1 ml-5 flex-wrap">
+            {task.priority && task.priority <= 3 && (
+              <span className={`text-[10px] px-1 rounded ${
+                task.priority === 1 ? 'bg-red-500/20 text-red-400' :
+                task.priority === 2 ? 'bg-orange-500/20 text-orange-400' :
+                'bg-yellow-500/20 text-yellow-400'
+              }`}>
+                P{task.priority}
+              </span>
+            )}
+            {task.plannedDate && (
+              <span className={`text-[10px] ${isOverdue ? 'text-red-400' : 'text-slate-500'}`}>
+                <MuiIcons.CalendarToday style={{ fontSize: 10 }} className="mr-0.5 -mt-0.5" />
+                {format(parseISO(task.plannedDate), 'MMM d')}
+              </span>
+            )}
+            {task.tags?.slice(0, 2).map(tag => (
+              <span key={tag.id} className="text-[10px] px-1 py-0.5 rounded bg-slate-700/50 text-slate-400">
+                {tag.name}
+              </span>
+            ))}
+            {(task.tags?.length || 0) > 2 && (
+              <span className="text-[10px] text-slate-500">+{(task.tags?.length || 0) - 2}</span>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface TaskListProps extends DependencyProps {
+  tasks: Task[];
+  viewMode: ViewMode;
+  movingTaskIds: Set<string>;
+  onEditTask: (task: Task) => void;
+}
+
+/**
+ * Sortable task list - compact rows or cards depending on view mode
+ */
+function TaskList({ tasks, viewMode, movingTaskIds, onEditTask, dependencyBadges, onMoveToStatus }: TaskListProps) {
+  return (
+    <SortableContext
+      items={tasks.map((t) => t.id)}
+      strategy={verticalListSortingStrategy}
+    >
+      {viewMode === 'list' ? (
+        // Compact list view
+        <div className="space-y-0.5">
+          {tasks.map((task) => (
+            <ListTaskRow
+              key={task.id}
+              task={task}
+              onEdit={() => onEditTask(task)}
+              isBeingMoved={movingTaskIds.has(task.id)}
+              dependencyBadge={dependencyBadges?.get(task.id)}
+              onMoveToStatus={onMoveToStatus && ((statusId) => onMoveToStatus(task, statusId))}
+            />
+          ))}
+        </div>
+      ) : (
+        // Card view with enhanced details
+        <div className="space-y-1.5">
+          {tasks.map((task) => (
+            <CardTaskRow
+              key={task.id}
+              task={task}
+              onEdit={() => onEditTask(task)}
+              isBeingMoved={movingTaskIds.has(task.id)}
+              dependencyBadge={dependencyBadges?.get(task.id)}
+              onMoveToStatus={onMoveToStatus && ((statusId) => onMoveToStatus(task, statusId))}
+            />
+          ))}
+        </div>
+      )}
+    </SortableContext>
+  );
+}
+
+/**
+ * Droppable group within a column - dropping here moves the task into the group
+ */
+function ColumnGroup({
+  group,
+  ...listProps
+}: Omit<TaskListProps, 'tasks'> & { group: BoardColumnGroup }) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: group.id,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      data-testid={`board-group-${group.id}`}
+      className={`rounded transition-colors ${isOver ? 'bg-teal-800/25 ring-1 ring-inset ring-teal-500/40' : ''}`}
+    >
+      <div className="flex items-center gap-1.5 px-1 py-0.5">
+        <span className="w-1.5 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: group.color }} />
+        <span className="text-[11px] font-medium text-slate-400 truncate">{group.title}</span>
+        <span className="text-[10px] text-slate-600">{group.tasks.length}</span>
+      </div>
+      <div className="min-h-[24px]">
+        <TaskList tasks={group.tasks} {...listProps} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Droppable column - whiteboard style with vertical dividers
+ * Supports collapsed state with rotated header
+ */
+export function BoardColumn({
+  columnId,
+  title,
+  tasks,
+  icon,
+  color,
+  isFirst: _isFirst,
+  isLast,
+  viewMode,
+  isCollapsed,
+  movingTaskIds,
+  onEditTask,
+  onAddTask,
+  onToggleCollapse,
+  groups,
+  wipLimit,
+  wipCount = 0,
+  isDropDisabled = false,
+  dependencyBadges,
+  onMoveToStatus,
+}: BoardColumnProps) {
+  // Grouped columns only accept drops on their groups
+  const { setNodeRef, isOver } = useDroppable({
+    id: columnId,
+    disabled: !!groups || isDropDisabled,
+  });
+  const [isHovered, setIsHovered] = useState(false);
+
+  // Collapsed column - narrow with rotated text
+  if (isCollapsed) {
+    return (
+      <div
+        ref={setNodeRef}
+        onClick={() => onToggleCollapse(columnId)}
+        className={`
+          flex flex-col items-center h-full cursor-pointer
+          transition-all duration-200 hover:bg-slate-700/30
+          ${!isLast ? 'border-r border-slate-600/40' : ''}
+        `}
+        style={{ width: 28, minWidth: 28, maxWidth: 28 }}
+        title={`${title} (${tasks.length}) - Click to expand`}
+      >
+        {/* Collapsed header with rotated text */}
+        <div
+          className="flex items-center justify-center py-2 flex-shrink-0 border-b border-slate-600/30 w-full"
+          style={{ height: 32 }}
+        >
+          <span style={{ color }} className="opacity-60">
+            {React.isValidElement(icon) ? React.cloneElement(icon as React.ReactElement<{ style?: React.CSSProperties }>, { style: { fontSize: 14 } }) : icon}
+          </span>
+        </div>
+        {/* Rotated title */}
+        <div className="flex-1 flex items-start justify-center pt-2 overflow-hidden">
+          <span
+            className="font-condensed font-medium text-xs text-slate-400 whitespace-nowrap"
+            style={{
+              writingMode: 'vertical-rl',
+              transform: 'rotate(180deg)',
+            }}
+          >
+            {title}
+            <span className="text-slate-500 ml-1">({tasks.length})</span>
+          </span>
+        </div>
+      </div>
+    );
+  }
+
+  // Expanded column
+  return (
+    <div
+      ref={setNodeRef}
+      data-testid={`board-column-${columnId}`}
+      className={`
+        flex flex-col min-h-0 h-full transition-all duration-150
+        ${!isLast ? 'border-r border-slate-600/40' : ''}
+        ${isOver ? 'bg-teal-800/25 ring-2 ring-inset ring-teal-500/40' : ''}
+        ${isDropDisabled ? 'opacity-40' : ''}
+      `}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      {/* Column header - minimal with hover actions */}
+      <div className={`flex items-center gap-2 px-2 py-1.5 flex-shrink-0 border-b group transition-colors duration-150 ${isOver ? 'bg-teal-700/30 border-teal-500/50' : 'border-slate-600/30'}`}>
+        <span style={{ color }} className="opacity-80">{icon}</span>
+        <span className="font-condensed font-medium text-sm text-slate-300">{title}</span>
+        <span className="text-xs text-slate-500">{tasks.length}</span>
+        {typeof wipLimit === 'number' && (
+          <span
+            className={`px-1 rounded text-[10px] font-medium ${
+              wipCount > wipLimit
+                ? 'bg-red-500/20 text-red-400'
+                : wipCount === wipLimit
+                  ? 'bg-amber-500/20 text-amber-400'
+                  : 'bg-slate-700/50 text-slate-400'
+            }`}
+            title={`Work-in-progress limit: ${wipCount} of ${wipLimit}`}
+            data-testid={`wip-limit-${columnId}`}
+          >
+            WIP {wipCount}/{wipLimit}
+          </span>
+        )}
+
+        {/* Hover actions */}
+        <div className={`ml-auto flex items-center gap-0.5 transition-opacity ${isHovered ? 'opacity-100' : 'opacity-0'}`}>
+          {/* Hide column button */}
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleCollapse(columnId);
+            }}
+            className="p-0.5 rounded hover:bg-slate-700/50 text-slate-500 hover:text-orange-400 transition-colors"
+            title={`Hide ${title} column`}
+          >
+            <MuiIcons.VisibilityOff style={{ fontSize: 14 }} />
+          </button>
+          {/* Add task button */}
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onAddTask(columnId);
+            }}
+            className="p-0.5 rounded hover:bg-slate-700/50 text-slate-500 hover:text-teal-400 transition-colors"
+            title={`Add task to ${title}`}
+          >
+            <MuiIcons.Add style={{ fontSize: 16 }} />
+          </button>
+        </div>
+      </div>
+
+      {/* Tasks list - scrollable */}
+      <div className="flex-1 overflow-y-auto overflow-x-hidden px-1 py-1">
+        {groups ? (
+          <div className="space-y-2">
+            {groups.map((group) => (
+              <ColumnGroup
+                key={group.id}
+                group={group}
+                viewMode={viewMode}
+                movingTaskIds={movingTaskIds}
+                onEditTask={onEditTask}
+                dependencyBadges={dependencyBadges}
+                onMoveToStatus={onMoveToStatus}
+              />
+            ))}
+          </div>
+        ) : (
+          <TaskList
+            tasks={tasks}
+            viewMode={viewMode}
+            movingTaskIds={movingTaskIds}
+            onEditTask={onEditTask}
+            dependencyBadges={dependencyBadges}
+            onMoveToStatus={onMoveToStatus}
+          />
+        )}
+
+        {tasks.length === 0 && !isOver && (
+          <div className="text-center py-4 text-slate-600 text-xs">
+            <MuiIcons.Inbox style={{ fontSize: 20, opacity: 0.4 }} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Detailed view - data table with inline editing
+ */
+export function DetailsTable({
+  tasks,
+  statuses,
+  projects,
+  tags: _tags,
+  onEditTask,
+  onUpdateTask,
+}: {
+  tasks: Task[];
+  statuses: { id: string; name: string; color: string }[];
+  projects: { id: string; name: string }[];
+  tags: { id: string; name: string }[];
+  onEditTask: (task: Task) => void;
+  onUpdateTask: (id: string, updates: Partial<Task>) => void;
+}) {
+  const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
+  const [sortField, setSortField] = useState<'title' | 'status' | 'priority' | 'project'>('title');
+  const [sortDir, setSortDir] = useState<'asc' | 'desc'>('asc');
+  const [filterProject, setFilterProject] = useState<string>('');
+  const [filterStatus, setFilterStatus] = useState<string>('');
+  const [filterPriority, setFilterPriority] = useState<string>('');
+
+  // Filter and sort tasks
+  const filteredTasks = useMemo(() => {
+    let result = [...tasks];
+
+    if (filterProject) {
+      result = result.filter(t => t.projectId === filterProject);
+    }
+    if (filterStatus) {
+      result = result.filter(t => t.statusId === filterStatus);
+    }
+    if (filterPriority) {
+      result = result.filter(t => t.priority === parseInt(filterPriority));
+    }
+
+    result.sort((a, b) => {
+      let cmp = 0;
+      switch (sortField) {
+        case 'title':
+          cmp = a.title.localeCompare(b.title);
+          break;
+        case 'status':
+          cmp = (a.statusId || '').localeCompare(b.statusId || '');
+          break;
+        case 'priority':
+          cmp = (a.priority || 99) - (b.priority || 99);
+          break;
+        case 'project':
+          cmp = (a.project?.name || '').localeCompare(b.project?.name || '');
+          break;
+      }
+      return sortDir === 'asc' ? cmp : -cmp;
+    });
+
+    return result;
+  }, [tasks, filterProject, filterStatus, filterPriority, sortField, sortDir]);
+
+  const toggleSort = (field: typeof sortField) => {
+    if (sortField === field) {
+      setSortDir(d => d === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortDir('asc');
+    }
+  };
+
+  const toggleRowSelection = (id: string) => {
+    setSelectedRows(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAllSelection = () => {
+    if (selectedRows.size === filteredTasks.length) {
+      setSelectedRows(new Set());
+    } else {
+      setSelectedRows(new Set(filteredTasks.map(t => t.id)));
+    }
+  };
+
+  const SortIcon = ({ field }: { field: typeof sortField }) => {
+    if (sortField !== field) return <MuiIcons.UnfoldMore style={{ fontSize: 14 }} className="opacity-30" />;
+    return sortDir === 'asc'
+      ? <MuiIcons.KeyboardArrowUp style={{ fontSize: 14 }} />
+      : <MuiIcons.KeyboardArrowDown style={{ fontSize: 14 }} />;
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Bulk actions bar */}
+      {selectedRows.size > 0 && (
+        <div className="flex items-center gap-2 px-2 py-1 bg-teal-900/30 border-b border-teal-700/30 text-xs">
+          <span className="text-teal-400">{selectedRows.size} selected</span>
+          <button className="text-slate-400 hover:text-white px-2 py-0.5 rounded hover:bg-slate-700/50">
+            Bulk Edit
+          </button>
+          <button
+            onClick={() => setSelectedRows(new Set())}
+            className="text-slate-500 hover:text-white ml-auto"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
+      {/* Table */}
+      <div className="flex-1 overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-slate-800/95 backdrop-blur-sm">
+            <tr className="border-b border-slate-600/30">
+              <th className="w-8 px-1 py-1.5">
+                <input
+                  type="checkbox"
+                  checked={selectedRows.size === filteredTasks.length && filteredTasks.length > 0}
+                  onChange={toggleAllSelection}
+                  className="rounded border-slate-500"
+                />
+              </th>
+              <th className="text-left px-2 py-1.5">
+                <button
+                  onClick={() => toggleSort('title')}
+                  className="flex items-center gap-1 text-slate-400 hover:text-white font-medium"
+                >
+                  Title <SortIcon field="title" />
+                </button>
+              </th>
+              <th className="text-left px-2 py-1.5 w-32">
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => toggleSort('status')}
+                    className="flex items-center gap-1 text-slate-400 hover:text-white font-medium"
+                  >
+                    Status <SortIcon field="status" />
+                  </button>
+                  <select
+                    value={filterStatus}
+                    onChange={(e) => setFilterStatus(e.target.value)}
+                    className="ml-1 bg-transparent text-xs text-slate-500 border-none focus:ring-0 p-0"
+                  >
+                    <option value="">▼</option>
+                    {statuses.map(s => (
+                      <option key={s.id} value={s.id}>{s.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </th>
+              <th className="text-left px-2 py-1.5 w-24">
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => toggleSort('priority')}
+                    className="flex items-center gap-1 text-slate-400 hover:text-white font-medium"
+                  >
+                    Priority <SortIcon field="priority" />
+                  </button>
+                  <select
+                    value={filterPriority}
+                    onChange={(e) => setFilterPriority(e.target.value)}
+                    className="ml-1 bg-transparent text-xs text-slate-500 border-none focus:ring-0 p-0"
+                  >
+                    <option value="">▼</option>
+                    <option value="1">P1</option>
+                    <option value="2">P2</option>
+                    <option value="3">P3</option>
+                    <option value="4">P4</option>
+                  </select>
+                </div>
+              </th>
+              <th className="text-left px-2 py-1.5 w-32">
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => toggleSort('project')}
+                    className="flex items-center gap-1 text-slate-400 hover:text-white font-medium"
+                  >
+                    Project <SortIcon field="project" />
+                  </button>
+                  <select
+                    value={filterProject}
+                    onChange={(e) => setFilterProject(e.target.value)}
+                    className="ml-1 bg-transparent text-xs text-slate-500 border-none focus:ring-0 p-0"
+                  >
+                    <option value="">▼</option>
+                    {projects.map(p => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </th>
+              <th className="text-left px-2 py-1.5 w-24">Tags</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filteredTasks.map((task) => {
+              const status = statuses.find(s => s.id === task.statusId);
+              return (
+                <tr
+                  key={task.id}
+                  className={`
+                    border-b border-slate-700/20 hover:bg-slate-700/20 cursor-pointer
+                    ${selectedRows.has(task.id) ? 'bg-teal-900/20' : ''}
+                  `}
+                  onClick={() => onEditTask(task)}
+                >
+                  <td className="px-1 py-1" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="checkbox"
+                      checked={selectedRows.has(task.id)}
+                      onChange={() => toggleRowSelection(task.id)}
+                      className="rounded border-slate-500"
+                    />
+                  </td>
+                  <td className="px-2 py-1">
+                    <span className={isTaskComplete(task) ? 'line-through text-slate-500' : 'text-slate-200'}>
+                      {task.title}
+                    </span>
+                  </td>
+                  <td className="px-2 py-1" onClick={(e) => e.stopPropagation()}>
+                    <select
+                      value={task.statusId || ''}
+                      onChange={(e) => onUpdateTask(task.id, { statusId: e.target.value })}
+                      className="w-full bg-transparent border-none text-xs p-0 focus:ring-0"
+                      style={{ color: status?.color || '#94a3b8' }}
+                    >
+                      {statuses.map(s => (
+                        <option key={s.id} value={s.id}>{s.name}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-2 py-1" onClick={(e) => e.stopPropagation()}>
+                    <select
+                      value={task.priority || ''}
+                      onChange={(e) => onUpdateTask(task.id, { priority: parseInt(e.target.value) || undefined })}
+                      className="w-full bg-transparent border-none text-xs p-0 focus:ring-0 text-slate-400"
+                    >
+                      <option value="">-</option>
+                      <option value="1">P1</option>
+                      <option value="2">P2</option>
+                      <option value="3">P3</option>
+                      <option value="4">P4</option>
+                    </select>
+                  </td>
+                  <td className="px-2 py-1 text-slate-400 text-xs">
+                    {task.project?.name || '-'}
+                  </td>
+                  <td className="px-2 py-1">
+                    {task.tags?.slice(0, 2).map(tag => (
+                      <span key={tag.id} className="text-[10px] px-1 py-0.5 rounded bg-slate-700/50 text-slate-400 mr-1">
+                        {tag.name}
+                      </span>
+                    ))}
+                    {(task.tags?.length || 0) > 2 && (
+                      <span className="text-[10px] text-slate-500">+{(task.tags?.length || 0) - 2}</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {filteredTasks.length === 0 && (
+          <div className="text-center py-8 text-slate-500 text-sm">
+            No tasks match filters
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,550 @@
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import {
+  DndContext,
+  DragOverlay,
+  closestCenter,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from '@dnd-kit/core';
+import toast from 'react-hot-toast';
+import * as MuiIcons from '@mui/icons-material';
+import { useTasks, useUpdateTask, useProjects, useCategories, useTags, useStatuses } from '../../api';
+import { TaskModal } from '../../widgets/WeeklyKanban/TaskModal';
+import type { Project, Task } from '../../types';
+import { BoardColumn, DetailsTable, type BoardColumnGroup, type ViewMode } from './BoardColumns';
+import { getEntityIcon } from './boardUtils';
+
+type GroupBy = 'project' | 'category';
+
+// Droppable ids are prefixed so project and category ids can't collide with task ids
+const NO_PROJECT = 'project:none';
+const NO_CATEGORY = 'category:none';
+const projectDropId = (projectId?: string | null) => (projectId ? `project:${projectId}` : NO_PROJECT);
+const categoryDropId = (categoryId?: string | null) => (categoryId ? `category:${categoryId}` : NO_CATEGORY);
+
+const DEFAULT_COLOR = '#64748b';
+
+const BOARD_CONFIG: Record<GroupBy, { title: string; icon: React.ReactNode; storageKey: string }> = {
+  project: {
+    title: 'Project Board',
+    icon: <MuiIcons.Folder className="text-teal-400" style={{ fontSize: 22 }} />,
+    storageKey: 'projectView:viewMode',
+  },
+  category: {
+    title: 'Category Board',
+    icon: <MuiIcons.Category className="text-teal-400" style={{ fontSize: 22 }} />,
+    storageKey: 'categoryView:viewMode',
+  },
+};
+
+interface BoardColumnDef {
+  id: string;
+  title: string;
+  icon: React.ReactNode;
+  color: string;
+  tasks: Task[];
+  groups?: BoardColumnGroup[];
+  projectIds: string[]; // Projects a new task in this column can default to
+}
+
+/**
+ * Grouped Board - Kanban board with a column per project or per category
+ * Uses the same column machinery and view modes as the Status Board.
+ * - Project board: dragging a task between columns updates tasks.projectId
+ * - Category board: columns group tasks by their project's categoryId, with a
+ *   droppable section per project - dropping a task on a project moves it there
+ *   (and so into that project's category)
+ */
+function GroupedBoardView({ groupBy }: { groupBy: GroupBy }) {
+  const config = BOARD_CONFIG[groupBy];
+
+  // View mode toggle - list, card, or detailed (persisted to localStorage per board)
+  const [viewMode, setViewMode] = useState<ViewMode>(() => {
+    const saved = localStorage.getItem(config.storageKey);
+    if (saved === 'list' || saved === 'card' || saved === 'detailed') {
+      return saved;
+    }
+    return 'list';
+  });
+
+  // Persist view mode changes
+  useEffect(() => {
+    localStorage.setItem(config.storageKey, viewMode);
+  }, [config.storageKey, viewMode]);
+
+  // Filter state
+  const [selectedPriority, setSelectedPriority] = useState<string>('');
+  const [selectedTag, setSelectedTag] = useState<string>('');
+  const [collapsedColumns, setCollapsedColumns] = useState<Set<string>>(new Set());
+
+  // Modal state
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [activeTask, setActiveTask] = useState<Task | null>(null);
+  const [isCreatingTask, setIsCreatingTask] = useState(false);
+  const [createProjectId, setCreateProjectId] = useState<string>('');
+
+  // Optimistic project moves - immediately show task in new column while API updates
+  const [optimisticProjectChanges, setOptimisticProjectChanges] = useState<Map<string, string | null>>(new Map());
+
+  // Set of task IDs currently being moved (for hiding spring-back animation)
+  const movingTaskIds = useMemo(() => new Set(optimisticProjectChanges.keys()), [optimisticProjectChanges]);
+
+  // Fetch data
+  const { data: tasksData, isLoading: tasksLoading } = useTasks();
+  const { data: projectsData, isLoading: projectsLoading } = useProjects();
+  const { data: categoriesData } = useCategories();
+  const { data: statusesData } = useStatuses();
+  const { data: tagsData } = useTags();
+
+  const allTasks = useMemo(() => tasksData?.data ?? [], [tasksData?.data]);
+  const projects = useMemo(
+    () => (projectsData?.data ?? []).filter((p) => !p.isDeleted),
+    [projectsData?.data]
+  );
+  const categories = useMemo(
+    () => (categoriesData?.data ?? []).filter((c) => !c.isDeleted).sort((a, b) => a.sortOrder - b.sortOrder),
+    [categoriesData?.data]
+  );
+  const workflowStatuses = useMemo(
+    () => (statusesData?.data ?? []).filter((s) => !s.isBreakout).sort((a, b) => a.sortOrder - b.sortOrder),
+    [statusesData?.data]
+  );
+  const tags = useMemo(() => tagsData?.data ?? [], [tagsData?.data]);
+
+  const updateTask = useUpdateTask();
+
+  // Configure drag sensors
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    })
+  );
+
+  // Current project of a task, taking pending drags into account
+  const getTaskProjectId = useCallback(
+    (task: Task): string | null =>
+      optimisticProjectChanges.has(task.id)
+        ? optimisticProjectChanges.get(task.id) ?? null
+        : task.projectId ?? null,
+    [optimisticProjectChanges]
+  );
+
+  // Filter tasks (child tasks are hidden - they're accessed via parent)
+  const filteredTasks = useMemo(() => {
+    let filtered = allTasks.filter((t) => !t.isDeleted && !t.parentTaskId);
+
+    if (selectedPriority) {
+      const priority = parseInt(selectedPriority, 10);
+      filtered = filtered.filter((t) => t.priority === priority);
+    }
+
+    if (selectedTag) {
+      filtered = filtered.filter((t) => t.tags?.some((tag) => tag.id === selectedTag));
+    }
+
+    // Sort by sortOrder then by creation date
+    return [...filtered].sort((a, b) => {
+      if (a.sortOrder !== b.sortOrder) {
+        return a.sortOrder - b.sortOrder;
+      }
+      return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+    });
+  }, [allTasks, selectedPriority, selectedTag]);
+
+  // Build columns (and per-project groups for the category board)
+  const columns = useMemo((): BoardColumnDef[] => {
+    const projectIds = new Set(projects.map((p) => p.id));
+    const tasksByProject = new Map<string, Task[]>();
+    for (const task of filteredTasks) {
+      const projectId = getTaskProjectId(task);
+      // Tasks whose project was deleted are treated as unassigned
+      const key = projectId && projectIds.has(projectId) ? projectDropId(projectId) : NO_PROJECT;
+      if (!tasksByProject.has(key)) tasksByProject.set(key, []);
+      tasksByProject.get(key)!.push(task);
+    }
+
+    const projectColor = (project: Project) => project.color || project.iconColor || DEFAULT_COLOR;
+    const sortedProjects = [...projects].sort((a, b) => a.name.localeCompare(b.name));
+
+    if (groupBy === 'project') {
+      return [
+        {
+          id: NO_PROJECT,
+          title: 'No Project',
+          icon: <MuiIcons.FolderOff style={{ fontSize: 16 }} />,
+          color: DEFAULT_COLOR,
+          tasks: tasksByProject.get(NO_PROJECT) ?? [],
+          projectIds: [],
+        },
+        ...sortedProjects.map((project) => ({
+          id: projectDropId(project.id),
+          title: project.name,
+          icon: getEntityIcon(project.icon, <MuiIcons.Folder style={{ fontSize: 16 }} />),
+          color: projectColor(project),
+          tasks: tasksByProject.get(projectDropId(project.id)) ?? [],
+          projectIds: [project.id],
+        })),
+      ];
+    }
+
+    // Category board - one group per project, plus "No Project" under Uncategorized
+    const categoryIds = new Set(categories.map((c) => c.id));
+    const buildColumn = (
+      id: string,
+      title: string,
+      icon: React.ReactNode,
+      color: string,
+      columnProjects: Project[],
+      includeNoProject: boolean
+    ): BoardColumnDef => {
+      const groups: BoardColumnGroup[] = columnProjects.map((project) => ({
+        id: projectDropId(project.id),
+        title: project.name,
+        color: projectColor(project),
+        tasks: tasksByProject.get(projectDropId(project.id)) ?? [],
+      }));
+      if (includeNoProject) {
+        groups.push({
+          id: NO_PROJECT,
+          title: 'No Project',
+          color: DEFAULT_COLOR,
+          tasks: tasksByProject.get(NO_PROJECT) ?? [],
+        });
+      }
+      return {
+        id,
+        title,
+        icon,
+        color,
+        groups,
+        tasks: groups.flatMap((group) => group.tasks),
+        projectIds: columnProjects.map((p) => p.id),
+      };
+    };
+
+    return [
+      buildColumn(
+        NO_CATEGORY,
+        'Uncategorized',
+        <MuiIcons.LabelOff style={{ fontSize: 16 }} />,
+        DEFAULT_COLOR,
+        sortedProjects.filter((p) => !p.categoryId || !categoryIds.has(p.categoryId)),
+        true
+      ),
+      ...categories.map((category) =>
+        buildColumn(
+          categoryDropId(category.id),
+          category.name,
+          getEntityIcon(category.icon, <MuiIcons.Label style={{ fontSize: 16 }} />),
+          category.iconColor || DEFAULT_COLOR,
+          sortedProjects.filter((p) => p.categoryId === category.id),
+          false
+        )
+      ),
+    ];
+  }, [groupBy, projects, categories, filteredTasks, getTaskProjectId]);
+
+  // Handler for adding a new task in a specific column
+  const handleAddTask = useCallback((columnId: string) => {
+    const column = columns.find((c) => c.id === columnId);
+    // Only preselect a project when the column maps to exactly one
+    setCreateProjectId(column?.projectIds.length === 1 ? column.projectIds[0] : '');
+    setIsCreatingTask(true);
+  }, [columns]);
+
+  // Handler for closing the create modal
+  const handleCloseCreateModal = useCallback(() => {
+    setIsCreatingTask(false);
+    setCreateProjectId('');
+  }, []);
+
+  const handleDragStart = useCallback(
+    (event: DragStartEvent) => {
+      const task = allTasks.find((t) => t.id === event.active.id);
+      if (task) {
+        setActiveTask(task);
+      }
+    },
+    [allTasks]
+  );
+
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      const { active, over } = event;
+      setActiveTask(null);
+
+      if (!over) return;
+
+      const taskId = active.id as string;
+      const overId = over.id as string;
+      const task = allTasks.find((t) => t.id === taskId);
+      if (!task) return;
+
+      // Resolve the target project from a project column/group, or the task dropped on
+      let targetDropId: string | undefined;
+      if (overId.startsWith('project:')) {
+        targetDropId = overId;
+      } else {
+        const overTask = allTasks.find((t) => t.id === overId);
+        if (overTask) {
+          targetDropId = projectDropId(getTaskProjectId(overTask));
+        }
+      }
+
+      if (!targetDropId) return;
+
+      const targetProjectId = targetDropId === NO_PROJECT ? null : targetDropId.slice('project:'.length);
+      if (getTaskProjectId(task) === targetProjectId) return;
+
+      // Set optimistic update IMMEDIATELY for instant visual feedback
+      setOptimisticProjectChanges((prev) => new Map(prev).set(taskId, targetProjectId));
+
+      updateTask.mutate({ id: taskId, projectId: targetProjectId }, {
+        onError: () => {
+          toast.error('Failed to move task');
+        },
+        onSettled: () => {
+          // Clear optimistic update when mutation completes (success or error)
+          setOptimisticProjectChanges((prev) => {
+            const next = new Map(prev);
+            next.delete(taskId);
+            return next;
+          });
+        },
+      });
+    },
+    [allTasks, updateTask, getTaskProjectId]
+  );
+
+  const handleUpdateTask = useCallback((id: string, updates: Partial<Task>) => {
+    updateTask.mutate({ id, ...updates });
+  }, [updateTask]);
+
+  const toggleCollapseColumn = useCallback((columnId: string) => {
+    setCollapsedColumns((prev) => {
+      const next = new Set(prev);
+      if (next.has(columnId)) {
+        next.delete(columnId);
+      } else {
+        next.add(columnId);
+      }
+      return next;
+    });
+  }, []);
+
+  const clearFilters = useCallback(() => {
+    setSelectedPriority('');
+    setSelectedTag('');
+  }, []);
+
+  const hasActiveFilters = selectedPriority || selectedTag;
+
+  if (tasksLoading || projectsLoading) {
+    return (
+      <div className="flex items-center justify-center h-full text-slate-400">
+        <MuiIcons.Sync className="animate-spin mr-2" />
+        <span>Loading...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden" data-testid={`${groupBy}-board`}>
+      {/* Row 1: Board Header */}
+      <div className="flex-shrink-0 px-3 py-2 border-b border-slate-700/50 bg-slate-800/30">
+        <div className="flex items-center gap-3">
+          {config.icon}
+          <span className="font-condensed font-semibold text-lg text-slate-200">{config.title}</span>
+          <span className="text-sm text-slate-500">{filteredTasks.length} tasks</span>
+
+          <div className="flex-1" />
+
+          {/* Add Task button */}
+          <button
+            onClick={() => handleAddTask('')}
+            className="flex items-center gap-1 px-3 py-1.5 bg-teal-600 hover:bg-teal-500 text-white text-sm font-medium rounded transition-colors"
+          >
+            <MuiIcons.Add style={{ fontSize: 16 }} />
+            Add Task
+          </button>
+        </div>
+      </div>
+
+      {/* Row 2: View Options */}
+      <div className="flex-shrink-0 px-3 py-1.5 border-b border-slate-700/30">
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-slate-500 font-medium">VIEW</span>
+          <div className="flex items-center bg-slate-800/50 rounded p-0.5">
+            <button
+              onClick={() => setViewMode('list')}
+              className={`flex items-center gap-1 px-2 py-1 rounded text-xs font-medium transition-colors ${
+                viewMode === 'list'
+                  ? 'bg-slate-700 text-white'
+                  : 'text-slate-400 hover:text-white'
+              }`}
+            >
+              <MuiIcons.ViewList style={{ fontSize: 14 }} />
+              List
+            </button>
+            <button
+              onClick={() => setViewMode('card')}
+              className={`flex items-center gap-1 px-2 py-1 rounded text-xs font-medium transition-colors ${
+                viewMode === 'card'
+                  ? 'bg-slate-700 text-white'
+                  : 'text-slate-400 hover:text-white'
+              }`}
+            >
+              <MuiIcons.ViewAgenda style={{ fontSize: 14 }} />
+              Card
+            </button>
+            <button
+              onClick={() => setViewMode('detailed')}
+              className={`flex items-center gap-1 px-2 py-1 rounded text-xs font-medium transition-colors ${
+                viewMode === 'detailed'
+                  ? 'bg-slate-700 text-white'
+                  : 'text-slate-400 hover:text-white'
+              }`}
+            >
+              <MuiIcons.TableRows style={{ fontSize: 14 }} />
+              Detailed
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Row 3: Filters */}
+      <div className="flex-shrink-0 px-3 py-1.5 border-b border-slate-700/30 bg-slate-800/20">
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-slate-500 font-medium">FILTER</span>
+
+          <select
+            value={selectedPriority}
+            onChange={(e) => setSelectedPriority(e.target.value)}
+            className="bg-slate-800/50 border border-slate-700/50 rounded px-2 py-1 text-xs text-slate-300 focus:ring-1 focus:ring-teal-500/50 focus:border-teal-500/50"
+          >
+            <option value="">All Priorities</option>
+            <option value="1">P1 - Critical</option>
+            <option value="2">P2 - High</option>
+            <option value="3">P3 - Normal</option>
+            <option value="4">P4 - Low</option>
+          </select>
+
+          <select
+            value={selectedTag}
+            onChange={(e) => setSelectedTag(e.target.value)}
+            className="bg-slate-800/50 border border-slate-700/50 rounded px-2 py-1 text-xs text-slate-300 focus:ring-1 focus:ring-teal-500/50 focus:border-teal-500/50"
+          >
+            <option value="">All Tags</option>
+            {tags.map((tag) => (
+              <option key={tag.id} value={tag.id}>{tag.name}</option>
+            ))}
+          </select>
+
+          {hasActiveFilters && (
+            <button
+              onClick={clearFilters}
+              className="flex items-center gap-1 text-slate-500 hover:text-white text-xs px-2 py-1 rounded hover:bg-slate-700/50"
+            >
+              <MuiIcons.Clear style={{ fontSize: 12 }} />
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Content area - fills remaining space */}
+      <div className="flex-1 min-h-0 overflow-hidden">
+        {viewMode === 'detailed' ? (
+          <DetailsTable
+            tasks={filteredTasks}
+            statuses={workflowStatuses}
+            projects={projects}
+            tags={tags}
+            onEditTask={setEditingTask}
+            onUpdateTask={handleUpdateTask}
+          />
+        ) : (
+          <DndContext
+            sensors={sensors}
+            collisionDetection={closestCenter}
+            onDragStart={handleDragStart}
+            onDragEnd={handleDragEnd}
+          >
+            <div className="h-full flex overflow-x-auto">
+              {columns.map((column, index) => {
+                const isCollapsed = collapsedColumns.has(column.id);
+                return (
+                  <div
+                    key={column.id}
+                    className={`h-full ${isCollapsed ? '' : 'flex-1 min-w-0'}`}
+                    style={isCollapsed ? { width: 28 } : { minWidth: 180 }}
+                  >
+                    <BoardColumn
+                      columnId={column.id}
+                      title={column.title}
+                      tasks={column.tasks}
+                      groups={column.groups}
+                      icon={column.icon}
+                      color={column.color}
+                      isFirst={index === 0}
+                      isLast={index === columns.length - 1}
+                      viewMode={viewMode}
+                      isCollapsed={isCollapsed}
+                      movingTaskIds={movingTaskIds}
+                      onEditTask={setEditingTask}
+                      onAddTask={handleAddTask}
+                      onToggleCollapse={toggleCollapseColumn}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Drag overlay */}
+            <DragOverlay>
+              {activeTask ? (
+                <div className="bg-slate-800 rounded px-2 py-1 shadow-lg border border-teal-500/50">
+                  <span className="text-sm text-white">{activeTask.title}</span>
+                </div>
+              ) : null}
+            </DragOverlay>
+          </DndContext>
+        )}
+      </div>
+
+      {/* Task edit modal */}
+      {editingTask && (
+        <TaskModal task={editingTask} onClose={() => setEditingTask(null)} />
+      )}
+
+      {/* Task create modal */}
+      {isCreatingTask && (
+        <TaskModal
+          defaultProjectId={createProjectId}
+          onClose={handleCloseCreateModal}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Project View - Kanban board with a column per project
+ */
+export function ProjectView() {
+  return <GroupedBoardView groupBy="project" />;
+}
+
+/**
+ * Category View - Kanban board with a column per category, grouped by project
+ */
+export function CategoryView() {
+  return <GroupedBoardView groupBy="category" />;
+}
+
+export default ProjectView;
@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import {
   DndContext,
   DragOverlay,
@@ -6,765 +6,28 @@ import {
   PointerSensor,
   useSensor,
   useSensors,
-  useDroppable,
   type DragEndEvent,
   type DragStartEvent,
 } from '@dnd-kit/core';
-import {
-  SortableContext,
-  verticalListSortingStrategy,
-  useSortable,
-} from '@dnd-kit/sortable';
-import { CSS } from '@dnd-kit/utilities';
-import { format, isPast, parseISO, addDays, isWithinInterval, startOfDay } from 'date-fns';
 import * as MuiIcons from '@mui/icons-material';
-import { useTasks, useUpdateTask, useProjects, useTags, useStatuses } from '../../api';
+import toast from 'react-hot-toast';
+import {
+  useTasks,
+  useUpdateTask,
+  useProjects,
+  useTags,
+  useStatuses,
+  useTaskDependencies,
+  canTransitionStatus,
+  isTaskComplete,
+  suggestBlockedStatus,
+  summarizeDependencies,
+} from '../../api';
 import { TaskModal } from '../../widgets/WeeklyKanban/TaskModal';
+import { DependencyArrows, type DependencyEdge } from '../../components/DependencyArrows';
 import type { Task } from '../../types';
-
-// Three view modes: list (compact), card (enhanced), detailed (table)
-type ViewMode = 'list' | 'card' | 'detailed';
-
-interface StatusColumnProps {
-  statusId: string;
-  title: string;
-  tasks: Task[];
-  icon: React.ReactNode;
-  color: string;
-  isFirst: boolean;
-  isLast: boolean;
-  viewMode: ViewMode;
-  isCollapsed: boolean;
-  movingTaskIds: Set<string>;
-  onEditTask: (task: Task) => void;
-  onAddTask: (statusId: string) => void;
-  onToggleCollapse: (statusId: string) => void;
-}
-
-/**
- * List view - compact task row (minimal whiteboard style)
- * Draggable with hover actions (drag handles on both sides + edit button)
- */
-function ListTaskRow({
-  task,
-  onEdit,
-  isBeingMoved,
-}: {
-  task: Task;
-  onEdit: () => void;
-  isBeingMoved?: boolean;
-}) {
-  const [isHovered, setIsHovered] = useState(false);
-  const isComplete = task.status === 'complete';
-  const projectColor = task.project?.color || task.project?.iconColor || '#6366f1';
-
-  const {
-    attributes,
-    listeners,
-    setNodeRef,
-    transform,
-    transition,
-    isDragging,
-  } = useSortable({ id: task.id });
-
-  const style = {
-    transform: CSS.Transform.toString(transform),
-    // Disable transition when task is being moved to prevent spring-back animation
-    transition: isBeingMoved ? 'none' : transition,
-    // Hide completely when being moved optimistically (it will appear in the new column)
-    opacity: isDragging ? 0.5 : isBeingMoved ? 0 : 1,
-    // Prevent layout shift when hidden
-    visibility: isBeingMoved ? 'hidden' as const : 'visible' as const,
-  };
-
-  // Drag handle component - reused on both sides
-  const DragHandle = (
-    <div
-      {...attributes}
-      {...listeners}
-      className={`
-        flex-shrink-0 cursor-grab active:cursor-grabbing transition-opacity
-        ${isHovered ? 'opacity-100' : 'opacity-0'}
-      `}
-      title="Drag to move"
-    >
-      <MuiIcons.DragIndicator style={{ fontSize: 14 }} className="text-slate-500 hover:text-slate-300" />
-    </div>
-  );
-
-  return (
-    <div
-      ref={setNodeRef}
-      style={style}
-      className={`
-        flex items-center gap-1 py-1 px-1 rounded transition-colors group
-        hover:bg-slate-700/30
-        ${isComplete ? 'opacity-60' : ''}
-        ${isDragging ? 'z-50' : ''}
-      `}
-      onMouseEnter={() => setIsHovered(true)}
-      onMouseLeave={() => setIsHovered(false)}
-    >
-      {/* Left drag handle */}
-      {DragHandle}
-
-      {/* Checkbox indicator */}
-      <div
-        className={`
-          w-3 h-3 rounded-sm border flex-shrink-0
-          ${isComplete
-            ? 'bg-emerald-500 border-emerald-500'
-            : 'border-slate-500'
-          }
-        `}
-      />
-      {/* Project indicator */}
-      {task.project && (
-        <div
-          className="w-1.5 h-4 rounded-sm flex-shrink-0"
-          style={{ backgroundColor: projectColor }}
-        />
-      )}
-      {/* Title - clickable area */}
-      <span
-        onClick={onEdit}
-        className={`flex-1 text-sm truncate cursor-pointer ${isComplete ? 'line-through text-slate-500' : 'text-slate-200'}`}
-        title={task.title}
-      >
-        {task.title}
-      </span>
-      {/* Child count badge */}
-      {task.children && task.children.length > 0 && (
-        <span
-          className="text-[10px] px-1 rounded flex-shrink-0 bg-slate-600/50 text-slate-400"
-          title={`${task.children.length} subtask${task.children.length > 1 ? 's' : ''}`}
-        >
-          <MuiIcons.AccountTree style={{ fontSize: 10, marginRight: 2 }} />
-          {task.children.length}
-        </span>
-      )}
-      {/* Priority badge */}
-      {task.priority && task.priority <= 2 && (
-        <span className={`text-[10px] px-1 rounded flex-shrink-0 ${
-          task.priority === 1 ? 'bg-red-500/20 text-red-400' : 'bg-orange-500/20 text-orange-400'
-        }`}>
-          P{task.priority}
-        </span>
-      )}
-      {/* Edit button - appears on hover */}
-      <button
-        onClick={(e) => {
-          e.stopPropagation();
-          onEdit();
-        }}
-        className={`
-          flex-shrink-0 p-0.5 rounded hover:bg-slate-600/50 transition-opacity
-          ${isHovered ? 'opacity-100' : 'opacity-0'}
-        `}
-        title="Edit task"
-      >
-        <MuiIcons.Edit style={{ fontSize: 12 }} className="text-slate-400 hover:text-teal-400" />
-      </button>
-
-      {/* Right drag handle */}
-      {DragHandle}
-    </div>
-  );
-}
-
-/**
- * Card view - enhanced task card with more details
- * Shows: title, planned date, project/notes/overdue icons, priority, tags
- */
-function CardTaskRow({
-  task,
-  onEdit,
-  isBeingMoved,
-}: {
-  task: Task;
-  onEdit: () => void;
-  isBeingMoved?: boolean;
-}) {
-  const [isHovered, setIsHovered] = useState(false);
-  const isComplete = task.status === 'complete';
-  const projectColor = task.project?.color || task.project?.iconColor || '#6366f1';
-
-  // Check if task is overdue
-  const isOverdue = task.plannedDate && !isComplete && isPast(parseISO(task.plannedDate + 'T23:59:59'));
-  const hasDescription = !!task.description;
-
-  const {
-    attributes,
-    listeners,
-    setNodeRef,
-    transform,
-    transition,
-    isDragging,
-  } = useSortable({ id: task.id });
-
-  const style = {
-    transform: CSS.Transform.toString(transform),
-    // Disable transition when task is being moved to prevent spring-back animation
-    transition: isBeingMoved ? 'none' : transition,
-    // Hide completely when being moved optimistically
-    opacity: isDragging ? 0.5 : isBeingMoved ? 0 : 1,
-    visibility: isBeingMoved ? 'hidden' as const : 'visible' as const,
-  };
-
-  return (
-    <div
-      ref={setNodeRef}
-      style={style}
-      className={`
-        relative rounded-lg border transition-all cursor-pointer
-        ${isComplete
-          ? 'border-slate-700/50 bg-slate-800/30 opacity-60'
-          : 'border-slate-600/50 bg-slate-800/50 hover:border-slate-500/70 hover:bg-slate-700/50'
-        }
-        ${isDragging ? 'z-50 shadow-lg' : ''}
-        ${isOverdue ? 'border-l-2 border-l-red-500' : ''}
-      `}
-      onMouseEnter={() => setIsHovered(true)}
-      onMouseLeave={() => setIsHovered(false)}
-      onClick={onEdit}
-    >
-      {/* Main content - single row with checkbox and title inline */}
-      <div className="relative py-1.5 pl-2.5 pr-1.5">
-        {/* Drag handle - absolutely positioned, appears on hover */}
-        <div
-          {...attributes}
-          {...listeners}
-          onClick={(e) => e.stopPropagation()}
-          className={`absolute left-0 top-1/2 -translate-y-1/2 cursor-grab active:cursor-grabbing transition-opacity ${isHovered ? 'opacity-100' : 'opacity-0'}`}
-          title="Drag to move"
-        >
-          <MuiIcons.DragIndicator style={{ fontSize: 14 }} className="text-slate-500 hover:text-slate-300" />
-        </div>
-
-        {/* First row: checkbox, title, indicators, edit button - all inline */}
-        <div className="flex items-center gap-1.5 min-w-0">
-          {/* Checkbox - 3.5 = 14px */}
-          <div
-            className={`w-3.5 h-3.5 rounded-sm border flex-shrink-0 ${isComplete ? 'bg-emerald-500 border-emerald-500' : 'border-slate-500'}`}
-          />
-
-          {/* Title - directly after checkbox, truncates on overflow */}
-          <span
-            className={`text-sm leading-tight flex-1 min-w-0 overflow-hidden text-ellipsis whitespace-nowrap ${isComplete ? 'line-through text-slate-500' : 'text-slate-200'}`}
-            title={task.title}
-          >
-            {task.title}
-          </span>
-
-          {/* Inline indicators - project, notes, due date, overdue */}
-          {task.project && (
-            <div
-              className="w-2 h-2 rounded-full flex-shrink-0"
-              style={{ backgroundColor: projectColor }}
-              title={task.project.name}
-            />
-          )}
-          {hasDescription && (
-            <MuiIcons.Notes style={{ fontSize: 11 }} className="text-slate-500 flex-shrink-0" titleAccess="Has notes" />
-          )}
-          {task.plannedDate && !isOverdue && (
-            <MuiIcons.Alarm style={{ fontSize: 11 }} className="text-amber-400 flex-shrink-0" titleAccess="Has due date" />
-          )}
-          {isOverdue && (
-            <MuiIcons.Warning style={{ fontSize: 11 }} className="text-red-400 flex-shrink-0" titleAccess="Overdue" />
-          )}
-          {/* Child count badge */}
-          {task.children && task.children.length > 0 && (
-            <span
-              className="text-[10px] px-1 rounded flex-shrink-0 bg-slate-600/50 text-slate-400"
-              title={`${task.children.length} subtask${task.children.length > 1 ? 's' : ''}`}
-            >
-              <MuiIcons.AccountTree style={{ fontSize: 10, marginRight: 2 }} />
-              {task.children.length}
-            </span>
-          )}
-
-          {/* Edit button - appears on hover */}
-          <button
-            onClick={(e) => {
-              e.stopPropagation();
-              onEdit();
-            }}
-            className={`flex-shrink-0 p-0.5 rounded hover:bg-slate-600/50 transition-opacity ${isHovered ? 'opacity-100' : 'opacity-0'}`}
-            title="Edit task"
-          >
-            <MuiIcons.Edit style={{ fontSize: 12 }} className="text-slate-400 hover:text-teal-400" />
-          </button>
-        </div>
-
-        {/* Second row: priority, date, tags - only if present */}
-        {(task.plannedDate || (task.priority && task.priority <= 3) || (task.tags && task.tags.length > 0)) && (
-          <div className="flex items-center gap-1.5 mt-1 ml-5 flex-wrap">
-            {task.priority && task.priority <= 3 && (
-              <span className={`text-[10px] px-1 rounded ${
-                task.priority === 1 ? 'bg-red-500/20 text-red-400' :
-                task.priority === 2 ? 'bg-orange-500/20 text-orange-400' :
-                'bg-yellow-500/20 text-yellow-400'
-              }`}>
-                P{task.priority}
-              </span>
-            )}
-            {task.plannedDate && (
-              <span className={`text-[10px] ${isOverdue ? 'text-red-400' : 'text-slate-500'}`}>
-                <MuiIcons.CalendarToday style={{ fontSize: 10 }} className="mr-0.5 -mt-0.5" />
-                {format(parseISO(task.plannedDate), 'MMM d')}
-              </span>
-            )}
-            {task.tags?.slice(0, 2).map(tag => (
-              <span key={tag.id} className="text-[10px] px-1 py-0.5 rounded bg-slate-700/50 text-slate-400">
-                {tag.name}
-              </span>
-            ))}
-            {(task.tags?.length || 0) > 2 && (
-              <span className="text-[10px] text-slate-500">+{(task.tags?.length || 0) - 2}</span>
-            )}
-          </div>
-        )}
-      </div>
-    </div>
-  );
-}
-
-/**
- * Droppable column - whiteboard style with vertical dividers
- * Supports collapsed state with rotated header
- */
-function StatusColumn({
-  statusId,
-  title,
-  tasks,
-  icon,
-  color,
-  isFirst: _isFirst,
-  isLast,
-  viewMode,
-  isCollapsed,
-  movingTaskIds,
-  onEditTask,
-  onAddTask,
-  onToggleCollapse,
-}: StatusColumnProps) {
-  const { setNodeRef, isOver } = useDroppable({
-    id: statusId,
-  });
-  const [isHovered, setIsHovered] = useState(false);
-
-  // Collapsed column - narrow with rotated text
-  if (isCollapsed) {
-    return (
-      <div
-        ref={setNodeRef}
-        onClick={() => onToggleCollapse(statusId)}
-        className={`
-          flex flex-col items-center h-full cursor-pointer
-          transition-all duration-200 hover:bg-slate-700/30
-          ${!isLast ? 'border-r border-slate-600/40' : ''}
-        `}
-        style={{ width: 28, minWidth: 28, maxWidth: 28 }}
-        title={`${title} (${tasks.length}) - Click to expand`}
-      >
-        {/* Collapsed header with rotated text */}
-        <div
-          className="flex items-center justify-center py-2 flex-shrink-0 border-b border-slate-600/30 w-full"
-          style={{ height: 32 }}
-        >
-          <span style={{ color }} className="opacity-60">
-            {React.isValidElement(icon) ? React.cloneElement(icon as React.ReactElement<{ style?: React.CSSProperties }>, { style: { fontSize: 14 } }) : icon}
-          </span>
-        </div>
-        {/* Rotated title */}
-        <div className="flex-1 flex items-start justify-center pt-2 overflow-hidden">
-          <span
-            className="font-condensed font-medium text-xs text-slate-400 whitespace-nowrap"
-            style={{
-              writingMode: 'vertical-rl',
-              transform: 'rotate(180deg)',
-            }}
-          >
-            {title}
-            <span className="text-slate-500 ml-1">({tasks.length})</span>
-          </span>
-        </div>
-      </div>
-    );
-  }
-
-  // Expanded column
-  return (
-    <div
-      ref={setNodeRef}
-      className={`
-        flex flex-col min-h-0 h-full transition-all duration-150
-        ${!isLast ? 'border-r border-slate-600/40' : ''}
-        ${isOver ? 'bg-teal-800/25 ring-2 ring-inset ring-teal-500/40' : ''}
-      `}
-      onMouseEnter={() => setIsHovered(true)}
-      onMouseLeave={() => setIsHovered(false)}
-    >
-      {/* Column header - minimal with hover actions */}
-      <div className={`flex items-center gap-2 px-2 py-1.5 flex-shrink-0 border-b group transition-colors duration-150 ${isOver ? 'bg-teal-700/30 border-teal-500/50' : 'border-slate-600/30'}`}>
-        <span style={{ color }} className="opacity-80">{icon}</span>
-        <span className="font-condensed font-medium text-sm text-slate-300">{title}</span>
-        <span className="text-xs text-slate-500">{tasks.length}</span>
-
-        {/* Hover actions */}
-        <div className={`ml-auto flex items-center gap-0.5 transition-opacity ${isHovered ? 'opacity-100' : 'opacity-0'}`}>
-          {/* Hide column button */}
-          <button
-            onClick={(e) => {
-              e.stopPropagation();
-              onToggleCollapse(statusId);
-            }}
-            className="p-0.5 rounded hover:bg-slate-700/50 text-slate-500 hover:text-orange-400 transition-colors"
-            title={`Hide ${title} column`}
-          >
-            <MuiIcons.VisibilityOff style={{ fontSize: 14 }} />
-          </button>
-          {/* Add task button */}
-          <button
-            onClick={(e) => {
-              e.stopPropagation();
-              onAddTask(statusId);
-            }}
-            className="p-0.5 rounded hover:bg-slate-700/50 text-slate-500 hover:text-teal-400 transition-colors"
-            title={`Add task to ${title}`}
-          >
-            <MuiIcons.Add style={{ fontSize: 16 }} />
-          </button>
-        </div>
-      </div>
-
-      {/* Tasks list - scrollable */}
-      <div className="flex-1 overflow-y-auto overflow-x-hidden px-1 py-1">
-        <SortableContext
-          items={tasks.map((t) => t.id)}
-          strategy={verticalListSortingStrategy}
-        >
-          {viewMode === 'list' ? (
-            // Compact list view
-            <div className="space-y-0.5">
-              {tasks.map((task) => (
-                <ListTaskRow
-                  key={task.id}
-                  task={task}
-                  onEdit={() => onEditTask(task)}
-                  isBeingMoved={movingTaskIds.has(task.id)}
-                />
-              ))}
-            </div>
-          ) : (
-            // Card view with enhanced details
-            <div className="space-y-1.5">
-              {tasks.map((task) => (
-                <CardTaskRow
-                  key={task.id}
-                  task={task}
-                  onEdit={() => onEditTask(task)}
-                  isBeingMoved={movingTaskIds.has(task.id)}
-                />
-              ))}
-            </div>
-          )}
-        </SortableContext>
-
-        {tasks.length === 0 && !isOver && (
-          <div className="text-center py-4 text-slate-600 text-xs">
-            <MuiIcons.Inbox style={{ fontSize: 20, opacity: 0.4 }} />
-          </div>
-        )}
-      </div>
-    </div>
-  );
-}
-
-/**
- * Detailed view - data table with inline editing
- */
-function DetailsTable({
-  tasks,
-  statuses,
-  projects,
-  tags: _tags,
-  onEditTask,
-  onUpdateTask,
-}: {
-  tasks: Task[];
-  statuses: { id: string; name: string; color: string }[];
-  projects: { id: string; name: string }[];
-  tags: { id: string; name: string }[];
-  onEditTask: (task: Task) => void;
-  onUpdateTask: (id: string, updates: Partial<Task>) => void;
-}) {
-  const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
-  const [sortField, setSortField] = useState<'title' | 'status' | 'priority' | 'project'>('title');
-  const [sortDir, setSortDir] = useState<'asc' | 'desc'>('asc');
-  const [filterProject, setFilterProject] = useState<string>('');
-  const [filterStatus, setFilterStatus] = useState<string>('');
-  const [filterPriority, setFilterPriority] = useState<string>('');
-
-  // Filter and sort tasks
-  const filteredTasks = useMemo(() => {
-    let result = [...tasks];
-
-    if (filterProject) {
-      result = result.filter(t => t.projectId === filterProject);
-    }
-    if (filterStatus) {
-      result = result.filter(t => t.statusId === filterStatus);
-    }
-    if (filterPriority) {
-      result = result.filter(t => t.priority === parseInt(filterPriority));
-    }
-
-    result.sort((a, b) => {
-      let cmp = 0;
-      switch (sortField) {
-        case 'title':
-          cmp = a.title.localeCompare(b.title);
-          break;
-        case 'status':
-          cmp = (a.statusId || '').localeCompare(b.statusId || '');
-          break;
-        case 'priority':
-          cmp = (a.priority || 99) - (b.priority || 99);
-          break;
-        case 'project':
-          cmp = (a.project?.name || '').localeCompare(b.project?.name || '');
-          break;
-      }
-      return sortDir === 'asc' ? cmp : -cmp;
-    });
-
-    return result;
-  }, [tasks, filterProject, filterStatus, filterPriority, sortField, sortDir]);
-
-  const toggleSort = (field: typeof sortField) => {
-    if (sortField === field) {
-      setSortDir(d => d === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortField(field);
-      setSortDir('asc');
-    }
-  };
-
-  const toggleRowSelection = (id: string) => {
-    setSelectedRows(prev => {
-      const next = new Set(prev);
-      if (next.has(id)) next.delete(id);
-      else next.add(id);
-      return next;
-    });
-  };
-
-  const toggleAllSelection = () => {
-    if (selectedRows.size === filteredTasks.length) {
-      setSelectedRows(new Set());
-    } else {
-      setSelectedRows(new Set(filteredTasks.map(t => t.id)));
-    }
-  };
-
-  const SortIcon = ({ field }: { field: typeof sortField }) => {
-    if (sortField !== field) return <MuiIcons.UnfoldMore style={{ fontSize: 14 }} className="opacity-30" />;
-    return sortDir === 'asc'
-      ? <MuiIcons.KeyboardArrowUp style={{ fontSize: 14 }} />
-      : <MuiIcons.KeyboardArrowDown style={{ fontSize: 14 }} />;
-  };
-
-  return (
-    <div className="h-full flex flex-col">
-      {/* Bulk actions bar */}
-      {selectedRows.size > 0 && (
-        <div className="flex items-center gap-2 px-2 py-1 bg-teal-900/30 border-b border-teal-700/30 text-xs">
-          <span className="text-teal-400">{selectedRows.size} selected</span>
-          <button className="text-slate-400 hover:text-white px-2 py-0.5 rounded hover:bg-slate-700/50">
-            Bulk Edit
-          </button>
-          <button
-            onClick={() => setSelectedRows(new Set())}
-            className="text-slate-500 hover:text-white ml-auto"
-          >
-            Clear
-          </button>
-        </div>
-      )}
-
-      {/* Table */}
-      <div className="flex-1 overflow-auto">
-        <table className="w-full text-sm">
-          <thead className="sticky top-0 bg-slate-800/95 backdrop-blur-sm">
-            <tr className="border-b border-slate-600/30">
-              <th className="w-8 px-1 py-1.5">
-                <input
-                  type="checkbox"
-                  checked={selectedRows.size === filteredTasks.length && filteredTasks.length > 0}
-                  onChange={toggleAllSelection}
-                  className="rounded border-slate-500"
-                />
-              </th>
-              <th className="text-left px-2 py-1.5">
-                <button
-                  onClick={() => toggleSort('title')}
-                  className="flex items-center gap-1 text-slate-400 hover:text-white font-medium"
-                >
-                  Title <SortIcon field="title" />
-                </button>
-              </th>
-              <th className="text-left px-2 py-1.5 w-32">
-                <div className="flex items-center gap-1">
-                  <button
-                    onClick={() => toggleSort('status')}
-                    className="flex items-center gap-1 text-slate-400 hover:text-white font-medium"
-                  >
-                    Status <SortIcon field="status" />
-                  </button>
-                  <select
-                    value={filterStatus}
-                    onChange={(e) => setFilterStatus(e.target.value)}
-                    className="ml-1 bg-transparent text-xs text-slate-500 border-none focus:ring-0 p-0"
-                  >
-                    <option value="">▼</option>
-                    {statuses.map(s => (
-                      <option key={s.id} value={s.id}>{s.name}</option>
-                    ))}
-                  </select>
-                </div>
-              </th>
-              <th className="text-left px-2 py-1.5 w-24">
-                <div className="flex items-center gap-1">
-                  <button
-                    onClick={() => toggleSort('priority')}
-                    className="flex items-center gap-1 text-slate-400 hover:text-white font-medium"
-                  >
-                    Priority <SortIcon field="priority" />
-                  </button>
-                  <select
-                    value={filterPriority}
-                    onChange={(e) => setFilterPriority(e.target.value)}
-                    className="ml-1 bg-transparent text-xs text-slate-500 border-none focus:ring-0 p-0"
-                  >
-                    <option value="">▼</option>
-                    <option value="1">P1</option>
-                    <option value="2">P2</option>
-                    <option value="3">P3</option>
-                    <option value="4">P4</option>
-                  </select>
-                </div>
-              </th>
-              <th className="text-left px-2 py-1.5 w-32">
-                <div className="flex items-center gap-1">
-                  <button
-                    onClick={() => toggleSort('project')}
-                    className="flex items-center gap-1 text-slate-400 hover:text-white font-medium"
-                  >
-                    Project <SortIcon field="project" />
-                  </button>
-                  <select
-                    value={filterProject}
-                    onChange={(e) => setFilterProject(e.target.value)}
-                    className="ml-1 bg-transparent text-xs text-slate-500 border-none focus:ring-0 p-0"
-                  >
-                    <option value="">▼</option>
-                    {projects.map(p => (
-                      <option key={p.id} value={p.id}>{p.name}</option>
-                    ))}
-                  </select>
-                </div>
-              </th>
-              <th className="text-left px-2 py-1.5 w-24">Tags</th>
-            </tr>
-          </thead>
-          <tbody>
-            {filteredTasks.map((task) => {
-              const status = statuses.find(s => s.id === task.statusId);
-              return (
-                <tr
-                  key={task.id}
-                  className={`
-                    border-b border-slate-700/20 hover:bg-slate-700/20 cursor-pointer
-                    ${selectedRows.has(task.id) ? 'bg-teal-900/20' : ''}
-                  `}
-                  onClick={() => onEditTask(task)}
-                >
-                  <td className="px-1 py-1" onClick={(e) => e.stopPropagation()}>
-                    <input
-                      type="checkbox"
-                      checked={selectedRows.has(task.id)}
-                      onChange={() => toggleRowSelection(task.id)}
-                      className="rounded border-slate-500"
-                    />
-                  </td>
-                  <td className="px-2 py-1">
-                    <span className={task.status === 'complete' ? 'line-through text-slate-500' : 'text-slate-200'}>
-                      {task.title}
-                    </span>
-                  </td>
-                  <td className="px-2 py-1" onClick={(e) => e.stopPropagation()}>
-                    <select
-                      value={task.statusId || ''}
-                      onChange={(e) => onUpdateTask(task.id, { statusId: e.target.value })}
-                      className="w-full bg-transparent border-none text-xs p-0 focus:ring-0"
-                      style={{ color: status?.color || '#94a3b8' }}
-                    >
-                      {statuses.map(s => (
-                        <option key={s.id} value={s.id}>{s.name}</option>
-                      ))}
-                    </select>
-                  </td>
-                  <td className="px-2 py-1" onClick={(e) => e.stopPropagation()}>
-                    <select
-                      value={task.priority || ''}
-                      onChange={(e) => onUpdateTask(task.id, { priority: parseInt(e.target.value) || undefined })}
-                      className="w-full bg-transparent border-none text-xs p-0 focus:ring-0 text-slate-400"
-                    >
-                      <option value="">-</option>
-                      <option value="1">P1</option>
-                      <option value="2">P2</option>
-                      <option value="3">P3</option>
-                      <option value="4">P4</option>
-                    </select>
-                  </td>
-                  <td className="px-2 py-1 text-slate-400 text-xs">
-                    {task.project?.name || '-'}
-                  </td>
-                  <td className="px-2 py-1">
-                    {task.tags?.slice(0, 2).map(tag => (
-                      <span key={tag.id} className="text-[10px] px-1 py-0.5 rounded bg-slate-700/50 text-slate-400 mr-1">
-                        {tag.name}
-                      </span>
-                    ))}
-                    {(task.tags?.length || 0) > 2 && (
-                      <span className="text-[10px] text-slate-500">+{(task.tags?.length || 0) - 2}</span>
-                    )}
-                  </td>
-                </tr>
-              );
-            })}
-          </tbody>
-        </table>
-        {filteredTasks.length === 0 && (
-          <div className="text-center py-8 text-slate-500 text-sm">
-            No tasks match filters
-          </div>
-        )}
-      </div>
-    </div>
-  );
-}
-
-/**
- * Helper to render a MUI icon by name
- */
-function getIconComponent(iconName?: string): React.ReactNode {
-  if (!iconName) return <MuiIcons.Label style={{ fontSize: 16 }} />;
-  const IconComponent = (MuiIcons as Record<string, React.ComponentType<{ style?: React.CSSProperties }>>)[iconName];
-  return IconComponent ? <IconComponent style={{ fontSize: 16 }} /> : <MuiIcons.Label style={{ fontSize: 16 }} />;
-}
+import { BoardColumn, DetailsTable, type TaskDependencyBadge, type ViewMode } from './BoardColumns';
+import { getIconComponent } from './boardUtils';
 
 /**
  * Status View - Kanban board organized by dynamic task statuses
@@ -772,10 +35,12 @@ function getIconComponent(iconName?: string): React.ReactNode {
  * - List view: Compact whiteboard-style rows
  * - Card view: Enhanced cards with dates, icons, priority
  * - Detailed view: Data table with inline editing and Excel-like filters
- * - Drag-drop between status columns
+ * - Drag-drop between status columns, following the workflow's transition rules and WIP limits
+ * - Dependency badges (blocked by / blocks), a shortcut into Blocked, and optional arrows
  * - Filter by project, priority, and tags
  */
 const STORAGE_KEY_VIEW_MODE = 'statusView:viewMode';
+const STORAGE_KEY_SHOW_DEPENDENCIES = 'statusView:showDependencies';
 
 export function StatusView() {
   // View mode toggle - list, card, or detailed (persisted to localStorage)
@@ -792,6 +57,17 @@ export function StatusView() {
     localStorage.setItem(STORAGE_KEY_VIEW_MODE, viewMode);
   }, [viewMode]);
 
+  // Dependency arrows toggle (persisted to localStorage)
+  const [showDependencies, setShowDependencies] = useState(
+    () => localStorage.getItem(STORAGE_KEY_SHOW_DEPENDENCIES) === 'true'
+  );
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_SHOW_DEPENDENCIES, String(showDependencies));
+  }, [showDependencies]);
+
+  const boardRef = useRef<HTMLDivElement>(null);
+
   // Filter state
   const [selectedProject, setSelectedProject] = useState<string>('');
   const [selectedPriority, setSelectedPriority] = useState<string>('');
@@ -827,11 +103,13 @@ export function StatusView() {
   const { data: statusesData, isLoading: statusesLoading } = useStatuses();
   const { data: projectsData } = useProjects();
   const { data: tagsData } = useTags();
+  const { data: dependenciesData } = useTaskDependencies();
 
   const allTasks = useMemo(() => tasksData?.data ?? [], [tasksData?.data]);
   const allStatuses = useMemo(() => statusesData?.data ?? [], [statusesData?.data]);
   const projects = useMemo(() => projectsData?.data ?? [], [projectsData?.data]);
   const tags = useMemo(() => tagsData?.data ?? [], [tagsData?.data]);
+  const dependencies = useMemo(() => dependenciesData?.data ?? [], [dependenciesData?.data]);
 
   // Filter to main workflow statuses (non-breakout) sorted by sortOrder
   const workflowStatuses = useMemo(() =>
@@ -841,21 +119,49 @@ export function StatusView() {
     [allStatuses]
   );
 
-  // Find "complete" status for legacy task mapping
-  const completeStatus = useMemo(() =>
-    workflowStatuses.find(s =>
-      s.name.toLowerCase() === 'complete' || s.name.toLowerCase() === 'done'
-    ),
-    [workflowStatuses]
-  );
+  const statusById = useMemo(() => new Map(allStatuses.map((s) => [s.id, s])), [allStatuses]);
 
-  // Find "To-Do" status for auto-categorizing upcoming tasks
-  const todoStatus = useMemo(() =>
-    workflowStatuses.find(s =>
-      s.name.toLowerCase() === 'to-do' || s.name.toLowerCase() === 'todo'
-    ),
-    [workflowStatuses]
-  );
+  // Top-level tasks per status, counted against WIP limits whatever the filters
+  const wipCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const task of allTasks) {
+      if (task.isDeleted || task.parentTaskId || !task.statusId) continue;
+      counts.set(task.statusId, (counts.get(task.statusId) ?? 0) + 1);
+    }
+    return counts;
+  }, [allTasks]);
+
+  // Why a task can't be dropped into a status, or null if it can
+  const getDropProblem = useCallback((task: Task, targetStatusId: string): string | null => {
+    const from = statusById.get(optimisticStatusChanges.get(task.id) || task.statusId || '');
+    const to = statusById.get(targetStatusId);
+    if (!to || from?.id === to.id) return null;
+    if (from && !canTransitionStatus(from, to)) {
+      return `Tasks in ${from.name} can't move to ${to.name}`;
+    }
+    if (typeof to.wipLimit === 'number' && (wipCounts.get(to.id) ?? 0) >= to.wipLimit) {
+      return `${to.name} is at its WIP limit of ${to.wipLimit}`;
+    }
+    return null;
+  }, [statusById, optimisticStatusChanges, wipCounts]);
+
+  // Blocked-by / blocks badges, with the Blocked status to suggest while blockers are open
+  const dependencyBadges = useMemo(() => {
+    const tasksById = new Map(allTasks.map((t) => [t.id, t]));
+    const badges = new Map<string, TaskDependencyBadge>();
+    for (const [taskId, summary] of summarizeDependencies(dependencies)) {
+      const task = tasksById.get(taskId);
+      const current = task?.statusId ? statusById.get(task.statusId) : undefined;
+      badges.set(taskId, {
+        blockedBy: summary.openBlockers.map((blocker) => blocker.task.title),
+        blocking: summary.blocking.length,
+        suggestedStatus: summary.openBlockers.length > 0 && task && current && !isTaskComplete(task)
+          ? suggestBlockedStatus(current, allStatuses)
+          : null,
+      });
+    }
+    return badges;
+  }, [allTasks, allStatuses, statusById, dependencies]);
 
   const updateTask = useUpdateTask();
 
@@ -869,10 +175,8 @@ export function StatusView() {
   );
 
   // Filter tasks and group by statusId
-  // Smart handling:
-  // - tasks with status='complete' but no statusId go to Complete column
-  // - tasks with plannedDate in next 7 days and no statusId go to To-Do column
   // - child tasks (with parentTaskId) are hidden - they're accessed via parent
+  // - tasks in a breakout status (Blocked, Waiting) show in their parent status's column
   const { tasksByStatus, filteredTasks } = useMemo(() => {
     // First, filter out child tasks - they'll be shown under their parents
     let filtered = allTasks.filter((t) => !t.isDeleted && !t.parentTaskId);
@@ -903,42 +207,23 @@ export function StatusView() {
       return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
     });
 
-    // Helper to check if a date is within the next 7 days
-    const isWithinNext7Days = (dateStr: string | null | undefined): boolean => {
-      if (!dateStr) return false;
-      try {
-        const date = parseISO(dateStr);
-        const today = startOfDay(new Date());
-        const sevenDaysFromNow = addDays(today, 7);
-        return isWithinInterval(date, { start: today, end: sevenDaysFromNow });
-      } catch {
-        return false;
-      }
-    };
-
-    // Group by statusId with smart handling
+    // Group by statusId
     const byStatus: Record<string, Task[]> = {};
     for (const status of workflowStatuses) {
       byStatus[status.id] = [];
     }
     for (const task of sorted) {
       // Check for optimistic status change first (for immediate visual feedback on drag)
-      let targetStatusId = optimisticStatusChanges.get(task.id) || task.statusId;
-
-      // Smart legacy handling: if no statusId but status='complete', use complete column
-      if (!targetStatusId && task.status === 'complete' && completeStatus) {
-        targetStatusId = completeStatus.id;
-      }
-
-      // Auto-categorize: if no statusId and plannedDate is in next 7 days, use To-Do column
-      if (!targetStatusId && todoStatus && isWithinNext7Days(task.plannedDate)) {
-        targetStatusId = todoStatus.id;
-      }
+      const taskStatusId = optimisticStatusChanges.get(task.id) || task.statusId;
+      const taskStatus = taskStatusId ? statusById.get(taskStatusId) : undefined;
+      const targetStatusId = taskStatus?.isBreakout && taskStatus.breakoutParentId
+        ? taskStatus.breakoutParentId
+        : taskStatusId;
 
       if (targetStatusId && byStatus[targetStatusId]) {
         byStatus[targetStatusId].push(task);
       } else {
-        // Tasks without statusId go to first column
+        // Tasks in a deleted status go to the first column
         const firstStatus = workflowStatuses[0];
         if (firstStatus) {
           byStatus[firstStatus.id].push(task);
@@ -947,7 +232,7 @@ export function StatusView() {
     }
 
     return { tasksByStatus: byStatus, filteredTasks: sorted };
-  }, [allTasks, workflowStatuses, completeStatus, todoStatus, selectedProject, selectedPriority, selectedTag, optimisticStatusChanges]);
+  }, [allTasks, workflowStatuses, statusById, selectedProject, selectedPriority, selectedTag, optimisticStatusChanges]);
 
   const handleDragStart = useCallback(
     (event: DragStartEvent) => {
@@ -988,18 +273,23 @@ export function StatusView() {
         // Check against both actual statusId and any existing optimistic change
         const currentStatusId = optimisticStatusChanges.get(taskId) || task?.statusId;
         if (task && currentStatusId !== targetStatusId) {
+          const problem = getDropProblem(task, targetStatusId);
+          if (problem) {
+            toast.error(problem);
+            return;
+          }
+
           // Set optimistic update IMMEDIATELY for instant visual feedback
           setOptimisticStatusChanges(prev => new Map(prev).set(taskId, targetStatusId));
 
-          // Check if this is a "complete" type status (last in workflow)
-          const targetStatus = workflowStatuses.find((s) => s.id === targetStatusId);
-          const isComplete = targetStatus?.name.toLowerCase() === 'complete' ||
-                           targetStatus?.name.toLowerCase() === 'done';
+          // The server completes the task when the column is a terminal status
           updateTask.mutate({
             id: taskId,
             statusId: targetStatusId,
-            completedAt: isComplete ? new Date().toISOString() : undefined,
           }, {
+            onError: (error) => {
+              toast.error(error.message);
+            },
             onSettled: () => {
               // Clear optimistic update when mutation completes (success or error)
               // React Query will have refetched the actual data by now
@@ -1013,11 +303,29 @@ export function StatusView() {
         }
       }
     },
-    [allTasks, workflowStatuses, tasksByStatus, updateTask, optimisticStatusChanges]
+    [allTasks, workflowStatuses, tasksByStatus, updateTask, optimisticStatusChanges, getDropProblem]
   );
 
+  // Move a task into a status from its card (e.g. the suggested Blocked status)
+  const handleMoveToStatus = useCallback((task: Task, statusId: string) => {
+    const problem = getDropProblem(task, statusId);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    updateTask.mutate({ id: task.id, statusId }, {
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    });
+  }, [getDropProblem, updateTask]);
+
   const handleUpdateTask = useCallback((id: string, updates: Partial<Task>) => {
-    updateTask.mutate({ id, ...updates });
+    updateTask.mutate({ id, ...updates }, {
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    });
   }, [updateTask]);
 
   const toggleCollapseStatus = useCallback((statusId: string) => {
@@ -1040,6 +348,20 @@ export function StatusView() {
 
   const hasActiveFilters = selectedProject || selectedPriority || selectedTag;
 
+  // Arrows between visible cards, hidden while dragging since cards move under them
+  const dependencyEdges = useMemo((): DependencyEdge[] => {
+    if (!showDependencies || activeTask) return [];
+    const visibleIds = new Set(filteredTasks.map((t) => t.id));
+    return dependencies
+      .filter((d) => visibleIds.has(d.taskId) && visibleIds.has(d.dependsOnTaskId))
+      .map((d) => ({
+        from: d.dependsOnTaskId,
+        to: d.taskId,
+        isOpen: !d.dependsOn.completedAt,
+        label: `${d.dependsOn.title} blocks ${d.task.title}`,
+      }));
+  }, [showDependencies, activeTask, filteredTasks, dependencies]);
+
   // Calculate total task count
   const totalTasks = Object.values(tasksByStatus).reduce((sum, tasks) => sum + tasks.length, 0);
 
@@ -1113,6 +435,23 @@ export function StatusView() {
               Detailed
             </button>
           </div>
+
+          {viewMode !== 'detailed' && (
+            <button
+              onClick={() => setShowDependencies((show) => !show)}
+              className={`flex items-center gap-1 px-2 py-1 rounded text-xs font-medium transition-colors ${
+                showDependencies
+                  ? 'bg-slate-700 text-white'
+                  : 'text-slate-400 hover:text-white'
+              }`}
+              aria-pressed={showDependencies}
+              title="Show arrows from each task to the tasks waiting on it"
+              data-testid="status-view-dependencies-toggle"
+            >
+              <MuiIcons.Timeline style={{ fontSize: 14 }} />
+              Dependencies
+            </button>
+          )}
         </div>
       </div>
 
@@ -1185,7 +524,7 @@ export function StatusView() {
             onDragStart={handleDragStart}
             onDragEnd={handleDragEnd}
           >
-            <div className="h-full flex">
+            <div ref={boardRef} className="relative h-full flex">
               {workflowStatuses.map((status, index) => {
                 const isCollapsed = collapsedStatuses.has(status.id);
                 return (
@@ -1194,8 +533,8 @@ export function StatusView() {
                     className={`h-full ${isCollapsed ? '' : 'flex-1 min-w-0'}`}
                     style={isCollapsed ? { width: 28 } : { minWidth: 150 }}
                   >
-                    <StatusColumn
-                      statusId={status.id}
+                    <BoardColumn
+                      columnId={status.id}
                       title={status.name}
                       tasks={tasksByStatus[status.id] ?? []}
                       icon={getIconComponent(status.icon)}
@@ -1205,6 +544,11 @@ export function StatusView() {
                       viewMode={viewMode}
                       isCollapsed={isCollapsed}
                       movingTaskIds={movingTaskIds}
+                      wipLimit={status.wipLimit}
+                      wipCount={wipCounts.get(status.id) ?? 0}
+                      isDropDisabled={!!activeTask && !!getDropProblem(activeTask, status.id)}
+                      dependencyBadges={dependencyBadges}
+                      onMoveToStatus={handleMoveToStatus}
                       onEditTask={setEditingTask}
                       onAddTask={handleAddTask}
                       onToggleCollapse={toggleCollapseStatus}
@@ -1212,6 +556,7 @@ export function StatusView() {
                   </div>
                 );
               })}
+              <DependencyArrows containerRef={boardRef} edges={dependencyEdges} />
             </div>
 
             {/* Drag overlay */}
@@ -0,0 +1,20 @@
+import React from 'react';
+import * as MuiIcons from '@mui/icons-material';
+
+/**
+ * Helper to render a MUI icon by name
+ */
+export function getIconComponent(iconName?: string): React.ReactNode {
+  if (!iconName) return <MuiIcons.Label style={{ fontSize: 16 }} />;
+  const IconComponent = (MuiIcons as Record<string, React.ComponentType<{ style?: React.CSSProperties }>>)[iconName];
+  return IconComponent ? <IconComponent style={{ fontSize: 16 }} /> : <MuiIcons.Label style={{ fontSize: 16 }} />;
+}
+
+/**
+ * Render a project/category icon - "material:Name" MUI icons or icon font classes
+ */
+export function getEntityIcon(icon: string | undefined, fallback: React.ReactNode): React.ReactNode {
+  if (!icon) return fallback;
+  if (icon.startsWith('material:')) return getIconComponent(icon.replace('material:', ''));
+  return <i className={icon} style={{ fontSize: 14 }} />;
+}
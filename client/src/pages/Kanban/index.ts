@@ -1 +1,2 @@
 export { StatusView } from './StatusView';
+export { ProjectView, CategoryView } from './GroupedBoardView';
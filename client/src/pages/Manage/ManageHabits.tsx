@@ -1,13 +1,14 @@
 import { useState, useMemo } from 'react';
 import toast from 'react-hot-toast';
 import * as MuiIcons from '@mui/icons-material';
-import { useHabits, useDeleteHabit, useCategories, useImportHabits } from '../../api';
+import { format, subDays } from 'date-fns';
+import { useHabits, useDeleteHabit, useCategories, useImportHabits, getHabitExportUrl } from '../../api';
 import { useUIStore } from '../../stores';
-import type { Habit, Category } from '../../types';
+import type { Habit, Category, HabitImportResult } from '../../types';
 
 /**
  * Import Habits Modal
- * Allows users to paste markdown and bulk import habits
+ * Allows users to paste markdown, preview what would change, then bulk import habits
  */
 function ImportHabitsModal({
   isOpen,
@@ -17,45 +18,61 @@ function ImportHabitsModal({
   onClose: () => void;
 }) {
   const [markdown, setMarkdown] = useState('');
+  const [preview, setPreview] = useState<HabitImportResult | null>(null);
   const importHabits = useImportHabits();
 
-  const exampleMarkdown = `## Morning Routine
+  const exampleMarkdown = `# Health
+## Hydration
+- Drink Water @target:8 @unit:glasses @icon:material:LocalDrink @color:#3b82f6
+- Electrolytes @schedule:weekdays:mon,wed,fri
+- Take Vitamins @icon:material:Medication @color:#22c55e
+
+# Morning Routine
 - Wake Up @icon:material:WbSunny @color:#f59e0b
-- Meditate @icon:material:SelfImprovement @color:#8b5cf6
-- Exercise @icon:material:FitnessCenter @color:#ef4444
+- Exercise @schedule:weekly:3 @goal:80%
+  - Stretch
+  - Cardio`;
 
-## Health
-- Drink Water @icon:material:LocalDrink @color:#3b82f6
-- Take Vitamins @icon:material:Medication @color:#22c55e`;
+  const updateMarkdown = (value: string) => {
+    setMarkdown(value);
+    setPreview(null);
+  };
 
-  const handleImport = async () => {
+  const handlePreview = async () => {
     if (!markdown.trim()) {
       toast.error('Please enter some markdown to import');
       return;
     }
 
     try {
-      const result = await importHabits.mutateAsync(markdown);
+      const result = await importHabits.mutateAsync({ markdown, dryRun: true });
+      setPreview(result.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to preview import');
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const result = await importHabits.mutateAsync({ markdown });
       toast.success(result.message);
-      setMarkdown('');
+      updateMarkdown('');
       onClose();
     } catch (error) {
       toast.error('Failed to import habits');
     }
   };
 
-  const loadExample = () => {
-    setMarkdown(exampleMarkdown);
-  };
-
   if (!isOpen) return null;
 
+  const newHabitCount = preview?.habits.filter(h => h.status === 'new').length ?? 0;
+
   return (
     <div
       className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
       onClick={(e) => e.target === e.currentTarget && onClose()}
     >
-      <div className="bg-slate-800 rounded-2xl w-full max-w-2xl shadow-2xl border border-slate-700 overflow-hidden">
+      <div className="bg-slate-800 rounded-2xl w-full max-w-2xl max-h-[90vh] flex flex-col shadow-2xl border border-slate-700 overflow-hidden">
         {/* Header */}
         <div className="p-5 border-b border-slate-700 flex items-center justify-between">
           <div className="flex items-center gap-3">
@@ -76,13 +93,18 @@ function ImportHabitsModal({
         </div>
 
         {/* Content */}
-        <div className="p-5 space-y-4">
+        <div className="p-5 space-y-4 overflow-y-auto">
           {/* Format Info */}
           <div className="bg-slate-700/30 border border-slate-600/50 rounded-xl p-4">
             <h3 className="text-sm font-medium text-slate-300 mb-2">Markdown Format:</h3>
             <pre className="text-xs text-slate-400 font-mono overflow-x-auto">
-{`## Category Name
-- Habit Name @icon:material:IconName @color:#hex`}
+{`# Category
+## Parent Habit
+- Child Habit @icon:material:IconName @color:#hex
+- Habit @target:8 @unit:"fl oz" @goal:90% @warning:75%
+  - Indented bullets are children of the bullet above
+- Habit @schedule:daily|weekdays:mon,fri|weekly:3|monthly:4|interval:2
+- Habit @active:false @lowfreq:true`}
             </pre>
           </div>
 
@@ -93,7 +115,7 @@ function ImportHabitsModal({
                 Paste your markdown
               </label>
               <button
-                onClick={loadExample}
+                onClick={() => updateMarkdown(exampleMarkdown)}
                 className="text-xs text-teal-400 hover:text-teal-300 transition-colors"
               >
                 Load Example
@@ -101,11 +123,60 @@ function ImportHabitsModal({
             </div>
             <textarea
               value={markdown}
-              onChange={(e) => setMarkdown(e.target.value)}
-              placeholder="## Category&#10;- Habit Name @icon:material:Check @color:#14b8a6"
-              className="w-full h-64 px-4 py-3 bg-slate-900/50 border border-slate-600 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent font-mono text-sm resize-none"
+              onChange={(e) => updateMarkdown(e.target.value)}
+              placeholder="# Category&#10;## Parent Habit&#10;- Habit Name @icon:material:Check @color:#14b8a6"
+              className={`w-full ${preview ? 'h-32' : 'h-64'} px-4 py-3 bg-slate-900/50 border border-slate-600 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent font-mono text-sm resize-none`}
+              data-testid="habit-import-markdown"
             />
           </div>
+
+          {/* Dry-run preview */}
+          {preview && (
+            <div className="space-y-3" data-testid="habit-import-preview">
+              <div className="flex flex-wrap gap-2 text-xs font-medium">
+                <span className="px-2 py-1 rounded-lg bg-teal-500/15 text-teal-300">
+                  {newHabitCount} new
+                </span>
+                <span className="px-2 py-1 rounded-lg bg-slate-700 text-slate-300">
+                  {preview.habits.length - newHabitCount} already exist
+                </span>
+                <span className="px-2 py-1 rounded-lg bg-amber-500/15 text-amber-300">
+                  {preview.skipped.length} skipped
+                </span>
+                {preview.categories.filter(c => c.status === 'new').map(c => (
+                  <span key={c.name} className="px-2 py-1 rounded-lg bg-blue-500/15 text-blue-300">
+                    New category: {c.name}
+                  </span>
+                ))}
+              </div>
+
+              <ul className="max-h-56 overflow-y-auto rounded-xl border border-slate-700 divide-y divide-slate-700/50 text-sm">
+                {preview.habits.map(habit => (
+                  <li
+                    key={habit.line}
+                    className={`flex items-center justify-between gap-3 px-3 py-1.5 ${habit.parentName ? 'pl-8' : ''}`}
+                  >
+                    <span className="text-white truncate">
+                      {habit.name}
+                      {!habit.parentName && habit.categoryName && (
+                        <span className="ml-2 text-xs text-slate-500">{habit.categoryName}</span>
+                      )}
+                    </span>
+                    <span className={`text-xs flex-shrink-0 ${habit.status === 'new' ? 'text-teal-400' : 'text-slate-500'}`}>
+                      {habit.status === 'new' ? 'New' : 'Exists'}
+                    </span>
+                  </li>
+                ))}
+                {preview.skipped.map(skip => (
+                  <li key={`skipped-${skip.line}`} className="px-3 py-1.5 text-amber-300/90">
+                    <span className="font-mono text-xs text-slate-500 mr-2">Line {skip.line}</span>
+                    {skip.text}
+                    <span className="block text-xs text-slate-400">{skip.reason}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -117,19 +188,25 @@ function ImportHabitsModal({
             Cancel
           </button>
           <button
-            onClick={handleImport}
-            disabled={importHabits.isPending || !markdown.trim()}
+            onClick={preview ? handleImport : handlePreview}
+            disabled={importHabits.isPending || !markdown.trim() || (preview !== null && newHabitCount === 0)}
             className="px-5 py-2.5 rounded-xl bg-teal-600 text-white hover:bg-teal-500 transition-colors font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            data-testid="habit-import-submit"
           >
             {importHabits.isPending ? (
               <>
                 <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                Importing...
+                {preview ? 'Importing...' : 'Checking...'}
               </>
-            ) : (
+            ) : preview ? (
               <>
                 <MuiIcons.FileUpload style={{ fontSize: 18 }} />
-                Import Habits
+                Import {newHabitCount} {newHabitCount === 1 ? 'Habit' : 'Habits'}
+              </>
+            ) : (
+              <>
+                <MuiIcons.Preview style={{ fontSize: 18 }} />
+                Preview Import
               </>
             )}
           </button>
@@ -139,6 +216,77 @@ function ImportHabitsModal({
   );
 }
 
+/**
+ * Export Habits Menu
+ * Downloads the habit list as importable markdown, or entries over a date range as CSV
+ */
+function ExportHabitsMenu() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [startDate, setStartDate] = useState(() => format(subDays(new Date(), 29), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-4 py-2.5 bg-slate-700 hover:bg-slate-600 text-white rounded-xl font-medium transition-all border border-slate-600"
+        data-testid="habit-export-button"
+      >
+        <MuiIcons.FileDownload style={{ fontSize: 20 }} />
+        Export
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-2 w-72 p-3 space-y-3 bg-slate-800 border border-slate-700 rounded-xl shadow-2xl z-20"
+          data-testid="habit-export-menu"
+        >
+          <a
+            href={getHabitExportUrl('markdown')}
+            download
+            onClick={() => setIsOpen(false)}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg text-slate-200 hover:bg-slate-700 transition-colors"
+          >
+            <MuiIcons.Description style={{ fontSize: 18 }} />
+            Habits (Markdown)
+          </a>
+
+          <div className="pt-3 border-t border-slate-700 space-y-2">
+            <p className="text-xs font-medium text-slate-400">Entries (CSV)</p>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={startDate}
+                max={endDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1.5 bg-slate-900/50 border border-slate-600 rounded-lg text-white text-sm"
+              />
+              <span className="text-slate-500 text-sm">to</span>
+              <input
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1.5 bg-slate-900/50 border border-slate-600 rounded-lg text-white text-sm"
+              />
+            </div>
+            <a
+              href={getHabitExportUrl('csv', { startDate, endDate })}
+              download
+              onClick={() => setIsOpen(false)}
+              className="flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-teal-600 hover:bg-teal-500 text-white text-sm font-medium transition-colors"
+              data-testid="habit-export-csv"
+            >
+              <MuiIcons.TableChart style={{ fontSize: 18 }} />
+              Download CSV
+            </a>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 /**
  * Manage Habits Page
  *
@@ -303,6 +451,7 @@ export function ManageHabits() {
             <MuiIcons.FileUpload style={{ fontSize: 20 }} />
             Import
           </button>
+          <ExportHabitsMenu />
           <button
             onClick={handleAdd}
             className="flex items-center gap-2 px-4 py-2.5 bg-gradient-to-r from-teal-600 to-teal-500 hover:from-teal-500 hover:to-teal-400 text-white rounded-xl font-medium transition-all shadow-lg shadow-teal-600/20"
@@ -27,9 +27,10 @@ interface StatusRowProps {
   onEdit: (status: TaskStatusEntity) => void;
   onDelete: (status: TaskStatusEntity) => void;
   isBreakout?: boolean;
+  statusNames: Map<string, string>; // For listing allowed transitions
 }
 
-function StatusRow({ status, onEdit, onDelete, isBreakout }: StatusRowProps) {
+function StatusRow({ status, onEdit, onDelete, isBreakout, statusNames }: StatusRowProps) {
   const {
     attributes,
     listeners,
@@ -39,6 +40,11 @@ function StatusRow({ status, onEdit, onDelete, isBreakout }: StatusRowProps) {
     isDragging,
   } = useSortable({ id: status.id });
 
+  const transitionNames = (status.allowedTransitions ?? [])
+    .map((id) => statusNames.get(id))
+    .filter(Boolean)
+    .join(', ');
+
   const style = {
     transform: CSS.Transform.toString(transform),
     transition,
@@ -113,6 +119,27 @@ function StatusRow({ status, onEdit, onDelete, isBreakout }: StatusRowProps) {
               INITIAL
             </span>
           )}
+          {status.isTerminal && (
+            <span className="px-1.5 py-0.5 text-[10px] font-medium bg-emerald-500/20 text-emerald-400 rounded">
+              TERMINAL
+            </span>
+          )}
+          {typeof status.wipLimit === 'number' && (
+            <span
+              className="px-1.5 py-0.5 text-[10px] font-medium bg-red-500/20 text-red-400 rounded"
+              title="Work-in-progress limit"
+            >
+              WIP {status.wipLimit}
+            </span>
+          )}
+          {Array.isArray(status.allowedTransitions) && (
+            <span
+              className="px-1.5 py-0.5 text-[10px] font-medium bg-purple-500/20 text-purple-400 rounded"
+              title={`Tasks can move to: ${transitionNames || 'nowhere'}`}
+            >
+              {status.allowedTransitions.length} TRANSITIONS
+            </span>
+          )}
           {status.isDefault && (
             <span className="px-1.5 py-0.5 text-[10px] font-medium bg-slate-500/20 text-slate-400 rounded">
               SYSTEM
@@ -246,6 +273,11 @@ export function ManageStatuses() {
   }, [mainWorkflow, breakoutsByParent]);
 
   // Active status for drag overlay
+  const statusNames = useMemo(
+    () => new Map((workflowData?.data.all ?? []).map((s) => [s.id, s.name])),
+    [workflowData]
+  );
+
   const activeStatus = useMemo(() => {
     if (!activeId) return null;
     return sortedStatuses.find((s) => s.status.id === activeId)?.status || null;
@@ -416,6 +448,7 @@ export function ManageStatuses() {
                     onEdit={handleEdit}
                     onDelete={handleDelete}
                     isBreakout={isBreakout}
+                    statusNames={statusNames}
                   />
                 ))}
               </div>
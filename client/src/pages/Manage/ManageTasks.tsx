@@ -1,7 +1,7 @@
 import { useState, useMemo } from 'react';
 import toast from 'react-hot-toast';
 import * as MuiIcons from '@mui/icons-material';
-import { useTasks, useDeleteTask, useCompleteTask, useUncompleteTask, useProjects } from '../../api';
+import { useTasks, useDeleteTask, useCompleteTask, useUncompleteTask, useProjects, isTaskComplete } from '../../api';
 import { useUIStore } from '../../stores';
 import type { Task, Project } from '../../types';
 
@@ -63,7 +63,7 @@ export function ManageTasks() {
         // Maintenance tasks are recurring/no due date tasks
         filtered = filtered.filter((t: Task) => !t.plannedDate);
       } else {
-        filtered = filtered.filter((t: Task) => t.status === statusFilter);
+        filtered = filtered.filter((t: Task) => isTaskComplete(t) === (statusFilter === 'complete'));
       }
     }
 
@@ -78,7 +78,8 @@ export function ManageTasks() {
           comparison = (a.priority ?? 999) - (b.priority ?? 999);
           break;
         case 'status':
-          comparison = a.status.localeCompare(b.status);
+          // Workflow order, so open statuses come before terminal ones
+          comparison = (a.taskStatus?.sortOrder ?? 0) - (b.taskStatus?.sortOrder ?? 0);
           break;
         case 'created':
           comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
@@ -101,8 +102,8 @@ export function ManageTasks() {
     const all = tasksData.data.filter((t: Task) => !t.isDeleted);
     return {
       total: all.length,
-      pending: all.filter((t: Task) => t.status === 'pending').length,
-      complete: all.filter((t: Task) => t.status === 'complete').length,
+      pending: all.filter((t: Task) => !isTaskComplete(t)).length,
+      complete: all.filter((t: Task) => isTaskComplete(t)).length,
       maintenance: all.filter((t: Task) => !t.plannedDate).length,
     };
   }, [tasksData]);
@@ -132,7 +133,7 @@ export function ManageTasks() {
   // Handle toggle complete
   const handleToggleComplete = async (task: Task) => {
     try {
-      if (task.status === 'complete') {
+      if (isTaskComplete(task)) {
         await uncompleteTask.mutateAsync(task.id);
         toast.success('Task marked as pending');
       } else {
@@ -171,7 +172,7 @@ export function ManageTasks() {
 
   // Render list view row
   const renderListRow = (task: Task) => {
-    const isComplete = task.status === 'complete';
+    const isComplete = isTaskComplete(task);
 
     return (
       <div
@@ -263,7 +264,7 @@ export function ManageTasks() {
 
   // Render detailed view card
   const renderDetailedCard = (task: Task) => {
-    const isComplete = task.status === 'complete';
+    const isComplete = isTaskComplete(task);
 
     return (
       <div
@@ -1,8 +1,9 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import toast from 'react-hot-toast';
 import * as MuiIcons from '@mui/icons-material';
-import { useSettings, useUpdateSettings } from '../../api';
-import type { ThemeMode, WeekStartDay } from '../../types';
+import { useSettings, useUpdateSettings, useExportData, useImportData } from '../../api';
+import type { DataImportMode, ThemeMode, WeekStartDay } from '../../types';
+import { requestNotificationPermission } from '../../notifications';
 
 /**
  * Settings Page
@@ -10,8 +11,8 @@ import type { ThemeMode, WeekStartDay } from '../../types';
  * Features:
  * - Time & Date: Day restart time slider (0-23), Week start day toggle
  * - Appearance: Theme toggle (dark/light/auto)
- * - Display: Habit matrix weeks, show completed tasks toggle
- * - Data: Export/Import buttons (placeholders)
+ * - Display: Habit matrix weeks, show completed tasks toggle, sync fallback interval
+ * - Data: Export everything to a JSON archive, import one by merging or replacing
  */
 
 // Default settings values
@@ -39,6 +40,20 @@ const WEEK_DAYS = [
   { value: 6, label: 'Saturday' },
 ];
 
+// Polling intervals used while the live sync stream is disconnected
+const SYNC_INTERVALS = [
+  { value: 10000, label: '10 seconds' },
+  { value: 30000, label: '30 seconds' },
+  { value: 60000, label: '1 minute' },
+  { value: 300000, label: '5 minutes' },
+];
+
+// Import modes for a JSON archive
+const IMPORT_MODES: { value: DataImportMode; label: string; description: string }[] = [
+  { value: 'merge', label: 'Merge', description: 'Add to existing data; matching categories, statuses and tags are reused' },
+  { value: 'replace', label: 'Replace', description: 'Delete all current data and restore the archive' },
+];
+
 // Theme options
 const THEME_OPTIONS: { value: ThemeMode; label: string; icon: keyof typeof MuiIcons }[] = [
   { value: 'light', label: 'Light', icon: 'LightMode' },
@@ -146,6 +161,14 @@ export function Settings() {
   const [habitMatrixWeeks, setHabitMatrixWeeks] = useState<number>(DEFAULT_SETTINGS.habitMatrixWeeks);
   const [notificationsEnabled, setNotificationsEnabled] = useState<boolean>(DEFAULT_SETTINGS.notificationsEnabled);
   const [autoMarkPink, setAutoMarkPink] = useState<boolean>(DEFAULT_SETTINGS.autoMarkPink);
+  const [autoSyncInterval, setAutoSyncInterval] = useState<number>(DEFAULT_SETTINGS.autoSyncInterval);
+
+  // Data import/export
+  const exportData = useExportData();
+  const importData = useImportData();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; archive: unknown } | null>(null);
+  const [importMode, setImportMode] = useState<DataImportMode>('merge');
 
   // Sync local state with fetched settings
   useEffect(() => {
@@ -159,9 +182,19 @@ export function Settings() {
       setHabitMatrixWeeks(s.habitMatrixWeeks ?? DEFAULT_SETTINGS.habitMatrixWeeks);
       setNotificationsEnabled(s.notificationsEnabled ?? DEFAULT_SETTINGS.notificationsEnabled);
       setAutoMarkPink(s.autoMarkPink ?? DEFAULT_SETTINGS.autoMarkPink);
+      setAutoSyncInterval(s.autoSyncInterval ?? DEFAULT_SETTINGS.autoSyncInterval);
     }
   }, [settingsData]);
 
+  // Notifications need browser permission before they can be turned on
+  const handleNotificationsToggle = async (enabled: boolean) => {
+    if (enabled && !(await requestNotificationPermission())) {
+      toast.error('Notifications are blocked for this site in your browser');
+      return;
+    }
+    setNotificationsEnabled(enabled);
+  };
+
   // Check if any settings have changed
   const hasChanges = () => {
     if (!settingsData?.data) return false;
@@ -174,7 +207,8 @@ export function Settings() {
       showDeletedItems !== (s.showDeletedItems ?? DEFAULT_SETTINGS.showDeletedItems) ||
       habitMatrixWeeks !== (s.habitMatrixWeeks ?? DEFAULT_SETTINGS.habitMatrixWeeks) ||
       notificationsEnabled !== (s.notificationsEnabled ?? DEFAULT_SETTINGS.notificationsEnabled) ||
-      autoMarkPink !== (s.autoMarkPink ?? DEFAULT_SETTINGS.autoMarkPink)
+      autoMarkPink !== (s.autoMarkPink ?? DEFAULT_SETTINGS.autoMarkPink) ||
+      autoSyncInterval !== (s.autoSyncInterval ?? DEFAULT_SETTINGS.autoSyncInterval)
     );
   };
 
@@ -190,6 +224,7 @@ export function Settings() {
         habitMatrixWeeks,
         notificationsEnabled,
         autoMarkPink,
+        autoSyncInterval,
       });
       toast.success('Settings saved successfully');
     } catch (error) {
@@ -207,16 +242,49 @@ export function Settings() {
     setHabitMatrixWeeks(DEFAULT_SETTINGS.habitMatrixWeeks);
     setNotificationsEnabled(DEFAULT_SETTINGS.notificationsEnabled);
     setAutoMarkPink(DEFAULT_SETTINGS.autoMarkPink);
+    setAutoSyncInterval(DEFAULT_SETTINGS.autoSyncInterval);
   };
 
-  // Handle export (placeholder)
-  const handleExport = () => {
-    toast('Export feature coming soon', { icon: '📦' });
+  // Download every table and uploaded image as a JSON archive
+  const handleExport = async () => {
+    try {
+      const archive = await exportData.mutateAsync();
+      const url = URL.createObjectURL(new Blob([JSON.stringify(archive)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `habitarcade-export-${archive.exportedAt.split('T')[0]}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success('Data exported');
+    } catch {
+      toast.error('Failed to export data');
+    }
   };
 
-  // Handle import (placeholder)
-  const handleImport = () => {
-    toast('Import feature coming soon', { icon: '📥' });
+  // Read the chosen archive; the import itself waits for the mode to be confirmed
+  const handleImportFile = async (file: File) => {
+    try {
+      setPendingImport({ fileName: file.name, archive: JSON.parse(await file.text()) });
+      setImportMode('merge');
+    } catch {
+      toast.error('That file is not a valid JSON export');
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pendingImport) return;
+    if (importMode === 'replace' && !confirm('Replace ALL current data with this archive? This cannot be undone.')) return;
+    try {
+      const result = await importData.mutateAsync({ archive: pendingImport.archive, mode: importMode });
+      const imported = Object.values(result.data.tables).reduce((sum, t) => sum + t.imported, 0);
+      toast.success(`Imported ${imported} records`);
+      setPendingImport(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import data');
+    }
   };
 
   return (
@@ -391,6 +459,25 @@ export function Settings() {
                   onChange={setAutoMarkPink}
                 />
               </SettingRow>
+
+              {/* Sync Fallback Interval */}
+              <SettingRow
+                label="Sync Fallback Interval"
+                description="How often to refresh when live sync with other tabs is unavailable"
+              >
+                <select
+                  value={autoSyncInterval}
+                  onChange={(e) => setAutoSyncInterval(parseInt(e.target.value))}
+                  className="px-3 py-2 bg-slate-700/50 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent cursor-pointer"
+                  data-testid="auto-sync-interval"
+                >
+                  {SYNC_INTERVALS.map((interval) => (
+                    <option key={interval.value} value={interval.value}>
+                      {interval.label}
+                    </option>
+                  ))}
+                </select>
+              </SettingRow>
             </div>
           </div>
 
@@ -408,11 +495,11 @@ export function Settings() {
               {/* Enable Notifications */}
               <SettingRow
                 label="Enable Notifications"
-                description="Receive reminders for habits and tasks"
+                description="Habit reminders, an end-of-day nudge for unmarked habits, and timer alerts"
               >
                 <ToggleSwitch
                   checked={notificationsEnabled}
-                  onChange={setNotificationsEnabled}
+                  onChange={handleNotificationsToggle}
                 />
               </SettingRow>
             </div>
@@ -431,19 +518,82 @@ export function Settings() {
             <div className="flex flex-wrap gap-3">
               <button
                 onClick={handleExport}
-                className="flex items-center gap-2 px-4 py-2.5 bg-slate-700/50 border border-slate-600 rounded-lg text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+                disabled={exportData.isPending}
+                className="flex items-center gap-2 px-4 py-2.5 bg-slate-700/50 border border-slate-600 rounded-lg text-slate-300 hover:bg-slate-700 hover:text-white transition-colors disabled:opacity-50"
+                data-testid="export-data-button"
               >
                 <MuiIcons.FileDownload style={{ fontSize: 18 }} />
-                Export Data
+                {exportData.isPending ? 'Exporting...' : 'Export Data'}
               </button>
               <button
-                onClick={handleImport}
+                onClick={() => fileInputRef.current?.click()}
                 className="flex items-center gap-2 px-4 py-2.5 bg-slate-700/50 border border-slate-600 rounded-lg text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+                data-testid="import-data-button"
               >
                 <MuiIcons.FileUpload style={{ fontSize: 18 }} />
                 Import Data
               </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                data-testid="import-data-input"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImportFile(file);
+                }}
+              />
             </div>
+
+            {/* Import confirmation */}
+            {pendingImport && (
+              <div className="mt-4 p-4 bg-slate-900/50 border border-slate-700 rounded-lg space-y-3" data-testid="import-data-panel">
+                <p className="text-sm text-slate-300">
+                  Import <span className="text-white font-medium">{pendingImport.fileName}</span>
+                </p>
+                <div className="space-y-2">
+                  {IMPORT_MODES.map((mode) => (
+                    <label key={mode.value} className="flex items-start gap-3 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="import-mode"
+                        value={mode.value}
+                        checked={importMode === mode.value}
+                        onChange={() => setImportMode(mode.value)}
+                        className="mt-1"
+                        data-testid={`import-mode-${mode.value}`}
+                      />
+                      <span>
+                        <span className="block text-white font-medium">{mode.label}</span>
+                        <span className="block text-sm text-slate-400">{mode.description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setPendingImport(null)}
+                    className="px-4 py-2 text-slate-400 hover:text-slate-300 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleImport}
+                    disabled={importData.isPending}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-white transition-colors disabled:opacity-50 ${
+                      importMode === 'replace' ? 'bg-red-600 hover:bg-red-500' : 'bg-blue-600 hover:bg-blue-500'
+                    }`}
+                    data-testid="import-data-confirm"
+                  >
+                    {importData.isPending && (
+                      <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                    )}
+                    {importMode === 'replace' ? 'Replace Data' : 'Import'}
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Action Buttons */}
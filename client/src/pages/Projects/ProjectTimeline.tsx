@@ -0,0 +1,284 @@
+import { useMemo, useRef, useState } from 'react';
+import { addDays, differenceInCalendarDays, eachDayOfInterval, format, parseISO } from 'date-fns';
+import * as MuiIcons from '@mui/icons-material';
+import type { Project } from '../../types';
+import { DependencyArrows, type DependencyEdge } from '../../components/DependencyArrows';
+import { getProjectProgress, getProjectSpan, isProjectOverdue } from './projectSchedule';
+
+// Which part of a bar is being dragged
+type DragMode = 'move' | 'start' | 'end';
+
+interface DragState {
+  projectId: string;
+  mode: DragMode;
+  originX: number;
+  deltaDays: number;
+}
+
+// Width of the project name column
+const LABEL_WIDTH = 220;
+const ROW_HEIGHT = 44;
+
+interface ProjectTimelineProps {
+  projects: Project[];
+  rangeStart: string; // YYYY-MM-DD, first visible day
+  rangeEnd: string; // YYYY-MM-DD, last visible day
+  today: string; // YYYY-MM-DD
+  dayWidth: number; // Pixels per day
+  dependencies: DependencyEdge[]; // Blocking project -> waiting project, from task dependencies
+  onReschedule: (project: Project, startDate: string, targetDate: string) => void;
+  onOpen: (project: Project) => void;
+}
+
+// Apply a drag delta to a span, keeping start on or before end
+function applyDrag(span: { start: string; end: string }, mode: DragMode, deltaDays: number) {
+  const start = parseISO(span.start);
+  const end = parseISO(span.end);
+  if (mode === 'move') {
+    return {
+      start: format(addDays(start, deltaDays), 'yyyy-MM-dd'),
+      end: format(addDays(end, deltaDays), 'yyyy-MM-dd'),
+    };
+  }
+  if (mode === 'start') {
+    const newStart = addDays(start, Math.min(deltaDays, differenceInCalendarDays(end, start)));
+    return { start: format(newStart, 'yyyy-MM-dd'), end: span.end };
+  }
+  const newEnd = addDays(end, Math.max(deltaDays, -differenceInCalendarDays(end, start)));
+  return { start: span.start, end: format(newEnd, 'yyyy-MM-dd') };
+}
+
+/**
+ * ProjectTimeline - Gantt-style view of scheduled projects
+ *
+ * Features:
+ * - One bar per project from startDate to targetDate, filled by task completion
+ * - Overdue projects highlighted against their target date
+ * - Drag the bar to move both dates, or its edges to change start/target
+ * - Today marker
+ * - Arrows between projects whose tasks depend on each other
+ */
+export function ProjectTimeline({
+  projects,
+  rangeStart,
+  rangeEnd,
+  today,
+  dayWidth,
+  dependencies,
+  onReschedule,
+  onOpen,
+}: ProjectTimelineProps) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Arrows are hidden while a bar is dragged since they'd trail behind it
+  const isDragging = drag !== null;
+  const arrowEdges = useMemo(() => (isDragging ? [] : dependencies), [isDragging, dependencies]);
+
+  // Projects still waiting on another project's open tasks
+  const openWaits = useMemo(() => {
+    const counts = new Map<string, number>();
+    dependencies.filter(edge => edge.isOpen).forEach(edge => {
+      counts.set(edge.to, (counts.get(edge.to) ?? 0) + 1);
+    });
+    return counts;
+  }, [dependencies]);
+
+  const rangeStartDate = useMemo(() => parseISO(rangeStart), [rangeStart]);
+  const days = useMemo(
+    () => eachDayOfInterval({ start: rangeStartDate, end: parseISO(rangeEnd) }),
+    [rangeStartDate, rangeEnd]
+  );
+
+  // Month header segments (label + width in days)
+  const months = useMemo(() => {
+    const segments: { label: string; days: number }[] = [];
+    days.forEach(day => {
+      const label = format(day, 'MMM yyyy');
+      const last = segments[segments.length - 1];
+      if (last && last.label === label) {
+        last.days += 1;
+      } else {
+        segments.push({ label, days: 1 });
+      }
+    });
+    return segments;
+  }, [days]);
+
+  const offsetOf = (date: string) => differenceInCalendarDays(parseISO(date), rangeStartDate) * dayWidth;
+  const timelineWidth = days.length * dayWidth;
+  const todayOffset = offsetOf(today);
+
+  const handlePointerDown = (e: React.PointerEvent, projectId: string, mode: DragMode) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    setDrag({ projectId, mode, originX: e.clientX, deltaDays: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const deltaDays = Math.round((e.clientX - drag.originX) / dayWidth);
+    if (deltaDays !== drag.deltaDays) {
+      setDrag({ ...drag, deltaDays });
+    }
+  };
+
+  const handlePointerUp = (project: Project) => {
+    if (!drag) return;
+    const span = getProjectSpan(project);
+    setDrag(null);
+
+    // A press without movement is a click - open the project instead
+    if (drag.deltaDays === 0 || !span) {
+      onOpen(project);
+      return;
+    }
+
+    const next = applyDrag(span, drag.mode, drag.deltaDays);
+    onReschedule(project, next.start, next.end);
+  };
+
+  return (
+    <div className="overflow-x-auto rounded-xl border border-slate-700/50 bg-slate-800/50" data-testid="project-timeline">
+      <div ref={containerRef} style={{ width: LABEL_WIDTH + timelineWidth }} className="relative">
+        {/* Header */}
+        <div className="flex sticky top-0 z-10 bg-slate-800 border-b border-slate-700">
+          <div
+            className="shrink-0 sticky left-0 z-20 bg-slate-800 border-r border-slate-700 px-3 flex items-end pb-1 text-xs text-slate-500"
+            style={{ width: LABEL_WIDTH }}
+          >
+            Project
+          </div>
+          <div>
+            <div className="flex">
+              {months.map((month, index) => (
+                <div
+                  key={`${month.label}-${index}`}
+                  className="text-xs text-slate-400 px-2 py-1 border-l border-slate-700 truncate"
+                  style={{ width: month.days * dayWidth }}
+                >
+                  {month.label}
+                </div>
+              ))}
+            </div>
+            <div className="flex">
+              {days.map(day => (
+                <div
+                  key={day.toISOString()}
+                  className="text-[10px] text-slate-500 text-center border-l border-slate-700/40"
+                  style={{ width: dayWidth }}
+                >
+                  {dayWidth >= 16 ? format(day, 'd') : day.getDay() === 1 ? format(day, 'd') : ''}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Rows */}
+        {projects.map(project => {
+          const baseSpan = getProjectSpan(project);
+          if (!baseSpan) return null;
+
+          const isDraggingBar = drag?.projectId === project.id;
+          const span = isDraggingBar ? applyDrag(baseSpan, drag.mode, drag.deltaDays) : baseSpan;
+          const left = offsetOf(span.start);
+          const width = (differenceInCalendarDays(parseISO(span.end), parseISO(span.start)) + 1) * dayWidth;
+          const progress = getProjectProgress(project);
+          const overdue = isProjectOverdue(project, today);
+          const color = project.color || project.iconColor || '#14b8a6';
+          const waitingOn = openWaits.get(project.id) ?? 0;
+
+          return (
+            <div
+              key={project.id}
+              className="flex border-b border-slate-700/40 hover:bg-slate-700/20"
+              style={{ height: ROW_HEIGHT }}
+              data-testid={`project-timeline-row-${project.id}`}
+            >
+              {/* Label */}
+              <button
+                onClick={() => onOpen(project)}
+                className="shrink-0 sticky left-0 z-10 bg-slate-800 border-r border-slate-700 px-3 flex items-center gap-2 text-left"
+                style={{ width: LABEL_WIDTH }}
+              >
+                <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: color }} />
+                <span className="text-sm text-slate-200 truncate flex-1">{project.name}</span>
+                {waitingOn > 0 && (
+                  <MuiIcons.Block
+                    style={{ fontSize: 16 }}
+                    className="text-red-400 shrink-0"
+                    titleAccess={`Waiting on ${waitingOn} project${waitingOn === 1 ? '' : 's'}`}
+                    data-testid="project-waiting-icon"
+                  />
+                )}
+                {overdue && (
+                  <MuiIcons.WarningAmber
+                    style={{ fontSize: 16 }}
+                    className="text-red-400 shrink-0"
+                    titleAccess="Overdue"
+                    data-testid="project-overdue-icon"
+                  />
+                )}
+              </button>
+
+              {/* Track */}
+              <div className="relative" style={{ width: timelineWidth }}>
+                {/* Today marker */}
+                {todayOffset >= 0 && todayOffset < timelineWidth && (
+                  <div
+                    className="absolute top-0 bottom-0 w-px bg-teal-400/60 pointer-events-none"
+                    style={{ left: todayOffset + dayWidth / 2 }}
+                  />
+                )}
+
+                {/* Bar */}
+                <div
+                  className={`absolute top-2 bottom-2 rounded-md overflow-hidden select-none touch-none ${
+                    isDraggingBar ? 'cursor-grabbing shadow-lg' : 'cursor-grab'
+                  } ${overdue ? 'ring-2 ring-red-500' : ''}`}
+                  style={{ left, width, backgroundColor: `${color}40` }}
+                  onPointerDown={(e) => handlePointerDown(e, project.id, 'move')}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={() => handlePointerUp(project)}
+                  onPointerCancel={() => setDrag(null)}
+                  title={`${project.name}: ${span.start} → ${span.end} (${progress}% complete)`}
+                  data-testid={`project-bar-${project.id}`}
+                  data-dependency-anchor={project.id}
+                  data-overdue={overdue}
+                  data-start={span.start}
+                  data-end={span.end}
+                >
+                  {/* Progress fill */}
+                  <div
+                    className="absolute inset-y-0 left-0"
+                    style={{ width: `${progress}%`, backgroundColor: color }}
+                    data-testid="project-bar-progress"
+                  />
+                  <span className="relative px-2 text-xs font-medium text-white leading-7 whitespace-nowrap">
+                    {progress}%
+                  </span>
+
+                  {/* Resize handles */}
+                  <div
+                    className="absolute inset-y-0 left-0 w-2 cursor-ew-resize hover:bg-white/20"
+                    onPointerDown={(e) => handlePointerDown(e, project.id, 'start')}
+                    data-testid={`project-bar-start-${project.id}`}
+                  />
+                  <div
+                    className="absolute inset-y-0 right-0 w-2 cursor-ew-resize hover:bg-white/20"
+                    onPointerDown={(e) => handlePointerDown(e, project.id, 'end')}
+                    data-testid={`project-bar-end-${project.id}`}
+                  />
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        <DependencyArrows containerRef={containerRef} edges={arrowEdges} />
+      </div>
+    </div>
+  );
+}
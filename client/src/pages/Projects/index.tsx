@@ -0,0 +1,226 @@
+import { useMemo, useState } from 'react';
+import { addDays, format, max, min, parseISO, startOfWeek } from 'date-fns';
+import toast from 'react-hot-toast';
+import * as MuiIcons from '@mui/icons-material';
+import { useProjects, useRescheduleProject, useTaskDependencies } from '../../api';
+import { useUIStore } from '../../stores';
+import type { Project } from '../../types';
+import type { DependencyEdge } from '../../components/DependencyArrows';
+import { ProjectTimeline } from './ProjectTimeline';
+import { getProjectProgress, getProjectSpan, isProjectOverdue } from './projectSchedule';
+
+// Timeline zoom levels (pixels per day)
+const ZOOM_LEVELS = [
+  { label: 'Days', dayWidth: 32 },
+  { label: 'Weeks', dayWidth: 14 },
+  { label: 'Months', dayWidth: 5 },
+];
+
+// Padding around the scheduled projects so bars can be dragged past the edges
+const LEADING_DAYS = 7;
+const TRAILING_DAYS = 28;
+
+// Default length for projects scheduled from the unscheduled list
+const DEFAULT_PROJECT_DAYS = 14;
+
+/**
+ * Projects Page - Timeline of projects with progress and rescheduling
+ *
+ * Features:
+ * - Gantt-style bars from start to target date
+ * - Task completion progress and overdue highlighting
+ * - Drag to reschedule (persists via PUT /api/projects/:id)
+ * - Unscheduled projects listed separately with a quick schedule action
+ * - Arrows from a project to the projects whose tasks wait on its tasks
+ */
+export function Projects() {
+  const { data: projectsData, isLoading } = useProjects();
+  const { data: dependenciesData } = useTaskDependencies();
+  const rescheduleProject = useRescheduleProject();
+  const { openModal, setSelectedProject } = useUIStore();
+  const [dayWidth, setDayWidth] = useState(ZOOM_LEVELS[1].dayWidth);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const { scheduled, unscheduled } = useMemo(() => {
+    const projects = (projectsData?.data || []).filter(p => !p.isDeleted);
+    const withSpan = projects
+      .filter(p => getProjectSpan(p))
+      .sort((a, b) => getProjectSpan(a)!.start.localeCompare(getProjectSpan(b)!.start));
+    return {
+      scheduled: withSpan,
+      unscheduled: projects.filter(p => !getProjectSpan(p)),
+    };
+  }, [projectsData]);
+
+  // Task dependencies across scheduled projects, one edge per pair of projects
+  const projectDependencies = useMemo((): DependencyEdge[] => {
+    const names = new Map(scheduled.map(p => [p.id, p.name]));
+    const edges = new Map<string, DependencyEdge & { tasks: number }>();
+    for (const dependency of dependenciesData?.data ?? []) {
+      const from = dependency.dependsOn.projectId;
+      const to = dependency.task.projectId;
+      if (!from || !to || from === to || !names.has(from) || !names.has(to)) continue;
+      const key = `${from}-${to}`;
+      const edge = edges.get(key) ?? { from, to, isOpen: false, tasks: 0 };
+      edge.isOpen = edge.isOpen || !dependency.dependsOn.completedAt;
+      edge.tasks += 1;
+      edges.set(key, edge);
+    }
+    return [...edges.values()].map(({ tasks, ...edge }) => ({
+      ...edge,
+      label: `${names.get(edge.to)} waits on ${names.get(edge.from)} (${tasks} task${tasks === 1 ? '' : 's'})`,
+    }));
+  }, [scheduled, dependenciesData?.data]);
+
+  const overdueCount = scheduled.filter(p => isProjectOverdue(p, today)).length;
+
+  // Visible range covers every scheduled project plus today
+  const { rangeStart, rangeEnd } = useMemo(() => {
+    const todayDate = parseISO(today);
+    const starts = scheduled.map(p => parseISO(getProjectSpan(p)!.start));
+    const ends = scheduled.map(p => parseISO(getProjectSpan(p)!.end));
+    const first = min([todayDate, ...starts]);
+    const last = max([todayDate, ...ends]);
+    return {
+      rangeStart: format(startOfWeek(addDays(first, -LEADING_DAYS), { weekStartsOn: 1 }), 'yyyy-MM-dd'),
+      rangeEnd: format(addDays(last, TRAILING_DAYS), 'yyyy-MM-dd'),
+    };
+  }, [scheduled, today]);
+
+  const handleOpen = (project: Project) => {
+    setSelectedProject(project);
+    openModal('project-form');
+  };
+
+  const handleCreate = () => {
+    setSelectedProject(null);
+    openModal('project-form');
+  };
+
+  const handleReschedule = (project: Project, startDate: string, targetDate: string) => {
+    rescheduleProject.mutate(
+      { id: project.id, startDate, targetDate },
+      {
+        onSuccess: () => {
+          toast.success(`Rescheduled "${project.name}" to ${format(parseISO(startDate), 'MMM d')} – ${format(parseISO(targetDate), 'MMM d')}`);
+        },
+        onError: () => {
+          toast.error('Failed to reschedule project');
+        },
+      }
+    );
+  };
+
+  const handleSchedule = (project: Project) => {
+    handleReschedule(project, today, format(addDays(parseISO(today), DEFAULT_PROJECT_DAYS - 1), 'yyyy-MM-dd'));
+  };
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto" data-testid="projects-page">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+            <MuiIcons.AccountTree style={{ fontSize: 32 }} className="text-teal-400" />
+            Projects
+          </h1>
+          <p className="text-slate-400 mt-1">
+            {scheduled.length} scheduled
+            {overdueCount > 0 && (
+              <span className="text-red-400" data-testid="projects-overdue-count"> · {overdueCount} overdue</span>
+            )}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          {/* Zoom */}
+          <div className="flex bg-slate-800 rounded-lg p-1 border border-slate-700" data-testid="projects-zoom">
+            {ZOOM_LEVELS.map(level => (
+              <button
+                key={level.label}
+                onClick={() => setDayWidth(level.dayWidth)}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                  dayWidth === level.dayWidth
+                    ? 'bg-teal-600 text-white'
+                    : 'text-slate-400 hover:text-white'
+                }`}
+                aria-pressed={dayWidth === level.dayWidth}
+              >
+                {level.label}
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={handleCreate}
+            className="flex items-center gap-2 px-4 py-2 bg-teal-600 hover:bg-teal-500 text-white rounded-lg transition-colors"
+          >
+            <MuiIcons.Add style={{ fontSize: 20 }} />
+            New Project
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64 text-slate-400">Loading projects...</div>
+      ) : (
+        <>
+          {scheduled.length > 0 ? (
+            <ProjectTimeline
+              projects={scheduled}
+              rangeStart={rangeStart}
+              rangeEnd={rangeEnd}
+              today={today}
+              dayWidth={dayWidth}
+              dependencies={projectDependencies}
+              onReschedule={handleReschedule}
+              onOpen={handleOpen}
+            />
+          ) : (
+            <div className="text-center py-12" data-testid="projects-timeline-empty">
+              <MuiIcons.AccountTree style={{ fontSize: 64 }} className="text-slate-600 mb-4" />
+              <h3 className="text-lg font-medium text-slate-400 mb-2">No scheduled projects</h3>
+              <p className="text-slate-500">Give a project a start or target date to see it on the timeline</p>
+            </div>
+          )}
+
+          {/* Unscheduled projects */}
+          {unscheduled.length > 0 && (
+            <div className="mt-6" data-testid="projects-unscheduled">
+              <h2 className="text-sm font-semibold text-slate-300 mb-3">Unscheduled</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                {unscheduled.map(project => (
+                  <div
+                    key={project.id}
+                    className="bg-slate-800/50 rounded-lg p-3 border border-slate-700/50 flex items-center gap-3"
+                  >
+                    <span
+                      className="w-2.5 h-2.5 rounded-full shrink-0"
+                      style={{ backgroundColor: project.color || project.iconColor || '#14b8a6' }}
+                    />
+                    <button
+                      onClick={() => handleOpen(project)}
+                      className="flex-1 text-left text-sm text-slate-200 truncate hover:text-white"
+                    >
+                      {project.name}
+                    </button>
+                    <span className="text-xs text-slate-500">{getProjectProgress(project)}%</span>
+                    <button
+                      onClick={() => handleSchedule(project)}
+                      className="text-xs px-2 py-1 rounded bg-slate-700 text-slate-300 hover:bg-slate-600 hover:text-white transition-colors"
+                    >
+                      Schedule
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default Projects;
@@ -0,0 +1,27 @@
+import type { Project } from '../../types';
+
+/**
+ * Resolve a project's bar span - projects with only one date render as a single-day bar
+ */
+export function getProjectSpan(project: Project): { start: string; end: string } | null {
+  const start = project.startDate || project.targetDate;
+  const end = project.targetDate || project.startDate;
+  if (!start || !end) return null;
+  return { start, end };
+}
+
+/**
+ * Task completion progress (0-100) from the list endpoint's counts
+ */
+export function getProjectProgress(project: Project): number {
+  if (!project.taskCount) return 0;
+  return Math.round(((project.completedTaskCount || 0) / project.taskCount) * 100);
+}
+
+/**
+ * A project is overdue when its target date has passed with tasks still open
+ */
+export function isProjectOverdue(project: Project, today: string): boolean {
+  if (!project.targetDate || project.targetDate >= today) return false;
+  return !project.taskCount || (project.completedTaskCount || 0) < project.taskCount;
+}
@@ -0,0 +1,200 @@
+import * as MuiIcons from '@mui/icons-material';
+import type { TaskFilter } from '../../types';
+
+interface Option {
+  id: string;
+  name: string;
+  color?: string | null;
+}
+
+interface TaskFilterFieldsProps {
+  value: TaskFilter;
+  onChange: (filter: TaskFilter) => void;
+  projects: Option[];
+  tags: Option[];
+  statuses: Option[];
+}
+
+const SELECT_CLASS =
+  'bg-slate-800/50 border border-slate-700/50 rounded px-2 py-1 text-xs text-slate-300 focus:ring-1 focus:ring-teal-500/50 focus:border-teal-500/50';
+
+const PRIORITIES = [1, 2, 3, 4];
+
+// Flags that can require, exclude or ignore a property
+const FLAGS = [
+  { key: 'overdue', label: 'Overdue' },
+  { key: 'unscheduled', label: 'Unscheduled' },
+  { key: 'hasSubtasks', label: 'Has subtasks' },
+] as const;
+
+/**
+ * IdPicker - Chips for the chosen ids plus a select to add another
+ */
+function IdPicker({
+  label,
+  ids,
+  options,
+  onChange,
+  testId,
+}: {
+  label: string;
+  ids: string[];
+  options: Option[];
+  onChange: (ids: string[]) => void;
+  testId: string;
+}) {
+  const byId = new Map(options.map(option => [option.id, option]));
+  const remaining = options.filter(option => !ids.includes(option.id));
+
+  return (
+    <div className="flex flex-wrap items-center gap-1" data-testid={testId}>
+      {ids.map(id => (
+        <span
+          key={id}
+          className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-slate-700/60 text-xs text-slate-200"
+        >
+          {byId.get(id)?.color && (
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: byId.get(id)!.color! }} />
+          )}
+          {byId.get(id)?.name ?? 'Unknown'}
+          <button
+            onClick={() => onChange(ids.filter(other => other !== id))}
+            className="text-slate-500 hover:text-white"
+            title={`Remove ${byId.get(id)?.name ?? 'item'}`}
+          >
+            <MuiIcons.Close style={{ fontSize: 12 }} />
+          </button>
+        </span>
+      ))}
+      {remaining.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onChange([...ids, e.target.value])}
+          className={SELECT_CLASS}
+        >
+          <option value="">{ids.length > 0 ? '+ Add' : `Any ${label}`}</option>
+          {remaining.map(option => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+/**
+ * TaskFilterFields - Editor for the criteria of a task filter
+ */
+export function TaskFilterFields({ value, onChange, projects, tags, statuses }: TaskFilterFieldsProps) {
+  const update = (changes: Partial<TaskFilter>) => onChange({ ...value, ...changes });
+  const toNumber = (raw: string) => (raw ? Number(raw) : null);
+  const flagValue = (flag: boolean | null | undefined) => (flag === true ? 'only' : flag === false ? 'exclude' : '');
+
+  return (
+    <div className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2 text-xs" data-testid="task-filter-fields">
+      <span className="text-slate-500 font-medium">SEARCH</span>
+      <input
+        type="text"
+        value={value.search ?? ''}
+        onChange={(e) => update({ search: e.target.value })}
+        placeholder="Title or description contains..."
+        className="bg-slate-800/50 border border-slate-700/50 rounded px-2 py-1 text-xs text-slate-200 placeholder-slate-500 focus:outline-none focus:ring-1 focus:ring-teal-500/50"
+        data-testid="task-filter-search"
+      />
+
+      <span className="text-slate-500 font-medium">PROJECTS</span>
+      <IdPicker
+        label="project"
+        ids={value.projectIds ?? []}
+        options={projects}
+        onChange={(projectIds) => update({ projectIds })}
+        testId="task-filter-projects"
+      />
+
+      <span className="text-slate-500 font-medium">TAGS</span>
+      <div className="flex flex-wrap items-center gap-2">
+        <IdPicker
+          label="tag"
+          ids={value.tagIds ?? []}
+          options={tags}
+          onChange={(tagIds) => update({ tagIds })}
+          testId="task-filter-tags"
+        />
+        {(value.tagIds?.length ?? 0) > 1 && (
+          <select
+            value={value.tagMatch ?? 'any'}
+            onChange={(e) => update({ tagMatch: e.target.value as 'any' | 'all' })}
+            className={SELECT_CLASS}
+            data-testid="task-filter-tag-match"
+          >
+            <option value="any">Any of these</option>
+            <option value="all">All of these</option>
+          </select>
+        )}
+      </div>
+
+      <span className="text-slate-500 font-medium">STATUS</span>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={value.status ?? ''}
+          onChange={(e) => update({ status: (e.target.value || null) as TaskFilter['status'] })}
+          className={SELECT_CLASS}
+          data-testid="task-filter-status"
+        >
+          <option value="">Open or complete</option>
+          <option value="pending">Open</option>
+          <option value="complete">Complete</option>
+        </select>
+        <IdPicker
+          label="status"
+          ids={value.statusIds ?? []}
+          options={statuses}
+          onChange={(statusIds) => update({ statusIds })}
+          testId="task-filter-statuses"
+        />
+      </div>
+
+      <span className="text-slate-500 font-medium">PRIORITY</span>
+      <div className="flex items-center gap-2">
+        <select
+          value={value.priorityMin ?? ''}
+          onChange={(e) => update({ priorityMin: toNumber(e.target.value) })}
+          className={SELECT_CLASS}
+          data-testid="task-filter-priority-min"
+        >
+          <option value="">From any</option>
+          {PRIORITIES.map(p => <option key={p} value={p}>P{p}</option>)}
+        </select>
+        <span className="text-slate-500">to</span>
+        <select
+          value={value.priorityMax ?? ''}
+          onChange={(e) => update({ priorityMax: toNumber(e.target.value) })}
+          className={SELECT_CLASS}
+          data-testid="task-filter-priority-max"
+        >
+          <option value="">Any</option>
+          {PRIORITIES.map(p => <option key={p} value={p}>P{p}</option>)}
+        </select>
+      </div>
+
+      <span className="text-slate-500 font-medium">FLAGS</span>
+      <div className="flex flex-wrap items-center gap-3">
+        {FLAGS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-1 text-slate-400">
+            {label}
+            <select
+              value={flagValue(value[key])}
+              onChange={(e) => update({ [key]: e.target.value ? e.target.value === 'only' : null })}
+              className={SELECT_CLASS}
+              data-testid={`task-filter-${key}`}
+            >
+              <option value="">Either</option>
+              <option value="only">Yes</option>
+              <option value="exclude">No</option>
+            </select>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import * as MuiIcons from '@mui/icons-material';
+import {
+  useProjects,
+  useTags,
+  useStatuses,
+  useUpdateTask,
+  useFilteredTasks,
+  useSavedTaskFilters,
+  useCreateSavedTaskFilter,
+  useUpdateSavedTaskFilter,
+  useDeleteSavedTaskFilter,
+  pickTaskFilter,
+  isEmptyTaskFilter,
+  TASK_FILTER_FIELDS,
+} from '../../api';
+import { TaskModal } from '../../widgets/WeeklyKanban/TaskModal';
+import { DetailsTable } from '../Kanban/BoardColumns';
+import type { SavedTaskFilter, Task, TaskFilter } from '../../types';
+import { TaskFilterFields } from './TaskFilterFields';
+
+// Search param holding the open saved filter, e.g. /tasks/lists?filter=<id>
+const FILTER_PARAM = 'filter';
+
+interface FilterEditorProps {
+  saved: SavedTaskFilter | null; // null for a new, unsaved filter
+  onSelect: (id: string | null) => void;
+}
+
+/**
+ * FilterEditor - Criteria, save controls and matching tasks for one filter.
+ * Keyed by the saved filter, so switching filters starts from that filter's criteria.
+ */
+function FilterEditor({ saved, onSelect }: FilterEditorProps) {
+  const [draft, setDraft] = useState<TaskFilter>(() => (saved ? pickTaskFilter(saved) : {}));
+  const [name, setName] = useState(saved?.name ?? '');
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+
+  const { data: projectsData } = useProjects();
+  const { data: tagsData } = useTags();
+  const { data: statusesData } = useStatuses();
+  const projects = useMemo(() => (projectsData?.data ?? []).filter(p => !p.isDeleted), [projectsData?.data]);
+  const tags = useMemo(() => (tagsData?.data ?? []).filter(t => !t.isDeleted), [tagsData?.data]);
+  const statuses = useMemo(
+    () => (statusesData?.data ?? []).filter(s => !s.isDeleted).sort((a, b) => a.sortOrder - b.sortOrder),
+    [statusesData?.data]
+  );
+
+  const { data: tasksData, isLoading } = useFilteredTasks(draft);
+  const tasks = tasksData?.data ?? [];
+
+  const createFilter = useCreateSavedTaskFilter();
+  const updateFilter = useUpdateSavedTaskFilter();
+  const deleteFilter = useDeleteSavedTaskFilter();
+  const updateTask = useUpdateTask();
+
+  const handleUpdateTask = useCallback((id: string, updates: Partial<Task>) => {
+    updateTask.mutate({ id, ...updates }, {
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    });
+  }, [updateTask]);
+
+  // Every criterion is sent, cleared ones as null, so the saved filter matches the editor
+  const criteria = useMemo(() => {
+    const picked = pickTaskFilter(draft);
+    return Object.fromEntries(TASK_FILTER_FIELDS.map(key => [key, picked[key] ?? null])) as TaskFilter;
+  }, [draft]);
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      toast.error('Give the filter a name first');
+      return;
+    }
+    if (saved) {
+      updateFilter.mutate({ id: saved.id, name: name.trim(), ...criteria }, {
+        onSuccess: () => toast.success('Filter saved'),
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      });
+    } else {
+      createFilter.mutate({ name: name.trim(), ...criteria }, {
+        onSuccess: (response) => {
+          toast.success('Filter saved');
+          onSelect(response.data.id);
+        },
+        onError: (error) => {
+          toast.error(error.message);
+        },
+      });
+    }
+  };
+
+  const handleDelete = () => {
+    if (!saved || !confirm(`Delete the "${saved.name}" filter?`)) return;
+    deleteFilter.mutate(saved.id, {
+      onSuccess: () => onSelect(null),
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    });
+  };
+
+  const handleTogglePin = () => {
+    if (!saved) return;
+    updateFilter.mutate({ id: saved.id, isPinned: !saved.isPinned }, {
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    });
+  };
+
+  return (
+    <div className="flex-1 min-w-0 flex flex-col overflow-hidden">
+      {/* Name and actions */}
+      <div className="flex-shrink-0 px-3 py-2 border-b border-slate-700/30 flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Filter name, e.g. P1 overdue in Work"
+          maxLength={100}
+          className="flex-1 min-w-0 bg-transparent text-sm font-medium text-slate-200 placeholder-slate-500 focus:outline-none"
+          data-testid="smart-list-name"
+        />
+        {saved && (
+          <button
+            onClick={handleTogglePin}
+            className={`p-1.5 rounded transition-colors ${saved.isPinned ? 'text-teal-400' : 'text-slate-500 hover:text-white'}`}
+            title={saved.isPinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+            data-testid="smart-list-pin"
+          >
+            {saved.isPinned ? <MuiIcons.PushPin style={{ fontSize: 16 }} /> : <MuiIcons.PushPinOutlined style={{ fontSize: 16 }} />}
+          </button>
+        )}
+        {saved && (
+          <button
+            onClick={handleDelete}
+            className="p-1.5 rounded text-slate-500 hover:text-red-400 transition-colors"
+            title="Delete filter"
+            data-testid="smart-list-delete"
+          >
+            <MuiIcons.DeleteOutline style={{ fontSize: 16 }} />
+          </button>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={createFilter.isPending || updateFilter.isPending}
+          className="flex items-center gap-1 px-3 py-1.5 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white text-sm font-medium rounded transition-colors"
+          data-testid="smart-list-save"
+        >
+          <MuiIcons.Save style={{ fontSize: 16 }} />
+          Save
+        </button>
+      </div>
+
+      {/* Criteria */}
+      <div className="flex-shrink-0 px-3 py-2 border-b border-slate-700/30 bg-slate-800/20">
+        <TaskFilterFields
+          value={draft}
+          onChange={setDraft}
+          projects={projects}
+          tags={tags}
+          statuses={statuses}
+        />
+      </div>
+
+      {/* Matching tasks */}
+      <div className="flex-1 min-h-0 overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32 text-slate-400">
+            <MuiIcons.Sync className="animate-spin mr-2" />
+            <span>Loading...</span>
+          </div>
+        ) : tasks.length === 0 ? (
+          <div className="text-center py-12 text-slate-500 text-sm" data-testid="smart-list-empty">
+            {isEmptyTaskFilter(draft) ? 'Add some criteria to narrow the list' : 'No tasks match this filter'}
+          </div>
+        ) : (
+          <DetailsTable
+            tasks={tasks}
+            statuses={statuses}
+            projects={projects}
+            tags={tags}
+            onEditTask={setEditingTask}
+            onUpdateTask={handleUpdateTask}
+          />
+        )}
+      </div>
+
+      {editingTask && (
+        <TaskModal task={editingTask} onClose={() => setEditingTask(null)} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Smart Lists Page - Saved task filters
+ *
+ * Features:
+ * - Build a filter from projects, tags (any/all), statuses, priority range, text search,
+ *   and overdue / unscheduled / has-subtasks flags - filtering happens on the server
+ * - Save filters by name, pin them to the sidebar, and show them in the Smart List widget
+ * - Matching tasks in the detailed table, with inline editing
+ */
+export function SmartLists() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedId = searchParams.get(FILTER_PARAM);
+  const { data: filtersData, isLoading } = useSavedTaskFilters();
+  const filters = filtersData?.data ?? [];
+  const selected = filters.find(f => f.id === selectedId) ?? null;
+
+  const handleSelect = useCallback((id: string | null) => {
+    setSearchParams(id ? { [FILTER_PARAM]: id } : {});
+  }, [setSearchParams]);
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden" data-testid="smart-lists-page">
+      {/* Header */}
+      <div className="flex-shrink-0 px-3 py-2 border-b border-slate-700/50 bg-slate-800/30">
+        <div className="flex items-center gap-3">
+          <MuiIcons.FilterList className="text-teal-400" style={{ fontSize: 22 }} />
+          <span className="font-condensed font-semibold text-lg text-slate-200">Smart Lists</span>
+          <span className="text-sm text-slate-500">{filters.length} saved</span>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        {/* Saved filters */}
+        <div className="w-56 flex-shrink-0 border-r border-slate-700/30 overflow-y-auto p-2 space-y-0.5" data-testid="smart-list-saved">
+          <button
+            onClick={() => handleSelect(null)}
+            className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-sm transition-colors ${
+              !selectedId ? 'bg-slate-700/50 text-white' : 'text-slate-400 hover:bg-slate-700/30 hover:text-white'
+            }`}
+          >
+            <MuiIcons.Add style={{ fontSize: 16 }} />
+            New filter
+          </button>
+          {filters.map(filter => (
+            <button
+              key={filter.id}
+              onClick={() => handleSelect(filter.id)}
+              className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-sm text-left transition-colors ${
+                filter.id === selectedId ? 'bg-slate-700/50 text-white' : 'text-slate-300 hover:bg-slate-700/30 hover:text-white'
+              }`}
+              data-testid={`smart-list-${filter.id}`}
+            >
+              {filter.isPinned
+                ? <MuiIcons.PushPin style={{ fontSize: 14 }} className="text-teal-400 flex-shrink-0" />
+                : <MuiIcons.FilterList style={{ fontSize: 14 }} className="text-slate-500 flex-shrink-0" />}
+              <span className="flex-1 truncate">{filter.name}</span>
+              <span className="text-xs text-slate-500">{filter.taskCount ?? ''}</span>
+            </button>
+          ))}
+        </div>
+
+        {isLoading && selectedId ? (
+          <div className="flex-1 flex items-center justify-center text-slate-400">
+            <MuiIcons.Sync className="animate-spin mr-2" />
+            <span>Loading...</span>
+          </div>
+        ) : (
+          <FilterEditor key={selected?.id ?? 'new'} saved={selected} onSelect={handleSelect} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default SmartLists;
@@ -0,0 +1,120 @@
+import { useMemo } from 'react';
+import * as MuiIcons from '@mui/icons-material';
+import { eachDayOfInterval, format, parseISO, subDays } from 'date-fns';
+import { useFocusTotals, useSettings } from '../../api';
+import { getEffectiveDate } from '../../widgets/HabitMatrix/useHabitMatrix';
+
+// Days shown in the per-day chart, ending with the effective today
+const FOCUS_TOTALS_DAYS = 7;
+
+// 5400 -> "1h 30m", 1500 -> "25m"
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+/**
+ * FocusTotals - Focused time logged by the time block timer (work phases only),
+ * per day for the last week and per block.
+ */
+export function FocusTotals() {
+  const { data: settingsData } = useSettings();
+  const dayBoundaryHour = settingsData?.data?.dayBoundaryHour ?? 6;
+
+  const range = useMemo(() => {
+    const today = getEffectiveDate(new Date(), dayBoundaryHour);
+    return {
+      startDate: format(subDays(today, FOCUS_TOTALS_DAYS - 1), 'yyyy-MM-dd'),
+      endDate: format(today, 'yyyy-MM-dd'),
+    };
+  }, [dayBoundaryHour]);
+
+  const { data, isLoading } = useFocusTotals(range);
+  const totals = data?.data;
+
+  // Fill in days without sessions
+  const days = useMemo(() => {
+    const byDate = new Map(totals?.byDay.map((day) => [day.date, day]) ?? []);
+    return eachDayOfInterval({ start: parseISO(range.startDate), end: parseISO(range.endDate) }).map((date) => {
+      const key = format(date, 'yyyy-MM-dd');
+      return { date, key, totalSeconds: byDate.get(key)?.totalSeconds ?? 0 };
+    });
+  }, [totals, range]);
+
+  const maxDaySeconds = Math.max(...days.map((day) => day.totalSeconds), 1);
+  const maxBlockSeconds = Math.max(...(totals?.byBlock.map((block) => block.totalSeconds) ?? []), 1);
+  const todaySeconds = days[days.length - 1]?.totalSeconds ?? 0;
+
+  return (
+    <section
+      className="bg-slate-800/50 rounded-xl border border-slate-700/50 p-4 mb-6"
+      data-testid="focus-totals"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-sm font-semibold text-slate-200 flex items-center gap-2">
+          <MuiIcons.Timer style={{ fontSize: 18 }} className="text-teal-400" />
+          Focus Time
+        </h2>
+        <div className="flex items-center gap-4 text-xs text-slate-400">
+          <span>
+            Today <span className="text-white font-medium" data-testid="focus-totals-today">{formatDuration(todaySeconds)}</span>
+          </span>
+          <span>
+            Last {FOCUS_TOTALS_DAYS} days{' '}
+            <span className="text-white font-medium">{formatDuration(totals?.totalSeconds ?? 0)}</span>
+            {' '}({totals?.sessionCount ?? 0} session{totals?.sessionCount === 1 ? '' : 's'})
+          </span>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-32 flex items-center justify-center text-slate-500 text-sm">Loading...</div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Per day */}
+          <div className="flex items-end gap-2 h-32" data-testid="focus-totals-days">
+            {days.map((day) => (
+              <div key={day.key} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+                <div
+                  className="w-full rounded-t bg-gradient-to-t from-teal-600 to-teal-400"
+                  style={{ height: `${(day.totalSeconds / maxDaySeconds) * 100}%`, minHeight: day.totalSeconds > 0 ? 2 : 0 }}
+                  title={`${format(day.date, 'EEE, MMM d')}: ${formatDuration(day.totalSeconds)}`}
+                />
+                <span className="text-[10px] text-slate-500">{format(day.date, 'EEE')}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Per block */}
+          <div className="space-y-2" data-testid="focus-totals-blocks">
+            {totals?.byBlock.length ? (
+              totals.byBlock.map((block) => (
+                <div key={block.blockId}>
+                  <div className="flex justify-between text-xs mb-1">
+                    <span className="text-slate-300 truncate">{block.blockName}</span>
+                    <span className="text-slate-400 flex-shrink-0 ml-2">
+                      {formatDuration(block.totalSeconds)} · {block.sessionCount}
+                    </span>
+                  </div>
+                  <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-teal-500 to-blue-500"
+                      style={{ width: `${(block.totalSeconds / maxBlockSeconds) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-slate-500">
+                No focus sessions yet - run a time block timer to start logging.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default FocusTotals;
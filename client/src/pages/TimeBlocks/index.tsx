@@ -1,100 +1,140 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import * as MuiIcons from '@mui/icons-material';
-import { format, addHours, startOfDay } from 'date-fns';
-
-interface TimeBlock {
-  id: string;
-  title: string;
-  startTime: Date;
-  endTime: Date;
-  color: string;
-  category?: string;
+import { addDays, addHours, format, isSameDay, isToday, startOfDay, subDays } from 'date-fns';
+import { useTimeBlocks } from '../../api';
+import { BlockForm } from '../../widgets/TimeBlockPriorities/BlockForm';
+import { NowNextIndicator } from '../../widgets/TimeBlockPriorities/NowNextIndicator';
+import { getScheduledBlocks, type ScheduledBlock } from '../../widgets/TimeBlockPriorities/schedule';
+import { useNow } from '../../widgets/TimeBlockPriorities/useTimeBlockSchedule';
+import { FocusTotals } from './FocusTotals';
+import type { TimeBlock } from '../../types';
+
+// Hours shown by default; the grid grows to fit blocks scheduled outside them
+const DAY_START_HOUR = 6;
+const DAY_END_HOUR = 22;
+const HOUR_HEIGHT = 60; // px - one pixel per minute
+const MIN_BLOCK_HEIGHT = 24;
+const DEFAULT_BLOCK_COLOR = '#14b8a6';
+
+// A scheduled block with the side-by-side lane it's drawn in when blocks overlap
+interface PlacedBlock extends ScheduledBlock {
+  lane: number;
+}
+
+// Give overlapping blocks separate lanes (first free lane, earliest block first)
+function placeBlocks(scheduled: ScheduledBlock[]): { placed: PlacedBlock[]; laneCount: number } {
+  const laneEnds: Date[] = [];
+  const placed = scheduled.map((item) => {
+    let lane = laneEnds.findIndex((end) => end <= item.start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = item.end;
+    return { ...item, lane };
+  });
+  return { placed, laneCount: Math.max(laneEnds.length, 1) };
 }
 
-// Generate mock time blocks for today
-const today = startOfDay(new Date());
-const MOCK_TIME_BLOCKS: TimeBlock[] = [
-  {
-    id: '1',
-    title: 'Morning Routine',
-    startTime: addHours(today, 6),
-    endTime: addHours(today, 7),
-    color: '#f59e0b',
-    category: 'Personal',
-  },
-  {
-    id: '2',
-    title: 'Deep Work: Project Alpha',
-    startTime: addHours(today, 9),
-    endTime: addHours(today, 12),
-    color: '#14b8a6',
-    category: 'Work',
-  },
-  {
-    id: '3',
-    title: 'Lunch Break',
-    startTime: addHours(today, 12),
-    endTime: addHours(today, 13),
-    color: '#22c55e',
-    category: 'Personal',
-  },
-  {
-    id: '4',
-    title: 'Team Meeting',
-    startTime: addHours(today, 14),
-    endTime: addHours(today, 15),
-    color: '#8b5cf6',
-    category: 'Work',
-  },
-  {
-    id: '5',
-    title: 'Exercise',
-    startTime: addHours(today, 17),
-    endTime: addHours(today, 18),
-    color: '#ef4444',
-    category: 'Health',
-  },
-];
-
-// Generate hour slots from 6 AM to 10 PM
-const HOUR_SLOTS = Array.from({ length: 17 }, (_, i) => i + 6);
-
-function TimeBlockItem({ block }: { block: TimeBlock }) {
-  const startHour = block.startTime.getHours();
-  const endHour = block.endTime.getHours();
-  const duration = endHour - startHour;
-  const topOffset = (startHour - 6) * 60; // 60px per hour
-  const height = duration * 60;
+function getBlockColor(block: TimeBlock): string {
+  return block.linkedHabit?.iconColor || DEFAULT_BLOCK_COLOR;
+}
+
+function getOpenTasks(block: TimeBlock) {
+  return block.tasks?.filter((t) => !t.completedAt) ?? [];
+}
+
+function CalendarBlock({
+  item,
+  gridStartHour,
+  laneCount,
+  isNow,
+  onEdit,
+}: {
+  item: PlacedBlock;
+  gridStartHour: number;
+  laneCount: number;
+  isNow: boolean;
+  onEdit: (block: TimeBlock) => void;
+}) {
+  const { block, start, end, lane } = item;
+  const color = getBlockColor(block);
+  const openTasks = getOpenTasks(block);
+  const top = (start.getHours() - gridStartHour) * HOUR_HEIGHT + start.getMinutes();
+  const width = 100 / laneCount;
 
   return (
     <div
-      className="absolute left-16 right-4 rounded-lg px-3 py-2 cursor-pointer hover:opacity-90 transition-opacity overflow-hidden"
+      data-time-block-drop={block.id}
+      data-testid="calendar-block"
+      onClick={() => onEdit(block)}
+      className={`
+        absolute rounded-lg px-3 py-2 cursor-pointer hover:opacity-90 transition-opacity overflow-hidden
+        data-[drop-over=true]:ring-2 data-[drop-over=true]:ring-teal-400
+        ${isNow ? 'ring-1 ring-amber-400/60' : ''}
+      `}
       style={{
-        top: `${topOffset}px`,
-        height: `${height}px`,
-        backgroundColor: `${block.color}20`,
-        borderLeft: `3px solid ${block.color}`,
+        top: `${top}px`,
+        height: `${Math.max(block.durationMinutes, MIN_BLOCK_HEIGHT)}px`,
+        left: `calc(4rem + (100% - 5rem) * ${(lane * width) / 100})`,
+        width: `calc((100% - 5rem) * ${width / 100} - 4px)`,
+        backgroundColor: `${color}20`,
+        borderLeft: `3px solid ${color}`,
       }}
     >
-      <p className="font-medium text-white text-sm truncate">{block.title}</p>
+      <div className="flex items-center gap-2">
+        <p className="font-medium text-white text-sm truncate">{block.name}</p>
+        {block.autoStart && <MuiIcons.PlayCircleOutline style={{ fontSize: 14 }} className="text-blue-300 flex-shrink-0" titleAccess="Auto-starts" />}
+      </div>
       <p className="text-xs text-slate-400">
-        {format(block.startTime, 'h:mm a')} - {format(block.endTime, 'h:mm a')}
+        {format(start, 'h:mm a')} - {format(end, 'h:mm a')}
       </p>
-      {block.category && (
-        <span
-          className="inline-block mt-1 px-2 py-0.5 rounded text-xs"
-          style={{ backgroundColor: `${block.color}40`, color: block.color }}
-        >
-          {block.category}
-        </span>
+      {openTasks.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {openTasks.map((task) => (
+            <span
+              key={task.id}
+              className="px-2 py-0.5 rounded text-xs truncate max-w-[200px]"
+              style={{ backgroundColor: `${color}40`, color }}
+            >
+              {task.title}
+            </span>
+          ))}
+        </div>
       )}
     </div>
   );
 }
 
+/**
+ * TimeBlocks page - Day calendar of scheduled time blocks (by start time and weekday),
+ * with focus totals, a now/next indicator and the blocks not placed on the calendar yet.
+ * Tasks dragged from Weekly Tasks onto a block are assigned to it.
+ */
 export function TimeBlocks() {
-  const [blocks] = useState<TimeBlock[]>(MOCK_TIME_BLOCKS);
+  const [selectedDate, setSelectedDate] = useState(() => startOfDay(new Date()));
   const [viewMode, setViewMode] = useState<'day' | 'week' | 'agenda'>('day');
+  const [editingBlock, setEditingBlock] = useState<TimeBlock | null>(null);
+  const [newBlockStartTime, setNewBlockStartTime] = useState<string | null>(null);
+  const now = useNow();
+
+  const { data: blocksData, isLoading } = useTimeBlocks();
+  const blocks = useMemo(() => (blocksData?.data ?? []).filter((b) => !b.isDeleted), [blocksData?.data]);
+  const scheduled = useMemo(() => getScheduledBlocks(blocks, selectedDate), [blocks, selectedDate]);
+  const unscheduled = useMemo(() => blocks.filter((b) => !b.startTime), [blocks]);
+
+  // Grow the grid to fit blocks outside the default hours
+  const gridStartHour = Math.min(DAY_START_HOUR, ...scheduled.map((s) => s.start.getHours()));
+  const gridEndHour = Math.max(DAY_END_HOUR, ...scheduled.map((s) =>
+    isSameDay(s.end, selectedDate) ? Math.ceil(s.end.getHours() + s.end.getMinutes() / 60) : 24
+  ));
+  const hourSlots = Array.from({ length: gridEndHour - gridStartHour }, (_, i) => i + gridStartHour);
+  const { placed, laneCount } = useMemo(() => placeBlocks(scheduled), [scheduled]);
+
+  const viewingToday = isToday(selectedDate);
+  const nowOffset = (now.getHours() - gridStartHour) * HOUR_HEIGHT + now.getMinutes();
+
+  const handleCloseForm = () => {
+    setEditingBlock(null);
+    setNewBlockStartTime(null);
+  };
 
   return (
     <div className="p-6 max-w-6xl mx-auto">
@@ -105,9 +145,33 @@ export function TimeBlocks() {
             <MuiIcons.Schedule style={{ fontSize: 32 }} className="text-teal-400" />
             Time Blocks
           </h1>
-          <p className="text-slate-400 mt-1">
-            {format(new Date(), 'EEEE, MMMM d, yyyy')}
-          </p>
+          <div className="flex items-center gap-2 mt-1">
+            <button
+              onClick={() => setSelectedDate(subDays(selectedDate, 1))}
+              className="p-1 hover:bg-slate-700 rounded transition-colors text-slate-400 hover:text-white"
+              title="Previous day"
+            >
+              <MuiIcons.ChevronLeft style={{ fontSize: 20 }} />
+            </button>
+            <p className="text-slate-400" data-testid="time-blocks-date">
+              {format(selectedDate, 'EEEE, MMMM d, yyyy')}
+            </p>
+            <button
+              onClick={() => setSelectedDate(addDays(selectedDate, 1))}
+              className="p-1 hover:bg-slate-700 rounded transition-colors text-slate-400 hover:text-white"
+              title="Next day"
+            >
+              <MuiIcons.ChevronRight style={{ fontSize: 20 }} />
+            </button>
+            {!viewingToday && (
+              <button
+                onClick={() => setSelectedDate(startOfDay(new Date()))}
+                className="px-2 py-0.5 text-xs font-medium bg-teal-600/80 hover:bg-teal-500 text-white rounded transition-colors"
+              >
+                Today
+              </button>
+            )}
+          </div>
         </div>
         <div className="flex items-center gap-2">
           {/* View mode toggle */}
@@ -127,6 +191,7 @@ export function TimeBlocks() {
             ))}
           </div>
           <button
+            onClick={() => setNewBlockStartTime('')}
             className="flex items-center gap-2 px-4 py-2 bg-teal-600 hover:bg-teal-500 text-white rounded-lg transition-colors"
           >
             <MuiIcons.Add style={{ fontSize: 20 }} />
@@ -135,37 +200,50 @@ export function TimeBlocks() {
         </div>
       </div>
 
-      {/* Day View */}
+      <FocusTotals />
+
+      <NowNextIndicator className="mb-6" />
+
+      {/* Day View - click an empty hour to schedule a block there */}
       {viewMode === 'day' && (
-        <div className="bg-slate-800/50 rounded-xl border border-slate-700/50 overflow-hidden">
-          <div className="relative" style={{ height: `${17 * 60}px` }}>
+        <div className="bg-slate-800/50 rounded-xl border border-slate-700/50 overflow-hidden" data-testid="time-blocks-day">
+          <div className="relative" style={{ height: `${hourSlots.length * HOUR_HEIGHT}px` }}>
             {/* Hour lines */}
-            {HOUR_SLOTS.map((hour) => (
+            {hourSlots.map((hour) => (
               <div
                 key={hour}
-                className="absolute left-0 right-0 border-t border-slate-700/50"
-                style={{ top: `${(hour - 6) * 60}px` }}
+                onClick={() => setNewBlockStartTime(`${String(hour).padStart(2, '0')}:00`)}
+                className="absolute left-0 right-0 border-t border-slate-700/50 hover:bg-slate-700/20 cursor-pointer"
+                style={{ top: `${(hour - gridStartHour) * HOUR_HEIGHT}px`, height: `${HOUR_HEIGHT}px` }}
+                title="Add a block at this time"
               >
                 <span className="absolute left-2 -top-3 text-xs text-slate-500 bg-slate-800 px-1">
-                  {format(addHours(today, hour), 'h a')}
+                  {format(addHours(selectedDate, hour), 'h a')}
                 </span>
               </div>
             ))}
 
             {/* Time blocks */}
-            {blocks.map((block) => (
-              <TimeBlockItem key={block.id} block={block} />
+            {placed.map((item) => (
+              <CalendarBlock
+                key={item.block.id}
+                item={item}
+                gridStartHour={gridStartHour}
+                laneCount={laneCount}
+                isNow={item.start <= now && now < item.end}
+                onEdit={setEditingBlock}
+              />
             ))}
 
             {/* Current time indicator */}
-            <div
-              className="absolute left-12 right-0 border-t-2 border-red-500 z-10"
-              style={{
-                top: `${(new Date().getHours() - 6) * 60 + new Date().getMinutes()}px`,
-              }}
-            >
-              <div className="absolute -left-2 -top-1.5 w-3 h-3 bg-red-500 rounded-full" />
-            </div>
+            {viewingToday && (
+              <div
+                className="absolute left-12 right-0 border-t-2 border-red-500 z-10 pointer-events-none"
+                style={{ top: `${nowOffset}px` }}
+              >
+                <div className="absolute -left-2 -top-1.5 w-3 h-3 bg-red-500 rounded-full" />
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -182,47 +260,77 @@ export function TimeBlocks() {
       {/* Agenda View */}
       {viewMode === 'agenda' && (
         <div className="space-y-3">
-          {blocks
-            .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
-            .map((block) => (
+          {scheduled.map(({ block, start, end }) => (
+            <div
+              key={block.id}
+              data-time-block-drop={block.id}
+              onClick={() => setEditingBlock(block)}
+              className="flex items-center gap-4 bg-slate-800/50 rounded-xl p-4 border border-slate-700/50 hover:border-slate-600/50 transition-colors cursor-pointer data-[drop-over=true]:ring-2 data-[drop-over=true]:ring-teal-400"
+            >
               <div
-                key={block.id}
-                className="flex items-center gap-4 bg-slate-800/50 rounded-xl p-4 border border-slate-700/50 hover:border-slate-600/50 transition-colors"
-              >
-                <div
-                  className="w-1 h-12 rounded-full"
-                  style={{ backgroundColor: block.color }}
-                />
-                <div className="flex-1">
-                  <h3 className="font-medium text-white">{block.title}</h3>
-                  <p className="text-sm text-slate-400">
-                    {format(block.startTime, 'h:mm a')} - {format(block.endTime, 'h:mm a')}
-                  </p>
-                </div>
-                {block.category && (
-                  <span
-                    className="px-3 py-1 rounded-full text-xs font-medium"
-                    style={{ backgroundColor: `${block.color}20`, color: block.color }}
-                  >
-                    {block.category}
-                  </span>
-                )}
+                className="w-1 h-12 rounded-full"
+                style={{ backgroundColor: getBlockColor(block) }}
+              />
+              <div className="flex-1">
+                <h3 className="font-medium text-white">{block.name}</h3>
+                <p className="text-sm text-slate-400">
+                  {format(start, 'h:mm a')} - {format(end, 'h:mm a')}
+                </p>
               </div>
-            ))}
+              {getOpenTasks(block).length > 0 && (
+                <span className="px-3 py-1 rounded-full text-xs font-medium bg-slate-700/50 text-slate-300">
+                  {getOpenTasks(block).length} tasks
+                </span>
+              )}
+            </div>
+          ))}
         </div>
       )}
 
       {/* Empty state */}
-      {blocks.length === 0 && (
+      {!isLoading && scheduled.length === 0 && viewMode !== 'week' && (
         <div className="text-center py-12">
           <MuiIcons.Schedule style={{ fontSize: 64 }} className="text-slate-600 mb-4" />
-          <h3 className="text-lg font-medium text-slate-400 mb-2">No time blocks today</h3>
-          <p className="text-slate-500 mb-4">Create your first time block to start planning your day</p>
-          <button className="px-4 py-2 bg-teal-600 hover:bg-teal-500 text-white rounded-lg transition-colors">
+          <h3 className="text-lg font-medium text-slate-400 mb-2">
+            No time blocks {viewingToday ? 'today' : `on ${format(selectedDate, 'EEEE')}`}
+          </h3>
+          <p className="text-slate-500 mb-4">Give a block a start time to place it on the calendar</p>
+          <button
+            onClick={() => setNewBlockStartTime('')}
+            className="px-4 py-2 bg-teal-600 hover:bg-teal-500 text-white rounded-lg transition-colors"
+          >
             Create Time Block
           </button>
         </div>
       )}
+
+      {/* Blocks without a start time */}
+      {unscheduled.length > 0 && (
+        <div className="mt-6" data-testid="unscheduled-blocks">
+          <h2 className="text-sm font-semibold text-slate-300 mb-3">Unscheduled</h2>
+          <div className="flex flex-wrap gap-2">
+            {unscheduled.map((block) => (
+              <button
+                key={block.id}
+                data-time-block-drop={block.id}
+                onClick={() => setEditingBlock(block)}
+                className="px-3 py-2 rounded-lg bg-slate-800/50 border border-slate-700/50 hover:border-slate-600/50 text-sm text-slate-300 transition-colors data-[drop-over=true]:ring-2 data-[drop-over=true]:ring-teal-400"
+                title="Set a start time"
+              >
+                {block.name} <span className="text-slate-500">· {block.durationMinutes}m</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(editingBlock || newBlockStartTime !== null) && (
+        <BlockForm
+          block={editingBlock}
+          defaultStartTime={newBlockStartTime || undefined}
+          onClose={handleCloseForm}
+        />
+      )}
     </div>
   );
 }
@@ -1,4 +1,5 @@
 import * as MuiIcons from '@mui/icons-material';
+import { isTaskComplete } from '../../api';
 import type { Task } from '../../types';
 
 interface TaskSectionProps {
@@ -28,8 +29,8 @@ export function TaskSection({
   // Sort tasks: pending first, then by priority, then by sortOrder
   const sortedTasks = [...tasks].sort((a, b) => {
     // Pending tasks first
-    if (a.status !== b.status) {
-      return a.status === 'pending' ? -1 : 1;
+    if (isTaskComplete(a) !== isTaskComplete(b)) {
+      return isTaskComplete(a) ? 1 : -1;
     }
     // Then by priority (lower = higher priority)
     if (a.priority !== b.priority) {
@@ -39,7 +40,7 @@ export function TaskSection({
     return a.sortOrder - b.sortOrder;
   });
 
-  const completedCount = tasks.filter(t => t.status === 'complete').length;
+  const completedCount = tasks.filter(t => isTaskComplete(t)).length;
   const isPriority = variant === 'priority';
 
   return (
@@ -80,7 +81,7 @@ export function TaskSection({
           </div>
         ) : (
           sortedTasks.map((task) => {
-            const isComplete = task.status === 'complete';
+            const isComplete = isTaskComplete(task);
 
             return (
               <button
@@ -1,5 +1,5 @@
 import { useMemo } from 'react';
-import { useHabits, useTasks, useTimeBlocks, useUpdateHabitEntry, useCompleteTask, useUncompleteTask, useCreateTask, useCreateHabit } from '../../api';
+import { useHabits, useTasks, useTimeBlocks, useUpdateHabitEntry, useCompleteTask, useUncompleteTask, useCreateTask, useCreateHabit, isTaskComplete } from '../../api';
 import { useUIStore } from '../../stores';
 import type { Habit, Task, TimeBlock, HabitStatus } from '../../types';
 import { TodayHeader } from './TodayHeader';
@@ -55,7 +55,7 @@ export function Today() {
     if (!tasksData?.data) return [];
     return tasksData.data.filter((t: Task) =>
       !t.isDeleted &&
-      t.status === 'pending' &&
+      !isTaskComplete(t) &&
       t.priority !== undefined &&
       t.priority <= 2
     );
@@ -87,7 +87,7 @@ export function Today() {
 
   // Handle task completion toggle
   const handleTaskToggle = (task: Task) => {
-    if (task.status === 'complete') {
+    if (isTaskComplete(task)) {
       uncompleteTask.mutate(task.id);
     } else {
       completeTask.mutate(task.id);
@@ -99,7 +99,6 @@ export function Today() {
     createTask.mutate({
       title,
       plannedDate: today,
-      status: 'pending',
       sortOrder: 0,
     });
   };
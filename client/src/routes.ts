@@ -11,6 +11,7 @@ export const PAGE_ROUTES: Record<PageType, string> = {
   'kanban-status': '/kanban/status',
   'kanban-project': '/kanban/project',
   'kanban-category': '/kanban/category',
+  'smart-lists': '/tasks/lists',
   'projects': '/projects',
   'analytics': '/analytics',
   'manage': '/manage',
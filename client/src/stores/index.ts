@@ -3,3 +3,4 @@ export { useTimerStore, formatTime, formatTimeVerbose, POMODORO_PRESETS } from '
 export type { TimerMode, TimerPhase, TimerStatus, PomodoroPreset } from './timerStore';
 export { useUIStore, DEFAULT_RIGHT_SIDEBAR_MODULES } from './uiStore';
 export type { PageType, RightSidebarModuleType } from './uiStore';
+export { useSyncStore } from './syncStore';
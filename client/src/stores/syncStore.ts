@@ -0,0 +1,22 @@
+import { create } from 'zustand';
+
+// Offline mutation queue status (the queue itself lives in IndexedDB, see api/offlineQueue)
+interface SyncStore {
+  pendingCount: number; // Mutations waiting to be replayed
+  isSyncing: boolean; // Replay in progress
+  isOffline: boolean; // Last request could not reach the server
+
+  setPendingCount: (count: number) => void;
+  setSyncing: (syncing: boolean) => void;
+  setOffline: (offline: boolean) => void;
+}
+
+export const useSyncStore = create<SyncStore>((set) => ({
+  pendingCount: 0,
+  isSyncing: false,
+  isOffline: false,
+
+  setPendingCount: (count) => set({ pendingCount: count }),
+  setSyncing: (syncing) => set({ isSyncing: syncing }),
+  setOffline: (offline) => set({ isOffline: offline }),
+}));
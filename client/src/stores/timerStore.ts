@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { ActiveTimer } from '../types';
 
 export type TimerMode = 'pomodoro' | 'stopwatch' | 'countdown';
 export type TimerPhase = 'work' | 'break' | 'longBreak';
@@ -29,7 +30,8 @@ interface TimerState {
   remainingSeconds: number;
   elapsedSeconds: number; // For stopwatch mode
   totalSeconds: number;
-  startedAt: number | null;
+  startedAt: number | null; // Epoch ms when elapsedSeconds was 0 (moved forward by pauses) - ticks count from here
+
 
   // Pomodoro specific
   pomodoroPresetIndex: number;
@@ -37,6 +39,10 @@ interface TimerState {
   currentPhase: TimerPhase;
   completedSessions: number;
 
+  // What the run is spent on (logged with the focus session)
+  focusTaskId: string | null; // Task being worked on, if picked
+  focusPriorityId: string | null; // Block priority being worked on, if picked
+
   // Audio
   audioEnabled: boolean;
 
@@ -48,6 +54,7 @@ interface TimerState {
   setPomodoroPreset: (index: number) => void;
   setCustomPomodoro: (preset: Partial<PomodoroPreset>) => void;
   setAudioEnabled: (enabled: boolean) => void;
+  setFocusTarget: (target: { taskId?: string | null; priorityId?: string | null }) => void;
 
   startTimer: (blockId: string, durationMinutes?: number) => void;
   pauseTimer: () => void;
@@ -55,6 +62,7 @@ interface TimerState {
   stopTimer: () => void;
   resetTimer: (durationMinutes?: number) => void;
   tick: () => void;
+  hydrate: (timer: ActiveTimer | null) => void;
 
   // Pomodoro specific
   skipToNextPhase: () => void;
@@ -76,6 +84,8 @@ export const useTimerStore = create<TimerState>()(
       customPomodoro: { name: 'Custom', workMinutes: 25, breakMinutes: 5, longBreakMinutes: 15, sessionsBeforeLongBreak: 4 },
       currentPhase: 'work',
       completedSessions: 0,
+      focusTaskId: null,
+      focusPriorityId: null,
       audioEnabled: true,
       isRunning: false,
 
@@ -105,6 +115,11 @@ export const useTimerStore = create<TimerState>()(
 
       setAudioEnabled: (enabled) => set({ audioEnabled: enabled }),
 
+      setFocusTarget: ({ taskId = null, priorityId = null }) => set({
+        focusTaskId: taskId,
+        focusPriorityId: priorityId,
+      }),
+
       startTimer: (blockId, durationMinutes) => {
         const state = get();
         const preset = state.pomodoroPresetIndex === 2
@@ -131,6 +146,9 @@ export const useTimerStore = create<TimerState>()(
           seconds = 0; // Stopwatch counts up
         }
 
+        // Switching blocks drops the previous block's task/priority
+        const sameBlock = state.activeBlockId === blockId;
+
         set({
           activeBlockId: blockId,
           remainingSeconds: state.mode === 'stopwatch' ? 0 : seconds,
@@ -139,6 +157,8 @@ export const useTimerStore = create<TimerState>()(
           status: 'running',
           isRunning: true,
           startedAt: Date.now(),
+          focusTaskId: sameBlock ? state.focusTaskId : null,
+          focusPriorityId: sameBlock ? state.focusPriorityId : null,
         });
       },
 
@@ -147,11 +167,11 @@ export const useTimerStore = create<TimerState>()(
         isRunning: false
       }),
 
-      resumeTimer: () => set({
+      resumeTimer: () => set((state) => ({
         status: 'running',
         isRunning: true,
-        startedAt: Date.now()
-      }),
+        startedAt: Date.now() - state.elapsedSeconds * 1000
+      })),
 
       stopTimer: () => set({
         activeBlockId: null,
@@ -162,6 +182,8 @@ export const useTimerStore = create<TimerState>()(
         isRunning: false,
         startedAt: null,
         currentPhase: 'work',
+        focusTaskId: null,
+        focusPriorityId: null,
       }),
 
       resetTimer: (durationMinutes) => {
@@ -201,15 +223,18 @@ export const useTimerStore = create<TimerState>()(
         const state = get();
         if (state.status !== 'running') return;
 
+        // Measure from the wall clock so throttled background tabs don't fall behind
+        const elapsed = Math.floor((Date.now() - (state.startedAt ?? Date.now())) / 1000);
+
         if (state.mode === 'stopwatch') {
           // Count up for stopwatch
-          set({ elapsedSeconds: state.elapsedSeconds + 1 });
+          set({ elapsedSeconds: elapsed });
         } else {
           // Count down for pomodoro and countdown
           if (state.remainingSeconds > 0) {
             set({
-              remainingSeconds: state.remainingSeconds - 1,
-              elapsedSeconds: state.elapsedSeconds + 1,
+              remainingSeconds: Math.max(0, state.totalSeconds - elapsed),
+              elapsedSeconds: Math.min(elapsed, state.totalSeconds),
             });
           } else {
             // Timer complete
@@ -279,6 +304,43 @@ export const useTimerStore = create<TimerState>()(
         });
       },
 
+      // Take on the server's timer state (null = no timer anywhere)
+      hydrate: (timer) => {
+        if (!timer) {
+          if (get().activeBlockId) {
+            set({
+              activeBlockId: null,
+              remainingSeconds: 0,
+              elapsedSeconds: 0,
+              totalSeconds: 0,
+              status: 'idle',
+              isRunning: false,
+              startedAt: null,
+              currentPhase: 'work',
+              focusTaskId: null,
+              focusPriorityId: null,
+            });
+          }
+          return;
+        }
+
+        const isRunning = timer.status === 'running';
+        set({
+          activeBlockId: timer.blockId,
+          mode: timer.mode,
+          status: timer.status,
+          currentPhase: timer.phase,
+          completedSessions: timer.completedSessions,
+          totalSeconds: timer.durationSeconds,
+          elapsedSeconds: timer.elapsedSeconds,
+          remainingSeconds: timer.status === 'idle' ? timer.durationSeconds : timer.remainingSeconds,
+          startedAt: isRunning ? Date.now() - timer.elapsedSeconds * 1000 : null,
+          isRunning,
+          focusTaskId: timer.taskId ?? null,
+          focusPriorityId: timer.priorityId ?? null,
+        });
+      },
+
       resetSessions: () => set({
         completedSessions: 0,
         currentPhase: 'work',
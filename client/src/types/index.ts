@@ -31,6 +31,15 @@ export const STATUS_COLORS: Record<HabitStatus, string> = {
   gray_missed: '#666666', // Gray for low frequency habits - same as N/A but counts as missed
 };
 
+// Habit Schedule Types
+// daily = every day, weekdays = specific days of week, weekly/monthly = N times per period,
+// interval = every N days counted from the last completion
+export type HabitScheduleType = 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'interval';
+
+export const HABIT_SCHEDULE_TYPES: HabitScheduleType[] = [
+  'daily', 'weekdays', 'weekly', 'monthly', 'interval'
+];
+
 // Category
 export interface Category {
   id: string;
@@ -61,6 +70,13 @@ export interface Habit {
   targetPercentage?: number; // Completion % for green (default: 90)
   warningPercentage?: number; // Completion % for yellow/red boundary (default: 75)
   grayMissedWhenOnTrack?: boolean; // Low frequency habit - show gray instead of pink when on track
+  dailyTarget?: number | null; // Count-based habits: count needed per day (null = not count-based)
+  unit?: string | null; // Count unit label, e.g. "glasses"
+  maxCount?: number | null; // Optional daily count cap (defaults to dailyTarget)
+  scheduleType?: HabitScheduleType; // Default 'daily'
+  scheduleDays?: number[] | null; // Weekday numbers (0 = Sunday) for 'weekdays' schedules
+  scheduleCount?: number | null; // Times per week/month, or interval length in days
+  reminderTime?: string | null; // HH:MM local time to notify while unmarked (null = no reminder)
   isDeleted: boolean;
   deletedAt?: string;
   createdAt: string;
@@ -80,6 +96,42 @@ export interface HabitEntry {
   updatedAt: string;
 }
 
+// Markdown habit import diff (POST /api/habits/import) - new rows are created, matched ones left as they are
+export type HabitImportStatus = 'new' | 'matched';
+
+export interface HabitImportResult {
+  dryRun: boolean;
+  habitsCreated?: number; // Only when committed
+  categoriesCreated?: number;
+  categories: { name: string; status: HabitImportStatus }[];
+  habits: {
+    line: number;
+    name: string;
+    categoryName: string | null;
+    parentName: string | null;
+    status: HabitImportStatus;
+  }[];
+  skipped: { line: number; text: string; reason: string }[];
+}
+
+// Habit completion rate over a trailing window of days
+export interface HabitCompletionRate {
+  days: number; // Window length, ending today (7, 30, 90, 365)
+  rate: number; // 0-100
+  earned: number; // Sum of per-day credit (partial = 0.5, count-based = count/target)
+  counted: number; // Days in the denominator (N/A, Exempt and unscheduled days excluded)
+}
+
+// Habit statistics (computed server-side from habit entries)
+export interface HabitStats {
+  habitId: string;
+  currentStreak: number;
+  longestStreak: number;
+  completionRates: HabitCompletionRate[];
+  bestWeekday: { weekday: number; rate: number } | null; // weekday: 0 = Sunday
+  statusDistribution: Partial<Record<HabitStatus, number>>;
+}
+
 // Project
 export interface Project {
   id: string;
@@ -98,6 +150,8 @@ export interface Project {
   createdAt: string;
   updatedAt: string;
   tasks?: Task[];
+  taskCount?: number; // Non-deleted tasks (list endpoint only)
+  completedTaskCount?: number; // Completed tasks (list endpoint only)
 }
 
 // Tag
@@ -110,7 +164,7 @@ export interface Tag {
   createdAt: string;
 }
 
-// Task Status (legacy - for backward compatibility)
+// Task Status (legacy - derived from the workflow status, read-only)
 export type TaskStatus = 'pending' | 'complete';
 
 // Task Status Entity (new dynamic statuses)
@@ -126,6 +180,9 @@ export interface TaskStatusEntity {
   breakoutChildren?: TaskStatusEntity[];
   isDefault: boolean;
   isInitialStatus: boolean;
+  isTerminal: boolean; // Tasks in this status are complete
+  allowedTransitions?: string[] | null; // Statuses tasks may move to from here; null = workflow default
+  wipLimit?: number | null; // Max top-level tasks in this status; null = unbounded
   sortOrder: number;
   isDeleted: boolean;
   deletedAt?: string;
@@ -133,25 +190,58 @@ export interface TaskStatusEntity {
   updatedAt: string;
 }
 
+// Task recurrence
+// daily = every N days, weekly = every N weeks on weekdays, monthly = every N months on monthDay
+export type TaskRecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface TaskRecurrence {
+  frequency: TaskRecurrenceFrequency;
+  interval: number; // Every N days/weeks/months
+  weekdays?: number[] | null; // Weekday numbers (0 = Sunday); weekly only, defaults to the start day
+  monthDay?: number | null; // Day of month; monthly only, defaults to the start day
+  untilDate?: string | null; // Last possible occurrence YYYY-MM-DD
+}
+
+// Which occurrences an edit to a recurring task applies to
+export type TaskEditScope = 'this' | 'future';
+
+// Task Series (recurrence rule + template for its occurrences)
+export interface TaskSeries extends TaskRecurrence {
+  id: string;
+  title: string;
+  description?: string;
+  priority?: number;
+  projectId?: string | null;
+  timeBlockId?: string | null;
+  tagIds?: string[];
+  startDate: string; // YYYY-MM-DD, anchor for interval counting
+  isDeleted: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Task
 export interface Task {
   id: string;
   title: string;
   description?: string;
   plannedDate?: string; // ISO date string YYYY-MM-DD
-  status: TaskStatus; // DEPRECATED - use statusId
-  statusId?: string; // New: references task_statuses table
+  status: TaskStatus; // DEPRECATED - derived from statusId, read-only (use isTaskComplete)
+  statusId?: string; // Workflow status (references task_statuses table)
   taskStatus?: TaskStatusEntity; // Populated status entity
   parentTaskId?: string; // Self-reference for parent/child (subtask) relationships
   parent?: Task;
   children?: Task[];
   priority?: number;
-  projectId?: string;
+  projectId?: string | null;
   project?: Project;
-  timeBlockId?: string;
+  timeBlockId?: string | null;
   timeBlock?: TimeBlock;
   sortOrder: number;
-  completedAt?: string;
+  completedAt?: string; // Set while the task is in a terminal status
+  seriesId?: string | null; // Recurring task series this occurrence belongs to
+  seriesDate?: string | null; // Occurrence date within the series
+  series?: TaskSeries | null;
   isDeleted: boolean;
   deletedAt?: string;
   createdAt: string;
@@ -159,6 +249,56 @@ export interface Task {
   tags?: Tag[];
 }
 
+// Task Dependency (taskId can't start until dependsOnTaskId is complete)
+export type TaskDependencyTask = Pick<Task, 'id' | 'title' | 'projectId' | 'statusId' | 'completedAt' | 'isDeleted'>;
+
+export interface TaskDependency {
+  id: string;
+  taskId: string; // The blocked task
+  dependsOnTaskId: string; // The task blocking it
+  task: TaskDependencyTask;
+  dependsOn: TaskDependencyTask;
+  createdAt: string;
+}
+
+// Task filter criteria - all optional; the three-way flags select matching tasks when true
+// and the rest when false (GET /api/tasks query params, or the fields of a saved filter)
+export interface TaskFilter {
+  projectIds?: string[] | null;
+  tagIds?: string[] | null;
+  tagMatch?: 'any' | 'all' | null;
+  statusIds?: string[] | null;
+  status?: 'pending' | 'complete' | null;
+  priorityMin?: number | null;
+  priorityMax?: number | null;
+  search?: string | null;
+  overdue?: boolean | null; // Open and planned before today
+  hasSubtasks?: boolean | null;
+  unscheduled?: boolean | null; // No planned date
+}
+
+// Saved Task Filter (a named filter, optionally pinned in the sidebar)
+export interface SavedTaskFilter extends TaskFilter {
+  id: string;
+  name: string;
+  isPinned: boolean;
+  sortOrder: number;
+  taskCount?: number; // Matching tasks, included in the list response
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Task Status Event (one entry in a task's status history)
+export interface TaskStatusEvent {
+  id: string;
+  taskId: string;
+  fromStatusId: string | null; // null when the task was created
+  toStatusId: string;
+  fromStatus?: TaskStatusEntity | null;
+  toStatus?: TaskStatusEntity;
+  changedAt: string;
+}
+
 // Task Tag (junction)
 export interface TaskTag {
   id: string;
@@ -174,11 +314,15 @@ export interface TimeBlock {
   linkedHabitId?: string;
   linkedHabit?: Habit;
   sortOrder: number;
+  startTime?: string | null; // HH:MM on the day calendar (null = unscheduled)
+  weekdays?: number[] | null; // Days the block recurs on (0 = Sunday, null = every day)
+  autoStart: boolean; // Start the timer automatically at startTime
   isDeleted: boolean;
   deletedAt?: string;
   createdAt: string;
   updatedAt: string;
   priorities?: TimeBlockPriority[];
+  tasks?: Task[]; // Tasks assigned to the block (not deleted)
 }
 
 // Time Block Priority
@@ -191,12 +335,66 @@ export interface TimeBlockPriority {
   createdAt: string;
 }
 
+// Focus Session (one timer run on a time block)
+export type FocusSessionMode = 'pomodoro' | 'stopwatch' | 'countdown';
+export type FocusSessionPhase = 'work' | 'break' | 'longBreak';
+
+export interface FocusSession {
+  id: string;
+  blockId: string;
+  taskId?: string | null;
+  priorityId?: string | null;
+  mode: FocusSessionMode;
+  phase: FocusSessionPhase; // Always 'work' outside pomodoro mode
+  date: string; // Effective day (YYYY-MM-DD)
+  startedAt: string;
+  endedAt: string;
+  durationSeconds: number; // Excludes pauses
+  interruptions: number; // Times paused
+  completed: boolean; // Ran to the end
+  createdAt: string;
+  block?: TimeBlock;
+  task?: Task | null;
+  priority?: TimeBlockPriority | null;
+}
+
+// Active timer (server-side, shared by every client)
+export interface ActiveTimer {
+  id: string;
+  blockId: string;
+  taskId?: string | null;
+  priorityId?: string | null;
+  mode: FocusSessionMode;
+  phase: FocusSessionPhase;
+  status: 'idle' | 'running' | 'paused' | 'complete';
+  durationSeconds: number; // Phase length (0 for stopwatch)
+  startedAt?: string | null;
+  pausedAt?: string | null;
+  pausedSeconds: number;
+  interruptions: number;
+  completedSessions: number;
+  elapsedSeconds: number; // As of serverTime
+  remainingSeconds: number; // As of serverTime
+  serverTime: string;
+  updatedAt: string;
+}
+
+// Focused (work phase) time totals for a date range
+export interface FocusTotals {
+  totalSeconds: number;
+  sessionCount: number;
+  byDay: { date: string; totalSeconds: number; sessionCount: number }[];
+  byBlock: { blockId: string; blockName: string; totalSeconds: number; sessionCount: number }[];
+}
+
 // Measurement
 export interface Measurement {
   id: string;
   type: string; // 'weight', 'steps', etc.
   name: string;
   unit?: string;
+  formula?: string | null; // Derived measurements: computed from other measurements (e.g. 'weight / (height / 100)^2')
+  variables?: Record<string, string> | null; // Formula variable name -> source measurement id
   createdAt: string;
   entries?: MeasurementEntry[];
   targets?: MeasurementTarget[];
@@ -218,11 +416,98 @@ export interface MeasurementTarget {
   startValue: number;
   goalValue: number;
   reachGoalValue?: number; // Optional stretch/reach goal
+  name?: string | null; // Phase label, e.g. 'Cut' or 'Bulk'
   startDate: string;
   goalDate: string;
+  closedDate?: string | null; // Set when the phase was ended (null = open)
   createdAt: string;
 }
 
+// How imported readings from the same day are combined
+export type MeasurementImportDedupe = 'latest' | 'average' | 'min';
+
+// Options for POST /measurements/:id/entries/import
+export interface MeasurementImportOptions {
+  dedupe: MeasurementImportDedupe;
+  existing: 'replace' | 'skip'; // Days that already have an entry
+  unit?: string; // Unit of rows that don't say
+  dateOrder: 'mdy' | 'dmy'; // How to read slashed dates like 03/04/2026
+  dryRun?: boolean;
+}
+
+// Result of a measurement entry import
+export interface MeasurementImportReport {
+  dryRun: boolean;
+  columns: { date: string; value: string; unit: string | null }; // Columns the values were read from
+  created: number;
+  updated: number;
+  merged: number; // Rows folded into another reading from the same day
+  skippedCount: number;
+  skipped: { row: number; reason: string }[]; // First 100 skipped rows
+}
+
+// A dated value on a measurement graph line
+export interface GraphPoint {
+  date: string;
+  value: number;
+}
+
+// Where the latest entry stands against the target line
+export type ScheduleStatus = 'ahead' | 'on-track' | 'behind';
+
+// A target phase on the graph, drawn over its own window (startDate to endDate)
+export interface MeasurementPhase {
+  id: string;
+  name: string | null;
+  startValue: number;
+  goalValue: number;
+  reachGoalValue: number | null;
+  startDate: string;
+  goalDate: string;
+  closedDate: string | null;
+  endDate: string; // closedDate when the phase was ended early, otherwise goalDate
+  isCurrent: boolean;
+  targetLine: GraphPoint[];
+  stats: {
+    entryCount: number; // Entries inside the phase window
+    endValue: number | null; // Latest entry inside the window
+    plannedChange: number; // goalValue - startValue
+    plannedChangeToDate: number | null; // What the plan called for by the latest entry
+    achievedChange: number | null; // Latest entry - startValue
+    percentAchieved: number | null; // achievedChange as a percentage of plannedChange
+  };
+}
+
+// Target line graph data (GET /measurements/:id/graph-data)
+export interface MeasurementGraphData {
+  measurement: Measurement;
+  entries: GraphPoint[];
+  trendLine: GraphPoint[]; // Rolling average of the entries
+  target: {
+    id: string;
+    name: string | null;
+    startValue: number;
+    goalValue: number;
+    reachGoalValue: number | null;
+    startDate: string;
+    goalDate: string;
+    targetLine: GraphPoint[];
+    reachGoalLine: GraphPoint[];
+    band: { date: string; lower: number; upper: number }[]; // "On track" range around the target line
+  } | null; // Current phase - the latest open one
+  phases: MeasurementPhase[]; // Every phase, oldest first
+  projection: {
+    paceDays: number; // Days of recent entries the forecast is fitted to
+    linear: { date: string | null; ratePerDay: number } | null; // date null = not heading for the goal
+    exponential: { date: string | null; dailyChangePercent: number } | null;
+  } | null;
+  schedule: {
+    status: ScheduleStatus;
+    deltaValue: number; // Units ahead of the target line (negative = behind)
+    deltaDays: number | null; // Days the linear projection beats the goal date by
+  } | null;
+}
+
 // Parking Lot Item
 export interface ParkingLotItem {
   id: string;
@@ -355,6 +640,24 @@ export interface Widget {
   config?: Record<string, unknown>;
 }
 
+// Data export archive (GET /api/export) - rows keyed by table, uploads as base64
+export interface DataArchive {
+  format: 'habitarcade-export';
+  version: number;
+  exportedAt: string;
+  tables: Record<string, Record<string, unknown>[]>;
+  uploads: { path: string; data: string }[];
+}
+
+// merge: add alongside existing data, replace: wipe and restore
+export type DataImportMode = 'merge' | 'replace';
+
+export interface DataImportResult {
+  mode: DataImportMode;
+  tables: Record<string, { imported: number; matched: number }>;
+  uploads: { written: number; skipped: number };
+}
+
 // API Response types
 export interface ApiResponse<T> {
   data: T;
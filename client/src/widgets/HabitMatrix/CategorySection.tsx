@@ -1,16 +1,62 @@
 import { memo, useState, useMemo, useCallback } from 'react';
+import { format } from 'date-fns';
 import type { DateColumn, MatrixHabit } from './useHabitMatrix';
 import type { Category } from '../../types';
 import { HabitRow, HabitRowCompact } from './HabitRow';
 import { StatusCell } from './StatusCell';
-import { getHabitStatus, getEffectiveHabitStatus, getEffectiveDate, isHabitOnTrack } from './useHabitMatrix';
-import { useSettings } from '../../api';
+import { getHabitStatus, getEffectiveHabitStatus, getEffectiveDate, getEntryCredit, isHabitOnTrack, hasSchedule, isHabitDueOn } from './useHabitMatrix';
+import { useSettings, useBulkHabitStats } from '../../api';
 import { useUIStore } from '../../stores';
 import { RadialDial } from './RadialDial';
 
 // Storage key for persisting expanded parent habits
 const STORAGE_KEY_EXPANDED_PARENTS = 'habitMatrix:expandedParents';
 
+// Trailing window (days) for the category consistency dial
+const CATEGORY_STATS_WINDOW = 30;
+
+/**
+ * Category consistency dial - completion rate over the last 30 days across the
+ * category's habits, aggregated from the server-side habit stats.
+ * Parent habits contribute through their children (parents have no entries of their own).
+ */
+const CategoryStatsDial = memo(function CategoryStatsDial({
+  habits,
+  effectiveToday,
+  size,
+}: {
+  habits: MatrixHabit[];
+  effectiveToday: Date;
+  size: number;
+}) {
+  // All categories share one bulk stats query
+  const { data: statsResponse } = useBulkHabitStats(undefined, format(effectiveToday, 'yyyy-MM-dd'));
+
+  const percentage = useMemo(() => {
+    const habitIds = new Set(
+      habits.flatMap(h => (h.childHabits?.length ? h.childHabits.map(c => c.id) : [h.id]))
+    );
+    let earned = 0;
+    let counted = 0;
+    (statsResponse?.data || [])
+      .filter(stats => habitIds.has(stats.habitId))
+      .forEach(stats => {
+        const rate = stats.completionRates.find(r => r.days === CATEGORY_STATS_WINDOW);
+        earned += rate?.earned ?? 0;
+        counted += rate?.counted ?? 0;
+      });
+    return counted > 0 ? Math.round((earned / counted) * 100) : null;
+  }, [habits, statsResponse]);
+
+  if (percentage === null) return null;
+
+  return (
+    <span className="flex-shrink-0 inline-flex" data-testid="category-stats-dial">
+      <RadialDial percentage={percentage} size={size} strokeWidth={2} />
+    </span>
+  );
+});
+
 /**
  * Helper component for rendering a habit row inside the CSS Grid
  * Uses display:contents so children participate in parent grid
@@ -43,6 +89,7 @@ const CategoryHabitRow = memo(function CategoryHabitRow({
   const { data: settingsResponse } = useSettings();
   const autoMarkPink = settingsResponse?.data?.autoMarkPink ?? false;
   const dayBoundaryHour = settingsResponse?.data?.dayBoundaryHour ?? 0;
+  const weekStartDay = settingsResponse?.data?.weekStartDay ?? 0;
 
   const effectiveToday = useMemo(
     () => getEffectiveDate(new Date(), dayBoundaryHour),
@@ -62,33 +109,27 @@ const CategoryHabitRow = memo(function CategoryHabitRow({
 
   // Calculate completion percentage
   const completionPercent = useMemo(() => {
-    let completed = 0;
-    let partial = 0;
+    let earned = 0;
     let exempt = 0;
     let na = 0;
     let emptyDays = 0;
     let countedCells = 0;
-    const includeEmptyInDenominator = habit.grayMissedWhenOnTrack ?? false;
+    const includeEmptyInDenominator = (habit.grayMissedWhenOnTrack ?? false) || hasSchedule(habit);
     const todayIndex = dates.findIndex(d => d.isToday);
 
     for (let i = 0; i < dates.length; i++) {
       const dateCol = dates[i];
-      const status = getHabitStatus(habit, dateCol.date);
-      const hasEntry = status !== 'empty';
+      const rawStatus = getHabitStatus(habit, dateCol.date);
+      const status = rawStatus === 'empty' && !isHabitDueOn(habit, dateCol.date, weekStartDay) ? 'na' : rawStatus;
+      const hasEntry = rawStatus !== 'empty';
 
       if (todayIndex >= 0 && i > todayIndex) continue;
       const shouldCount = !dateCol.isToday || hasEntry;
       if (!shouldCount) continue;
 
       countedCells++;
+      earned += getEntryCredit(habit, habit.entriesByDate.get(dateCol.date));
       switch (status) {
-        case 'complete':
-        case 'extra':
-          completed++;
-          break;
-        case 'partial':
-          partial++;
-          break;
         case 'exempt':
           exempt++;
           break;
@@ -104,8 +145,8 @@ const CategoryHabitRow = memo(function CategoryHabitRow({
     const excluded = exempt + na + (includeEmptyInDenominator ? 0 : emptyDays);
     const effectiveTotal = countedCells - excluded;
     if (effectiveTotal <= 0) return 0;
-    return Math.round(((completed + partial * 0.5) / effectiveTotal) * 100);
-  }, [habit, dates]);
+    return Math.round((earned / effectiveTotal) * 100);
+  }, [habit, dates, weekStartDay]);
 
   const getScoreColor = (pct: number) => {
     const target = habit.targetPercentage ?? 90;
@@ -178,7 +219,7 @@ const CategoryHabitRow = memo(function CategoryHabitRow({
         if (hasChildren && habit.computedStatusByDate) {
           status = habit.computedStatusByDate.get(dateCol.date) || 'empty';
         } else {
-          status = getEffectiveHabitStatus(habit, dateCol.date, dateCol.isToday, dateCol.isFuture, autoMarkPink, effectiveToday);
+          status = getEffectiveHabitStatus(habit, dateCol.date, dateCol.isToday, dateCol.isFuture, autoMarkPink, effectiveToday, weekStartDay);
         }
 
         const dayOfMonth = dateCol.date.split('-')[2].replace(/^0/, '');
@@ -205,6 +246,9 @@ const CategoryHabitRow = memo(function CategoryHabitRow({
               size={cellSize}
               cellHeight={cellHeight}
               currentCount={currentCount}
+              dailyTarget={habit.dailyTarget ?? undefined}
+              maxCount={habit.maxCount ?? undefined}
+              unit={habit.unit ?? undefined}
               isParentHabit={hasChildren}
               siblingCompleted={siblingCompleted}
             />
@@ -280,6 +324,7 @@ export const CategorySection = memo(function CategorySection({
   const { data: settingsResponse } = useSettings();
   const autoMarkPink = settingsResponse?.data?.autoMarkPink ?? false;
   const dayBoundaryHour = settingsResponse?.data?.dayBoundaryHour ?? 0;
+  const weekStartDay = settingsResponse?.data?.weekStartDay ?? 0;
 
   // Calculate effective today (considering day boundary)
   const effectiveToday = useMemo(
@@ -335,15 +380,17 @@ export const CategorySection = memo(function CategorySection({
           dateCol.isToday,
           dateCol.isFuture,
           autoMarkPink,
-          effectiveToday
+          effectiveToday,
+          weekStartDay
         );
 
         // Check if this habit is "not expected" today
         // This happens for low-frequency habits that show as gray_missed (on track)
-        // or empty low-frequency habits that are on track
+        // or empty low-frequency habits that are on track, or days the habit isn't scheduled
         const isLowFrequency = habit.grayMissedWhenOnTrack ?? false;
         const isOnTrack = isLowFrequency && isHabitOnTrack(habit, effectiveToday);
-        const isNotExpectedToday = isOnTrack && (rawStatus === 'empty' || effectiveStatus === 'gray_missed');
+        const isNotScheduled = rawStatus === 'empty' && effectiveStatus === 'na';
+        const isNotExpectedToday = isNotScheduled || (isOnTrack && (rawStatus === 'empty' || effectiveStatus === 'gray_missed'));
 
         if (isNotExpectedToday) {
           notExpected++;
@@ -367,7 +414,7 @@ export const CategorySection = memo(function CategorySection({
 
       return { date: dateCol.date, percentage, notExpectedPercentage, isToday: dateCol.isToday };
     });
-  }, [habits, dates, autoMarkPink, effectiveToday]);
+  }, [habits, dates, autoMarkPink, effectiveToday, weekStartDay]);
 
   const categoryName = category?.name || 'Uncategorized';
   const categoryIcon = category?.icon;
@@ -473,6 +520,9 @@ export const CategorySection = memo(function CategorySection({
           <span className={`flex-shrink-0 text-slate-400 font-condensed ${compactVertical ? 'text-[10px]' : 'text-xs'}`}>
             {habits.length}
           </span>
+
+          {/* 30-day consistency across the category */}
+          <CategoryStatsDial habits={habits} effectiveToday={effectiveToday} size={compactVertical ? 12 : 16} />
         </button>
 
         {/* Radial dial cells for each date - NOT inside the button */}
@@ -558,6 +608,7 @@ export const CategorySectionFlat = memo(function CategorySectionFlat({
   const { data: settingsResponse } = useSettings();
   const autoMarkPink = settingsResponse?.data?.autoMarkPink ?? false;
   const dayBoundaryHour = settingsResponse?.data?.dayBoundaryHour ?? 0;
+  const weekStartDay = settingsResponse?.data?.weekStartDay ?? 0;
 
   // Calculate effective today (considering day boundary)
   const effectiveToday = useMemo(
@@ -581,12 +632,14 @@ export const CategorySectionFlat = memo(function CategorySectionFlat({
           dateCol.isToday,
           dateCol.isFuture,
           autoMarkPink,
-          effectiveToday
+          effectiveToday,
+          weekStartDay
         );
 
         const isLowFrequency = habit.grayMissedWhenOnTrack ?? false;
         const isOnTrack = isLowFrequency && isHabitOnTrack(habit, effectiveToday);
-        const isNotExpectedToday = isOnTrack && (rawStatus === 'empty' || effectiveStatus === 'gray_missed');
+        const isNotScheduled = rawStatus === 'empty' && effectiveStatus === 'na';
+        const isNotExpectedToday = isNotScheduled || (isOnTrack && (rawStatus === 'empty' || effectiveStatus === 'gray_missed'));
 
         if (isNotExpectedToday) {
           notExpected++;
@@ -604,7 +657,7 @@ export const CategorySectionFlat = memo(function CategorySectionFlat({
 
       return { date: dateCol.date, percentage, notExpectedPercentage, isToday: dateCol.isToday };
     });
-  }, [habits, dates, autoMarkPink, effectiveToday]);
+  }, [habits, dates, autoMarkPink, effectiveToday, weekStartDay]);
 
   // State for expanded parent habits (persisted to localStorage)
   const [expandedParents, setExpandedParents] = useState<Set<string>>(() => {
@@ -666,6 +719,7 @@ export const CategorySectionFlat = memo(function CategorySectionFlat({
               <span className={`flex-shrink-0 text-slate-400 font-condensed ${compactVertical ? 'text-[10px]' : 'text-xs'}`}>
                 {habits.length}
               </span>
+              <CategoryStatsDial habits={habits} effectiveToday={effectiveToday} size={compactVertical ? 12 : 16} />
             </div>
 
             {/* Right section: radial dials - matches HabitRow status cells flex container */}
@@ -1,204 +1,26 @@
-import { useEffect, useMemo } from 'react';
-import { format, startOfMonth, eachDayOfInterval, subDays, parseISO, isAfter, isBefore } from 'date-fns';
+import { useEffect } from 'react';
+import { format } from 'date-fns';
 import { useUIStore } from '../../stores';
-import type { Habit, HabitEntry, HabitStatus } from '../../types';
+import { useHabitStats, useSettings } from '../../api';
+import { STATUS_COLORS } from '../../types';
+import type { Habit, HabitStatus } from '../../types';
 import * as MuiIcons from '@mui/icons-material';
 import { ContributionGraph } from './ContributionGraph';
+import { RadialDial } from './RadialDial';
+import { getEffectiveDate } from './useHabitMatrix';
 
-/**
- * Calculate current and best streak for a habit
- * Now iterates through CONSECUTIVE DAYS (not just entries) to properly detect gaps
- *
- * @param entries - The habit entries
- * @param createdAt - The habit creation date (optional, to limit streak range)
- */
-function calculateStreaks(
-  entries: HabitEntry[],
-  createdAt?: string
-): { current: number; best: number } {
-  if (!entries || entries.length === 0) return { current: 0, best: 0 };
-
-  // Create a map for quick lookup
-  const entryMap = new Map<string, HabitStatus>();
-  entries.forEach(entry => {
-    entryMap.set(entry.date, entry.status);
-  });
-
-  const today = new Date();
-  const todayStr = format(today, 'yyyy-MM-dd');
-
-  // Determine the start date for streak calculation
-  // Use creation date if available, otherwise use earliest entry
-  let startDate: Date;
-  if (createdAt) {
-    startDate = parseISO(createdAt);
-  } else {
-    const sortedDates = [...entries]
-      .map(e => parseISO(e.date))
-      .sort((a, b) => a.getTime() - b.getTime());
-    startDate = sortedDates[0] || today;
-  }
-
-  // Don't look at dates before the habit was created or after today
-  if (isAfter(startDate, today)) {
-    return { current: 0, best: 0 };
-  }
-
-  // Generate all days from start to today
-  const allDays = eachDayOfInterval({ start: startDate, end: today });
-
-  let currentStreak = 0;
-  let bestStreak = 0;
-  let tempStreak = 0;
-
-  // Calculate best streak by iterating through CONSECUTIVE DAYS
-  for (const day of allDays) {
-    const dateStr = format(day, 'yyyy-MM-dd');
-    const status = entryMap.get(dateStr);
-
-    if (status === 'complete' || status === 'extra') {
-      tempStreak++;
-      bestStreak = Math.max(bestStreak, tempStreak);
-    } else if (status === 'na' || status === 'exempt') {
-      // Don't break streak for na/exempt
-    } else {
-      // No entry, empty, missed, partial, pink - streak broken
-      tempStreak = 0;
-    }
-  }
-
-  // Calculate current streak by going backwards from today
-  let currentDate = todayStr;
-  while (true) {
-    const status = entryMap.get(currentDate);
-    const currentDateObj = parseISO(currentDate);
-
-    // Stop if we've gone before the habit creation date
-    if (createdAt && isBefore(currentDateObj, parseISO(createdAt))) {
-      break;
-    }
-
-    if (status === 'complete' || status === 'extra') {
-      currentStreak++;
-    } else if (status === 'na' || status === 'exempt') {
-      // Don't break streak for na/exempt
-    } else if (currentDate === todayStr && (!status || status === 'empty')) {
-      // Allow empty today (user might not have logged yet)
-    } else {
-      // No entry or negative status - streak broken
-      break;
-    }
-
-    // Move to previous day
-    const prevDate = subDays(currentDateObj, 1);
-    currentDate = format(prevDate, 'yyyy-MM-dd');
-
-    // Safety limit
-    if (currentStreak > 1000) break;
-  }
-
-  return { current: currentStreak, best: bestStreak };
-}
-
-/**
- * Calculate completion percentage for a date range
- *
- * Scoring rules:
- * - Only count "completed days" (past days, not including today unless filled)
- * - Today is only included if user has filled in a value (not 'empty')
- * - N/A and Exempt are excluded from the denominator
- */
-function calculateCompletionForRange(
-  entries: HabitEntry[],
-  startDate: Date,
-  endDate: Date
-): number {
-  const todayStr = format(new Date(), 'yyyy-MM-dd');
-  const rangeDates = eachDayOfInterval({ start: startDate, end: endDate });
-
-  const entryMap = new Map<string, HabitStatus>();
-  (entries || []).forEach(entry => {
-    entryMap.set(entry.date, entry.status);
-  });
-
-  let completed = 0;
-  let partial = 0;
-  let exempt = 0;
-  let na = 0;
-  let countedCells = 0;
-
-  for (const date of rangeDates) {
-    const dateStr = format(date, 'yyyy-MM-dd');
-    const status = entryMap.get(dateStr) || 'empty';
-    const isToday = dateStr === todayStr;
-    const hasEntry = status !== 'empty';
-
-    // Only count this cell if:
-    // 1. It's a past day (not today), OR
-    // 2. It's today AND user has filled in a value (not empty)
-    const shouldCount = !isToday || hasEntry;
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
-    if (!shouldCount) continue;
+// Labels for the completion-rate windows returned by the stats endpoint
+const WINDOW_LABELS: Record<number, string> = {
+  7: '7 Days',
+  30: '30 Days',
+  90: '90 Days',
+  365: '1 Year',
+};
 
-    countedCells++;
-
-    switch (status) {
-      case 'complete':
-      case 'extra':
-        completed++;
-        break;
-      case 'partial':
-        partial++;
-        break;
-      case 'exempt':
-        exempt++;
-        break;
-      case 'na':
-        na++;
-        break;
-    }
-  }
-
-  const excluded = exempt + na;
-  const effectiveTotal = countedCells - excluded;
-
-  if (effectiveTotal <= 0) return 0;
-
-  return Math.round(((completed + partial * 0.5) / effectiveTotal) * 100);
-}
-
-/**
- * Calculate all completion stats
- * Only counts days from the habit's creation date onwards
- */
-function calculateCompletionStats(entries: HabitEntry[], createdAt?: string): {
-  thisMonth: number;
-  thisYear: number;
-  allTime: number;
-} {
-  const today = new Date();
-  const monthStart = startOfMonth(today);
-  const yearStart = new Date(today.getFullYear(), 0, 1);
-
-  // For all-time, use creation date (do NOT expand to include entries before creation)
-  // If no creation date, fall back to year start
-  const allTimeStart = createdAt ? new Date(createdAt) : yearStart;
-
-  return {
-    thisMonth: calculateCompletionForRange(entries, monthStart, today),
-    thisYear: calculateCompletionForRange(entries, yearStart, today),
-    allTime: calculateCompletionForRange(entries, allTimeStart, today),
-  };
-}
-
-/**
- * Get color class based on completion percentage
- */
-function getScoreColor(percentage: number): string {
-  if (percentage >= 80) return 'text-emerald-400';
-  if (percentage >= 50) return 'text-yellow-400';
-  return 'text-red-400';
-}
+// Statuses shown in the distribution bar, in display order
+const DISTRIBUTION_STATUSES: HabitStatus[] = ['complete', 'extra', 'partial', 'missed', 'exempt', 'na'];
 
 /**
  * HabitDetailModal - Shows detailed stats for a habit
@@ -219,26 +41,21 @@ export function HabitDetailModal() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [closeModal]);
 
-  // Calculate stats
-  const stats = useMemo(() => {
-    if (!habit) return null;
-
-    const streaks = calculateStreaks(habit.entries || [], habit.createdAt);
-    const completion = calculateCompletionStats(habit.entries || [], habit.createdAt);
-    const createdAt = habit.createdAt ? new Date(habit.createdAt) : null;
-
-    return {
-      currentStreak: streaks.current,
-      bestStreak: streaks.best,
-      thisMonth: completion.thisMonth,
-      thisYear: completion.thisYear,
-      allTime: completion.allTime,
-      createdAt,
-    };
-  }, [habit]);
+  // Stats are computed server-side as of the effective date (considering day boundary)
+  const { data: settingsResponse } = useSettings();
+  const dayBoundaryHour = settingsResponse?.data?.dayBoundaryHour ?? 0;
+  const today = format(getEffectiveDate(new Date(), dayBoundaryHour), 'yyyy-MM-dd');
+  const { data: statsResponse, isLoading: statsLoading } = useHabitStats(habit?.id, today);
+  const stats = statsResponse?.data;
 
   if (!habit) return null;
 
+  const createdAt = habit.createdAt ? new Date(habit.createdAt) : null;
+  const distributionTotal = DISTRIBUTION_STATUSES.reduce(
+    (sum, status) => sum + (stats?.statusDistribution[status] ?? 0),
+    0
+  );
+
   const handleEdit = () => {
     closeModal();
     setSelectedHabit(habit);
@@ -253,6 +70,7 @@ export function HabitDetailModal() {
       <div
         className="bg-slate-800 rounded-2xl w-full max-w-2xl shadow-2xl border border-slate-700 overflow-hidden"
         onClick={(e) => e.stopPropagation()}
+        data-testid="habit-detail-modal"
       >
         {/* Header */}
         <div className="p-5 border-b border-slate-700">
@@ -305,8 +123,8 @@ export function HabitDetailModal() {
               <span className="text-slate-400 text-sm">Created</span>
             </div>
             <span className="text-white font-medium text-sm">
-              {stats?.createdAt
-                ? format(stats.createdAt, 'MMM d, yyyy')
+              {createdAt
+                ? format(createdAt, 'MMM d, yyyy')
                 : 'Unknown'}
             </span>
           </div>
@@ -321,7 +139,7 @@ export function HabitDetailModal() {
               <div>
                 <span className="text-slate-500 text-xs block">Current</span>
                 <div className="flex items-baseline gap-1">
-                  <span className="text-xl font-bold text-amber-400">
+                  <span className="text-xl font-bold text-amber-400" data-testid="habit-current-streak">
                     {stats?.currentStreak || 0}
                   </span>
                   <span className="text-slate-500 text-xs">days</span>
@@ -337,63 +155,67 @@ export function HabitDetailModal() {
               <div>
                 <span className="text-slate-500 text-xs block">Best</span>
                 <div className="flex items-baseline gap-1">
-                  <span className="text-xl font-bold text-purple-400">
-                    {stats?.bestStreak || 0}
+                  <span className="text-xl font-bold text-purple-400" data-testid="habit-longest-streak">
+                    {stats?.longestStreak || 0}
                   </span>
                   <span className="text-slate-500 text-xs">days</span>
                 </div>
               </div>
             </div>
+
+            {/* Best Weekday */}
+            <div className="flex-1 flex items-center gap-3">
+              <div className="w-9 h-9 rounded-lg bg-gradient-to-br from-teal-500/20 to-emerald-500/20 flex items-center justify-center border border-teal-500/30">
+                <MuiIcons.EventAvailable style={{ color: '#14b8a6', fontSize: 18 }} />
+              </div>
+              <div>
+                <span className="text-slate-500 text-xs block">Best Day</span>
+                <span className="text-sm font-semibold text-teal-400" data-testid="habit-best-weekday">
+                  {stats?.bestWeekday
+                    ? `${WEEKDAY_NAMES[stats.bestWeekday.weekday]} (${stats.bestWeekday.rate}%)`
+                    : '-'}
+                </span>
+              </div>
+            </div>
           </div>
 
           {/* Completion Stats */}
-          <div className="py-2 border-b border-slate-700/50">
+          <div className="py-2 border-b border-slate-700/50" data-testid="habit-completion-rates">
             <div className="flex items-center gap-2 mb-3">
               <MuiIcons.TrendingUp style={{ color: '#94a3b8', fontSize: 16 }} />
               <span className="text-slate-400 text-sm font-medium">Completion Rate</span>
+              {statsLoading && <span className="text-slate-500 text-xs">Loading...</span>}
             </div>
 
-            <div className="grid grid-cols-3 gap-3">
-              {/* This Month */}
-              <div className="bg-slate-700/30 rounded-lg p-3 text-center">
-                <span className="text-slate-500 text-xs block mb-1">This Month</span>
-                <span className={`text-lg font-bold ${getScoreColor(stats?.thisMonth || 0)}`}>
-                  {stats?.thisMonth || 0}%
-                </span>
-              </div>
-
-              {/* This Year */}
-              <div className="bg-slate-700/30 rounded-lg p-3 text-center">
-                <span className="text-slate-500 text-xs block mb-1">This Year</span>
-                <span className={`text-lg font-bold ${getScoreColor(stats?.thisYear || 0)}`}>
-                  {stats?.thisYear || 0}%
-                </span>
-              </div>
-
-              {/* All Time */}
-              <div className="bg-slate-700/30 rounded-lg p-3 text-center">
-                <span className="text-slate-500 text-xs block mb-1">All Time</span>
-                <span className={`text-lg font-bold ${getScoreColor(stats?.allTime || 0)}`}>
-                  {stats?.allTime || 0}%
-                </span>
-              </div>
+            <div className="grid grid-cols-4 gap-3">
+              {(stats?.completionRates || []).map(({ days, rate, counted }) => (
+                <div key={days} className="bg-slate-700/30 rounded-lg p-3 flex flex-col items-center gap-1">
+                  <span className="text-slate-500 text-xs">{WINDOW_LABELS[days] ?? `${days} Days`}</span>
+                  <RadialDial percentage={rate} size={44} strokeWidth={4} showText />
+                  <span className="text-slate-500 text-[10px]">{counted} days counted</span>
+                </div>
+              ))}
             </div>
 
-            {/* Progress Bar for this month */}
-            <div className="mt-3">
-              <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
-                <div
-                  className={`h-full rounded-full transition-all duration-500 ${
-                    (stats?.thisMonth || 0) >= 80
-                      ? 'bg-emerald-500'
-                      : (stats?.thisMonth || 0) >= 50
-                      ? 'bg-yellow-500'
-                      : 'bg-red-500'
-                  }`}
-                  style={{ width: `${stats?.thisMonth || 0}%` }}
-                />
+            {/* Status distribution bar */}
+            {stats && (
+              <div className="mt-3" data-testid="habit-status-distribution">
+                <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden flex">
+                  {DISTRIBUTION_STATUSES.map(status => {
+                    const statusCount = stats.statusDistribution[status] ?? 0;
+                    if (statusCount === 0) return null;
+                    return (
+                      <div
+                        key={status}
+                        className="h-full"
+                        style={{ width: `${(statusCount / distributionTotal) * 100}%`, backgroundColor: STATUS_COLORS[status] }}
+                        title={`${status}: ${statusCount}`}
+                      />
+                    );
+                  })}
+                </div>
               </div>
-            </div>
+            )}
           </div>
 
           {/* GitHub-style Contribution Graph */}
@@ -1,10 +1,10 @@
 import { memo, useMemo, useCallback } from 'react';
 import type { DateColumn, MatrixHabit } from './useHabitMatrix';
-import { getHabitStatus, getEffectiveHabitStatus, getEffectiveDate } from './useHabitMatrix';
+import { getHabitStatus, getEffectiveHabitStatus, getEffectiveDate, getEntryCredit, hasSchedule, isHabitDueOn } from './useHabitMatrix';
 import { StatusCell } from './StatusCell';
 import { useUIStore } from '../../stores';
 import { useSettings } from '../../api';
-import type { HabitStatus } from '../../types';
+import type { HabitStatus, WeekStartDay } from '../../types';
 import * as MuiIcons from '@mui/icons-material';
 
 /**
@@ -19,35 +19,36 @@ function getScoreColor(percentage: number, targetPct: number = 90, warningPct: n
 
 /**
  * Calculate completion percentage for a single habit across given dates
- * Formula: (complete + extra + partial*0.5) / effectiveTotal * 100
+ * Formula: sum(credit) / effectiveTotal * 100 (credit per getEntryCredit)
  *
  * Scoring rules:
  * - Only count "completed days" (past days that have elapsed)
  * - Today is only included if user has filled in a value (not 'empty')
  * - Future days are completely excluded
  * - N/A and Exempt are always excluded from the denominator
+ * - Empty days the habit's schedule did not make due count as N/A
  * - Empty/gray days behavior depends on low frequency setting:
  *   - Normal habits: empty days are EXCLUDED (don't hurt your %)
- *   - Low frequency habits: empty days are INCLUDED (count as missed)
+ *   - Low frequency and scheduled habits: empty due days are INCLUDED (count as missed)
  */
-function calculateHabitCompletion(habit: MatrixHabit, dates: DateColumn[]): number {
-  let completed = 0;
-  let partial = 0;
+function calculateHabitCompletion(habit: MatrixHabit, dates: DateColumn[], weekStartDay: WeekStartDay = 0): number {
+  let earned = 0;
   let exempt = 0;
   let na = 0;
   let emptyDays = 0;
   let countedCells = 0;
 
   // Check if this habit includes empty days in the denominator
-  const includeEmptyInDenominator = habit.grayMissedWhenOnTrack ?? false;
+  const includeEmptyInDenominator = (habit.grayMissedWhenOnTrack ?? false) || hasSchedule(habit);
 
   // Find "today" column to determine which days are past/future
   const todayIndex = dates.findIndex(d => d.isToday);
 
   for (let i = 0; i < dates.length; i++) {
     const dateCol = dates[i];
-    const status = getHabitStatus(habit, dateCol.date);
-    const hasEntry = status !== 'empty';
+    const rawStatus = getHabitStatus(habit, dateCol.date);
+    const status = rawStatus === 'empty' && !isHabitDueOn(habit, dateCol.date, weekStartDay) ? 'na' : rawStatus;
+    const hasEntry = rawStatus !== 'empty';
 
     // Skip future days entirely (days after today)
     if (todayIndex >= 0 && i > todayIndex) {
@@ -64,15 +65,9 @@ function calculateHabitCompletion(habit: MatrixHabit, dates: DateColumn[]): numb
     }
 
     countedCells++;
+    earned += getEntryCredit(habit, habit.entriesByDate.get(dateCol.date));
 
     switch (status) {
-      case 'complete':
-      case 'extra':
-        completed++;
-        break;
-      case 'partial':
-        partial++;
-        break;
       case 'exempt':
         exempt++;
         break;
@@ -82,7 +77,7 @@ function calculateHabitCompletion(habit: MatrixHabit, dates: DateColumn[]): numb
       case 'empty':
         emptyDays++;
         break;
-      // 'missed', 'pink' count as incomplete (included in denominator)
+      // 'complete', 'extra', 'partial', 'missed', 'pink' stay in the denominator
     }
   }
 
@@ -92,7 +87,7 @@ function calculateHabitCompletion(habit: MatrixHabit, dates: DateColumn[]): numb
 
   if (effectiveTotal <= 0) return 0;
 
-  return Math.round(((completed + partial * 0.5) / effectiveTotal) * 100);
+  return Math.round((earned / effectiveTotal) * 100);
 }
 
 interface HabitRowProps {
@@ -132,6 +127,7 @@ export const HabitRow = memo(function HabitRow({
   const { data: settingsResponse } = useSettings();
   const autoMarkPink = settingsResponse?.data?.autoMarkPink ?? false;
   const dayBoundaryHour = settingsResponse?.data?.dayBoundaryHour ?? 0;
+  const weekStartDay = settingsResponse?.data?.weekStartDay ?? 0;
 
   // Calculate effective today (considering day boundary) for on-track calculations
   const effectiveToday = useMemo(
@@ -183,8 +179,8 @@ export const HabitRow = memo(function HabitRow({
 
   // Calculate completion percentage for this habit
   const completionPercent = useMemo(
-    () => calculateHabitCompletion(habit, dates),
-    [habit, dates]
+    () => calculateHabitCompletion(habit, dates, weekStartDay),
+    [habit, dates, weekStartDay]
   );
 
   // Calculate indentation padding (16px per level)
@@ -270,7 +266,7 @@ export const HabitRow = memo(function HabitRow({
             if (isParentHabit && habit.computedStatusByDate) {
               status = habit.computedStatusByDate.get(dateCol.date) || 'empty';
             } else {
-              status = getEffectiveHabitStatus(habit, dateCol.date, dateCol.isToday, dateCol.isFuture, autoMarkPink, effectiveToday);
+              status = getEffectiveHabitStatus(habit, dateCol.date, dateCol.isToday, dateCol.isFuture, autoMarkPink, effectiveToday, weekStartDay);
             }
 
             // Extract day of month from date string (YYYY-MM-DD format)
@@ -294,6 +290,9 @@ export const HabitRow = memo(function HabitRow({
                 size={cellSize}
                 cellHeight={cellHeight}
                 currentCount={currentCount}
+                dailyTarget={habit.dailyTarget ?? undefined}
+                maxCount={habit.maxCount ?? undefined}
+                unit={habit.unit ?? undefined}
                 isParentHabit={isParentHabit}
                 siblingCompleted={siblingCompleted}
               />
@@ -353,6 +352,7 @@ export const HabitRowCompact = memo(function HabitRowCompact({
   const { data: settingsResponse } = useSettings();
   const autoMarkPink = settingsResponse?.data?.autoMarkPink ?? false;
   const dayBoundaryHour = settingsResponse?.data?.dayBoundaryHour ?? 0;
+  const weekStartDay = settingsResponse?.data?.weekStartDay ?? 0;
 
   // Calculate effective today (considering day boundary) for on-track calculations
   const effectiveToday = useMemo(
@@ -367,8 +367,8 @@ export const HabitRowCompact = memo(function HabitRowCompact({
 
   // Calculate completion percentage for this habit
   const completionPercent = useMemo(
-    () => calculateHabitCompletion(habit, dates),
-    [habit, dates]
+    () => calculateHabitCompletion(habit, dates, weekStartDay),
+    [habit, dates, weekStartDay]
   );
 
   return (
@@ -404,7 +404,7 @@ export const HabitRowCompact = memo(function HabitRowCompact({
           if (isParentHabit && habit.computedStatusByDate) {
             status = habit.computedStatusByDate.get(dateCol.date) || 'empty';
           } else {
-            status = getEffectiveHabitStatus(habit, dateCol.date, dateCol.isToday, dateCol.isFuture, autoMarkPink, effectiveToday);
+            status = getEffectiveHabitStatus(habit, dateCol.date, dateCol.isToday, dateCol.isFuture, autoMarkPink, effectiveToday, weekStartDay);
           }
 
           const dayOfMonth = dateCol.date.split('-')[2].replace(/^0/, '');
@@ -427,6 +427,9 @@ export const HabitRowCompact = memo(function HabitRowCompact({
               size={cellSize || 20}
               cellHeight={cellHeight}
               currentCount={currentCount}
+              dailyTarget={habit.dailyTarget ?? undefined}
+              maxCount={habit.maxCount ?? undefined}
+              unit={habit.unit ?? undefined}
               isParentHabit={isParentHabit}
               siblingCompleted={siblingCompleted}
             />
@@ -16,6 +16,8 @@ interface StatusCellProps {
   cellHeight?: number; // Cell height (optional, defaults to size for square cells)
   // Count-based habit support
   dailyTarget?: number;
+  maxCount?: number; // Count at which cycling wraps back to 0 (defaults to dailyTarget)
+  unit?: string; // Count unit label for aria/title text
   currentCount?: number;
   // Parent/child habit support
   isParentHabit?: boolean;
@@ -58,6 +60,8 @@ export function StatusCell({
   size = 16,
   cellHeight,
   dailyTarget,
+  maxCount,
+  unit,
   currentCount = 0,
   isParentHabit = false,
   siblingCompleted = false,
@@ -108,14 +112,18 @@ export function StatusCell({
   // OR increment count for count-based habits
   const cycleStatus = useCallback(() => {
     if (isCountBased) {
-      // For count-based habits, increment count (reset after reaching target + 1)
-      const nextCount = currentCount >= (dailyTarget || 1) ? 0 : currentCount + 1;
+      // For count-based habits, increment count (reset after reaching the max, or the target if no max)
+      const cycleLimit = Math.max(maxCount || 0, dailyTarget || 1);
+      const nextCount = currentCount >= cycleLimit ? 0 : currentCount + 1;
       // Determine status based on count
+      // Going past the target (up to maxCount) counts as extra
       const nextStatus: HabitStatus = nextCount === 0
         ? 'empty'
-        : nextCount >= (dailyTarget || 1)
-          ? 'complete'
-          : 'partial';
+        : nextCount > (dailyTarget || 1)
+          ? 'extra'
+          : nextCount >= (dailyTarget || 1)
+            ? 'complete'
+            : 'partial';
       updateEntry.mutate({ habitId, date, status: nextStatus, count: nextCount });
     } else {
       // Standard habit - cycle through statuses
@@ -125,7 +133,7 @@ export function StatusCell({
       const nextStatus = COMMON_STATUSES[nextIndex];
       updateEntry.mutate({ habitId, date, status: nextStatus });
     }
-  }, [habitId, date, status, updateEntry, isCountBased, currentCount, dailyTarget]);
+  }, [habitId, date, status, updateEntry, isCountBased, currentCount, dailyTarget, maxCount]);
 
   // Handle direct status selection from tooltip
   const handleStatusSelect = useCallback((newStatus: HabitStatus) => {
@@ -256,7 +264,7 @@ export function StatusCell({
         tabIndex={0}
         aria-label={
           isCountBased
-            ? `${date}: ${currentCount}/${dailyTarget}. Click to increment.`
+            ? `${date}: ${currentCount}/${dailyTarget}${unit ? ` ${unit}` : ''}. Click to increment.`
             : `${date}: ${status}. Click to cycle, hover or right-click for more options.`
         }
         onKeyDown={(e) => {
@@ -1,7 +1,7 @@
 import { useMemo } from 'react';
-import { format, subDays, startOfMonth, endOfMonth, eachDayOfInterval, subHours, isSameDay, getDaysInMonth, parseISO } from 'date-fns';
+import { format, subDays, startOfMonth, endOfMonth, startOfWeek, endOfWeek, eachDayOfInterval, subHours, isSameDay, getDaysInMonth, parseISO, differenceInCalendarDays } from 'date-fns';
 import { useHabits, useCategories, useSettings } from '../../api';
-import type { Habit, HabitEntry, Category, HabitStatus } from '../../types';
+import type { Habit, HabitEntry, Category, HabitStatus, WeekStartDay } from '../../types';
 
 // Responsive breakpoints for days to show
 // Note: desktop value is just a marker for "month view" - actual days calculated from currentMonth
@@ -126,6 +126,114 @@ export function isCompletedStatus(status: HabitStatus): boolean {
   return status === 'complete' || status === 'extra';
 }
 
+/**
+ * Get the completion credit (0-1) an entry earns toward a habit's score.
+ * Count-based habits (dailyTarget set) earn count/target proportionally, capped at 1.
+ * Other habits: complete/extra = 1, partial = 0.5, everything else = 0.
+ */
+export function getEntryCredit(
+  habit: Pick<Habit, 'dailyTarget'>,
+  entry: Pick<HabitEntry, 'status' | 'count'> | undefined
+): number {
+  if (!entry) return 0;
+
+  const count = entry.count ?? 0;
+  if (habit.dailyTarget && habit.dailyTarget > 0 && count > 0) {
+    return Math.min(count / habit.dailyTarget, 1);
+  }
+
+  switch (entry.status) {
+    case 'complete':
+    case 'extra':
+      return 1;
+    case 'partial':
+      return 0.5;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Schedule state of a habit on a date:
+ * - 'due': the habit is expected that day (empty past days may be auto-marked pink)
+ * - 'optional': quota schedules with slack left - the day may be used but skipping it is fine
+ * - 'off': the habit is not scheduled that day (empty cells render as N/A)
+ */
+export type ScheduleState = 'due' | 'optional' | 'off';
+
+/**
+ * Check if a habit has a non-daily schedule
+ */
+export function hasSchedule(habit: Pick<Habit, 'scheduleType'>): boolean {
+  return !!habit.scheduleType && habit.scheduleType !== 'daily';
+}
+
+/**
+ * Get the schedule state of a habit on a specific date.
+ *
+ * Weekly/monthly quotas ("N times per period") only become due once skipping the day would
+ * make the quota unreachable, so a missed week marks exactly the shortfall as due.
+ * Interval schedules are off for N-1 days after each completion.
+ * Only completions on earlier days are considered - the date's own entry never changes its state.
+ */
+export function getScheduleState(
+  habit: Pick<MatrixHabit, 'scheduleType' | 'scheduleDays' | 'scheduleCount' | 'entriesByDate'>,
+  date: string,
+  weekStartDay: WeekStartDay = 0
+): ScheduleState {
+  const type = habit.scheduleType ?? 'daily';
+  const count = habit.scheduleCount ?? 0;
+  const day = parseISO(date);
+
+  const isCompletedOn = (d: Date) => {
+    const status = habit.entriesByDate.get(format(d, 'yyyy-MM-dd'))?.status;
+    return !!status && isCompletedStatus(status);
+  };
+
+  switch (type) {
+    case 'weekdays':
+      return (habit.scheduleDays ?? []).includes(day.getDay()) ? 'due' : 'off';
+
+    case 'interval': {
+      if (count <= 1) return 'due';
+      for (let i = 1; i < count; i++) {
+        if (isCompletedOn(subDays(day, i))) return 'off';
+      }
+      return 'due';
+    }
+
+    case 'weekly':
+    case 'monthly': {
+      if (count <= 0) return 'due';
+      const periodStart = type === 'weekly' ? startOfWeek(day, { weekStartsOn: weekStartDay }) : startOfMonth(day);
+      const periodEnd = type === 'weekly' ? endOfWeek(day, { weekStartsOn: weekStartDay }) : endOfMonth(day);
+
+      let doneBefore = 0;
+      for (let i = differenceInCalendarDays(day, periodStart); i > 0; i--) {
+        if (isCompletedOn(subDays(day, i))) doneBefore++;
+      }
+      if (doneBefore >= count) return 'off';
+
+      const daysAfter = differenceInCalendarDays(periodEnd, day);
+      return daysAfter < count - doneBefore ? 'due' : 'optional';
+    }
+
+    default:
+      return 'due';
+  }
+}
+
+/**
+ * Check if a habit is due on a date (see getScheduleState)
+ */
+export function isHabitDueOn(
+  habit: Pick<MatrixHabit, 'scheduleType' | 'scheduleDays' | 'scheduleCount' | 'entriesByDate'>,
+  date: string,
+  weekStartDay: WeekStartDay = 0
+): boolean {
+  return getScheduleState(habit, date, weekStartDay) === 'due';
+}
+
 /**
  * Custom hook for managing Habit Matrix data
  * Handles date generation, habit grouping, and entry mapping
@@ -144,6 +252,7 @@ export function useHabitMatrix(
   const habits = habitsResponse?.data || [];
   const categories = categoriesResponse?.data || [];
   const dayBoundaryHour = settingsResponse?.data?.dayBoundaryHour ?? 0;
+  const weekStartDay = settingsResponse?.data?.weekStartDay ?? 0;
 
   // Convert currentMonth to a string key for reliable useMemo dependency comparison
   // Using format ensures string comparison by value (not reference like Date objects)
@@ -335,8 +444,8 @@ export function useHabitMatrix(
   const todayScore = useMemo<CompletionScore>(() => {
     const effectiveToday = getEffectiveDate(new Date(), dayBoundaryHour);
     const todayStr = format(effectiveToday, 'yyyy-MM-dd');
-    return calculateCompletionScore(matrixHabits, [todayStr], todayStr);
-  }, [matrixHabits, dayBoundaryHour]);
+    return calculateCompletionScore(matrixHabits, [todayStr], todayStr, weekStartDay);
+  }, [matrixHabits, dayBoundaryHour, weekStartDay]);
 
   // Calculate current month's completion score (up to effective today)
   const monthScore = useMemo<CompletionScore>(() => {
@@ -346,8 +455,8 @@ export function useHabitMatrix(
     const monthStart = startOfMonth(effectiveToday);
     const monthDates = eachDayOfInterval({ start: monthStart, end: effectiveToday })
       .map(d => format(d, 'yyyy-MM-dd'));
-    return calculateCompletionScore(matrixHabits, monthDates, todayStr);
-  }, [matrixHabits, dayBoundaryHour]);
+    return calculateCompletionScore(matrixHabits, monthDates, todayStr, weekStartDay);
+  }, [matrixHabits, dayBoundaryHour, weekStartDay]);
 
   return {
     dateColumns,
@@ -385,18 +494,14 @@ export function isHabitOnTrack(habit: MatrixHabit, effectiveToday: Date): boolea
   // expected = (15/30) * 10 = 5 completions
   const expectedCompletions = (dayOfMonth / daysInMonth) * (targetPct / 100) * daysInMonth;
 
-  // Count actual completions this month (complete, extra, partial counts as 0.5)
+  // Count actual completions this month (partial and count-based progress count proportionally)
   const monthStart = startOfMonth(effectiveToday);
   let completions = 0;
 
   habit.entriesByDate.forEach((entry, dateStr) => {
     const entryDate = parseISO(dateStr);
     if (entryDate >= monthStart && entryDate <= effectiveToday) {
-      if (entry.status === 'complete' || entry.status === 'extra') {
-        completions += 1;
-      } else if (entry.status === 'partial') {
-        completions += 0.5;
-      }
+      completions += getEntryCredit(habit, entry);
     }
   });
 
@@ -405,7 +510,8 @@ export function isHabitOnTrack(habit: MatrixHabit, effectiveToday: Date): boolea
 }
 
 /**
- * Get effective status for a habit on a specific date, considering auto-pink for past unfilled days.
+ * Get effective status for a habit on a specific date, considering the habit's schedule
+ * and auto-pink for past unfilled days.
  *
  * @param habit - The habit with entries map
  * @param date - The date string (YYYY-MM-DD format)
@@ -413,6 +519,7 @@ export function isHabitOnTrack(habit: MatrixHabit, effectiveToday: Date): boolea
  * @param isFuture - Whether this date is in the future (after today)
  * @param autoMarkPink - Whether to auto-mark unfilled past days as pink
  * @param effectiveToday - The current effective date (for on-track calculations)
+ * @param weekStartDay - First day of the week for weekly quota schedules
  */
 export function getEffectiveHabitStatus(
   habit: MatrixHabit,
@@ -420,10 +527,20 @@ export function getEffectiveHabitStatus(
   isToday: boolean,
   isFuture: boolean,
   autoMarkPink: boolean,
-  _effectiveToday?: Date
+  _effectiveToday?: Date,
+  weekStartDay: WeekStartDay = 0
 ): HabitStatus {
   const status = getHabitStatus(habit, date);
 
+  // Empty cells on unscheduled days render as N/A. Optional quota days stay open
+  // (empty) from today onward so they can still be used to meet the quota.
+  if (status === 'empty' && hasSchedule(habit)) {
+    const scheduleState = getScheduleState(habit, date, weekStartDay);
+    if (scheduleState === 'off' || (scheduleState === 'optional' && !isToday && !isFuture)) {
+      return 'na';
+    }
+  }
+
   // Future dates always stay empty (white) - never auto-mark as pink
   if (isFuture) {
     return status;
@@ -457,18 +574,22 @@ export function getEffectiveHabitStatus(
  * - Only count "completed days" (past days, not including today unless filled)
  * - Today is only included if user has filled in a value (not 'empty')
  * - N/A and Exempt are excluded from the denominator
+ * - Empty days the habit was not due on (per its schedule) count as N/A
+ * - Count-based habits earn count/dailyTarget per day (see getEntryCredit)
  *
- * Formula: (completed + partial*0.5) / (countedDays - exempt - na)
+ * Formula: sum(credit) / (countedDays - exempt - na)
  */
 export function calculateCompletionScore(
   habits: MatrixHabit[],
   dates: string[],
-  todayStr?: string
+  todayStr?: string,
+  weekStartDay: WeekStartDay = 0
 ): CompletionScore {
   let completed = 0;
   let partial = 0;
   let exempt = 0;
   let na = 0;
+  let earned = 0; // Sum of per-cell credit (fractional for partial/count-based)
   let countedCells = 0; // Only cells that should be in the denominator
 
   // Get today's date string if not provided
@@ -476,9 +597,10 @@ export function calculateCompletionScore(
 
   for (const habit of habits) {
     for (const date of dates) {
-      const status = getHabitStatus(habit, date);
+      const rawStatus = getHabitStatus(habit, date);
+      const status = rawStatus === 'empty' && !isHabitDueOn(habit, date, weekStartDay) ? 'na' : rawStatus;
       const isToday = date === today;
-      const hasEntry = status !== 'empty';
+      const hasEntry = rawStatus !== 'empty';
 
       // Only count this cell if:
       // 1. It's a past day (not today), OR
@@ -491,6 +613,7 @@ export function calculateCompletionScore(
       }
 
       countedCells++;
+      earned += getEntryCredit(habit, habit.entriesByDate.get(date));
 
       switch (status) {
         case 'complete':
@@ -514,7 +637,7 @@ export function calculateCompletionScore(
   const excluded = exempt + na;
   const effectiveTotal = countedCells - excluded;
   const percentage = effectiveTotal > 0
-    ? Math.round(((completed + partial * 0.5) / effectiveTotal) * 100)
+    ? Math.round((earned / effectiveTotal) * 100)
     : 0;
 
   return { percentage, completed, partial, total: countedCells, excluded };
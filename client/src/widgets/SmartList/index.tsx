@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import * as MuiIcons from '@mui/icons-material';
+import {
+  useSavedTaskFilters,
+  useFilteredTasks,
+  useCompleteTask,
+  useUncompleteTask,
+  isTaskComplete,
+} from '../../api';
+import { TaskModal } from '../WeeklyKanban/TaskModal';
+import type { Task } from '../../types';
+
+// Saved filter shown by the widget (persisted to localStorage)
+const STORAGE_KEY_FILTER = 'smartListWidget:filterId';
+
+/**
+ * SmartList Widget - Tasks matching a saved filter
+ *
+ * Pick any saved filter (built on the Smart Lists page); the list is filtered on the
+ * server and follows edits to the filter.
+ */
+export function SmartListWidget() {
+  const [filterId, setFilterId] = useState(() => localStorage.getItem(STORAGE_KEY_FILTER) ?? '');
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_FILTER, filterId);
+  }, [filterId]);
+
+  const { data: filtersData, isLoading: filtersLoading } = useSavedTaskFilters();
+  const filters = filtersData?.data ?? [];
+  const selected = filters.find(f => f.id === filterId);
+
+  const { data: tasksData, isLoading: tasksLoading, isError } = useFilteredTasks(selected ? { filterId: selected.id } : null);
+  const tasks = tasksData?.data ?? [];
+
+  const completeTask = useCompleteTask();
+  const uncompleteTask = useUncompleteTask();
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const handleToggle = (task: Task) => {
+    if (isTaskComplete(task)) {
+      uncompleteTask.mutate(task.id);
+    } else {
+      completeTask.mutate(task.id);
+    }
+  };
+
+  if (filtersLoading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-teal-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (filters.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-slate-400 p-4" data-testid="smart-list-widget-empty">
+        <MuiIcons.FilterList style={{ fontSize: 48, opacity: 0.3 }} />
+        <p className="mt-2 text-center text-sm">No saved filters yet. Create one under Tasks → Smart Lists.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col" data-testid="smart-list-widget">
+      {/* Filter picker */}
+      <div className="flex items-center gap-2 mb-2 px-1">
+        <select
+          value={selected?.id ?? ''}
+          onChange={(e) => setFilterId(e.target.value)}
+          className="flex-1 min-w-0 text-xs bg-slate-700/50 border border-slate-600 rounded px-2 py-1 text-slate-300 focus:outline-none focus:ring-1 focus:ring-teal-500"
+          data-testid="smart-list-widget-filter"
+        >
+          <option value="">Choose a saved filter...</option>
+          {filters.map(filter => (
+            <option key={filter.id} value={filter.id}>{filter.name}</option>
+          ))}
+        </select>
+        {selected && <span className="text-xs text-slate-500">{tasks.length}</span>}
+      </div>
+
+      {/* Matching tasks */}
+      <div className="flex-1 min-h-0 overflow-y-auto space-y-1 px-1">
+        {!selected ? null : tasksLoading ? (
+          <div className="text-xs text-slate-500 p-2">Loading...</div>
+        ) : isError ? (
+          <div className="text-xs text-red-400 p-2">Failed to load tasks</div>
+        ) : tasks.length === 0 ? (
+          <div className="text-xs text-slate-500 p-2">No tasks match this filter</div>
+        ) : (
+          tasks.map(task => {
+            const done = isTaskComplete(task);
+            const overdue = !done && !!task.plannedDate && task.plannedDate < today;
+            return (
+              <div
+                key={task.id}
+                className="flex items-center gap-2 px-2 py-1.5 rounded bg-slate-800/40 hover:bg-slate-700/40 group"
+                data-testid="smart-list-widget-task"
+              >
+                <button
+                  onClick={() => handleToggle(task)}
+                  className={done ? 'text-teal-400' : 'text-slate-500 hover:text-teal-400'}
+                  title={done ? 'Mark incomplete' : 'Mark complete'}
+                >
+                  {done
+                    ? <MuiIcons.CheckCircle style={{ fontSize: 16 }} />
+                    : <MuiIcons.RadioButtonUnchecked style={{ fontSize: 16 }} />}
+                </button>
+                {task.project && (
+                  <span
+                    className="w-2 h-2 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: task.project.color || '#64748b' }}
+                    title={task.project.name}
+                  />
+                )}
+                <button
+                  onClick={() => setEditingTask(task)}
+                  className={`flex-1 min-w-0 truncate text-left text-sm ${done ? 'text-slate-500 line-through' : 'text-slate-200'}`}
+                >
+                  {task.title}
+                </button>
+                {task.priority && task.priority <= 2 && (
+                  <span className={`text-[10px] px-1 rounded ${task.priority === 1 ? 'bg-red-500/20 text-red-400' : 'bg-orange-500/20 text-orange-400'}`}>
+                    P{task.priority}
+                  </span>
+                )}
+                {task.plannedDate && (
+                  <span className={`text-xs whitespace-nowrap ${overdue ? 'text-red-400' : 'text-slate-500'}`}>
+                    {format(parseISO(task.plannedDate), 'MMM d')}
+                  </span>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {editingTask && (
+        <TaskModal task={editingTask} onClose={() => setEditingTask(null)} />
+      )}
+    </div>
+  );
+}
+
+export default SmartListWidget;
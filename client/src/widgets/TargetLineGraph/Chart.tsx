@@ -7,10 +7,12 @@ import {
   TooltipComponent,
   LegendComponent,
   MarkLineComponent,
+  MarkAreaComponent,
 } from 'echarts/components';
 import { CanvasRenderer } from 'echarts/renderers';
+import { addDays, differenceInCalendarDays, eachDayOfInterval, format, parseISO } from 'date-fns';
 import type { EChartsOption } from 'echarts';
-import type { MeasurementEntry, MeasurementTarget } from '../../types';
+import type { GraphPoint, MeasurementGraphData } from '../../types';
 
 // Register ECharts components
 echarts.use([
@@ -19,83 +21,85 @@ echarts.use([
   TooltipComponent,
   LegendComponent,
   MarkLineComponent,
+  MarkAreaComponent,
   CanvasRenderer,
 ]);
 
+// Projections further out than this (past the last entry) aren't drawn, so the axis stays readable
+const MAX_PROJECTION_DRAW_DAYS = 180;
+// Band series are drawn as a stack (transparent base + filled height) and left out of the tooltip
+const BAND_BASE_SERIES = 'band-base';
+const BAND_SERIES = 'On track';
+
 interface ChartProps {
-  entries: MeasurementEntry[];
-  target?: MeasurementTarget;
+  data?: MeasurementGraphData;
   unit: string;
 }
 
+// Values for each axis date from a sparse line (null where the line has no point)
+function alignToDates(dates: string[], points: GraphPoint[]): Array<number | null> {
+  const byDate = new Map(points.map((p) => [p.date, p.value]));
+  return dates.map((date) => byDate.get(date) ?? null);
+}
+
 /**
  * Chart - ECharts line chart for target line graph
  *
  * Displays:
- * - Actual values as solid teal/blue line with area fill
- * - Target line as dashed gray line (linear interpolation)
+ * - Actual values as solid teal line with area fill
+ * - Rolling-average trend as a thin amber line
+ * - Target line as dashed gray line, with a shaded "on track" band around it
+ * - Reach goal line as dotted purple line
+ * - Earlier phases' target lines over their own windows, with the phase windows shaded and labelled
+ * - Projected path to the goal at the recent (linear) pace
  * - Today marker
  * - Tooltip with details
  */
-export function Chart({ entries, target, unit }: ChartProps) {
+export function Chart({ data, unit }: ChartProps) {
   const options = useMemo((): EChartsOption => {
-    // Prepare actual data points
-    const actualData = entries.map((entry) => ({
-      date: entry.date,
-      value: entry.value,
-    }));
-
-    // Generate target line data points
-    const targetData: Array<{ date: string; value: number }> = [];
-    const reachTargetData: Array<{ date: string; value: number }> = [];
-    if (target) {
-      const startDate = new Date(target.startDate);
-      const endDate = new Date(target.goalDate);
-      const totalDays =
-        (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
+    const entries = data?.entries ?? [];
+    const trendLine = data?.trendLine ?? [];
+    const target = data?.target;
+    const phases = data?.phases ?? [];
+    const pastPhases = phases.filter((phase) => !phase.isCurrent);
+    const phaseLabel = (index: number) => phases[index].name || `Phase ${index + 1}`;
+    const today = format(new Date(), 'yyyy-MM-dd');
 
-      // Generate points at key intervals
-      const intervals = Math.min(Math.ceil(totalDays / 7), 20); // Weekly points, max 20
-      for (let i = 0; i <= intervals; i++) {
-        const progress = i / intervals;
-        const date = new Date(
-          startDate.getTime() + progress * (endDate.getTime() - startDate.getTime())
-        );
-        const dateStr = date.toISOString().split('T')[0];
-
-        // Primary target line
-        const value =
-          target.startValue + (target.goalValue - target.startValue) * progress;
-        targetData.push({
-          date: dateStr,
-          value,
-        });
-
-        // Reach goal line (if set)
-        if (target.reachGoalValue !== undefined && target.reachGoalValue !== null) {
-          const reachValue =
-            target.startValue + (target.reachGoalValue - target.startValue) * progress;
-          reachTargetData.push({
-            date: dateStr,
-            value: reachValue,
+    // Projected path from the latest entry to the goal
+    const lastEntry = entries[entries.length - 1];
+    const projectedDate = data?.projection?.linear?.date;
+    const projectionLine: GraphPoint[] = [];
+    if (target && lastEntry && projectedDate && projectedDate > lastEntry.date) {
+      const totalDays = differenceInCalendarDays(parseISO(projectedDate), parseISO(lastEntry.date));
+      if (totalDays <= MAX_PROJECTION_DRAW_DAYS) {
+        for (let i = 0; i <= totalDays; i++) {
+          projectionLine.push({
+            date: format(addDays(parseISO(lastEntry.date), i), 'yyyy-MM-dd'),
+            value: lastEntry.value + (target.goalValue - lastEntry.value) * (i / totalDays),
           });
         }
       }
     }
 
-    // Get all unique dates for x-axis
-    const allDates = [
-      ...new Set([
-        ...actualData.map((d) => d.date),
-        ...targetData.map((d) => d.date),
-      ]),
+    // Continuous daily axis covering every line
+    const endpoints = [
+      ...entries.map((d) => d.date),
+      ...(target ? [target.startDate, target.goalDate] : []),
+      ...phases.flatMap((phase) => [phase.startDate, phase.endDate]),
+      ...projectionLine.map((d) => d.date),
     ].sort();
+    const allDates = endpoints.length > 0
+      ? eachDayOfInterval({ start: parseISO(endpoints[0]), end: parseISO(endpoints[endpoints.length - 1]) })
+          .map((date) => format(date, 'yyyy-MM-dd'))
+      : [];
 
     // Determine Y-axis range - handle empty data case
     const allValues = [
-      ...actualData.map((d) => d.value),
-      ...targetData.map((d) => d.value),
-      ...reachTargetData.map((d) => d.value),
+      ...entries.map((d) => d.value),
+      ...(target?.targetLine ?? []).map((d) => d.value),
+      ...(target?.reachGoalLine ?? []).map((d) => d.value),
+      ...(target?.band ?? []).flatMap((d) => [d.lower, d.upper]),
+      ...pastPhases.flatMap((phase) => phase.targetLine.map((d) => d.value)),
     ];
 
     // Handle empty data - use sensible defaults
@@ -103,10 +107,10 @@ export function Chart({ entries, target, unit }: ChartProps) {
     const maxValue = allValues.length > 0 ? Math.max(...allValues) : 100;
     const padding = (maxValue - minValue) * 0.1 || 5;
 
-    // Find today's position
-    const today = new Date().toISOString().split('T')[0];
     const todayIndex = allDates.indexOf(today);
 
+    const bandByDate = new Map((target?.band ?? []).map((b) => [b.date, b]));
+
     return {
       animation: true,
       animationDuration: 500,
@@ -129,7 +133,7 @@ export function Chart({ entries, target, unit }: ChartProps) {
         formatter: (params: unknown) => {
           const items = params as Array<{
             seriesName: string;
-            value: number;
+            value: number | null;
             axisValue: string;
             marker: string;
           }>;
@@ -142,7 +146,8 @@ export function Chart({ entries, target, unit }: ChartProps) {
 
           let html = `<div class="font-medium mb-1">${date}</div>`;
           items.forEach((item) => {
-            if (item.value !== undefined) {
+            if (item.seriesName === BAND_BASE_SERIES || item.seriesName === BAND_SERIES) return;
+            if (item.value !== undefined && item.value !== null) {
               html += `<div class="flex items-center gap-2">
                 ${item.marker}
                 <span>${item.seriesName}:</span>
@@ -150,12 +155,17 @@ export function Chart({ entries, target, unit }: ChartProps) {
               </div>`;
             }
           });
+          const band = bandByDate.get(items[0].axisValue);
+          if (band) {
+            html += `<div class="text-slate-400">On track: ${band.lower.toFixed(1)}–${band.upper.toFixed(1)} ${unit}</div>`;
+          }
           return html;
         },
       },
       xAxis: {
         type: 'category',
         data: allDates,
+        boundaryGap: false,
         axisLine: {
           lineStyle: { color: '#334155' },
         },
@@ -193,14 +203,38 @@ export function Chart({ entries, target, unit }: ChartProps) {
         },
       },
       series: [
+        // On-track band - an invisible base at the lower bound with the band height stacked on it
+        ...(target
+          ? [
+              {
+                name: BAND_BASE_SERIES,
+                type: 'line' as const,
+                stack: 'band',
+                data: allDates.map((date) => bandByDate.get(date)?.lower ?? null),
+                symbol: 'none',
+                lineStyle: { opacity: 0 },
+                silent: true,
+              },
+              {
+                name: BAND_SERIES,
+                type: 'line' as const,
+                stack: 'band',
+                data: allDates.map((date) => {
+                  const band = bandByDate.get(date);
+                  return band ? band.upper - band.lower : null;
+                }),
+                symbol: 'none',
+                lineStyle: { opacity: 0 },
+                areaStyle: { color: 'rgba(100, 116, 139, 0.15)' },
+                silent: true,
+              },
+            ]
+          : []),
         // Actual values line
         {
           name: 'Actual',
           type: 'line',
-          data: allDates.map((date) => {
-            const point = actualData.find((d) => d.date === date);
-            return point ? point.value : null;
-          }),
+          data: alignToDates(allDates, entries),
           smooth: 0.3,
           symbol: 'circle',
           symbolSize: 6,
@@ -240,33 +274,47 @@ export function Chart({ entries, target, unit }: ChartProps) {
                   },
                 }
               : undefined,
+          // Phase windows, alternating shades so neighbouring phases stay distinct
+          markArea:
+            phases.length > 1
+              ? {
+                  silent: true,
+                  label: { color: '#94a3b8', fontSize: 9, position: 'insideTopLeft' },
+                  data: phases.map((phase, index) => [
+                    {
+                      name: phaseLabel(index),
+                      xAxis: phase.startDate,
+                      itemStyle: { color: index % 2 === 0 ? 'rgba(148, 163, 184, 0.06)' : 'rgba(148, 163, 184, 0.12)' },
+                    },
+                    { xAxis: phase.endDate },
+                  ]),
+                }
+              : undefined,
         },
+        // Rolling-average trend
+        ...(trendLine.length > 1
+          ? [
+              {
+                name: 'Trend',
+                type: 'line' as const,
+                data: alignToDates(allDates, trendLine),
+                smooth: 0.3,
+                symbol: 'none',
+                lineStyle: {
+                  color: '#fbbf24',
+                  width: 1.5,
+                },
+                connectNulls: true,
+              },
+            ]
+          : []),
         // Target line
         ...(target
           ? [
               {
                 name: 'Target',
                 type: 'line' as const,
-                data: allDates.map((date) => {
-                  // Calculate target value for this date
-                  const currentDate = new Date(date);
-                  const startDate = new Date(target.startDate);
-                  const endDate = new Date(target.goalDate);
-                  const totalDays =
-                    (endDate.getTime() - startDate.getTime()) /
-                    (1000 * 60 * 60 * 24);
-                  const daysPassed =
-                    (currentDate.getTime() - startDate.getTime()) /
-                    (1000 * 60 * 60 * 24);
-
-                  if (daysPassed < 0 || daysPassed > totalDays) return null;
-
-                  const progress = daysPassed / totalDays;
-                  return (
-                    target.startValue +
-                    (target.goalValue - target.startValue) * progress
-                  );
-                }),
+                data: alignToDates(allDates, target.targetLine),
                 smooth: false,
                 symbol: 'none',
                 lineStyle: {
@@ -278,31 +326,28 @@ export function Chart({ entries, target, unit }: ChartProps) {
               },
             ]
           : []),
+        // Earlier phases, each only over its own window
+        ...pastPhases.map((phase) => ({
+          name: phaseLabel(phases.indexOf(phase)),
+          type: 'line' as const,
+          data: alignToDates(allDates, phase.targetLine),
+          smooth: false,
+          symbol: 'none',
+          lineStyle: {
+            color: '#94a3b8',
+            width: 1.5,
+            type: 'dashed' as const,
+            opacity: 0.6,
+          },
+          connectNulls: false,
+        })),
         // Reach goal line (stretch target)
-        ...(target && target.reachGoalValue !== undefined && target.reachGoalValue !== null
+        ...(target && target.reachGoalLine.length > 0
           ? [
               {
                 name: 'Reach Goal',
                 type: 'line' as const,
-                data: allDates.map((date) => {
-                  const currentDate = new Date(date);
-                  const startDate = new Date(target.startDate);
-                  const endDate = new Date(target.goalDate);
-                  const totalDays =
-                    (endDate.getTime() - startDate.getTime()) /
-                    (1000 * 60 * 60 * 24);
-                  const daysPassed =
-                    (currentDate.getTime() - startDate.getTime()) /
-                    (1000 * 60 * 60 * 24);
-
-                  if (daysPassed < 0 || daysPassed > totalDays) return null;
-
-                  const progress = daysPassed / totalDays;
-                  return (
-                    target.startValue +
-                    (target.reachGoalValue! - target.startValue) * progress
-                  );
-                }),
+                data: alignToDates(allDates, target.reachGoalLine),
                 smooth: false,
                 symbol: 'none',
                 lineStyle: {
@@ -314,9 +359,27 @@ export function Chart({ entries, target, unit }: ChartProps) {
               },
             ]
           : []),
+        // Projected path at the recent pace
+        ...(projectionLine.length > 0
+          ? [
+              {
+                name: 'Projected',
+                type: 'line' as const,
+                data: alignToDates(allDates, projectionLine),
+                smooth: false,
+                symbol: 'none',
+                lineStyle: {
+                  color: '#38bdf8',
+                  width: 1.5,
+                  type: 'dashed' as const,
+                },
+                connectNulls: false,
+              },
+            ]
+          : []),
       ],
     };
-  }, [entries, target, unit]);
+  }, [data, unit]);
 
   return (
     <ReactEChartsCore
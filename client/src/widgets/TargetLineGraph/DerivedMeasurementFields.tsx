@@ -0,0 +1,72 @@
+import type { Measurement } from '../../types';
+import { getFormulaVariables } from './formula';
+
+const inputClassName = `
+  w-full px-3 py-2
+  bg-slate-700/50 border border-slate-600/50
+  rounded-lg text-white placeholder-slate-500
+  focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500/50
+  text-sm
+`;
+
+interface DerivedMeasurementFieldsProps {
+  formula: string;
+  variables: Record<string, string>;
+  measurements: Measurement[]; // Measurements a variable can read from
+  onFormulaChange: (formula: string) => void;
+  onVariableChange: (variable: string, measurementId: string) => void;
+}
+
+/**
+ * DerivedMeasurementFields - Formula input plus a measurement picker for each variable it uses
+ */
+export function DerivedMeasurementFields({
+  formula,
+  variables,
+  measurements,
+  onFormulaChange,
+  onVariableChange,
+}: DerivedMeasurementFieldsProps) {
+  const formulaVariables = getFormulaVariables(formula);
+
+  return (
+    <div className="space-y-3" data-testid="derived-measurement-fields">
+      <div>
+        <label className="block text-xs text-slate-400 mb-1.5">Formula</label>
+        <input
+          type="text"
+          value={formula}
+          onChange={(e) => onFormulaChange(e.target.value)}
+          className={`${inputClassName} font-mono`}
+          placeholder="e.g., weight / (height / 100)^2"
+        />
+        <p className="text-[10px] text-slate-500 mt-1">
+          + - * / ^ and parentheses, abs(), sqrt(), round(x, digits), and avg/min/max(variable, days)
+          over the last N days. Values update whenever a source measurement gets a new entry.
+        </p>
+      </div>
+
+      {formulaVariables.map((variable) => (
+        <div key={variable} className="flex items-center gap-3">
+          <span className="w-24 shrink-0 text-xs font-mono text-teal-300 truncate">{variable}</span>
+          <select
+            value={variables[variable] ?? ''}
+            onChange={(e) => onVariableChange(variable, e.target.value)}
+            className={inputClassName}
+            aria-label={`Measurement for ${variable}`}
+          >
+            <option value="">Choose a measurement…</option>
+            {measurements.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.name}
+                {m.unit ? ` (${m.unit})` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default DerivedMeasurementFields;
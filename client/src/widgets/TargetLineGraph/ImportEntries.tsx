@@ -0,0 +1,282 @@
+import { useState, useEffect, useRef } from 'react';
+import toast from 'react-hot-toast';
+import { useImportMeasurementEntries } from '../../api';
+import type { Measurement, MeasurementImportOptions, MeasurementImportReport } from '../../types';
+
+interface ImportEntriesProps {
+  measurement: Measurement;
+  onClose: () => void;
+}
+
+// Parsed upload: CSV text, or the rows of a JSON export
+type ImportPayload = { csv: string } | { rows: unknown[] };
+
+const MAX_LISTED_SKIPS = 8;
+
+const selectClassName = `
+  w-full px-3 py-2
+  bg-slate-700/50 border border-slate-600/50
+  rounded-lg text-white
+  focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500/50
+  text-sm
+`;
+
+// JSON exports are either an array of readings or an object holding one (e.g. { "entries": [...] })
+function parseUpload(fileName: string, text: string): ImportPayload {
+  const trimmed = text.trim();
+  if (!fileName.toLowerCase().endsWith('.json') && !trimmed.startsWith('[') && !trimmed.startsWith('{')) {
+    return { csv: text };
+  }
+  const json: unknown = JSON.parse(trimmed);
+  if (Array.isArray(json)) return { rows: json };
+  const rows = json && typeof json === 'object' ? Object.values(json).find(Array.isArray) : undefined;
+  if (!rows) throw new Error('No list of readings found in the JSON file');
+  return { rows };
+}
+
+/**
+ * ImportEntries - Modal for importing measurement entries from a smart scale or fitness app export
+ *
+ * Features:
+ * - CSV or JSON file upload (date, value, optional unit columns)
+ * - Units converted to the measurement's unit on the server
+ * - Same-day policy (latest, average, min) and whether to replace existing days
+ * - Dry-run preview with the skipped rows before importing
+ */
+export function ImportEntries({ measurement, onClose }: ImportEntriesProps) {
+  const modalRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [payload, setPayload] = useState<ImportPayload | null>(null);
+  const [options, setOptions] = useState<MeasurementImportOptions>({
+    dedupe: 'latest',
+    existing: 'replace',
+    dateOrder: 'mdy',
+    unit: '',
+  });
+  const [preview, setPreview] = useState<MeasurementImportReport | null>(null);
+
+  const importEntries = useImportMeasurementEntries();
+
+  // Handle outside click and escape key
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [onClose]);
+
+  const runPreview = async (nextPayload: ImportPayload, nextOptions: MeasurementImportOptions) => {
+    setPreview(null);
+    try {
+      const result = await importEntries.mutateAsync({
+        measurementId: measurement.id,
+        ...nextPayload,
+        options: { ...nextOptions, dryRun: true },
+      });
+      setPreview(result.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read the file');
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const parsed = parseUpload(file.name, await file.text());
+      setFileName(file.name);
+      setPayload(parsed);
+      runPreview(parsed, options);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'That file could not be read');
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleOptionChange = (changes: Partial<MeasurementImportOptions>) => {
+    const nextOptions = { ...options, ...changes };
+    setOptions(nextOptions);
+    if (payload) runPreview(payload, nextOptions);
+  };
+
+  const handleImport = async () => {
+    if (!payload) return;
+    try {
+      const result = await importEntries.mutateAsync({ measurementId: measurement.id, ...payload, options });
+      const { created, updated, skippedCount } = result.data;
+      toast.success(
+        `Imported ${created + updated} entries${skippedCount > 0 ? ` (${skippedCount} rows skipped)` : ''}`
+      );
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import entries');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div
+        ref={modalRef}
+        className="w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto bg-slate-800 border border-slate-700/50 rounded-xl shadow-2xl shadow-black/50"
+        data-testid="import-entries-modal"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700/50 bg-slate-800/50">
+          <h2 className="text-lg font-semibold text-white font-condensed">
+            Import {measurement.name} entries
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700/50 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {/* File */}
+          <div>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full py-3 border border-dashed border-slate-600 rounded-lg text-sm text-slate-300 hover:border-teal-500/50 hover:text-teal-400 transition-colors"
+            >
+              {fileName ?? 'Choose a CSV or JSON export…'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,.txt,text/csv,application/json"
+              className="hidden"
+              data-testid="import-entries-file"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+              }}
+            />
+            <p className="text-[10px] text-slate-500 mt-1">
+              Needs a date column and a value column (e.g. "Weight (lb)"); an optional unit column or
+              unit in the values is converted to {measurement.unit || 'the measurement unit'}.
+            </p>
+          </div>
+
+          {/* Options */}
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-xs text-slate-400 mb-1.5">Several readings a day</span>
+              <select
+                value={options.dedupe}
+                onChange={(e) => handleOptionChange({ dedupe: e.target.value as MeasurementImportOptions['dedupe'] })}
+                className={selectClassName}
+              >
+                <option value="latest">Keep latest</option>
+                <option value="average">Average</option>
+                <option value="min">Keep lowest</option>
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-xs text-slate-400 mb-1.5">Days already logged</span>
+              <select
+                value={options.existing}
+                onChange={(e) => handleOptionChange({ existing: e.target.value as MeasurementImportOptions['existing'] })}
+                className={selectClassName}
+              >
+                <option value="replace">Replace</option>
+                <option value="skip">Keep mine</option>
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-xs text-slate-400 mb-1.5">Slashed dates</span>
+              <select
+                value={options.dateOrder}
+                onChange={(e) => handleOptionChange({ dateOrder: e.target.value as MeasurementImportOptions['dateOrder'] })}
+                className={selectClassName}
+              >
+                <option value="mdy">MM/DD/YYYY</option>
+                <option value="dmy">DD/MM/YYYY</option>
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-xs text-slate-400 mb-1.5">File unit (if not stated)</span>
+              <input
+                type="text"
+                value={options.unit}
+                onChange={(e) => setOptions({ ...options, unit: e.target.value })}
+                onBlur={() => payload && runPreview(payload, options)}
+                placeholder={measurement.unit || 'e.g., lb'}
+                className={`${selectClassName} placeholder-slate-500`}
+              />
+            </label>
+          </div>
+
+          {/* Preview */}
+          {importEntries.isPending && !preview && (
+            <div className="text-xs text-slate-500">Reading file…</div>
+          )}
+          {preview && (
+            <div className="p-3 bg-slate-900/50 rounded-lg border border-slate-700/30 text-xs space-y-2" data-testid="import-preview">
+              <div className="text-slate-400">
+                Reading <span className="text-white">{preview.columns.date}</span> and{' '}
+                <span className="text-white">{preview.columns.value}</span>
+                {preview.columns.unit && <> (units from <span className="text-white">{preview.columns.unit}</span>)</>}
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-slate-300">
+                <span><span className="text-emerald-400 font-medium">{preview.created}</span> new</span>
+                <span><span className="text-blue-400 font-medium">{preview.updated}</span> replaced</span>
+                <span><span className="text-slate-400 font-medium">{preview.merged}</span> same-day merged</span>
+                <span><span className="text-amber-400 font-medium">{preview.skippedCount}</span> skipped</span>
+              </div>
+              {preview.skipped.length > 0 && (
+                <ul className="space-y-0.5 text-slate-500" data-testid="import-skipped-rows">
+                  {preview.skipped.slice(0, MAX_LISTED_SKIPS).map((skip) => (
+                    <li key={`${skip.row}-${skip.reason}`}>
+                      Row {skip.row}: {skip.reason}
+                    </li>
+                  ))}
+                  {preview.skippedCount > MAX_LISTED_SKIPS && (
+                    <li>…and {preview.skippedCount - MAX_LISTED_SKIPS} more</li>
+                  )}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2.5 bg-slate-700/50 hover:bg-slate-600/50 border border-slate-600/50 text-slate-300 font-medium text-sm rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={!preview || importEntries.isPending || preview.created + preview.updated === 0}
+              className="flex-1 px-4 py-2.5 bg-gradient-to-r from-teal-600 to-blue-600 hover:from-teal-500 hover:to-blue-500 text-white font-medium text-sm rounded-lg shadow-lg shadow-teal-500/20 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ImportEntries;
@@ -1,12 +1,20 @@
 import { useState, useEffect, useRef } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
+import { addDays, format, parseISO } from 'date-fns';
 import {
   useCreateMeasurement,
   useCreateMeasurementTarget,
   useUpdateMeasurementTarget,
+  useCloseMeasurementTarget,
+  useDeleteMeasurementTarget,
+  useMeasurements,
+  useMeasurementTargets,
+  useMeasurementGraphData,
   measurementKeys,
 } from '../../api';
-import type { Measurement, MeasurementTarget } from '../../types';
+import type { Measurement, MeasurementPhase, MeasurementTarget } from '../../types';
+import { DerivedMeasurementFields } from './DerivedMeasurementFields';
+import { getFormulaVariables, guessVariableSource } from './formula';
 
 interface TargetConfigProps {
   measurement?: Measurement;
@@ -14,13 +22,21 @@ interface TargetConfigProps {
   onClose: () => void;
 }
 
+const todayString = () => format(new Date(), 'yyyy-MM-dd');
+
+// What a new objective tracks: a new logged measurement, a new derived one, or an existing measurement's id
+type MeasurementSource = 'new' | 'derived' | string;
+
 /**
  * TargetConfig - Modal for configuring measurement targets
  *
  * Features:
- * - Create new measurement if none exists
+ * - Create new measurement if none exists - logged by hand, or derived from others via a formula -
+ *   or pick an existing measurement that has no target yet
  * - Set start value, goal value, start date, goal date
  * - Edit existing target
+ * - List of phases (every target) with achieved vs planned change; edit, close or delete
+ *   a phase, or start a new one (which closes the open phase it follows)
  * - Visual preview of timeline
  */
 export function TargetConfig({
@@ -31,13 +47,29 @@ export function TargetConfig({
   const modalRef = useRef<HTMLDivElement>(null);
   const queryClient = useQueryClient();
 
+  // Phase being edited (undefined = creating a new phase)
+  const [editingTarget, setEditingTarget] = useState(currentTarget);
+  const { data: targets } = useMeasurementTargets(measurement?.id ?? '');
+  const { data: graphData } = useMeasurementGraphData(measurement?.id ?? '');
+  const phases = targets?.data ?? [];
+  const phaseStats = new Map((graphData?.data?.phases ?? []).map((p) => [p.id, p]));
+
+  // Measurements a new objective can track, and that a formula can read from
+  const { data: allMeasurements } = useMeasurements();
+  const measurementOptions = allMeasurements?.data ?? [];
+  const untargetedMeasurements = measurementOptions.filter((m) => !m.targets || m.targets.length === 0);
+
   // Form state
+  const [source, setSource] = useState<MeasurementSource>('new');
+  const [formula, setFormula] = useState('');
+  const [formulaVariables, setFormulaVariables] = useState<Record<string, string>>({});
   const [measurementName, setMeasurementName] = useState(
     measurement?.name || 'Weight'
   );
   const [measurementUnit, setMeasurementUnit] = useState(
     measurement?.unit || 'lbs'
   );
+  const [phaseName, setPhaseName] = useState(currentTarget?.name || '');
   const [startValue, setStartValue] = useState(
     currentTarget?.startValue?.toString() || ''
   );
@@ -62,11 +94,39 @@ export function TargetConfig({
   const createMeasurement = useCreateMeasurement();
   const createTarget = useCreateMeasurementTarget();
   const updateTarget = useUpdateMeasurementTarget();
+  const closeTarget = useCloseMeasurementTarget();
+  const deleteTarget = useDeleteMeasurementTarget();
 
   const isSubmitting =
     createMeasurement.isPending ||
     createTarget.isPending ||
-    updateTarget.isPending;
+    updateTarget.isPending ||
+    closeTarget.isPending;
+
+  // Load a phase into the form, or start a new phase from where the latest one left off
+  const selectPhase = (target?: MeasurementTarget) => {
+    const latestValue = phases[0] ? phaseStats.get(phases[0].id)?.stats.endValue : undefined;
+    setEditingTarget(target);
+    setPhaseName(target?.name || '');
+    setStartValue(target?.startValue?.toString() ?? latestValue?.toString() ?? '');
+    setGoalValue(target?.goalValue?.toString() || '');
+    setReachGoalValue(target?.reachGoalValue?.toString() || '');
+    setShowReachGoal(!!target?.reachGoalValue);
+    setStartDate(target?.startDate || todayString());
+    setGoalDate(target?.goalDate || format(addDays(new Date(), 90), 'yyyy-MM-dd'));
+  };
+
+  const handleClosePhase = (target: MeasurementTarget) => {
+    if (!measurement) return;
+    closeTarget.mutate({ measurementId: measurement.id, targetId: target.id, date: todayString() });
+  };
+
+  const handleDeletePhase = (target: MeasurementTarget) => {
+    if (!measurement) return;
+    if (!confirm(`Delete the ${target.name || 'unnamed'} phase?`)) return;
+    deleteTarget.mutate({ measurementId: measurement.id, targetId: target.id });
+    if (editingTarget?.id === target.id) selectPhase(undefined);
+  };
 
   // Calculate timeline info
   const daysBetween = () => {
@@ -125,35 +185,52 @@ export function TargetConfig({
     }
 
     try {
-      let measurementId = measurement?.id;
+      let measurementId = measurement?.id ?? (source !== 'new' && source !== 'derived' ? source : undefined);
 
       // Create measurement if it doesn't exist
       if (!measurementId) {
-        const result = await createMeasurement.mutateAsync({
-          type: 'weight',
-          name: measurementName,
-          unit: measurementUnit,
-        });
+        const result = await createMeasurement.mutateAsync(
+          source === 'derived'
+            ? {
+                type: 'derived',
+                name: measurementName,
+                unit: measurementUnit,
+                formula,
+                variables: resolvedVariables,
+              }
+            : {
+                type: 'weight',
+                name: measurementName,
+                unit: measurementUnit,
+              }
+        );
         measurementId = result.data.id;
       }
 
       // Create or update target
-      if (currentTarget) {
+      if (editingTarget) {
         await updateTarget.mutateAsync({
           measurementId,
-          targetId: currentTarget.id,
+          targetId: editingTarget.id,
           startValue: numStartValue,
           goalValue: numGoalValue,
           reachGoalValue: showReachGoal ? numReachGoalValue : undefined,
+          name: phaseName.trim() || null,
           startDate,
           goalDate,
         });
       } else {
+        // A new phase takes over from the open phase that started before it
+        const previousPhase = phases.find((t) => !t.closedDate && t.startDate <= startDate);
+        if (previousPhase) {
+          await closeTarget.mutateAsync({ measurementId, targetId: previousPhase.id, date: startDate });
+        }
         await createTarget.mutateAsync({
           measurementId,
           startValue: numStartValue,
           goalValue: numGoalValue,
           reachGoalValue: showReachGoal ? numReachGoalValue : undefined,
+          name: phaseName.trim() || null,
           startDate,
           goalDate,
         });
@@ -171,6 +248,16 @@ export function TargetConfig({
     }
   };
 
+  // Formula variables the user hasn't picked a measurement for fall back to a best guess
+  const resolvedVariables: Record<string, string> = Object.fromEntries(
+    getFormulaVariables(formula).flatMap((variable) => {
+      const id = formulaVariables[variable] || guessVariableSource(variable, measurementOptions);
+      return id ? [[variable, id]] : [];
+    })
+  );
+  const selectedMeasurement = measurement ?? measurementOptions.find((m) => m.id === source);
+  const unitLabel = selectedMeasurement?.unit || measurementUnit;
+
   const weeklyChangeValue = weeklyChange();
   const isWeightLoss =
     weeklyChangeValue !== null && weeklyChangeValue < 0
@@ -182,16 +269,16 @@ export function TargetConfig({
       <div
         ref={modalRef}
         className="
-          w-full max-w-md mx-4
+          w-full max-w-md mx-4 max-h-[90vh]
           bg-slate-800 border border-slate-700/50
           rounded-xl shadow-2xl shadow-black/50
-          overflow-hidden
+          overflow-y-auto
         "
       >
         {/* Header */}
         <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700/50 bg-slate-800/50">
           <h2 className="text-lg font-semibold text-white font-condensed">
-            {currentTarget ? 'Edit Target' : 'Configure Target'}
+            {editingTarget ? 'Edit Target' : phases.length > 0 ? 'New Phase' : 'Configure Target'}
           </h2>
           <button
             onClick={onClose}
@@ -213,10 +300,70 @@ export function TargetConfig({
           </button>
         </div>
 
+        {/* Phases */}
+        {measurement && phases.length > 0 && (
+          <div className="px-6 pt-5" data-testid="target-phases">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs text-slate-400">Phases</span>
+              <button
+                type="button"
+                onClick={() => selectPhase(undefined)}
+                className="text-xs text-teal-400 hover:text-teal-300 transition-colors"
+              >
+                + New phase
+              </button>
+            </div>
+            <div className="space-y-1.5">
+              {phases.map((target) => (
+                <PhaseRow
+                  key={target.id}
+                  target={target}
+                  phase={phaseStats.get(target.id)}
+                  unit={measurement.unit || 'units'}
+                  isEditing={editingTarget?.id === target.id}
+                  onEdit={() => selectPhase(target)}
+                  onClosePhase={() => handleClosePhase(target)}
+                  onDelete={() => handleDeletePhase(target)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Form */}
         <form onSubmit={handleSubmit} className="p-6 space-y-5">
-          {/* Measurement info (only show if no measurement exists) */}
+          {/* What to track (only when adding an objective) */}
           {!measurement && (
+            <div>
+              <label className="block text-xs text-slate-400 mb-1.5">
+                Track
+              </label>
+              <select
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                className="
+                  w-full px-3 py-2
+                  bg-slate-700/50 border border-slate-600/50
+                  rounded-lg text-white
+                  focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500/50
+                  text-sm
+                "
+                data-testid="measurement-source"
+              >
+                <option value="new">New measurement</option>
+                <option value="derived">New derived measurement (formula)</option>
+                {untargetedMeasurements.map((m) => (
+                  <option key={m.id} value={m.id}>
+                    {m.name}
+                    {m.formula ? ' (derived)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Measurement info (only show when creating a measurement) */}
+          {!measurement && (source === 'new' || source === 'derived') && (
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-xs text-slate-400 mb-1.5">
@@ -257,11 +404,50 @@ export function TargetConfig({
             </div>
           )}
 
+          {/* Formula for a derived measurement */}
+          {!measurement && source === 'derived' && (
+            <DerivedMeasurementFields
+              formula={formula}
+              variables={resolvedVariables}
+              measurements={measurementOptions}
+              onFormulaChange={setFormula}
+              onVariableChange={(variable, id) =>
+                setFormulaVariables((current) => ({ ...current, [variable]: id }))
+              }
+            />
+          )}
+
+          {/* Phase name */}
+          <div>
+            <label className="block text-xs text-slate-400 mb-1.5">
+              Phase Name (optional)
+            </label>
+            <input
+              type="text"
+              value={phaseName}
+              onChange={(e) => setPhaseName(e.target.value)}
+              maxLength={100}
+              className="
+                w-full px-3 py-2
+                bg-slate-700/50 border border-slate-600/50
+                rounded-lg text-white placeholder-slate-500
+                focus:outline-none focus:border-teal-500 focus:ring-1 focus:ring-teal-500/50
+                text-sm
+              "
+              placeholder="e.g., Cut, Bulk, Maintenance"
+            />
+            {!editingTarget && phases.some((t) => !t.closedDate && t.startDate <= startDate) && (
+              <p className="text-[10px] text-slate-500 mt-1">
+                The open phase will be closed on the new phase's start date
+              </p>
+            )}
+          </div>
+
           {/* Values row */}
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-xs text-slate-400 mb-1.5">
-                Start Value ({measurement?.unit || measurementUnit})
+                Start Value ({unitLabel})
               </label>
               <input
                 type="number"
@@ -284,7 +470,7 @@ export function TargetConfig({
             </div>
             <div>
               <label className="block text-xs text-slate-400 mb-1.5">
-                Goal Value ({measurement?.unit || measurementUnit})
+                Goal Value ({unitLabel})
               </label>
               <input
                 type="number"
@@ -327,7 +513,7 @@ export function TargetConfig({
             {showReachGoal && (
               <div className="ml-6">
                 <label className="block text-xs text-slate-400 mb-1.5">
-                  Reach Goal Value ({measurement?.unit || measurementUnit})
+                  Reach Goal Value ({unitLabel})
                 </label>
                 <input
                   type="number"
@@ -419,7 +605,7 @@ export function TargetConfig({
                 <div>
                   <div className="text-slate-400">Start</div>
                   <div className="text-white font-medium">
-                    {startValue} {measurement?.unit || measurementUnit}
+                    {startValue} {unitLabel}
                   </div>
                 </div>
                 <div className="text-center">
@@ -434,14 +620,14 @@ export function TargetConfig({
                     }`}
                   >
                     {weeklyChangeValue !== null
-                      ? `${weeklyChangeValue > 0 ? '+' : ''}${weeklyChangeValue.toFixed(1)} ${measurement?.unit || measurementUnit}/wk`
+                      ? `${weeklyChangeValue > 0 ? '+' : ''}${weeklyChangeValue.toFixed(1)} ${unitLabel}/wk`
                       : '--'}
                   </div>
                 </div>
                 <div className="text-right">
                   <div className="text-slate-400">Goal</div>
                   <div className="text-white font-medium">
-                    {goalValue} {measurement?.unit || measurementUnit}
+                    {goalValue} {unitLabel}
                   </div>
                 </div>
               </div>
@@ -459,9 +645,12 @@ export function TargetConfig({
           {/* Error display */}
           {(createMeasurement.isError ||
             createTarget.isError ||
-            updateTarget.isError) && (
+            updateTarget.isError ||
+            closeTarget.isError) && (
             <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
-              Failed to save target. Please try again.
+              {source === 'derived' && createMeasurement.error
+                ? createMeasurement.error.message
+                : 'Failed to save target. Please try again.'}
             </div>
           )}
 
@@ -482,7 +671,7 @@ export function TargetConfig({
             </button>
             <button
               type="submit"
-              disabled={isSubmitting || !startValue || !goalValue}
+              disabled={isSubmitting || !startValue || !goalValue || (!measurement && source === 'derived' && !formula.trim())}
               className="
                 flex-1 px-4 py-2.5
                 bg-gradient-to-r from-teal-600 to-blue-600
@@ -518,7 +707,7 @@ export function TargetConfig({
                   <span>Saving...</span>
                 </>
               ) : (
-                <span>{currentTarget ? 'Update Target' : 'Set Target'}</span>
+                <span>{editingTarget ? 'Update Target' : phases.length > 0 ? 'Start Phase' : 'Set Target'}</span>
               )}
             </button>
           </div>
@@ -528,4 +717,80 @@ export function TargetConfig({
   );
 }
 
+/**
+ * PhaseRow - One target phase: its window, status and achieved vs planned change
+ */
+function PhaseRow({
+  target,
+  phase,
+  unit,
+  isEditing,
+  onEdit,
+  onClosePhase,
+  onDelete,
+}: {
+  target: MeasurementTarget;
+  phase?: MeasurementPhase;
+  unit: string;
+  isEditing: boolean;
+  onEdit: () => void;
+  onClosePhase: () => void;
+  onDelete: () => void;
+}) {
+  const formatDate = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+  const formatChange = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+  const endDate = target.closedDate && target.closedDate < target.goalDate ? target.closedDate : target.goalDate;
+  const stats = phase?.stats;
+
+  return (
+    <div
+      className={`
+        px-3 py-2 rounded-lg border text-xs
+        ${isEditing ? 'border-teal-500/50 bg-teal-500/5' : 'border-slate-700/50 bg-slate-900/40'}
+      `}
+      data-testid="target-phase"
+    >
+      <div className="flex items-center gap-2">
+        <span className="text-white font-medium truncate">{target.name || 'Unnamed phase'}</span>
+        <span
+          className={`px-1.5 py-0.5 rounded text-[10px] ${
+            target.closedDate ? 'bg-slate-700 text-slate-400' : 'bg-teal-500/20 text-teal-300'
+          }`}
+        >
+          {target.closedDate ? 'Closed' : phase?.isCurrent ? 'Current' : 'Open'}
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          <button type="button" onClick={onEdit} className="text-slate-400 hover:text-teal-400 transition-colors">
+            Edit
+          </button>
+          {!target.closedDate && (
+            <button type="button" onClick={onClosePhase} className="text-slate-400 hover:text-amber-400 transition-colors">
+              Close
+            </button>
+          )}
+          <button type="button" onClick={onDelete} className="text-slate-400 hover:text-red-400 transition-colors">
+            Delete
+          </button>
+        </div>
+      </div>
+      <div className="mt-1 text-slate-500">
+        {formatDate(target.startDate)} – {formatDate(endDate)} · {target.startValue} → {target.goalValue} {unit}
+      </div>
+      {stats && (
+        <div className="mt-1 text-slate-400" data-testid="phase-stats">
+          {stats.achievedChange !== null ? (
+            <>
+              Achieved <span className="text-white">{formatChange(stats.achievedChange)} {unit}</span>
+              {' '}of {formatChange(stats.plannedChange)} planned
+              {stats.percentAchieved !== null && ` (${stats.percentAchieved}%)`}
+            </>
+          ) : (
+            'No entries in this phase yet'
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default TargetConfig;
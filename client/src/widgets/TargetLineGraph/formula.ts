@@ -0,0 +1,25 @@
+import type { Measurement } from '../../types';
+
+// Functions the server's formula language provides (see server/src/formula.ts)
+const FORMULA_FUNCTIONS = new Set(['abs', 'sqrt', 'round', 'avg', 'min', 'max']);
+
+// Variable names a formula reads, in order of first use ('weight / (height / 100)^2' -> ['weight', 'height'])
+export function getFormulaVariables(formula: string): string[] {
+  const names: string[] = [];
+  for (const match of formula.matchAll(/[A-Za-z_][A-Za-z0-9_]*/g)) {
+    const followedByCall = /^\s*\(/.test(formula.slice(match.index + match[0].length));
+    if (followedByCall && FORMULA_FUNCTIONS.has(match[0])) continue;
+    if (!names.includes(match[0])) names.push(match[0]);
+  }
+  return names;
+}
+
+// The measurement a variable most likely means: same type, or a name that slugs to it
+export function guessVariableSource(variable: string, measurements: Measurement[]): string | undefined {
+  const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  const key = variable.toLowerCase();
+  return (
+    measurements.find((m) => !m.formula && m.type.toLowerCase() === key) ??
+    measurements.find((m) => slug(m.name) === key)
+  )?.id;
+}
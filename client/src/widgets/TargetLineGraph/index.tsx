@@ -3,11 +3,13 @@ import {
   useMeasurements,
   useMeasurementEntries,
   useMeasurementTargets,
+  useMeasurementGraphData,
 } from '../../api';
 import { Chart } from './Chart';
 import { QuickEntry } from './QuickEntry';
 import { TargetConfig } from './TargetConfig';
-import type { Measurement, MeasurementEntry, MeasurementTarget } from '../../types';
+import { ImportEntries } from './ImportEntries';
+import type { Measurement, MeasurementEntry, MeasurementGraphData, MeasurementTarget } from '../../types';
 
 interface TargetLineGraphProps {
   /** Custom class name */
@@ -20,7 +22,7 @@ interface TargetLineGraphProps {
  * Features:
  * - Lists all measurements with active targets as collapsible rows
  * - Each row shows objective name, current value, progress
- * - Expanded view shows chart and quick entry
+ * - Expanded view shows chart (with trend, on-track band and projection), pace forecast and quick entry
  * - Add new objective button
  */
 export function TargetLineGraph({ className = '' }: TargetLineGraphProps) {
@@ -139,6 +141,8 @@ function ObjectiveRow({
   onToggle: () => void;
   onConfigure: (target?: MeasurementTarget) => void;
 }) {
+  const [showImport, setShowImport] = useState(false);
+
   // Fetch entries for this measurement (last 90 days)
   const ninetyDaysAgo = new Date();
   ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90);
@@ -148,16 +152,18 @@ function ObjectiveRow({
   const { data: entries } = useMeasurementEntries(measurement.id, startDate, endDate);
   const { data: targets } = useMeasurementTargets(measurement.id);
 
-  // Get current target (most recent)
-  const currentTarget = targets?.data?.[0] as MeasurementTarget | undefined;
+  // Get current target (latest open phase) - the chart reaches back to the first phase
+  const currentTarget = targets?.data?.find((t) => !t.closedDate) as MeasurementTarget | undefined;
+  const firstPhaseStart = targets?.data?.[targets.data.length - 1]?.startDate;
+  const graphStartDate = firstPhaseStart && firstPhaseStart < startDate ? firstPhaseStart : startDate;
+  const { data: graphData } = useMeasurementGraphData(isExpanded ? measurement.id : '', graphStartDate, endDate);
 
-  // Get sorted entries (newest first for latest, oldest first for chart)
+  // Get sorted entries (newest first for latest)
   const sortedEntries = [...(entries?.data || [])].sort(
     (a: MeasurementEntry, b: MeasurementEntry) =>
       new Date(b.date).getTime() - new Date(a.date).getTime()
   );
   const latestEntry = sortedEntries[0] as MeasurementEntry | undefined;
-  const chartEntries = [...sortedEntries].reverse();
 
   // Calculate target for today
   const calculateTargetForDate = (date: Date): number | null => {
@@ -309,35 +315,109 @@ function ObjectiveRow({
           {/* Chart */}
           <div className="h-40 my-3">
             <Chart
-              entries={chartEntries}
-              target={currentTarget}
+              data={graphData?.data}
               unit={measurement.unit || 'units'}
             />
           </div>
 
-          {/* Quick entry */}
-          <QuickEntry
-            measurementId={measurement.id}
-            unit={measurement.unit || 'units'}
-            lastValue={latestEntry?.value}
-          />
+          {/* Pace forecast */}
+          {graphData?.data && (
+            <PaceForecast data={graphData.data} unit={measurement.unit || 'units'} />
+          )}
+
+          {/* Quick entry - derived measurements are computed from their formula instead */}
+          {measurement.formula ? (
+            <div className="text-xs text-slate-500" data-testid="derived-formula">
+              Computed from <span className="font-mono text-slate-400">{measurement.formula}</span>
+            </div>
+          ) : (
+            <QuickEntry
+              measurementId={measurement.id}
+              unit={measurement.unit || 'units'}
+              lastValue={latestEntry?.value}
+            />
+          )}
 
-          {/* Configure button */}
-          <button
-            onClick={(e) => {
-              e.stopPropagation();
-              onConfigure(currentTarget);
-            }}
-            className="mt-2 text-xs text-slate-400 hover:text-teal-400 transition-colors"
-          >
-            Configure target
-          </button>
+          {/* Configure and import buttons */}
+          <div className="mt-2 flex items-center gap-4">
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onConfigure(currentTarget);
+              }}
+              className="text-xs text-slate-400 hover:text-teal-400 transition-colors"
+            >
+              Configure target
+            </button>
+            {!measurement.formula && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowImport(true);
+                }}
+                className="text-xs text-slate-400 hover:text-teal-400 transition-colors"
+              >
+                Import entries
+              </button>
+            )}
+          </div>
+          {showImport && (
+            <ImportEntries measurement={measurement} onClose={() => setShowImport(false)} />
+          )}
         </div>
       )}
     </div>
   );
 }
 
+// "2026-03-04" -> "Mar 4"
+function formatShortDate(date: string): string {
+  return new Date(date + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Projected goal dates at the recent pace and how far ahead/behind schedule the latest entry is
+ */
+function PaceForecast({ data, unit }: { data: MeasurementGraphData; unit: string }) {
+  const { projection, schedule } = data;
+  if (!projection && !schedule) return null;
+
+  const statusStyles = {
+    ahead: 'bg-emerald-500/20 text-emerald-300',
+    'on-track': 'bg-slate-600/40 text-slate-300',
+    behind: 'bg-red-500/20 text-red-300',
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-3 text-xs text-slate-400" data-testid="pace-forecast">
+      {schedule && (
+        <span className={`px-2 py-0.5 rounded-full font-medium ${statusStyles[schedule.status]}`} data-testid="schedule-status">
+          {schedule.status === 'on-track' ? 'On track' : schedule.status === 'ahead' ? 'Ahead' : 'Behind'}
+          {schedule.status !== 'on-track' && ` ${Math.abs(schedule.deltaValue).toFixed(1)} ${unit}`}
+        </span>
+      )}
+      {projection?.linear && (
+        <span>
+          Goal at current pace:{' '}
+          <span className="text-slate-200">
+            {projection.linear.date ? formatShortDate(projection.linear.date) : 'not heading there'}
+          </span>
+          {schedule?.deltaDays != null && schedule.deltaDays !== 0 && (
+            <span className={schedule.deltaDays > 0 ? 'text-emerald-400' : 'text-red-400'}>
+              {' '}({Math.abs(schedule.deltaDays)}d {schedule.deltaDays > 0 ? 'early' : 'late'})
+            </span>
+          )}
+        </span>
+      )}
+      {projection?.exponential?.date && (
+        <span title={`${projection.exponential.dailyChangePercent}% per day`}>
+          Exponential: <span className="text-slate-200">{formatShortDate(projection.exponential.date)}</span>
+        </span>
+      )}
+    </div>
+  );
+}
+
 /**
  * Progress bar showing position between start and goal
  */
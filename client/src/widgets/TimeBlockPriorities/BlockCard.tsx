@@ -1,7 +1,9 @@
 import { useState, useCallback } from 'react';
 import { Timer } from './Timer';
 import { PriorityList } from './PriorityList';
+import { formatSchedule } from './schedule';
 import { useTimerStore } from '../../stores';
+import { useUpdateTask } from '../../api';
 import type { TimeBlock, Habit } from '../../types';
 
 interface BlockCardProps {
@@ -23,6 +25,8 @@ export function BlockCard({
   const isActiveTimer = activeBlockId === block.id;
   const priorityCount = block.priorities?.length ?? 0;
   const completedCount = block.priorities?.filter((p) => p.completedAt).length ?? 0;
+  const openTasks = block.tasks?.filter((t) => !t.completedAt) ?? [];
+  const updateTask = useUpdateTask();
 
   const handleToggleExpand = useCallback(() => {
     setIsExpanded((prev) => !prev);
@@ -40,11 +44,18 @@ export function BlockCard({
     }
   }, [block.id, onDelete]);
 
+  const handleUnassignTask = useCallback((taskId: string) => {
+    updateTask.mutate({ id: taskId, timeBlockId: null });
+  }, [updateTask]);
+
   return (
     <div
+      data-time-block-drop={block.id}
+      data-testid="time-block-card"
       className={`
         relative rounded-xl overflow-hidden
         transition-all duration-300 ease-out
+        data-[drop-over=true]:ring-2 data-[drop-over=true]:ring-teal-400
         ${isActiveTimer
           ? 'bg-gradient-to-br from-slate-800/90 to-teal-900/30 border-2 border-teal-500/50 shadow-lg shadow-teal-500/20'
           : 'bg-slate-800/60 border border-slate-700/50 hover:border-slate-600/50'
@@ -73,6 +84,16 @@ export function BlockCard({
                 {block.name}
               </h3>
 
+              {/* Schedule */}
+              <div className="flex items-center gap-1.5 mt-0.5 text-xs text-slate-400" data-testid="time-block-schedule">
+                <span>{formatSchedule(block)}</span>
+                {block.autoStart && (
+                  <span className="px-1.5 py-0.5 rounded bg-blue-500/20 text-blue-300 text-[10px] font-medium">
+                    Auto-start
+                  </span>
+                )}
+              </div>
+
               {/* Linked habit badge */}
               {linkedHabit && (
                 <div className="flex items-center gap-1.5 mt-1">
@@ -167,6 +188,31 @@ export function BlockCard({
       >
         <div className="px-4 pb-4 border-t border-slate-700/50">
           <PriorityList blockId={block.id} isExpanded={isExpanded} />
+
+          {/* Tasks assigned by dragging them in from Weekly Tasks */}
+          <div className="mt-3" data-testid="time-block-tasks">
+            <h4 className="text-xs font-medium text-slate-400 uppercase tracking-wider mb-2">Tasks</h4>
+            {openTasks.length === 0 ? (
+              <p className="text-xs text-slate-500">Drag tasks here from Weekly Tasks.</p>
+            ) : (
+              <ul className="space-y-1">
+                {openTasks.map((task) => (
+                  <li key={task.id} className="group flex items-center gap-2 px-2 py-1 rounded bg-slate-700/40 text-sm text-slate-200">
+                    <span className="flex-1 truncate">{task.title}</span>
+                    <button
+                      onClick={() => handleUnassignTask(task.id)}
+                      className="opacity-0 group-hover:opacity-100 text-slate-400 hover:text-red-400 transition-opacity"
+                      title="Remove from block"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
         </div>
       </div>
 
@@ -1,9 +1,11 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useHabits, useCategories, useCreateTimeBlock, useUpdateTimeBlock } from '../../api';
+import { WEEKDAY_LABELS } from './schedule';
 import type { TimeBlock, Habit, Category } from '../../types';
 
 interface BlockFormProps {
   block?: TimeBlock | null;
+  defaultStartTime?: string; // HH:MM for a new block placed from the day calendar
   onClose: () => void;
 }
 
@@ -17,7 +19,7 @@ const DURATION_PRESETS = [
   { label: '90m', value: 90 },
 ];
 
-export function BlockForm({ block, onClose }: BlockFormProps) {
+export function BlockForm({ block, defaultStartTime, onClose }: BlockFormProps) {
   const isEditing = !!block;
 
   // Form state
@@ -26,6 +28,9 @@ export function BlockForm({ block, onClose }: BlockFormProps) {
   const [linkedHabitId, setLinkedHabitId] = useState<string | undefined>(block?.linkedHabitId);
   const [customDuration, setCustomDuration] = useState('');
   const [showCustomDuration, setShowCustomDuration] = useState(false);
+  const [startTime, setStartTime] = useState(block?.startTime ?? defaultStartTime ?? '');
+  const [weekdays, setWeekdays] = useState<number[]>(block?.weekdays ?? []);
+  const [autoStart, setAutoStart] = useState(block?.autoStart ?? false);
 
   // Fetch habits and categories for linking
   const { data: habitsData } = useHabits();
@@ -119,6 +124,10 @@ export function BlockForm({ block, onClose }: BlockFormProps) {
     }
   }, []);
 
+  const handleToggleWeekday = useCallback((day: number) => {
+    setWeekdays((prev) => prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b));
+  }, []);
+
   const handleSubmit = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -128,6 +137,9 @@ export function BlockForm({ block, onClose }: BlockFormProps) {
       name: name.trim(),
       durationMinutes,
       linkedHabitId: linkedHabitId || undefined,
+      startTime: startTime || null,
+      weekdays: startTime && weekdays.length > 0 ? weekdays : null,
+      autoStart: !!startTime && autoStart,
     };
 
     try {
@@ -140,7 +152,7 @@ export function BlockForm({ block, onClose }: BlockFormProps) {
     } catch (error) {
       console.error('Failed to save time block:', error);
     }
-  }, [name, durationMinutes, linkedHabitId, isEditing, block, createBlock, updateBlock, onClose]);
+  }, [name, durationMinutes, linkedHabitId, startTime, weekdays, autoStart, isEditing, block, createBlock, updateBlock, onClose]);
 
   const isSubmitting = createBlock.isPending || updateBlock.isPending;
 
@@ -148,7 +160,7 @@ export function BlockForm({ block, onClose }: BlockFormProps) {
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
       <div
         className="
-          relative w-full max-w-md
+          relative w-full max-w-md max-h-[90vh] overflow-y-auto
           bg-gradient-to-br from-slate-800 to-slate-900
           border border-slate-700/50
           rounded-2xl shadow-2xl shadow-black/30
@@ -266,6 +278,74 @@ export function BlockForm({ block, onClose }: BlockFormProps) {
             </p>
           </div>
 
+          {/* Schedule */}
+          <div>
+            <label htmlFor="block-start-time" className="block text-sm font-medium text-slate-300 mb-2">
+              Start Time (Optional)
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                id="block-start-time"
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                className="
+                  w-36 px-4 py-2 rounded-lg
+                  bg-slate-900/50 border border-slate-600/50
+                  text-white
+                  focus:outline-none focus:border-teal-500/50 focus:ring-2 focus:ring-teal-500/20
+                  transition-all duration-150
+                "
+              />
+              {startTime && (
+                <button
+                  type="button"
+                  onClick={() => setStartTime('')}
+                  className="text-xs text-slate-400 hover:text-white"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+
+            {startTime && (
+              <>
+                <div className="flex gap-1 mt-3" data-testid="block-weekdays">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <button
+                      key={label}
+                      type="button"
+                      onClick={() => handleToggleWeekday(day)}
+                      className={`
+                        flex-1 py-1.5 rounded-md text-xs font-medium
+                        transition-all duration-150
+                        ${weekdays.includes(day)
+                          ? 'bg-gradient-to-r from-teal-500 to-blue-500 text-white'
+                          : 'bg-slate-700/50 text-slate-400 hover:bg-slate-700 hover:text-white'
+                        }
+                      `}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-2">
+                  {weekdays.length === 0 ? 'Repeats every day - pick days to limit it.' : 'Repeats on the selected days.'}
+                </p>
+
+                <label className="flex items-center gap-2 mt-3 text-sm text-slate-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={autoStart}
+                    onChange={(e) => setAutoStart(e.target.checked)}
+                    className="rounded border-slate-600 bg-slate-900/50 text-teal-500 focus:ring-teal-500/20"
+                  />
+                  Start the timer automatically at this time
+                </label>
+              </>
+            )}
+          </div>
+
           {/* Linked habit */}
           <div>
             <label htmlFor="linked-habit" className="block text-sm font-medium text-slate-300 mb-2">
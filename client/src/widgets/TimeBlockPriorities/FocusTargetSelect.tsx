@@ -0,0 +1,67 @@
+import { useTimerStore } from '../../stores';
+import { useTimeBlock, useTimeBlockPriorities, useUpdateTimerTarget } from '../../api';
+
+interface FocusTargetSelectProps {
+  blockId: string;
+}
+
+/**
+ * Pick the priority or task being worked on - saved with the focus session when the run ends.
+ */
+export function FocusTargetSelect({ blockId }: FocusTargetSelectProps) {
+  const { data: blockData } = useTimeBlock(blockId);
+  const { data: prioritiesData } = useTimeBlockPriorities(blockId);
+  const focusTaskId = useTimerStore((state) => state.focusTaskId);
+  const focusPriorityId = useTimerStore((state) => state.focusPriorityId);
+  const setFocusTarget = useTimerStore((state) => state.setFocusTarget);
+  const { mutate: updateTimerTarget } = useUpdateTimerTarget();
+
+  // Open items, plus whatever is already picked
+  const priorities = (prioritiesData?.data ?? []).filter((p) => !p.completedAt || p.id === focusPriorityId);
+  const tasks = (blockData?.data.tasks ?? []).filter((t) => !t.completedAt || t.id === focusTaskId);
+
+  if (priorities.length === 0 && tasks.length === 0) return null;
+
+  const value = focusPriorityId ? `priority:${focusPriorityId}` : focusTaskId ? `task:${focusTaskId}` : '';
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const [kind, id] = e.target.value.split(':');
+    const taskId = kind === 'task' ? id : null;
+    const priorityId = kind === 'priority' ? id : null;
+    setFocusTarget({ taskId, priorityId });
+    updateTimerTarget({ blockId, taskId, priorityId });
+  };
+
+  return (
+    <select
+      value={value}
+      onChange={handleChange}
+      onClick={(e) => e.stopPropagation()}
+      className="max-w-[180px] px-2 py-1 text-xs bg-slate-700/50 border border-slate-600/50 rounded-lg text-slate-300 focus:outline-none focus:border-teal-500/50"
+      title="What are you working on?"
+      data-testid="focus-target-select"
+    >
+      <option value="">Working on...</option>
+      {priorities.length > 0 && (
+        <optgroup label="Priorities">
+          {priorities.map((priority) => (
+            <option key={priority.id} value={`priority:${priority.id}`}>
+              {priority.title}
+            </option>
+          ))}
+        </optgroup>
+      )}
+      {tasks.length > 0 && (
+        <optgroup label="Tasks">
+          {tasks.map((task) => (
+            <option key={task.id} value={`task:${task.id}`}>
+              {task.title}
+            </option>
+          ))}
+        </optgroup>
+      )}
+    </select>
+  );
+}
+
+export default FocusTargetSelect;
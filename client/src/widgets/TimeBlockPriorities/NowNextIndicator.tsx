@@ -0,0 +1,56 @@
+import { differenceInMinutes, format, isSameDay } from 'date-fns';
+import { useTimerStore } from '../../stores';
+import { useNowNextBlock } from './useTimeBlockSchedule';
+
+interface NowNextIndicatorProps {
+  className?: string;
+}
+
+// 95 -> "1h 35m", 20 -> "20m"
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+/**
+ * NowNextIndicator - The scheduled block happening now (with time left) and the next one.
+ */
+export function NowNextIndicator({ className = '' }: NowNextIndicatorProps) {
+  const { current, next, now } = useNowNextBlock();
+  const activeBlockId = useTimerStore((state) => state.activeBlockId);
+  const timerStatus = useTimerStore((state) => state.status);
+
+  if (!current && !next) return null;
+
+  const isCurrentRunning = current && activeBlockId === current.block.id && timerStatus === 'running';
+
+  return (
+    <div
+      className={`flex flex-wrap items-center gap-x-4 gap-y-1 px-3 py-2 rounded-lg bg-slate-900/40 border border-slate-700/50 text-xs ${className}`}
+      data-testid="now-next-indicator"
+    >
+      {current && (
+        <div className="flex items-center gap-2" data-testid="now-block">
+          <span className={`w-2 h-2 rounded-full ${isCurrentRunning ? 'bg-teal-400 animate-pulse' : 'bg-amber-400'}`} />
+          <span className="text-slate-400">Now</span>
+          <span className="text-white font-medium">{current.block.name}</span>
+          <span className="text-slate-500">{formatMinutes(differenceInMinutes(current.end, now))} left</span>
+        </div>
+      )}
+      {next && (
+        <div className="flex items-center gap-2" data-testid="next-block">
+          <span className="text-slate-400">Next</span>
+          <span className="text-white font-medium">{next.block.name}</span>
+          <span className="text-slate-500">
+            {isSameDay(next.start, now)
+              ? `in ${formatMinutes(Math.max(1, differenceInMinutes(next.start, now)))}`
+              : format(next.start, 'EEE h:mm a')}
+          </span>
+          {next.block.autoStart && <span className="text-blue-300">· auto-starts</span>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default NowNextIndicator;
@@ -1,11 +1,23 @@
 import { useEffect, useRef, useCallback, useState, useMemo } from 'react';
+import { format } from 'date-fns';
 import {
   useTimerStore,
   formatTime,
   POMODORO_PRESETS,
   type TimerMode,
 } from '../../stores';
-import { useUpdateHabitEntry } from '../../api';
+import {
+  useUpdateHabitEntry,
+  useSettings,
+  useStartTimer,
+  usePauseTimer,
+  useResumeTimer,
+  useStopTimer,
+  useCompleteTimer,
+  useResetTimer,
+} from '../../api';
+import { getEffectiveDate } from '../HabitMatrix/useHabitMatrix';
+import { FocusTargetSelect } from './FocusTargetSelect';
 
 interface TimerProps {
   blockId: string;
@@ -64,6 +76,16 @@ const playNotificationSound = (audioEnabled: boolean) => {
   }
 };
 
+// The phase the store just moved to, as sent to the server (start, reset, skip and complete)
+const getPhaseState = () => {
+  const state = useTimerStore.getState();
+  return {
+    phase: state.mode === 'pomodoro' ? state.currentPhase : 'work' as const,
+    durationSeconds: state.totalSeconds,
+    completedSessions: state.completedSessions,
+  };
+};
+
 export function Timer({
   blockId,
   durationMinutes,
@@ -73,6 +95,7 @@ export function Timer({
   const [showCompletionPrompt, setShowCompletionPrompt] = useState(false);
   const [countdownInput, setCountdownInput] = useState(durationMinutes.toString());
   const hasCompletedRef = useRef(false);
+  const previousStatusRef = useRef<string | null>(null);
 
   // Timer store state
   const {
@@ -102,6 +125,15 @@ export function Timer({
 
   // Habit mutation for marking linked habit complete
   const updateHabitEntry = useUpdateHabitEntry();
+  // Server-side timer - every change is mirrored there so other devices show the same timer
+  const { mutate: startServerTimer } = useStartTimer();
+  const { mutate: pauseServerTimer } = usePauseTimer();
+  const { mutate: resumeServerTimer } = useResumeTimer();
+  const { mutate: stopServerTimer } = useStopTimer();
+  const { mutate: completeServerTimer } = useCompleteTimer();
+  const { mutate: resetServerTimer } = useResetTimer();
+  const { data: settingsData } = useSettings();
+  const dayBoundaryHour = settingsData?.data?.dayBoundaryHour ?? 6;
 
   const isActiveTimer = activeBlockId === blockId;
 
@@ -119,6 +151,12 @@ export function Timer({
     }
   }, [isActiveTimer, mode, remainingSeconds, totalSeconds, elapsedSeconds]);
 
+  // Effective day a run ending now is logged under
+  const getRunDate = useCallback(
+    () => format(getEffectiveDate(new Date(), dayBoundaryHour), 'yyyy-MM-dd'),
+    [dayBoundaryHour]
+  );
+
   // Calculate stroke offset for progress ring
   const strokeDashoffset = CIRCUMFERENCE - progress * CIRCUMFERENCE;
 
@@ -133,11 +171,18 @@ export function Timer({
     return () => clearInterval(interval);
   }, [isActiveTimer, isRunning, tick]);
 
-  // Completion detection
+  // Completion detection - only when a run is seen finishing, not when loading a timer that already had
   useEffect(() => {
-    if (isActiveTimer && status === 'complete' && !hasCompletedRef.current) {
+    const wasRunning = previousStatusRef.current === 'running';
+    previousStatusRef.current = status;
+
+    if (isActiveTimer && status === 'complete' && wasRunning && !hasCompletedRef.current) {
       hasCompletedRef.current = true;
 
+      // Other devices may report the same completion; the server only counts it once
+      const { phase, completedSessions: sessions } = getPhaseState();
+      completeServerTimer({ blockId, phase, completedSessions: sessions, date: getRunDate() });
+
       // Play completion sound
       playNotificationSound(audioEnabled);
 
@@ -148,7 +193,7 @@ export function Timer({
 
       onComplete?.();
     }
-  }, [isActiveTimer, status, linkedHabitId, onComplete, audioEnabled]);
+  }, [isActiveTimer, status, blockId, linkedHabitId, onComplete, audioEnabled, completeServerTimer, getRunDate]);
 
   // Reset completion flag when timer status changes from complete
   useEffect(() => {
@@ -158,33 +203,44 @@ export function Timer({
   }, [status]);
 
   const handlePlayPause = useCallback(() => {
-    if (!isActiveTimer) {
+    if (!isActiveTimer || status === 'idle' || status === 'complete') {
+      // After completing, only pomodoro moves on to another phase
+      if (status === 'complete' && isActiveTimer && mode !== 'pomodoro') return;
+
+      // Starting here replaces (and logs) a run still going on another block
       const minutes = mode === 'countdown' ? parseInt(countdownInput) || durationMinutes : undefined;
       startTimer(blockId, minutes);
+      startServerTimer({ blockId, mode, ...getPhaseState(), date: getRunDate() });
     } else if (isRunning) {
       pauseTimer();
+      pauseServerTimer({ blockId });
     } else if (status === 'paused') {
       resumeTimer();
-    } else if (status === 'complete') {
-      // For pomodoro, start next phase
-      if (mode === 'pomodoro') {
-        startTimer(blockId);
-      }
+      resumeServerTimer({ blockId });
     }
-  }, [isActiveTimer, isRunning, status, blockId, mode, countdownInput, durationMinutes, startTimer, pauseTimer, resumeTimer]);
+  }, [isActiveTimer, isRunning, status, blockId, mode, countdownInput, durationMinutes, startTimer, pauseTimer, resumeTimer, startServerTimer, pauseServerTimer, resumeServerTimer, getRunDate]);
 
   const handleReset = useCallback(() => {
     if (isActiveTimer) {
       const minutes = mode === 'countdown' ? parseInt(countdownInput) || durationMinutes : undefined;
       resetTimer(minutes);
+      resetServerTimer({ blockId, ...getPhaseState(), date: getRunDate() });
     }
-  }, [isActiveTimer, mode, countdownInput, durationMinutes, resetTimer]);
+  }, [isActiveTimer, blockId, mode, countdownInput, durationMinutes, resetTimer, resetServerTimer, getRunDate]);
+
+  const handleSkip = useCallback(() => {
+    skipToNextPhase();
+    resetServerTimer({ blockId, ...getPhaseState(), date: getRunDate() });
+  }, [blockId, skipToNextPhase, resetServerTimer, getRunDate]);
 
   const handleStop = useCallback(() => {
+    if (useTimerStore.getState().activeBlockId === blockId) {
+      stopServerTimer({ blockId, date: getRunDate() });
+    }
     stopTimer();
     setShowCompletionPrompt(false);
     hasCompletedRef.current = false;
-  }, [stopTimer]);
+  }, [blockId, stopTimer, stopServerTimer, getRunDate]);
 
   const handleMarkHabitComplete = useCallback(() => {
     if (linkedHabitId) {
@@ -206,8 +262,10 @@ export function Timer({
 
   const handleModeChange = useCallback((newMode: TimerMode) => {
     if (status === 'running') return;
+    // A paused or finished timer on this block is dropped for the new mode
+    if (isActiveTimer) handleStop();
     setMode(newMode);
-  }, [status, setMode]);
+  }, [status, isActiveTimer, handleStop, setMode]);
 
   // Determine display time
   const displayTime = useMemo(() => {
@@ -491,7 +549,7 @@ export function Timer({
         {/* Skip button - only for pomodoro */}
         {mode === 'pomodoro' && isActiveTimer && status !== 'complete' && (
           <button
-            onClick={skipToNextPhase}
+            onClick={handleSkip}
             className="
               w-11 h-11 rounded-full flex items-center justify-center
               bg-slate-700/80 hover:bg-slate-600 text-slate-300 hover:text-white
@@ -525,6 +583,9 @@ export function Timer({
         )}
       </div>
 
+      {/* What this run is spent on */}
+      {isActiveTimer && <FocusTargetSelect blockId={blockId} />}
+
       {/* Audio Toggle */}
       <button
         onClick={() => setAudioEnabled(!audioEnabled)}
@@ -18,6 +18,7 @@ import {
 import { CSS } from '@dnd-kit/utilities';
 import { BlockCard } from './BlockCard';
 import { BlockForm } from './BlockForm';
+import { NowNextIndicator } from './NowNextIndicator';
 import {
   useTimeBlocks,
   useDeleteTimeBlock,
@@ -94,6 +95,8 @@ function SortableBlockCard({
  * - Priority list per block with drag-to-reorder
  * - Link blocks to habits for automatic completion
  * - Drag to reorder blocks
+ * - Schedule blocks by time and weekday, with a now/next indicator and optional auto-start
+ * - Drop tasks from Weekly Tasks onto a block to assign them
  * - Persisted timer state via Zustand
  */
 export function TimeBlockPriorities({ className = '' }: TimeBlockPrioritiesProps) {
@@ -253,6 +256,7 @@ export function TimeBlockPriorities({ className = '' }: TimeBlockPrioritiesProps
 
       {/* Block list */}
       <div className="flex-1 overflow-y-auto p-4">
+        <NowNextIndicator className="mb-4" />
         {blocks.length === 0 ? (
           <EmptyState onCreateClick={() => setShowCreateForm(true)} />
         ) : (
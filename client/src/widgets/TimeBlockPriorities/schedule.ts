@@ -0,0 +1,69 @@
+import { addDays, addMinutes, format, startOfDay } from 'date-fns';
+import type { TimeBlock } from '../../types';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// How far ahead the "next block" indicator looks
+const NEXT_BLOCK_LOOKAHEAD_DAYS = 7;
+
+// A block placed on a specific day
+export interface ScheduledBlock {
+  block: TimeBlock;
+  start: Date;
+  end: Date;
+}
+
+export interface NowNextBlocks {
+  current: ScheduledBlock | null;
+  next: ScheduledBlock | null;
+}
+
+// "09:30" -> 570
+export function parseStartTime(startTime: string): number {
+  const [hours, minutes] = startTime.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Whether a block recurs on the date's weekday (no weekdays = every day)
+export function isScheduledOn(block: TimeBlock, date: Date): boolean {
+  if (block.isDeleted || !block.startTime) return false;
+  return !block.weekdays?.length || block.weekdays.includes(date.getDay());
+}
+
+// Blocks scheduled on a calendar day, earliest first
+export function getScheduledBlocks(blocks: TimeBlock[], date: Date): ScheduledBlock[] {
+  const day = startOfDay(date);
+  return blocks
+    .filter((block) => isScheduledOn(block, day))
+    .map((block) => {
+      const start = addMinutes(day, parseStartTime(block.startTime!));
+      return { block, start, end: addMinutes(start, block.durationMinutes) };
+    })
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// The block happening now (yesterday's may still run past midnight) and the next one to start
+export function getNowNext(blocks: TimeBlock[], now: Date): NowNextBlocks {
+  let current: ScheduledBlock | null = null;
+
+  for (let offset = -1; offset <= NEXT_BLOCK_LOOKAHEAD_DAYS; offset++) {
+    for (const scheduled of getScheduledBlocks(blocks, addDays(now, offset))) {
+      if (scheduled.start <= now && now < scheduled.end) {
+        current ??= scheduled;
+      } else if (scheduled.start > now) {
+        return { current, next: scheduled };
+      }
+    }
+  }
+  return { current, next: null };
+}
+
+// "9:30 AM · Mon, Wed, Fri" / "9:30 AM · Every day" / "Unscheduled"
+export function formatSchedule(block: TimeBlock): string {
+  if (!block.startTime) return 'Unscheduled';
+  const time = format(addMinutes(startOfDay(new Date()), parseStartTime(block.startTime)), 'h:mm a');
+  const days = block.weekdays?.length
+    ? block.weekdays.map((day) => WEEKDAY_LABELS[day]).join(', ')
+    : 'Every day';
+  return `${time} · ${days}`;
+}
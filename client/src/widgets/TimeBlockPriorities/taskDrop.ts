@@ -0,0 +1,37 @@
+// Time block slots that accept tasks dragged out of WeeklyKanban. The kanban's dnd-kit
+// context doesn't reach other widgets, so slots are found under the pointer by attribute.
+export const TIME_BLOCK_DROP_ATTRIBUTE = 'data-time-block-drop';
+const DROP_OVER_ATTRIBUTE = 'data-drop-over';
+
+interface DragPointerEvent {
+  activatorEvent: Event;
+  delta: { x: number; y: number };
+}
+
+// Pointer position during a dnd-kit drag - where it started plus how far it has moved
+function getDragPointer({ activatorEvent, delta }: DragPointerEvent): { x: number; y: number } | null {
+  const origin = 'touches' in activatorEvent
+    ? (activatorEvent as TouchEvent).touches[0]
+    : activatorEvent as PointerEvent;
+  if (!origin) return null;
+  return { x: origin.clientX + delta.x, y: origin.clientY + delta.y };
+}
+
+// Slot element under the pointer; its attribute value is the block id
+export function findTimeBlockDropTarget(event: DragPointerEvent): HTMLElement | null {
+  const pointer = getDragPointer(event);
+  if (!pointer) return null;
+  for (const element of document.elementsFromPoint(pointer.x, pointer.y)) {
+    const target = element.closest<HTMLElement>(`[${TIME_BLOCK_DROP_ATTRIBUTE}]`);
+    if (target) return target;
+  }
+  return null;
+}
+
+// Mark the slot being hovered (styled with data-[drop-over=true]:) and unmark the rest
+export function highlightTimeBlockDropTarget(target: HTMLElement | null) {
+  document.querySelectorAll(`[${DROP_OVER_ATTRIBUTE}]`).forEach((element) => {
+    if (element !== target) element.removeAttribute(DROP_OVER_ATTRIBUTE);
+  });
+  target?.setAttribute(DROP_OVER_ATTRIBUTE, 'true');
+}
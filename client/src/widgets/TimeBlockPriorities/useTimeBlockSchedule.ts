@@ -0,0 +1,87 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { useActiveTimer, useSettings, useStartTimer, useTimeBlocks } from '../../api';
+import { useTimerStore } from '../../stores';
+import { getEffectiveDate } from '../HabitMatrix/useHabitMatrix';
+import { getNowNext } from './schedule';
+
+// How often the now/next indicator re-checks the clock
+const SCHEDULE_REFRESH_INTERVAL = 1000 * 30;
+// Opening the app later than this into a block doesn't start its timer
+const AUTO_START_GRACE_MINUTES = 5;
+// Scheduled runs already auto-started on this device (so stopping one doesn't restart it)
+const AUTO_STARTED_STORAGE_KEY = 'habitarcade-auto-started-blocks';
+
+// Current time, refreshed on an interval
+export function useNow(intervalMs = SCHEDULE_REFRESH_INTERVAL): Date {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+}
+
+// The scheduled block happening now and the next one coming up
+export function useNowNextBlock() {
+  const { data } = useTimeBlocks();
+  const now = useNow();
+  const blocks = data?.data;
+  return useMemo(() => ({ ...getNowNext(blocks ?? [], now), now }), [blocks, now]);
+}
+
+function readAutoStarted(): string[] {
+  try {
+    return JSON.parse(localStorage.getItem(AUTO_STARTED_STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+// Remember a run; only the latest few are kept since older ones can't come round again
+function markAutoStarted(key: string) {
+  const keys = [...readAutoStarted().filter((k) => k !== key), key].slice(-20);
+  localStorage.setItem(AUTO_STARTED_STORAGE_KEY, JSON.stringify(keys));
+}
+
+// Start the timer when an auto-start block's scheduled time arrives, unless a timer
+// is already going. Uses the timer mode last picked; countdowns run for the block's duration.
+export function useTimeBlockAutoStart() {
+  const { current, now } = useNowNextBlock();
+  const { data: timerData, isSuccess: timerLoaded } = useActiveTimer();
+  const { mutate: startServerTimer } = useStartTimer();
+  const { data: settingsData } = useSettings();
+  const dayBoundaryHour = settingsData?.data?.dayBoundaryHour ?? 6;
+
+  useEffect(() => {
+    if (!current?.block.autoStart || !timerLoaded) return;
+    if (now.getTime() - current.start.getTime() > AUTO_START_GRACE_MINUTES * 60 * 1000) return;
+
+    const key = `${current.block.id}@${current.start.toISOString()}`;
+    if (readAutoStarted().includes(key)) return;
+
+    const timer = timerData?.data;
+    if (timer && (timer.status === 'running' || timer.status === 'paused')) {
+      // Another device may have started it already
+      if (timer.blockId === current.block.id) markAutoStarted(key);
+      return;
+    }
+
+    markAutoStarted(key);
+    const store = useTimerStore.getState();
+    store.startTimer(current.block.id, store.mode === 'countdown' ? current.block.durationMinutes : undefined);
+    const state = useTimerStore.getState();
+    startServerTimer({
+      blockId: current.block.id,
+      mode: state.mode,
+      phase: state.mode === 'pomodoro' ? state.currentPhase : 'work',
+      durationSeconds: state.totalSeconds,
+      completedSessions: state.completedSessions,
+      date: format(getEffectiveDate(now, dayBoundaryHour), 'yyyy-MM-dd'),
+    });
+    toast.success(`Started ${current.block.name}`);
+  }, [current, now, timerData, timerLoaded, startServerTimer, dayBoundaryHour]);
+}
@@ -6,6 +6,7 @@ import {
 import { format, isWeekend } from 'date-fns';
 import { TaskCard } from './TaskCard';
 import { QuickAdd } from './QuickAdd';
+import { isTaskComplete } from '../../api';
 import type { Task } from '../../types';
 
 interface DayColumnProps {
@@ -32,7 +33,7 @@ export function DayColumn({
     id: dateStr,
   });
 
-  const completedCount = tasks.filter((t) => t.status === 'complete').length;
+  const completedCount = tasks.filter((t) => isTaskComplete(t)).length;
   const totalCount = tasks.length;
 
   return (
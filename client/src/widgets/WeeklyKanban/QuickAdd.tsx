@@ -30,7 +30,6 @@ export function QuickAdd({ plannedDate }: QuickAddProps) {
       {
         title: title.trim(),
         plannedDate,
-        status: 'pending',
         sortOrder: 0, // Will be placed at top
       },
       {
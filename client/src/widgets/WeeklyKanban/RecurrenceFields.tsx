@@ -0,0 +1,136 @@
+import type { TaskRecurrence, TaskRecurrenceFrequency } from '../../types';
+import { WEEKDAY_LABELS } from './recurrence';
+
+interface RecurrenceFieldsProps {
+  value: TaskRecurrence | null;
+  onChange: (value: TaskRecurrence | null) => void;
+  startDate?: string; // YYYY-MM-DD, used to default weekday / day of month
+}
+
+const INTERVAL_UNITS: Record<TaskRecurrenceFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+const inputClass = 'px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent';
+
+/**
+ * RecurrenceFields - Repeat controls for the task modal
+ *
+ * Daily / weekly on chosen weekdays / monthly on a day of the month, every N periods,
+ * with an optional end date.
+ */
+export function RecurrenceFields({ value, onChange, startDate }: RecurrenceFieldsProps) {
+  const start = startDate ? new Date(`${startDate}T00:00:00`) : new Date();
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (!frequency) {
+      onChange(null);
+      return;
+    }
+    const next = frequency as TaskRecurrenceFrequency;
+    onChange({
+      frequency: next,
+      interval: value?.interval ?? 1,
+      weekdays: next === 'weekly' ? [start.getDay()] : null,
+      monthDay: next === 'monthly' ? start.getDate() : null,
+      untilDate: value?.untilDate ?? null,
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    const weekdays = value.weekdays ?? [];
+    const next = weekdays.includes(day)
+      ? weekdays.filter(d => d !== day)
+      : [...weekdays, day].sort((a, b) => a - b);
+    // Keep at least one day selected
+    if (next.length === 0) return;
+    onChange({ ...value, weekdays: next });
+  };
+
+  return (
+    <div className="space-y-2" data-testid="task-recurrence">
+      <select
+        value={value?.frequency ?? ''}
+        onChange={(e) => handleFrequencyChange(e.target.value)}
+        className={`w-full ${inputClass}`}
+        data-testid="task-repeat-select"
+      >
+        <option value="">Does not repeat</option>
+        <option value="daily">Daily</option>
+        <option value="weekly">Weekly</option>
+        <option value="monthly">Monthly</option>
+      </select>
+
+      {value && (
+        <>
+          <div className="flex items-center gap-2 text-sm text-slate-300">
+            <span>Every</span>
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: Math.max(1, Number(e.target.value) || 1) })}
+              className={`w-20 ${inputClass}`}
+              data-testid="task-repeat-interval"
+            />
+            <span>{INTERVAL_UNITS[value.frequency]}</span>
+          </div>
+
+          {value.frequency === 'weekly' && (
+            <div className="flex gap-1">
+              {WEEKDAY_LABELS.map((label, day) => {
+                const selected = value.weekdays?.includes(day) ?? false;
+                return (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => toggleWeekday(day)}
+                    className={`flex-1 py-1 text-xs rounded transition-colors ${
+                      selected
+                        ? 'bg-teal-600 text-white'
+                        : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+                    }`}
+                    data-testid={`task-repeat-weekday-${day}`}
+                    aria-pressed={selected}
+                  >
+                    {label.charAt(0)}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {value.frequency === 'monthly' && (
+            <div className="flex items-center gap-2 text-sm text-slate-300">
+              <span>On day</span>
+              <input
+                type="number"
+                min={1}
+                max={31}
+                value={value.monthDay ?? start.getDate()}
+                onChange={(e) => onChange({ ...value, monthDay: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })}
+                className={`w-20 ${inputClass}`}
+                data-testid="task-repeat-monthday"
+              />
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 text-sm text-slate-300">
+            <span>Until</span>
+            <input
+              type="date"
+              value={value.untilDate ?? ''}
+              onChange={(e) => onChange({ ...value, untilDate: e.target.value || null })}
+              className={`flex-1 ${inputClass}`}
+              data-testid="task-repeat-until"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
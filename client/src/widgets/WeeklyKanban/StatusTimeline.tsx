@@ -0,0 +1,55 @@
+import { format, formatDistanceStrict } from 'date-fns';
+import { useTaskHistory } from '../../api';
+
+interface StatusTimelineProps {
+  taskId: string;
+}
+
+/**
+ * StatusTimeline - A task's status changes, oldest first, with how long it sat in each status
+ */
+export function StatusTimeline({ taskId }: StatusTimelineProps) {
+  const { data, isLoading } = useTaskHistory(taskId);
+  const events = data?.data ?? [];
+
+  if (isLoading) return null;
+
+  return (
+    <div className="pt-2 border-t border-slate-700" data-testid="task-status-timeline">
+      <div className="text-xs font-medium text-slate-400 mb-2">Status history</div>
+      {events.length === 0 ? (
+        <p className="text-xs text-slate-500">No status changes recorded yet</p>
+      ) : (
+        <ol className="space-y-1.5 max-h-40 overflow-y-auto pr-1">
+          {events.map((event, index) => {
+            const previous = events[index - 1];
+            return (
+              <li key={event.id} className="flex items-start gap-2 text-xs" data-testid="task-status-event">
+                <span
+                  className="mt-1 w-2 h-2 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: event.toStatus?.color ?? '#64748b' }}
+                />
+                <div className="flex-1 min-w-0">
+                  <span className="text-slate-300">
+                    {event.fromStatus
+                      ? <>{event.fromStatus.name} → {event.toStatus?.name ?? 'Unknown'}</>
+                      : <>Created in {event.toStatus?.name ?? 'Unknown'}</>}
+                  </span>
+                  {previous && (
+                    <span className="text-slate-500">
+                      {' '}after {formatDistanceStrict(new Date(event.changedAt), new Date(previous.changedAt))}
+                      {previous.toStatus && ` in ${previous.toStatus.name}`}
+                    </span>
+                  )}
+                </div>
+                <span className="text-slate-500 whitespace-nowrap">
+                  {format(new Date(event.changedAt), 'MMM d, h:mm a')}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
+import { isTaskComplete } from '../../api';
 import type { Task } from '../../types';
 
 interface TaskCardProps {
@@ -29,7 +30,7 @@ export function TaskCard({
     transition,
   };
 
-  const isComplete = task.status === 'complete';
+  const isComplete = isTaskComplete(task);
   const projectColor = task.project?.color || task.project?.iconColor || '#6366f1';
 
   const handleClick = (e: React.MouseEvent) => {
@@ -124,6 +125,20 @@ export function TaskCard({
           >
             {task.title}
           </span>
+
+          {/* Recurring indicator */}
+          {task.seriesId && (
+            <svg
+              className="flex-shrink-0 w-3 h-3 mt-0.5 text-slate-400"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              data-testid="task-recurring-icon"
+            >
+              <title>Repeats</title>
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+          )}
         </div>
 
         {/* Project badge */}
@@ -0,0 +1,164 @@
+import { useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import {
+  useTasks,
+  useStatuses,
+  useUpdateTask,
+  useTaskDependencies,
+  useAddTaskDependency,
+  useRemoveTaskDependency,
+  isTaskComplete,
+  suggestBlockedStatus,
+} from '../../api';
+import type { Task, TaskDependency } from '../../types';
+
+interface TaskDependenciesProps {
+  task: Task;
+  onMoved: () => void; // Called after the task is moved into the suggested status
+}
+
+/**
+ * TaskDependencies - Tasks this one is blocked by (editable) and the tasks it blocks,
+ * with a shortcut into Blocked while any blocker is still open
+ */
+export function TaskDependencies({ task, onMoved }: TaskDependenciesProps) {
+  const [newBlockerId, setNewBlockerId] = useState('');
+
+  const { data: dependenciesData } = useTaskDependencies();
+  const { data: tasksData } = useTasks();
+  const { data: statusesData } = useStatuses();
+  const addDependency = useAddTaskDependency();
+  const removeDependency = useRemoveTaskDependency();
+  const updateTask = useUpdateTask();
+
+  const { blockedBy, blocking } = useMemo(() => {
+    const dependencies = dependenciesData?.data ?? [];
+    return {
+      blockedBy: dependencies.filter(d => d.taskId === task.id),
+      blocking: dependencies.filter(d => d.dependsOnTaskId === task.id),
+    };
+  }, [dependenciesData?.data, task.id]);
+
+  // Open tasks not already blocking this one
+  const candidates = useMemo(() => {
+    const existing = new Set(blockedBy.map(d => d.dependsOnTaskId));
+    return (tasksData?.data ?? []).filter(t =>
+      !t.isDeleted &&
+      t.id !== task.id &&
+      !existing.has(t.id) &&
+      !isTaskComplete(t)
+    );
+  }, [tasksData?.data, blockedBy, task.id]);
+
+  const suggestedStatus = useMemo(() => {
+    const statuses = statusesData?.data ?? [];
+    const current = statuses.find(s => s.id === task.statusId);
+    const hasOpenBlocker = blockedBy.some(d => !d.dependsOn.completedAt);
+    if (!current || !hasOpenBlocker || isTaskComplete(task)) return null;
+    return suggestBlockedStatus(current, statuses);
+  }, [statusesData?.data, blockedBy, task]);
+
+  const handleAdd = () => {
+    if (!newBlockerId) return;
+    addDependency.mutate({ taskId: task.id, dependsOnTaskId: newBlockerId }, {
+      onSuccess: () => setNewBlockerId(''),
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    });
+  };
+
+  const handleRemove = (dependency: TaskDependency) => {
+    removeDependency.mutate(dependency.id, {
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    });
+  };
+
+  const handleMove = () => {
+    if (!suggestedStatus) return;
+    updateTask.mutate({ id: task.id, statusId: suggestedStatus.id }, {
+      onSuccess: () => {
+        toast.success(`Moved to ${suggestedStatus.name}`);
+        onMoved();
+      },
+      onError: (error) => {
+        toast.error(error.message);
+      },
+    });
+  };
+
+  return (
+    <div className="pt-2 border-t border-slate-700 space-y-2" data-testid="task-dependencies">
+      <div className="flex items-center justify-between">
+        <div className="text-xs font-medium text-slate-400">Blocked by</div>
+        {suggestedStatus && (
+          <button
+            type="button"
+            onClick={handleMove}
+            disabled={updateTask.isPending}
+            className="px-2 py-0.5 rounded text-xs font-medium bg-amber-500/20 text-amber-300 hover:bg-amber-500/30 disabled:opacity-50"
+            data-testid="task-move-to-blocked"
+          >
+            Move to {suggestedStatus.name}
+          </button>
+        )}
+      </div>
+
+      {blockedBy.length > 0 && (
+        <ul className="space-y-1">
+          {blockedBy.map(dependency => (
+            <li key={dependency.id} className="flex items-center gap-2 text-xs" data-testid="task-blocker">
+              <span
+                className={`w-2 h-2 rounded-full flex-shrink-0 ${dependency.dependsOn.completedAt ? 'bg-slate-500' : 'bg-red-400'}`}
+              />
+              <span className={`flex-1 truncate ${dependency.dependsOn.completedAt ? 'text-slate-500 line-through' : 'text-slate-300'}`}>
+                {dependency.dependsOn.title}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleRemove(dependency)}
+                className="text-slate-500 hover:text-red-400"
+                title="Remove dependency"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <select
+          value={newBlockerId}
+          onChange={(e) => setNewBlockerId(e.target.value)}
+          className="flex-1 px-2 py-1 bg-slate-700 border border-slate-600 rounded text-xs text-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+          data-testid="task-add-blocker-select"
+        >
+          <option value="">Add a blocking task...</option>
+          {candidates.map(t => (
+            <option key={t.id} value={t.id}>
+              {t.title}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!newBlockerId || addDependency.isPending}
+          className="px-2 py-1 rounded text-xs font-medium bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-50"
+          data-testid="task-add-blocker"
+        >
+          Add
+        </button>
+      </div>
+
+      {blocking.length > 0 && (
+        <div className="text-xs text-slate-500" data-testid="task-blocking">
+          Blocks: <span className="text-slate-300">{blocking.map(d => d.task.title).join(', ')}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,24 +1,37 @@
 import { useState, useEffect, useRef } from 'react';
 import { format } from 'date-fns';
+import toast from 'react-hot-toast';
 import { useUpdateTask, useDeleteTask, useCreateTask, useProjects, useStatuses, useTasks } from '../../api';
-import type { Task } from '../../types';
+import type { Task, TaskEditScope, TaskRecurrence } from '../../types';
+import { RecurrenceFields } from './RecurrenceFields';
+import { StatusTimeline } from './StatusTimeline';
+import { TaskDependencies } from './TaskDependencies';
+import { describeRecurrence, getSeriesRecurrence, isSameRecurrence } from './recurrence';
 
 interface TaskModalProps {
   task?: Task; // Optional - if not provided, we're in create mode
   defaultStatusId?: string; // For creating tasks with a specific status
+  defaultProjectId?: string; // For creating tasks in a specific project
   onClose: () => void;
 }
 
-export function TaskModal({ task, defaultStatusId, onClose }: TaskModalProps) {
+export function TaskModal({ task, defaultStatusId, defaultProjectId, onClose }: TaskModalProps) {
   const isCreateMode = !task;
 
   const [title, setTitle] = useState(task?.title || '');
   const [description, setDescription] = useState(task?.description || '');
   const [plannedDate, setPlannedDate] = useState(task?.plannedDate || '');
   const [priority, setPriority] = useState(task?.priority || 0);
-  const [projectId, setProjectId] = useState(task?.projectId || '');
+  const [projectId, setProjectId] = useState(task?.projectId || defaultProjectId || '');
   const [statusId, setStatusId] = useState(task?.statusId || defaultStatusId || '');
   const [parentTaskId, setParentTaskId] = useState(task?.parentTaskId || '');
+  const initialRecurrence = getSeriesRecurrence(task?.series);
+  const [recurrence, setRecurrence] = useState<TaskRecurrence | null>(initialRecurrence);
+  // Recurring tasks ask whether an edit applies to this occurrence or all future ones
+  const [showScopeChoice, setShowScopeChoice] = useState(false);
+
+  const isRecurring = !!task?.seriesId;
+  const recurrenceChanged = !isSameRecurrence(recurrence, initialRecurrence);
 
   const titleRef = useRef<HTMLInputElement>(null);
   const modalRef = useRef<HTMLDivElement>(null);
@@ -65,11 +78,16 @@ export function TaskModal({ task, defaultStatusId, onClose }: TaskModalProps) {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, [onClose]);
 
-  const handleSubmit = (e: React.FormEvent, addAnother = false) => {
+  const handleSubmit = (e: React.FormEvent, addAnother = false, scope?: TaskEditScope) => {
     e.preventDefault();
 
     if (!title.trim()) return;
 
+    if (!isCreateMode && isRecurring && !scope) {
+      setShowScopeChoice(true);
+      return;
+    }
+
     const taskData = {
       title: title.trim(),
       description: description.trim() || undefined,
@@ -84,8 +102,8 @@ export function TaskModal({ task, defaultStatusId, onClose }: TaskModalProps) {
       createTask.mutate(
         {
           ...taskData,
-          status: 'pending', // Legacy field
           sortOrder: 0,
+          recurrence: recurrence && !parentTaskId ? recurrence : undefined,
         },
         {
           onSuccess: () => {
@@ -101,6 +119,7 @@ export function TaskModal({ task, defaultStatusId, onClose }: TaskModalProps) {
               onClose();
             }
           },
+          onError: (error) => toast.error(error.message),
         }
       );
     } else {
@@ -108,16 +127,24 @@ export function TaskModal({ task, defaultStatusId, onClose }: TaskModalProps) {
         {
           id: task.id,
           ...taskData,
+          scope,
+          recurrence: recurrenceChanged ? recurrence : undefined,
         },
         {
           onSuccess: () => {
             onClose();
           },
+          onError: (error) => toast.error(error.message),
         }
       );
     }
   };
 
+  const handleScopeSave = (e: React.MouseEvent, scope: TaskEditScope) => {
+    e.preventDefault();
+    handleSubmit(e as unknown as React.FormEvent, false, scope);
+  };
+
   const handleCreateAndAddAnother = (e: React.MouseEvent) => {
     e.preventDefault();
     handleSubmit(e as unknown as React.FormEvent, true);
@@ -235,6 +262,20 @@ export function TaskModal({ task, defaultStatusId, onClose }: TaskModalProps) {
                 />
               </div>
 
+              {/* Repeat (top-level tasks only) */}
+              {!parentTaskId && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-1">
+                    Repeat
+                  </label>
+                  <RecurrenceFields
+                    value={recurrence}
+                    onChange={setRecurrence}
+                    startDate={plannedDate || undefined}
+                  />
+                </div>
+              )}
+
               {/* Priority */}
               <div>
                 <label className="block text-sm font-medium text-slate-300 mb-1">
@@ -325,50 +366,97 @@ export function TaskModal({ task, defaultStatusId, onClose }: TaskModalProps) {
                   Completed: {format(new Date(task.completedAt), 'MMM d, yyyy')}
                 </span>
               )}
+              {initialRecurrence && (
+                <span data-testid="task-recurrence-summary">
+                  Repeats: {describeRecurrence(initialRecurrence)}
+                </span>
+              )}
             </div>
           )}
 
-          {/* Actions */}
-          <div className="flex items-center justify-between pt-2">
-            {!isCreateMode ? (
+          {/* Dependencies - only in edit mode */}
+          {!isCreateMode && task && <TaskDependencies task={task} onMoved={onClose} />}
+
+          {/* Status history - only in edit mode */}
+          {!isCreateMode && task && <StatusTimeline taskId={task.id} />}
+
+          {/* Scope choice for recurring tasks */}
+          {showScopeChoice ? (
+            <div className="flex flex-wrap items-center justify-end gap-2 pt-2" data-testid="task-scope-choice">
+              <span className="mr-auto text-sm text-slate-300">
+                {recurrenceChanged
+                  ? 'Repeat changes apply to this and all future occurrences.'
+                  : 'Apply changes to:'}
+              </span>
               <button
                 type="button"
-                onClick={handleDelete}
-                className="px-3 py-2 text-sm text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-lg transition-colors"
+                onClick={() => setShowScopeChoice(false)}
+                className="px-3 py-2 text-sm text-slate-300 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
               >
-                Delete
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={(e) => handleScopeSave(e, 'this')}
+                disabled={recurrenceChanged || isPending}
+                className="px-3 py-2 text-sm bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                data-testid="task-scope-this"
+              >
+                This occurrence
               </button>
-            ) : (
-              <div /> /* Spacer */
-            )}
-
-            <div className="flex items-center gap-2">
               <button
                 type="button"
-                onClick={onClose}
-                className="px-4 py-2 text-sm text-slate-300 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                onClick={(e) => handleScopeSave(e, 'future')}
+                disabled={isPending}
+                className="px-3 py-2 text-sm bg-teal-600 hover:bg-teal-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                data-testid="task-scope-future"
               >
-                Cancel
+                {isPending ? 'Saving...' : 'This and all future'}
               </button>
-              {isCreateMode && (
+            </div>
+          ) : (
+            /* Actions */
+            <div className="flex items-center justify-between pt-2">
+              {!isCreateMode ? (
                 <button
                   type="button"
-                  onClick={handleCreateAndAddAnother}
-                  disabled={!title.trim() || isPending}
-                  className="px-3 py-2 text-sm bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                  onClick={handleDelete}
+                  className="px-3 py-2 text-sm text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-lg transition-colors"
                 >
-                  {isPending ? 'Saving...' : 'Create & Add'}
+                  Delete
                 </button>
+              ) : (
+                <div /> /* Spacer */
               )}
-              <button
-                type="submit"
-                disabled={!title.trim() || isPending}
-                className="px-4 py-2 text-sm bg-teal-600 hover:bg-teal-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
-              >
-                {isPending ? 'Saving...' : isCreateMode ? 'Create' : 'Save'}
-              </button>
+
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 text-sm text-slate-300 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                {isCreateMode && (
+                  <button
+                    type="button"
+                    onClick={handleCreateAndAddAnother}
+                    disabled={!title.trim() || isPending}
+                    className="px-3 py-2 text-sm bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                  >
+                    {isPending ? 'Saving...' : 'Create & Add'}
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  disabled={!title.trim() || isPending}
+                  className="px-4 py-2 text-sm bg-teal-600 hover:bg-teal-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                >
+                  {isPending ? 'Saving...' : isCreateMode ? 'Create' : 'Save'}
+                </button>
+              </div>
             </div>
-          </div>
+          )}
         </form>
       </div>
     </div>
@@ -7,6 +7,7 @@ import {
   useSensor,
   useSensors,
   type DragEndEvent,
+  type DragMoveEvent,
   type DragStartEvent,
 } from '@dnd-kit/core';
 import {
@@ -19,7 +20,9 @@ import {
   isToday,
   isSameWeek,
 } from 'date-fns';
-import { useTasks, useUpdateTask, useMoveTaskToDate } from '../../api';
+import toast from 'react-hot-toast';
+import { useTasksByWeek, useUpdateTask, useMoveTaskToDate, useCompleteTask, useUncompleteTask, isTaskComplete } from '../../api';
+import { findTimeBlockDropTarget, highlightTimeBlockDropTarget, TIME_BLOCK_DROP_ATTRIBUTE } from '../TimeBlockPriorities/taskDrop';
 import { DayColumn } from './DayColumn';
 import { TaskCard } from './TaskCard';
 import { TaskModal } from './TaskModal';
@@ -43,11 +46,13 @@ export function WeeklyKanban() {
     [currentWeekStart, weekEnd]
   );
 
-  // Fetch all tasks and filter client-side for the week
-  const { data: tasksData, isLoading } = useTasks();
+  // Fetch the week's tasks (the server materializes upcoming recurring occurrences)
+  const { data: tasksData, isLoading } = useTasksByWeek(format(currentWeekStart, 'yyyy-MM-dd'));
   const allTasks = useMemo(() => tasksData?.data ?? [], [tasksData?.data]);
   const moveTask = useMoveTaskToDate();
   const updateTask = useUpdateTask();
+  const completeTask = useCompleteTask();
+  const uncompleteTask = useUncompleteTask();
 
   // Configure drag sensors with activation constraint
   const sensors = useSensors(
@@ -96,13 +101,39 @@ export function WeeklyKanban() {
     }
   }, [allTasks]);
 
+  // Highlight a time block slot (outside the kanban) while a task is dragged over it
+  const handleDragMove = useCallback((event: DragMoveEvent) => {
+    highlightTimeBlockDropTarget(findTimeBlockDropTarget(event));
+  }, []);
+
+  const handleDragCancel = useCallback(() => {
+    setActiveTask(null);
+    highlightTimeBlockDropTarget(null);
+  }, []);
+
   const handleDragEnd = useCallback((event: DragEndEvent) => {
     const { active, over } = event;
     setActiveTask(null);
+    highlightTimeBlockDropTarget(null);
+
+    const taskId = active.id as string;
+
+    // Dropped on a time block slot - assign the task to that block
+    const blockSlot = findTimeBlockDropTarget(event);
+    if (blockSlot) {
+      const timeBlockId = blockSlot.getAttribute(TIME_BLOCK_DROP_ATTRIBUTE);
+      const task = allTasks.find((t) => t.id === taskId);
+      if (task && timeBlockId && task.timeBlockId !== timeBlockId) {
+        updateTask.mutate(
+          { id: taskId, timeBlockId },
+          { onSuccess: () => toast.success(`Added "${task.title}" to time block`) }
+        );
+      }
+      return;
+    }
 
     if (!over) return;
 
-    const taskId = active.id as string;
     const overId = over.id as string;
 
     // Check if dropped on a day column (format: yyyy-MM-dd)
@@ -117,15 +148,15 @@ export function WeeklyKanban() {
         });
       }
     }
-  }, [allTasks, moveTask]);
+  }, [allTasks, moveTask, updateTask]);
 
   const handleToggleComplete = useCallback((task: Task) => {
-    updateTask.mutate({
-      id: task.id,
-      status: task.status === 'complete' ? 'pending' : 'complete',
-      completedAt: task.status === 'complete' ? undefined : new Date().toISOString(),
-    });
-  }, [updateTask]);
+    if (isTaskComplete(task)) {
+      uncompleteTask.mutate(task.id);
+    } else {
+      completeTask.mutate(task.id);
+    }
+  }, [completeTask, uncompleteTask]);
 
   const goToToday = useCallback(() => {
     setCurrentWeekStart(startOfWeek(new Date(), { weekStartsOn: 0 }));
@@ -191,7 +222,9 @@ export function WeeklyKanban() {
           sensors={sensors}
           collisionDetection={closestCenter}
           onDragStart={handleDragStart}
+          onDragMove={handleDragMove}
           onDragEnd={handleDragEnd}
+          onDragCancel={handleDragCancel}
         >
           <div className="grid grid-cols-7 gap-2 flex-1 min-h-0">
             {days.map((day) => {
@@ -0,0 +1,47 @@
+import type { TaskRecurrence, TaskRecurrenceFrequency, TaskSeries } from '../../types';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const FREQUENCY_UNITS: Record<TaskRecurrenceFrequency, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+};
+
+// Recurrence rule of a series (null for one-off tasks)
+export function getSeriesRecurrence(series?: TaskSeries | null): TaskRecurrence | null {
+  if (!series) return null;
+  return {
+    frequency: series.frequency,
+    interval: series.interval,
+    weekdays: series.weekdays ?? null,
+    monthDay: series.monthDay ?? null,
+    untilDate: series.untilDate ?? null,
+  };
+}
+
+// Compare two rules field by field (missing optional fields count as null)
+export function isSameRecurrence(a: TaskRecurrence | null, b: TaskRecurrence | null): boolean {
+  if (!a || !b) return a === b;
+  return a.frequency === b.frequency &&
+    a.interval === b.interval &&
+    (a.weekdays ?? []).join(',') === (b.weekdays ?? []).join(',') &&
+    (a.monthDay ?? null) === (b.monthDay ?? null) &&
+    (a.untilDate ?? null) === (b.untilDate ?? null);
+}
+
+// Human readable summary, e.g. "Every 2 weeks on Mon, Thu"
+export function describeRecurrence(recurrence: TaskRecurrence): string {
+  const unit = FREQUENCY_UNITS[recurrence.frequency];
+  let text = recurrence.interval > 1 ? `Every ${recurrence.interval} ${unit}s` : `Every ${unit}`;
+  if (recurrence.frequency === 'weekly' && recurrence.weekdays?.length) {
+    text += ` on ${recurrence.weekdays.map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  if (recurrence.frequency === 'monthly' && recurrence.monthDay) {
+    text += ` on day ${recurrence.monthDay}`;
+  }
+  if (recurrence.untilDate) {
+    text += ` until ${recurrence.untilDate}`;
+  }
+  return text;
+}
@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, text, boolean, timestamp, date, integer, json, decimal } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, boolean, timestamp, date, integer, json, decimal, uniqueIndex } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // Categories (for organizing habits)
@@ -28,6 +28,13 @@ export const habits = pgTable('habits', {
   targetPercentage: integer('target_percentage').default(90), // Completion % for green (default 90)
   warningPercentage: integer('warning_percentage').default(75), // Completion % for yellow/red boundary (default 75)
   grayMissedWhenOnTrack: boolean('gray_missed_when_on_track').default(false), // Low frequency habit - show gray instead of pink when on track
+  dailyTarget: integer('daily_target'), // Count-based habits: count needed per day for full completion (NULL = not count-based)
+  unit: varchar('unit', { length: 50 }), // Count unit label, e.g. "glasses", "pages"
+  maxCount: integer('max_count'), // Optional cap on daily count (cycling resets after this; defaults to dailyTarget)
+  scheduleType: varchar('schedule_type', { length: 20 }).default('daily'), // daily, weekdays, weekly (N/week), monthly (N/month), interval (every N days)
+  scheduleDays: json('schedule_days'), // Weekday numbers (0 = Sunday) for 'weekdays' schedules
+  scheduleCount: integer('schedule_count'), // Times per week/month, or interval length in days
+  reminderTime: varchar('reminder_time', { length: 5 }), // HH:MM local time for a browser reminder while unmarked (NULL = none)
   isDeleted: boolean('is_deleted').default(false),
   deletedAt: timestamp('deleted_at'),
   createdAt: timestamp('created_at').defaultNow(),
@@ -76,6 +83,9 @@ export const taskStatuses = pgTable('task_statuses', {
   breakoutParentId: uuid('breakout_parent_id'), // Self-reference for breakout parent
   isDefault: boolean('is_default').default(false), // Prevent deletion of system statuses
   isInitialStatus: boolean('is_initial_status').default(false), // Default status for new tasks
+  isTerminal: boolean('is_terminal').default(false), // Tasks in this status are complete (drives completedAt)
+  allowedTransitions: json('allowed_transitions'), // Status ids tasks may move to from here; NULL = workflow default
+  wipLimit: integer('wip_limit'), // Max top-level tasks in this status; NULL = unbounded
   sortOrder: integer('sort_order').default(0),
   isDeleted: boolean('is_deleted').default(false),
   deletedAt: timestamp('deleted_at'),
@@ -100,6 +110,9 @@ export const timeBlocks = pgTable('time_blocks', {
   durationMinutes: integer('duration_minutes').notNull(),
   linkedHabitId: uuid('linked_habit_id').references(() => habits.id),
   sortOrder: integer('sort_order').default(0),
+  startTime: varchar('start_time', { length: 5 }), // HH:MM local time on the day calendar (NULL = unscheduled)
+  weekdays: json('weekdays'), // Weekday numbers (0 = Sunday) the block recurs on (NULL = every day)
+  autoStart: boolean('auto_start').default(false), // Start the timer automatically at startTime
   isDeleted: boolean('is_deleted').default(false),
   deletedAt: timestamp('deleted_at'),
   createdAt: timestamp('created_at').defaultNow(),
@@ -112,20 +125,64 @@ export const tasks = pgTable('tasks', {
   title: varchar('title', { length: 255 }).notNull(),
   description: text('description'),
   plannedDate: date('planned_date'),
-  status: varchar('status', { length: 20 }).default('pending'), // DEPRECATED: use statusId
-  statusId: uuid('status_id').references(() => taskStatuses.id), // New: references task_statuses
+  status: varchar('status', { length: 20 }).default('pending'), // DEPRECATED: derived from statusId ('complete' when terminal), read-only
+  statusId: uuid('status_id').references(() => taskStatuses.id), // Workflow status, source of truth for completion
   parentTaskId: uuid('parent_task_id'), // Self-reference for parent/child (subtask) relationships
   priority: integer('priority'),
   projectId: uuid('project_id').references(() => projects.id),
   timeBlockId: uuid('time_block_id').references(() => timeBlocks.id),
   sortOrder: integer('sort_order').default(0),
   completedAt: timestamp('completed_at'),
+  seriesId: uuid('series_id').references(() => taskSeries.id), // Recurring task this occurrence belongs to
+  seriesDate: date('series_date'), // Occurrence date within the series (stays put when plannedDate moves)
   isDeleted: boolean('is_deleted').default(false),
   deletedAt: timestamp('deleted_at'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => [
+  uniqueIndex('tasks_series_date_idx').on(table.seriesId, table.seriesDate),
+]);
+
+// Task Series (recurrence rules - each occurrence is materialized as a regular task row)
+export const taskSeries = pgTable('task_series', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  title: varchar('title', { length: 255 }).notNull(), // Template copied onto each new occurrence
+  description: text('description'),
+  priority: integer('priority'),
+  projectId: uuid('project_id').references(() => projects.id),
+  timeBlockId: uuid('time_block_id').references(() => timeBlocks.id),
+  tagIds: json('tag_ids'), // Tag ids applied to each new occurrence
+  frequency: varchar('frequency', { length: 10 }).notNull(), // daily, weekly, monthly
+  interval: integer('interval').default(1).notNull(), // Every N days/weeks/months
+  weekdays: json('weekdays'), // Weekday numbers (0 = Sunday) for weekly rules
+  monthDay: integer('month_day'), // Day of month for monthly rules (clamped to short months)
+  startDate: date('start_date').notNull(), // Anchor for interval counting
+  untilDate: date('until_date'), // Last possible occurrence (inclusive), NULL = forever
+  isDeleted: boolean('is_deleted').default(false),
+  deletedAt: timestamp('deleted_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Task Status Events (append-only log of status changes, for task history and cycle-time reporting)
+export const taskStatusEvents = pgTable('task_status_events', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  taskId: uuid('task_id').references(() => tasks.id).notNull(),
+  fromStatusId: uuid('from_status_id').references(() => taskStatuses.id), // NULL when the task was created in toStatusId
+  toStatusId: uuid('to_status_id').references(() => taskStatuses.id).notNull(),
+  changedAt: timestamp('changed_at').defaultNow().notNull(),
 });
 
+// Task Dependencies (taskId can't start until dependsOnTaskId is complete)
+export const taskDependencies = pgTable('task_dependencies', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  taskId: uuid('task_id').references(() => tasks.id).notNull(), // The blocked task
+  dependsOnTaskId: uuid('depends_on_task_id').references(() => tasks.id).notNull(), // The task blocking it
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  uniqueIndex('task_dependencies_pair_idx').on(table.taskId, table.dependsOnTaskId),
+]);
+
 // Task Tags (many-to-many)
 export const taskTags = pgTable('task_tags', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -133,6 +190,29 @@ export const taskTags = pgTable('task_tags', {
   tagId: uuid('tag_id').references(() => tags.id).notNull(),
 });
 
+// Saved Task Filters (named task queries - each criterion is optional, see taskFilters.ts)
+export const savedTaskFilters = pgTable('saved_task_filters', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: varchar('name', { length: 100 }).notNull(),
+  projectIds: json('project_ids'), // Tasks in any of these projects
+  tagIds: json('tag_ids'), // Tasks with these tags, per tagMatch
+  tagMatch: varchar('tag_match', { length: 3 }).default('any'), // any, all
+  statusIds: json('status_ids'), // Tasks in any of these workflow statuses
+  status: varchar('status', { length: 20 }), // pending (open) or complete (terminal status)
+  priorityMin: integer('priority_min'),
+  priorityMax: integer('priority_max'),
+  search: varchar('search', { length: 255 }), // Matched against title and description
+  overdue: boolean('overdue'), // true = only overdue, false = exclude overdue, NULL = either
+  hasSubtasks: boolean('has_subtasks'), // Same three-way meaning
+  unscheduled: boolean('unscheduled'), // Same three-way meaning
+  isPinned: boolean('is_pinned').default(false), // Listed in the sidebar under Tasks
+  sortOrder: integer('sort_order').default(0),
+  isDeleted: boolean('is_deleted').default(false),
+  deletedAt: timestamp('deleted_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
 // Time Block Priorities
 export const timeBlockPriorities = pgTable('time_block_priorities', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -143,12 +223,49 @@ export const timeBlockPriorities = pgTable('time_block_priorities', {
   createdAt: timestamp('created_at').defaultNow(),
 });
 
-// Measurements (weight, etc.)
+// Active Timer (at most one row - the time block timer every client shows)
+export const activeTimer = pgTable('active_timer', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  blockId: uuid('block_id').references(() => timeBlocks.id).notNull(),
+  taskId: uuid('task_id').references(() => tasks.id), // Task being worked on, if picked
+  priorityId: uuid('priority_id').references(() => timeBlockPriorities.id), // Block priority being worked on, if picked
+  mode: varchar('mode', { length: 20 }).notNull(), // pomodoro, stopwatch, countdown
+  phase: varchar('phase', { length: 20 }).default('work').notNull(), // work, break, longBreak
+  status: varchar('status', { length: 20 }).notNull(), // idle, running, paused, complete
+  durationSeconds: integer('duration_seconds').default(0).notNull(), // Phase length (0 for stopwatch)
+  startedAt: timestamp('started_at'), // Start of the current run, NULL while idle
+  pausedAt: timestamp('paused_at'), // Set while paused
+  pausedSeconds: integer('paused_seconds').default(0).notNull(), // Time spent paused in earlier pauses of this run
+  interruptions: integer('interruptions').default(0).notNull(), // Times this run was paused
+  completedSessions: integer('completed_sessions').default(0).notNull(), // Pomodoro work sessions finished
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Focus Sessions (one row per timer run on a time block - a pomodoro phase, countdown or stopwatch)
+export const focusSessions = pgTable('focus_sessions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  blockId: uuid('block_id').references(() => timeBlocks.id).notNull(),
+  taskId: uuid('task_id').references(() => tasks.id), // Task worked on, if one was picked
+  priorityId: uuid('priority_id').references(() => timeBlockPriorities.id), // Block priority worked on, if one was picked
+  mode: varchar('mode', { length: 20 }).notNull(), // pomodoro, stopwatch, countdown
+  phase: varchar('phase', { length: 20 }).default('work').notNull(), // work, break, longBreak (always work outside pomodoro)
+  date: date('date').notNull(), // Effective day the session counts toward (respects dayBoundaryHour)
+  startedAt: timestamp('started_at').notNull(),
+  endedAt: timestamp('ended_at').notNull(),
+  durationSeconds: integer('duration_seconds').notNull(), // Time actually run, excluding pauses
+  interruptions: integer('interruptions').default(0).notNull(), // Times the timer was paused
+  completed: boolean('completed').default(false).notNull(), // Ran to the end rather than stopped or skipped early
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+
 export const measurements = pgTable('measurements', {
   id: uuid('id').defaultRandom().primaryKey(),
   type: varchar('type', { length: 50 }).notNull(), // 'weight', etc.
   name: varchar('name', { length: 255 }).notNull(),
   unit: varchar('unit', { length: 20 }),
+  formula: text('formula'), // Derived measurements: expression over `variables` (NULL = entries are logged by hand)
+  variables: json('variables'), // Formula variable name -> source measurement id
   createdAt: timestamp('created_at').defaultNow(),
 });
 
@@ -168,8 +285,10 @@ export const measurementTargets = pgTable('measurement_targets', {
   startValue: decimal('start_value', { precision: 10, scale: 2 }).notNull(),
   goalValue: decimal('goal_value', { precision: 10, scale: 2 }).notNull(),
   reachGoalValue: decimal('reach_goal_value', { precision: 10, scale: 2 }), // Optional stretch goal
+  name: varchar('name', { length: 100 }), // Phase label, e.g. 'Cut' or 'Bulk'
   startDate: date('start_date').notNull(),
   goalDate: date('goal_date').notNull(),
+  closedDate: date('closed_date'), // Day the phase was ended (NULL = open, runs to goalDate)
   createdAt: timestamp('created_at').defaultNow(),
 });
 
@@ -319,7 +438,46 @@ export const tasksRelations = relations(tasks, ({ one, many }) => ({
     relationName: 'parentChild',
   }),
   children: many(tasks, { relationName: 'parentChild' }),
+  series: one(taskSeries, {
+    fields: [tasks.seriesId],
+    references: [taskSeries.id],
+  }),
   taskTags: many(taskTags),
+  statusEvents: many(taskStatusEvents),
+  blockedBy: many(taskDependencies, { relationName: 'dependentTask' }),
+  blocks: many(taskDependencies, { relationName: 'blockingTask' }),
+}));
+
+export const taskSeriesRelations = relations(taskSeries, ({ many }) => ({
+  tasks: many(tasks),
+}));
+
+export const taskDependenciesRelations = relations(taskDependencies, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskDependencies.taskId],
+    references: [tasks.id],
+    relationName: 'dependentTask',
+  }),
+  dependsOn: one(tasks, {
+    fields: [taskDependencies.dependsOnTaskId],
+    references: [tasks.id],
+    relationName: 'blockingTask',
+  }),
+}));
+
+export const taskStatusEventsRelations = relations(taskStatusEvents, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskStatusEvents.taskId],
+    references: [tasks.id],
+  }),
+  fromStatus: one(taskStatuses, {
+    fields: [taskStatusEvents.fromStatusId],
+    references: [taskStatuses.id],
+  }),
+  toStatus: one(taskStatuses, {
+    fields: [taskStatusEvents.toStatusId],
+    references: [taskStatuses.id],
+  }),
 }));
 
 export const tagsRelations = relations(tags, ({ many }) => ({
@@ -344,6 +502,7 @@ export const timeBlocksRelations = relations(timeBlocks, ({ one, many }) => ({
   }),
   priorities: many(timeBlockPriorities),
   tasks: many(tasks),
+  focusSessions: many(focusSessions),
 }));
 
 export const timeBlockPrioritiesRelations = relations(timeBlockPriorities, ({ one }) => ({
@@ -353,6 +512,28 @@ export const timeBlockPrioritiesRelations = relations(timeBlockPriorities, ({ on
   }),
 }));
 
+export const activeTimerRelations = relations(activeTimer, ({ one }) => ({
+  block: one(timeBlocks, {
+    fields: [activeTimer.blockId],
+    references: [timeBlocks.id],
+  }),
+}));
+
+export const focusSessionsRelations = relations(focusSessions, ({ one }) => ({
+  block: one(timeBlocks, {
+    fields: [focusSessions.blockId],
+    references: [timeBlocks.id],
+  }),
+  task: one(tasks, {
+    fields: [focusSessions.taskId],
+    references: [tasks.id],
+  }),
+  priority: one(timeBlockPriorities, {
+    fields: [focusSessions.priorityId],
+    references: [timeBlockPriorities.id],
+  }),
+}));
+
 export const measurementsRelations = relations(measurements, ({ many }) => ({
   entries: many(measurementEntries),
   targets: many(measurementTargets),
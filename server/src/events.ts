@@ -0,0 +1,57 @@
+import { EventEmitter } from 'events';
+import type { Request, Response, NextFunction } from 'express';
+
+// Entities the client keeps in sync through /api/events
+export type ChangeEntity =
+  | 'habits' | 'habitEntries' | 'categories'
+  | 'tasks' | 'projects' | 'statuses' | 'tags'
+  | 'parkingLot' | 'settings' | 'measurements' | 'quotes' | 'videos'
+  | 'timeBlocks' | 'timer' | 'focusSessions'
+  | 'all'; // Anything may have changed (e.g. after an import) - refetch everything
+
+export interface ChangeEvent {
+  entity: ChangeEntity;
+  id?: string; // Record the request targeted (the habit id for habitEntries), if any
+  clientId?: string; // X-Client-Id of the tab that made the change, so it can skip its own events
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per open event stream
+
+export function publishChange(event: ChangeEvent) {
+  emitter.emit('change', event);
+}
+
+// Returns an unsubscribe function
+export function subscribeToChanges(listener: (event: ChangeEvent) => void): () => void {
+  emitter.on('change', listener);
+  return () => {
+    emitter.off('change', listener);
+  };
+}
+
+// Middleware mounted in front of a router: once a mutating request succeeds, publish a
+// change event for each affected entity. `resolve` sees the path relative to the mount point.
+export function publishChanges(resolve: ChangeEntity | ((req: Request) => ChangeEntity[])) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.method === 'GET' || req.method === 'HEAD' || req.method === 'OPTIONS') {
+      return next();
+    }
+
+    // Capture before the router rewrites req.url
+    const entities = typeof resolve === 'string' ? [resolve] : resolve(req);
+    const segment = req.path.split('/')[1] ?? '';
+    const id = UUID_PATTERN.test(segment) ? segment : undefined;
+    const clientId = req.get('X-Client-Id') || undefined;
+
+    res.on('finish', () => {
+      if (res.statusCode >= 400) return;
+      for (const entity of entities) {
+        publishChange({ entity, id, clientId });
+      }
+    });
+    next();
+  };
+}
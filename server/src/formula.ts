@@ -0,0 +1,262 @@
+// Formula language for derived measurements, e.g. `weight / (height / 100)^2` or `avg(weight, 7)`.
+//
+// Numbers, variables, + - * / ^ (right-associative), unary minus and parentheses, plus:
+// - abs(x), sqrt(x), round(x) / round(x, digits)
+// - avg(var, days), min(var, days), max(var, days) - over a variable's entries in the last `days` days
+// Formulas are parsed into a tree and evaluated directly; nothing is ever passed to eval.
+
+const MAX_FORMULA_LENGTH = 500;
+const MAX_DEPTH = 50;
+const MAX_WINDOW_DAYS = 366;
+
+const MATH_FUNCTIONS = ['abs', 'sqrt', 'round'] as const;
+const WINDOW_FUNCTIONS = ['avg', 'min', 'max'] as const;
+
+type MathFunction = typeof MATH_FUNCTIONS[number];
+export type WindowFunction = typeof WINDOW_FUNCTIONS[number];
+
+export type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'negate'; operand: FormulaNode }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: MathFunction; args: FormulaNode[] }
+  | { kind: 'window'; name: WindowFunction; variable: string; days: number };
+
+export interface ParsedFormula {
+  root: FormulaNode;
+  variables: string[]; // Every variable the formula reads, sorted
+}
+
+// Values a formula reads on the date it's evaluated for (null = no value)
+export interface FormulaContext {
+  value: (variable: string) => number | null;
+  window: (fn: WindowFunction, variable: string, days: number) => number | null;
+}
+
+export class FormulaError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position !== undefined ? `${message} at position ${position + 1}` : message);
+    this.name = 'FormulaError';
+  }
+}
+
+interface Token {
+  type: 'number' | 'identifier' | 'operator' | 'end';
+  text: string;
+  position: number;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)/.exec(source.slice(i));
+      if (!match) throw new FormulaError('Invalid number', i);
+      tokens.push({ type: 'number', text: match[0], position: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'identifier', text: match[0], position: i });
+      i += match[0].length;
+    } else if ('+-*/^(),'.includes(char)) {
+      tokens.push({ type: 'operator', text: char, position: i });
+      i++;
+    } else {
+      throw new FormulaError(`Unexpected character "${char}"`, i);
+    }
+  }
+  tokens.push({ type: 'end', text: '', position: source.length });
+  return tokens;
+}
+
+// Recursive descent: expression -> term (+|- term)*, term -> unary (*|/ unary)*,
+// unary -> -unary | power, power -> primary (^ unary)?
+class Parser {
+  private index = 0;
+  private depth = 0;
+  readonly variables = new Set<string>();
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const root = this.expression();
+    const next = this.peek();
+    if (next.type !== 'end') throw new FormulaError(`Unexpected "${next.text}"`, next.position);
+    return root;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private expect(text: string) {
+    const token = this.next();
+    if (token.text !== text) {
+      throw new FormulaError(token.type === 'end' ? `Expected "${text}"` : `Expected "${text}" but found "${token.text}"`, token.position);
+    }
+  }
+
+  private expression(): FormulaNode {
+    if (++this.depth > MAX_DEPTH) throw new FormulaError('Formula is nested too deeply');
+    let node = this.term();
+    while (this.peek().text === '+' || this.peek().text === '-') {
+      const operator = this.next().text as '+' | '-';
+      node = { kind: 'binary', operator, left: node, right: this.term() };
+    }
+    this.depth--;
+    return node;
+  }
+
+  private term(): FormulaNode {
+    let node = this.unary();
+    while (this.peek().text === '*' || this.peek().text === '/') {
+      const operator = this.next().text as '*' | '/';
+      node = { kind: 'binary', operator, left: node, right: this.unary() };
+    }
+    return node;
+  }
+
+  private unary(): FormulaNode {
+    if (this.peek().text === '-') {
+      if (++this.depth > MAX_DEPTH) throw new FormulaError('Formula is nested too deeply');
+      this.next();
+      const operand = this.unary();
+      this.depth--;
+      return { kind: 'negate', operand };
+    }
+    return this.power();
+  }
+
+  private power(): FormulaNode {
+    const base = this.primary();
+    if (this.peek().text === '^') {
+      this.next();
+      return { kind: 'binary', operator: '^', left: base, right: this.unary() };
+    }
+    return base;
+  }
+
+  private primary(): FormulaNode {
+    const token = this.next();
+    if (token.type === 'number') {
+      return { kind: 'number', value: parseFloat(token.text) };
+    }
+    if (token.text === '(') {
+      const node = this.expression();
+      this.expect(')');
+      return node;
+    }
+    if (token.type === 'identifier') {
+      if (this.peek().text === '(') return this.call(token);
+      this.variables.add(token.text);
+      return { kind: 'variable', name: token.text };
+    }
+    throw new FormulaError(token.type === 'end' ? 'Unexpected end of formula' : `Unexpected "${token.text}"`, token.position);
+  }
+
+  private call(nameToken: Token): FormulaNode {
+    const name = nameToken.text;
+    this.expect('(');
+
+    if ((WINDOW_FUNCTIONS as readonly string[]).includes(name)) {
+      const variable = this.next();
+      if (variable.type !== 'identifier') {
+        throw new FormulaError(`${name}() takes a variable name first`, variable.position);
+      }
+      this.expect(',');
+      const days = this.next();
+      const value = Number(days.text);
+      if (days.type !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_WINDOW_DAYS) {
+        throw new FormulaError(`${name}() takes a whole number of days from 1 to ${MAX_WINDOW_DAYS}`, days.position);
+      }
+      this.expect(')');
+      this.variables.add(variable.text);
+      return { kind: 'window', name: name as WindowFunction, variable: variable.text, days: value };
+    }
+
+    if ((MATH_FUNCTIONS as readonly string[]).includes(name)) {
+      const args = [this.expression()];
+      while (this.peek().text === ',') {
+        this.next();
+        args.push(this.expression());
+      }
+      this.expect(')');
+      const maxArgs = name === 'round' ? 2 : 1;
+      if (args.length > maxArgs) {
+        throw new FormulaError(`${name}() takes at most ${maxArgs} argument${maxArgs > 1 ? 's' : ''}`, nameToken.position);
+      }
+      return { kind: 'call', name: name as MathFunction, args };
+    }
+
+    throw new FormulaError(`Unknown function "${name}"`, nameToken.position);
+  }
+}
+
+// Parse a formula, throwing a FormulaError describing the first problem
+export function parseFormula(source: string): ParsedFormula {
+  if (source.trim().length === 0) throw new FormulaError('Formula is empty');
+  if (source.length > MAX_FORMULA_LENGTH) {
+    throw new FormulaError(`Formula must be at most ${MAX_FORMULA_LENGTH} characters`);
+  }
+  const parser = new Parser(tokenize(source));
+  const root = parser.parse();
+  return { root, variables: [...parser.variables].sort() };
+}
+
+// Evaluate a parsed formula. Returns null when a variable has no value or the result
+// isn't a finite number (e.g. division by zero).
+export function evaluateFormula(node: FormulaNode, context: FormulaContext): number | null {
+  const result = evaluate(node, context);
+  return result !== null && Number.isFinite(result) ? result : null;
+}
+
+function evaluate(node: FormulaNode, context: FormulaContext): number | null {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      return context.value(node.name);
+    case 'window':
+      return context.window(node.name, node.variable, node.days);
+    case 'negate': {
+      const operand = evaluate(node.operand, context);
+      return operand === null ? null : -operand;
+    }
+    case 'binary': {
+      const left = evaluate(node.left, context);
+      const right = evaluate(node.right, context);
+      if (left === null || right === null) return null;
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? null : left / right;
+        case '^': return Math.pow(left, right);
+      }
+      return null;
+    }
+    case 'call': {
+      const args = node.args.map(arg => evaluate(arg, context));
+      if (args.some(arg => arg === null)) return null;
+      const [x, digits] = args as number[];
+      switch (node.name) {
+        case 'abs': return Math.abs(x);
+        case 'sqrt': return x < 0 ? null : Math.sqrt(x);
+        case 'round': {
+          const factor = Math.pow(10, Math.max(0, Math.min(Math.trunc(digits ?? 0), 6)));
+          return Math.round(x * factor) / factor;
+        }
+      }
+      return null;
+    }
+  }
+}
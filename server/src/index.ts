@@ -26,10 +26,13 @@ import path from 'path';
 import habitsRouter from './routes/habits';
 import categoriesRouter from './routes/categories';
 import tasksRouter from './routes/tasks';
+import taskDependenciesRouter from './routes/taskDependencies';
+import taskFiltersRouter from './routes/taskFilters';
 import projectsRouter from './routes/projects';
 import tagsRouter from './routes/tags';
 import statusesRouter from './routes/statuses';
 import timeBlocksRouter from './routes/timeBlocks';
+import focusSessionsRouter from './routes/focusSessions';
 import measurementsRouter from './routes/measurements';
 import parkingLotRouter from './routes/parkingLot';
 import settingsRouter from './routes/settings';
@@ -37,11 +40,20 @@ import dashboardRouter from './routes/dashboard';
 import quotesRouter from './routes/quotes';
 import quoteCollectionsRouter from './routes/quoteCollections';
 import videosRouter from './routes/videos';
+import analyticsRouter from './routes/analytics';
+import eventsRouter from './routes/events';
+import dataTransferRouter from './routes/dataTransfer';
+import { publishChanges } from './events';
+import { migrateTaskStatuses } from './taskWorkflow';
 
 const app = express();
 const PORT = parseInt(process.env.PORT || '3451', 10);
 
 app.use(cors());
+// Import archives embed uploaded images, so allow a much larger body than other routes
+app.use('/api/import', express.json({ limit: '200mb' }));
+// Device exports can hold years of readings
+app.use('/api/measurements/:id/entries/import', express.json({ limit: '10mb' }));
 app.use(express.json());
 
 // Health check
@@ -49,21 +61,32 @@ app.get('/api/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-// API Routes
-app.use('/api/habits', habitsRouter);
-app.use('/api/categories', categoriesRouter);
-app.use('/api/tasks', tasksRouter);
-app.use('/api/projects', projectsRouter);
-app.use('/api/tags', tagsRouter);
-app.use('/api/statuses', statusesRouter);
-app.use('/api/time-blocks', timeBlocksRouter);
-app.use('/api/measurements', measurementsRouter);
-app.use('/api/parking-lot', parkingLotRouter);
-app.use('/api/settings', settingsRouter);
-app.use('/api/dashboard', dashboardRouter);
-app.use('/api/quotes', quotesRouter);
-app.use('/api/quote-collections', quoteCollectionsRouter);
-app.use('/api/videos', videosRouter);
+// API Routes (publishChanges broadcasts successful writes to /api/events subscribers)
+app.use('/api/habits', publishChanges(req =>
+  /^\/[^/]+\/entries/.test(req.path) ? ['habitEntries'] : req.path === '/import' ? ['habits', 'categories'] : ['habits']
+), habitsRouter);
+app.use('/api/categories', publishChanges('categories'), categoriesRouter);
+app.use('/api/tasks', publishChanges('tasks'), tasksRouter);
+app.use('/api/task-dependencies', publishChanges('tasks'), taskDependenciesRouter);
+app.use('/api/task-filters', publishChanges('tasks'), taskFiltersRouter);
+app.use('/api/projects', publishChanges('projects'), projectsRouter);
+app.use('/api/tags', publishChanges('tags'), tagsRouter);
+app.use('/api/statuses', publishChanges('statuses'), statusesRouter);
+// Completing a block only touches its linked habit's entries - the route publishes that itself
+app.use('/api/time-blocks', publishChanges(req =>
+  req.path.includes('/timer') ? ['timer'] : /^\/[^/]+\/complete$/.test(req.path) ? [] : ['timeBlocks']
+), timeBlocksRouter);
+app.use('/api/focus-sessions', publishChanges('focusSessions'), focusSessionsRouter);
+app.use('/api/measurements', publishChanges('measurements'), measurementsRouter);
+app.use('/api/parking-lot', publishChanges(req => req.path.endsWith('/convert-to-task') ? ['parkingLot', 'tasks'] : ['parkingLot']), parkingLotRouter);
+app.use('/api/settings', publishChanges('settings'), settingsRouter);
+app.use('/api/dashboard', publishChanges('settings'), dashboardRouter); // Layouts are read through /api/settings/layouts
+app.use('/api/quotes', publishChanges('quotes'), quotesRouter);
+app.use('/api/quote-collections', publishChanges('quotes'), quoteCollectionsRouter);
+app.use('/api/videos', publishChanges('videos'), videosRouter);
+app.use('/api/analytics', analyticsRouter);
+app.use('/api/events', eventsRouter);
+app.use('/api', dataTransferRouter); // /api/export, /api/import
 
 // Serve uploaded files
 const uploadsPath = path.join(__dirname, '../uploads');
@@ -109,4 +132,9 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 
 app.listen(PORT, '0.0.0.0', () => {
   console.log(`HabitArcade running on http://0.0.0.0:${PORT}`);
+
+  // Back-fill statusId for tasks still on the legacy status string (no-op once migrated)
+  migrateTaskStatuses().catch(error => {
+    console.error('Failed to migrate task statuses:', error);
+  });
 });
@@ -0,0 +1,324 @@
+// Parsing for measurement entry imports (smart scale and fitness app exports): CSV or JSON rows
+// with a date, a value and optionally a unit. Rows are converted to the measurement's unit and
+// folded into one value per day; anything unusable is reported rather than failing the import.
+
+export const DEDUPE_POLICIES = ['latest', 'average', 'min'] as const;
+export const DATE_ORDERS = ['mdy', 'dmy'] as const; // How to read slashed dates like 03/04/2026
+
+export type DedupePolicy = typeof DEDUPE_POLICIES[number];
+export type DateOrder = typeof DATE_ORDERS[number];
+
+export const MAX_IMPORT_ROWS = 20000;
+
+const DATE_HEADERS = ['date', 'datetime', 'timestamp', 'time', 'day', 'measured_at', 'recorded_at'];
+const UNIT_HEADERS = ['unit', 'units'];
+
+// Convertible units: factor to the dimension's base unit (kg, cm)
+const UNITS: Record<string, { dimension: 'mass' | 'length'; factor: number }> = {
+  kg: { dimension: 'mass', factor: 1 },
+  g: { dimension: 'mass', factor: 0.001 },
+  lb: { dimension: 'mass', factor: 0.45359237 },
+  st: { dimension: 'mass', factor: 6.35029318 },
+  cm: { dimension: 'length', factor: 1 },
+  mm: { dimension: 'length', factor: 0.1 },
+  m: { dimension: 'length', factor: 100 },
+  in: { dimension: 'length', factor: 2.54 },
+  ft: { dimension: 'length', factor: 30.48 },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  kgs: 'kg', kilogram: 'kg', kilograms: 'kg',
+  gram: 'g', grams: 'g',
+  lbs: 'lb', pound: 'lb', pounds: 'lb',
+  stone: 'st',
+  centimeter: 'cm', centimeters: 'cm', centimetre: 'cm', centimetres: 'cm',
+  millimeter: 'mm', millimeters: 'mm',
+  meter: 'm', meters: 'm', metre: 'm', metres: 'm',
+  inch: 'in', inches: 'in', '"': 'in',
+  foot: 'ft', feet: 'ft',
+};
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportOptions {
+  measurementType: string;
+  measurementName: string;
+  measurementUnit: string | null;
+  defaultUnit?: string; // Unit of rows that don't say (defaults to the measurement's)
+  dateOrder: DateOrder;
+  dedupe: DedupePolicy;
+  dateColumn?: string;
+  valueColumn?: string;
+}
+
+export interface SkippedRow {
+  row: number; // 1-based data row (the CSV header isn't counted)
+  reason: string;
+}
+
+export interface ImportedDay {
+  date: string;
+  value: number; // In the measurement's unit, after the dedupe policy
+  rows: number[]; // Data rows folded into this day
+}
+
+export interface ParsedImport {
+  columns: { date: string; value: string; unit: string | null };
+  days: ImportedDay[];
+  skipped: SkippedRow[];
+  merged: number; // Rows folded into another reading from the same day
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// Split CSV text into rows, honouring quoted fields ("a, b" and "" escapes).
+// The delimiter (comma, semicolon or tab) is whichever appears most in the header line.
+export function parseCsv(text: string): ImportTable {
+  const source = text.replace(/^\uFEFF/, '');
+  const headerLine = source.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t']
+    .map(d => ({ d, count: headerLine.split(d).length }))
+    .sort((a, b) => b.count - a.count)[0].d;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter(r => r.some(cell => cell.trim() !== ''));
+  if (nonEmpty.length === 0) throw new ImportError('CSV is empty');
+  const [headers, ...data] = nonEmpty;
+  return { headers: headers.map(h => h.trim()), rows: data };
+}
+
+// Turn JSON records ([{ date, value, unit }, ...]) into the same shape as a CSV
+export function tableFromRecords(records: unknown[]): ImportTable {
+  const headers: string[] = [];
+  for (const record of records) {
+    if (typeof record === 'object' && record !== null && !Array.isArray(record)) {
+      for (const key of Object.keys(record)) {
+        if (!headers.includes(key)) headers.push(key);
+      }
+    }
+  }
+  const rows = records.map(record => {
+    const values = (typeof record === 'object' && record !== null ? record : {}) as Record<string, unknown>;
+    return headers.map(h => (values[h] === null || values[h] === undefined ? '' : String(values[h])));
+  });
+  return { headers, rows };
+}
+
+function normalizeUnit(unit: string): string {
+  const key = unit.trim().toLowerCase().replace(/\.$/, '');
+  return UNIT_ALIASES[key] ?? key;
+}
+
+// Convert between units; null when they measure different things or aren't known
+export function convertUnit(value: number, from: string, to: string): number | null {
+  const fromKey = normalizeUnit(from);
+  const toKey = normalizeUnit(to);
+  if (fromKey === toKey) return value;
+  const fromUnit = UNITS[fromKey];
+  const toUnit = UNITS[toKey];
+  if (!fromUnit || !toUnit || fromUnit.dimension !== toUnit.dimension) return null;
+  return (value * fromUnit.factor) / toUnit.factor;
+}
+
+function toDateString(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+// Minutes past midnight from a time like "07:45", "7:45:10 PM" or "T19:45:10Z" (null = no time)
+function parseTimeOfDay(text: string): number | null {
+  const match = /(\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?\s*(am|pm)?/i.exec(text);
+  if (!match) return null;
+  let hours = parseInt(match[1], 10) % 24;
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  return hours * 60 + parseInt(match[2], 10);
+}
+
+// Read the calendar date (as written, no timezone shifting) and time of day from an export's date cell.
+// Accepts YYYY-MM-DD (and / or . separators, optionally followed by a time), slashed day/month dates
+// in the given order, and Unix timestamps in seconds or milliseconds.
+export function parseImportDate(raw: string, dateOrder: DateOrder): { date: string; time: number | null } | null {
+  const text = raw.trim();
+
+  if (/^\d{10}(\d{3})?$/.test(text)) {
+    const iso = new Date(text.length === 13 ? Number(text) : Number(text) * 1000).toISOString();
+    return { date: iso.slice(0, 10), time: parseTimeOfDay(iso.slice(11)) };
+  }
+
+  const yearFirst = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(.*)$/.exec(text);
+  if (yearFirst) {
+    const date = toDateString(+yearFirst[1], +yearFirst[2], +yearFirst[3]);
+    return date ? { date, time: parseTimeOfDay(yearFirst[4]) } : null;
+  }
+
+  const yearLast = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})(.*)$/.exec(text);
+  if (yearLast) {
+    const [month, day] = dateOrder === 'mdy' ? [+yearLast[1], +yearLast[2]] : [+yearLast[2], +yearLast[1]];
+    const date = toDateString(+yearLast[3], month, day);
+    return date ? { date, time: parseTimeOfDay(yearLast[4]) } : null;
+  }
+
+  return null;
+}
+
+// "80.5", "80,5" or "176.4 lb" -> number and optional inline unit
+function parseValueCell(raw: string): { value: number; unit: string | null } | null {
+  const match = /^\s*(-?\d+(?:[.,]\d+)?)\s*([a-zA-Z"]+\.?)?\s*$/.exec(raw);
+  if (!match) return null;
+  const value = parseFloat(match[1].replace(',', '.'));
+  return Number.isFinite(value) ? { value, unit: match[2] ?? null } : null;
+}
+
+// "Weight (lb)" -> "lb"
+function unitFromHeader(header: string): string | null {
+  const match = /[([]\s*([^)\]]+?)\s*[)\]]/.exec(header);
+  return match ? match[1] : null;
+}
+
+function headerName(header: string): string {
+  return header.replace(/[([][^)\]]*[)\]]/g, '').trim().toLowerCase();
+}
+
+function findColumn(headers: string[], requested: string | undefined, label: string): number {
+  const index = headers.findIndex(h => h.toLowerCase() === requested!.toLowerCase());
+  if (index === -1) throw new ImportError(`No "${requested}" column for ${label}`);
+  return index;
+}
+
+// Pick out the date, value and unit columns, convert every row and fold each day's readings
+export function prepareImport(table: ImportTable, options: ImportOptions): ParsedImport {
+  const { headers } = table;
+  if (table.rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportError(`Imports are limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const dateIndex = options.dateColumn
+    ? findColumn(headers, options.dateColumn, 'dates')
+    : headers.findIndex(h => DATE_HEADERS.includes(headerName(h)) || headerName(h).includes('date'));
+  if (dateIndex === -1) throw new ImportError('Could not find a date column; pass dateColumn');
+
+  const unitIndex = headers.findIndex(h => UNIT_HEADERS.includes(headerName(h)));
+  // Exports that split date and time into two columns
+  const timeIndex = headers.findIndex((h, i) => i !== dateIndex && headerName(h) === 'time');
+  const candidates = headers.map((_, i) => i).filter(i => i !== dateIndex && i !== unitIndex && i !== timeIndex);
+  const names = [options.measurementType, options.measurementName].map(n => n.toLowerCase());
+  const valueIndex = options.valueColumn
+    ? findColumn(headers, options.valueColumn, 'values')
+    : candidates.find(i => headerName(headers[i]) === 'value')
+      ?? candidates.find(i => names.some(n => headerName(headers[i]) === n))
+      ?? candidates.find(i => headerName(headers[i]) !== '' && names.some(n => headerName(headers[i]).includes(n) || n.includes(headerName(headers[i]))))
+      ?? (candidates.length === 1 ? candidates[0] : -1);
+  if (valueIndex === -1) throw new ImportError('Could not tell which column holds the values; pass valueColumn');
+
+  const headerUnit = unitFromHeader(headers[valueIndex]);
+  const skipped: SkippedRow[] = [];
+  const readings = new Map<string, { value: number; time: number | null; row: number }[]>();
+
+  table.rows.forEach((cells, index) => {
+    const row = index + 1;
+    const rawDate = cells[dateIndex]?.trim() ?? '';
+    const rawValue = cells[valueIndex]?.trim() ?? '';
+    if (rawDate === '' && rawValue === '') {
+      skipped.push({ row, reason: 'Empty row' });
+      return;
+    }
+
+    const parsedDate = parseImportDate(rawDate, options.dateOrder);
+    if (!parsedDate) {
+      skipped.push({ row, reason: `Unrecognised date "${rawDate}"` });
+      return;
+    }
+    const parsedValue = parseValueCell(rawValue);
+    if (!parsedValue) {
+      skipped.push({ row, reason: rawValue === '' ? 'Missing value' : `Invalid value "${rawValue}"` });
+      return;
+    }
+
+    const rowUnit = (unitIndex !== -1 ? cells[unitIndex]?.trim() : '') || parsedValue.unit || headerUnit
+      || options.defaultUnit || options.measurementUnit;
+    let value = parsedValue.value;
+    if (rowUnit && options.measurementUnit) {
+      const converted = convertUnit(value, rowUnit, options.measurementUnit);
+      if (converted === null) {
+        skipped.push({ row, reason: `Can't convert ${rowUnit} to ${options.measurementUnit}` });
+        return;
+      }
+      value = converted;
+    }
+
+    const day = readings.get(parsedDate.date) ?? [];
+    const time = parsedDate.time ?? (timeIndex !== -1 ? parseTimeOfDay(cells[timeIndex] ?? '') : null);
+    day.push({ value, time, row });
+    readings.set(parsedDate.date, day);
+  });
+
+  let merged = 0;
+  const days: ImportedDay[] = [...readings.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayReadings]) => {
+      merged += dayReadings.length - 1;
+      const values = dayReadings.map(r => r.value);
+      let value: number;
+      if (options.dedupe === 'average') {
+        value = values.reduce((sum, v) => sum + v, 0) / values.length;
+      } else if (options.dedupe === 'min') {
+        value = Math.min(...values);
+      } else {
+        // Latest reading of the day: by time of day when the export has one, then file order
+        value = [...dayReadings].sort((a, b) => (a.time ?? -1) - (b.time ?? -1) || a.row - b.row).at(-1)!.value;
+      }
+      return { date, value: Math.round(value * 100) / 100, rows: dayReadings.map(r => r.row) };
+    });
+
+  return {
+    columns: { date: headers[dateIndex], value: headers[valueIndex], unit: unitIndex !== -1 ? headers[unitIndex] : null },
+    days,
+    skipped,
+    merged,
+  };
+}
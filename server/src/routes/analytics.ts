@@ -0,0 +1,561 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { habits, categories, taskStatuses, settings, tasks, taskStatusEvents } from '../db/schema';
+import { eq, and, asc, inArray, sql, type SQL } from 'drizzle-orm';
+import { isCompleteTask } from '../taskWorkflow';
+
+const router = Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const INTERVALS = ['week', 'month'];
+
+// Default range when startDate is omitted: the last 12 weeks
+const DEFAULT_RANGE_DAYS = 84;
+
+// Cap on habits compared in the correlation matrix (pairs grow quadratically)
+const MAX_CORRELATION_HABITS = 20;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Status names that mark work starting, for the default cycle-time start
+const CYCLE_START_NAMES = /^(in progress|doing|started)$/i;
+
+type Interval = 'week' | 'month';
+
+interface AnalyticsSeries {
+  id: string | null;
+  name: string;
+  color: string | null;
+  values: (number | null)[];
+}
+
+// One completed task's timings
+interface CycleTimeSample {
+  period: string;
+  projectId: string | null;
+  leadHours: number;
+  cycleHours: number | null; // NULL when the task never reached the start status
+  hoursInStatus: Map<string, number>;
+}
+
+interface CycleTimeSummary {
+  completed: number;
+  leadTimeHours: number | null; // Average creation -> completion
+  cycleTimeHours: number | null; // Average work start -> completion, over tasks that were started
+  timeInStatus: { statusId: string; hours: number }[]; // Average hours per completed task
+}
+
+// Shift an ISO date string (YYYY-MM-DD) by a number of days
+function addDaysToDate(dateStr: string, days: number): string {
+  const d = new Date(`${dateStr}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+// First day of the week/month containing a date
+function getPeriodStart(dateStr: string, interval: Interval, weekStartDay: number): string {
+  if (interval === 'month') return `${dateStr.slice(0, 8)}01`;
+  const weekday = new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+  return addDaysToDate(dateStr, -((weekday - weekStartDay + 7) % 7));
+}
+
+// All period start dates covering the range, oldest first
+function getPeriods(startDate: string, endDate: string, interval: Interval, weekStartDay: number): string[] {
+  const periods: string[] = [];
+  let period = getPeriodStart(startDate, interval, weekStartDay);
+  while (period <= endDate) {
+    periods.push(period);
+    if (interval === 'week') {
+      period = addDaysToDate(period, 7);
+    } else {
+      const d = new Date(`${period}T00:00:00Z`);
+      d.setUTCMonth(d.getUTCMonth() + 1);
+      period = d.toISOString().split('T')[0];
+    }
+  }
+  return periods;
+}
+
+// SQL expression for the period start (as YYYY-MM-DD text) of a date column - matches getPeriodStart
+function periodSql(column: SQL, interval: Interval, weekStartDay: number): SQL {
+  if (interval === 'month') {
+    return sql`to_char(date_trunc('month', ${column}), 'YYYY-MM-DD')`;
+  }
+  return sql`to_char(${column} - ((EXTRACT(DOW FROM ${column})::int - ${weekStartDay} + 7) % 7), 'YYYY-MM-DD')`;
+}
+
+// Parse and validate the shared range query params (startDate, endDate, interval)
+// Returns an error message, or the resolved range
+function parseRange(query: Record<string, unknown>):
+  { error: string } | { startDate: string; endDate: string; interval: Interval } {
+  const { startDate, endDate, interval } = query;
+
+  if (endDate !== undefined && (typeof endDate !== 'string' || !DATE_PATTERN.test(endDate))) {
+    return { error: 'endDate must be a date in YYYY-MM-DD format' };
+  }
+  if (startDate !== undefined && (typeof startDate !== 'string' || !DATE_PATTERN.test(startDate))) {
+    return { error: 'startDate must be a date in YYYY-MM-DD format' };
+  }
+  if (interval !== undefined && (typeof interval !== 'string' || !INTERVALS.includes(interval))) {
+    return { error: `interval must be one of: ${INTERVALS.join(', ')}` };
+  }
+
+  const end = (endDate as string | undefined) ?? new Date().toISOString().split('T')[0];
+  const start = (startDate as string | undefined) ?? addDaysToDate(end, -(DEFAULT_RANGE_DAYS - 1));
+  if (start > end) {
+    return { error: 'startDate must be on or before endDate' };
+  }
+
+  return { startDate: start, endDate: end, interval: (interval as Interval | undefined) ?? 'week' };
+}
+
+async function getWeekStartDay(): Promise<number> {
+  const setting = await db.query.settings.findFirst({
+    where: eq(settings.key, 'weekStartDay'),
+  });
+  return Number(setting?.value ?? 0);
+}
+
+// Pivot (period, id, value) rows into one series per id aligned to the periods list
+function buildSeries(
+  periods: string[],
+  rows: { period: string; id: string | null; value: number }[],
+  describe: (id: string | null) => { name: string; color: string | null }
+): AnalyticsSeries[] {
+  const seriesById = new Map<string | null, AnalyticsSeries>();
+  const periodIndex = new Map(periods.map((period, i) => [period, i]));
+
+  for (const row of rows) {
+    const index = periodIndex.get(row.period);
+    if (index === undefined) continue;
+    if (!seriesById.has(row.id)) {
+      seriesById.set(row.id, { id: row.id, ...describe(row.id), values: periods.map(() => null) });
+    }
+    seriesById.get(row.id)!.values[index] = row.value;
+  }
+
+  return [...seriesById.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+const roundHours = (hours: number) => Math.round(hours * 10) / 10;
+
+function averageHours(values: number[]): number | null {
+  return values.length > 0 ? roundHours(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+}
+
+function summarizeCycleTimes(samples: CycleTimeSample[]): CycleTimeSummary {
+  const totals = new Map<string, number>();
+  for (const sample of samples) {
+    for (const [statusId, hours] of sample.hoursInStatus) {
+      totals.set(statusId, (totals.get(statusId) ?? 0) + hours);
+    }
+  }
+  return {
+    completed: samples.length,
+    leadTimeHours: averageHours(samples.map(sample => sample.leadHours)),
+    cycleTimeHours: averageHours(samples.map(sample => sample.cycleHours).filter((hours): hours is number => hours !== null)),
+    timeInStatus: [...totals].map(([statusId, hours]) => ({ statusId, hours: roundHours(hours / samples.length) })),
+  };
+}
+
+// GET /api/analytics/category-trends - Habit completion rate per category per week/month
+router.get('/category-trends', async (req, res) => {
+  try {
+    const range = parseRange(req.query);
+    if ('error' in range) {
+      return res.status(400).json({ error: range.error, code: 'VALIDATION_ERROR' });
+    }
+    const { startDate, endDate, interval } = range;
+    const weekStartDay = await getWeekStartDay();
+
+    // Same scoring as the habit matrix: N/A and Exempt are excluded, partial earns half,
+    // count-based habits earn count/dailyTarget. Days without an entry aren't counted.
+    const rows = await db.execute<{ period: string; id: string | null; earned: number; counted: number }>(sql`
+      SELECT
+        ${periodSql(sql`e.date`, interval, weekStartDay)} AS period,
+        h.category_id AS id,
+        SUM(CASE
+          WHEN h.daily_target > 0 AND e.count > 0 THEN LEAST(e.count::float8 / h.daily_target, 1)
+          WHEN e.status IN ('complete', 'extra') THEN 1
+          WHEN e.status = 'partial' THEN 0.5
+          ELSE 0
+        END)::float8 AS earned,
+        COUNT(*)::int AS counted
+      FROM habit_entries e
+      JOIN habits h ON h.id = e.habit_id
+      WHERE h.is_deleted = false
+        AND e.date BETWEEN ${startDate}::date AND ${endDate}::date
+        AND e.status NOT IN ('empty', 'na', 'exempt')
+      GROUP BY 1, 2
+    `);
+
+    const allCategories = await db.query.categories.findMany({
+      where: eq(categories.isDeleted, false),
+    });
+    const categoryById = new Map(allCategories.map(c => [c.id, c]));
+
+    const periods = getPeriods(startDate, endDate, interval, weekStartDay);
+    const series = buildSeries(
+      periods,
+      rows.map(row => ({
+        period: row.period,
+        id: row.id,
+        value: row.counted > 0 ? Math.round((row.earned / row.counted) * 100) : 0,
+      })),
+      id => {
+        const category = id ? categoryById.get(id) : undefined;
+        return { name: category?.name ?? 'Uncategorized', color: category?.iconColor ?? null };
+      }
+    );
+
+    res.json({ data: { startDate, endDate, interval, periods, series } });
+  } catch (error) {
+    console.error('Failed to fetch category trends:', error);
+    res.status(500).json({ error: 'Failed to fetch category trends', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /api/analytics/habit-correlation - Pairwise correlation of habit completion days
+router.get('/habit-correlation', async (req, res) => {
+  try {
+    const range = parseRange(req.query);
+    if ('error' in range) {
+      return res.status(400).json({ error: range.error, code: 'VALIDATION_ERROR' });
+    }
+    const { startDate, endDate } = range;
+
+    // Default to active habits that track their own entries (parents aggregate their children)
+    const allHabits = await db.query.habits.findMany({
+      where: and(eq(habits.isDeleted, false), eq(habits.isActive, true)),
+      orderBy: [habits.sortOrder],
+    });
+    const parentIds = new Set(allHabits.map(h => h.parentHabitId).filter(Boolean));
+
+    let selected = allHabits.filter(h => !parentIds.has(h.id));
+    if (typeof req.query.habitIds === 'string' && req.query.habitIds.length > 0) {
+      const requestedIds = req.query.habitIds.split(',');
+      selected = allHabits.filter(h => requestedIds.includes(h.id));
+    }
+    selected = selected.slice(0, MAX_CORRELATION_HABITS);
+
+    if (selected.length < 2) {
+      return res.json({ data: { startDate, endDate, habits: selected.map(h => ({ id: h.id, name: h.name })), pairs: [] } });
+    }
+
+    // One flag per habit per day: 1 = complete/extra, 0 = anything else, NULL = N/A or Exempt
+    // (excluded from the comparison). corr() of two 0/1 series is the phi coefficient.
+    const rows = await db.execute<{
+      habit_a: string;
+      habit_b: string;
+      days: number;
+      both: number;
+      a_only: number;
+      b_only: number;
+      neither: number;
+      correlation: number | null;
+    }>(sql`
+      WITH days AS (
+        SELECT d::date AS day FROM generate_series(${startDate}::date, ${endDate}::date, interval '1 day') AS d
+      ),
+      flags AS (
+        SELECT h.id AS habit_id, days.day,
+          CASE
+            WHEN e.status IN ('complete', 'extra') THEN 1
+            WHEN e.status IN ('na', 'exempt') THEN NULL
+            ELSE 0
+          END AS done
+        FROM habits h
+        CROSS JOIN days
+        LEFT JOIN habit_entries e ON e.habit_id = h.id AND e.date = days.day
+        WHERE h.id IN (${sql.join(selected.map(h => sql`${h.id}::uuid`), sql`, `)})
+          AND days.day >= h.created_at::date
+      )
+      SELECT
+        a.habit_id AS habit_a,
+        b.habit_id AS habit_b,
+        COUNT(*)::int AS days,
+        COUNT(*) FILTER (WHERE a.done = 1 AND b.done = 1)::int AS both,
+        COUNT(*) FILTER (WHERE a.done = 1 AND b.done = 0)::int AS a_only,
+        COUNT(*) FILTER (WHERE a.done = 0 AND b.done = 1)::int AS b_only,
+        COUNT(*) FILTER (WHERE a.done = 0 AND b.done = 0)::int AS neither,
+        corr(a.done, b.done)::float8 AS correlation
+      FROM flags a
+      JOIN flags b ON b.day = a.day AND a.habit_id < b.habit_id
+      WHERE a.done IS NOT NULL AND b.done IS NOT NULL
+      GROUP BY a.habit_id, b.habit_id
+    `);
+
+    res.json({
+      data: {
+        startDate,
+        endDate,
+        habits: selected.map(h => ({ id: h.id, name: h.name })),
+        pairs: rows.map(row => ({
+          habitA: row.habit_a,
+          habitB: row.habit_b,
+          days: row.days,
+          both: row.both,
+          aOnly: row.a_only,
+          bOnly: row.b_only,
+          neither: row.neither,
+          correlation: row.correlation !== null ? Math.round(row.correlation * 100) / 100 : null,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch habit correlation:', error);
+    res.status(500).json({ error: 'Failed to fetch habit correlation', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /api/analytics/task-throughput - Tasks per week/month grouped by project or status
+router.get('/task-throughput', async (req, res) => {
+  try {
+    const range = parseRange(req.query);
+    if ('error' in range) {
+      return res.status(400).json({ error: range.error, code: 'VALIDATION_ERROR' });
+    }
+    const { startDate, endDate, interval } = range;
+    const groupBy = req.query.groupBy ?? 'project';
+    if (groupBy !== 'project' && groupBy !== 'status') {
+      return res.status(400).json({ error: 'groupBy must be one of: project, status', code: 'VALIDATION_ERROR' });
+    }
+    const weekStartDay = await getWeekStartDay();
+    const periods = getPeriods(startDate, endDate, interval, weekStartDay);
+
+    let series: AnalyticsSeries[];
+    if (groupBy === 'project') {
+      // Completed tasks per project, by completion date
+      const rows = await db.execute<{ period: string; id: string | null; count: number }>(sql`
+        SELECT
+          ${periodSql(sql`t.completed_at::date`, interval, weekStartDay)} AS period,
+          t.project_id AS id,
+          COUNT(*)::int AS count
+        FROM tasks t
+        WHERE t.is_deleted = false
+          AND t.completed_at IS NOT NULL
+          AND t.completed_at::date BETWEEN ${startDate}::date AND ${endDate}::date
+        GROUP BY 1, 2
+      `);
+
+      const allProjects = await db.query.projects.findMany();
+      const projectById = new Map(allProjects.map(p => [p.id, p]));
+
+      series = buildSeries(
+        periods,
+        rows.map(row => ({ period: row.period, id: row.id, value: row.count })),
+        id => {
+          const project = id ? projectById.get(id) : undefined;
+          return { name: project?.name ?? 'No project', color: project?.color ?? project?.iconColor ?? null };
+        }
+      );
+    } else {
+      // Tasks entering each status per period, from the status history
+      const rows = await db.execute<{ period: string; id: string | null; count: number }>(sql`
+        SELECT
+          ${periodSql(sql`e.changed_at::date`, interval, weekStartDay)} AS period,
+          e.to_status_id AS id,
+          COUNT(DISTINCT e.task_id)::int AS count
+        FROM task_status_events e
+        JOIN tasks t ON t.id = e.task_id
+        WHERE t.is_deleted = false
+          AND e.changed_at::date BETWEEN ${startDate}::date AND ${endDate}::date
+        GROUP BY 1, 2
+      `);
+
+      const statusIds = rows.map(row => row.id).filter((id): id is string => !!id);
+      const statuses = statusIds.length > 0
+        ? await db.query.taskStatuses.findMany({ where: inArray(taskStatuses.id, statusIds) })
+        : [];
+      const statusById = new Map(statuses.map(s => [s.id, s]));
+
+      series = buildSeries(
+        periods,
+        rows.map(row => ({ period: row.period, id: row.id, value: row.count })),
+        id => {
+          const status = id ? statusById.get(id) : undefined;
+          return { name: status?.name ?? 'No status', color: status?.color ?? null };
+        }
+      );
+    }
+
+    res.json({ data: { startDate, endDate, interval, groupBy, periods, series } });
+  } catch (error) {
+    console.error('Failed to fetch task throughput:', error);
+    res.status(500).json({ error: 'Failed to fetch task throughput', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /api/analytics/task-cycle-time - Lead time, cycle time and time in each status of the tasks
+// completed in the range: overall, per week/month (of completion) and per project.
+// Cycle time starts the first time a task reaches startStatusId (default "In Progress") or a later
+// workflow step; time in a breakout like Blocked counts toward it. Time in status only covers
+// changes logged in the task's status history.
+router.get('/task-cycle-time', async (req, res) => {
+  try {
+    const range = parseRange(req.query);
+    if ('error' in range) {
+      return res.status(400).json({ error: range.error, code: 'VALIDATION_ERROR' });
+    }
+    const { startDate, endDate, interval } = range;
+
+    const allStatuses = await db.query.taskStatuses.findMany({ orderBy: [asc(taskStatuses.sortOrder)] });
+    const statusById = new Map(allStatuses.map(s => [s.id, s]));
+    const workflow = allStatuses
+      .filter(s => !s.isDeleted && !s.isBreakout)
+      .sort((a, b) => (a.workflowOrder ?? 0) - (b.workflowOrder ?? 0));
+
+    const { startStatusId } = req.query;
+    const startStatus = startStatusId !== undefined
+      ? workflow.find(s => s.id === startStatusId)
+      : workflow.find(s => CYCLE_START_NAMES.test(s.name.trim()))
+        ?? workflow.find(s => !s.isInitialStatus && !s.isTerminal);
+    if (startStatusId !== undefined && !startStatus) {
+      return res.status(400).json({ error: 'startStatusId must be a workflow status', code: 'VALIDATION_ERROR' });
+    }
+
+    // Work has started once a task is at the start step or beyond (breakouts sit at their parent's step)
+    const isStarted = (statusId: string) => {
+      const status = statusById.get(statusId);
+      if (!status || status.isTerminal || !startStatus) return false;
+      const step = status.isBreakout ? statusById.get(status.breakoutParentId ?? '') : status;
+      return (step?.workflowOrder ?? -1) >= (startStatus.workflowOrder ?? 0);
+    };
+
+    const completedTasks = await db.select({
+      id: tasks.id,
+      projectId: tasks.projectId,
+      createdAt: tasks.createdAt,
+      completedAt: tasks.completedAt,
+    }).from(tasks).where(and(
+      eq(tasks.isDeleted, false),
+      isCompleteTask(),
+      sql`${tasks.completedAt}::date BETWEEN ${startDate}::date AND ${endDate}::date`
+    ));
+
+    const events = completedTasks.length > 0
+      ? await db.select().from(taskStatusEvents)
+        .where(inArray(taskStatusEvents.taskId, completedTasks.map(task => task.id)))
+        .orderBy(asc(taskStatusEvents.changedAt))
+      : [];
+    const eventsByTask = new Map<string, typeof events>();
+    for (const event of events) {
+      if (!eventsByTask.has(event.taskId)) eventsByTask.set(event.taskId, []);
+      eventsByTask.get(event.taskId)!.push(event);
+    }
+
+    const weekStartDay = await getWeekStartDay();
+    const samples: CycleTimeSample[] = completedTasks.map(task => {
+      const completedAt = task.completedAt!.getTime();
+      const history = eventsByTask.get(task.id) ?? [];
+
+      // Each stint lasts until the next change; time spent complete before a reopen isn't counted
+      const hoursInStatus = new Map<string, number>();
+      history.forEach((event, i) => {
+        const next = history[i + 1];
+        if (!next || statusById.get(event.toStatusId)?.isTerminal) return;
+        const hours = (next.changedAt.getTime() - event.changedAt.getTime()) / HOUR_MS;
+        hoursInStatus.set(event.toStatusId, (hoursInStatus.get(event.toStatusId) ?? 0) + hours);
+      });
+
+      const started = history.find(event => isStarted(event.toStatusId));
+      return {
+        period: getPeriodStart(task.completedAt!.toISOString().split('T')[0], interval, weekStartDay),
+        projectId: task.projectId,
+        leadHours: Math.max(0, completedAt - (task.createdAt?.getTime() ?? completedAt)) / HOUR_MS,
+        cycleHours: started ? Math.max(0, completedAt - started.changedAt.getTime()) / HOUR_MS : null,
+        hoursInStatus,
+      };
+    });
+
+    const allProjects = await db.query.projects.findMany();
+    const projectById = new Map(allProjects.map(p => [p.id, p]));
+    const samplesByProject = new Map<string | null, CycleTimeSample[]>();
+    for (const sample of samples) {
+      if (!samplesByProject.has(sample.projectId)) samplesByProject.set(sample.projectId, []);
+      samplesByProject.get(sample.projectId)!.push(sample);
+    }
+
+    const trackedStatusIds = new Set(samples.flatMap(sample => [...sample.hoursInStatus.keys()]));
+    const periods = getPeriods(startDate, endDate, interval, weekStartDay);
+
+    res.json({
+      data: {
+        startDate,
+        endDate,
+        interval,
+        periods,
+        startStatusId: startStatus?.id ?? null,
+        statuses: allStatuses
+          .filter(s => trackedStatusIds.has(s.id))
+          .map(s => ({ id: s.id, name: s.name, color: s.color, isBreakout: !!s.isBreakout })),
+        overall: summarizeCycleTimes(samples),
+        byPeriod: periods.map(period => ({
+          period,
+          ...summarizeCycleTimes(samples.filter(sample => sample.period === period)),
+        })),
+        byProject: [...samplesByProject].map(([id, projectSamples]) => {
+          const project = id ? projectById.get(id) : undefined;
+          return {
+            id,
+            name: project?.name ?? 'No project',
+            color: project?.color ?? project?.iconColor ?? null,
+            ...summarizeCycleTimes(projectSamples),
+          };
+        }).sort((a, b) => a.name.localeCompare(b.name)),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch task cycle time:', error);
+    res.status(500).json({ error: 'Failed to fetch task cycle time', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /api/analytics/measurement-trends - Average measurement value per week/month
+router.get('/measurement-trends', async (req, res) => {
+  try {
+    const range = parseRange(req.query);
+    if ('error' in range) {
+      return res.status(400).json({ error: range.error, code: 'VALIDATION_ERROR' });
+    }
+    const { startDate, endDate, interval } = range;
+    const weekStartDay = await getWeekStartDay();
+
+    const rows = await db.execute<{ period: string; id: string; average: number; min: number; max: number }>(sql`
+      SELECT
+        ${periodSql(sql`me.date`, interval, weekStartDay)} AS period,
+        me.measurement_id AS id,
+        AVG(me.value)::float8 AS average,
+        MIN(me.value)::float8 AS min,
+        MAX(me.value)::float8 AS max
+      FROM measurement_entries me
+      WHERE me.date BETWEEN ${startDate}::date AND ${endDate}::date
+      GROUP BY 1, 2
+    `);
+
+    const allMeasurements = await db.query.measurements.findMany();
+    const measurementById = new Map(allMeasurements.map(m => [m.id, m]));
+
+    const periods = getPeriods(startDate, endDate, interval, weekStartDay);
+    const series = buildSeries(
+      periods,
+      rows.map(row => ({ period: row.period, id: row.id, value: Math.round(row.average * 100) / 100 })),
+      id => ({ name: (id && measurementById.get(id)?.name) || 'Unknown', color: null })
+    ).map(s => {
+      const measurementRows = rows.filter(row => row.id === s.id);
+      return {
+        ...s,
+        unit: (s.id && measurementById.get(s.id)?.unit) || null,
+        min: measurementRows.length > 0 ? Math.min(...measurementRows.map(row => row.min)) : null,
+        max: measurementRows.length > 0 ? Math.max(...measurementRows.map(row => row.max)) : null,
+      };
+    });
+
+    res.json({ data: { startDate, endDate, interval, periods, series } });
+  } catch (error) {
+    console.error('Failed to fetch measurement trends:', error);
+    res.status(500).json({ error: 'Failed to fetch measurement trends', code: 'INTERNAL_ERROR' });
+  }
+});
+
+export default router;
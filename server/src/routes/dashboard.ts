@@ -1,7 +1,8 @@
 import { Router } from 'express';
 import { db } from '../db';
-import { dashboardLayouts, habits, habitEntries, tasks, measurements, measurementEntries, parkingLot } from '../db/schema';
-import { eq, and, gte, lte, desc, asc, count } from 'drizzle-orm';
+import { dashboardLayouts, habits, habitEntries, tasks, measurements, measurementEntries, parkingLot, settings } from '../db/schema';
+import { eq, and, gte, lte, lt, desc, asc, count, inArray } from 'drizzle-orm';
+import { isCompleteTask, isOpenTask } from '../taskWorkflow';
 
 const router = Router();
 
@@ -14,6 +15,58 @@ const DEFAULT_LAYOUT = [
   { i: 'parking-lot', x: 16, y: 8, w: 8, h: 6, minW: 4, minH: 3 },
 ];
 
+// Shift an ISO date string (YYYY-MM-DD) by a number of days
+function addDaysToDate(dateStr: string, days: number): string {
+  const d = new Date(`${dateStr}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+interface HabitSchedule {
+  scheduleType: string | null;
+  scheduleDays: unknown;
+  scheduleCount: number | null;
+}
+
+// Check whether a habit is scheduled on a date, given the dates it was completed before that day.
+// Mirrors getScheduleState in the client habit matrix; quota days with slack left count as
+// scheduled since the habit can still be done that day.
+function isHabitScheduledOn(habit: HabitSchedule, dateStr: string, completedDates: Set<string>, weekStartDay: number): boolean {
+  const count = habit.scheduleCount ?? 0;
+
+  switch (habit.scheduleType) {
+    case 'weekdays': {
+      const weekday = new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+      return Array.isArray(habit.scheduleDays) && habit.scheduleDays.includes(weekday);
+    }
+
+    case 'interval': {
+      for (let i = 1; i < count; i++) {
+        if (completedDates.has(addDaysToDate(dateStr, -i))) return false;
+      }
+      return true;
+    }
+
+    case 'weekly':
+    case 'monthly': {
+      if (count <= 0) return true;
+      const weekday = new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+      const periodStart = habit.scheduleType === 'weekly'
+        ? addDaysToDate(dateStr, -((weekday - weekStartDay + 7) % 7))
+        : `${dateStr.slice(0, 8)}01`;
+
+      let doneBefore = 0;
+      for (let d = periodStart; d < dateStr; d = addDaysToDate(d, 1)) {
+        if (completedDates.has(d)) doneBefore++;
+      }
+      return doneBefore < count;
+    }
+
+    default:
+      return true;
+  }
+}
+
 // GET /api/dashboard/layout - Get active dashboard layout
 router.get('/layout', async (req, res) => {
   try {
@@ -216,15 +269,48 @@ router.get('/summary', async (req, res) => {
 
     const completedToday = todayEntries.filter(e => e.status === 'complete').length;
 
+    // Only habits scheduled today count toward the completion rate
+    const weekStartSetting = await db.query.settings.findFirst({
+      where: eq(settings.key, 'weekStartDay'),
+    });
+    const weekStartDay = Number(weekStartSetting?.value ?? 0);
+
+    // Look back far enough to cover the longest period/interval any schedule needs
+    const lookbackDays = Math.max(31, ...allHabits.map(h => (h.scheduleType === 'interval' ? h.scheduleCount ?? 0 : 0)));
+    const recentCompletions = await db.query.habitEntries.findMany({
+      where: and(
+        gte(habitEntries.date, addDaysToDate(today, -lookbackDays)),
+        lt(habitEntries.date, today),
+        inArray(habitEntries.status, ['complete', 'extra'])
+      ),
+    });
+
+    const completedDatesByHabit = new Map<string, Set<string>>();
+    recentCompletions.forEach(entry => {
+      if (!completedDatesByHabit.has(entry.habitId)) {
+        completedDatesByHabit.set(entry.habitId, new Set());
+      }
+      completedDatesByHabit.get(entry.habitId)!.add(entry.date);
+    });
+
+    const scheduledHabitIds = new Set(
+      allHabits
+        .filter(h => isHabitScheduledOn(h, today, completedDatesByHabit.get(h.id) ?? new Set(), weekStartDay))
+        .map(h => h.id)
+    );
+    const completedScheduledToday = todayEntries
+      .filter(e => e.status === 'complete' && scheduledHabitIds.has(e.habitId))
+      .length;
+
     // Get task statistics
     const pendingTasks = await db.query.tasks.findMany({
-      where: and(eq(tasks.isDeleted, false), eq(tasks.status, 'pending')),
+      where: and(eq(tasks.isDeleted, false), isOpenTask()),
     });
 
     const tasksCompletedToday = await db.query.tasks.findMany({
       where: and(
         eq(tasks.isDeleted, false),
-        eq(tasks.status, 'complete'),
+        isCompleteTask(),
         gte(tasks.completedAt, new Date(today))
       ),
     });
@@ -257,9 +343,10 @@ router.get('/summary', async (req, res) => {
         date: today,
         habits: {
           total: allHabits.length,
+          scheduledToday: scheduledHabitIds.size,
           completedToday,
-          completionRate: allHabits.length > 0
-            ? Math.round((completedToday / allHabits.length) * 100)
+          completionRate: scheduledHabitIds.size > 0
+            ? Math.round((completedScheduledToday / scheduledHabitIds.size) * 100)
             : 0,
         },
         tasks: {
@@ -0,0 +1,437 @@
+import { Router } from 'express';
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { getTableColumns } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import { db } from '../db';
+import {
+  categories,
+  habits,
+  habitEntries,
+  projects,
+  taskStatuses,
+  tags,
+  timeBlocks,
+  taskSeries,
+  tasks,
+  taskTags,
+  taskStatusEvents,
+  taskDependencies,
+  savedTaskFilters,
+  timeBlockPriorities,
+  focusSessions,
+  activeTimer,
+  measurements,
+  measurementEntries,
+  measurementTargets,
+  parkingLot,
+  settings,
+  dashboardLayouts,
+  videos,
+  quotes,
+  quoteCollections,
+  quoteCollectionAssignments,
+} from '../db/schema';
+import { publishChange } from '../events';
+import { migrateTaskStatuses } from '../taskWorkflow';
+
+const router = Router();
+
+const ARCHIVE_FORMAT = 'habitarcade-export';
+const ARCHIVE_VERSION = 1;
+const UPLOADS_PATH = path.join(__dirname, '../../uploads');
+const INSERT_CHUNK_SIZE = 500; // Stay well under the Postgres bind parameter limit
+const MAX_REPORTED_PROBLEMS = 20;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Row = Record<string, unknown>;
+type ImportMode = 'merge' | 'replace';
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+interface ArchiveTable {
+  table: PgTable;
+  refs?: Record<string, string>; // Column -> archived table its ids point at
+  jsonRefs?: Record<string, string>; // JSON column of ids (an array, or an object's values) -> archived table
+  matchBy?: string; // Merge mode: reuse an existing row with the same value instead of adding a duplicate
+  mergeDefaults?: Row; // Merge mode: overrides applied to imported rows
+}
+
+// Every table in schema.ts, in insert order (referenced tables first)
+const ARCHIVE_TABLES: Record<string, ArchiveTable> = {
+  categories: { table: categories, matchBy: 'name' },
+  habits: { table: habits, refs: { categoryId: 'categories', parentHabitId: 'habits' } },
+  habitEntries: { table: habitEntries, refs: { habitId: 'habits' } },
+  projects: { table: projects, refs: { categoryId: 'categories' } },
+  taskStatuses: {
+    table: taskStatuses,
+    refs: { breakoutParentId: 'taskStatuses' },
+    jsonRefs: { allowedTransitions: 'taskStatuses' },
+    matchBy: 'name',
+  },
+  tags: { table: tags, matchBy: 'name' },
+  timeBlocks: { table: timeBlocks, refs: { linkedHabitId: 'habits' } },
+  taskSeries: {
+    table: taskSeries,
+    refs: { projectId: 'projects', timeBlockId: 'timeBlocks' },
+    jsonRefs: { tagIds: 'tags' },
+  },
+  tasks: {
+    table: tasks,
+    refs: {
+      statusId: 'taskStatuses',
+      parentTaskId: 'tasks',
+      projectId: 'projects',
+      timeBlockId: 'timeBlocks',
+      seriesId: 'taskSeries',
+    },
+  },
+  taskTags: { table: taskTags, refs: { taskId: 'tasks', tagId: 'tags' } },
+  taskStatusEvents: {
+    table: taskStatusEvents,
+    refs: { taskId: 'tasks', fromStatusId: 'taskStatuses', toStatusId: 'taskStatuses' },
+  },
+  taskDependencies: { table: taskDependencies, refs: { taskId: 'tasks', dependsOnTaskId: 'tasks' } },
+  savedTaskFilters: {
+    table: savedTaskFilters,
+    jsonRefs: { projectIds: 'projects', tagIds: 'tags', statusIds: 'taskStatuses' },
+  },
+  timeBlockPriorities: { table: timeBlockPriorities, refs: { blockId: 'timeBlocks' } },
+  focusSessions: {
+    table: focusSessions,
+    refs: { blockId: 'timeBlocks', taskId: 'tasks', priorityId: 'timeBlockPriorities' },
+  },
+  measurements: { table: measurements, jsonRefs: { variables: 'measurements' } },
+  measurementEntries: { table: measurementEntries, refs: { measurementId: 'measurements' } },
+  measurementTargets: { table: measurementTargets, refs: { measurementId: 'measurements' } },
+  parkingLot: { table: parkingLot },
+  settings: { table: settings, matchBy: 'key' }, // Merge keeps this instance's settings
+  dashboardLayouts: { table: dashboardLayouts, mergeDefaults: { isActive: false } }, // Merge keeps the current layout active
+  videos: { table: videos },
+  quotes: { table: quotes },
+  quoteCollections: { table: quoteCollections, matchBy: 'name' },
+  quoteCollectionAssignments: {
+    table: quoteCollectionAssignments,
+    refs: { quoteId: 'quotes', collectionId: 'quoteCollections' },
+  },
+};
+
+interface ArchiveUpload {
+  path: string; // Relative to /uploads, e.g. habits/1700000000000-123.png
+  data: string; // Base64 file contents
+}
+
+interface DataArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  tables: Record<string, Row[]>;
+  uploads: ArchiveUpload[];
+}
+
+function isPlainObject(value: unknown): value is Row {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Resolve an archived upload path inside /uploads, or null if it would escape it
+function resolveUploadPath(relativePath: string): string | null {
+  const resolved = path.resolve(UPLOADS_PATH, relativePath);
+  return resolved.startsWith(UPLOADS_PATH + path.sep) ? resolved : null;
+}
+
+async function listUploads(dir: string): Promise<string[]> {
+  if (!fs.existsSync(dir)) return [];
+  const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listUploads(fullPath));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+// Check the archive's shape, rows and references. Returns a list of problems (empty = valid).
+function validateArchive(archive: unknown): string[] {
+  const problems: string[] = [];
+
+  if (!isPlainObject(archive) || archive.format !== ARCHIVE_FORMAT) {
+    return ['Not a HabitArcade export file'];
+  }
+  if (typeof archive.version !== 'number' || archive.version > ARCHIVE_VERSION) {
+    return [`Unsupported export version ${String(archive.version)} (this server reads up to ${ARCHIVE_VERSION})`];
+  }
+  if (!isPlainObject(archive.tables)) {
+    return ['Missing tables'];
+  }
+
+  const tableData = archive.tables;
+  for (const name of Object.keys(tableData)) {
+    if (!ARCHIVE_TABLES[name]) problems.push(`Unknown table "${name}"`);
+    else if (!Array.isArray(tableData[name])) problems.push(`Table "${name}" must be an array`);
+  }
+  if (problems.length > 0) return problems;
+
+  // Ids present in the archive, per table - references must point at one of these
+  const archivedIds = new Map<string, Set<string>>();
+  for (const name of Object.keys(ARCHIVE_TABLES)) {
+    const rows = (tableData[name] ?? []) as unknown[];
+    archivedIds.set(name, new Set(rows.filter(isPlainObject).map(row => String(row.id))));
+  }
+
+  for (const [name, spec] of Object.entries(ARCHIVE_TABLES)) {
+    const rows = (tableData[name] ?? []) as unknown[];
+    const columns = getTableColumns(spec.table);
+    const seen = new Set<string>();
+
+    rows.forEach((row, index) => {
+      const label = `${name}[${index}]`;
+      if (!isPlainObject(row)) {
+        problems.push(`${label} is not an object`);
+        return;
+      }
+      if (typeof row.id !== 'string' || !UUID_PATTERN.test(row.id)) {
+        problems.push(`${label}.id must be a UUID`);
+      } else if (seen.has(row.id)) {
+        problems.push(`${label}.id is duplicated`);
+      } else {
+        seen.add(row.id);
+      }
+
+      for (const [key, column] of Object.entries(columns)) {
+        const value = row[key];
+        if (value === undefined || value === null) {
+          if (column.notNull && !column.hasDefault) problems.push(`${label}.${key} is required`);
+          continue;
+        }
+        if (column.columnType === 'PgTimestamp' && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+          problems.push(`${label}.${key} must be a timestamp`);
+        }
+      }
+
+      for (const [key, target] of Object.entries(spec.refs ?? {})) {
+        const value = row[key];
+        if (value !== undefined && value !== null && !archivedIds.get(target)!.has(String(value))) {
+          problems.push(`${label}.${key} references a missing ${target} row`);
+        }
+      }
+
+      for (const [key, target] of Object.entries(spec.jsonRefs ?? {})) {
+        const value = row[key];
+        if (value === undefined || value === null) continue;
+        const refIds = Array.isArray(value) ? value : isPlainObject(value) ? Object.values(value) : null;
+        if (!refIds || refIds.some(id => !archivedIds.get(target)!.has(String(id)))) {
+          problems.push(`${label}.${key} references a missing ${target} row`);
+        }
+      }
+    });
+  }
+
+  if (archive.uploads !== undefined) {
+    if (!Array.isArray(archive.uploads)) {
+      problems.push('uploads must be an array');
+    } else {
+      archive.uploads.forEach((upload: unknown, index) => {
+        if (!isPlainObject(upload) || typeof upload.path !== 'string' || typeof upload.data !== 'string') {
+          problems.push(`uploads[${index}] must have a path and data`);
+        } else if (!resolveUploadPath(upload.path)) {
+          problems.push(`uploads[${index}].path is outside the uploads folder`);
+        }
+      });
+    }
+  }
+
+  return problems;
+}
+
+// Map every archived id to the id it gets in this database. Replace mode keeps ids;
+// merge mode gives each row a fresh id, or the id of an existing row it matches.
+async function buildIdMap(tx: Transaction, archive: DataArchive, mode: ImportMode) {
+  const idMap = new Map<string, Map<string, string>>();
+  const matchedIds = new Map<string, Set<string>>(); // Archived ids merged into existing rows (not inserted)
+
+  for (const [name, spec] of Object.entries(ARCHIVE_TABLES)) {
+    const rows = archive.tables[name] ?? [];
+    const ids = new Map<string, string>();
+    const matched = new Set<string>();
+
+    const existingByKey = new Map<string, string>();
+    if (mode === 'merge' && spec.matchBy && rows.length > 0) {
+      const existing = (await tx.select().from(spec.table)) as Row[];
+      for (const row of existing) {
+        if (row.isDeleted) continue;
+        existingByKey.set(String(row[spec.matchBy]).trim().toLowerCase(), String(row.id));
+      }
+    }
+
+    for (const row of rows) {
+      const oldId = String(row.id);
+      if (mode === 'replace') {
+        ids.set(oldId, oldId);
+        continue;
+      }
+      const existingId = spec.matchBy
+        ? existingByKey.get(String(row[spec.matchBy]).trim().toLowerCase())
+        : undefined;
+      if (existingId) {
+        ids.set(oldId, existingId);
+        matched.add(oldId);
+      } else {
+        ids.set(oldId, randomUUID());
+      }
+    }
+
+    idMap.set(name, ids);
+    matchedIds.set(name, matched);
+  }
+
+  return { idMap, matchedIds };
+}
+
+// Convert an archived row into insert values: known columns only, remapped ids, Date timestamps
+function toInsertRow(row: Row, spec: ArchiveTable, ids: Map<string, Map<string, string>>, tableName: string, mode: ImportMode): Row {
+  const values: Row = {};
+  for (const [key, column] of Object.entries(getTableColumns(spec.table))) {
+    const value = row[key];
+    if (value === undefined) continue;
+    values[key] = column.columnType === 'PgTimestamp' && value !== null ? new Date(value as string) : value;
+  }
+
+  values.id = ids.get(tableName)!.get(String(row.id));
+  for (const [key, target] of Object.entries(spec.refs ?? {})) {
+    if (values[key] !== undefined && values[key] !== null) {
+      values[key] = ids.get(target)!.get(String(values[key]));
+    }
+  }
+  for (const [key, target] of Object.entries(spec.jsonRefs ?? {})) {
+    const value = values[key];
+    if (Array.isArray(value)) {
+      values[key] = value.map(id => ids.get(target)!.get(String(id)));
+    } else if (isPlainObject(value)) {
+      values[key] = Object.fromEntries(
+        Object.entries(value).map(([name, id]) => [name, ids.get(target)!.get(String(id))])
+      );
+    }
+  }
+
+  return mode === 'merge' && spec.mergeDefaults ? { ...values, ...spec.mergeDefaults } : values;
+}
+
+// Write archived uploads. Merge keeps files that already exist (upload names are unique).
+async function writeUploads(uploads: ArchiveUpload[], mode: ImportMode) {
+  let written = 0;
+  let skipped = 0;
+  for (const upload of uploads) {
+    const target = resolveUploadPath(upload.path)!;
+    if (mode === 'merge' && fs.existsSync(target)) {
+      skipped++;
+      continue;
+    }
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, Buffer.from(upload.data, 'base64'));
+    written++;
+  }
+  return { written, skipped };
+}
+
+// GET /api/export - Versioned JSON archive of every table plus uploaded images
+router.get('/export', async (req, res) => {
+  try {
+    const tableData: Record<string, Row[]> = {};
+    for (const [name, spec] of Object.entries(ARCHIVE_TABLES)) {
+      tableData[name] = (await db.select().from(spec.table)) as Row[];
+    }
+
+    const uploads: ArchiveUpload[] = [];
+    for (const file of await listUploads(UPLOADS_PATH)) {
+      uploads.push({
+        path: path.relative(UPLOADS_PATH, file).split(path.sep).join('/'),
+        data: (await fs.promises.readFile(file)).toString('base64'),
+      });
+    }
+
+    const exportedAt = new Date().toISOString();
+    const archive: DataArchive = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt,
+      tables: tableData,
+      uploads,
+    };
+
+    res.setHeader('Content-Disposition', `attachment; filename="habitarcade-export-${exportedAt.split('T')[0]}.json"`);
+    res.json(archive);
+  } catch (error) {
+    console.error('Error exporting data:', error);
+    res.status(500).json({ error: 'Failed to export data', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /api/import?mode=merge|replace - Import an archive from GET /api/export
+// merge: add archived rows alongside existing data (new ids; categories, statuses, tags,
+//        quote collections and settings with the same name/key are reused)
+// replace: delete all data, then restore the archive with its original ids
+router.post('/import', async (req, res) => {
+  try {
+    const mode = (req.query.mode ?? 'merge') as string;
+    if (mode !== 'merge' && mode !== 'replace') {
+      return res.status(400).json({ error: 'mode must be merge or replace', code: 'VALIDATION_ERROR' });
+    }
+
+    const problems = validateArchive(req.body);
+    if (problems.length > 0) {
+      const more = problems.length > 1 ? ` (and ${problems.length - 1} more)` : '';
+      return res.status(400).json({
+        error: `Invalid export file: ${problems[0]}${more}`,
+        code: 'VALIDATION_ERROR',
+        details: problems.slice(0, MAX_REPORTED_PROBLEMS),
+      });
+    }
+
+    const archive = req.body as DataArchive;
+    const counts: Record<string, { imported: number; matched: number }> = {};
+
+    await db.transaction(async (tx) => {
+      if (mode === 'replace') {
+        // The running timer isn't archived, but it points at time blocks being replaced
+        await tx.delete(activeTimer);
+        for (const spec of Object.values(ARCHIVE_TABLES).reverse()) {
+          await tx.delete(spec.table);
+        }
+      }
+
+      const { idMap, matchedIds } = await buildIdMap(tx, archive, mode);
+
+      for (const [name, spec] of Object.entries(ARCHIVE_TABLES)) {
+        const rows = archive.tables[name] ?? [];
+        const matched = matchedIds.get(name)!;
+        const values = rows
+          .filter(row => !matched.has(String(row.id)))
+          .map(row => toInsertRow(row, spec, idMap, name, mode));
+
+        for (let i = 0; i < values.length; i += INSERT_CHUNK_SIZE) {
+          await tx.insert(spec.table).values(values.slice(i, i + INSERT_CHUNK_SIZE));
+        }
+        counts[name] = { imported: values.length, matched: matched.size };
+      }
+    });
+
+    // Archives from before the status workflow only carry the legacy task status
+    await migrateTaskStatuses();
+
+    const uploads = await writeUploads(archive.uploads ?? [], mode);
+
+    // Any table may have changed, so every open tab refetches everything
+    publishChange({ entity: 'all', clientId: req.get('X-Client-Id') || undefined });
+
+    res.json({ data: { mode, tables: counts, uploads } });
+  } catch (error) {
+    console.error('Error importing data:', error);
+    res.status(500).json({ error: 'Failed to import data', code: 'INTERNAL_ERROR' });
+  }
+});
+
+export default router;
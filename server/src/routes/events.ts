@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { subscribeToChanges } from '../events';
+
+const router = Router();
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+
+// GET /api/events - Server-Sent Events stream of change events
+router.get('/', (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  // Ask EventSource to retry quickly after the server restarts
+  res.write('retry: 5000\n\n');
+
+  const unsubscribe = subscribeToChanges(event => {
+    res.write(`event: change\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n');
+  }, HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export default router;
@@ -0,0 +1,110 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { focusSessions, timeBlocks } from '../db/schema';
+import { eq, and, gte, lte, desc, asc, sql, type SQL } from 'drizzle-orm';
+
+const router = Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Shared startDate/endDate/blockId filters; returns an error message for invalid input
+function buildFilters(query: Record<string, unknown>): SQL[] | string {
+  const { startDate, endDate, blockId } = query;
+  const conditions: SQL[] = [];
+
+  if (startDate !== undefined) {
+    if (typeof startDate !== 'string' || !DATE_PATTERN.test(startDate)) return 'startDate must be in YYYY-MM-DD format';
+    conditions.push(gte(focusSessions.date, startDate));
+  }
+  if (endDate !== undefined) {
+    if (typeof endDate !== 'string' || !DATE_PATTERN.test(endDate)) return 'endDate must be in YYYY-MM-DD format';
+    conditions.push(lte(focusSessions.date, endDate));
+  }
+  if (blockId !== undefined) {
+    if (typeof blockId !== 'string' || !UUID_PATTERN.test(blockId)) return 'blockId must be a UUID';
+    conditions.push(eq(focusSessions.blockId, blockId));
+  }
+  return conditions;
+}
+
+// GET /api/focus-sessions - List sessions, newest first (optional startDate, endDate, blockId)
+router.get('/', async (req, res) => {
+  try {
+    const conditions = buildFilters(req.query);
+    if (typeof conditions === 'string') {
+      return res.status(400).json({ error: conditions, code: 'VALIDATION_ERROR' });
+    }
+
+    const result = await db.query.focusSessions.findMany({
+      where: conditions.length > 0 ? and(...conditions) : undefined,
+      with: { block: true, task: true, priority: true },
+      orderBy: [desc(focusSessions.startedAt)],
+    });
+    res.json({ data: result, count: result.length });
+  } catch (error) {
+    console.error('Failed to fetch focus sessions:', error);
+    res.status(500).json({ error: 'Failed to fetch focus sessions', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /api/focus-sessions/totals - Focused time per day and per block (work phases only)
+router.get('/totals', async (req, res) => {
+  try {
+    const conditions = buildFilters(req.query);
+    if (typeof conditions === 'string') {
+      return res.status(400).json({ error: conditions, code: 'VALIDATION_ERROR' });
+    }
+    const where = and(eq(focusSessions.phase, 'work'), ...conditions);
+    const totalSeconds = sql<number>`coalesce(sum(${focusSessions.durationSeconds}), 0)::int`;
+    const sessionCount = sql<number>`count(*)::int`;
+
+    const byDay = await db
+      .select({ date: focusSessions.date, totalSeconds, sessionCount })
+      .from(focusSessions)
+      .where(where)
+      .groupBy(focusSessions.date)
+      .orderBy(asc(focusSessions.date));
+
+    const byBlock = await db
+      .select({ blockId: focusSessions.blockId, blockName: timeBlocks.name, totalSeconds, sessionCount })
+      .from(focusSessions)
+      .innerJoin(timeBlocks, eq(focusSessions.blockId, timeBlocks.id))
+      .where(where)
+      .groupBy(focusSessions.blockId, timeBlocks.name)
+      .orderBy(desc(totalSeconds));
+
+    res.json({
+      data: {
+        totalSeconds: byDay.reduce((sum, day) => sum + day.totalSeconds, 0),
+        sessionCount: byDay.reduce((sum, day) => sum + day.sessionCount, 0),
+        byDay,
+        byBlock,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch focus totals:', error);
+    res.status(500).json({ error: 'Failed to fetch focus totals', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// DELETE /api/focus-sessions/:id - Delete a logged session
+router.delete('/:id', async (req, res) => {
+  try {
+    if (!UUID_PATTERN.test(req.params.id)) {
+      return res.status(404).json({ error: 'Focus session not found', code: 'FOCUS_SESSION_NOT_FOUND' });
+    }
+    const [result] = await db.delete(focusSessions)
+      .where(eq(focusSessions.id, req.params.id))
+      .returning();
+    if (!result) {
+      return res.status(404).json({ error: 'Focus session not found', code: 'FOCUS_SESSION_NOT_FOUND' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error('Failed to delete focus session:', error);
+    res.status(500).json({ error: 'Failed to delete focus session', code: 'INTERNAL_ERROR' });
+  }
+});
+
+export default router;
@@ -3,8 +3,8 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import { db } from '../db';
-import { habits, habitEntries, categories } from '../db/schema';
-import { eq, and, gte, lte, desc, ilike } from 'drizzle-orm';
+import { habits, habitEntries, categories, settings } from '../db/schema';
+import { eq, and, gte, lte, desc, ilike, inArray, sql } from 'drizzle-orm';
 
 const router = Router();
 
@@ -37,60 +37,605 @@ const upload = multer({
   }
 });
 
+// Validate count-based target fields (dailyTarget, unit, maxCount)
+// Returns an error message, or null if the values are acceptable
+function validateCountTarget(dailyTarget: unknown, unit: unknown, maxCount: unknown): string | null {
+  const isPositiveInt = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+  if (dailyTarget !== undefined && dailyTarget !== null && !isPositiveInt(dailyTarget)) {
+    return 'dailyTarget must be a positive integer';
+  }
+  if (maxCount !== undefined && maxCount !== null) {
+    if (!isPositiveInt(maxCount)) {
+      return 'maxCount must be a positive integer';
+    }
+    if (!isPositiveInt(dailyTarget)) {
+      return 'maxCount requires a dailyTarget';
+    }
+    if ((maxCount as number) < (dailyTarget as number)) {
+      return 'maxCount cannot be less than dailyTarget';
+    }
+  }
+  if (unit !== undefined && unit !== null) {
+    if (typeof unit !== 'string' || unit.length > 50) {
+      return 'unit must be a string of at most 50 characters';
+    }
+  }
+  return null;
+}
+
+const SCHEDULE_TYPES = ['daily', 'weekdays', 'weekly', 'monthly', 'interval'];
+
+// Upper bound for scheduleCount per schedule type (times per week/month, or days between repeats)
+const SCHEDULE_COUNT_LIMITS: Record<string, number> = {
+  weekly: 7,
+  monthly: 31,
+  interval: 365,
+};
+
+// Validate schedule fields (scheduleType, scheduleDays, scheduleCount)
+// Returns an error message, or null if the values are acceptable
+function validateSchedule(scheduleType: unknown, scheduleDays: unknown, scheduleCount: unknown): string | null {
+  const type = scheduleType ?? 'daily';
+  if (typeof type !== 'string' || !SCHEDULE_TYPES.includes(type)) {
+    return `scheduleType must be one of: ${SCHEDULE_TYPES.join(', ')}`;
+  }
+
+  if (type === 'weekdays') {
+    if (!Array.isArray(scheduleDays) || scheduleDays.length === 0) {
+      return 'scheduleDays must be a non-empty array for weekdays schedules';
+    }
+    if (!scheduleDays.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+      return 'scheduleDays must contain weekday numbers 0-6 (0 = Sunday)';
+    }
+  }
+
+  const maxCount = SCHEDULE_COUNT_LIMITS[type];
+  if (maxCount !== undefined) {
+    if (!Number.isInteger(scheduleCount) || (scheduleCount as number) < 1 || (scheduleCount as number) > maxCount) {
+      return `scheduleCount must be an integer between 1 and ${maxCount} for ${type} schedules`;
+    }
+  }
+  return null;
+}
+
+// Normalize validated schedule fields for storage - fields that don't apply to the type are cleared
+function normalizeSchedule(scheduleType: unknown, scheduleDays: unknown, scheduleCount: unknown) {
+  const type = (scheduleType as string | null | undefined) ?? 'daily';
+  return {
+    scheduleType: type,
+    scheduleDays: type === 'weekdays' ? [...new Set(scheduleDays as number[])].sort((a, b) => a - b) : null,
+    scheduleCount: SCHEDULE_COUNT_LIMITS[type] !== undefined ? (scheduleCount as number) : null,
+  };
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const REMINDER_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/; // HH:MM, 24-hour
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Completion-rate windows reported by the stats endpoints (days, ending today)
+const STATS_WINDOWS = [7, 30, 90, 365];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface HabitStats {
+  habitId: string;
+  currentStreak: number;
+  longestStreak: number;
+  completionRates: { days: number; rate: number; earned: number; counted: number }[];
+  bestWeekday: { weekday: number; rate: number } | null; // weekday: 0 = Sunday
+  statusDistribution: Record<string, number>;
+}
+
+type ScheduleState = 'due' | 'optional' | 'off';
+type DayKind = 'hit' | 'miss' | 'skip';
+
+interface StatsHabit {
+  createdAt: Date | null;
+  dailyTarget: number | null;
+  scheduleType: string | null;
+  scheduleDays: unknown;
+  scheduleCount: number | null;
+}
+
+interface StatsEntry {
+  date: string;
+  status: string;
+  count: number | null;
+}
+
+interface HabitDay {
+  date: string;
+  kind: DayKind;
+  credit: number;
+}
+
+// Shift an ISO date string (YYYY-MM-DD) by a number of days
+function addDaysToDate(dateStr: string, days: number): string {
+  const d = new Date(`${dateStr}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+// Schedule state of a habit on a date, given the dates it was completed - mirrors getScheduleState
+// in the client habit matrix. Weekly/monthly quotas only become due once skipping the day would
+// make the quota unreachable; interval schedules are off for N-1 days after each completion.
+function getScheduleState(habit: StatsHabit, dateStr: string, completedDates: Set<string>, weekStartDay: number): ScheduleState {
+  const count = habit.scheduleCount ?? 0;
+
+  switch (habit.scheduleType) {
+    case 'weekdays': {
+      const weekday = new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+      return Array.isArray(habit.scheduleDays) && habit.scheduleDays.includes(weekday) ? 'due' : 'off';
+    }
+
+    case 'interval': {
+      for (let i = 1; i < count; i++) {
+        if (completedDates.has(addDaysToDate(dateStr, -i))) return 'off';
+      }
+      return 'due';
+    }
+
+    case 'weekly':
+    case 'monthly': {
+      if (count <= 0) return 'due';
+      let periodStart: string;
+      let periodEnd: string;
+      if (habit.scheduleType === 'weekly') {
+        const weekday = new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+        periodStart = addDaysToDate(dateStr, -((weekday - weekStartDay + 7) % 7));
+        periodEnd = addDaysToDate(periodStart, 6);
+      } else {
+        periodStart = `${dateStr.slice(0, 8)}01`;
+        periodEnd = addDaysToDate(`${addDaysToDate(periodStart, 31).slice(0, 8)}01`, -1);
+      }
+
+      let doneBefore = 0;
+      for (let d = periodStart; d < dateStr; d = addDaysToDate(d, 1)) {
+        if (completedDates.has(d)) doneBefore++;
+      }
+      if (doneBefore >= count) return 'off';
+
+      const daysAfter = Math.round((Date.parse(periodEnd) - Date.parse(dateStr)) / DAY_MS);
+      return daysAfter < count - doneBefore ? 'due' : 'optional';
+    }
+
+    default:
+      return 'due';
+  }
+}
+
+// Completion credit (0-1) an entry earns - matches getEntryCredit on the client
+// (count-based habits earn count/dailyTarget)
+function getEntryCredit(dailyTarget: number | null, entry: StatsEntry | undefined): number {
+  if (!entry) return 0;
+  if (dailyTarget && dailyTarget > 0 && entry.count && entry.count > 0) {
+    return Math.min(entry.count / dailyTarget, 1);
+  }
+  if (entry.status === 'complete' || entry.status === 'extra') return 1;
+  if (entry.status === 'partial') return 0.5;
+  return 0;
+}
+
+// One day per habit from its creation date through today, classified the way the habit matrix
+// scores it: complete/extra are hits, na/exempt are skipped, and so are empty days the habit
+// isn't due on (off or optional for its schedule) and an unfilled today. Everything else is a miss.
+function classifyHabitDays(habit: StatsHabit, entries: StatsEntry[], today: string, weekStartDay: number): HabitDay[] {
+  if (!habit.createdAt) return [];
+
+  const entriesByDate = new Map(entries.map(entry => [entry.date, entry]));
+  const completedDates = new Set(
+    entries.filter(entry => entry.status === 'complete' || entry.status === 'extra').map(entry => entry.date)
+  );
+
+  const days: HabitDay[] = [];
+  for (let date = habit.createdAt.toISOString().split('T')[0]; date <= today; date = addDaysToDate(date, 1)) {
+    const entry = entriesByDate.get(date);
+    const status = entry?.status ?? 'empty';
+
+    let kind: DayKind;
+    if (status === 'complete' || status === 'extra') {
+      kind = 'hit';
+    } else if (status === 'na' || status === 'exempt') {
+      kind = 'skip';
+    } else if (status === 'empty') {
+      kind = date === today || getScheduleState(habit, date, completedDates, weekStartDay) !== 'due' ? 'skip' : 'miss';
+    } else {
+      kind = 'miss';
+    }
+
+    days.push({ date, kind, credit: getEntryCredit(habit.dailyTarget, entry) });
+  }
+  return days;
+}
+
+// Compute streak, completion-rate, weekday and status statistics for habits
+async function computeHabitStats(habitIds: string[], today: string): Promise<HabitStats[]> {
+  if (habitIds.length === 0) return [];
+
+  const [habitRows, entryRows, weekStartSetting] = await Promise.all([
+    db.query.habits.findMany({
+      where: inArray(habits.id, habitIds),
+      columns: { id: true, createdAt: true, dailyTarget: true, scheduleType: true, scheduleDays: true, scheduleCount: true },
+    }),
+    db.query.habitEntries.findMany({
+      where: inArray(habitEntries.habitId, habitIds),
+      columns: { habitId: true, date: true, status: true, count: true },
+    }),
+    db.query.settings.findFirst({ where: eq(settings.key, 'weekStartDay') }),
+  ]);
+  const weekStartDay = Number(weekStartSetting?.value ?? 0);
+
+  return habitIds.map(habitId => {
+    const habit = habitRows.find(row => row.id === habitId);
+    const entries = entryRows.filter(row => row.habitId === habitId);
+    const days = habit ? classifyHabitDays(habit, entries, today, weekStartDay) : [];
+
+    // A miss ends a streak; skipped days neither extend nor break it
+    let currentStreak = 0;
+    let longestStreak = 0;
+    for (const day of days) {
+      if (day.kind === 'miss') {
+        currentStreak = 0;
+      } else if (day.kind === 'hit') {
+        currentStreak++;
+        longestStreak = Math.max(longestStreak, currentStreak);
+      }
+    }
+
+    const countedDays = days.filter(day => day.kind !== 'skip');
+
+    // Best weekday by average credit; ties go to the weekday with more counted days
+    const weekdays = new Map<number, { earned: number; counted: number }>();
+    for (const day of countedDays) {
+      const weekday = new Date(`${day.date}T00:00:00Z`).getUTCDay();
+      const totals = weekdays.get(weekday) ?? { earned: 0, counted: 0 };
+      totals.earned += day.credit;
+      totals.counted++;
+      weekdays.set(weekday, totals);
+    }
+    let best: { weekday: number; rate: number; counted: number } | null = null;
+    for (const [weekday, { earned, counted }] of weekdays) {
+      const rate = earned / counted;
+      if (!best || rate > best.rate || (rate === best.rate && counted > best.counted)) {
+        best = { weekday, rate, counted };
+      }
+    }
+
+    const statusDistribution: Record<string, number> = {};
+    entries
+      .filter(entry => entry.status !== 'empty')
+      .forEach(entry => { statusDistribution[entry.status] = (statusDistribution[entry.status] ?? 0) + 1; });
+
+    return {
+      habitId,
+      currentStreak,
+      longestStreak,
+      completionRates: STATS_WINDOWS.map(windowDays => {
+        const windowStart = addDaysToDate(today, -windowDays);
+        const inWindow = countedDays.filter(day => day.date > windowStart);
+        const earned = inWindow.reduce((sum, day) => sum + day.credit, 0);
+        const counted = inWindow.length;
+        return {
+          days: windowDays,
+          rate: counted > 0 ? Math.round((earned / counted) * 100) : 0,
+          earned,
+          counted,
+        };
+      }),
+      bestWeekday: best ? { weekday: best.weekday, rate: Math.round(best.rate * 100) } : null,
+      statusDistribution,
+    };
+  });
+}
+
+// Resolve the "today" used for stats - clients pass their effective date (day boundary aware)
+function getStatsToday(value: unknown): string | null {
+  if (value === undefined) return new Date().toISOString().split('T')[0];
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return null;
+  return value;
+}
+
 // Markdown import parser
+//
+//   # Category                      -> category
+//   ## Group                        -> parent habit in the category
+//   - Habit                         -> habit (a child of the group, if under one)
+//     - Sub-habit                   -> child of the bullet above (outside groups)
+//
+// Files without any "# " heading use the original flat format, where "## " is the category.
+// Habit lines (and group headings) accept annotations:
+//   @icon:material:Name @color:#hex
+//   @target:8 @unit:glasses @max:10        count-based daily target
+//   @goal:90% @warning:75%                 completion % for green / yellow-red boundary
+//   @schedule:daily | weekdays:mon,wed,fri | weekly:3 | monthly:4 | interval:2
+//   @active:false @lowfreq:true            inactive / gray when missed but on track
+//   @remind:08:30                          browser reminder time while unmarked
+// Values containing spaces are quoted: @unit:"fl oz"
 interface ParsedHabit {
+  line: number;
   name: string;
+  categoryName?: string;
+  parentIndex?: number; // Index of the parent habit in the parsed list
   icon?: string;
   iconColor?: string;
-  categoryName?: string;
+  isActive?: boolean;
+  targetPercentage?: number;
+  warningPercentage?: number;
+  grayMissedWhenOnTrack?: boolean;
+  dailyTarget?: number;
+  unit?: string;
+  maxCount?: number;
+  scheduleType?: string;
+  scheduleDays?: number[] | null;
+  scheduleCount?: number | null;
+  reminderTime?: string;
+}
+
+interface SkippedLine {
+  line: number;
+  text: string;
+  reason: string;
+}
+
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const ANNOTATION_PATTERN = /@(\w+):("[^"]*"|\S+)/g;
+const DEFAULT_TARGET_PERCENTAGE = 90;
+const DEFAULT_WARNING_PERCENTAGE = 75;
+
+function parsePercentage(value: string): number | null {
+  const percentage = Number(value.replace(/%$/, ''));
+  return Number.isInteger(percentage) && percentage >= 1 && percentage <= 100 ? percentage : null;
+}
+
+function parseBoolean(value: string): boolean | null {
+  if (/^(true|yes)$/i.test(value)) return true;
+  if (/^(false|no)$/i.test(value)) return false;
+  return null;
 }
 
-function parseMarkdownHabits(markdown: string): ParsedHabit[] {
-  const lines = markdown.split('\n');
+// Parse "@schedule:" values into the schedule fields, or return an error message
+function parseScheduleAnnotation(value: string): Pick<ParsedHabit, 'scheduleType' | 'scheduleDays' | 'scheduleCount'> | string {
+  const [type, arg] = value.toLowerCase().split(':');
+  let scheduleDays: unknown;
+  let scheduleCount: unknown;
+
+  if (type === 'weekdays') {
+    scheduleDays = (arg ?? '').split(',').filter(Boolean).map(day =>
+      /^\d$/.test(day) ? Number(day) : WEEKDAY_NAMES.indexOf(day.slice(0, 3))
+    );
+  } else if (arg !== undefined) {
+    scheduleCount = Number(arg);
+  }
+
+  const error = validateSchedule(type, scheduleDays, scheduleCount);
+  return error ?? normalizeSchedule(type, scheduleDays, scheduleCount);
+}
+
+// Split annotations off a habit line. Returns the habit fields, or an error message.
+function parseHabitAnnotations(text: string): Omit<ParsedHabit, 'line' | 'categoryName' | 'parentIndex'> | string {
+  const habit: Omit<ParsedHabit, 'line' | 'categoryName' | 'parentIndex'> = { name: '' };
+
+  for (const [, key, rawValue] of text.matchAll(ANNOTATION_PATTERN)) {
+    const value = rawValue.replace(/^"(.*)"$/, '$1');
+    switch (key.toLowerCase()) {
+      case 'icon':
+        habit.icon = value;
+        break;
+      case 'color':
+        if (!/^#[0-9a-fA-F]{3,6}$/.test(value)) return `Invalid color "${value}"`;
+        habit.iconColor = value;
+        break;
+      case 'goal':
+        habit.targetPercentage = parsePercentage(value) ?? undefined;
+        if (habit.targetPercentage === undefined) return `Invalid goal "${value}" (use 1-100%)`;
+        break;
+      case 'warning':
+        habit.warningPercentage = parsePercentage(value) ?? undefined;
+        if (habit.warningPercentage === undefined) return `Invalid warning "${value}" (use 1-100%)`;
+        break;
+      case 'active':
+        habit.isActive = parseBoolean(value) ?? undefined;
+        if (habit.isActive === undefined) return `Invalid active "${value}" (use true or false)`;
+        break;
+      case 'lowfreq':
+        habit.grayMissedWhenOnTrack = parseBoolean(value) ?? undefined;
+        if (habit.grayMissedWhenOnTrack === undefined) return `Invalid lowfreq "${value}" (use true or false)`;
+        break;
+      case 'target':
+        habit.dailyTarget = Number(value);
+        break;
+      case 'unit':
+        habit.unit = value;
+        break;
+      case 'max':
+        habit.maxCount = Number(value);
+        break;
+      case 'remind':
+        if (!REMINDER_TIME_PATTERN.test(value)) return `Invalid reminder time "${value}" (use HH:MM)`;
+        habit.reminderTime = value;
+        break;
+      case 'schedule': {
+        const schedule = parseScheduleAnnotation(value);
+        if (typeof schedule === 'string') return schedule;
+        Object.assign(habit, schedule);
+        break;
+      }
+      default:
+        return `Unknown annotation @${key}`;
+    }
+  }
+
+  const countTargetError = validateCountTarget(habit.dailyTarget, habit.unit, habit.maxCount);
+  if (countTargetError) return countTargetError;
+
+  habit.name = text.replace(ANNOTATION_PATTERN, '').replace(/\s+/g, ' ').trim();
+  if (!habit.name) return 'Missing habit name';
+  return habit;
+}
+
+function parseMarkdownHabits(markdown: string): { habits: ParsedHabit[]; skipped: SkippedLine[] } {
+  const lines = markdown.split(/\r?\n/);
   const parsedHabits: ParsedHabit[] = [];
+  const skipped: SkippedLine[] = [];
+  const seen = new Map<string, number>(); // category|parent|name -> line number, to catch duplicates
+  const hierarchical = lines.some(line => /^#\s+/.test(line.trim()));
+
   let currentCategory: string | undefined;
+  let categoryHeading: { line: number; text: string; habitCount: number } | undefined;
+  let groupIndex: number | undefined; // Current "## Group" parent habit
+  let bulletIndex: number | undefined; // Last top-level bullet, parent for indented bullets
 
-  for (const line of lines) {
-    const trimmed = line.trim();
-
-    // Check for category header (## Category Name)
-    const categoryMatch = trimmed.match(/^##\s+(.+)$/);
-    if (categoryMatch) {
-      currentCategory = categoryMatch[1].trim();
-      continue;
-    }
-
-    // Check for habit item (- Habit Name @icon:name @color:#hex)
-    const habitMatch = trimmed.match(/^[-*]\s+(.+)$/);
-    if (habitMatch) {
-      const habitLine = habitMatch[1];
-
-      // Extract @icon:value
-      const iconMatch = habitLine.match(/@icon:(\S+)/);
-      const icon = iconMatch ? iconMatch[1] : undefined;
-
-      // Extract @color:#hex
-      const colorMatch = habitLine.match(/@color:(#[0-9a-fA-F]{3,6})/);
-      const iconColor = colorMatch ? colorMatch[1] : undefined;
-
-      // Remove tags from name
-      const name = habitLine
-        .replace(/@icon:\S+/g, '')
-        .replace(/@color:\S+/g, '')
-        .trim();
-
-      if (name) {
-        parsedHabits.push({
-          name,
-          icon,
-          iconColor,
-          categoryName: currentCategory,
-        });
-      }
+  const closeCategory = () => {
+    if (categoryHeading && categoryHeading.habitCount === 0) {
+      skipped.push({ line: categoryHeading.line, text: categoryHeading.text, reason: 'Category has no habits' });
+    }
+  };
+
+  const addHabit = (lineNumber: number, text: string, content: string, parentIndex?: number): number | undefined => {
+    const parsed = parseHabitAnnotations(content);
+    if (typeof parsed === 'string') {
+      skipped.push({ line: lineNumber, text, reason: parsed });
+      return undefined;
+    }
+
+    const key = `${currentCategory?.toLowerCase() ?? ''}|${parentIndex ?? ''}|${parsed.name.toLowerCase()}`;
+    const duplicateOf = seen.get(key);
+    if (duplicateOf !== undefined) {
+      skipped.push({ line: lineNumber, text, reason: `Duplicate of line ${duplicateOf}` });
+      return undefined;
+    }
+    seen.set(key, lineNumber);
+
+    if (categoryHeading) categoryHeading.habitCount++;
+    parsedHabits.push({ ...parsed, line: lineNumber, categoryName: currentCategory, parentIndex });
+    return parsedHabits.length - 1;
+  };
+
+  lines.forEach((rawLine, i) => {
+    const lineNumber = i + 1;
+    const line = rawLine.replace(/\t/g, '  ');
+    const text = line.trim();
+    if (!text) return;
+
+    const heading = text.match(/^(#+)\s+(.+)$/);
+    const isCategoryHeading = heading && heading[1].length === (hierarchical ? 1 : 2);
+    if (isCategoryHeading) {
+      closeCategory();
+      currentCategory = heading[2].trim();
+      categoryHeading = { line: lineNumber, text, habitCount: 0 };
+      groupIndex = undefined;
+      bulletIndex = undefined;
+      return;
+    }
+
+    if (heading && hierarchical && heading[1].length === 2) {
+      groupIndex = addHabit(lineNumber, text, heading[2]);
+      bulletIndex = undefined;
+      return;
+    }
+
+    if (heading) {
+      skipped.push({ line: lineNumber, text, reason: 'Unsupported heading level' });
+      return;
+    }
+
+    const bullet = line.match(/^(\s*)[-*]\s+(.+)$/);
+    if (!bullet) {
+      skipped.push({ line: lineNumber, text, reason: 'Not a heading or list item' });
+      return;
+    }
+
+    const isIndented = bullet[1].length >= 2;
+    if (!isIndented) {
+      const index = addHabit(lineNumber, text, bullet[2], groupIndex);
+      bulletIndex = groupIndex === undefined ? index : undefined;
+    } else if (groupIndex !== undefined) {
+      skipped.push({ line: lineNumber, text, reason: 'Too deeply nested (habits have one level of children)' });
+    } else if (bulletIndex !== undefined) {
+      addHabit(lineNumber, text, bullet[2], bulletIndex);
+    } else {
+      skipped.push({ line: lineNumber, text, reason: 'Indented item has no parent habit' });
     }
+  });
+  closeCategory();
+
+  return { habits: parsedHabits, skipped };
+}
+
+type HabitRow = typeof habits.$inferSelect;
+type CategoryRow = typeof categories.$inferSelect;
+
+function bySortOrder(a: { sortOrder: number | null; name: string }, b: { sortOrder: number | null; name: string }) {
+  return (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.name.localeCompare(b.name);
+}
+
+// Quote values containing whitespace so they survive the round trip
+function formatAnnotation(key: string, value: string | number | boolean): string {
+  const text = String(value);
+  return /\s/.test(text) ? `@${key}:"${text}"` : `@${key}:${text}`;
+}
+
+// Annotations for a habit's non-default fields - the inverse of parseHabitAnnotations
+function formatHabitAnnotations(habit: HabitRow): string[] {
+  const annotations: string[] = [];
+  if (habit.icon) annotations.push(formatAnnotation('icon', habit.icon));
+  if (habit.iconColor) annotations.push(formatAnnotation('color', habit.iconColor));
+  if (habit.dailyTarget) annotations.push(formatAnnotation('target', habit.dailyTarget));
+  if (habit.unit) annotations.push(formatAnnotation('unit', habit.unit));
+  if (habit.maxCount) annotations.push(formatAnnotation('max', habit.maxCount));
+  if (habit.targetPercentage !== null && habit.targetPercentage !== DEFAULT_TARGET_PERCENTAGE) {
+    annotations.push(formatAnnotation('goal', `${habit.targetPercentage}%`));
+  }
+  if (habit.warningPercentage !== null && habit.warningPercentage !== DEFAULT_WARNING_PERCENTAGE) {
+    annotations.push(formatAnnotation('warning', `${habit.warningPercentage}%`));
+  }
+
+  const scheduleType = habit.scheduleType ?? 'daily';
+  if (scheduleType === 'weekdays') {
+    const days = (habit.scheduleDays as number[] | null) ?? [];
+    annotations.push(formatAnnotation('schedule', `weekdays:${days.map(day => WEEKDAY_NAMES[day]).join(',')}`));
+  } else if (scheduleType !== 'daily') {
+    annotations.push(formatAnnotation('schedule', `${scheduleType}:${habit.scheduleCount}`));
+  }
+
+  if (habit.reminderTime) annotations.push(formatAnnotation('remind', habit.reminderTime));
+  if (habit.isActive === false) annotations.push(formatAnnotation('active', false));
+  if (habit.grayMissedWhenOnTrack) annotations.push(formatAnnotation('lowfreq', true));
+  return annotations;
+}
+
+// Render habits in the dialect parseMarkdownHabits reads: uncategorized habits first, then
+// "# Category" sections, each habit a bullet with its children indented below it, in sort order
+function formatMarkdownHabits(habitList: HabitRow[], categoryList: CategoryRow[]): string {
+  const ids = new Set(habitList.map(h => h.id));
+  const isTopLevel = (habit: HabitRow) => !habit.parentHabitId || !ids.has(habit.parentHabitId);
+  const bullet = (habit: HabitRow, indent: string) =>
+    `${indent}- ${[habit.name, ...formatHabitAnnotations(habit)].join(' ')}`;
+
+  const section = (categoryId: string | null): string[] => habitList
+    .filter(h => isTopLevel(h) && (h.categoryId ?? null) === categoryId)
+    .sort(bySortOrder)
+    .flatMap(habit => [
+      bullet(habit, ''),
+      ...habitList.filter(child => child.parentHabitId === habit.id).sort(bySortOrder).map(child => bullet(child, '  ')),
+    ]);
+
+  const blocks: string[] = [];
+  const uncategorized = section(null);
+  if (uncategorized.length > 0) blocks.push(uncategorized.join('\n'));
+
+  // Habits in deleted categories are listed under their category name all the same
+  for (const category of [...categoryList].sort(bySortOrder)) {
+    const lines = section(category.id);
+    if (lines.length > 0) blocks.push([`# ${category.name}`, ...lines].join('\n'));
   }
 
-  return parsedHabits;
+  return blocks.join('\n\n') + '\n';
+}
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
 }
 
 // GET /api/habits - List all habits (with optional category filter)
@@ -131,6 +676,103 @@ router.get('/', async (req, res) => {
   }
 });
 
+// GET /api/habits/stats - Get statistics for multiple habits (?ids=a,b; defaults to all habits)
+router.get('/stats', async (req, res) => {
+  try {
+    const today = getStatsToday(req.query.today);
+    if (!today) {
+      return res.status(400).json({ error: 'today must be a date in YYYY-MM-DD format', code: 'VALIDATION_ERROR' });
+    }
+
+    let habitIds: string[];
+    if (typeof req.query.ids === 'string' && req.query.ids.length > 0) {
+      habitIds = req.query.ids.split(',');
+      if (!habitIds.every(id => UUID_PATTERN.test(id))) {
+        return res.status(400).json({ error: 'ids must be a comma-separated list of habit IDs', code: 'VALIDATION_ERROR' });
+      }
+    } else {
+      const allHabits = await db.query.habits.findMany({
+        where: eq(habits.isDeleted, false),
+        columns: { id: true },
+      });
+      habitIds = allHabits.map(h => h.id);
+    }
+
+    const result = await computeHabitStats(habitIds, today);
+    res.json({ data: result, count: result.length });
+  } catch (error) {
+    console.error('Failed to fetch habit stats:', error);
+    res.status(500).json({ error: 'Failed to fetch habit stats', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// GET /api/habits/export?format=markdown|csv - Export habits as markdown that POST /import reads back,
+// or habit entries as CSV (optional startDate/endDate, inclusive)
+router.get('/export', async (req, res) => {
+  try {
+    const format = req.query.format ?? 'markdown';
+    if (format !== 'markdown' && format !== 'csv') {
+      return res.status(400).json({ error: 'format must be markdown or csv', code: 'VALIDATION_ERROR' });
+    }
+
+    const { startDate, endDate } = req.query;
+    for (const value of [startDate, endDate]) {
+      if (value !== undefined && (typeof value !== 'string' || !DATE_PATTERN.test(value))) {
+        return res.status(400).json({ error: 'startDate and endDate must be dates in YYYY-MM-DD format', code: 'VALIDATION_ERROR' });
+      }
+    }
+
+    const habitList = await db.query.habits.findMany({
+      where: eq(habits.isDeleted, false),
+    });
+    const categoryList = await db.query.categories.findMany();
+
+    if (format === 'markdown') {
+      res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="habits.md"');
+      return res.send(formatMarkdownHabits(habitList, categoryList));
+    }
+
+    const conditions = [sql`${habitEntries.status} <> 'empty'`];
+    if (startDate) conditions.push(gte(habitEntries.date, startDate as string));
+    if (endDate) conditions.push(lte(habitEntries.date, endDate as string));
+    const entries = await db.query.habitEntries.findMany({
+      where: and(...conditions),
+      orderBy: [habitEntries.date],
+    });
+
+    const habitById = new Map(habitList.map(h => [h.id, h]));
+    const categoryNames = new Map(categoryList.map(c => [c.id, c.name]));
+    const habitOrder = new Map([...habitList].sort(bySortOrder).map((h, index) => [h.id, index]));
+
+    const rows = entries
+      .filter(entry => habitById.has(entry.habitId))
+      .sort((a, b) => a.date.localeCompare(b.date) || habitOrder.get(a.habitId)! - habitOrder.get(b.habitId)!)
+      .map(entry => {
+        const habit = habitById.get(entry.habitId)!;
+        const parent = habit.parentHabitId ? habitById.get(habit.parentHabitId) : undefined;
+        return [
+          entry.date,
+          habit.categoryId ? categoryNames.get(habit.categoryId) : '',
+          parent?.name,
+          habit.name,
+          entry.status,
+          entry.count,
+          entry.notes,
+          habit.id,
+        ].map(csvField).join(',');
+      });
+
+    const range = startDate || endDate ? `_${startDate ?? 'start'}_${endDate ?? 'end'}` : '';
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="habit-entries${range}.csv"`);
+    res.send(['date,category,parent_habit,habit,status,count,notes,habit_id', ...rows].join('\n') + '\n');
+  } catch (error) {
+    console.error('Failed to export habits:', error);
+    res.status(500).json({ error: 'Failed to export habits', code: 'INTERNAL_ERROR' });
+  }
+});
+
 // GET /api/habits/:id - Get single habit
 router.get('/:id', async (req, res) => {
   try {
@@ -148,15 +790,56 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+// GET /api/habits/:id/stats - Get streak and consistency statistics for a habit
+router.get('/:id/stats', async (req, res) => {
+  try {
+    const today = getStatsToday(req.query.today);
+    if (!today) {
+      return res.status(400).json({ error: 'today must be a date in YYYY-MM-DD format', code: 'VALIDATION_ERROR' });
+    }
+    if (!UUID_PATTERN.test(req.params.id)) {
+      return res.status(404).json({ error: 'Habit not found', code: 'HABIT_NOT_FOUND' });
+    }
+
+    const habit = await db.query.habits.findFirst({
+      where: eq(habits.id, req.params.id),
+      columns: { id: true },
+    });
+    if (!habit) {
+      return res.status(404).json({ error: 'Habit not found', code: 'HABIT_NOT_FOUND' });
+    }
+
+    const [result] = await computeHabitStats([habit.id], today);
+    res.json({ data: result });
+  } catch (error) {
+    console.error('Failed to fetch habit stats:', error);
+    res.status(500).json({ error: 'Failed to fetch habit stats', code: 'INTERNAL_ERROR' });
+  }
+});
+
 // POST /api/habits - Create habit
 router.post('/', async (req, res) => {
   try {
-    const { name, categoryId, parentHabitId, icon, iconColor, isActive, sortOrder, targetPercentage, warningPercentage, grayMissedWhenOnTrack } = req.body;
+    const { name, categoryId, parentHabitId, icon, iconColor, isActive, sortOrder, targetPercentage, warningPercentage, grayMissedWhenOnTrack, dailyTarget, unit, maxCount, scheduleType, scheduleDays, scheduleCount, reminderTime } = req.body;
 
     if (!name) {
       return res.status(400).json({ error: 'Name is required', code: 'VALIDATION_ERROR' });
     }
 
+    const countTargetError = validateCountTarget(dailyTarget, unit, maxCount);
+    if (countTargetError) {
+      return res.status(400).json({ error: countTargetError, code: 'VALIDATION_ERROR' });
+    }
+
+    const scheduleError = validateSchedule(scheduleType, scheduleDays, scheduleCount);
+    if (scheduleError) {
+      return res.status(400).json({ error: scheduleError, code: 'VALIDATION_ERROR' });
+    }
+
+    if (reminderTime !== undefined && reminderTime !== null && !REMINDER_TIME_PATTERN.test(reminderTime)) {
+      return res.status(400).json({ error: 'reminderTime must be a time in HH:MM format', code: 'VALIDATION_ERROR' });
+    }
+
     // Validate parent exists if provided
     if (parentHabitId) {
       const parent = await db.query.habits.findFirst({
@@ -178,6 +861,11 @@ router.post('/', async (req, res) => {
       targetPercentage: targetPercentage ?? 90,
       warningPercentage: warningPercentage ?? 75,
       grayMissedWhenOnTrack: grayMissedWhenOnTrack ?? false,
+      dailyTarget: dailyTarget ?? null,
+      unit: unit || null,
+      maxCount: maxCount ?? null,
+      ...normalizeSchedule(scheduleType, scheduleDays, scheduleCount),
+      reminderTime: reminderTime || null,
     }).returning();
     res.status(201).json({ data: result });
   } catch (error) {
@@ -189,7 +877,46 @@ router.post('/', async (req, res) => {
 // PUT /api/habits/:id - Update habit
 router.put('/:id', async (req, res) => {
   try {
-    const { name, categoryId, parentHabitId, icon, iconColor, isActive, sortOrder, targetPercentage, warningPercentage, grayMissedWhenOnTrack } = req.body;
+    const { name, categoryId, parentHabitId, icon, iconColor, isActive, sortOrder, targetPercentage, warningPercentage, grayMissedWhenOnTrack, dailyTarget, unit, maxCount, scheduleType, scheduleDays, scheduleCount, reminderTime } = req.body;
+
+    const hasCountTargetChange = dailyTarget !== undefined || unit !== undefined || maxCount !== undefined;
+    const hasScheduleChange = scheduleType !== undefined || scheduleDays !== undefined || scheduleCount !== undefined;
+
+    if (reminderTime !== undefined && reminderTime !== null && !REMINDER_TIME_PATTERN.test(reminderTime)) {
+      return res.status(400).json({ error: 'reminderTime must be a time in HH:MM format', code: 'VALIDATION_ERROR' });
+    }
+
+    // Validate count target and schedule against the stored values for any fields not being changed
+    let schedule: ReturnType<typeof normalizeSchedule> | undefined;
+    if (hasCountTargetChange || hasScheduleChange) {
+      const existing = await db.query.habits.findFirst({
+        where: eq(habits.id, req.params.id),
+      });
+      if (!existing) {
+        return res.status(404).json({ error: 'Habit not found', code: 'HABIT_NOT_FOUND' });
+      }
+      const countTargetError = validateCountTarget(
+        dailyTarget !== undefined ? dailyTarget : existing.dailyTarget,
+        unit !== undefined ? unit : existing.unit,
+        maxCount !== undefined ? maxCount : existing.maxCount,
+      );
+      if (countTargetError) {
+        return res.status(400).json({ error: countTargetError, code: 'VALIDATION_ERROR' });
+      }
+
+      if (hasScheduleChange) {
+        const mergedSchedule = [
+          scheduleType !== undefined ? scheduleType : existing.scheduleType,
+          scheduleDays !== undefined ? scheduleDays : existing.scheduleDays,
+          scheduleCount !== undefined ? scheduleCount : existing.scheduleCount,
+        ] as const;
+        const scheduleError = validateSchedule(...mergedSchedule);
+        if (scheduleError) {
+          return res.status(400).json({ error: scheduleError, code: 'VALIDATION_ERROR' });
+        }
+        schedule = normalizeSchedule(...mergedSchedule);
+      }
+    }
 
     // Validate parent exists if provided and prevent circular reference
     if (parentHabitId !== undefined && parentHabitId !== null) {
@@ -216,6 +943,11 @@ router.put('/:id', async (req, res) => {
         targetPercentage: targetPercentage !== undefined ? targetPercentage : undefined,
         warningPercentage: warningPercentage !== undefined ? warningPercentage : undefined,
         grayMissedWhenOnTrack: grayMissedWhenOnTrack !== undefined ? grayMissedWhenOnTrack : undefined,
+        dailyTarget: dailyTarget !== undefined ? dailyTarget : undefined,
+        unit: unit !== undefined ? (unit || null) : undefined,
+        maxCount: maxCount !== undefined ? maxCount : undefined,
+        ...schedule,
+        reminderTime: reminderTime !== undefined ? (reminderTime || null) : undefined,
         updatedAt: new Date(),
       })
       .where(eq(habits.id, req.params.id))
@@ -247,10 +979,12 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
-// POST /api/habits/:id/entries - Create/update habit entry for a date
+// POST /api/habits/:id/entries - Create/update habit entry for a date (409 CONFLICT on stale baseUpdatedAt)
 router.post('/:id/entries', async (req, res) => {
   try {
-    const { date, status, notes, count } = req.body;
+    // baseUpdatedAt is sent when replaying an offline update: the entry's updatedAt as the
+    // client last saw it (null = no entry yet). A newer entry on the server is a conflict.
+    const { date, status, notes, count, baseUpdatedAt } = req.body;
 
     if (!date) {
       return res.status(400).json({ error: 'Date is required', code: 'VALIDATION_ERROR' });
@@ -269,6 +1003,14 @@ router.post('/:id/entries', async (req, res) => {
       where: and(eq(habitEntries.habitId, req.params.id), eq(habitEntries.date, date)),
     });
 
+    if (existing && baseUpdatedAt !== undefined) {
+      const changedSince = baseUpdatedAt === null ||
+        (existing.updatedAt !== null && existing.updatedAt.getTime() > new Date(baseUpdatedAt).getTime());
+      if (changedSince) {
+        return res.status(409).json({ error: 'Entry was changed since this update was made', code: 'CONFLICT', data: existing });
+      }
+    }
+
     let result;
     if (existing) {
       [result] = await db.update(habitEntries)
@@ -338,84 +1080,108 @@ router.patch('/:id/restore', async (req, res) => {
   }
 });
 
-// POST /api/habits/import - Bulk import habits from markdown
+// POST /api/habits/import - Bulk import habits from markdown (dryRun: true previews the diff without writing)
 router.post('/import', async (req, res) => {
   try {
-    const { markdown } = req.body;
+    const { markdown, dryRun } = req.body;
 
     if (!markdown || typeof markdown !== 'string') {
       return res.status(400).json({ error: 'Markdown content is required', code: 'VALIDATION_ERROR' });
     }
 
-    const parsedHabits = parseMarkdownHabits(markdown);
+    const { habits: parsedHabits, skipped } = parseMarkdownHabits(markdown);
 
     if (parsedHabits.length === 0) {
       return res.status(400).json({
-        error: 'No habits found in markdown. Use format: ## Category\\n- Habit Name @icon:name @color:#hex',
+        error: 'No habits found in markdown. Use format: # Category\\n## Group\\n- Habit Name @icon:name @color:#hex',
         code: 'VALIDATION_ERROR'
       });
     }
 
-    // Track categories to create/find
-    const categoryMap = new Map<string, string>(); // name -> id
-    const createdCategories: string[] = [];
-    const createdHabits: string[] = [];
+    // Match against existing categories and habits (case-insensitive names)
+    const existingCategories = await db.query.categories.findMany({
+      where: eq(categories.isDeleted, false),
+    });
+    const existingHabits = await db.query.habits.findMany({
+      where: eq(habits.isDeleted, false),
+    });
 
-    // Get max sort order for habits
-    const allHabits = await db.query.habits.findMany();
-    let maxSortOrder = Math.max(0, ...allHabits.map(h => h.sortOrder || 0));
+    const categoryIds = new Map<string, string | undefined>(); // name -> existing id (undefined = new)
+    for (const parsed of parsedHabits) {
+      if (!parsed.categoryName || categoryIds.has(parsed.categoryName)) continue;
+      const existing = existingCategories.find(c => c.name.toLowerCase() === parsed.categoryName!.toLowerCase());
+      categoryIds.set(parsed.categoryName, existing?.id);
+    }
 
-    // Process each parsed habit
+    // A habit matches an existing one with the same name, category and parent
+    const existingIds: (string | undefined)[] = [];
     for (const parsed of parsedHabits) {
-      let categoryId: string | undefined;
-
-      // Handle category
-      if (parsed.categoryName) {
-        // Check cache first
-        if (categoryMap.has(parsed.categoryName)) {
-          categoryId = categoryMap.get(parsed.categoryName);
-        } else {
-          // Look for existing category
-          const existingCategory = await db.query.categories.findFirst({
-            where: eq(categories.name, parsed.categoryName),
-          });
-
-          if (existingCategory) {
-            categoryId = existingCategory.id;
-          } else {
-            // Create new category
-            const [newCategory] = await db.insert(categories).values({
-              name: parsed.categoryName,
-              sortOrder: 0,
-            }).returning();
-            categoryId = newCategory.id;
-            createdCategories.push(parsed.categoryName);
-          }
-          categoryMap.set(parsed.categoryName, categoryId!);
-        }
-      }
+      const categoryId = parsed.categoryName ? categoryIds.get(parsed.categoryName) : null;
+      const parentId = parsed.parentIndex !== undefined ? existingIds[parsed.parentIndex] : null;
+      const hasNewAncestor = categoryId === undefined || parentId === undefined;
+      const existing = hasNewAncestor ? undefined : existingHabits.find(h =>
+        h.name.toLowerCase() === parsed.name.toLowerCase() &&
+        (h.categoryId ?? null) === categoryId &&
+        (h.parentHabitId ?? null) === parentId
+      );
+      existingIds.push(existing?.id);
+    }
 
-      // Create habit
-      maxSortOrder++;
-      const [newHabit] = await db.insert(habits).values({
+    const diff = {
+      categories: [...categoryIds].map(([name, id]) => ({ name, status: id ? 'matched' : 'new' })),
+      habits: parsedHabits.map((parsed, index) => ({
+        line: parsed.line,
         name: parsed.name,
-        categoryId,
-        icon: parsed.icon,
-        iconColor: parsed.iconColor,
-        sortOrder: maxSortOrder,
-      }).returning();
-
-      createdHabits.push(parsed.name);
+        categoryName: parsed.categoryName ?? null,
+        parentName: parsed.parentIndex !== undefined ? parsedHabits[parsed.parentIndex].name : null,
+        status: existingIds[index] ? 'matched' : 'new',
+      })),
+      skipped,
+    };
+    const newHabitCount = existingIds.filter(id => !id).length;
+    const newCategoryCount = diff.categories.filter(c => c.status === 'new').length;
+
+    if (dryRun) {
+      return res.json({
+        data: { dryRun: true, ...diff },
+        message: `Would import ${newHabitCount} habits and ${newCategoryCount} new categories`,
+      });
     }
 
+    await db.transaction(async (tx) => {
+      // Create missing categories
+      for (const [name, id] of categoryIds) {
+        if (id) continue;
+        const [newCategory] = await tx.insert(categories).values({ name, sortOrder: 0 }).returning();
+        categoryIds.set(name, newCategory.id);
+      }
+
+      // Parents always precede their children in the file, so their ids are known by then
+      const habitIds = [...existingIds];
+      let maxSortOrder = Math.max(0, ...existingHabits.map(h => h.sortOrder || 0));
+      for (const [index, parsed] of parsedHabits.entries()) {
+        if (habitIds[index]) continue;
+
+        maxSortOrder++;
+        const { line, categoryName, parentIndex, ...fields } = parsed;
+        const [newHabit] = await tx.insert(habits).values({
+          ...fields,
+          categoryId: categoryName ? categoryIds.get(categoryName) : undefined,
+          parentHabitId: parentIndex !== undefined ? habitIds[parentIndex] : undefined,
+          sortOrder: maxSortOrder,
+        }).returning();
+        habitIds[index] = newHabit.id;
+      }
+    });
+
     res.status(201).json({
       data: {
-        habitsCreated: createdHabits.length,
-        categoriesCreated: createdCategories.length,
-        habits: createdHabits,
-        categories: createdCategories,
+        dryRun: false,
+        habitsCreated: newHabitCount,
+        categoriesCreated: newCategoryCount,
+        ...diff,
       },
-      message: `Imported ${createdHabits.length} habits and ${createdCategories.length} new categories`,
+      message: `Imported ${newHabitCount} habits and ${newCategoryCount} new categories`,
     });
   } catch (error) {
     console.error('Failed to import habits:', error);
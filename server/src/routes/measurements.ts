@@ -1,10 +1,367 @@
 import { Router } from 'express';
 import { db } from '../db';
 import { measurements, measurementEntries, measurementTargets } from '../db/schema';
-import { eq, and, gte, lte, desc, asc } from 'drizzle-orm';
+import { eq, and, gte, lte, desc, asc, inArray, isNotNull } from 'drizzle-orm';
+import { parseFormula, evaluateFormula, FormulaError, type WindowFunction } from '../formula';
+import {
+  parseCsv,
+  tableFromRecords,
+  prepareImport,
+  ImportError,
+  DEDUPE_POLICIES,
+  DATE_ORDERS,
+  type DedupePolicy,
+  type DateOrder,
+  type SkippedRow,
+} from '../measurementImport';
 
 const router = Router();
 
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 1000 * 60 * 60 * 24;
+const DEFAULT_TREND_WINDOW_DAYS = 7; // Rolling average window
+const DEFAULT_PACE_DAYS = 28; // Recent entries the pace forecast is fitted to
+const EXISTING_ENTRY_POLICIES = ['replace', 'skip'] as const; // Import: what to do with days that already have an entry
+const MAX_REPORTED_SKIPS = 100;
+const INSERT_CHUNK_SIZE = 500; // Stay well under the Postgres bind parameter limit
+const ON_TRACK_TOLERANCE = 0.05; // Share of the planned change either side of the target line that counts as on track
+const MAX_PROJECTION_DAYS = 365 * 5; // Further out than this the goal isn't reachable at the current pace
+
+interface Point {
+  date: string;
+  value: number;
+}
+
+type TargetRow = typeof measurementTargets.$inferSelect;
+type MeasurementRow = typeof measurements.$inferSelect;
+type FormulaVariables = Record<string, string>; // Formula variable name -> source measurement id
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+interface LineFit {
+  intercept: number;
+  slope: number;
+}
+
+// Days since the epoch for a YYYY-MM-DD date (UTC, so DST never shifts it)
+function toDayNumber(date: string): number {
+  return Math.round(new Date(`${date}T00:00:00Z`).getTime() / DAY_MS);
+}
+
+function fromDayNumber(day: number): string {
+  return new Date(day * DAY_MS).toISOString().split('T')[0];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Straight line between two values over a date range, one point per day
+function buildLine(startDate: string, endDate: string, startValue: number, endValue: number): Point[] {
+  const startDay = toDayNumber(startDate);
+  const totalDays = toDayNumber(endDate) - startDay;
+  const line: Point[] = [];
+  for (let i = 0; i <= totalDays; i++) {
+    const progress = totalDays > 0 ? i / totalDays : 1;
+    line.push({ date: fromDayNumber(startDay + i), value: round2(startValue + (endValue - startValue) * progress) });
+  }
+  return line;
+}
+
+// Mean of the entries in the window of days ending at each entry
+function rollingAverage(entries: Point[], windowDays: number): Point[] {
+  return entries.map((entry, index) => {
+    const windowStart = toDayNumber(entry.date) - windowDays + 1;
+    const inWindow = entries.slice(0, index + 1).filter(e => toDayNumber(e.date) >= windowStart);
+    return { date: entry.date, value: round2(inWindow.reduce((sum, e) => sum + e.value, 0) / inWindow.length) };
+  });
+}
+
+// Least-squares line through (x, y) points; null without two distinct x values
+function fitLine(xs: number[], ys: number[]): LineFit | null {
+  const n = xs.length;
+  if (n < 2) return null;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+  }
+  if (sxx === 0) return null;
+  const slope = sxy / sxx;
+  return { intercept: meanY - slope * meanX, slope };
+}
+
+// Day the fitted curve reaches the goal: the latest entry's day if already there, null if it's
+// heading away from it (or too slowly to matter)
+function projectGoalDay(fit: LineFit, goal: number, lastDay: number, lastValue: number, direction: number): number | null {
+  if ((goal - lastValue) * direction <= 0) return lastDay;
+  if (fit.slope * direction <= 0) return null;
+  const goalDay = Math.max(Math.ceil((goal - fit.intercept) / fit.slope), lastDay);
+  return goalDay - lastDay > MAX_PROJECTION_DAYS ? null : goalDay;
+}
+
+// Forecast when the goal is reached from the recent pace - a linear fit of the values and an
+// exponential fit (linear fit of their logs, so only for positive values)
+function buildProjection(entries: Point[], goal: number, direction: number, paceDays: number) {
+  if (entries.length === 0) return null;
+  const last = entries[entries.length - 1];
+  const lastDay = toDayNumber(last.date);
+  const recent = entries.filter(e => toDayNumber(e.date) > lastDay - paceDays);
+  const xs = recent.map(e => toDayNumber(e.date));
+
+  const linearFit = fitLine(xs, recent.map(e => e.value));
+  const linearDay = linearFit ? projectGoalDay(linearFit, goal, lastDay, last.value, direction) : null;
+
+  let exponential: { date: string | null; dailyChangePercent: number } | null = null;
+  if (goal > 0 && recent.every(e => e.value > 0)) {
+    const logFit = fitLine(xs, recent.map(e => Math.log(e.value)));
+    if (logFit) {
+      const goalDay = projectGoalDay(logFit, Math.log(goal), lastDay, Math.log(last.value), direction);
+      exponential = {
+        date: goalDay !== null ? fromDayNumber(goalDay) : null,
+        dailyChangePercent: round2((Math.exp(logFit.slope) - 1) * 100),
+      };
+    }
+  }
+
+  return {
+    paceDays,
+    linear: linearFit ? {
+      date: linearDay !== null ? fromDayNumber(linearDay) : null,
+      ratePerDay: round2(linearFit.slope),
+    } : null,
+    exponential,
+  };
+}
+
+interface PhaseInput {
+  name?: unknown;
+  startDate: unknown;
+  goalDate: unknown;
+  closedDate?: unknown;
+}
+
+// Validate a target phase's label and date window; returns an error message or null
+function validatePhase({ name, startDate, goalDate, closedDate }: PhaseInput): string | null {
+  if (name != null && (typeof name !== 'string' || name.length > 100)) {
+    return 'name must be a string of at most 100 characters';
+  }
+  if (typeof startDate !== 'string' || !DATE_PATTERN.test(startDate) || typeof goalDate !== 'string' || !DATE_PATTERN.test(goalDate)) {
+    return 'startDate and goalDate must be in YYYY-MM-DD format';
+  }
+  if (goalDate < startDate) {
+    return 'goalDate must not be before startDate';
+  }
+  if (closedDate != null) {
+    if (typeof closedDate !== 'string' || !DATE_PATTERN.test(closedDate)) {
+      return 'closedDate must be in YYYY-MM-DD format';
+    }
+    if (closedDate < startDate) {
+      return 'closedDate must not be before startDate';
+    }
+  }
+  return null;
+}
+
+// Value the target line plans for a date (clamped to the phase's start and goal)
+function plannedValueOn(target: TargetRow, date: string): number {
+  const startValue = parseFloat(target.startValue);
+  const goalValue = parseFloat(target.goalValue);
+  const totalDays = toDayNumber(target.goalDate) - toDayNumber(target.startDate);
+  const elapsed = Math.min(Math.max(toDayNumber(date) - toDayNumber(target.startDate), 0), totalDays);
+  return startValue + (goalValue - startValue) * (totalDays > 0 ? elapsed / totalDays : 1);
+}
+
+// A phase as drawn on the graph - its lines cut off where it was closed - with achieved vs planned change
+function buildPhase(target: TargetRow, entries: Point[], isCurrent: boolean) {
+  const startValue = parseFloat(target.startValue);
+  const goalValue = parseFloat(target.goalValue);
+  const reachGoalValue = target.reachGoalValue !== null ? parseFloat(target.reachGoalValue) : null;
+  const endDate = target.closedDate && target.closedDate < target.goalDate ? target.closedDate : target.goalDate;
+  const inWindow = entries.filter(e => e.date >= target.startDate && e.date <= endDate);
+  const last = inWindow[inWindow.length - 1];
+  const plannedChange = goalValue - startValue;
+  const achievedChange = last ? last.value - startValue : null;
+
+  return {
+    id: target.id,
+    name: target.name,
+    startValue,
+    goalValue,
+    reachGoalValue,
+    startDate: target.startDate,
+    goalDate: target.goalDate,
+    closedDate: target.closedDate,
+    endDate,
+    isCurrent,
+    targetLine: buildLine(target.startDate, target.goalDate, startValue, goalValue).filter(p => p.date <= endDate),
+    stats: {
+      entryCount: inWindow.length,
+      endValue: last?.value ?? null,
+      plannedChange: round2(plannedChange),
+      // What the plan called for by the last entry in the phase
+      plannedChangeToDate: last ? round2(plannedValueOn(target, last.date) - startValue) : null,
+      achievedChange: achievedChange !== null ? round2(achievedChange) : null,
+      percentAchieved: achievedChange !== null && plannedChange !== 0
+        ? Math.round((achievedChange / plannedChange) * 100)
+        : null,
+    },
+  };
+}
+
+// Validate a derived measurement's formula and variables (id = the measurement being updated,
+// null when creating). Returns an error message or null.
+async function validateDerived(id: string | null, formula: unknown, variables: unknown): Promise<string | null> {
+  if (typeof formula !== 'string') {
+    return 'formula must be a string';
+  }
+  let used: string[];
+  try {
+    used = parseFormula(formula).variables;
+  } catch (error) {
+    if (error instanceof FormulaError) return `Invalid formula: ${error.message}`;
+    throw error;
+  }
+  if (used.length === 0) {
+    return 'formula must use at least one measurement';
+  }
+  if (typeof variables !== 'object' || variables === null || Array.isArray(variables)) {
+    return 'variables must map each formula variable to a measurement id';
+  }
+  const mapping = variables as Record<string, unknown>;
+  const missing = used.filter(name => typeof mapping[name] !== 'string');
+  if (missing.length > 0) {
+    return `No measurement chosen for ${missing.join(', ')}`;
+  }
+
+  const sourceIds = [...new Set(used.map(name => mapping[name] as string))];
+  if (id && sourceIds.includes(id)) {
+    return 'A measurement cannot be computed from itself';
+  }
+  const sources = await db.query.measurements.findMany({ where: inArray(measurements.id, sourceIds) });
+  if (sources.length !== sourceIds.length) {
+    return 'variables reference a measurement that does not exist';
+  }
+
+  // Walk the sources' own dependencies - reaching this measurement again would be a cycle
+  if (id) {
+    const derived = await db.query.measurements.findMany({ where: isNotNull(measurements.formula) });
+    const dependencies = new Map(derived.map(m => [m.id, Object.values((m.variables ?? {}) as FormulaVariables)]));
+    const pending = [...sourceIds];
+    const seen = new Set<string>();
+    while (pending.length > 0) {
+      const current = pending.pop()!;
+      if (current === id) return 'Formula would make measurements depend on each other';
+      if (seen.has(current)) continue;
+      seen.add(current);
+      pending.push(...(dependencies.get(current) ?? []));
+    }
+  }
+  return null;
+}
+
+// Compute a derived measurement's values: one per date any source has an entry, where each
+// variable is its latest value on or before that date (so rarely-logged inputs like height carry forward)
+function computeDerivedEntries(formula: string, variables: FormulaVariables, sourceEntries: Map<string, Point[]>): Point[] {
+  const { root, variables: used } = parseFormula(formula);
+  const seriesFor = (name: string) => sourceEntries.get(variables[name]) ?? [];
+  const dates = [...new Set(used.flatMap(name => seriesFor(name).map(e => e.date)))].sort();
+
+  const results: Point[] = [];
+  for (const date of dates) {
+    const day = toDayNumber(date);
+    const value = evaluateFormula(root, {
+      value: (name) => {
+        const series = seriesFor(name);
+        for (let i = series.length - 1; i >= 0; i--) {
+          if (series[i].date <= date) return series[i].value;
+        }
+        return null;
+      },
+      window: (fn: WindowFunction, name, days) => {
+        const values = seriesFor(name)
+          .filter(e => e.date <= date && toDayNumber(e.date) > day - days)
+          .map(e => e.value);
+        if (values.length === 0) return null;
+        if (fn === 'min') return Math.min(...values);
+        if (fn === 'max') return Math.max(...values);
+        return values.reduce((sum, v) => sum + v, 0) / values.length;
+      },
+    });
+    if (value !== null) results.push({ date, value: round2(value) });
+  }
+  return results;
+}
+
+// Replace a derived measurement's entries with freshly computed ones
+async function recomputeDerived(tx: Transaction, measurement: MeasurementRow) {
+  if (!measurement.formula) return;
+  const variables = (measurement.variables ?? {}) as FormulaVariables;
+  const sourceIds = [...new Set(Object.values(variables))];
+  const sourceEntries = new Map<string, Point[]>();
+  if (sourceIds.length > 0) {
+    const rows = await tx.query.measurementEntries.findMany({
+      where: inArray(measurementEntries.measurementId, sourceIds),
+      orderBy: [asc(measurementEntries.date)],
+    });
+    for (const row of rows) {
+      const series = sourceEntries.get(row.measurementId) ?? [];
+      series.push({ date: row.date, value: parseFloat(row.value) });
+      sourceEntries.set(row.measurementId, series);
+    }
+  }
+
+  const computed = computeDerivedEntries(measurement.formula, variables, sourceEntries);
+  await tx.delete(measurementEntries).where(eq(measurementEntries.measurementId, measurement.id));
+  if (computed.length > 0) {
+    await tx.insert(measurementEntries).values(computed.map(point => ({
+      measurementId: measurement.id,
+      date: point.date,
+      value: point.value.toString(),
+    })));
+  }
+}
+
+// Recompute every derived measurement that (directly or through others) reads from a
+// measurement, sources before the measurements built on them
+async function recomputeDependents(tx: Transaction, sourceId: string) {
+  const derived = await tx.query.measurements.findMany({ where: isNotNull(measurements.formula) });
+  const readsFrom = (m: MeasurementRow) => Object.values((m.variables ?? {}) as FormulaVariables);
+
+  // Everything downstream of the source
+  const affected = new Map<string, MeasurementRow>();
+  const pending = [sourceId];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    for (const m of derived) {
+      if (!affected.has(m.id) && readsFrom(m).includes(current)) {
+        affected.set(m.id, m);
+        pending.push(m.id);
+      }
+    }
+  }
+
+  // Topological order within the affected set
+  const done = new Set<string>();
+  while (done.size < affected.size) {
+    const ready = [...affected.values()].find(m =>
+      !done.has(m.id) && readsFrom(m).every(id => !affected.has(id) || done.has(id))
+    );
+    if (!ready) break; // Cycles are rejected on save; stop rather than loop
+    await recomputeDerived(tx, ready);
+    done.add(ready.id);
+  }
+}
+
+// Parse an optional positive whole-number query parameter
+function parsePositiveInt(value: unknown, fallback: number): number | null {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
 // GET /api/measurements - List all measurements
 router.get('/', async (req, res) => {
   try {
@@ -15,8 +372,8 @@ router.get('/', async (req, res) => {
           limit: 30, // Last 30 entries by default
         },
         targets: {
-          orderBy: [desc(measurementTargets.createdAt)],
-          limit: 1, // Current target
+          orderBy: [desc(measurementTargets.startDate), desc(measurementTargets.createdAt)],
+          limit: 1, // Latest phase
         },
       },
       orderBy: [asc(measurements.name)],
@@ -40,7 +397,7 @@ router.get('/:id', async (req, res) => {
           orderBy: [desc(measurementEntries.date)],
         },
         targets: {
-          orderBy: [desc(measurementTargets.createdAt)],
+          orderBy: [desc(measurementTargets.startDate), desc(measurementTargets.createdAt)],
         },
       },
     });
@@ -69,17 +426,30 @@ router.get('/:id', async (req, res) => {
 // POST /api/measurements - Create measurement
 router.post('/', async (req, res) => {
   try {
-    const { type, name, unit } = req.body;
+    const { type, name, unit, formula, variables } = req.body;
 
     if (!type || !name) {
       return res.status(400).json({ error: 'Type and name are required', code: 'VALIDATION_ERROR' });
     }
+    if (formula != null) {
+      const formulaError = await validateDerived(null, formula, variables);
+      if (formulaError) {
+        return res.status(400).json({ error: formulaError, code: 'VALIDATION_ERROR' });
+      }
+    }
 
-    const [result] = await db.insert(measurements).values({
-      type,
-      name,
-      unit,
-    }).returning();
+    // Derived measurements get their entries computed straight away
+    const result = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(measurements).values({
+        type,
+        name,
+        unit,
+        formula: formula ?? null,
+        variables: formula != null ? variables : null,
+      }).returning();
+      await recomputeDerived(tx, created);
+      return created;
+    });
     res.status(201).json({ data: result });
   } catch (error) {
     console.error('Failed to create measurement:', error);
@@ -90,14 +460,55 @@ router.post('/', async (req, res) => {
 // PUT /api/measurements/:id - Update measurement
 router.put('/:id', async (req, res) => {
   try {
-    const { type, name, unit } = req.body;
-    const [result] = await db.update(measurements)
-      .set({ type, name, unit })
-      .where(eq(measurements.id, req.params.id))
-      .returning();
-    if (!result) {
+    const { type, name, unit, formula, variables } = req.body;
+
+    const existing = await db.query.measurements.findFirst({
+      where: eq(measurements.id, req.params.id),
+    });
+    if (!existing) {
       return res.status(404).json({ error: 'Measurement not found', code: 'MEASUREMENT_NOT_FOUND' });
     }
+
+    // formula: string = (re)define as derived, null = stop deriving (computed entries are kept)
+    const nextFormula = formula !== undefined ? formula : existing.formula;
+    const nextVariables = variables ?? existing.variables;
+    const redefining = nextFormula != null && (formula !== undefined || variables !== undefined);
+    if (redefining) {
+      const formulaError = await validateDerived(existing.id, nextFormula, nextVariables);
+      if (formulaError) {
+        return res.status(400).json({ error: formulaError, code: 'VALIDATION_ERROR' });
+      }
+      if (!existing.formula) {
+        const logged = await db.query.measurementEntries.findFirst({
+          where: eq(measurementEntries.measurementId, existing.id),
+        });
+        if (logged) {
+          return res.status(409).json({
+            error: 'Measurement already has logged entries; create a new derived measurement instead',
+            code: 'CONFLICT',
+            data: existing,
+          });
+        }
+      }
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const [updated] = await tx.update(measurements)
+        .set({
+          type,
+          name,
+          unit,
+          formula: formula !== undefined ? formula : undefined,
+          variables: formula === null ? null : redefining ? nextVariables : undefined,
+        })
+        .where(eq(measurements.id, req.params.id))
+        .returning();
+      if (redefining) {
+        await recomputeDerived(tx, updated);
+        await recomputeDependents(tx, updated.id);
+      }
+      return updated;
+    });
     res.json({ data: result });
   } catch (error) {
     console.error('Failed to update measurement:', error);
@@ -108,6 +519,19 @@ router.put('/:id', async (req, res) => {
 // DELETE /api/measurements/:id - Delete measurement
 router.delete('/:id', async (req, res) => {
   try {
+    // Derived measurements computed from this one would lose their input
+    const derived = await db.query.measurements.findMany({ where: isNotNull(measurements.formula) });
+    const dependents = derived.filter(m =>
+      Object.values((m.variables ?? {}) as FormulaVariables).includes(req.params.id)
+    );
+    if (dependents.length > 0) {
+      return res.status(409).json({
+        error: `Measurement is used by ${dependents.map(m => m.name).join(', ')}`,
+        code: 'CONFLICT',
+        data: dependents,
+      });
+    }
+
     // Delete related entries and targets first
     await db.delete(measurementEntries).where(eq(measurementEntries.measurementId, req.params.id));
     await db.delete(measurementTargets).where(eq(measurementTargets.measurementId, req.params.id));
@@ -125,6 +549,34 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
+// PATCH /api/measurements/:id/recompute - Recompute a derived measurement's entries (and anything built on it)
+router.patch('/:id/recompute', async (req, res) => {
+  try {
+    const measurement = await db.query.measurements.findFirst({
+      where: eq(measurements.id, req.params.id),
+    });
+    if (!measurement) {
+      return res.status(404).json({ error: 'Measurement not found', code: 'MEASUREMENT_NOT_FOUND' });
+    }
+    if (!measurement.formula) {
+      return res.status(400).json({ error: 'Measurement has no formula', code: 'VALIDATION_ERROR' });
+    }
+
+    await db.transaction(async (tx) => {
+      await recomputeDerived(tx, measurement);
+      await recomputeDependents(tx, measurement.id);
+    });
+    const entries = await db.query.measurementEntries.findMany({
+      where: eq(measurementEntries.measurementId, measurement.id),
+      orderBy: [desc(measurementEntries.date)],
+    });
+    res.json({ data: entries, count: entries.length });
+  } catch (error) {
+    console.error('Failed to recompute measurement:', error);
+    res.status(500).json({ error: 'Failed to recompute measurement', code: 'INTERNAL_ERROR' });
+  }
+});
+
 // === Measurement Entries ===
 
 // GET /api/measurements/:id/entries - Get entries for a measurement
@@ -168,28 +620,36 @@ router.post('/:id/entries', async (req, res) => {
     if (!measurement) {
       return res.status(404).json({ error: 'Measurement not found', code: 'MEASUREMENT_NOT_FOUND' });
     }
+    if (measurement.formula) {
+      return res.status(400).json({ error: 'Entries of a derived measurement are computed from its formula', code: 'VALIDATION_ERROR' });
+    }
 
-    // Upsert pattern
-    const existing = await db.query.measurementEntries.findFirst({
-      where: and(
-        eq(measurementEntries.measurementId, req.params.id),
-        eq(measurementEntries.date, date)
-      ),
-    });
+    const result = await db.transaction(async (tx) => {
+      // Upsert pattern
+      const existing = await tx.query.measurementEntries.findFirst({
+        where: and(
+          eq(measurementEntries.measurementId, req.params.id),
+          eq(measurementEntries.date, date)
+        ),
+      });
 
-    let result;
-    if (existing) {
-      [result] = await db.update(measurementEntries)
-        .set({ value: value.toString() })
-        .where(eq(measurementEntries.id, existing.id))
-        .returning();
-    } else {
-      [result] = await db.insert(measurementEntries).values({
-        measurementId: req.params.id,
-        date,
-        value: value.toString(),
-      }).returning();
-    }
+      let entry;
+      if (existing) {
+        [entry] = await tx.update(measurementEntries)
+          .set({ value: value.toString() })
+          .where(eq(measurementEntries.id, existing.id))
+          .returning();
+      } else {
+        [entry] = await tx.insert(measurementEntries).values({
+          measurementId: req.params.id,
+          date,
+          value: value.toString(),
+        }).returning();
+      }
+
+      await recomputeDependents(tx, req.params.id);
+      return entry;
+    });
 
     res.status(201).json({ data: result });
   } catch (error) {
@@ -198,15 +658,132 @@ router.post('/:id/entries', async (req, res) => {
   }
 });
 
+// POST /api/measurements/:id/entries/import - Import entries from a device export
+// Body: { csv: string } or { rows: [{ date, value, unit? }, ...] }. Query: dedupe (latest|average|min,
+// for several readings on one day), existing (replace|skip), unit (for rows that don't say),
+// dateOrder (mdy|dmy), dateColumn, valueColumn, dryRun (report without writing).
+router.post('/:id/entries/import', async (req, res) => {
+  try {
+    const dedupe = (req.query.dedupe ?? 'latest') as DedupePolicy;
+    const existingPolicy = (req.query.existing ?? 'replace') as typeof EXISTING_ENTRY_POLICIES[number];
+    const dateOrder = (req.query.dateOrder ?? 'mdy') as DateOrder;
+    const dryRun = req.query.dryRun === 'true';
+    if (!DEDUPE_POLICIES.includes(dedupe)) {
+      return res.status(400).json({ error: `dedupe must be one of ${DEDUPE_POLICIES.join(', ')}`, code: 'VALIDATION_ERROR' });
+    }
+    if (!EXISTING_ENTRY_POLICIES.includes(existingPolicy)) {
+      return res.status(400).json({ error: 'existing must be replace or skip', code: 'VALIDATION_ERROR' });
+    }
+    if (!DATE_ORDERS.includes(dateOrder)) {
+      return res.status(400).json({ error: 'dateOrder must be mdy or dmy', code: 'VALIDATION_ERROR' });
+    }
+
+    const { csv, rows } = req.body ?? {};
+    if (typeof csv !== 'string' && !Array.isArray(rows)) {
+      return res.status(400).json({ error: 'Send a csv string or a rows array', code: 'VALIDATION_ERROR' });
+    }
+
+    const measurement = await db.query.measurements.findFirst({
+      where: eq(measurements.id, req.params.id),
+    });
+    if (!measurement) {
+      return res.status(404).json({ error: 'Measurement not found', code: 'MEASUREMENT_NOT_FOUND' });
+    }
+    if (measurement.formula) {
+      return res.status(400).json({ error: 'Entries of a derived measurement are computed from its formula', code: 'VALIDATION_ERROR' });
+    }
+
+    let parsed;
+    try {
+      parsed = prepareImport(typeof csv === 'string' ? parseCsv(csv) : tableFromRecords(rows), {
+        measurementType: measurement.type,
+        measurementName: measurement.name,
+        measurementUnit: measurement.unit,
+        defaultUnit: typeof req.query.unit === 'string' ? req.query.unit : undefined,
+        dateOrder,
+        dedupe,
+        dateColumn: typeof req.query.dateColumn === 'string' ? req.query.dateColumn : undefined,
+        valueColumn: typeof req.query.valueColumn === 'string' ? req.query.valueColumn : undefined,
+      });
+    } catch (error) {
+      if (error instanceof ImportError) {
+        return res.status(400).json({ error: error.message, code: 'VALIDATION_ERROR' });
+      }
+      throw error;
+    }
+
+    const existingEntries = await db.query.measurementEntries.findMany({
+      where: eq(measurementEntries.measurementId, measurement.id),
+    });
+    const existingByDate = new Map(existingEntries.map(e => [e.date, e]));
+
+    const skipped: SkippedRow[] = [...parsed.skipped];
+    const toInsert = parsed.days.filter(day => !existingByDate.has(day.date));
+    const toUpdate = parsed.days.filter(day => existingByDate.has(day.date));
+    if (existingPolicy === 'skip') {
+      for (const day of toUpdate) {
+        skipped.push(...day.rows.map(row => ({ row, reason: `An entry already exists for ${day.date}` })));
+      }
+    }
+
+    if (!dryRun) {
+      await db.transaction(async (tx) => {
+        for (let i = 0; i < toInsert.length; i += INSERT_CHUNK_SIZE) {
+          await tx.insert(measurementEntries).values(toInsert.slice(i, i + INSERT_CHUNK_SIZE).map(day => ({
+            measurementId: measurement.id,
+            date: day.date,
+            value: day.value.toString(),
+          })));
+        }
+        if (existingPolicy === 'replace') {
+          for (const day of toUpdate) {
+            await tx.update(measurementEntries)
+              .set({ value: day.value.toString() })
+              .where(eq(measurementEntries.id, existingByDate.get(day.date)!.id));
+          }
+        }
+        await recomputeDependents(tx, measurement.id);
+      });
+    }
+
+    skipped.sort((a, b) => a.row - b.row);
+    res.json({
+      data: {
+        dryRun,
+        columns: parsed.columns,
+        created: toInsert.length,
+        updated: existingPolicy === 'replace' ? toUpdate.length : 0,
+        merged: parsed.merged,
+        skippedCount: skipped.length,
+        skipped: skipped.slice(0, MAX_REPORTED_SKIPS),
+      }
+    });
+  } catch (error) {
+    console.error('Failed to import entries:', error);
+    res.status(500).json({ error: 'Failed to import entries', code: 'INTERNAL_ERROR' });
+  }
+});
+
 // DELETE /api/measurements/:measurementId/entries/:entryId - Delete entry
 router.delete('/:measurementId/entries/:entryId', async (req, res) => {
   try {
-    const [result] = await db.delete(measurementEntries)
-      .where(and(
-        eq(measurementEntries.id, req.params.entryId),
-        eq(measurementEntries.measurementId, req.params.measurementId)
-      ))
-      .returning();
+    const measurement = await db.query.measurements.findFirst({
+      where: eq(measurements.id, req.params.measurementId),
+    });
+    if (measurement?.formula) {
+      return res.status(400).json({ error: 'Entries of a derived measurement are computed from its formula', code: 'VALIDATION_ERROR' });
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(measurementEntries)
+        .where(and(
+          eq(measurementEntries.id, req.params.entryId),
+          eq(measurementEntries.measurementId, req.params.measurementId)
+        ))
+        .returning();
+      if (deleted) await recomputeDependents(tx, req.params.measurementId);
+      return deleted;
+    });
     if (!result) {
       return res.status(404).json({ error: 'Entry not found', code: 'ENTRY_NOT_FOUND' });
     }
@@ -219,12 +796,12 @@ router.delete('/:measurementId/entries/:entryId', async (req, res) => {
 
 // === Measurement Targets ===
 
-// GET /api/measurements/:id/targets - Get targets for a measurement
+// GET /api/measurements/:id/targets - Get targets (phases) for a measurement, newest first
 router.get('/:id/targets', async (req, res) => {
   try {
     const result = await db.query.measurementTargets.findMany({
       where: eq(measurementTargets.measurementId, req.params.id),
-      orderBy: [desc(measurementTargets.createdAt)],
+      orderBy: [desc(measurementTargets.startDate), desc(measurementTargets.createdAt)],
     });
     res.json({ data: result, count: result.length });
   } catch (error) {
@@ -236,7 +813,7 @@ router.get('/:id/targets', async (req, res) => {
 // POST /api/measurements/:id/targets - Create target
 router.post('/:id/targets', async (req, res) => {
   try {
-    const { startValue, goalValue, reachGoalValue, startDate, goalDate } = req.body;
+    const { startValue, goalValue, reachGoalValue, name, startDate, goalDate } = req.body;
 
     if (!startValue || !goalValue || !startDate || !goalDate) {
       return res.status(400).json({
@@ -244,6 +821,10 @@ router.post('/:id/targets', async (req, res) => {
         code: 'VALIDATION_ERROR'
       });
     }
+    const phaseError = validatePhase({ name, startDate, goalDate });
+    if (phaseError) {
+      return res.status(400).json({ error: phaseError, code: 'VALIDATION_ERROR' });
+    }
 
     // Verify measurement exists
     const measurement = await db.query.measurements.findFirst({
@@ -257,7 +838,8 @@ router.post('/:id/targets', async (req, res) => {
       measurementId: req.params.id,
       startValue: startValue.toString(),
       goalValue: goalValue.toString(),
-      reachGoalValue: reachGoalValue !== undefined ? reachGoalValue.toString() : null,
+      reachGoalValue: reachGoalValue != null ? reachGoalValue.toString() : null,
+      name: name || null,
       startDate,
       goalDate,
     }).returning();
@@ -272,14 +854,36 @@ router.post('/:id/targets', async (req, res) => {
 // PUT /api/measurements/:measurementId/targets/:targetId - Update target
 router.put('/:measurementId/targets/:targetId', async (req, res) => {
   try {
-    const { startValue, goalValue, reachGoalValue, startDate, goalDate } = req.body;
+    const { startValue, goalValue, reachGoalValue, name, startDate, goalDate, closedDate } = req.body;
+
+    const existing = await db.query.measurementTargets.findFirst({
+      where: and(
+        eq(measurementTargets.id, req.params.targetId),
+        eq(measurementTargets.measurementId, req.params.measurementId)
+      ),
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Target not found', code: 'TARGET_NOT_FOUND' });
+    }
+    const phaseError = validatePhase({
+      name,
+      startDate: startDate ?? existing.startDate,
+      goalDate: goalDate ?? existing.goalDate,
+      closedDate: closedDate !== undefined ? closedDate : existing.closedDate,
+    });
+    if (phaseError) {
+      return res.status(400).json({ error: phaseError, code: 'VALIDATION_ERROR' });
+    }
+
     const [result] = await db.update(measurementTargets)
       .set({
         startValue: startValue?.toString(),
         goalValue: goalValue?.toString(),
         reachGoalValue: reachGoalValue !== undefined ? reachGoalValue?.toString() : null,
+        name: name !== undefined ? (name || null) : undefined,
         startDate,
         goalDate,
+        closedDate: closedDate !== undefined ? (closedDate || null) : undefined, // null reopens the phase
       })
       .where(and(
         eq(measurementTargets.id, req.params.targetId),
@@ -296,6 +900,40 @@ router.put('/:measurementId/targets/:targetId', async (req, res) => {
   }
 });
 
+// PATCH /api/measurements/:measurementId/targets/:targetId/close - End a phase on a date
+// so its line stops there and a new phase can take over
+router.patch('/:measurementId/targets/:targetId/close', async (req, res) => {
+  try {
+    const { date } = req.body;
+
+    const existing = await db.query.measurementTargets.findFirst({
+      where: and(
+        eq(measurementTargets.id, req.params.targetId),
+        eq(measurementTargets.measurementId, req.params.measurementId)
+      ),
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Target not found', code: 'TARGET_NOT_FOUND' });
+    }
+    if (existing.closedDate) {
+      return res.status(409).json({ error: 'Phase is already closed', code: 'CONFLICT', data: existing });
+    }
+    const phaseError = validatePhase({ startDate: existing.startDate, goalDate: existing.goalDate, closedDate: date ?? null });
+    if (phaseError || !date) {
+      return res.status(400).json({ error: phaseError ?? 'date is required', code: 'VALIDATION_ERROR' });
+    }
+
+    const [result] = await db.update(measurementTargets)
+      .set({ closedDate: date })
+      .where(eq(measurementTargets.id, existing.id))
+      .returning();
+    res.json({ data: result });
+  } catch (error) {
+    console.error('Failed to close target:', error);
+    res.status(500).json({ error: 'Failed to close target', code: 'INTERNAL_ERROR' });
+  }
+});
+
 // DELETE /api/measurements/:measurementId/targets/:targetId - Delete target
 router.delete('/:measurementId/targets/:targetId', async (req, res) => {
   try {
@@ -315,10 +953,18 @@ router.delete('/:measurementId/targets/:targetId', async (req, res) => {
   }
 });
 
-// GET /api/measurements/:id/graph-data - Get data formatted for target line graph
+// GET /api/measurements/:id/graph-data - Get data formatted for target line graph: the current
+// target's reach-goal line and on-track band, every phase's line over its own window with
+// achieved vs planned stats, a rolling-average trend and a pace forecast
+// (optional startDate, endDate, window = trend days, paceDays = days of entries the forecast uses)
 router.get('/:id/graph-data', async (req, res) => {
   try {
     const { startDate, endDate } = req.query;
+    const trendWindow = parsePositiveInt(req.query.window, DEFAULT_TREND_WINDOW_DAYS);
+    const paceDays = parsePositiveInt(req.query.paceDays, DEFAULT_PACE_DAYS);
+    if (trendWindow === null || paceDays === null) {
+      return res.status(400).json({ error: 'window and paceDays must be positive whole numbers', code: 'VALIDATION_ERROR' });
+    }
 
     const measurement = await db.query.measurements.findFirst({
       where: eq(measurements.id, req.params.id),
@@ -328,58 +974,77 @@ router.get('/:id/graph-data', async (req, res) => {
       return res.status(404).json({ error: 'Measurement not found', code: 'MEASUREMENT_NOT_FOUND' });
     }
 
-    // Get entries
-    const entryConditions = [eq(measurementEntries.measurementId, req.params.id)];
-    if (startDate) entryConditions.push(gte(measurementEntries.date, startDate as string));
-    if (endDate) entryConditions.push(lte(measurementEntries.date, endDate as string));
-
-    const entries = await db.query.measurementEntries.findMany({
-      where: and(...entryConditions),
+    // Get all entries - phase stats need the full history, the graph only the requested range
+    const allEntries = (await db.query.measurementEntries.findMany({
+      where: eq(measurementEntries.measurementId, req.params.id),
       orderBy: [asc(measurementEntries.date)],
-    });
+    })).map(e => ({ date: e.date, value: parseFloat(e.value) }));
+    const entries = allEntries.filter(e =>
+      (!startDate || e.date >= (startDate as string)) && (!endDate || e.date <= (endDate as string))
+    );
 
-    // Get current target
-    const target = await db.query.measurementTargets.findFirst({
+    // Every target is a phase; the current one is the latest-starting phase that is still open
+    const targets = await db.query.measurementTargets.findMany({
       where: eq(measurementTargets.measurementId, req.params.id),
-      orderBy: [desc(measurementTargets.createdAt)],
+      orderBy: [asc(measurementTargets.startDate), asc(measurementTargets.createdAt)],
     });
+    const target = [...targets].reverse().find(t => !t.closedDate) ?? null;
+    const phases = targets.map(t => buildPhase(t, allEntries, t.id === target?.id));
 
-    // Calculate target line if target exists
-    let targetLine: Array<{ date: string; value: number }> = [];
+    let targetData = null;
+    let projection = null;
+    let schedule = null;
     if (target) {
-      const start = new Date(target.startDate);
-      const end = new Date(target.goalDate);
-      const startVal = parseFloat(target.startValue);
-      const goalVal = parseFloat(target.goalValue);
-      const totalDays = (end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24);
-
-      // Generate target line points
-      for (let i = 0; i <= totalDays; i++) {
-        const currentDate = new Date(start);
-        currentDate.setDate(currentDate.getDate() + i);
-        const progress = i / totalDays;
-        const value = startVal + (goalVal - startVal) * progress;
-        targetLine.push({
-          date: currentDate.toISOString().split('T')[0],
-          value: Math.round(value * 100) / 100,
-        });
+      const startValue = parseFloat(target.startValue);
+      const goalValue = parseFloat(target.goalValue);
+      const reachGoalValue = target.reachGoalValue !== null ? parseFloat(target.reachGoalValue) : null;
+      const direction = Math.sign(goalValue - startValue) || 1;
+      const tolerance = Math.abs(goalValue - startValue) * ON_TRACK_TOLERANCE;
+
+      const targetLine = buildLine(target.startDate, target.goalDate, startValue, goalValue);
+      targetData = {
+        id: target.id,
+        name: target.name,
+        startValue,
+        goalValue,
+        reachGoalValue,
+        startDate: target.startDate,
+        goalDate: target.goalDate,
+        targetLine,
+        reachGoalLine: reachGoalValue !== null
+          ? buildLine(target.startDate, target.goalDate, startValue, reachGoalValue)
+          : [],
+        band: targetLine.map(p => ({
+          date: p.date,
+          lower: round2(p.value - tolerance),
+          upper: round2(p.value + tolerance),
+        })),
+      };
+
+      projection = buildProjection(entries, goalValue, direction, paceDays);
+
+      // How far the latest entry is ahead of the target line (positive = ahead, in units and days)
+      const latest = entries[entries.length - 1];
+      if (latest) {
+        const deltaValue = round2((latest.value - plannedValueOn(target, latest.date)) * direction);
+        const projectedDate = projection?.linear?.date;
+        schedule = {
+          status: Math.abs(deltaValue) <= tolerance ? 'on-track' : deltaValue > 0 ? 'ahead' : 'behind',
+          deltaValue,
+          deltaDays: projectedDate ? toDayNumber(target.goalDate) - toDayNumber(projectedDate) : null,
+        };
       }
     }
 
     res.json({
       data: {
         measurement,
-        entries: entries.map(e => ({
-          date: e.date,
-          value: parseFloat(e.value),
-        })),
-        target: target ? {
-          startValue: parseFloat(target.startValue),
-          goalValue: parseFloat(target.goalValue),
-          startDate: target.startDate,
-          goalDate: target.goalDate,
-          targetLine,
-        } : null,
+        entries,
+        trendLine: rollingAverage(entries, trendWindow),
+        target: targetData,
+        phases,
+        projection,
+        schedule,
       }
     });
   } catch (error) {
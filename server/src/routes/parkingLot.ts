@@ -2,9 +2,12 @@ import { Router } from 'express';
 import { db } from '../db';
 import { parkingLot, tasks } from '../db/schema';
 import { eq, asc, desc } from 'drizzle-orm';
+import { getInitialStatusId, logStatusChanges } from '../taskWorkflow';
 
 const router = Router();
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 // GET /api/parking-lot - List all parking lot items
 router.get('/', async (req, res) => {
   try {
@@ -39,13 +42,25 @@ router.get('/:id', async (req, res) => {
 // POST /api/parking-lot - Create parking lot item (quick capture)
 router.post('/', async (req, res) => {
   try {
-    const { content } = req.body;
+    const { id, content } = req.body;
 
     if (!content || content.trim() === '') {
       return res.status(400).json({ error: 'Content is required', code: 'VALIDATION_ERROR' });
     }
 
+    // Offline clients pick the id up front; replaying the same create returns the existing item
+    if (id !== undefined) {
+      if (typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+        return res.status(400).json({ error: 'id must be a UUID', code: 'VALIDATION_ERROR' });
+      }
+      const existing = await db.query.parkingLot.findFirst({ where: eq(parkingLot.id, id) });
+      if (existing) {
+        return res.json({ data: existing });
+      }
+    }
+
     const [result] = await db.insert(parkingLot).values({
+      id,
       content: content.trim(),
     }).returning();
     res.status(201).json({ data: result });
@@ -136,8 +151,9 @@ router.post('/:id/convert-to-task', async (req, res) => {
       projectId,
       plannedDate,
       priority,
-      status: 'pending',
+      statusId: await getInitialStatusId(),
     }).returning();
+    await logStatusChanges([{ taskId: newTask.id, fromStatusId: null, toStatusId: newTask.statusId }]);
 
     // Mark the parking lot item as converted (soft delete with reference)
     await db.update(parkingLot)
@@ -5,9 +5,12 @@ import fs from 'fs';
 import { db } from '../db';
 import { projects, tasks } from '../db/schema';
 import { eq, and, asc, count } from 'drizzle-orm';
+import { isOpenTask } from '../taskWorkflow';
 
 const router = Router();
 
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
 // Configure multer for project image uploads
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
@@ -23,6 +26,27 @@ const storage = multer.diskStorage({
   }
 });
 
+// Validate project start/target dates - returns an error message if invalid
+// Missing dates fall back to the stored values so a single-date update can't invert the range
+function validateProjectDates(
+  startDate: unknown,
+  targetDate: unknown,
+  existing?: { startDate: string | null; targetDate: string | null }
+): string | null {
+  for (const [field, value] of [['startDate', startDate], ['targetDate', targetDate]] as const) {
+    if (value !== undefined && value !== null && value !== '' && (typeof value !== 'string' || !DATE_PATTERN.test(value))) {
+      return `${field} must be a date in YYYY-MM-DD format`;
+    }
+  }
+
+  const start = startDate !== undefined ? (startDate as string | null) || null : existing?.startDate ?? null;
+  const target = targetDate !== undefined ? (targetDate as string | null) || null : existing?.targetDate ?? null;
+  if (start && target && start > target) {
+    return 'startDate must be on or before targetDate';
+  }
+  return null;
+}
+
 const upload = multer({
   storage,
   limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
@@ -43,15 +67,15 @@ router.get('/', async (req, res) => {
     const includeDeleted = req.query.includeDeleted === 'true';
     const result = await db.query.projects.findMany({
       where: includeDeleted ? undefined : eq(projects.isDeleted, false),
-      with: { tasks: true, category: true },
+      with: { tasks: { with: { taskStatus: true } }, category: true },
       orderBy: [asc(projects.name)],
     });
 
-    // Add task counts
+    // Add task counts (deleted tasks don't count towards progress)
     const projectsWithCounts = result.map(project => ({
       ...project,
-      taskCount: project.tasks?.length || 0,
-      completedTaskCount: project.tasks?.filter(t => t.status === 'complete' && !t.isDeleted).length || 0,
+      taskCount: project.tasks?.filter(t => !t.isDeleted).length || 0,
+      completedTaskCount: project.tasks?.filter(t => t.taskStatus?.isTerminal && !t.isDeleted).length || 0,
     }));
 
     res.json({ data: projectsWithCounts, count: result.length });
@@ -94,7 +118,7 @@ router.get('/:id/tasks', async (req, res) => {
     ];
 
     if (!includeCompleted) {
-      conditions.push(eq(tasks.status, 'pending'));
+      conditions.push(isOpenTask());
     }
 
     const result = await db.query.tasks.findMany({
@@ -122,12 +146,17 @@ router.post('/', async (req, res) => {
       return res.status(400).json({ error: 'Name is required', code: 'VALIDATION_ERROR' });
     }
 
+    const dateError = validateProjectDates(startDate, targetDate);
+    if (dateError) {
+      return res.status(400).json({ error: dateError, code: 'VALIDATION_ERROR' });
+    }
+
     const [result] = await db.insert(projects).values({
       name,
       description,
       categoryId,
-      startDate,
-      targetDate,
+      startDate: startDate || null,
+      targetDate: targetDate || null,
       color,
       icon,
       iconColor,
@@ -152,6 +181,20 @@ router.put('/:id', async (req, res) => {
   try {
     const { name, description, categoryId, startDate, targetDate, color, icon, iconColor, imageUrl } = req.body;
 
+    if (startDate !== undefined || targetDate !== undefined) {
+      const existing = await db.query.projects.findFirst({
+        where: eq(projects.id, req.params.id),
+      });
+      if (!existing) {
+        return res.status(404).json({ error: 'Project not found', code: 'PROJECT_NOT_FOUND' });
+      }
+
+      const dateError = validateProjectDates(startDate, targetDate, existing);
+      if (dateError) {
+        return res.status(400).json({ error: dateError, code: 'VALIDATION_ERROR' });
+      }
+    }
+
     const updateData: Record<string, unknown> = { updatedAt: new Date() };
     if (name !== undefined) updateData.name = name;
     if (description !== undefined) updateData.description = description;
@@ -235,14 +278,16 @@ router.get('/:id/stats', async (req, res) => {
         eq(tasks.projectId, req.params.id),
         eq(tasks.isDeleted, false)
       ),
+      with: { taskStatus: true },
     });
 
+    const completedTasks = projectTasks.filter(t => t.taskStatus?.isTerminal).length;
     const stats = {
       totalTasks: projectTasks.length,
-      completedTasks: projectTasks.filter(t => t.status === 'complete').length,
-      pendingTasks: projectTasks.filter(t => t.status === 'pending').length,
+      completedTasks,
+      pendingTasks: projectTasks.length - completedTasks,
       completionRate: projectTasks.length > 0
-        ? Math.round((projectTasks.filter(t => t.status === 'complete').length / projectTasks.length) * 100)
+        ? Math.round((completedTasks / projectTasks.length) * 100)
         : 0,
     };
 
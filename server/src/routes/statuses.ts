@@ -1,114 +1,38 @@
 import { Router } from 'express';
 import { db } from '../db';
 import { taskStatuses, tasks } from '../db/schema';
-import { eq, and, asc, isNull, count } from 'drizzle-orm';
+import { eq, and, ne, asc, count } from 'drizzle-orm';
+import { seedDefaultStatuses, syncTaskCompletion } from '../taskWorkflow';
 
 const router = Router();
 
-// Default statuses to seed if none exist
-const DEFAULT_STATUSES = [
-  {
-    name: 'Backlog',
-    color: '#64748b', // slate-500
-    icon: 'Inbox',
-    workflowOrder: 0,
-    isBreakout: false,
-    isDefault: true,
-    isInitialStatus: true,
-    sortOrder: 0,
-  },
-  {
-    name: 'To Do',
-    color: '#3b82f6', // blue-500
-    icon: 'List',
-    workflowOrder: 1,
-    isBreakout: false,
-    isDefault: true,
-    isInitialStatus: false,
-    sortOrder: 1,
-  },
-  {
-    name: 'In Progress',
-    color: '#f59e0b', // amber-500
-    icon: 'PlayCircle',
-    workflowOrder: 2,
-    isBreakout: false,
-    isDefault: true,
-    isInitialStatus: false,
-    sortOrder: 2,
-  },
-  {
-    name: 'Blocked',
-    color: '#ef4444', // red-500
-    icon: 'Block',
-    workflowOrder: null,
-    isBreakout: true,
-    isDefault: true,
-    isInitialStatus: false,
-    sortOrder: 3,
-    // breakoutParentId will be set after "In Progress" is created
-  },
-  {
-    name: 'Waiting',
-    color: '#a855f7', // purple-500
-    icon: 'HourglassEmpty',
-    workflowOrder: null,
-    isBreakout: true,
-    isDefault: true,
-    isInitialStatus: false,
-    sortOrder: 4,
-    // breakoutParentId will be set after "In Progress" is created
-  },
-  {
-    name: 'Review',
-    color: '#14b8a6', // teal-500
-    icon: 'RateReview',
-    workflowOrder: 3,
-    isBreakout: false,
-    isDefault: true,
-    isInitialStatus: false,
-    sortOrder: 5,
-  },
-  {
-    name: 'Complete',
-    color: '#10b981', // emerald-500
-    icon: 'CheckCircle',
-    workflowOrder: 4,
-    isBreakout: false,
-    isDefault: true,
-    isInitialStatus: false,
-    sortOrder: 6,
-  },
-];
-
-// Helper to seed default statuses
-async function seedDefaultStatuses() {
-  const existing = await db.query.taskStatuses.findFirst();
-  if (existing) return; // Already seeded
-
-  console.log('Seeding default task statuses...');
-
-  // Insert non-breakout statuses first
-  const mainStatuses = DEFAULT_STATUSES.filter(s => !s.isBreakout);
-  const insertedMain: Record<string, string> = {};
-
-  for (const status of mainStatuses) {
-    const [inserted] = await db.insert(taskStatuses).values(status).returning();
-    insertedMain[status.name] = inserted.id;
+// Check the workflow rule fields: wipLimit is a positive integer, allowedTransitions a list of
+// other live status ids (null clears either). Returns an error message, if any.
+async function validateRules(wipLimit: unknown, allowedTransitions: unknown, id?: string): Promise<string | null> {
+  if (wipLimit !== undefined && wipLimit !== null && (!Number.isInteger(wipLimit) || (wipLimit as number) < 1)) {
+    return 'wipLimit must be a positive whole number';
   }
-
-  // Now insert breakout statuses with their parent reference
-  const breakoutStatuses = DEFAULT_STATUSES.filter(s => s.isBreakout);
-  const inProgressId = insertedMain['In Progress'];
-
-  for (const status of breakoutStatuses) {
-    await db.insert(taskStatuses).values({
-      ...status,
-      breakoutParentId: inProgressId,
-    });
+  if (allowedTransitions === undefined || allowedTransitions === null) return null;
+  if (!Array.isArray(allowedTransitions) || allowedTransitions.some(target => typeof target !== 'string')) {
+    return 'allowedTransitions must be a list of status ids';
+  }
+  if (id && allowedTransitions.includes(id)) {
+    return 'A status cannot transition to itself';
+  }
+  const live = await db.query.taskStatuses.findMany({ where: eq(taskStatuses.isDeleted, false) });
+  const liveIds = new Set(live.map(status => status.id));
+  if (allowedTransitions.some(target => !liveIds.has(target))) {
+    return 'allowedTransitions references an unknown status';
   }
+  return null;
+}
 
-  console.log('Default task statuses seeded successfully');
+// Whether another live status can take checked-off tasks
+async function hasOtherTerminalStatus(id: string) {
+  const other = await db.query.taskStatuses.findFirst({
+    where: and(eq(taskStatuses.isTerminal, true), eq(taskStatuses.isDeleted, false), ne(taskStatuses.id, id)),
+  });
+  return !!other;
 }
 
 // GET /api/statuses - List all statuses
@@ -207,6 +131,9 @@ router.post('/', async (req, res) => {
       isBreakout,
       breakoutParentId,
       isInitialStatus,
+      isTerminal,
+      allowedTransitions,
+      wipLimit,
       sortOrder,
     } = req.body;
 
@@ -216,6 +143,10 @@ router.post('/', async (req, res) => {
         code: 'VALIDATION_ERROR',
       });
     }
+    const rulesError = await validateRules(wipLimit, allowedTransitions);
+    if (rulesError) {
+      return res.status(400).json({ error: rulesError, code: 'VALIDATION_ERROR' });
+    }
 
     // If this is marked as initial status, unset any existing initial status
     if (isInitialStatus) {
@@ -241,6 +172,9 @@ router.post('/', async (req, res) => {
       isBreakout: isBreakout ?? false,
       breakoutParentId: isBreakout ? breakoutParentId : null,
       isInitialStatus: isInitialStatus ?? false,
+      isTerminal: isTerminal ?? false,
+      allowedTransitions: allowedTransitions ?? null,
+      wipLimit: wipLimit ?? null,
       sortOrder: finalSortOrder,
     }).returning();
 
@@ -262,6 +196,9 @@ router.put('/:id', async (req, res) => {
       isBreakout,
       breakoutParentId,
       isInitialStatus,
+      isTerminal,
+      allowedTransitions,
+      wipLimit,
       sortOrder,
     } = req.body;
 
@@ -273,6 +210,18 @@ router.put('/:id', async (req, res) => {
     if (!existing) {
       return res.status(404).json({ error: 'Status not found', code: 'STATUS_NOT_FOUND' });
     }
+    const rulesError = await validateRules(wipLimit, allowedTransitions, existing.id);
+    if (rulesError) {
+      return res.status(400).json({ error: rulesError, code: 'VALIDATION_ERROR' });
+    }
+
+    // Checking a task off needs somewhere to go
+    if (isTerminal === false && existing.isTerminal && !(await hasOtherTerminalStatus(existing.id))) {
+      return res.status(400).json({
+        error: 'At least one status must be terminal',
+        code: 'VALIDATION_ERROR',
+      });
+    }
 
     // If this is marked as initial status, unset any existing initial status
     if (isInitialStatus && !existing.isInitialStatus) {
@@ -289,6 +238,9 @@ router.put('/:id', async (req, res) => {
     if (isBreakout !== undefined) updateData.isBreakout = isBreakout;
     if (breakoutParentId !== undefined) updateData.breakoutParentId = isBreakout ? breakoutParentId : null;
     if (isInitialStatus !== undefined) updateData.isInitialStatus = isInitialStatus;
+    if (isTerminal !== undefined) updateData.isTerminal = isTerminal;
+    if (allowedTransitions !== undefined) updateData.allowedTransitions = allowedTransitions;
+    if (wipLimit !== undefined) updateData.wipLimit = wipLimit;
     if (sortOrder !== undefined) updateData.sortOrder = sortOrder;
 
     const [result] = await db.update(taskStatuses)
@@ -296,6 +248,11 @@ router.put('/:id', async (req, res) => {
       .where(eq(taskStatuses.id, req.params.id))
       .returning();
 
+    // Tasks already in this status become complete or open with it
+    if (isTerminal !== undefined && isTerminal !== existing.isTerminal) {
+      await syncTaskCompletion();
+    }
+
     res.json({ data: result });
   } catch (error) {
     console.error('Failed to update status:', error);
@@ -323,6 +280,13 @@ router.delete('/:id', async (req, res) => {
       });
     }
 
+    if (existing.isTerminal && !(await hasOtherTerminalStatus(existing.id))) {
+      return res.status(400).json({
+        error: 'Cannot delete the only terminal status',
+        code: 'VALIDATION_ERROR',
+      });
+    }
+
     // Check if any tasks are using this status
     const taskCount = await db.select({ count: count() })
       .from(tasks)
@@ -0,0 +1,156 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { tasks, taskDependencies } from '../db/schema';
+import { eq, and, or, asc } from 'drizzle-orm';
+import { suggestBlockedStatus } from '../taskWorkflow';
+
+const router = Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Fields of the tasks on either side of a dependency
+const TASK_SUMMARY_COLUMNS = {
+  id: true,
+  title: true,
+  projectId: true,
+  statusId: true,
+  completedAt: true,
+  isDeleted: true,
+} as const;
+
+// Chain of blockers from one task to another (both ends included), or null if the second isn't
+// among the first's transitive blockers. Deleted tasks keep their dependencies, so they count too.
+async function findBlockerPath(fromTaskId: string, toTaskId: string): Promise<string[] | null> {
+  const edges = await db.select({
+    taskId: taskDependencies.taskId,
+    dependsOnTaskId: taskDependencies.dependsOnTaskId,
+  }).from(taskDependencies);
+
+  const blockersOf = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (!blockersOf.has(edge.taskId)) blockersOf.set(edge.taskId, []);
+    blockersOf.get(edge.taskId)!.push(edge.dependsOnTaskId);
+  }
+
+  // Breadth-first, so the reported cycle is the shortest one
+  const reachedFrom = new Map<string, string | null>([[fromTaskId, null]]);
+  const queue = [fromTaskId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === toTaskId) {
+      const path: string[] = [];
+      for (let id: string | null = current; id; id = reachedFrom.get(id) ?? null) {
+        path.unshift(id);
+      }
+      return path;
+    }
+    for (const blocker of blockersOf.get(current) ?? []) {
+      if (!reachedFrom.has(blocker)) {
+        reachedFrom.set(blocker, current);
+        queue.push(blocker);
+      }
+    }
+  }
+  return null;
+}
+
+// GET /api/task-dependencies - List dependencies between live tasks (?taskId= for one task's, either side)
+router.get('/', async (req, res) => {
+  try {
+    const taskId = req.query.taskId as string | undefined;
+    if (taskId !== undefined && !UUID_PATTERN.test(taskId)) {
+      return res.status(400).json({ error: 'taskId must be a task id', code: 'VALIDATION_ERROR' });
+    }
+
+    const result = await db.query.taskDependencies.findMany({
+      where: taskId
+        ? or(eq(taskDependencies.taskId, taskId), eq(taskDependencies.dependsOnTaskId, taskId))
+        : undefined,
+      with: {
+        task: { columns: TASK_SUMMARY_COLUMNS },
+        dependsOn: { columns: TASK_SUMMARY_COLUMNS },
+      },
+      orderBy: [asc(taskDependencies.createdAt)],
+    });
+
+    // Dependencies of deleted tasks are kept for when the task is restored
+    const live = result.filter(dependency => !dependency.task.isDeleted && !dependency.dependsOn.isDeleted);
+    res.json({ data: live, count: live.length });
+  } catch (error) {
+    console.error('Failed to fetch task dependencies:', error);
+    res.status(500).json({ error: 'Failed to fetch task dependencies', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /api/task-dependencies - Make taskId wait on dependsOnTaskId
+// Returns the dependency and, while the blocker is open, the Blocked status suggested for the task.
+// Dependencies that would close a cycle get 409 DEPENDENCY_CYCLE with the chain of task ids.
+router.post('/', async (req, res) => {
+  try {
+    const { taskId, dependsOnTaskId } = req.body;
+
+    if (typeof taskId !== 'string' || !UUID_PATTERN.test(taskId) ||
+        typeof dependsOnTaskId !== 'string' || !UUID_PATTERN.test(dependsOnTaskId)) {
+      return res.status(400).json({ error: 'taskId and dependsOnTaskId must be task ids', code: 'VALIDATION_ERROR' });
+    }
+    if (taskId === dependsOnTaskId) {
+      return res.status(400).json({ error: 'A task cannot depend on itself', code: 'VALIDATION_ERROR' });
+    }
+
+    const [task, blocker] = await Promise.all([
+      db.query.tasks.findFirst({ where: and(eq(tasks.id, taskId), eq(tasks.isDeleted, false)) }),
+      db.query.tasks.findFirst({ where: and(eq(tasks.id, dependsOnTaskId), eq(tasks.isDeleted, false)) }),
+    ]);
+    if (!task || !blocker) {
+      return res.status(400).json({ error: 'Task not found', code: 'VALIDATION_ERROR' });
+    }
+
+    let dependency = await db.query.taskDependencies.findFirst({
+      where: and(eq(taskDependencies.taskId, taskId), eq(taskDependencies.dependsOnTaskId, dependsOnTaskId)),
+    });
+    const isNew = !dependency;
+
+    if (!dependency) {
+      const cycle = await findBlockerPath(dependsOnTaskId, taskId);
+      if (cycle) {
+        return res.status(409).json({
+          error: `${task.title} already blocks ${blocker.title}${cycle.length > 2 ? ' through other tasks' : ''}`,
+          code: 'DEPENDENCY_CYCLE',
+          data: { path: [taskId, ...cycle] },
+        });
+      }
+      [dependency] = await db.insert(taskDependencies).values({ taskId, dependsOnTaskId }).returning();
+    }
+
+    res.status(isNew ? 201 : 200).json({
+      data: {
+        dependency,
+        suggestedStatus: await suggestBlockedStatus(task),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to create task dependency:', error);
+    res.status(500).json({ error: 'Failed to create task dependency', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// DELETE /api/task-dependencies/:id - Remove a dependency
+router.delete('/:id', async (req, res) => {
+  try {
+    if (!UUID_PATTERN.test(req.params.id)) {
+      return res.status(404).json({ error: 'Dependency not found', code: 'DEPENDENCY_NOT_FOUND' });
+    }
+    const [result] = await db.delete(taskDependencies)
+      .where(eq(taskDependencies.id, req.params.id))
+      .returning();
+    if (!result) {
+      return res.status(404).json({ error: 'Dependency not found', code: 'DEPENDENCY_NOT_FOUND' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error('Failed to delete task dependency:', error);
+    res.status(500).json({ error: 'Failed to delete task dependency', code: 'INTERNAL_ERROR' });
+  }
+});
+
+export default router;
@@ -0,0 +1,140 @@
+import { Router } from 'express';
+import { db } from '../db';
+import { tasks, savedTaskFilters } from '../db/schema';
+import { eq, and, asc, count } from 'drizzle-orm';
+import { TASK_FILTER_FIELDS, parseTaskFilter, savedFilterCriteria, taskFilterConditions, type TaskFilter } from '../taskFilters';
+
+const router = Router();
+
+const MAX_NAME_LENGTH = 100;
+
+type SavedFilterRow = typeof savedTaskFilters.$inferSelect;
+
+// Criteria columns for an update: every criterion, cleared unless the filter sets it
+function criteriaColumns(filter: TaskFilter) {
+  return Object.fromEntries(TASK_FILTER_FIELDS.map(key => [key, filter[key] ?? null]));
+}
+
+// Live tasks matching a saved filter, for the sidebar and widget badges
+async function countMatchingTasks(row: SavedFilterRow, today: string): Promise<number> {
+  const [result] = await db.select({ total: count() })
+    .from(tasks)
+    .where(and(eq(tasks.isDeleted, false), ...taskFilterConditions(savedFilterCriteria(row), today)));
+  return result.total;
+}
+
+function validateName(name: unknown): string | null {
+  if (typeof name !== 'string' || !name.trim()) return 'Name is required';
+  if (name.trim().length > MAX_NAME_LENGTH) return `Name must be at most ${MAX_NAME_LENGTH} characters`;
+  return null;
+}
+
+// GET /api/task-filters - List saved filters with how many tasks each matches
+router.get('/', async (req, res) => {
+  try {
+    const result = await db.query.savedTaskFilters.findMany({
+      where: eq(savedTaskFilters.isDeleted, false),
+      orderBy: [asc(savedTaskFilters.sortOrder), asc(savedTaskFilters.name)],
+    });
+
+    const today = new Date().toISOString().split('T')[0];
+    const withCounts = await Promise.all(result.map(async row => ({
+      ...row,
+      taskCount: await countMatchingTasks(row, today),
+    })));
+
+    res.json({ data: withCounts, count: withCounts.length });
+  } catch (error) {
+    console.error('Failed to fetch saved filters:', error);
+    res.status(500).json({ error: 'Failed to fetch saved filters', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /api/task-filters - Save a filter ({ name, isPinned?, ...criteria })
+router.post('/', async (req, res) => {
+  try {
+    const { name, isPinned, sortOrder } = req.body;
+
+    const nameError = validateName(name);
+    if (nameError) {
+      return res.status(400).json({ error: nameError, code: 'VALIDATION_ERROR' });
+    }
+    const { filter, error } = parseTaskFilter(req.body);
+    if (!filter) {
+      return res.status(400).json({ error, code: 'VALIDATION_ERROR' });
+    }
+
+    const [result] = await db.insert(savedTaskFilters).values({
+      name: name.trim(),
+      ...criteriaColumns(filter),
+      isPinned: isPinned === true,
+      sortOrder: typeof sortOrder === 'number' ? sortOrder : 0,
+    }).returning();
+    res.status(201).json({ data: result });
+  } catch (error) {
+    console.error('Failed to create saved filter:', error);
+    res.status(500).json({ error: 'Failed to create saved filter', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// PUT /api/task-filters/:id - Update a saved filter
+// Criteria are replaced as a whole when any is sent, so omitted ones are cleared;
+// renaming or pinning alone leaves them as they are.
+router.put('/:id', async (req, res) => {
+  try {
+    const { name, isPinned, sortOrder } = req.body;
+    const updates: Partial<typeof savedTaskFilters.$inferInsert> = { updatedAt: new Date() };
+
+    if (name !== undefined) {
+      const nameError = validateName(name);
+      if (nameError) {
+        return res.status(400).json({ error: nameError, code: 'VALIDATION_ERROR' });
+      }
+      updates.name = name.trim();
+    }
+    if (isPinned !== undefined) {
+      updates.isPinned = isPinned === true;
+    }
+    if (typeof sortOrder === 'number') {
+      updates.sortOrder = sortOrder;
+    }
+    if (TASK_FILTER_FIELDS.some(key => key in req.body)) {
+      const { filter, error } = parseTaskFilter(req.body);
+      if (!filter) {
+        return res.status(400).json({ error, code: 'VALIDATION_ERROR' });
+      }
+      Object.assign(updates, criteriaColumns(filter));
+    }
+
+    const [result] = await db.update(savedTaskFilters)
+      .set(updates)
+      .where(and(eq(savedTaskFilters.id, req.params.id), eq(savedTaskFilters.isDeleted, false)))
+      .returning();
+    if (!result) {
+      return res.status(404).json({ error: 'Saved filter not found', code: 'FILTER_NOT_FOUND' });
+    }
+    res.json({ data: result });
+  } catch (error) {
+    console.error('Failed to update saved filter:', error);
+    res.status(500).json({ error: 'Failed to update saved filter', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// DELETE /api/task-filters/:id - Soft delete a saved filter
+router.delete('/:id', async (req, res) => {
+  try {
+    const [result] = await db.update(savedTaskFilters)
+      .set({ isDeleted: true, deletedAt: new Date() })
+      .where(eq(savedTaskFilters.id, req.params.id))
+      .returning();
+    if (!result) {
+      return res.status(404).json({ error: 'Saved filter not found', code: 'FILTER_NOT_FOUND' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error('Failed to delete saved filter:', error);
+    res.status(500).json({ error: 'Failed to delete saved filter', code: 'INTERNAL_ERROR' });
+  }
+});
+
+export default router;
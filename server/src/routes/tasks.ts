@@ -1,19 +1,306 @@
 import { Router } from 'express';
 import { db } from '../db';
-import { tasks, taskTags } from '../db/schema';
-import { eq, and, gte, lte, desc, asc, isNull } from 'drizzle-orm';
+import { tasks, taskTags, taskSeries, taskStatuses, taskStatusEvents, taskDependencies, savedTaskFilters } from '../db/schema';
+import { eq, and, or, gt, gte, lte, desc, asc, isNull, inArray } from 'drizzle-orm';
+import {
+  checkStatusChange,
+  getInitialStatusId,
+  getTerminalStatusId,
+  isCompleteTask,
+  isOpenTask,
+  logStatusChanges,
+  statusFields,
+} from '../taskWorkflow';
+import { parseTaskFilter, savedFilterCriteria, taskFilterConditions } from '../taskFilters';
 
 const router = Router();
 
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECURRENCE_FREQUENCIES = ['daily', 'weekly', 'monthly'];
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+// How far ahead to look for the next occurrence before giving up
+const MAX_OCCURRENCE_SEARCH_DAYS = 5 * 366;
+// Derived from statusId (terminal statuses complete a task), so they can't be written directly
+const DERIVED_FIELDS = ['status', 'completedAt'];
+
+type TaskRow = typeof tasks.$inferSelect;
+type TaskSeriesRow = typeof taskSeries.$inferSelect;
+
+interface RecurrenceRule {
+  frequency: string;
+  interval: number;
+  weekdays: number[] | null;
+  monthDay: number | null;
+  untilDate: string | null;
+}
+
+interface SeriesSchedule {
+  frequency: string;
+  interval: number;
+  weekdays: unknown;
+  monthDay: number | null;
+  startDate: string;
+  untilDate: string | null;
+}
+
+// Live workflow status a task can be moved to
+async function findStatus(statusId: unknown) {
+  if (typeof statusId !== 'string' || !UUID_PATTERN.test(statusId)) return undefined;
+  return db.query.taskStatuses.findFirst({
+    where: and(eq(taskStatuses.id, statusId), eq(taskStatuses.isDeleted, false)),
+  });
+}
+
+// Status a task is in now, even if it has since been deleted
+async function currentStatus(task: TaskRow) {
+  if (!task.statusId) return undefined;
+  return db.query.taskStatuses.findFirst({ where: eq(taskStatuses.id, task.statusId) });
+}
+
+// Shift an ISO date string (YYYY-MM-DD) by a number of days
+function addDaysToDate(dateStr: string, days: number): string {
+  const d = new Date(`${dateStr}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+// Parse an RRULE-style string (e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20261231")
+// into the same shape as a recurrence object
+function parseRRule(rrule: string): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+  for (const part of rrule.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value = ''] = part.split('=');
+    switch (key.trim().toUpperCase()) {
+      case 'FREQ':
+        input.frequency = value.trim().toLowerCase();
+        break;
+      case 'INTERVAL':
+        input.interval = Number(value);
+        break;
+      case 'BYDAY':
+        input.weekdays = value.split(',').map(day => RRULE_WEEKDAYS.indexOf(day.trim().toUpperCase()));
+        break;
+      case 'BYMONTHDAY':
+        input.monthDay = Number(value);
+        break;
+      case 'UNTIL': {
+        const digits = value.replace(/\D/g, '').slice(0, 8);
+        input.untilDate = `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+        break;
+      }
+      default:
+        input.unsupported = key.trim();
+    }
+  }
+  return input;
+}
+
+// Validate a recurrence from a request body. Accepts an RRULE string, { rrule }, or
+// { frequency, interval, weekdays, monthDay, untilDate }.
+function parseRecurrence(raw: unknown): { rule?: RecurrenceRule; error?: string } {
+  let input: Record<string, unknown>;
+  if (typeof raw === 'string') {
+    input = parseRRule(raw);
+  } else if (raw && typeof raw === 'object') {
+    const rrule = (raw as Record<string, unknown>).rrule;
+    input = typeof rrule === 'string' ? parseRRule(rrule) : raw as Record<string, unknown>;
+  } else {
+    return { error: 'Recurrence must be an object or RRULE string' };
+  }
+
+  if (input.unsupported) {
+    return { error: `Unsupported RRULE part: ${input.unsupported}` };
+  }
+  const frequency = input.frequency;
+  if (typeof frequency !== 'string' || !RECURRENCE_FREQUENCIES.includes(frequency)) {
+    return { error: 'Recurrence frequency must be daily, weekly or monthly' };
+  }
+
+  const interval = input.interval === undefined || input.interval === null ? 1 : Number(input.interval);
+  if (!Number.isInteger(interval) || interval < 1 || interval > 365) {
+    return { error: 'Recurrence interval must be a whole number between 1 and 365' };
+  }
+
+  let weekdays: number[] | null = null;
+  if (frequency === 'weekly' && input.weekdays !== undefined && input.weekdays !== null) {
+    if (!Array.isArray(input.weekdays) || input.weekdays.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+      return { error: 'Recurrence weekdays must be numbers from 0 (Sunday) to 6 (Saturday)' };
+    }
+    weekdays = [...new Set(input.weekdays as number[])].sort((a, b) => a - b);
+    if (weekdays.length === 0) weekdays = null;
+  }
+
+  let monthDay: number | null = null;
+  if (frequency === 'monthly' && input.monthDay !== undefined && input.monthDay !== null) {
+    monthDay = Number(input.monthDay);
+    if (!Number.isInteger(monthDay) || monthDay < 1 || monthDay > 31) {
+      return { error: 'Recurrence monthDay must be between 1 and 31' };
+    }
+  }
+
+  const untilDate = input.untilDate ?? null;
+  if (untilDate !== null && (typeof untilDate !== 'string' || !DATE_PATTERN.test(untilDate))) {
+    return { error: 'Recurrence untilDate must be YYYY-MM-DD' };
+  }
+
+  return { rule: { frequency, interval, weekdays, monthDay, untilDate } };
+}
+
+// Check whether a series has an occurrence on a date. Weekly intervals count
+// Sunday-starting weeks from the start date; monthly rules clamp the day to short months.
+function occursOn(series: SeriesSchedule, dateStr: string): boolean {
+  if (dateStr < series.startDate) return false;
+  if (series.untilDate && dateStr > series.untilDate) return false;
+
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  const start = new Date(`${series.startDate}T00:00:00Z`);
+  const interval = series.interval || 1;
+
+  switch (series.frequency) {
+    case 'daily':
+      return Math.round((date.getTime() - start.getTime()) / DAY_MS) % interval === 0;
+    case 'weekly': {
+      const weekdays = Array.isArray(series.weekdays) && series.weekdays.length > 0
+        ? series.weekdays as number[]
+        : [start.getUTCDay()];
+      if (!weekdays.includes(date.getUTCDay())) return false;
+      const startWeek = start.getTime() - start.getUTCDay() * DAY_MS;
+      const dateWeek = date.getTime() - date.getUTCDay() * DAY_MS;
+      return Math.round((dateWeek - startWeek) / (7 * DAY_MS)) % interval === 0;
+    }
+    case 'monthly': {
+      const months = (date.getUTCFullYear() - start.getUTCFullYear()) * 12 + date.getUTCMonth() - start.getUTCMonth();
+      if (months % interval !== 0) return false;
+      const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+      return date.getUTCDate() === Math.min(series.monthDay ?? start.getUTCDate(), daysInMonth);
+    }
+    default:
+      return false;
+  }
+}
+
+// First occurrence strictly after a date, or null if the series has ended
+function getNextOccurrence(series: SeriesSchedule, afterDate: string): string | null {
+  let date = addDaysToDate(afterDate < series.startDate ? addDaysToDate(series.startDate, -1) : afterDate, 1);
+  for (let i = 0; i < MAX_OCCURRENCE_SEARCH_DAYS; i++) {
+    if (series.untilDate && date > series.untilDate) return null;
+    if (occursOn(series, date)) return date;
+    date = addDaysToDate(date, 1);
+  }
+  return null;
+}
+
+// All occurrences within an inclusive date range
+function getOccurrencesBetween(series: SeriesSchedule, startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDaysToDate(date, 1)) {
+    if (occursOn(series, date)) dates.push(date);
+  }
+  return dates;
+}
+
+// Create task rows for occurrence dates. Dates that already have a row - including
+// a deleted one, which marks a skipped occurrence - are left alone.
+async function materializeOccurrences(series: TaskSeriesRow, dates: string[]): Promise<TaskRow[]> {
+  if (dates.length === 0) return [];
+
+  const initialStatusId = await getInitialStatusId();
+
+  const created = await db.insert(tasks).values(dates.map(date => ({
+    title: series.title,
+    description: series.description,
+    priority: series.priority,
+    projectId: series.projectId,
+    timeBlockId: series.timeBlockId,
+    plannedDate: date,
+    statusId: initialStatusId,
+    seriesId: series.id,
+    seriesDate: date,
+  }))).onConflictDoNothing().returning();
+  await logStatusChanges(created.map(task => ({ taskId: task.id, fromStatusId: null, toStatusId: task.statusId })));
+
+  const tagIds = Array.isArray(series.tagIds) ? series.tagIds as string[] : [];
+  if (created.length > 0 && tagIds.length > 0) {
+    await db.insert(taskTags).values(created.flatMap(task => tagIds.map(tagId => ({ taskId: task.id, tagId }))));
+  }
+  return created;
+}
+
+// Create upcoming occurrences of every active series within a date range.
+// Past dates are never backfilled.
+async function materializeSeriesRange(startDate: string, endDate: string) {
+  const today = new Date().toISOString().split('T')[0];
+  const from = startDate > today ? startDate : today;
+  if (from > endDate) return;
+
+  const activeSeries = await db.query.taskSeries.findMany({
+    where: and(
+      eq(taskSeries.isDeleted, false),
+      lte(taskSeries.startDate, endDate),
+      or(isNull(taskSeries.untilDate), gte(taskSeries.untilDate, from))
+    ),
+  });
+  for (const series of activeSeries) {
+    await materializeOccurrences(series, getOccurrencesBetween(series, from, endDate));
+  }
+}
+
+// Spawn the occurrence after a completed one. Late completions skip ahead to today
+// rather than spawning the missed dates in between.
+async function spawnNextOccurrence(task: TaskRow) {
+  if (!task.seriesId || !task.seriesDate) return;
+
+  const series = await db.query.taskSeries.findFirst({
+    where: and(eq(taskSeries.id, task.seriesId), eq(taskSeries.isDeleted, false)),
+  });
+  if (!series) return;
+
+  const yesterday = addDaysToDate(new Date().toISOString().split('T')[0], -1);
+  const next = getNextOccurrence(series, task.seriesDate > yesterday ? task.seriesDate : yesterday);
+  if (next) {
+    await materializeOccurrences(series, [next]);
+  }
+}
+
+// Remove not-yet-completed occurrences after a date so they can be regenerated from a new rule
+async function removePendingOccurrences(seriesId: string, afterDate: string) {
+  const pending = await db.select({ id: tasks.id }).from(tasks).where(and(
+    eq(tasks.seriesId, seriesId),
+    gt(tasks.seriesDate, afterDate),
+    isOpenTask()
+  ));
+  if (pending.length === 0) return;
+
+  const ids = pending.map(task => task.id);
+  await db.delete(taskTags).where(inArray(taskTags.taskId, ids));
+  await db.delete(taskStatusEvents).where(inArray(taskStatusEvents.taskId, ids));
+  await db.delete(taskDependencies).where(or(
+    inArray(taskDependencies.taskId, ids),
+    inArray(taskDependencies.dependsOnTaskId, ids)
+  ));
+  await db.delete(tasks).where(inArray(tasks.id, ids));
+}
+
 // GET /api/tasks - List all tasks (with optional filters)
+// Besides the params below, accepts the TaskFilter criteria (see taskFilters.ts) - id lists
+// comma-separated, e.g. ?tagIds=a,b&tagMatch=all&priorityMax=1&overdue=true - and
+// ?filterId= to apply a saved filter on top of them.
 router.get('/', async (req, res) => {
   try {
     const includeDeleted = req.query.includeDeleted === 'true';
     const projectId = req.query.projectId as string | undefined;
     const timeBlockId = req.query.timeBlockId as string | undefined;
-    const status = req.query.status as string | undefined;
+    const statusId = req.query.statusId as string | undefined;
     const startDate = req.query.startDate as string | undefined;
     const endDate = req.query.endDate as string | undefined;
+    const filterId = req.query.filterId as string | undefined;
+
+    const { filter, error } = parseTaskFilter(req.query as Record<string, unknown>);
+    if (!filter) {
+      return res.status(400).json({ error, code: 'VALIDATION_ERROR' });
+    }
 
     // Build where conditions
     const conditions = [];
@@ -26,8 +313,8 @@ router.get('/', async (req, res) => {
     if (timeBlockId) {
       conditions.push(eq(tasks.timeBlockId, timeBlockId));
     }
-    if (status) {
-      conditions.push(eq(tasks.status, status));
+    if (statusId) {
+      conditions.push(eq(tasks.statusId, statusId));
     }
     if (startDate) {
       conditions.push(gte(tasks.plannedDate, startDate));
@@ -36,12 +323,27 @@ router.get('/', async (req, res) => {
       conditions.push(lte(tasks.plannedDate, endDate));
     }
 
+    const today = new Date().toISOString().split('T')[0];
+    conditions.push(...taskFilterConditions(filter, today));
+    if (filterId !== undefined) {
+      const saved = UUID_PATTERN.test(filterId)
+        ? await db.query.savedTaskFilters.findFirst({
+          where: and(eq(savedTaskFilters.id, filterId), eq(savedTaskFilters.isDeleted, false)),
+        })
+        : undefined;
+      if (!saved) {
+        return res.status(404).json({ error: 'Saved filter not found', code: 'FILTER_NOT_FOUND' });
+      }
+      conditions.push(...taskFilterConditions(savedFilterCriteria(saved), today));
+    }
+
     const result = await db.query.tasks.findMany({
       where: conditions.length > 0 ? and(...conditions) : undefined,
       with: {
         project: true,
         timeBlock: true,
         taskStatus: true,
+        series: true,
         taskTags: {
           with: { tag: true }
         },
@@ -93,23 +395,29 @@ router.get('/unscheduled', async (req, res) => {
   }
 });
 
-// GET /api/tasks/week/:weekStart - Get tasks for a specific week
+// GET /api/tasks/week/:weekStart - Get tasks for a specific week (materializes recurring occurrences)
 router.get('/week/:weekStart', async (req, res) => {
   try {
-    const weekStart = new Date(req.params.weekStart);
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekEnd.getDate() + 6);
+    const weekStart = req.params.weekStart;
+    if (!DATE_PATTERN.test(weekStart)) {
+      return res.status(400).json({ error: 'weekStart must be YYYY-MM-DD', code: 'VALIDATION_ERROR' });
+    }
+    const weekEnd = addDaysToDate(weekStart, 6);
+
+    // Make sure recurring tasks have rows for the upcoming days of this week
+    await materializeSeriesRange(weekStart, weekEnd);
 
     const result = await db.query.tasks.findMany({
       where: and(
         eq(tasks.isDeleted, false),
-        gte(tasks.plannedDate, weekStart.toISOString().split('T')[0]),
-        lte(tasks.plannedDate, weekEnd.toISOString().split('T')[0])
+        gte(tasks.plannedDate, weekStart),
+        lte(tasks.plannedDate, weekEnd)
       ),
       with: {
         project: true,
         timeBlock: true,
         taskStatus: true,
+        series: true,
         taskTags: {
           with: { tag: true }
         },
@@ -139,6 +447,7 @@ router.get('/:id', async (req, res) => {
         project: true,
         timeBlock: true,
         taskStatus: true,
+        series: true,
         taskTags: {
           with: { tag: true }
         },
@@ -162,14 +471,76 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+// GET /api/tasks/:id/history - Status changes of a task, oldest first
+router.get('/:id/history', async (req, res) => {
+  try {
+    const task = await db.query.tasks.findFirst({
+      where: eq(tasks.id, req.params.id),
+    });
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found', code: 'TASK_NOT_FOUND' });
+    }
+
+    const result = await db.query.taskStatusEvents.findMany({
+      where: eq(taskStatusEvents.taskId, req.params.id),
+      with: {
+        fromStatus: true,
+        toStatus: true,
+      },
+      orderBy: [asc(taskStatusEvents.changedAt)],
+    });
+    res.json({ data: result, count: result.length });
+  } catch (error) {
+    console.error('Failed to fetch task history:', error);
+    res.status(500).json({ error: 'Failed to fetch task history', code: 'INTERNAL_ERROR' });
+  }
+});
+
 // POST /api/tasks - Create task
 router.post('/', async (req, res) => {
   try {
-    const { title, description, plannedDate, status, statusId, parentTaskId, priority, projectId, timeBlockId, sortOrder, tagIds } = req.body;
+    const { id, title, description, plannedDate, statusId, parentTaskId, priority, projectId, timeBlockId, sortOrder, tagIds, recurrence } = req.body;
 
     if (!title) {
       return res.status(400).json({ error: 'Title is required', code: 'VALIDATION_ERROR' });
     }
+    const derivedField = DERIVED_FIELDS.find(field => req.body[field] !== undefined);
+    if (derivedField) {
+      return res.status(400).json({ error: `${derivedField} is derived from statusId`, code: 'VALIDATION_ERROR' });
+    }
+
+    // Offline clients pick the id up front; replaying the same create returns the existing task
+    if (id !== undefined) {
+      if (typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+        return res.status(400).json({ error: 'id must be a UUID', code: 'VALIDATION_ERROR' });
+      }
+      const existing = await db.query.tasks.findFirst({ where: eq(tasks.id, id) });
+      if (existing) {
+        return res.json({ data: existing });
+      }
+    }
+
+    // Recurring tasks: validate the rule and find the first occurrence on or after plannedDate
+    let rule: RecurrenceRule | undefined;
+    let firstOccurrence: string | null = null;
+    if (recurrence) {
+      if (parentTaskId) {
+        return res.status(400).json({ error: 'Subtasks cannot recur', code: 'VALIDATION_ERROR' });
+      }
+      if (plannedDate && !DATE_PATTERN.test(plannedDate)) {
+        return res.status(400).json({ error: 'plannedDate must be YYYY-MM-DD', code: 'VALIDATION_ERROR' });
+      }
+      const parsed = parseRecurrence(recurrence);
+      if (!parsed.rule) {
+        return res.status(400).json({ error: parsed.error, code: 'VALIDATION_ERROR' });
+      }
+      rule = parsed.rule;
+      const startDate = plannedDate || new Date().toISOString().split('T')[0];
+      firstOccurrence = getNextOccurrence({ ...rule, startDate }, addDaysToDate(startDate, -1));
+      if (!firstOccurrence) {
+        return res.status(400).json({ error: 'Recurrence has no occurrences', code: 'VALIDATION_ERROR' });
+      }
+    }
 
     // Validate parentTaskId exists if provided
     if (parentTaskId) {
@@ -181,18 +552,45 @@ router.post('/', async (req, res) => {
       }
     }
 
+    // New tasks start in the initial status unless placed in a column
+    const status = await findStatus(statusId ?? await getInitialStatusId());
+    if (statusId !== undefined && !status) {
+      return res.status(400).json({ error: 'Status not found', code: 'VALIDATION_ERROR' });
+    }
+    const problem = status && await checkStatusChange({ parentTaskId }, null, status);
+    if (problem) {
+      return res.status(409).json(problem);
+    }
+
+    let series: TaskSeriesRow | undefined;
+    if (rule && firstOccurrence) {
+      [series] = await db.insert(taskSeries).values({
+        title,
+        description,
+        priority,
+        projectId,
+        timeBlockId,
+        tagIds: Array.isArray(tagIds) ? tagIds : [],
+        ...rule,
+        startDate: firstOccurrence,
+      }).returning();
+    }
+
     const [result] = await db.insert(tasks).values({
+      id,
       title,
       description,
-      plannedDate,
-      status: status || 'pending',
-      statusId,
+      plannedDate: firstOccurrence ?? plannedDate,
+      seriesId: series?.id,
+      seriesDate: firstOccurrence,
+      ...(status && statusFields(status)),
       parentTaskId,
       priority,
       projectId,
       timeBlockId,
       sortOrder,
     }).returning();
+    await logStatusChanges([{ taskId: result.id, fromStatusId: null, toStatusId: result.statusId }]);
 
     // Add tags if provided
     if (tagIds && Array.isArray(tagIds) && tagIds.length > 0) {
@@ -210,6 +608,7 @@ router.post('/', async (req, res) => {
         project: true,
         timeBlock: true,
         taskStatus: true,
+        series: true,
         taskTags: {
           with: { tag: true }
         },
@@ -231,13 +630,39 @@ router.post('/', async (req, res) => {
   }
 });
 
-// PUT /api/tasks/:id - Update task
+// PUT /api/tasks/:id - Update task (scope: 'this' | 'future' for recurring tasks)
 router.put('/:id', async (req, res) => {
   try {
-    const { title, description, plannedDate, status, statusId, parentTaskId, completedAt, priority, projectId, timeBlockId, sortOrder, tagIds } = req.body;
+    const { title, description, plannedDate, statusId, parentTaskId, priority, projectId, timeBlockId, sortOrder, tagIds, recurrence } = req.body;
+    // 'this' edits only this occurrence; 'future' also updates the series and its upcoming occurrences
+    const scope = req.body.scope ?? 'this';
 
-    console.log('PUT /api/tasks/:id - body:', req.body);
-    console.log('PUT /api/tasks/:id - statusId:', statusId);
+    if (scope !== 'this' && scope !== 'future') {
+      return res.status(400).json({ error: 'Scope must be "this" or "future"', code: 'VALIDATION_ERROR' });
+    }
+    const derivedField = DERIVED_FIELDS.find(field => req.body[field] !== undefined);
+    if (derivedField) {
+      return res.status(400).json({ error: `${derivedField} is derived from statusId`, code: 'VALIDATION_ERROR' });
+    }
+
+    const existing = await db.query.tasks.findFirst({
+      where: eq(tasks.id, req.params.id),
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Task not found', code: 'TASK_NOT_FOUND' });
+    }
+
+    let rule: RecurrenceRule | undefined;
+    if (recurrence) {
+      const parsed = parseRecurrence(recurrence);
+      if (!parsed.rule) {
+        return res.status(400).json({ error: parsed.error, code: 'VALIDATION_ERROR' });
+      }
+      rule = parsed.rule;
+    }
+    if (recurrence !== undefined && existing.seriesId && scope !== 'future') {
+      return res.status(400).json({ error: 'Recurrence changes apply to all future occurrences; use scope "future"', code: 'VALIDATION_ERROR' });
+    }
 
     // Validate parentTaskId - can't be self or create circular reference
     if (parentTaskId !== undefined && parentTaskId !== null) {
@@ -252,27 +677,102 @@ router.put('/:id', async (req, res) => {
       }
     }
 
+    const status = statusId !== undefined ? await findStatus(statusId) : undefined;
+    if (statusId !== undefined && !status) {
+      return res.status(400).json({ error: 'Status not found', code: 'VALIDATION_ERROR' });
+    }
+    const problem = status && await checkStatusChange(
+      { id: existing.id, parentTaskId: parentTaskId !== undefined ? parentTaskId : existing.parentTaskId },
+      await currentStatus(existing),
+      status
+    );
+    if (problem) {
+      return res.status(409).json(problem);
+    }
+
     const updateData: Record<string, unknown> = { updatedAt: new Date() };
     if (title !== undefined) updateData.title = title;
     if (description !== undefined) updateData.description = description;
     if (plannedDate !== undefined) updateData.plannedDate = plannedDate;
-    if (status !== undefined) {
-      updateData.status = status;
-      if (status === 'complete') {
-        updateData.completedAt = new Date();
-      } else {
-        updateData.completedAt = null;
-      }
-    }
-    if (statusId !== undefined) updateData.statusId = statusId;
+    if (status) Object.assign(updateData, statusFields(status, existing));
     if (parentTaskId !== undefined) updateData.parentTaskId = parentTaskId;
-    console.log('PUT /api/tasks/:id - updateData:', updateData);
-    if (completedAt !== undefined) updateData.completedAt = completedAt ? new Date(completedAt) : null;
     if (priority !== undefined) updateData.priority = priority;
     if (projectId !== undefined) updateData.projectId = projectId;
     if (timeBlockId !== undefined) updateData.timeBlockId = timeBlockId;
     if (sortOrder !== undefined) updateData.sortOrder = sortOrder;
 
+    // Template fields shared by the series and its upcoming occurrences
+    const templateData: Record<string, unknown> = {};
+    if (title !== undefined) templateData.title = title;
+    if (description !== undefined) templateData.description = description;
+    if (priority !== undefined) templateData.priority = priority;
+    if (projectId !== undefined) templateData.projectId = projectId;
+    if (timeBlockId !== undefined) templateData.timeBlockId = timeBlockId;
+
+    if (rule && !existing.seriesId) {
+      // Turn a one-off task into the first occurrence of a new series
+      const startDate = (plannedDate ?? existing.plannedDate) || new Date().toISOString().split('T')[0];
+      const seriesTagIds = Array.isArray(tagIds)
+        ? tagIds
+        : (await db.select({ tagId: taskTags.tagId }).from(taskTags).where(eq(taskTags.taskId, existing.id))).map(t => t.tagId);
+      const [series] = await db.insert(taskSeries).values({
+        title: existing.title,
+        description: existing.description,
+        priority: existing.priority,
+        projectId: existing.projectId,
+        timeBlockId: existing.timeBlockId,
+        ...templateData,
+        tagIds: seriesTagIds,
+        ...rule,
+        startDate,
+      }).returning();
+      updateData.plannedDate = startDate;
+      updateData.seriesId = series.id;
+      updateData.seriesDate = startDate;
+    } else if (scope === 'future' && existing.seriesId && existing.seriesDate) {
+      const seriesData: Record<string, unknown> = { ...templateData, updatedAt: new Date() };
+      if (Array.isArray(tagIds)) seriesData.tagIds = tagIds;
+
+      if (recurrence === null) {
+        // Stop repeating after this occurrence
+        seriesData.untilDate = existing.seriesDate;
+        await removePendingOccurrences(existing.seriesId, existing.seriesDate);
+      } else if (rule) {
+        // Re-anchor the new rule on this occurrence and regenerate what comes after it
+        Object.assign(seriesData, rule, { startDate: existing.seriesDate });
+        await removePendingOccurrences(existing.seriesId, existing.seriesDate);
+      } else {
+        const pendingFuture = and(
+          eq(tasks.seriesId, existing.seriesId),
+          gt(tasks.seriesDate, existing.seriesDate),
+          isOpenTask()
+        );
+        if (Object.keys(templateData).length > 0) {
+          await db.update(tasks).set({ ...templateData, updatedAt: new Date() }).where(pendingFuture);
+        }
+        if (Array.isArray(tagIds)) {
+          const futureIds = (await db.select({ id: tasks.id }).from(tasks).where(pendingFuture)).map(t => t.id);
+          if (futureIds.length > 0) {
+            await db.delete(taskTags).where(inArray(taskTags.taskId, futureIds));
+            if (tagIds.length > 0) {
+              await db.insert(taskTags).values(futureIds.flatMap(taskId => tagIds.map((tagId: string) => ({ taskId, tagId }))));
+            }
+          }
+        }
+      }
+
+      const [series] = await db.update(taskSeries)
+        .set(seriesData)
+        .where(eq(taskSeries.id, existing.seriesId))
+        .returning();
+
+      // Keep the next occurrence visible after the rule changed
+      if (rule && series) {
+        const next = getNextOccurrence(series, existing.seriesDate);
+        if (next) await materializeOccurrences(series, [next]);
+      }
+    }
+
     const [result] = await db.update(tasks)
       .set(updateData)
       .where(eq(tasks.id, req.params.id))
@@ -281,6 +781,14 @@ router.put('/:id', async (req, res) => {
     if (!result) {
       return res.status(404).json({ error: 'Task not found', code: 'TASK_NOT_FOUND' });
     }
+    if (status) {
+      await logStatusChanges([{ taskId: result.id, fromStatusId: existing.statusId, toStatusId: status.id }]);
+    }
+
+    // Completing an occurrence of a recurring task spawns the next one
+    if (status?.isTerminal && !existing.completedAt) {
+      await spawnNextOccurrence(result);
+    }
 
     // Update tags if provided
     if (tagIds !== undefined && Array.isArray(tagIds)) {
@@ -304,6 +812,7 @@ router.put('/:id', async (req, res) => {
         project: true,
         timeBlock: true,
         taskStatus: true,
+        series: true,
         taskTags: {
           with: { tag: true }
         },
@@ -325,31 +834,56 @@ router.put('/:id', async (req, res) => {
   }
 });
 
-// PATCH /api/tasks/:id/status - Quick status update
+// PATCH /api/tasks/:id/status - Quick status update (spawns the next occurrence of recurring tasks)
+// Body: { statusId } to move to a status, or { complete } to check off (terminal status) or
+// reopen (initial status). The legacy { status: 'complete' | 'pending' } maps to complete.
+// Moves against the workflow rules or into a full status get 409 INVALID_TRANSITION / WIP_LIMIT_EXCEEDED.
 router.patch('/:id/status', async (req, res) => {
   try {
-    const { status } = req.body;
+    const { statusId } = req.body;
+    const complete = req.body.complete ?? (req.body.status !== undefined ? req.body.status === 'complete' : undefined);
 
-    if (!status) {
-      return res.status(400).json({ error: 'Status is required', code: 'VALIDATION_ERROR' });
+    if (statusId === undefined && typeof complete !== 'boolean') {
+      return res.status(400).json({ error: 'statusId or complete is required', code: 'VALIDATION_ERROR' });
     }
 
-    const updateData: Record<string, unknown> = { status, updatedAt: new Date() };
-    if (status === 'complete') {
-      updateData.completedAt = new Date();
-    } else {
-      updateData.completedAt = null;
+    const existing = await db.query.tasks.findFirst({
+      where: eq(tasks.id, req.params.id),
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Task not found', code: 'TASK_NOT_FOUND' });
+    }
+
+    // Checking off an already-complete task (or reopening an open one) keeps its status
+    const wasComplete = !!existing.completedAt;
+    const targetStatusId = statusId !== undefined
+      ? statusId
+      : complete === wasComplete
+        ? existing.statusId
+        : complete ? await getTerminalStatusId() : await getInitialStatusId();
+    const status = await findStatus(targetStatusId);
+    if (!status) {
+      return res.status(400).json({
+        error: statusId !== undefined ? 'Status not found' : `No ${complete ? 'terminal' : 'initial'} status configured`,
+        code: 'VALIDATION_ERROR',
+      });
+    }
+    const problem = await checkStatusChange(existing, await currentStatus(existing), status);
+    if (problem) {
+      return res.status(409).json(problem);
     }
 
     const [result] = await db.update(tasks)
-      .set(updateData)
+      .set({ ...statusFields(status, existing), updatedAt: new Date() })
       .where(eq(tasks.id, req.params.id))
       .returning();
+    await logStatusChanges([{ taskId: result.id, fromStatusId: existing.statusId, toStatusId: status.id }]);
 
-    if (!result) {
-      return res.status(404).json({ error: 'Task not found', code: 'TASK_NOT_FOUND' });
+    // Completing an occurrence of a recurring task spawns the next one
+    if (status.isTerminal && !wasComplete) {
+      await spawnNextOccurrence(result);
     }
-    res.json({ data: result });
+    res.json({ data: { ...result, taskStatus: status } });
   } catch (error) {
     console.error('Failed to update task status:', error);
     res.status(500).json({ error: 'Failed to update task status', code: 'INTERNAL_ERROR' });
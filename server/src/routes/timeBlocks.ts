@@ -1,10 +1,118 @@
 import { Router } from 'express';
 import { db } from '../db';
-import { timeBlocks, timeBlockPriorities, tasks, habitEntries } from '../db/schema';
+import { timeBlocks, timeBlockPriorities, tasks, habitEntries, activeTimer, focusSessions } from '../db/schema';
 import { eq, and, asc, desc } from 'drizzle-orm';
+import { publishChange } from '../events';
 
 const router = Router();
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIMER_MODES = ['pomodoro', 'stopwatch', 'countdown'];
+const TIMER_PHASES = ['work', 'break', 'longBreak'];
+const MIN_FOCUS_SESSION_SECONDS = 60; // Shorter runs (accidental starts) aren't logged as focus sessions
+const COMPLETE_TOLERANCE_SECONDS = 2; // A client's countdown may reach zero slightly before the server's
+const START_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/; // HH:MM, 24-hour
+
+type ActiveTimer = typeof activeTimer.$inferSelect;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+interface TimerPhaseInput {
+  phase?: string;
+  durationSeconds?: number;
+  completedSessions?: number;
+  date?: string; // Client's effective day for the run being ended (focus session date)
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+// Validate the phase fields shared by start/complete/reset; returns an error message or null
+function validateTimerPhase(body: TimerPhaseInput, mode: string): string | null {
+  if (body.phase !== undefined && (!TIMER_PHASES.includes(body.phase) || (mode !== 'pomodoro' && body.phase !== 'work'))) {
+    return 'phase must be work, break or longBreak (work outside pomodoro mode)';
+  }
+  if (body.durationSeconds !== undefined && !isNonNegativeInteger(body.durationSeconds)) {
+    return 'durationSeconds must be a non-negative whole number';
+  }
+  if (body.completedSessions !== undefined && !isNonNegativeInteger(body.completedSessions)) {
+    return 'completedSessions must be a non-negative whole number';
+  }
+  if (body.date !== undefined && (typeof body.date !== 'string' || !DATE_PATTERN.test(body.date))) {
+    return 'date must be in YYYY-MM-DD format';
+  }
+  return null;
+}
+
+// Validate the day calendar fields; returns an error message or null
+function validateSchedule(startTime: unknown, weekdays: unknown, autoStart: unknown): string | null {
+  if (startTime != null && (typeof startTime !== 'string' || !START_TIME_PATTERN.test(startTime))) {
+    return 'startTime must be a time in HH:MM format';
+  }
+  if (weekdays != null && (!Array.isArray(weekdays) || !weekdays.every(day => Number.isInteger(day) && day >= 0 && day <= 6))) {
+    return 'weekdays must contain weekday numbers 0-6 (0 = Sunday)';
+  }
+  if (autoStart !== undefined && typeof autoStart !== 'boolean') {
+    return 'autoStart must be a boolean';
+  }
+  if (autoStart === true && !startTime) {
+    return 'autoStart requires a startTime';
+  }
+  return null;
+}
+
+// Sorted, de-duplicated weekdays; an empty list means every day, stored as NULL
+function normalizeWeekdays(weekdays: unknown): number[] | null {
+  if (!Array.isArray(weekdays) || weekdays.length === 0) return null;
+  return [...new Set(weekdays as number[])].sort((a, b) => a - b);
+}
+
+// Seconds the current run has actually been running (pauses excluded)
+function getElapsedSeconds(timer: ActiveTimer, now: Date): number {
+  if (!timer.startedAt) return 0;
+  const until = timer.pausedAt ?? now;
+  return Math.max(0, Math.floor((until.getTime() - timer.startedAt.getTime()) / 1000) - timer.pausedSeconds);
+}
+
+// Timer as sent to clients - elapsed/remaining are computed against the server clock
+function serializeTimer(timer: ActiveTimer | undefined, now: Date) {
+  if (!timer) return null;
+  const elapsedSeconds = getElapsedSeconds(timer, now);
+  return {
+    ...timer,
+    elapsedSeconds,
+    remainingSeconds: timer.mode === 'stopwatch' ? 0 : Math.max(0, timer.durationSeconds - elapsedSeconds),
+    serverTime: now.toISOString(),
+  };
+}
+
+// Log the run a timer is ending as a focus session (nothing for idle timers or very short runs)
+async function logTimerRun(tx: Transaction, timer: ActiveTimer, now: Date, date: string | undefined) {
+  if (!timer.startedAt || (timer.status !== 'running' && timer.status !== 'paused')) return;
+
+  const elapsedSeconds = getElapsedSeconds(timer, now);
+  const durationSeconds = timer.mode === 'stopwatch' ? elapsedSeconds : Math.min(elapsedSeconds, timer.durationSeconds);
+  if (durationSeconds < MIN_FOCUS_SESSION_SECONDS) return;
+
+  await tx.insert(focusSessions).values({
+    blockId: timer.blockId,
+    taskId: timer.taskId,
+    priorityId: timer.priorityId,
+    mode: timer.mode,
+    phase: timer.phase,
+    date: date ?? timer.startedAt.toISOString().split('T')[0],
+    startedAt: timer.startedAt,
+    endedAt: timer.pausedAt ?? now,
+    durationSeconds,
+    interruptions: timer.interruptions,
+    completed: timer.mode !== 'stopwatch' && elapsedSeconds + COMPLETE_TOLERANCE_SECONDS >= timer.durationSeconds,
+  });
+}
+
+// Fields that end the current run and leave the timer ready for another one
+const CLEARED_RUN = { startedAt: null, pausedAt: null, pausedSeconds: 0, interruptions: 0 };
+
 // GET /api/time-blocks - List all time blocks
 router.get('/', async (req, res) => {
   try {
@@ -16,6 +124,10 @@ router.get('/', async (req, res) => {
         priorities: {
           orderBy: [asc(timeBlockPriorities.sortOrder)],
         },
+        tasks: {
+          where: eq(tasks.isDeleted, false),
+          orderBy: [asc(tasks.sortOrder)],
+        },
       },
       orderBy: [asc(timeBlocks.sortOrder)],
     });
@@ -26,6 +138,17 @@ router.get('/', async (req, res) => {
   }
 });
 
+// GET /api/time-blocks/timer - The active timer (or null), shared by every client
+router.get('/timer', async (req, res) => {
+  try {
+    const timer = await db.query.activeTimer.findFirst();
+    res.json({ data: serializeTimer(timer, new Date()) });
+  } catch (error) {
+    console.error('Failed to fetch timer:', error);
+    res.status(500).json({ error: 'Failed to fetch timer', code: 'INTERNAL_ERROR' });
+  }
+});
+
 // GET /api/time-blocks/:id - Get single time block
 router.get('/:id', async (req, res) => {
   try {
@@ -55,7 +178,7 @@ router.get('/:id', async (req, res) => {
 // POST /api/time-blocks - Create time block
 router.post('/', async (req, res) => {
   try {
-    const { name, durationMinutes, linkedHabitId, sortOrder } = req.body;
+    const { name, durationMinutes, linkedHabitId, sortOrder, startTime, weekdays, autoStart } = req.body;
 
     if (!name) {
       return res.status(400).json({ error: 'Name is required', code: 'VALIDATION_ERROR' });
@@ -63,12 +186,19 @@ router.post('/', async (req, res) => {
     if (!durationMinutes || durationMinutes <= 0) {
       return res.status(400).json({ error: 'Duration must be a positive number', code: 'VALIDATION_ERROR' });
     }
+    const scheduleError = validateSchedule(startTime, weekdays, autoStart);
+    if (scheduleError) {
+      return res.status(400).json({ error: scheduleError, code: 'VALIDATION_ERROR' });
+    }
 
     const [result] = await db.insert(timeBlocks).values({
       name,
       durationMinutes,
       linkedHabitId,
       sortOrder,
+      startTime: startTime || null,
+      weekdays: normalizeWeekdays(weekdays),
+      autoStart: autoStart ?? false,
     }).returning();
 
     // Fetch complete time block with relations
@@ -87,9 +217,29 @@ router.post('/', async (req, res) => {
 // PUT /api/time-blocks/:id - Update time block
 router.put('/:id', async (req, res) => {
   try {
-    const { name, durationMinutes, linkedHabitId, sortOrder } = req.body;
+    const { name, durationMinutes, linkedHabitId, sortOrder, startTime, weekdays, autoStart } = req.body;
+
+    // autoStart needs a startTime - from this request or the stored block
+    const existing = startTime === undefined && autoStart === true
+      ? await db.query.timeBlocks.findFirst({ where: eq(timeBlocks.id, req.params.id) })
+      : undefined;
+    const scheduleError = validateSchedule(startTime !== undefined ? startTime : existing?.startTime, weekdays, autoStart);
+    if (scheduleError) {
+      return res.status(400).json({ error: scheduleError, code: 'VALIDATION_ERROR' });
+    }
+
     const [result] = await db.update(timeBlocks)
-      .set({ name, durationMinutes, linkedHabitId, sortOrder, updatedAt: new Date() })
+      .set({
+        name,
+        durationMinutes,
+        linkedHabitId,
+        sortOrder,
+        startTime: startTime !== undefined ? (startTime || null) : undefined,
+        weekdays: weekdays !== undefined ? normalizeWeekdays(weekdays) : undefined,
+        // Unscheduling a block also turns off auto-start
+        autoStart: startTime === null || startTime === '' ? false : autoStart,
+        updatedAt: new Date(),
+      })
       .where(eq(timeBlocks.id, req.params.id))
       .returning();
     if (!result) {
@@ -178,6 +328,8 @@ router.post('/:id/complete', async (req, res) => {
           status: 'complete',
         });
       }
+
+      publishChange({ entity: 'habitEntries', id: block.linkedHabitId, clientId: req.get('X-Client-Id') || undefined });
     }
 
     res.json({ data: { completed: true, date: today, linkedHabitCompleted: !!block.linkedHabitId } });
@@ -187,6 +339,247 @@ router.post('/:id/complete', async (req, res) => {
   }
 });
 
+// === Active Timer ===
+// One timer exists at a time. Runs that end (stop, reset, complete, or starting over)
+// are logged as focus sessions.
+
+// POST /api/time-blocks/:id/timer/start - Start a run on this block (replaces any other timer)
+router.post('/:id/timer/start', async (req, res) => {
+  try {
+    const { mode, phase = 'work', durationSeconds, completedSessions, taskId, priorityId, date } = req.body;
+
+    if (!TIMER_MODES.includes(mode)) {
+      return res.status(400).json({ error: `mode must be one of: ${TIMER_MODES.join(', ')}`, code: 'VALIDATION_ERROR' });
+    }
+    const phaseError = validateTimerPhase({ phase, durationSeconds, completedSessions, date }, mode);
+    if (phaseError) {
+      return res.status(400).json({ error: phaseError, code: 'VALIDATION_ERROR' });
+    }
+    if (mode !== 'stopwatch' && !durationSeconds) {
+      return res.status(400).json({ error: 'durationSeconds is required for pomodoro and countdown', code: 'VALIDATION_ERROR' });
+    }
+    for (const [field, value] of Object.entries({ taskId, priorityId })) {
+      if (value != null && (typeof value !== 'string' || !UUID_PATTERN.test(value))) {
+        return res.status(400).json({ error: `${field} must be a UUID`, code: 'VALIDATION_ERROR' });
+      }
+    }
+    if (!UUID_PATTERN.test(req.params.id) || !(await db.query.timeBlocks.findFirst({ where: eq(timeBlocks.id, req.params.id) }))) {
+      return res.status(404).json({ error: 'Time block not found', code: 'TIME_BLOCK_NOT_FOUND' });
+    }
+
+    const now = new Date();
+    const timer = await db.transaction(async (tx) => {
+      const existing = await tx.query.activeTimer.findFirst();
+      // Staying on the same block keeps the pomodoro count and what's being worked on
+      const sameBlock = existing?.blockId === req.params.id;
+      if (existing) {
+        await logTimerRun(tx, existing, now, date);
+        await tx.delete(activeTimer);
+      }
+
+      const [created] = await tx.insert(activeTimer).values({
+        blockId: req.params.id,
+        taskId: taskId !== undefined ? taskId : sameBlock ? existing.taskId : null,
+        priorityId: priorityId !== undefined ? priorityId : sameBlock ? existing.priorityId : null,
+        mode,
+        phase,
+        status: 'running',
+        durationSeconds: mode === 'stopwatch' ? 0 : durationSeconds,
+        startedAt: now,
+        completedSessions: completedSessions ?? (sameBlock ? existing.completedSessions : 0),
+      }).returning();
+      return created;
+    });
+
+    res.json({ data: serializeTimer(timer, now) });
+  } catch (error) {
+    console.error('Failed to start timer:', error);
+    res.status(500).json({ error: 'Failed to start timer', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /api/time-blocks/:id/timer/pause - Pause the running timer
+router.post('/:id/timer/pause', async (req, res) => {
+  try {
+    const timer = await db.query.activeTimer.findFirst({ where: eq(activeTimer.blockId, req.params.id) });
+    if (!timer) {
+      return res.status(404).json({ error: 'No timer for this time block', code: 'TIMER_NOT_FOUND' });
+    }
+    const now = new Date();
+    if (timer.status !== 'running') {
+      return res.status(409).json({ error: 'Timer is not running', code: 'CONFLICT', data: serializeTimer(timer, now) });
+    }
+
+    const [result] = await db.update(activeTimer)
+      .set({ status: 'paused', pausedAt: now, interruptions: timer.interruptions + 1, updatedAt: now })
+      .where(eq(activeTimer.id, timer.id))
+      .returning();
+    res.json({ data: serializeTimer(result, now) });
+  } catch (error) {
+    console.error('Failed to pause timer:', error);
+    res.status(500).json({ error: 'Failed to pause timer', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /api/time-blocks/:id/timer/resume - Resume a paused timer
+router.post('/:id/timer/resume', async (req, res) => {
+  try {
+    const timer = await db.query.activeTimer.findFirst({ where: eq(activeTimer.blockId, req.params.id) });
+    if (!timer) {
+      return res.status(404).json({ error: 'No timer for this time block', code: 'TIMER_NOT_FOUND' });
+    }
+    const now = new Date();
+    if (timer.status !== 'paused' || !timer.pausedAt) {
+      return res.status(409).json({ error: 'Timer is not paused', code: 'CONFLICT', data: serializeTimer(timer, now) });
+    }
+
+    const pausedFor = Math.floor((now.getTime() - timer.pausedAt.getTime()) / 1000);
+    const [result] = await db.update(activeTimer)
+      .set({ status: 'running', pausedAt: null, pausedSeconds: timer.pausedSeconds + pausedFor, updatedAt: now })
+      .where(eq(activeTimer.id, timer.id))
+      .returning();
+    res.json({ data: serializeTimer(result, now) });
+  } catch (error) {
+    console.error('Failed to resume timer:', error);
+    res.status(500).json({ error: 'Failed to resume timer', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// PUT /api/time-blocks/:id/timer - Change what the timer is being spent on (taskId, priorityId)
+router.put('/:id/timer', async (req, res) => {
+  try {
+    const { taskId = null, priorityId = null } = req.body;
+    for (const [field, value] of Object.entries({ taskId, priorityId })) {
+      if (value !== null && (typeof value !== 'string' || !UUID_PATTERN.test(value))) {
+        return res.status(400).json({ error: `${field} must be a UUID`, code: 'VALIDATION_ERROR' });
+      }
+    }
+
+    const now = new Date();
+    const [result] = await db.update(activeTimer)
+      .set({ taskId, priorityId, updatedAt: now })
+      .where(eq(activeTimer.blockId, req.params.id))
+      .returning();
+    if (!result) {
+      return res.status(404).json({ error: 'No timer for this time block', code: 'TIMER_NOT_FOUND' });
+    }
+    res.json({ data: serializeTimer(result, now) });
+  } catch (error) {
+    console.error('Failed to update timer:', error);
+    res.status(500).json({ error: 'Failed to update timer', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /api/time-blocks/:id/timer/complete - Mark a run that has counted down as complete,
+// moving to the next phase (phase, completedSessions). Every client may call this; only the first logs the session.
+router.post('/:id/timer/complete', async (req, res) => {
+  try {
+    const { phase, completedSessions, date } = req.body;
+    const timer = await db.query.activeTimer.findFirst({ where: eq(activeTimer.blockId, req.params.id) });
+    if (!timer) {
+      return res.status(404).json({ error: 'No timer for this time block', code: 'TIMER_NOT_FOUND' });
+    }
+    const phaseError = validateTimerPhase({ phase, completedSessions, date }, timer.mode);
+    if (phaseError) {
+      return res.status(400).json({ error: phaseError, code: 'VALIDATION_ERROR' });
+    }
+
+    const now = new Date();
+    if (timer.status === 'complete') {
+      return res.json({ data: serializeTimer(timer, now) });
+    }
+    if (timer.status !== 'running' || timer.mode === 'stopwatch'
+      || getElapsedSeconds(timer, now) + COMPLETE_TOLERANCE_SECONDS < timer.durationSeconds) {
+      return res.status(409).json({ error: 'Timer has not run out', code: 'CONFLICT', data: serializeTimer(timer, now) });
+    }
+
+    const result = await db.transaction(async (tx) => {
+      // Claim the completion so concurrent calls from other clients don't log it twice
+      const [claimed] = await tx.update(activeTimer)
+        .set({
+          ...CLEARED_RUN,
+          status: 'complete',
+          phase: phase ?? timer.phase,
+          completedSessions: completedSessions ?? timer.completedSessions,
+          updatedAt: now,
+        })
+        .where(and(eq(activeTimer.id, timer.id), eq(activeTimer.status, 'running')))
+        .returning();
+      if (claimed) {
+        await logTimerRun(tx, timer, now, date);
+      }
+      return claimed ?? await tx.query.activeTimer.findFirst({ where: eq(activeTimer.id, timer.id) });
+    });
+
+    res.json({ data: serializeTimer(result, now) });
+  } catch (error) {
+    console.error('Failed to complete timer:', error);
+    res.status(500).json({ error: 'Failed to complete timer', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /api/time-blocks/:id/timer/reset - End the current run and wait, idle, at a phase
+// (used for reset and for skipping to the next pomodoro phase)
+router.post('/:id/timer/reset', async (req, res) => {
+  try {
+    const { phase, durationSeconds, completedSessions, date } = req.body;
+    const timer = await db.query.activeTimer.findFirst({ where: eq(activeTimer.blockId, req.params.id) });
+    if (!timer) {
+      return res.status(404).json({ error: 'No timer for this time block', code: 'TIMER_NOT_FOUND' });
+    }
+    const phaseError = validateTimerPhase({ phase, durationSeconds, completedSessions, date }, timer.mode);
+    if (phaseError) {
+      return res.status(400).json({ error: phaseError, code: 'VALIDATION_ERROR' });
+    }
+
+    const now = new Date();
+    const result = await db.transaction(async (tx) => {
+      await logTimerRun(tx, timer, now, date);
+      const [updated] = await tx.update(activeTimer)
+        .set({
+          ...CLEARED_RUN,
+          status: 'idle',
+          phase: phase ?? timer.phase,
+          durationSeconds: durationSeconds ?? timer.durationSeconds,
+          completedSessions: completedSessions ?? timer.completedSessions,
+          updatedAt: now,
+        })
+        .where(eq(activeTimer.id, timer.id))
+        .returning();
+      return updated;
+    });
+
+    res.json({ data: serializeTimer(result, now) });
+  } catch (error) {
+    console.error('Failed to reset timer:', error);
+    res.status(500).json({ error: 'Failed to reset timer', code: 'INTERNAL_ERROR' });
+  }
+});
+
+// POST /api/time-blocks/:id/timer/stop - Stop and clear the timer
+router.post('/:id/timer/stop', async (req, res) => {
+  try {
+    const { date } = req.body;
+    if (date !== undefined && (typeof date !== 'string' || !DATE_PATTERN.test(date))) {
+      return res.status(400).json({ error: 'date must be in YYYY-MM-DD format', code: 'VALIDATION_ERROR' });
+    }
+    const timer = await db.query.activeTimer.findFirst({ where: eq(activeTimer.blockId, req.params.id) });
+    if (!timer) {
+      return res.status(404).json({ error: 'No timer for this time block', code: 'TIMER_NOT_FOUND' });
+    }
+
+    await db.transaction(async (tx) => {
+      await logTimerRun(tx, timer, new Date(), date);
+      await tx.delete(activeTimer).where(eq(activeTimer.id, timer.id));
+    });
+
+    res.json({ data: null });
+  } catch (error) {
+    console.error('Failed to stop timer:', error);
+    res.status(500).json({ error: 'Failed to stop timer', code: 'INTERNAL_ERROR' });
+  }
+});
+
 // === Priority Items ===
 
 // GET /api/time-blocks/:id/priorities - Get priorities for a time block
@@ -0,0 +1,171 @@
+import { db } from './db';
+import { tasks, taskTags } from './db/schema';
+import { eq, and, or, not, gte, lte, lt, inArray, isNull, isNotNull, ilike, exists, countDistinct, type SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { isOpenTask, isCompleteTask } from './taskWorkflow';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_SEARCH_LENGTH = 255;
+
+// Criteria shared by GET /api/tasks query params and saved filters. Every field is optional;
+// the three-way flags filter to matching tasks when true and to the rest when false.
+export interface TaskFilter {
+  projectIds?: string[];
+  tagIds?: string[];
+  tagMatch?: 'any' | 'all';
+  statusIds?: string[];
+  status?: 'pending' | 'complete';
+  priorityMin?: number;
+  priorityMax?: number;
+  search?: string;
+  overdue?: boolean; // Open and planned before today
+  hasSubtasks?: boolean;
+  unscheduled?: boolean; // No planned date
+}
+
+// Saved filter columns that hold criteria, in TaskFilter order
+export const TASK_FILTER_FIELDS = [
+  'projectIds', 'tagIds', 'tagMatch', 'statusIds', 'status',
+  'priorityMin', 'priorityMax', 'search', 'overdue', 'hasSubtasks', 'unscheduled',
+] as const satisfies readonly (keyof TaskFilter)[];
+
+// Ids as an array (JSON) or a comma-separated string (query params)
+function parseIdList(value: unknown): string[] | null {
+  const ids = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : null;
+  if (!ids) return null;
+  const trimmed = ids.map(id => (typeof id === 'string' ? id.trim() : id)).filter(id => id !== '');
+  return trimmed.every(id => typeof id === 'string' && UUID_PATTERN.test(id)) ? trimmed as string[] : null;
+}
+
+function parseFlag(value: unknown): boolean | null {
+  if (value === true || value === 'true') return true;
+  if (value === false || value === 'false') return false;
+  return null;
+}
+
+function parsePriority(value: unknown): number | null {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isInteger(number) && number >= 0 ? number : null;
+}
+
+// Validate filter criteria from query params or a request body. Missing, null and empty
+// values are left out, so the result only holds criteria that narrow the list.
+export function parseTaskFilter(input: Record<string, unknown>): { filter?: TaskFilter; error?: string } {
+  const filter: TaskFilter = {};
+  const isSet = (key: keyof TaskFilter) => input[key] !== undefined && input[key] !== null && input[key] !== '';
+
+  for (const key of ['projectIds', 'tagIds', 'statusIds'] as const) {
+    if (!isSet(key)) continue;
+    const ids = parseIdList(input[key]);
+    if (!ids) return { error: `${key} must be a list of ids` };
+    if (ids.length > 0) filter[key] = ids;
+  }
+
+  if (isSet('tagMatch')) {
+    if (input.tagMatch !== 'any' && input.tagMatch !== 'all') return { error: 'tagMatch must be any or all' };
+    filter.tagMatch = input.tagMatch;
+  }
+
+  if (isSet('status')) {
+    if (input.status !== 'pending' && input.status !== 'complete') return { error: 'status must be pending or complete' };
+    filter.status = input.status;
+  }
+
+  for (const key of ['priorityMin', 'priorityMax'] as const) {
+    if (!isSet(key)) continue;
+    const priority = parsePriority(input[key]);
+    if (priority === null) return { error: `${key} must be a whole number` };
+    filter[key] = priority;
+  }
+  if (filter.priorityMin !== undefined && filter.priorityMax !== undefined && filter.priorityMin > filter.priorityMax) {
+    return { error: 'priorityMin must not be greater than priorityMax' };
+  }
+
+  if (isSet('search')) {
+    if (typeof input.search !== 'string') return { error: 'search must be text' };
+    const search = input.search.trim();
+    if (search.length > MAX_SEARCH_LENGTH) return { error: `search must be at most ${MAX_SEARCH_LENGTH} characters` };
+    if (search) filter.search = search;
+  }
+
+  for (const key of ['overdue', 'hasSubtasks', 'unscheduled'] as const) {
+    if (!isSet(key)) continue;
+    const flag = parseFlag(input[key]);
+    if (flag === null) return { error: `${key} must be true or false` };
+    filter[key] = flag;
+  }
+
+  return { filter };
+}
+
+// Pick the criteria out of a saved filter row
+export function savedFilterCriteria(row: Record<string, unknown>): TaskFilter {
+  return parseTaskFilter(Object.fromEntries(TASK_FILTER_FIELDS.map(key => [key, row[key]]))).filter ?? {};
+}
+
+// Escape LIKE wildcards so search text matches literally
+function likePattern(search: string): string {
+  return `%${search.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+}
+
+// Where conditions on tasks for a filter. `today` (YYYY-MM-DD) decides what is overdue.
+export function taskFilterConditions(filter: TaskFilter, today: string): SQL[] {
+  const conditions: SQL[] = [];
+
+  if (filter.projectIds) {
+    conditions.push(inArray(tasks.projectId, filter.projectIds));
+  }
+
+  if (filter.tagIds) {
+    const tagged = db.select({ taskId: taskTags.taskId })
+      .from(taskTags)
+      .where(inArray(taskTags.tagId, filter.tagIds))
+      .groupBy(taskTags.taskId);
+    conditions.push(inArray(
+      tasks.id,
+      filter.tagMatch === 'all'
+        ? tagged.having(eq(countDistinct(taskTags.tagId), filter.tagIds.length))
+        : tagged
+    ));
+  }
+
+  if (filter.statusIds) {
+    conditions.push(inArray(tasks.statusId, filter.statusIds));
+  }
+  if (filter.status) {
+    conditions.push(filter.status === 'complete' ? isCompleteTask() : isOpenTask());
+  }
+
+  if (filter.priorityMin !== undefined) {
+    conditions.push(gte(tasks.priority, filter.priorityMin));
+  }
+  if (filter.priorityMax !== undefined) {
+    conditions.push(lte(tasks.priority, filter.priorityMax));
+  }
+
+  if (filter.search) {
+    const pattern = likePattern(filter.search);
+    conditions.push(or(ilike(tasks.title, pattern), ilike(tasks.description, pattern))!);
+  }
+
+  if (filter.overdue !== undefined) {
+    const overdue = and(isOpenTask(), lt(tasks.plannedDate, today))!;
+    conditions.push(filter.overdue ? overdue : or(isNull(tasks.plannedDate), not(overdue))!);
+  }
+
+  if (filter.hasSubtasks !== undefined) {
+    const children = alias(tasks, 'child_tasks');
+    const hasChildren = exists(
+      db.select({ id: children.id })
+        .from(children)
+        .where(and(eq(children.parentTaskId, tasks.id), eq(children.isDeleted, false)))
+    );
+    conditions.push(filter.hasSubtasks ? hasChildren : not(hasChildren));
+  }
+
+  if (filter.unscheduled !== undefined) {
+    conditions.push(filter.unscheduled ? isNull(tasks.plannedDate) : isNotNull(tasks.plannedDate));
+  }
+
+  return conditions;
+}
@@ -0,0 +1,309 @@
+import { db } from './db';
+import { taskStatuses, tasks, taskStatusEvents, taskDependencies } from './db/schema';
+import { eq, and, or, ne, asc, count, inArray, notInArray, isNull, sql } from 'drizzle-orm';
+
+type TaskStatusRow = typeof taskStatuses.$inferSelect;
+type TaskRow = typeof tasks.$inferSelect;
+
+// Breakout statuses suggested for tasks waiting on other tasks
+const BLOCKED_STATUS_NAMES = /^blocked$/i;
+
+// Why a task can't move to a status
+export interface StatusChangeProblem {
+  error: string;
+  code: 'INVALID_TRANSITION' | 'WIP_LIMIT_EXCEEDED';
+  data?: { statusId: string; wipLimit: number; count: number };
+}
+
+// Default statuses to seed if none exist
+const DEFAULT_STATUSES = [
+  {
+    name: 'Backlog',
+    color: '#64748b', // slate-500
+    icon: 'Inbox',
+    workflowOrder: 0,
+    isBreakout: false,
+    isDefault: true,
+    isInitialStatus: true,
+    sortOrder: 0,
+  },
+  {
+    name: 'To Do',
+    color: '#3b82f6', // blue-500
+    icon: 'List',
+    workflowOrder: 1,
+    isBreakout: false,
+    isDefault: true,
+    isInitialStatus: false,
+    sortOrder: 1,
+  },
+  {
+    name: 'In Progress',
+    color: '#f59e0b', // amber-500
+    icon: 'PlayCircle',
+    workflowOrder: 2,
+    isBreakout: false,
+    isDefault: true,
+    isInitialStatus: false,
+    sortOrder: 2,
+  },
+  {
+    name: 'Blocked',
+    color: '#ef4444', // red-500
+    icon: 'Block',
+    workflowOrder: null,
+    isBreakout: true,
+    isDefault: true,
+    isInitialStatus: false,
+    sortOrder: 3,
+    // breakoutParentId will be set after "In Progress" is created
+  },
+  {
+    name: 'Waiting',
+    color: '#a855f7', // purple-500
+    icon: 'HourglassEmpty',
+    workflowOrder: null,
+    isBreakout: true,
+    isDefault: true,
+    isInitialStatus: false,
+    sortOrder: 4,
+    // breakoutParentId will be set after "In Progress" is created
+  },
+  {
+    name: 'Review',
+    color: '#14b8a6', // teal-500
+    icon: 'RateReview',
+    workflowOrder: 3,
+    isBreakout: false,
+    isDefault: true,
+    isInitialStatus: false,
+    sortOrder: 5,
+  },
+  {
+    name: 'Complete',
+    color: '#10b981', // emerald-500
+    icon: 'CheckCircle',
+    workflowOrder: 4,
+    isBreakout: false,
+    isDefault: true,
+    isInitialStatus: false,
+    isTerminal: true,
+    sortOrder: 6,
+  },
+];
+
+// Helper to seed default statuses
+export async function seedDefaultStatuses() {
+  const existing = await db.query.taskStatuses.findFirst();
+  if (existing) return; // Already seeded
+
+  console.log('Seeding default task statuses...');
+
+  // Insert non-breakout statuses first
+  const mainStatuses = DEFAULT_STATUSES.filter(s => !s.isBreakout);
+  const insertedMain: Record<string, string> = {};
+
+  for (const status of mainStatuses) {
+    const [inserted] = await db.insert(taskStatuses).values(status).returning();
+    insertedMain[status.name] = inserted.id;
+  }
+
+  // Now insert breakout statuses with their parent reference
+  const breakoutStatuses = DEFAULT_STATUSES.filter(s => s.isBreakout);
+  const inProgressId = insertedMain['In Progress'];
+
+  for (const status of breakoutStatuses) {
+    await db.insert(taskStatuses).values({
+      ...status,
+      breakoutParentId: inProgressId,
+    });
+  }
+
+  console.log('Default task statuses seeded successfully');
+}
+
+// Status new tasks start in: the one marked initial, else the first workflow step
+export async function getInitialStatusId(): Promise<string | null> {
+  const initial = await db.query.taskStatuses.findFirst({
+    where: and(eq(taskStatuses.isInitialStatus, true), eq(taskStatuses.isDeleted, false)),
+  });
+  if (initial) return initial.id;
+
+  const first = await db.query.taskStatuses.findFirst({
+    where: and(eq(taskStatuses.isBreakout, false), eq(taskStatuses.isDeleted, false)),
+    orderBy: [asc(taskStatuses.workflowOrder)],
+  });
+  return first?.id ?? null;
+}
+
+// Status a task moves to when it is checked off
+export async function getTerminalStatusId(): Promise<string | null> {
+  const terminal = await db.query.taskStatuses.findFirst({
+    where: and(eq(taskStatuses.isTerminal, true), eq(taskStatuses.isDeleted, false)),
+    orderBy: [asc(taskStatuses.sortOrder)],
+  });
+  return terminal?.id ?? null;
+}
+
+const terminalStatusIds = () =>
+  db.select({ id: taskStatuses.id }).from(taskStatuses).where(eq(taskStatuses.isTerminal, true));
+
+// Conditions on tasks for "complete" (in a terminal status) and "open" (anything else)
+export function isCompleteTask() {
+  return inArray(tasks.statusId, terminalStatusIds());
+}
+
+export function isOpenTask() {
+  return or(isNull(tasks.statusId), notInArray(tasks.statusId, terminalStatusIds()))!;
+}
+
+// Whether a task may move between two statuses. A status's allowedTransitions, when set, lists
+// where its tasks can go; otherwise breakouts only return to their parent, and main workflow
+// statuses reach every other main status plus their own breakouts.
+export function canTransition(from: TaskStatusRow, to: TaskStatusRow): boolean {
+  if (from.id === to.id) return true;
+  if (Array.isArray(from.allowedTransitions)) {
+    return (from.allowedTransitions as string[]).includes(to.id);
+  }
+  if (from.isBreakout) return to.id === from.breakoutParentId;
+  return !to.isBreakout || to.breakoutParentId === from.id;
+}
+
+// Top-level tasks in a status - subtasks ride along with their parent and don't count toward WIP
+export async function countTasksInStatus(statusId: string, excludeTaskId?: string) {
+  const [row] = await db.select({ count: count() }).from(tasks).where(and(
+    eq(tasks.statusId, statusId),
+    eq(tasks.isDeleted, false),
+    isNull(tasks.parentTaskId),
+    excludeTaskId ? ne(tasks.id, excludeTaskId) : undefined
+  ));
+  return row?.count ?? 0;
+}
+
+// Check a task (without an id when new) can move into a status: the transition rules of the
+// status it's leaving, then the WIP limit of the one it's entering
+export async function checkStatusChange(
+  task: { id?: string; parentTaskId?: string | null },
+  from: TaskStatusRow | null | undefined,
+  to: TaskStatusRow
+): Promise<StatusChangeProblem | null> {
+  if (from?.id === to.id) return null;
+  if (from && !canTransition(from, to)) {
+    return {
+      error: from.isBreakout && !Array.isArray(from.allowedTransitions)
+        ? `Tasks in ${from.name} can only return to their parent status`
+        : `Tasks in ${from.name} can't move to ${to.name}`,
+      code: 'INVALID_TRANSITION',
+    };
+  }
+  if (to.wipLimit !== null && !task.parentTaskId) {
+    const current = await countTasksInStatus(to.id, task.id);
+    if (current >= to.wipLimit) {
+      return {
+        error: `${to.name} is at its WIP limit of ${to.wipLimit}`,
+        code: 'WIP_LIMIT_EXCEEDED',
+        data: { statusId: to.id, wipLimit: to.wipLimit, count: current },
+      };
+    }
+  }
+  return null;
+}
+
+// Status to suggest for a task while any task it depends on is open: a "Blocked" breakout it can
+// move to from where it is, preferring its own status's. Null once it's parked, complete or
+// unblocked, or when the workflow offers no way into Blocked from its status.
+export async function suggestBlockedStatus(task: TaskRow): Promise<TaskStatusRow | null> {
+  if (task.completedAt || !task.statusId) return null;
+
+  const [openBlockers] = await db.select({ count: count() })
+    .from(taskDependencies)
+    .innerJoin(tasks, eq(tasks.id, taskDependencies.dependsOnTaskId))
+    .where(and(eq(taskDependencies.taskId, task.id), eq(tasks.isDeleted, false), isOpenTask()));
+  if (!openBlockers?.count) return null;
+
+  const current = await db.query.taskStatuses.findFirst({ where: eq(taskStatuses.id, task.statusId) });
+  if (!current || current.isBreakout) return null;
+
+  const breakouts = await db.query.taskStatuses.findMany({
+    where: and(eq(taskStatuses.isBreakout, true), eq(taskStatuses.isDeleted, false)),
+    orderBy: [asc(taskStatuses.sortOrder)],
+  });
+  const reachable = breakouts.filter(s => BLOCKED_STATUS_NAMES.test(s.name.trim()) && canTransition(current, s));
+  return reachable.find(s => s.breakoutParentId === current.id) ?? reachable[0] ?? null;
+}
+
+// Append status changes to the task history log. Creations have no fromStatusId; "moves"
+// that stay in the same status aren't logged.
+export async function logStatusChanges(
+  changes: { taskId: string; fromStatusId: string | null; toStatusId: string | null }[]
+) {
+  const moves = changes
+    .filter(change => change.toStatusId && change.toStatusId !== change.fromStatusId)
+    .map(change => ({ ...change, toStatusId: change.toStatusId! }));
+  if (moves.length > 0) {
+    await db.insert(taskStatusEvents).values(moves);
+  }
+}
+
+// Columns to write when a task moves to a status. The legacy status and completedAt follow
+// whether the status is terminal; a task that was already complete keeps its completion time.
+export function statusFields(status: TaskStatusRow, existing?: { completedAt: Date | null }) {
+  const complete = !!status.isTerminal;
+  return {
+    statusId: status.id,
+    status: complete ? 'complete' : 'pending',
+    completedAt: complete ? existing?.completedAt ?? new Date() : null,
+  };
+}
+
+// Re-derive the legacy status and completedAt of every task from its workflow status.
+// Tasks that become complete are dated by their last update.
+export async function syncTaskCompletion() {
+  await db.update(tasks)
+    .set({ status: 'complete', completedAt: sql`coalesce(${tasks.completedAt}, ${tasks.updatedAt}, now())` })
+    .where(and(isCompleteTask(), sql`(${tasks.status} is distinct from 'complete' or ${tasks.completedAt} is null)`));
+  await db.update(tasks)
+    .set({ status: 'pending', completedAt: null })
+    .where(and(isOpenTask(), sql`(${tasks.status} is distinct from 'pending' or ${tasks.completedAt} is not null)`));
+}
+
+// Move tasks from the legacy 'pending' | 'complete' string onto the workflow. Runs on startup
+// and after imports, and is a no-op once every task has a status that agrees with it.
+export async function migrateTaskStatuses() {
+  await seedDefaultStatuses();
+
+  // Workflows created before terminal statuses existed: "Complete" or "Done", else the last step
+  if (!(await getTerminalStatusId())) {
+    const mainWorkflow = await db.query.taskStatuses.findMany({
+      where: and(eq(taskStatuses.isBreakout, false), eq(taskStatuses.isDeleted, false)),
+      orderBy: [asc(taskStatuses.workflowOrder)],
+    });
+    const done = mainWorkflow.find(s => /^(complete|done)$/i.test(s.name.trim())) ?? mainWorkflow.at(-1);
+    if (done) {
+      await db.update(taskStatuses).set({ isTerminal: true }).where(eq(taskStatuses.id, done.id));
+    }
+  }
+
+  const terminalId = await getTerminalStatusId();
+  const initialId = await getInitialStatusId();
+  let backfilled = 0;
+
+  // A task checked off under the legacy field is complete, whatever column it sat in
+  if (terminalId) {
+    backfilled += (await db.update(tasks)
+      .set({ statusId: terminalId })
+      .where(and(eq(tasks.status, 'complete'), isOpenTask()))
+      .returning({ id: tasks.id })).length;
+  }
+  if (initialId) {
+    backfilled += (await db.update(tasks)
+      .set({ statusId: initialId })
+      .where(isNull(tasks.statusId))
+      .returning({ id: tasks.id })).length;
+  }
+  if (backfilled > 0) {
+    console.log(`Moved ${backfilled} tasks onto the status workflow`);
+  }
+
+  await syncTaskCompletion();
+}
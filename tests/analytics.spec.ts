@@ -0,0 +1,86 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Analytics Page Tests
+ *
+ * Feature Overview:
+ * - /api/analytics aggregates habit, task and measurement data server-side
+ * - The Analytics page charts category completion trends, habit correlation,
+ *   task throughput and measurement trends over a selectable range
+ */
+
+test.describe('Analytics', () => {
+  test.describe('API', () => {
+    test('category trends align series values with periods', async ({ request }) => {
+      const response = await request.get('/api/analytics/category-trends?startDate=2026-01-01&endDate=2026-03-31&interval=month');
+      expect(response.ok()).toBeTruthy();
+      const { data } = await response.json();
+
+      expect(data.interval).toBe('month');
+      expect(data.periods).toEqual(['2026-01-01', '2026-02-01', '2026-03-01']);
+      for (const series of data.series) {
+        expect(series.values).toHaveLength(data.periods.length);
+      }
+    });
+
+    test('rejects invalid ranges', async ({ request }) => {
+      const response = await request.get('/api/analytics/category-trends?startDate=2026-03-01&endDate=2026-01-01');
+      expect(response.status()).toBe(400);
+      const body = await response.json();
+      expect(body.code).toBe('VALIDATION_ERROR');
+
+      const badInterval = await request.get('/api/analytics/task-throughput?interval=day');
+      expect(badInterval.status()).toBe(400);
+    });
+
+    test('habit correlation returns pairs between listed habits', async ({ request }) => {
+      const response = await request.get('/api/analytics/habit-correlation');
+      expect(response.ok()).toBeTruthy();
+      const { data } = await response.json();
+
+      const habitIds = new Set(data.habits.map((h: { id: string }) => h.id));
+      for (const pair of data.pairs) {
+        expect(habitIds.has(pair.habitA)).toBeTruthy();
+        expect(habitIds.has(pair.habitB)).toBeTruthy();
+        expect(pair.both + pair.aOnly + pair.bOnly + pair.neither).toBe(pair.days);
+      }
+    });
+
+    test('task throughput groups by project or status', async ({ request }) => {
+      for (const groupBy of ['project', 'status']) {
+        const response = await request.get(`/api/analytics/task-throughput?groupBy=${groupBy}`);
+        expect(response.ok()).toBeTruthy();
+        const { data } = await response.json();
+        expect(data.groupBy).toBe(groupBy);
+      }
+    });
+
+    test('measurement trends include units', async ({ request }) => {
+      const response = await request.get('/api/analytics/measurement-trends');
+      expect(response.ok()).toBeTruthy();
+      const { data } = await response.json();
+      for (const series of data.series) {
+        expect(series).toHaveProperty('unit');
+      }
+    });
+  });
+
+  test.describe('Page', () => {
+    test('renders all analytics sections', async ({ page }) => {
+      await page.goto('/analytics');
+      await expect(page.getByTestId('analytics-page')).toBeVisible();
+
+      await expect(page.getByTestId('analytics-category-trends')).toBeVisible();
+      await expect(page.getByTestId('analytics-task-throughput')).toBeVisible();
+      await expect(page.getByTestId('analytics-habit-correlation')).toBeVisible();
+      await expect(page.getByTestId('analytics-measurement-trends')).toBeVisible();
+    });
+
+    test('range presets toggle', async ({ page }) => {
+      await page.goto('/analytics');
+      await page.getByTestId('analytics-range-4').click();
+      await expect(page.getByTestId('analytics-range-4')).toHaveAttribute('aria-pressed', 'true');
+      await expect(page.getByTestId('analytics-range-12')).toHaveAttribute('aria-pressed', 'false');
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Data Export/Import Tests
+ *
+ * Feature Overview:
+ * - GET /api/export returns a versioned JSON archive of every table plus uploaded images
+ * - POST /api/import?mode=merge adds archived rows under new ids, reusing categories,
+ *   statuses, tags, quote collections and settings that already exist by name/key
+ * - POST /api/import?mode=replace wipes the database and restores the archive as-is
+ * - Archives are validated (shape, required columns, references, upload paths) before anything is written
+ * - Settings > Data exposes both
+ */
+
+function uuid(): string {
+  return crypto.randomUUID();
+}
+
+// Minimal archive with one category and one habit in it
+function sampleArchive(categoryName: string, habitName: string) {
+  const categoryId = uuid();
+  const habitId = uuid();
+  return {
+    format: 'habitarcade-export',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    tables: {
+      categories: [{ id: categoryId, name: categoryName, createdAt: new Date().toISOString() }],
+      habits: [{ id: habitId, name: habitName, categoryId }],
+      habitEntries: [{ id: uuid(), habitId, date: '2020-02-01', status: 'complete' }],
+    },
+    uploads: [],
+  };
+}
+
+test.describe('Data Export/Import', () => {
+  test.describe('API', () => {
+    test('exports every table with a format header', async ({ request }) => {
+      const response = await request.get('/api/export');
+      expect(response.ok()).toBeTruthy();
+      expect(response.headers()['content-disposition']).toContain('habitarcade-export-');
+
+      const archive = await response.json();
+      expect(archive.format).toBe('habitarcade-export');
+      expect(archive.version).toBe(1);
+      for (const table of ['habits', 'habitEntries', 'tasks', 'taskStatuses', 'settings', 'quotes']) {
+        expect(Array.isArray(archive.tables[table])).toBeTruthy();
+      }
+      expect(Array.isArray(archive.uploads)).toBeTruthy();
+    });
+
+    test('merge import remaps ids and reuses existing categories by name', async ({ request }) => {
+      const habitName = `Imported habit ${Date.now()}`;
+      const archive = sampleArchive(`Import category ${Date.now()}`, habitName);
+
+      const first = await request.post('/api/import?mode=merge', { data: archive });
+      expect(first.ok()).toBeTruthy();
+      const { data: firstResult } = await first.json();
+      expect(firstResult.tables.categories).toEqual({ imported: 1, matched: 0 });
+      expect(firstResult.tables.habits.imported).toBe(1);
+
+      // Importing the same archive again adds a second habit but reuses the category
+      const second = await request.post('/api/import?mode=merge', { data: archive });
+      const { data: secondResult } = await second.json();
+      expect(secondResult.tables.categories).toEqual({ imported: 0, matched: 1 });
+
+      const { data: habits } = await (await request.get('/api/habits')).json();
+      const imported = habits.filter((h: { name: string }) => h.name === habitName);
+      expect(imported).toHaveLength(2);
+      expect(imported.map((h: { id: string }) => h.id)).not.toContain(archive.tables.habits[0].id);
+      expect(imported[0].categoryId).toBe(imported[1].categoryId);
+
+      for (const habit of imported) {
+        await request.delete(`/api/habits/${habit.id}`);
+      }
+    });
+
+    test('rejects invalid archives without writing anything', async ({ request }) => {
+      const notAnArchive = await request.post('/api/import', { data: { hello: 'world' } });
+      expect(notAnArchive.status()).toBe(400);
+      expect((await notAnArchive.json()).code).toBe('VALIDATION_ERROR');
+
+      const dangling = sampleArchive('Dangling', 'Dangling habit');
+      dangling.tables.habits[0].categoryId = uuid();
+      const danglingResponse = await request.post('/api/import', { data: dangling });
+      expect(danglingResponse.status()).toBe(400);
+      expect((await danglingResponse.json()).error).toContain('references a missing categories row');
+
+      const escaping = { ...sampleArchive('Escape', 'Escape habit'), uploads: [{ path: '../../etc/passwd', data: '' }] };
+      expect((await request.post('/api/import', { data: escaping })).status()).toBe(400);
+
+      const badMode = await request.post('/api/import?mode=overwrite', { data: sampleArchive('Mode', 'Mode habit') });
+      expect(badMode.status()).toBe(400);
+    });
+
+    test('replace import restores an export exactly', async ({ request }) => {
+      const archive = await (await request.get('/api/export')).json();
+
+      const response = await request.post('/api/import?mode=replace', { data: archive });
+      expect(response.ok()).toBeTruthy();
+      const { data } = await response.json();
+      for (const [table, rows] of Object.entries(archive.tables as Record<string, unknown[]>)) {
+        expect(data.tables[table].imported).toBe(rows.length);
+      }
+
+      const after = await (await request.get('/api/export')).json();
+      expect(after.tables.habits.map((h: { id: string }) => h.id).sort())
+        .toEqual(archive.tables.habits.map((h: { id: string }) => h.id).sort());
+    });
+  });
+
+  test.describe('Settings page', () => {
+    test('shows the import mode choice after picking a file', async ({ page }) => {
+      await page.goto('/settings');
+      await expect(page.locator('[data-testid="export-data-button"]')).toBeVisible();
+
+      await page.locator('[data-testid="import-data-input"]').setInputFiles({
+        name: 'backup.json',
+        mimeType: 'application/json',
+        buffer: Buffer.from(JSON.stringify(sampleArchive('UI', 'UI habit'))),
+      });
+
+      await expect(page.locator('[data-testid="import-data-panel"]')).toContainText('backup.json');
+      await expect(page.locator('[data-testid="import-mode-merge"]')).toBeChecked();
+      await page.locator('[data-testid="import-mode-replace"]').check();
+      await expect(page.locator('[data-testid="import-data-confirm"]')).toHaveText('Replace Data');
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Derived Measurement Tests
+ *
+ * Feature Overview:
+ * - A measurement can have a formula over other measurements (variables: name -> measurement id)
+ * - Formulas support + - * / ^, parentheses, abs/sqrt/round and avg/min/max(variable, days)
+ * - Derived entries are recomputed whenever a source measurement's entries change, and can't be
+ *   written directly
+ * - Invalid formulas, unknown variables and dependency cycles are rejected
+ */
+
+test.describe('Derived Measurements', () => {
+  const created: string[] = [];
+  let weightId: string;
+  let heightId: string;
+
+  const createMeasurement = async (request: import('@playwright/test').APIRequestContext, data: object) => {
+    const response = await request.post('/api/measurements', { data });
+    const body = await response.json();
+    if (response.ok()) created.push(body.data.id);
+    return { response, body };
+  };
+
+  test.beforeEach(async ({ request }) => {
+    weightId = (await createMeasurement(request, { type: 'weight', name: `Weight ${Date.now()}`, unit: 'kg' })).body.data.id;
+    heightId = (await createMeasurement(request, { type: 'height', name: `Height ${Date.now()}`, unit: 'cm' })).body.data.id;
+    await request.post(`/api/measurements/${heightId}/entries`, { data: { date: '2026-01-01', value: 180 } });
+    await request.post(`/api/measurements/${weightId}/entries`, { data: { date: '2026-01-01', value: 81 } });
+    await request.post(`/api/measurements/${weightId}/entries`, { data: { date: '2026-01-03', value: 79 } });
+  });
+
+  test.afterEach(async ({ request }) => {
+    // Derived measurements first - sources can't be deleted while in use
+    for (const id of created.reverse()) {
+      await request.delete(`/api/measurements/${id}`);
+    }
+    created.length = 0;
+  });
+
+  test('computes BMI from weight and height', async ({ request }) => {
+    const { response, body } = await createMeasurement(request, {
+      type: 'derived',
+      name: `BMI ${Date.now()}`,
+      formula: 'weight / (height / 100)^2',
+      variables: { weight: weightId, height: heightId },
+    });
+    expect(response.status()).toBe(201);
+
+    // Height carries forward to the later weight entry
+    const { data: entries } = await (await request.get(`/api/measurements/${body.data.id}/entries`)).json();
+    expect(entries.map((e: { date: string; value: string }) => [e.date, parseFloat(e.value)])).toEqual([
+      ['2026-01-03', 24.38],
+      ['2026-01-01', 25],
+    ]);
+  });
+
+  test('recomputes when a source gets a new entry', async ({ request }) => {
+    const { body } = await createMeasurement(request, {
+      type: 'derived',
+      name: `Weekly average ${Date.now()}`,
+      formula: 'avg(weight, 7)',
+      variables: { weight: weightId },
+    });
+
+    await request.post(`/api/measurements/${weightId}/entries`, { data: { date: '2026-01-05', value: 77 } });
+
+    const { data } = await (await request.get(`/api/measurements/${body.data.id}/graph-data`)).json();
+    expect(data.entries.at(-1)).toEqual({ date: '2026-01-05', value: 79 });
+
+    // Entries of a derived measurement can't be written by hand
+    const manual = await request.post(`/api/measurements/${body.data.id}/entries`, { data: { date: '2026-01-06', value: 1 } });
+    expect(manual.status()).toBe(400);
+  });
+
+  test('rejects invalid formulas and cycles', async ({ request }) => {
+    const invalid = await createMeasurement(request, {
+      type: 'derived', name: 'Broken', formula: 'weight / ', variables: { weight: weightId },
+    });
+    expect(invalid.response.status()).toBe(400);
+    expect(invalid.body.error).toContain('Invalid formula');
+
+    const unmapped = await createMeasurement(request, {
+      type: 'derived', name: 'Unmapped', formula: 'weight * waist', variables: { weight: weightId },
+    });
+    expect(unmapped.response.status()).toBe(400);
+
+    const { body: first } = await createMeasurement(request, {
+      type: 'derived', name: `First ${Date.now()}`, formula: 'weight * 2', variables: { weight: weightId },
+    });
+    const { body: second } = await createMeasurement(request, {
+      type: 'derived', name: `Second ${Date.now()}`, formula: 'first + 1', variables: { first: first.data.id },
+    });
+    const cycle = await request.put(`/api/measurements/${first.data.id}`, {
+      data: { formula: 'second - 1', variables: { second: second.data.id } },
+    });
+    expect(cycle.status()).toBe(400);
+
+    // A source in use can't be deleted
+    expect((await request.delete(`/api/measurements/${weightId}`)).status()).toBe(409);
+  });
+
+  test('creates a derived objective in the target line graph', async ({ page }) => {
+    await page.goto('/');
+    await page.getByText('Add Objective').click();
+    await page.locator('[data-testid="measurement-source"]').selectOption('derived');
+    await expect(page.locator('[data-testid="derived-measurement-fields"]')).toBeVisible();
+
+    await page.getByPlaceholder('e.g., weight / (height / 100)^2').fill('weight * 2');
+    await expect(page.getByLabel('Measurement for weight')).toBeVisible();
+  });
+});
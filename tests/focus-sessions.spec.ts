@@ -0,0 +1,59 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Focus Session Tests
+ *
+ * Feature Overview:
+ * - The time block timer logs each run (pomodoro phase, countdown, stopwatch) when it
+ *   completes or is stopped, with the task/priority worked on and pause count
+ * - GET /api/focus-sessions lists logged sessions; GET /api/focus-sessions/totals sums
+ *   work-phase time per day and per block
+ * - The Time Blocks page shows those totals
+ */
+
+test.describe('Focus Sessions', () => {
+  test.describe('API', () => {
+    test('logs timer runs and totals work time per day and per block', async ({ request }) => {
+      test.setTimeout(120_000); // Runs under a minute aren't logged
+      const { data: block } = await (await request.post('/api/time-blocks', {
+        data: { name: `Focus ${Date.now()}`, durationMinutes: 25 },
+      })).json();
+
+      await request.post(`/api/time-blocks/${block.id}/timer/start`, {
+        data: { mode: 'countdown', durationSeconds: 1500 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 61_000));
+      await request.post(`/api/time-blocks/${block.id}/timer/pause`);
+      expect((await request.post(`/api/time-blocks/${block.id}/timer/stop`, { data: { date: '2020-03-02' } })).ok()).toBeTruthy();
+
+      const { data: sessions } = await (await request.get(`/api/focus-sessions?blockId=${block.id}`)).json();
+      expect(sessions).toHaveLength(1);
+      const [session] = sessions;
+      expect(session).toMatchObject({ mode: 'countdown', phase: 'work', date: '2020-03-02', interruptions: 1, completed: false });
+      expect(session.durationSeconds).toBeGreaterThanOrEqual(60);
+
+      const totalsResponse = await request.get(`/api/focus-sessions/totals?startDate=2020-03-02&endDate=2020-03-02&blockId=${block.id}`);
+      const { data: totals } = await totalsResponse.json();
+      expect(totals.totalSeconds).toBe(session.durationSeconds);
+      expect(totals.byDay).toEqual([{ date: '2020-03-02', totalSeconds: session.durationSeconds, sessionCount: 1 }]);
+      expect(totals.byBlock[0]).toMatchObject({ blockId: block.id, blockName: block.name, totalSeconds: session.durationSeconds });
+
+      expect((await request.delete(`/api/focus-sessions/${session.id}`)).status()).toBe(204);
+      await request.delete(`/api/time-blocks/${block.id}`);
+    });
+
+    test('rejects invalid filters', async ({ request }) => {
+      expect((await request.get('/api/focus-sessions?startDate=03/02/2020')).status()).toBe(400);
+      expect((await request.get('/api/focus-sessions/totals?blockId=not-an-id')).status()).toBe(400);
+      expect((await request.delete(`/api/focus-sessions/${crypto.randomUUID()}`)).status()).toBe(404);
+    });
+  });
+
+  test.describe('Time Blocks page', () => {
+    test('shows focus totals', async ({ page }) => {
+      await page.goto('/time-blocks');
+      await expect(page.locator('[data-testid="focus-totals"]')).toBeVisible();
+      await expect(page.locator('[data-testid="focus-totals-days"] > div')).toHaveCount(7);
+    });
+  });
+});
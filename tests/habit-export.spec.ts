@@ -0,0 +1,67 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Habit Export Tests
+ *
+ * Feature Overview:
+ * - GET /api/habits/export?format=markdown emits the dialect POST /api/habits/import reads:
+ *   "# Category" sections, bullets in sort order, children indented under their parent,
+ *   and annotations for icon, color, targets, schedule and flags
+ * - GET /api/habits/export?format=csv lists habit entries over an optional date range
+ */
+
+test.describe('Habit Export', () => {
+  test('markdown export round-trips through the importer', async ({ request }) => {
+    const category = `Export ${Date.now()}`;
+    const markdown = [
+      `# ${category}`,
+      '- Water @color:#3b82f6 @target:8 @unit:"fl oz" @goal:80%',
+      '  - Morning glass @schedule:weekdays:mon,wed @lowfreq:true',
+      '- Reading @schedule:weekly:3 @active:false',
+    ].join('\n');
+    const created = await request.post('/api/habits/import', { data: { markdown } });
+    expect(created.status()).toBe(201);
+
+    const response = await request.get('/api/habits/export?format=markdown');
+    expect(response.ok()).toBeTruthy();
+    expect(response.headers()['content-type']).toContain('text/markdown');
+    const exported = await response.text();
+
+    const section = exported.split('\n\n').find(block => block.startsWith(`# ${category}\n`));
+    expect(section).toBe(markdown);
+
+    // Re-importing the export changes nothing
+    const again = await request.post('/api/habits/import', { data: { markdown: exported, dryRun: true } });
+    const { data: diff } = await again.json();
+    expect(diff.habits.every((h: { status: string }) => h.status === 'matched')).toBeTruthy();
+
+    const { data: habits } = await (await request.get('/api/habits')).json();
+    for (const habit of habits.filter((h: { category?: { name: string } }) => h.category?.name === category)) {
+      await request.delete(`/api/habits/${habit.id}`);
+    }
+  });
+
+  test('CSV export lists entries in the date range', async ({ request }) => {
+    const { data: habits } = await (await request.get('/api/habits')).json();
+    test.skip(habits.length === 0, 'Needs at least one habit');
+    const habit = habits[0];
+    await request.post(`/api/habits/${habit.id}/entries`, { data: { date: '2020-03-02', status: 'complete', notes: 'Felt "great", really' } });
+
+    const response = await request.get('/api/habits/export?format=csv&startDate=2020-03-01&endDate=2020-03-03');
+    expect(response.ok()).toBeTruthy();
+    expect(response.headers()['content-disposition']).toContain('habit-entries_2020-03-01_2020-03-03.csv');
+    const lines = (await response.text()).trim().split('\n');
+
+    expect(lines[0]).toBe('date,category,parent_habit,habit,status,count,notes,habit_id');
+    const row = lines.find(line => line.startsWith('2020-03-02') && line.endsWith(habit.id));
+    expect(row).toContain(',complete,');
+    expect(row).toContain('"Felt ""great"", really"');
+
+    await request.post(`/api/habits/${habit.id}/entries`, { data: { date: '2020-03-02', status: 'empty' } });
+  });
+
+  test('rejects unknown formats and bad dates', async ({ request }) => {
+    expect((await request.get('/api/habits/export?format=xml')).status()).toBe(400);
+    expect((await request.get('/api/habits/export?format=csv&startDate=March')).status()).toBe(400);
+  });
+});
@@ -0,0 +1,103 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Markdown Habit Import Tests
+ *
+ * Feature Overview:
+ * - "# Category", "## Parent habit", "- Habit", indented "- Child habit"
+ * - Files without "# " headings keep the flat "## Category" format
+ * - @target/@unit/@max, @goal and @schedule annotations alongside @icon/@color
+ * - dryRun returns the diff (new, matched, skipped) without writing
+ */
+
+interface ImportedHabit {
+  name: string;
+  categoryName: string | null;
+  parentName: string | null;
+  status: 'new' | 'matched';
+}
+
+test.describe('Markdown Habit Import', () => {
+  test('dry run maps the sample file onto categories, parents and children', async ({ request }) => {
+    const markdown = fs.readFileSync(path.join(__dirname, '../imports/sample-habits.md'), 'utf8');
+    const response = await request.post('/api/habits/import', { data: { markdown, dryRun: true } });
+    expect(response.ok()).toBeTruthy();
+    const { data } = await response.json();
+
+    expect(data.dryRun).toBe(true);
+    expect(data.categories.map((c: { name: string }) => c.name)).toContain('Fuel');
+    const timing = data.habits.find((h: ImportedHabit) => h.name === 'Timing');
+    expect(timing).toMatchObject({ categoryName: 'Fuel', parentName: null });
+    const fasting = data.habits.find((h: ImportedHabit) => h.name === 'Fasting Day (14+ hrs)');
+    expect(fasting).toMatchObject({ categoryName: 'Fuel', parentName: 'Timing' });
+
+    // The stray title line and the empty "# Growth" category are reported, not imported
+    expect(data.skipped.map((s: { line: number }) => s.line)).toEqual(expect.arrayContaining([1, 39]));
+  });
+
+  test('imports the hierarchy and annotations, then matches on re-import', async ({ request }) => {
+    const category = `Import ${Date.now()}`;
+    const markdown = [
+      `# ${category}`,
+      '## Hydration @color:#3b82f6',
+      '- Water @target:8 @unit:glasses',
+      '- Electrolytes @schedule:weekdays:mon,wed,fri',
+      '- Gym @schedule:weekly:3 @goal:80%',
+      '  - Stretch',
+      '- Bad schedule @schedule:weekly:9',
+    ].join('\n');
+
+    const created = await request.post('/api/habits/import', { data: { markdown } });
+    expect(created.status()).toBe(201);
+    const { data: result } = await created.json();
+    expect(result.habitsCreated).toBe(4);
+    expect(result.categoriesCreated).toBe(1);
+    expect(result.skipped).toHaveLength(1);
+    expect(result.skipped[0].reason).toContain('scheduleCount');
+
+    const { data: habits } = await (await request.get('/api/habits')).json();
+    const ours = habits.filter((h: { category?: { name: string } }) => h.category?.name === category);
+    const byName = (name: string) => ours.find((h: { name: string }) => h.name === name);
+
+    expect(byName('Hydration').iconColor).toBe('#3b82f6');
+    expect(byName('Water')).toMatchObject({ dailyTarget: 8, unit: 'glasses', parentHabitId: byName('Hydration').id });
+    expect(byName('Electrolytes')).toMatchObject({ scheduleType: 'weekdays', scheduleDays: [1, 3, 5] });
+    // Inside a "##" group, indenting is one level too deep
+    expect(byName('Stretch')).toBeUndefined();
+
+    const again = await request.post('/api/habits/import', { data: { markdown, dryRun: true } });
+    const { data: diff } = await again.json();
+    expect(diff.habits.every((h: ImportedHabit) => h.status === 'matched')).toBeTruthy();
+    expect(diff.categories[0].status).toBe('matched');
+
+    for (const habit of ours) {
+      await request.delete(`/api/habits/${habit.id}`);
+    }
+  });
+
+  test('indented bullets become children outside of groups; flat files still work', async ({ request }) => {
+    const category = `Flat ${Date.now()}`;
+    const nested = await request.post('/api/habits/import', {
+      data: { markdown: `# ${category}\n- Exercise\n  - Stretch\n  - Cardio`, dryRun: true },
+    });
+    const { data: nestedDiff } = await nested.json();
+    expect(nestedDiff.habits.filter((h: ImportedHabit) => h.parentName === 'Exercise')).toHaveLength(2);
+
+    const flat = await request.post('/api/habits/import', {
+      data: { markdown: `## ${category}\n- Wake Up @icon:material:WbSunny`, dryRun: true },
+    });
+    const { data: flatDiff } = await flat.json();
+    expect(flatDiff.habits[0]).toMatchObject({ name: 'Wake Up', categoryName: category, parentName: null });
+  });
+
+  test('rejects unknown annotations line by line', async ({ request }) => {
+    const response = await request.post('/api/habits/import', {
+      data: { markdown: '# Misc\n- Good habit\n- Odd habit @priority:high', dryRun: true },
+    });
+    const { data } = await response.json();
+    expect(data.habits).toHaveLength(1);
+    expect(data.skipped[0]).toMatchObject({ line: 3, reason: 'Unknown annotation @priority' });
+  });
+});
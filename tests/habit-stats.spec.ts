@@ -0,0 +1,114 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Habit Statistics Endpoint Tests
+ *
+ * GET /api/habits/:id/stats and GET /api/habits/stats (bulk) return streaks,
+ * completion rates over 7/30/90/365 days, best weekday and status distribution,
+ * computed server-side from habit entries. Empty days a habit's schedule doesn't make due
+ * (met weekly/monthly quotas, days between interval repeats) are skipped, not missed.
+ */
+
+// Shift an ISO date string (YYYY-MM-DD) by a number of days
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+test.describe('Habit Stats API', () => {
+  test('bulk stats return one entry per habit with all windows', async ({ request }) => {
+    const response = await request.get('/api/habits/stats');
+    expect(response.ok()).toBeTruthy();
+    const { data, count } = await response.json();
+
+    expect(Array.isArray(data)).toBeTruthy();
+    expect(count).toBe(data.length);
+
+    for (const stats of data) {
+      expect(stats.currentStreak).toBeLessThanOrEqual(stats.longestStreak);
+      expect(stats.completionRates.map((r: { days: number }) => r.days)).toEqual([7, 30, 90, 365]);
+      for (const rate of stats.completionRates) {
+        expect(rate.rate).toBeGreaterThanOrEqual(0);
+        expect(rate.rate).toBeLessThanOrEqual(100);
+      }
+    }
+  });
+
+  test('single habit stats counts a completed day toward the streak', async ({ request }) => {
+    const createResponse = await request.post('/api/habits', { data: { name: 'Stats streak test' } });
+    expect(createResponse.status()).toBe(201);
+    const { data: habit } = await createResponse.json();
+    const today = new Date().toISOString().split('T')[0];
+
+    await request.post(`/api/habits/${habit.id}/entries`, { data: { date: today, status: 'complete' } });
+
+    const response = await request.get(`/api/habits/${habit.id}/stats?today=${today}`);
+    expect(response.ok()).toBeTruthy();
+    const { data: stats } = await response.json();
+
+    expect(stats.habitId).toBe(habit.id);
+    expect(stats.currentStreak).toBe(1);
+    expect(stats.longestStreak).toBe(1);
+    expect(stats.statusDistribution.complete).toBe(1);
+    expect(stats.completionRates[0].rate).toBe(100);
+
+    await request.delete(`/api/habits/${habit.id}`);
+  });
+
+  test('weekly quota habits skip days once the quota is met', async ({ request }) => {
+    const { data: habit } = await (await request.post('/api/habits', {
+      data: { name: 'Stats weekly test', scheduleType: 'weekly', scheduleCount: 1 },
+    })).json();
+    const start = new Date().toISOString().split('T')[0];
+
+    // Once a week, a week apart - every week's quota is met whatever day weeks start on
+    for (const offset of [0, 7]) {
+      await request.post(`/api/habits/${habit.id}/entries`, { data: { date: addDays(start, offset), status: 'complete' } });
+    }
+
+    const response = await request.get(`/api/habits/${habit.id}/stats?today=${addDays(start, 13)}`);
+    const { data: stats } = await response.json();
+
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.longestStreak).toBe(2);
+    expect(stats.completionRates[0]).toMatchObject({ rate: 100, counted: 1 });
+
+    await request.delete(`/api/habits/${habit.id}`);
+  });
+
+  test('interval habits skip the days between repeats', async ({ request }) => {
+    const { data: habit } = await (await request.post('/api/habits', {
+      data: { name: 'Stats interval test', scheduleType: 'interval', scheduleCount: 2 },
+    })).json();
+    const start = new Date().toISOString().split('T')[0];
+
+    // Every other day, then day 6 is due and left empty
+    for (const offset of [0, 2, 4]) {
+      await request.post(`/api/habits/${habit.id}/entries`, { data: { date: addDays(start, offset), status: 'complete' } });
+    }
+
+    const response = await request.get(`/api/habits/${habit.id}/stats?today=${addDays(start, 7)}`);
+    const { data: stats } = await response.json();
+
+    expect(stats.currentStreak).toBe(0);
+    expect(stats.longestStreak).toBe(3);
+    expect(stats.completionRates[0]).toMatchObject({ rate: 67, counted: 3 }); // Days 2, 4 and the missed 6
+
+    await request.delete(`/api/habits/${habit.id}`);
+  });
+
+  test('rejects malformed today parameter', async ({ request }) => {
+    const response = await request.get('/api/habits/stats?today=yesterday');
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.code).toBe('VALIDATION_ERROR');
+  });
+
+  test('returns 404 for unknown habit', async ({ request }) => {
+    const response = await request.get('/api/habits/00000000-0000-0000-0000-000000000000/stats');
+    expect(response.status()).toBe(404);
+    const body = await response.json();
+    expect(body.code).toBe('HABIT_NOT_FOUND');
+  });
+});
@@ -189,4 +189,30 @@ test.describe('Kanban Views in Tasks Menu', () => {
       expect(isKanbanVisible || isTasksVisible).toBeTruthy();
     });
   });
+
+  test.describe('Project and Category Boards', () => {
+    test('project board renders a No Project column', async ({ page }) => {
+      await page.goto('/kanban/project');
+      await expect(page.getByTestId('project-board')).toBeVisible();
+      await expect(page.getByTestId('board-column-project:none')).toBeVisible();
+    });
+
+    test('category board groups unassigned tasks under Uncategorized', async ({ page }) => {
+      await page.goto('/kanban/category');
+      await expect(page.getByTestId('category-board')).toBeVisible();
+
+      const uncategorized = page.getByTestId('board-column-category:none');
+      await expect(uncategorized).toBeVisible();
+      await expect(uncategorized.getByTestId('board-group-project:none')).toBeVisible();
+    });
+
+    test('project board columns can be collapsed', async ({ page }) => {
+      await page.goto('/kanban/project');
+      const column = page.getByTestId('board-column-project:none');
+      await column.hover();
+      await column.locator('button[title="Hide No Project column"]').click();
+      await expect(column).toHaveCount(0);
+      await expect(page.locator('[title^="No Project ("]')).toBeVisible();
+    });
+  });
 });
@@ -0,0 +1,69 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Live Sync Tests
+ *
+ * Feature Overview:
+ * - GET /api/events streams change events (Server-Sent Events) for habits,
+ *   habit entries, tasks, parking lot and settings
+ * - Writes made in one tab invalidate the affected queries in other tabs
+ * - Settings exposes the polling interval used while the stream is down
+ */
+
+test.describe('Live Sync', () => {
+  test('publishes a change event when another client writes', async ({ page, request }) => {
+    await page.goto('/');
+
+    // Open a stream in the page and resolve with the first parking lot event
+    const eventPromise = page.evaluate(() => new Promise<{ entity: string; clientId?: string }>((resolve, reject) => {
+      const source = new EventSource('/api/events');
+      const timer = setTimeout(() => {
+        source.close();
+        reject(new Error('No change event received'));
+      }, 10000);
+      source.addEventListener('change', (e) => {
+        const event = JSON.parse((e as MessageEvent).data);
+        if (event.entity !== 'parkingLot') return;
+        clearTimeout(timer);
+        source.close();
+        resolve(event);
+      });
+    }));
+
+    // Give the stream a moment to connect before writing
+    await page.waitForTimeout(500);
+    const created = await request.post('/api/parking-lot', {
+      data: { content: 'Live sync test item' },
+      headers: { 'X-Client-Id': 'other-tab' },
+    });
+    expect(created.ok()).toBeTruthy();
+
+    const event = await eventPromise;
+    expect(event.entity).toBe('parkingLot');
+    expect(event.clientId).toBe('other-tab');
+
+    const { data } = await created.json();
+    await request.delete(`/api/parking-lot/${data.id}`);
+  });
+
+  test('updates another open tab without a reload', async ({ context, request }) => {
+    const pageA = await context.newPage();
+    const pageB = await context.newPage();
+    await pageA.goto('/settings');
+    await pageB.goto('/settings');
+    await expect(pageB.locator('[data-testid="auto-sync-interval"]')).toBeVisible();
+
+    const original = await pageB.locator('[data-testid="auto-sync-interval"]').inputValue();
+    const next = original === '60000' ? '30000' : '60000';
+
+    await request.put('/api/settings/autoSyncInterval', {
+      data: { value: Number(next) },
+      headers: { 'X-Client-Id': 'other-tab' },
+    });
+
+    // Well under the polling fallback, so the update must have come through the stream
+    await expect(pageB.locator('[data-testid="auto-sync-interval"]')).toHaveValue(next, { timeout: 5000 });
+
+    await request.put('/api/settings/autoSyncInterval', { data: { value: Number(original) } });
+  });
+});
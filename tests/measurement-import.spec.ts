@@ -0,0 +1,94 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Measurement Import Tests
+ *
+ * Feature Overview:
+ * - POST /api/measurements/:id/entries/import accepts { csv } or { rows } from device exports
+ * - Units (kg/lb, cm/in) are converted to the measurement's unit, from a unit column, the
+ *   value itself ("176 lb") or the value column's header ("Weight (lb)")
+ * - Several readings on one day are folded by the dedupe policy (latest, average, min)
+ * - Days already logged are replaced or kept (existing=replace|skip)
+ * - Unusable rows are reported as skipped; dryRun reports without writing
+ */
+
+test.describe('Measurement Import', () => {
+  let measurementId: string;
+
+  const importEntries = (request: import('@playwright/test').APIRequestContext, query: string, data: object) =>
+    request.post(`/api/measurements/${measurementId}/entries/import?${query}`, { data });
+
+  const entryValues = async (request: import('@playwright/test').APIRequestContext) => {
+    const { data } = await (await request.get(`/api/measurements/${measurementId}/entries`)).json();
+    return Object.fromEntries(data.map((e: { date: string; value: string }) => [e.date, parseFloat(e.value)]));
+  };
+
+  test.beforeEach(async ({ request }) => {
+    const response = await request.post('/api/measurements', {
+      data: { type: 'weight', name: `Import ${Date.now()}`, unit: 'kg' },
+    });
+    measurementId = (await response.json()).data.id;
+  });
+
+  test.afterEach(async ({ request }) => {
+    await request.delete(`/api/measurements/${measurementId}`);
+  });
+
+  test('imports a scale CSV converting pounds to kilograms', async ({ request }) => {
+    const csv = [
+      'Date,Time,Weight (lb),BMI',
+      '2026-01-01,19:30,182.5,24.1',
+      '2026-01-01,07:00,180,23.8',
+      '2026-01-02,07:05,179,23.6',
+    ].join('\n');
+
+    const response = await importEntries(request, 'dedupe=latest', { csv });
+    expect(response.status()).toBe(200);
+    const { data } = await response.json();
+    expect(data).toMatchObject({ created: 2, updated: 0, merged: 1, skippedCount: 0 });
+    expect(data.columns).toMatchObject({ date: 'Date', value: 'Weight (lb)' });
+
+    // Latest reading of the day wins, by time of day rather than file order
+    expect(await entryValues(request)).toEqual({ '2026-01-01': 82.78, '2026-01-02': 81.19 });
+  });
+
+  test('applies the dedupe policy and reports skipped rows', async ({ request }) => {
+    const rows = [
+      { date: '2026-02-01', value: 80, unit: 'kg' },
+      { date: '2026-02-01', value: 81, unit: 'kg' },
+      { date: 'yesterday', value: 80 },
+      { date: '2026-02-02', value: '' },
+      { date: '2026-02-03', value: 70, unit: 'cm' },
+    ];
+
+    const { data } = await (await importEntries(request, 'dedupe=average', { rows })).json();
+    expect(data.created).toBe(1);
+    expect(data.skipped).toEqual([
+      { row: 3, reason: 'Unrecognised date "yesterday"' },
+      { row: 4, reason: 'Missing value' },
+      { row: 5, reason: "Can't convert cm to kg" },
+    ]);
+    expect(await entryValues(request)).toEqual({ '2026-02-01': 80.5 });
+  });
+
+  test('keeps or replaces days already logged', async ({ request }) => {
+    await request.post(`/api/measurements/${measurementId}/entries`, { data: { date: '2026-03-01', value: 90 } });
+    const csv = 'date,value\n2026-03-01,91\n2026-03-02,92';
+
+    const kept = await (await importEntries(request, 'existing=skip', { csv })).json();
+    expect(kept.data).toMatchObject({ created: 1, updated: 0, skippedCount: 1 });
+    expect((await entryValues(request))['2026-03-01']).toBe(90);
+
+    const preview = await (await importEntries(request, 'existing=replace&dryRun=true', { csv })).json();
+    expect(preview.data).toMatchObject({ dryRun: true, updated: 2 });
+    expect((await entryValues(request))['2026-03-01']).toBe(90);
+
+    await importEntries(request, 'existing=replace', { csv });
+    expect((await entryValues(request))['2026-03-01']).toBe(91);
+  });
+
+  test('rejects files without a date column', async ({ request }) => {
+    const response = await importEntries(request, '', { csv: 'weight\n80' });
+    expect(response.status()).toBe(400);
+  });
+});
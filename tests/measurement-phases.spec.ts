@@ -0,0 +1,104 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Measurement Phase Tests
+ *
+ * Feature Overview:
+ * - Every measurement target is a phase with an optional name and its own date window
+ * - PATCH /api/measurements/:id/targets/:targetId/close ends a phase early (closedDate)
+ * - GET /api/measurements/:id/graph-data returns all phases, each line clipped to its window,
+ *   with achieved vs planned change; the current target is the latest open phase
+ */
+
+test.describe('Measurement Phases', () => {
+  let measurementId: string;
+  let cutId: string;
+
+  test.beforeEach(async ({ request }) => {
+    const response = await request.post('/api/measurements', {
+      data: { type: 'weight', name: `Phases ${Date.now()}`, unit: 'kg' },
+    });
+    measurementId = (await response.json()).data.id;
+
+    // A 10kg cut planned over 10 weeks
+    const cut = await request.post(`/api/measurements/${measurementId}/targets`, {
+      data: { name: 'Cut', startValue: 100, goalValue: 90, startDate: '2026-01-01', goalDate: '2026-03-12' },
+    });
+    cutId = (await cut.json()).data.id;
+    for (const [date, value] of [['2026-01-01', 100], ['2026-01-29', 97], ['2026-02-12', 95], ['2026-02-26', 96]] as const) {
+      await request.post(`/api/measurements/${measurementId}/entries`, { data: { date, value } });
+    }
+  });
+
+  test.afterEach(async ({ request }) => {
+    await request.delete(`/api/measurements/${measurementId}`);
+  });
+
+  test('closes a phase and clips its line to the window', async ({ request }) => {
+    const closed = await request.patch(`/api/measurements/${measurementId}/targets/${cutId}/close`, {
+      data: { date: '2026-02-12' },
+    });
+    expect(closed.status()).toBe(200);
+    expect((await closed.json()).data.closedDate).toBe('2026-02-12');
+
+    // Closing twice is a conflict
+    const again = await request.patch(`/api/measurements/${measurementId}/targets/${cutId}/close`, {
+      data: { date: '2026-02-13' },
+    });
+    expect(again.status()).toBe(409);
+
+    await request.post(`/api/measurements/${measurementId}/targets`, {
+      data: { name: 'Bulk', startValue: 95, goalValue: 98, startDate: '2026-02-12', goalDate: '2026-05-07' },
+    });
+
+    const { data } = await (await request.get(`/api/measurements/${measurementId}/graph-data`)).json();
+    expect(data.phases.map((p: { name: string }) => p.name)).toEqual(['Cut', 'Bulk']);
+    expect(data.phases[0]).toMatchObject({ endDate: '2026-02-12', isCurrent: false });
+    expect(data.phases[0].targetLine.at(-1).date).toBe('2026-02-12');
+    expect(data.target).toMatchObject({ name: 'Bulk', startValue: 95 });
+  });
+
+  test('reports achieved vs planned change per phase', async ({ request }) => {
+    await request.patch(`/api/measurements/${measurementId}/targets/${cutId}/close`, { data: { date: '2026-02-12' } });
+
+    const { data } = await (await request.get(`/api/measurements/${measurementId}/graph-data`)).json();
+    // Entries after the close date don't count towards the cut
+    expect(data.phases[0].stats).toMatchObject({
+      entryCount: 3,
+      endValue: 95,
+      plannedChange: -10,
+      plannedChangeToDate: -6,
+      achievedChange: -5,
+      percentAchieved: 50,
+    });
+  });
+
+  test('validates phase dates', async ({ request }) => {
+    const backwards = await request.post(`/api/measurements/${measurementId}/targets`, {
+      data: { startValue: 90, goalValue: 85, startDate: '2026-06-01', goalDate: '2026-05-01' },
+    });
+    expect(backwards.status()).toBe(400);
+
+    const earlyClose = await request.patch(`/api/measurements/${measurementId}/targets/${cutId}/close`, {
+      data: { date: '2025-12-01' },
+    });
+    expect(earlyClose.status()).toBe(400);
+  });
+
+  test('lists phases in the target config', async ({ page, request }) => {
+    await request.patch(`/api/measurements/${measurementId}/targets/${cutId}/close`, { data: { date: '2026-02-12' } });
+    await request.post(`/api/measurements/${measurementId}/targets`, {
+      data: { name: 'Bulk', startValue: 95, goalValue: 98, startDate: '2026-02-12', goalDate: '2026-05-07' },
+    });
+
+    await page.goto('/');
+    const row = page.locator('text=/Phases \\d+/').first();
+    await row.click();
+    await page.getByText('Configure target').click();
+
+    const phases = page.locator('[data-testid="target-phase"]');
+    await expect(phases).toHaveCount(2);
+    await expect(phases.filter({ hasText: 'Cut' })).toContainText('Closed');
+    await expect(phases.filter({ hasText: 'Cut' }).locator('[data-testid="phase-stats"]')).toContainText('-5.0 kg');
+  });
+});
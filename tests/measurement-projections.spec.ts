@@ -0,0 +1,73 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Measurement Projection Tests
+ *
+ * Feature Overview:
+ * - GET /api/measurements/:id/graph-data returns the target line plus a reach-goal line
+ *   and an "on track" band around the target
+ * - A rolling-average trend line (window query param, default 7 days)
+ * - A projected goal date from the recent pace (linear and exponential fits)
+ * - An ahead/behind-schedule delta for the latest entry
+ */
+
+test.describe('Measurement Projections', () => {
+  let measurementId: string;
+
+  test.beforeEach(async ({ request }) => {
+    const response = await request.post('/api/measurements', {
+      data: { type: 'weight', name: `Projection ${Date.now()}`, unit: 'kg' },
+    });
+    measurementId = (await response.json()).data.id;
+
+    // Losing 1kg a week from 100kg, goal 90kg by mid-March
+    await request.post(`/api/measurements/${measurementId}/targets`, {
+      data: { startValue: 100, goalValue: 90, reachGoalValue: 85, startDate: '2026-01-01', goalDate: '2026-03-12' },
+    });
+    for (const [date, value] of [['2026-01-01', 100], ['2026-01-08', 99], ['2026-01-15', 98], ['2026-01-22', 97]] as const) {
+      await request.post(`/api/measurements/${measurementId}/entries`, { data: { date, value } });
+    }
+  });
+
+  test.afterEach(async ({ request }) => {
+    await request.delete(`/api/measurements/${measurementId}`);
+  });
+
+  test('returns target, reach-goal and band lines', async ({ request }) => {
+    const { data } = await (await request.get(`/api/measurements/${measurementId}/graph-data`)).json();
+
+    expect(data.target.reachGoalValue).toBe(85);
+    expect(data.target.targetLine[0]).toEqual({ date: '2026-01-01', value: 100 });
+    expect(data.target.reachGoalLine.at(-1)).toEqual({ date: '2026-03-12', value: 85 });
+    // Band is 5% of the planned 10kg change either side of the target line
+    expect(data.target.band[0]).toEqual({ date: '2026-01-01', lower: 99.5, upper: 100.5 });
+  });
+
+  test('returns a rolling-average trend', async ({ request }) => {
+    const { data } = await (await request.get(`/api/measurements/${measurementId}/graph-data?window=8`)).json();
+    expect(data.trendLine.map((p: { value: number }) => p.value)).toEqual([100, 99.5, 98.5, 97.5]);
+  });
+
+  test('projects the goal date from recent pace', async ({ request }) => {
+    const { data } = await (await request.get(`/api/measurements/${measurementId}/graph-data`)).json();
+
+    // 1/7 kg per day from 97kg reaches 90kg 49 days after the last entry
+    expect(data.projection.linear).toEqual({ date: '2026-03-12', ratePerDay: -0.14 });
+    expect(data.projection.exponential.date).toMatch(/^2026-03-\d{2}$/);
+    expect(data.schedule).toMatchObject({ status: 'on-track', deltaDays: 0 });
+  });
+
+  test('reports behind schedule when the pace slips', async ({ request }) => {
+    await request.post(`/api/measurements/${measurementId}/entries`, { data: { date: '2026-01-29', value: 97.5 } });
+    const { data } = await (await request.get(`/api/measurements/${measurementId}/graph-data`)).json();
+
+    expect(data.schedule.status).toBe('behind');
+    expect(data.schedule.deltaValue).toBeLessThan(0);
+    expect(data.schedule.deltaDays).toBeLessThan(0);
+  });
+
+  test('rejects invalid trend window', async ({ request }) => {
+    const response = await request.get(`/api/measurements/${measurementId}/graph-data?window=0`);
+    expect(response.status()).toBe(400);
+  });
+});
@@ -0,0 +1,63 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Notification Tests
+ *
+ * Feature Overview:
+ * - Habits have an optional reminderTime (HH:MM), also available as @remind in markdown
+ * - Reminders, the end-of-day nudge and timer phase changes are shown through the
+ *   service worker at /sw.js once notifications are enabled in Settings
+ */
+
+test.describe('Notifications', () => {
+  test.describe('API', () => {
+    test('saves, clears and validates a habit reminder time', async ({ request }) => {
+      const created = await request.post('/api/habits', {
+        data: { name: `Reminder ${Date.now()}`, reminderTime: '07:45' },
+      });
+      expect(created.status()).toBe(201);
+      const { data: habit } = await created.json();
+      expect(habit.reminderTime).toBe('07:45');
+
+      const invalid = await request.put(`/api/habits/${habit.id}`, { data: { reminderTime: '25:00' } });
+      expect(invalid.status()).toBe(400);
+      expect((await invalid.json()).code).toBe('VALIDATION_ERROR');
+
+      const cleared = await request.put(`/api/habits/${habit.id}`, { data: { reminderTime: null } });
+      expect((await cleared.json()).data.reminderTime).toBeNull();
+
+      await request.delete(`/api/habits/${habit.id}`);
+    });
+
+    test('imports and exports reminder times as @remind', async ({ request }) => {
+      const category = `Remind ${Date.now()}`;
+      const imported = await request.post('/api/habits/import', {
+        data: { markdown: `# ${category}\n- Vitamins @remind:08:30` },
+      });
+      expect(imported.status()).toBe(201);
+
+      const { data: habits } = await (await request.get('/api/habits')).json();
+      const habit = habits.find((h: { category?: { name: string } }) => h.category?.name === category);
+      expect(habit.reminderTime).toBe('08:30');
+
+      const exported = await (await request.get('/api/habits/export?format=markdown')).text();
+      expect(exported).toContain('- Vitamins @remind:08:30');
+
+      await request.delete(`/api/habits/${habit.id}`);
+    });
+
+    test('serves the service worker', async ({ request }) => {
+      const response = await request.get('/sw.js');
+      expect(response.ok()).toBeTruthy();
+      expect(await response.text()).toContain('showNotification');
+    });
+  });
+
+  test.describe('UI', () => {
+    test('habit form has a reminder time', async ({ page }) => {
+      await page.goto('/manage/habits');
+      await page.getByRole('button', { name: /add habit/i }).first().click();
+      await expect(page.locator('[data-testid="habit-reminder-time"]')).toBeVisible();
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Offline Sync Tests
+ *
+ * Feature Overview:
+ * - Habit entry updates, task creates and parking lot creates are queued in
+ *   IndexedDB when the server is unreachable and applied optimistically
+ * - The queue is replayed in order once the server is reachable again
+ * - Replayed habit entry updates carry the entry's updatedAt; the server answers
+ *   409 CONFLICT if the entry changed in the meantime
+ * - Creates carry a client-generated id so replays never duplicate
+ * - The header shows how many changes are waiting to sync
+ */
+
+// Crypto-random v4 UUID for client-generated ids
+function uuid(): string {
+  return crypto.randomUUID();
+}
+
+test.describe('Offline Sync', () => {
+  test.describe('API', () => {
+    test('rejects a replayed habit entry update when the entry changed since', async ({ request }) => {
+      const habitsResponse = await request.get('/api/habits');
+      const { data: habits } = await habitsResponse.json();
+      test.skip(habits.length === 0, 'Needs at least one habit');
+      const habitId = habits[0].id;
+      const date = '2020-01-15';
+
+      const first = await request.post(`/api/habits/${habitId}/entries`, { data: { date, status: 'complete' } });
+      const { data: entry } = await first.json();
+
+      // Up to date baseline is accepted
+      const current = await request.post(`/api/habits/${habitId}/entries`, {
+        data: { date, status: 'missed', baseUpdatedAt: entry.updatedAt },
+      });
+      expect(current.ok()).toBeTruthy();
+
+      // Baseline from before that change is a conflict
+      const stale = await request.post(`/api/habits/${habitId}/entries`, {
+        data: { date, status: 'partial', baseUpdatedAt: entry.updatedAt },
+      });
+      expect(stale.status()).toBe(409);
+      const body = await stale.json();
+      expect(body.code).toBe('CONFLICT');
+      expect(body.data.status).toBe('missed');
+
+      // An offline "new entry" (null baseline) conflicts with an existing entry
+      const created = await request.post(`/api/habits/${habitId}/entries`, {
+        data: { date, status: 'partial', baseUpdatedAt: null },
+      });
+      expect(created.status()).toBe(409);
+
+      await request.post(`/api/habits/${habitId}/entries`, { data: { date, status: 'empty' } });
+    });
+
+    test('creating a task twice with the same id returns the original', async ({ request }) => {
+      const id = uuid();
+      const first = await request.post('/api/tasks', { data: { id, title: 'Offline task' } });
+      expect(first.status()).toBe(201);
+
+      const replay = await request.post('/api/tasks', { data: { id, title: 'Offline task' } });
+      expect(replay.status()).toBe(200);
+      expect((await replay.json()).data.id).toBe(id);
+
+      const invalid = await request.post('/api/tasks', { data: { id: 'not-a-uuid', title: 'Bad id' } });
+      expect(invalid.status()).toBe(400);
+
+      await request.delete(`/api/tasks/${id}`);
+    });
+
+    test('creating a parking lot item twice with the same id returns the original', async ({ request }) => {
+      const id = uuid();
+      const first = await request.post('/api/parking-lot', { data: { id, content: 'Offline idea' } });
+      expect(first.status()).toBe(201);
+
+      const replay = await request.post('/api/parking-lot', { data: { id, content: 'Offline idea' } });
+      expect(replay.status()).toBe(200);
+
+      await request.delete(`/api/parking-lot/${id}`);
+    });
+  });
+
+  test.describe('UI', () => {
+    test('queues habit updates while the server is unreachable and replays them', async ({ page }) => {
+      await page.goto('/');
+      const cell = page.locator('[data-testid="habit-matrix"] [role="button"][aria-label*="Click to cycle"]').first();
+      if (!(await cell.isVisible().catch(() => false))) {
+        test.skip();
+        return;
+      }
+
+      // Simulate the server going away for entry writes
+      await page.route('**/api/habits/*/entries', route =>
+        route.request().method() === 'POST' ? route.abort('connectionrefused') : route.continue()
+      );
+      const before = await cell.getAttribute('aria-label');
+      await cell.click();
+
+      const indicator = page.locator('[data-testid="pending-sync-indicator"]');
+      await expect(indicator).toBeVisible();
+      await expect(page.locator('[data-testid="pending-sync-count"]')).toHaveText('1 pending');
+      // Applied optimistically
+      await expect(cell).not.toHaveAttribute('aria-label', before ?? '');
+
+      // Server is back - the queue drains
+      await page.unroute('**/api/habits/*/entries');
+      await page.evaluate(() => window.dispatchEvent(new Event('online')));
+      await expect(indicator).toBeHidden({ timeout: 10000 });
+    });
+  });
+});
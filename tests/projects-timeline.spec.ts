@@ -0,0 +1,68 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Projects Timeline Tests
+ *
+ * Feature Overview:
+ * - The Projects page shows each project as a bar from startDate to targetDate
+ * - Bars are filled by task completion progress
+ * - Projects past their targetDate with open tasks are highlighted as overdue
+ * - Dragging a bar reschedules it via PUT /api/projects/:id
+ */
+
+test.describe('Projects Timeline', () => {
+  test.describe('API date validation', () => {
+    test('rejects a start date after the target date', async ({ request }) => {
+      const response = await request.post('/api/projects', {
+        data: { name: 'Timeline validation test', startDate: '2026-05-10', targetDate: '2026-05-01' },
+      });
+      expect(response.status()).toBe(400);
+      const body = await response.json();
+      expect(body.code).toBe('VALIDATION_ERROR');
+    });
+
+    test('single-date update cannot invert the range', async ({ request }) => {
+      const created = await request.post('/api/projects', {
+        data: { name: 'Timeline reschedule test', startDate: '2026-05-01', targetDate: '2026-05-10' },
+      });
+      expect(created.status()).toBe(201);
+      const { data: project } = await created.json();
+
+      const inverted = await request.put(`/api/projects/${project.id}`, {
+        data: { startDate: '2026-06-01' },
+      });
+      expect(inverted.status()).toBe(400);
+
+      const moved = await request.put(`/api/projects/${project.id}`, {
+        data: { startDate: '2026-05-03', targetDate: '2026-05-12' },
+      });
+      expect(moved.ok()).toBeTruthy();
+      const { data } = await moved.json();
+      expect(data.startDate).toBe('2026-05-03');
+      expect(data.targetDate).toBe('2026-05-12');
+
+      await request.delete(`/api/projects/${project.id}`);
+    });
+  });
+
+  test.describe('Page', () => {
+    test('renders scheduled projects as timeline bars', async ({ page, request }) => {
+      const created = await request.post('/api/projects', {
+        data: { name: 'Overdue timeline test', startDate: '2025-01-01', targetDate: '2025-01-14' },
+      });
+      const { data: project } = await created.json();
+
+      await page.goto('/projects');
+      await expect(page.getByTestId('projects-page')).toBeVisible();
+
+      const bar = page.getByTestId(`project-bar-${project.id}`);
+      await expect(bar).toBeVisible();
+      await expect(bar).toHaveAttribute('data-start', '2025-01-01');
+      await expect(bar).toHaveAttribute('data-end', '2025-01-14');
+      // Past target date with no completed tasks
+      await expect(bar).toHaveAttribute('data-overdue', 'true');
+
+      await request.delete(`/api/projects/${project.id}`);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Recurring Tasks Tests
+ *
+ * Feature Overview:
+ * - Tasks can recur daily, weekly on chosen days, or monthly on a day (RRULE strings accepted)
+ * - Completing an occurrence via PATCH /api/tasks/:id/status spawns the next one
+ * - GET /api/tasks/week/:weekStart materializes upcoming occurrences
+ * - Edits apply to "this" occurrence or "future" occurrences via scope
+ */
+
+// Shift a YYYY-MM-DD date by a number of days (UTC)
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+const today = new Date().toISOString().split('T')[0];
+
+test.describe('Recurring Tasks', () => {
+  test.describe('API', () => {
+    test('creates a series with the first occurrence on the planned date', async ({ request }) => {
+      const response = await request.post('/api/tasks', {
+        data: { title: 'Daily chore', plannedDate: today, recurrence: { frequency: 'daily', interval: 1 } },
+      });
+      expect(response.status()).toBe(201);
+      const { data } = await response.json();
+
+      expect(data.seriesId).toBeTruthy();
+      expect(data.plannedDate).toBe(today);
+      expect(data.seriesDate).toBe(today);
+      expect(data.series.frequency).toBe('daily');
+
+      await request.delete(`/api/tasks/${data.id}`);
+    });
+
+    test('accepts RRULE strings', async ({ request }) => {
+      const response = await request.post('/api/tasks', {
+        data: { title: 'Every other Monday', plannedDate: today, recurrence: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO' },
+      });
+      expect(response.status()).toBe(201);
+      const { data } = await response.json();
+
+      expect(data.series.frequency).toBe('weekly');
+      expect(data.series.interval).toBe(2);
+      expect(data.series.weekdays).toEqual([1]);
+      expect(new Date(`${data.plannedDate}T00:00:00Z`).getUTCDay()).toBe(1);
+
+      await request.delete(`/api/tasks/${data.id}`);
+    });
+
+    test('rejects invalid recurrence rules', async ({ request }) => {
+      const badFrequency = await request.post('/api/tasks', {
+        data: { title: 'Bad', recurrence: { frequency: 'hourly' } },
+      });
+      expect(badFrequency.status()).toBe(400);
+      expect((await badFrequency.json()).code).toBe('VALIDATION_ERROR');
+
+      const badRRule = await request.post('/api/tasks', {
+        data: { title: 'Bad', recurrence: 'FREQ=WEEKLY;BYSETPOS=1' },
+      });
+      expect(badRRule.status()).toBe(400);
+    });
+
+    test('completing an occurrence spawns the next one', async ({ request }) => {
+      const created = await request.post('/api/tasks', {
+        data: { title: 'Spawn test', plannedDate: today, recurrence: { frequency: 'daily', interval: 2 } },
+      });
+      const { data: task } = await created.json();
+
+      const completed = await request.patch(`/api/tasks/${task.id}/status`, { data: { status: 'complete' } });
+      expect(completed.ok()).toBeTruthy();
+
+      const listResponse = await request.get(`/api/tasks?startDate=${today}&endDate=${addDays(today, 7)}`);
+      const { data: list } = await listResponse.json();
+      const occurrences = list.filter((t: { seriesId: string }) => t.seriesId === task.seriesId);
+      expect(occurrences.map((t: { plannedDate: string }) => t.plannedDate)).toContain(addDays(today, 2));
+
+      for (const occurrence of occurrences) {
+        await request.delete(`/api/tasks/${occurrence.id}`);
+      }
+    });
+
+    test('week endpoint materializes upcoming occurrences', async ({ request }) => {
+      const created = await request.post('/api/tasks', {
+        data: { title: 'Weekly materialize', plannedDate: today, recurrence: { frequency: 'daily', interval: 1 } },
+      });
+      const { data: task } = await created.json();
+
+      const nextWeek = addDays(today, 7);
+      const response = await request.get(`/api/tasks/week/${nextWeek}`);
+      expect(response.ok()).toBeTruthy();
+      const { data } = await response.json();
+      const occurrences = data.filter((t: { seriesId: string }) => t.seriesId === task.seriesId);
+      expect(occurrences).toHaveLength(7);
+
+      // Materializing again does not duplicate occurrences
+      const again = await (await request.get(`/api/tasks/week/${nextWeek}`)).json();
+      expect(again.data.filter((t: { seriesId: string }) => t.seriesId === task.seriesId)).toHaveLength(7);
+
+      await request.put(`/api/tasks/${task.id}`, { data: { scope: 'future', recurrence: null } });
+    });
+
+    test('"future" edits update upcoming occurrences, "this" edits do not', async ({ request }) => {
+      const created = await request.post('/api/tasks', {
+        data: { title: 'Scope test', plannedDate: today, recurrence: { frequency: 'daily', interval: 1 } },
+      });
+      const { data: task } = await created.json();
+      const weekStart = addDays(today, 1);
+      await request.get(`/api/tasks/week/${weekStart}`);
+
+      const thisOnly = await request.put(`/api/tasks/${task.id}`, { data: { title: 'Only today', scope: 'this' } });
+      expect((await thisOnly.json()).data.title).toBe('Only today');
+      let week = (await (await request.get(`/api/tasks/week/${weekStart}`)).json()).data
+        .filter((t: { seriesId: string }) => t.seriesId === task.seriesId);
+      expect(week.every((t: { title: string }) => t.title === 'Scope test')).toBeTruthy();
+
+      await request.put(`/api/tasks/${task.id}`, { data: { title: 'Renamed', scope: 'future' } });
+      week = (await (await request.get(`/api/tasks/week/${weekStart}`)).json()).data
+        .filter((t: { seriesId: string }) => t.seriesId === task.seriesId);
+      expect(week.every((t: { title: string }) => t.title === 'Renamed')).toBeTruthy();
+
+      // Changing the rule requires scope=future
+      const ruleThis = await request.put(`/api/tasks/${task.id}`, {
+        data: { scope: 'this', recurrence: { frequency: 'weekly', interval: 1 } },
+      });
+      expect(ruleThis.status()).toBe(400);
+
+      // Ending the series removes pending future occurrences
+      await request.put(`/api/tasks/${task.id}`, { data: { scope: 'future', recurrence: null } });
+      week = (await (await request.get(`/api/tasks/week/${weekStart}`)).json()).data
+        .filter((t: { seriesId: string }) => t.seriesId === task.seriesId);
+      expect(week).toHaveLength(0);
+
+      await request.delete(`/api/tasks/${task.id}`);
+    });
+  });
+
+  test.describe('Task modal', () => {
+    test('shows repeat controls when creating a task', async ({ page }) => {
+      await page.goto('/kanban/status');
+      await page.waitForLoadState('networkidle');
+
+      const addButton = page.locator('button[title^="Add task to"]').first();
+      if (!(await addButton.isVisible().catch(() => false))) {
+        test.skip();
+        return;
+      }
+      await addButton.click();
+
+      const repeat = page.locator('[data-testid="task-repeat-select"]');
+      await expect(repeat).toBeVisible();
+      await repeat.selectOption('weekly');
+      await expect(page.locator('[data-testid="task-repeat-weekday-1"]')).toBeVisible();
+      await expect(page.locator('[data-testid="task-repeat-interval"]')).toHaveValue('1');
+    });
+  });
+});
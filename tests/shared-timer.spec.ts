@@ -0,0 +1,95 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Shared Timer Tests
+ *
+ * Feature Overview:
+ * - The active time block timer lives on the server (GET /api/time-blocks/timer)
+ * - start/pause/resume/reset/complete/stop endpoints under /api/time-blocks/:id/timer
+ * - Elapsed and remaining time are computed by the server, so every device shows the same countdown
+ * - Runs that end are logged as focus sessions (runs under a minute are ignored)
+ */
+
+test.describe('Shared Timer', () => {
+  test.describe.configure({ mode: 'serial' }); // One timer exists at a time
+
+  test('start, pause, resume and stop a timer', async ({ request }) => {
+    const { data: block } = await (await request.post('/api/time-blocks', {
+      data: { name: `Shared timer ${Date.now()}`, durationMinutes: 25 },
+    })).json();
+
+    const started = await request.post(`/api/time-blocks/${block.id}/timer/start`, {
+      data: { mode: 'pomodoro', phase: 'work', durationSeconds: 1500, completedSessions: 0 },
+    });
+    expect(started.ok()).toBeTruthy();
+    expect((await started.json()).data).toMatchObject({ blockId: block.id, status: 'running', remainingSeconds: 1500 });
+
+    // Any client sees the same timer
+    const { data: current } = await (await request.get('/api/time-blocks/timer')).json();
+    expect(current).toMatchObject({ blockId: block.id, status: 'running', phase: 'work' });
+
+    const paused = await request.post(`/api/time-blocks/${block.id}/timer/pause`);
+    expect((await paused.json()).data).toMatchObject({ status: 'paused', interruptions: 1 });
+
+    // Pausing twice is a conflict carrying the current state
+    const again = await request.post(`/api/time-blocks/${block.id}/timer/pause`);
+    expect(again.status()).toBe(409);
+    expect((await again.json()).data.status).toBe('paused');
+
+    const resumed = await request.post(`/api/time-blocks/${block.id}/timer/resume`);
+    expect((await resumed.json()).data.status).toBe('running');
+
+    // Too early to complete
+    const early = await request.post(`/api/time-blocks/${block.id}/timer/complete`, { data: { phase: 'break', completedSessions: 1 } });
+    expect(early.status()).toBe(409);
+
+    const reset = await request.post(`/api/time-blocks/${block.id}/timer/reset`, {
+      data: { phase: 'break', durationSeconds: 300, completedSessions: 1 },
+    });
+    expect((await reset.json()).data).toMatchObject({ status: 'idle', phase: 'break', remainingSeconds: 300, completedSessions: 1 });
+
+    const stopped = await request.post(`/api/time-blocks/${block.id}/timer/stop`);
+    expect((await stopped.json()).data).toBeNull();
+    expect((await (await request.get('/api/time-blocks/timer')).json()).data).toBeNull();
+
+    // Seconds-long runs are not logged
+    const { data: sessions } = await (await request.get(`/api/focus-sessions?blockId=${block.id}`)).json();
+    expect(sessions).toHaveLength(0);
+
+    await request.delete(`/api/time-blocks/${block.id}`);
+  });
+
+  test('starting on another block replaces the timer', async ({ request }) => {
+    const create = async (name: string) => (await (await request.post('/api/time-blocks', {
+      data: { name: `${name} ${Date.now()}`, durationMinutes: 10 },
+    })).json()).data;
+    const first = await create('First');
+    const second = await create('Second');
+
+    await request.post(`/api/time-blocks/${first.id}/timer/start`, { data: { mode: 'stopwatch' } });
+    await request.post(`/api/time-blocks/${second.id}/timer/start`, { data: { mode: 'countdown', durationSeconds: 600 } });
+
+    const { data: current } = await (await request.get('/api/time-blocks/timer')).json();
+    expect(current).toMatchObject({ blockId: second.id, mode: 'countdown' });
+    expect((await request.post(`/api/time-blocks/${first.id}/timer/pause`)).status()).toBe(404);
+
+    await request.post(`/api/time-blocks/${second.id}/timer/stop`);
+    await request.delete(`/api/time-blocks/${first.id}`);
+    await request.delete(`/api/time-blocks/${second.id}`);
+  });
+
+  test('validates start requests', async ({ request }) => {
+    const { data: block } = await (await request.post('/api/time-blocks', {
+      data: { name: `Invalid timer ${Date.now()}`, durationMinutes: 10 },
+    })).json();
+
+    const badMode = await request.post(`/api/time-blocks/${block.id}/timer/start`, { data: { mode: 'sprint' } });
+    expect(badMode.status()).toBe(400);
+    const noDuration = await request.post(`/api/time-blocks/${block.id}/timer/start`, { data: { mode: 'countdown' } });
+    expect(noDuration.status()).toBe(400);
+    const missing = await request.post(`/api/time-blocks/${crypto.randomUUID()}/timer/start`, { data: { mode: 'stopwatch' } });
+    expect(missing.status()).toBe(404);
+
+    await request.delete(`/api/time-blocks/${block.id}`);
+  });
+});
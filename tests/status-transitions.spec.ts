@@ -0,0 +1,101 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Status Transition Rules & WIP Limit Tests
+ *
+ * Feature Overview:
+ * - Breakout statuses (Blocked, Waiting) only return to their parent status by default
+ * - allowedTransitions on a status lists the statuses its tasks may move to
+ * - wipLimit caps the top-level tasks in a status
+ * - The tasks API rejects breaking moves with 409 INVALID_TRANSITION / WIP_LIMIT_EXCEEDED
+ */
+
+interface Status {
+  id: string;
+  name: string;
+}
+
+test.describe('Status Transitions', () => {
+  let statuses: Status[];
+  const created: string[] = [];
+  const changed: string[] = [];
+
+  const statusNamed = (name: string) => statuses.find((s) => s.name === name)!;
+
+  test.beforeEach(async ({ request }) => {
+    statuses = (await (await request.get('/api/statuses')).json()).data;
+  });
+
+  test.afterEach(async ({ request }) => {
+    for (const id of created) {
+      await request.delete(`/api/tasks/${id}`);
+    }
+    for (const id of changed) {
+      await request.put(`/api/statuses/${id}`, { data: { wipLimit: null, allowedTransitions: null } });
+    }
+    created.length = 0;
+    changed.length = 0;
+  });
+
+  const createTask = async (request: import('@playwright/test').APIRequestContext, statusId: string) => {
+    const response = await request.post('/api/tasks', { data: { title: `Transition ${Date.now()}`, statusId } });
+    const body = await response.json();
+    if (response.ok()) created.push(body.data.id);
+    return { response, body };
+  };
+
+  test('blocked tasks only return to their parent status', async ({ request }) => {
+    const { body } = await createTask(request, statusNamed('In Progress').id);
+    await request.patch(`/api/tasks/${body.data.id}/status`, { data: { statusId: statusNamed('Blocked').id } });
+
+    const skipped = await request.patch(`/api/tasks/${body.data.id}/status`, {
+      data: { statusId: statusNamed('Complete').id },
+    });
+    expect(skipped.status()).toBe(409);
+    expect((await skipped.json()).code).toBe('INVALID_TRANSITION');
+
+    const unblocked = await request.patch(`/api/tasks/${body.data.id}/status`, {
+      data: { statusId: statusNamed('In Progress').id },
+    });
+    expect(unblocked.status()).toBe(200);
+  });
+
+  test('follows a status allow-list', async ({ request }) => {
+    const todo = statusNamed('To Do');
+    changed.push(todo.id);
+    await request.put(`/api/statuses/${todo.id}`, { data: { allowedTransitions: [statusNamed('In Progress').id] } });
+
+    const { body } = await createTask(request, todo.id);
+    const review = await request.put(`/api/tasks/${body.data.id}`, { data: { statusId: statusNamed('Review').id } });
+    expect(review.status()).toBe(409);
+
+    const started = await request.put(`/api/tasks/${body.data.id}`, { data: { statusId: statusNamed('In Progress').id } });
+    expect(started.status()).toBe(200);
+  });
+
+  test('enforces the WIP limit of the status entered', async ({ request }) => {
+    const review = statusNamed('Review');
+    const { data: tasks } = await (await request.get(`/api/tasks?statusId=${review.id}`)).json();
+    const inReview = tasks.filter((t: { parentTaskId: string | null }) => !t.parentTaskId).length;
+
+    changed.push(review.id);
+    await request.put(`/api/statuses/${review.id}`, { data: { wipLimit: inReview + 1 } });
+
+    expect((await createTask(request, review.id)).response.status()).toBe(201);
+    const { response, body } = await createTask(request, review.id);
+    expect(response.status()).toBe(409);
+    expect(body).toMatchObject({
+      code: 'WIP_LIMIT_EXCEEDED',
+      data: { statusId: review.id, wipLimit: inReview + 1, count: inReview + 1 },
+    });
+  });
+
+  test('validates workflow rules', async ({ request }) => {
+    const review = statusNamed('Review');
+    const zero = await request.put(`/api/statuses/${review.id}`, { data: { wipLimit: 0 } });
+    expect(zero.status()).toBe(400);
+
+    const self = await request.put(`/api/statuses/${review.id}`, { data: { allowedTransitions: [review.id] } });
+    expect(self.status()).toBe(400);
+  });
+});
@@ -0,0 +1,109 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+/**
+ * Task Dependencies Tests
+ *
+ * Feature Overview:
+ * - A task can be blocked by other tasks (task_dependencies: taskId waits on dependsOnTaskId)
+ * - POST /api/task-dependencies rejects self-dependencies and anything that would close a cycle
+ * - While a blocker is open, the response suggests the Blocked breakout reachable from the task's status
+ * - GET /api/task-dependencies lists dependencies between live tasks, optionally for one task
+ */
+
+interface Status {
+  id: string;
+  name: string;
+}
+
+test.describe('Task Dependencies', () => {
+  let statuses: Status[];
+  const created: string[] = [];
+
+  const statusNamed = (name: string) => statuses.find((s) => s.name === name)!;
+
+  test.beforeEach(async ({ request }) => {
+    statuses = (await (await request.get('/api/statuses')).json()).data;
+  });
+
+  test.afterEach(async ({ request }) => {
+    for (const id of created) {
+      await request.delete(`/api/tasks/${id}`);
+    }
+    created.length = 0;
+  });
+
+  const createTask = async (request: APIRequestContext, data: object = {}) => {
+    const response = await request.post('/api/tasks', { data: { title: `Dependency ${Date.now()}`, ...data } });
+    const { data: task } = await response.json();
+    created.push(task.id);
+    return task;
+  };
+
+  const addDependency = (request: APIRequestContext, taskId: string, dependsOnTaskId: string) =>
+    request.post('/api/task-dependencies', { data: { taskId, dependsOnTaskId } });
+
+  test('creates, lists and removes a dependency', async ({ request }) => {
+    const blocker = await createTask(request);
+    const task = await createTask(request);
+
+    const response = await addDependency(request, task.id, blocker.id);
+    expect(response.status()).toBe(201);
+    const { data } = await response.json();
+    expect(data.dependency.taskId).toBe(task.id);
+    expect(data.dependency.dependsOnTaskId).toBe(blocker.id);
+
+    // Adding the same pair again is not an error
+    expect((await addDependency(request, task.id, blocker.id)).status()).toBe(200);
+
+    const list = await (await request.get(`/api/task-dependencies?taskId=${blocker.id}`)).json();
+    expect(list.count).toBe(1);
+    expect(list.data[0].task.title).toBe(task.title);
+    expect(list.data[0].dependsOn.title).toBe(blocker.title);
+
+    expect((await request.delete(`/api/task-dependencies/${data.dependency.id}`)).status()).toBe(204);
+    const after = await (await request.get(`/api/task-dependencies?taskId=${blocker.id}`)).json();
+    expect(after.count).toBe(0);
+  });
+
+  test('rejects a task depending on itself', async ({ request }) => {
+    const task = await createTask(request);
+    const response = await addDependency(request, task.id, task.id);
+    expect(response.status()).toBe(400);
+  });
+
+  test('rejects direct and indirect cycles', async ({ request }) => {
+    const a = await createTask(request);
+    const b = await createTask(request);
+    const c = await createTask(request);
+
+    await addDependency(request, b.id, a.id); // b waits on a
+    await addDependency(request, c.id, b.id); // c waits on b
+
+    const direct = await addDependency(request, a.id, b.id);
+    expect(direct.status()).toBe(409);
+    const directBody = await direct.json();
+    expect(directBody.code).toBe('DEPENDENCY_CYCLE');
+    expect(directBody.data.path).toEqual([a.id, b.id, a.id]);
+
+    const indirect = await addDependency(request, a.id, c.id);
+    expect(indirect.status()).toBe(409);
+    const indirectBody = await indirect.json();
+    expect(indirectBody.code).toBe('DEPENDENCY_CYCLE');
+    expect(indirectBody.data.path).toEqual([a.id, c.id, b.id, a.id]);
+  });
+
+  test('suggests Blocked while a blocker is open', async ({ request }) => {
+    const blocker = await createTask(request);
+    const task = await createTask(request, { statusId: statusNamed('In Progress').id });
+
+    const response = await addDependency(request, task.id, blocker.id);
+    const { data } = await response.json();
+    expect(data.suggestedStatus?.name).toBe('Blocked');
+
+    // No suggestion once the blocker is complete
+    await request.patch(`/api/tasks/${blocker.id}/status`, { data: { complete: true } });
+    const other = await createTask(request, { statusId: statusNamed('In Progress').id });
+    const done = await (await addDependency(request, other.id, blocker.id)).json();
+    expect(done.data.suggestedStatus).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+/**
+ * Task Filter Tests
+ *
+ * Feature Overview:
+ * - GET /api/tasks filters on the server by tags (any/all), status ids, priority range,
+ *   text search, overdue, has-subtasks and unscheduled (id lists comma-separated)
+ * - Saved filters (/api/task-filters) store the same criteria under a name, can be pinned,
+ *   and are applied with GET /api/tasks?filterId=
+ */
+
+interface Task {
+  id: string;
+  title: string;
+}
+
+test.describe('Task Filters', () => {
+  const createdTasks: string[] = [];
+  const createdTags: string[] = [];
+  const createdFilters: string[] = [];
+  let marker: string;
+
+  test.beforeEach(() => {
+    marker = `Filtered ${Date.now()}`;
+  });
+
+  test.afterEach(async ({ request }) => {
+    for (const id of createdFilters) await request.delete(`/api/task-filters/${id}`);
+    for (const id of createdTasks) await request.delete(`/api/tasks/${id}`);
+    for (const id of createdTags) await request.delete(`/api/tags/${id}`);
+    createdFilters.length = 0;
+    createdTasks.length = 0;
+    createdTags.length = 0;
+  });
+
+  const createTask = async (request: APIRequestContext, title: string, data: object = {}): Promise<Task> => {
+    const response = await request.post('/api/tasks', { data: { title: `${marker} ${title}`, ...data } });
+    const { data: task } = await response.json();
+    createdTasks.push(task.id);
+    return task;
+  };
+
+  const createTag = async (request: APIRequestContext, name: string) => {
+    const { data: tag } = await (await request.post('/api/tags', { data: { name: `${marker} ${name}` } })).json();
+    createdTags.push(tag.id);
+    return tag;
+  };
+
+  // Titles of matching tasks from this test, sorted
+  const titles = async (request: APIRequestContext, query: string) => {
+    const response = await request.get(`/api/tasks?search=${encodeURIComponent(marker)}&${query}`);
+    expect(response.status()).toBe(200);
+    const { data } = await response.json();
+    return data.map((task: Task) => task.title.slice(marker.length + 1)).sort();
+  };
+
+  test('filters by tags with any and all matching', async ({ request }) => {
+    const red = await createTag(request, 'red');
+    const blue = await createTag(request, 'blue');
+    await createTask(request, 'both', { tagIds: [red.id, blue.id] });
+    await createTask(request, 'red', { tagIds: [red.id] });
+    await createTask(request, 'none');
+
+    expect(await titles(request, `tagIds=${red.id},${blue.id}`)).toEqual(['both', 'red']);
+    expect(await titles(request, `tagIds=${red.id},${blue.id}&tagMatch=all`)).toEqual(['both']);
+  });
+
+  test('filters by priority range, schedule and overdue', async ({ request }) => {
+    await createTask(request, 'p1 overdue', { priority: 1, plannedDate: '2020-01-01' });
+    await createTask(request, 'p3 future', { priority: 3, plannedDate: '2999-01-01' });
+    await createTask(request, 'p2 unscheduled', { priority: 2 });
+
+    expect(await titles(request, 'priorityMax=2')).toEqual(['p1 overdue', 'p2 unscheduled']);
+    expect(await titles(request, 'priorityMin=2&priorityMax=3')).toEqual(['p2 unscheduled', 'p3 future']);
+    expect(await titles(request, 'overdue=true')).toEqual(['p1 overdue']);
+    expect(await titles(request, 'overdue=false')).toEqual(['p2 unscheduled', 'p3 future']);
+    expect(await titles(request, 'unscheduled=true')).toEqual(['p2 unscheduled']);
+  });
+
+  test('filters by subtasks and searches descriptions', async ({ request }) => {
+    const parent = await createTask(request, 'parent');
+    await createTask(request, 'child', { parentTaskId: parent.id, description: 'needle in here' });
+
+    expect(await titles(request, 'hasSubtasks=true')).toEqual(['parent']);
+    expect(await titles(request, 'hasSubtasks=false')).toEqual(['child']);
+
+    const { data } = await (await request.get('/api/tasks?search=NEEDLE')).json();
+    expect(data.map((task: Task) => task.id)).toContain(createdTasks[1]);
+  });
+
+  test('rejects invalid criteria', async ({ request }) => {
+    expect((await request.get('/api/tasks?tagIds=not-an-id')).status()).toBe(400);
+    expect((await request.get('/api/tasks?priorityMin=3&priorityMax=1')).status()).toBe(400);
+    expect((await request.get('/api/tasks?overdue=maybe')).status()).toBe(400);
+  });
+
+  test('saves, pins and applies a named filter', async ({ request }) => {
+    await createTask(request, 'p1 overdue', { priority: 1, plannedDate: '2020-01-01' });
+    await createTask(request, 'p2 overdue', { priority: 2, plannedDate: '2020-01-01' });
+
+    const response = await request.post('/api/task-filters', {
+      data: { name: `${marker} P1 overdue`, priorityMax: 1, overdue: true, search: marker },
+    });
+    expect(response.status()).toBe(201);
+    const { data: saved } = await response.json();
+    createdFilters.push(saved.id);
+    expect(saved.isPinned).toBe(false);
+
+    const pinned = await (await request.put(`/api/task-filters/${saved.id}`, { data: { isPinned: true } })).json();
+    expect(pinned.data.isPinned).toBe(true);
+    expect(pinned.data.priorityMax).toBe(1); // Pinning leaves the criteria alone
+
+    const list = await (await request.get('/api/task-filters')).json();
+    const listed = list.data.find((filter: { id: string }) => filter.id === saved.id);
+    expect(listed.taskCount).toBe(1);
+
+    const { data: matching } = await (await request.get(`/api/tasks?filterId=${saved.id}`)).json();
+    expect(matching.map((task: Task) => task.title)).toEqual([`${marker} p1 overdue`]);
+
+    expect((await request.post('/api/task-filters', { data: { name: '' } })).status()).toBe(400);
+    expect((await request.get('/api/tasks?filterId=00000000-0000-0000-0000-000000000000')).status()).toBe(404);
+  });
+});
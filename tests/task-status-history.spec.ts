@@ -0,0 +1,100 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Task Status History Tests
+ *
+ * Feature Overview:
+ * - Every status change (including creation) is logged to task_status_events
+ * - GET /api/tasks/:id/history lists a task's changes, oldest first
+ * - GET /api/analytics/task-cycle-time reports lead time, cycle time and time in each
+ *   status of completed tasks, overall, per week and per project
+ */
+
+interface Status {
+  id: string;
+  name: string;
+}
+
+test.describe('Task Status History', () => {
+  let statuses: Status[];
+  const created: string[] = [];
+
+  const statusNamed = (name: string) => statuses.find((s) => s.name === name)!;
+
+  test.beforeEach(async ({ request }) => {
+    statuses = (await (await request.get('/api/statuses')).json()).data;
+  });
+
+  test.afterEach(async ({ request }) => {
+    for (const id of created) {
+      await request.delete(`/api/tasks/${id}`);
+    }
+    created.length = 0;
+  });
+
+  const createTask = async (request: import('@playwright/test').APIRequestContext, data: object = {}) => {
+    const response = await request.post('/api/tasks', { data: { title: `History ${Date.now()}`, ...data } });
+    const { data: task } = await response.json();
+    created.push(task.id);
+    return task;
+  };
+
+  const moveTo = (request: import('@playwright/test').APIRequestContext, taskId: string, name: string) =>
+    request.patch(`/api/tasks/${taskId}/status`, { data: { statusId: statusNamed(name).id } });
+
+  test('logs creation and every move', async ({ request }) => {
+    const task = await createTask(request, { statusId: statusNamed('To Do').id });
+    await moveTo(request, task.id, 'In Progress');
+    await moveTo(request, task.id, 'In Progress'); // Not a change
+    await moveTo(request, task.id, 'Blocked');
+    await moveTo(request, task.id, 'In Progress');
+    await request.put(`/api/tasks/${task.id}`, { data: { statusId: statusNamed('Complete').id } });
+
+    const response = await request.get(`/api/tasks/${task.id}/history`);
+    expect(response.status()).toBe(200);
+    const { data, count } = await response.json();
+    expect(count).toBe(5);
+    expect(data.map((event: { toStatus: Status }) => event.toStatus.name)).toEqual([
+      'To Do', 'In Progress', 'Blocked', 'In Progress', 'Complete',
+    ]);
+    expect(data[0].fromStatusId).toBeNull();
+    expect(data[2].fromStatus.name).toBe('In Progress');
+  });
+
+  test('returns 404 for the history of an unknown task', async ({ request }) => {
+    const response = await request.get('/api/tasks/00000000-0000-0000-0000-000000000000/history');
+    expect(response.status()).toBe(404);
+  });
+
+  test('reports cycle time and time in status for completed tasks', async ({ request }) => {
+    const project = (await (await request.post('/api/projects', { data: { name: `Cycle ${Date.now()}` } })).json()).data;
+    const task = await createTask(request, { projectId: project.id });
+    await moveTo(request, task.id, 'To Do');
+    await moveTo(request, task.id, 'In Progress');
+    await moveTo(request, task.id, 'Blocked');
+    await moveTo(request, task.id, 'In Progress');
+    await request.patch(`/api/tasks/${task.id}/status`, { data: { complete: true } });
+
+    const response = await request.get('/api/analytics/task-cycle-time?interval=week');
+    expect(response.status()).toBe(200);
+    const { data } = await response.json();
+
+    expect(data.startStatusId).toBe(statusNamed('In Progress').id);
+    expect(data.byPeriod.length).toBe(data.periods.length);
+    expect(data.overall.completed).toBeGreaterThanOrEqual(1);
+
+    const row = data.byProject.find((p: { id: string }) => p.id === project.id);
+    expect(row.completed).toBe(1);
+    expect(row.leadTimeHours).toBeGreaterThanOrEqual(row.cycleTimeHours);
+    expect(row.timeInStatus.map((entry: { statusId: string }) => entry.statusId)).toEqual(
+      expect.arrayContaining([statusNamed('Blocked').id, statusNamed('In Progress').id])
+    );
+
+    await request.delete(`/api/projects/${project.id}`);
+  });
+
+  test('validates the cycle-time start status', async ({ request }) => {
+    const response = await request.get(`/api/analytics/task-cycle-time?startStatusId=${statusNamed('Blocked').id}`);
+    expect(response.status()).toBe(400);
+  });
+});
@@ -0,0 +1,111 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Task Status Workflow Tests
+ *
+ * Feature Overview:
+ * - Every task has a statusId; new tasks start in the initial status
+ * - Statuses marked isTerminal complete a task: completedAt and the legacy status follow statusId
+ * - The legacy status and completedAt are read-only on POST/PUT
+ * - PATCH /api/tasks/:id/status takes { statusId } or { complete } (terminal / initial status)
+ * - GET /api/tasks?status=complete|pending filters by terminal statuses
+ */
+
+interface Status {
+  id: string;
+  name: string;
+  isInitialStatus: boolean;
+  isTerminal: boolean;
+  isBreakout: boolean;
+}
+
+test.describe('Task Status Workflow', () => {
+  let statuses: Status[];
+  const created: string[] = [];
+
+  const statusNamed = (name: string) => statuses.find((s) => s.name === name)!;
+
+  test.beforeEach(async ({ request }) => {
+    statuses = (await (await request.get('/api/statuses')).json()).data;
+  });
+
+  test.afterEach(async ({ request }) => {
+    for (const id of created) {
+      await request.delete(`/api/tasks/${id}`);
+    }
+    created.length = 0;
+  });
+
+  const createTask = async (request: import('@playwright/test').APIRequestContext, data: object) => {
+    const response = await request.post('/api/tasks', { data: { title: `Workflow ${Date.now()}`, ...data } });
+    const body = await response.json();
+    if (response.ok()) created.push(body.data.id);
+    return { response, body };
+  };
+
+  test('marks the Complete default status terminal', async () => {
+    expect(statuses.filter((s) => s.isTerminal).map((s) => s.name)).toContain('Complete');
+  });
+
+  test('new tasks start in the initial status', async ({ request }) => {
+    const { body } = await createTask(request, {});
+    expect(body.data.statusId).toBe(statuses.find((s) => s.isInitialStatus)!.id);
+    expect(body.data.status).toBe('pending');
+    expect(body.data.completedAt).toBeNull();
+  });
+
+  test('moving into a terminal status completes the task', async ({ request }) => {
+    const { body } = await createTask(request, { statusId: statusNamed('In Progress').id });
+
+    const moved = await request.put(`/api/tasks/${body.data.id}`, { data: { statusId: statusNamed('Complete').id } });
+    const { data } = await moved.json();
+    expect(data.status).toBe('complete');
+    expect(data.completedAt).toBeTruthy();
+    expect(data.taskStatus.isTerminal).toBe(true);
+
+    const reopened = await request.put(`/api/tasks/${body.data.id}`, { data: { statusId: statusNamed('Review').id } });
+    expect((await reopened.json()).data).toMatchObject({ status: 'pending', completedAt: null });
+  });
+
+  test('checks off and reopens via the status endpoint', async ({ request }) => {
+    const { body } = await createTask(request, { statusId: statusNamed('To Do').id });
+
+    const completed = await request.patch(`/api/tasks/${body.data.id}/status`, { data: { complete: true } });
+    expect((await completed.json()).data.statusId).toBe(statusNamed('Complete').id);
+
+    const open = await (await request.get('/api/tasks?status=pending')).json();
+    expect(open.data.map((t: { id: string }) => t.id)).not.toContain(body.data.id);
+    const done = await (await request.get('/api/tasks?status=complete')).json();
+    expect(done.data.map((t: { id: string }) => t.id)).toContain(body.data.id);
+
+    const reopened = await request.patch(`/api/tasks/${body.data.id}/status`, { data: { complete: false } });
+    expect((await reopened.json()).data).toMatchObject({
+      statusId: statuses.find((s) => s.isInitialStatus)!.id,
+      status: 'pending',
+      completedAt: null,
+    });
+  });
+
+  test('rejects writes to the derived fields', async ({ request }) => {
+    const legacy = await createTask(request, { status: 'complete' });
+    expect(legacy.response.status()).toBe(400);
+    expect(legacy.body.code).toBe('VALIDATION_ERROR');
+
+    const { body } = await createTask(request, {});
+    const completedAt = await request.put(`/api/tasks/${body.data.id}`, { data: { completedAt: new Date().toISOString() } });
+    expect(completedAt.status()).toBe(400);
+
+    const unknownStatus = await request.put(`/api/tasks/${body.data.id}`, {
+      data: { statusId: '00000000-0000-0000-0000-000000000000' },
+    });
+    expect(unknownStatus.status()).toBe(400);
+  });
+
+  test('keeps at least one terminal status', async ({ request }) => {
+    const terminal = statuses.filter((s) => s.isTerminal);
+    test.skip(terminal.length !== 1, 'Workflow has several terminal statuses');
+
+    const response = await request.put(`/api/statuses/${terminal[0].id}`, { data: { isTerminal: false } });
+    expect(response.status()).toBe(400);
+  });
+});
@@ -0,0 +1,89 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Time Block Schedule Tests
+ *
+ * Feature Overview:
+ * - Time blocks can have a start time (HH:MM), weekdays they recur on and auto-start
+ * - The Time Blocks page places scheduled blocks on a day calendar
+ * - A now/next indicator shows the current and upcoming scheduled block
+ * - Tasks dropped on a block (from Weekly Tasks) are assigned via tasks.timeBlockId,
+ *   and the time block list includes each block's tasks
+ */
+
+test.describe('Time Block Schedule', () => {
+  test.describe('API', () => {
+    test('stores start time, weekdays and auto-start', async ({ request }) => {
+      const response = await request.post('/api/time-blocks', {
+        data: { name: `Scheduled ${Date.now()}`, durationMinutes: 60, startTime: '09:30', weekdays: [5, 1, 3, 1], autoStart: true },
+      });
+      expect(response.status()).toBe(201);
+      const { data: block } = await response.json();
+      expect(block).toMatchObject({ startTime: '09:30', weekdays: [1, 3, 5], autoStart: true });
+
+      // Unscheduling clears auto-start; an empty weekday list means every day
+      const updated = await request.put(`/api/time-blocks/${block.id}`, { data: { startTime: null, weekdays: [] } });
+      expect((await updated.json()).data).toMatchObject({ startTime: null, weekdays: null, autoStart: false });
+
+      await request.delete(`/api/time-blocks/${block.id}`);
+    });
+
+    test('rejects invalid schedules', async ({ request }) => {
+      const base = { name: `Invalid schedule ${Date.now()}`, durationMinutes: 30 };
+
+      expect((await request.post('/api/time-blocks', { data: { ...base, startTime: '25:00' } })).status()).toBe(400);
+      expect((await request.post('/api/time-blocks', { data: { ...base, startTime: '09:00', weekdays: [7] } })).status()).toBe(400);
+      expect((await request.post('/api/time-blocks', { data: { ...base, autoStart: true } })).status()).toBe(400);
+    });
+
+    test('lists tasks assigned to a block', async ({ request }) => {
+      const { data: block } = await (await request.post('/api/time-blocks', {
+        data: { name: `Task slot ${Date.now()}`, durationMinutes: 45, startTime: '14:00' },
+      })).json();
+      const { data: task } = await (await request.post('/api/tasks', {
+        data: { title: `Slotted task ${Date.now()}` },
+      })).json();
+
+      await request.put(`/api/tasks/${task.id}`, { data: { timeBlockId: block.id } });
+
+      const { data: blocks } = await (await request.get('/api/time-blocks')).json();
+      const listed = blocks.find((b: { id: string }) => b.id === block.id);
+      expect(listed.tasks.map((t: { id: string }) => t.id)).toContain(task.id);
+
+      await request.delete(`/api/tasks/${task.id}`);
+      await request.delete(`/api/time-blocks/${block.id}`);
+    });
+  });
+
+  test.describe('Time Blocks page', () => {
+    test('places a scheduled block on the day calendar', async ({ page, request }) => {
+      const name = `Calendar block ${Date.now()}`;
+      const { data: block } = await (await request.post('/api/time-blocks', {
+        data: { name, durationMinutes: 60, startTime: '10:00' },
+      })).json();
+
+      await page.goto('/time-blocks');
+      const calendarBlock = page.locator('[data-testid="calendar-block"]', { hasText: name });
+      await expect(calendarBlock).toBeVisible();
+      await expect(calendarBlock).toContainText('10:00 AM - 11:00 AM');
+      await expect(page.locator('[data-testid="now-next-indicator"]')).toBeVisible();
+
+      await request.delete(`/api/time-blocks/${block.id}`);
+    });
+
+    test('only shows blocks on their weekdays', async ({ page, request }) => {
+      const name = `Weekday block ${Date.now()}`;
+      const tomorrow = (new Date().getDay() + 1) % 7;
+      const { data: block } = await (await request.post('/api/time-blocks', {
+        data: { name, durationMinutes: 30, startTime: '12:00', weekdays: [tomorrow] },
+      })).json();
+
+      await page.goto('/time-blocks');
+      await expect(page.locator('[data-testid="calendar-block"]', { hasText: name })).toHaveCount(0);
+      await page.getByTitle('Next day').click();
+      await expect(page.locator('[data-testid="calendar-block"]', { hasText: name })).toBeVisible();
+
+      await request.delete(`/api/time-blocks/${block.id}`);
+    });
+  });
+});